@@ -18,15 +18,23 @@ import { Category } from './categories/entities/category.entity';
 import { InventoryModule } from './inventory/inventory.module';
 import { Inventory } from './inventory/entities/inventory.entity';
 import { InventoryAdjustment } from './inventory/entities/inventory-adjustment.entity';
+import { StockReservation } from './inventory/entities/stock-reservation.entity';
+import { InventoryLot } from './inventory/entities/inventory-lot.entity';
+import { StockMovement } from './inventory/entities/stock-movement.entity';
+import { Stocktake } from './inventory/entities/stocktake.entity';
+import { StocktakeLine } from './inventory/entities/stocktake-line.entity';
 import { CustomersModule } from './customers/customers.module';
 import { SkinAnalysisModule } from './skin-analysis/skin-analysis.module';
 import { OrdersModule } from './orders/orders.module';
 import { Order } from './orders/entities/order.entity';
 import { OrderItem } from './orders/entities/order-item.entity';
+import { OrderQuote } from './orders/entities/order-quote.entity';
+import { OrderStatusHistory } from './orders/entities/order-status-history.entity';
 import { TransactionsModule } from './transactions/transactions.module';
 import { Transaction } from './transactions/entities/transaction.entity';
 import { ShippingLogsModule } from './shipping-logs/shipping-logs.module';
 import { ShippingLog } from './shipping-logs/entities/shipping-log.entity';
+import { ShippingZone } from './shipping-logs/entities/shipping-zone.entity';
 import { DermatologistsController } from './dermatologists/dermatologists.controller';
 import { DermatologistsModule } from './dermatologists/dermatologists.module';
 import { EmailModule } from './email/email.module';
@@ -69,6 +77,32 @@ import { ReturnRequestsModule } from './return-requests/return-requests.module';
 import { ReturnRequest } from './return-requests/entities/return-request.entity';
 import { RatingsModule } from './ratings/ratings.module';
 import { Rating } from './ratings/entities/rating.entity';
+import { LedgerModule } from './ledger/ledger.module';
+import { LedgerAccount } from './ledger/entities/ledger-account.entity';
+import { LedgerEntry } from './ledger/entities/ledger-entry.entity';
+import { LedgerTransaction } from './ledger/entities/ledger-transaction.entity';
+import { SepayWebhookEvent } from './payments/entities/sepay-webhook-event.entity';
+import { UnmatchedTransaction } from './payments/entities/unmatched-transaction.entity';
+import { PaymentReconciliationReport } from './payments/entities/payment-reconciliation-report.entity';
+import { Refund } from './payments/entities/refund.entity';
+import { CommissionsModule } from './commissions/commissions.module';
+import { CommissionRule } from './commissions/entities/commission-rule.entity';
+import { PromotionsModule } from './promotions/promotions.module';
+import { Promotion } from './promotions/entities/promotion.entity';
+import { PromotionRedemption } from './promotions/entities/promotion-redemption.entity';
+import { ReplenishmentsModule } from './replenishments/replenishments.module';
+import { ReplenishmentSubscription } from './replenishments/entities/replenishment-subscription.entity';
+import { WarehousesModule } from './warehouses/warehouses.module';
+import { Warehouse } from './warehouses/entities/warehouse.entity';
+import { WarehouseStock } from './warehouses/entities/warehouse-stock.entity';
+import { StockTransfer } from './warehouses/entities/stock-transfer.entity';
+import { WishlistModule } from './wishlist/wishlist.module';
+import { WishlistItem } from './wishlist/entities/wishlist-item.entity';
+import { PurchaseOrdersModule } from './purchase-orders/purchase-orders.module';
+import { Supplier } from './purchase-orders/entities/supplier.entity';
+import { PurchaseOrder } from './purchase-orders/entities/purchase-order.entity';
+import { PurchaseOrderLine } from './purchase-orders/entities/purchase-order-line.entity';
+import { GoodsReceipt } from './purchase-orders/entities/goods-receipt.entity';
 
 @Module({
   imports: [
@@ -95,10 +129,18 @@ import { Rating } from './ratings/entities/rating.entity';
         SkinAnalysis,
         Inventory,
         InventoryAdjustment,
+        StockReservation,
+        InventoryLot,
+        StockMovement,
+        Stocktake,
+        StocktakeLine,
         Order,
         OrderItem,
+        OrderQuote,
+        OrderStatusHistory,
         Transaction,
         ShippingLog,
+        ShippingZone,
         Appointment,
         TreatmentRoutine,
         RoutineDetail,
@@ -116,6 +158,25 @@ import { Rating } from './ratings/entities/rating.entity';
         WithdrawalOtpSession,
         Specialization,
         ReturnRequest,
+        LedgerAccount,
+        LedgerEntry,
+        LedgerTransaction,
+        SepayWebhookEvent,
+        UnmatchedTransaction,
+        PaymentReconciliationReport,
+        Refund,
+        CommissionRule,
+        Promotion,
+        PromotionRedemption,
+        ReplenishmentSubscription,
+        Warehouse,
+        WarehouseStock,
+        StockTransfer,
+        WishlistItem,
+        Supplier,
+        PurchaseOrder,
+        PurchaseOrderLine,
+        GoodsReceipt,
       ],
       synchronize: false, // Auto-create tables (use migrations for production later)
       logging: process.env.NODE_ENV === 'development',
@@ -154,6 +215,13 @@ import { Rating } from './ratings/entities/rating.entity';
     SpecializationsModule,
     ReturnRequestsModule,
     RatingsModule,
+    LedgerModule,
+    CommissionsModule,
+    PromotionsModule,
+    ReplenishmentsModule,
+    WarehousesModule,
+    WishlistModule,
+    PurchaseOrdersModule,
   ],
   controllers: [AppController, DermatologistsController],
   providers: [AppService],
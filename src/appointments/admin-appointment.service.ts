@@ -11,26 +11,30 @@ import {
   AppointmentStatus,
   TerminationReason,
 } from './types/appointment.types';
-import { UsersService } from '../users/users.service';
 import { CustomerSubscriptionService } from '../customer-subscription/customer-subscription.service';
+import { RefundsService } from '../payments/refunds.service';
+import { RefundDestination } from '../payments/entities/refund.entity';
 import { DisputeDecision, ResolveDisputeDto } from './dto/resolve-dispute.dto';
+import { LedgerService } from '../ledger/ledger.service';
+import { CommissionsService } from '../commissions/commissions.service';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import { LedgerEntryDirection } from '../ledger/entities/ledger-entry.entity';
 import {
-  Payment,
-  PaymentMethod,
-  PaymentStatus,
-  PaymentType,
-} from '../payments/entities/payment.entity';
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../ledger/entities/ledger-transaction.entity';
 
 @Injectable()
 export class AdminAppointmentsService {
   private readonly logger = new Logger(AdminAppointmentsService.name);
-  private readonly BOOKING_FEE_RATE = 0.25;
 
   constructor(
     @InjectRepository(Appointment)
     private readonly appointmentRepository: Repository<Appointment>,
-    private readonly usersService: UsersService,
     private readonly customerSubscriptionService: CustomerSubscriptionService,
+    private readonly ledgerService: LedgerService,
+    private readonly refundsService: RefundsService,
+    private readonly commissionsService: CommissionsService,
     private readonly entityManager: EntityManager,
   ) {}
 
@@ -80,7 +84,7 @@ export class AdminAppointmentsService {
       switch (dto.decision) {
         case DisputeDecision.REFUND_CUSTOMER:
           // === CASE A: Refund Customer 100% ===
-          await this.processFullRefund(manager, appointment);
+          await this.processFullRefund(manager, appointment, adminUserId);
 
           appointment.appointmentStatus = AppointmentStatus.CANCELLED;
           appointment.terminatedReason =
@@ -92,7 +96,11 @@ export class AdminAppointmentsService {
           await this.processDoctorPayout(
             manager,
             appointment,
-            this.BOOKING_FEE_RATE,
+            await this.commissionsService.getAppointmentFeeRate(
+              appointment,
+              manager,
+            ),
+            adminUserId,
           );
 
           appointment.appointmentStatus = AppointmentStatus.SETTLED;
@@ -108,6 +116,7 @@ export class AdminAppointmentsService {
             manager,
             appointment,
             dto.refundAmount,
+            adminUserId,
           );
 
           appointment.appointmentStatus = AppointmentStatus.SETTLED;
@@ -138,20 +147,27 @@ export class AdminAppointmentsService {
   private async processFullRefund(
     manager: EntityManager,
     appointment: Appointment,
+    adminUserId: string,
   ) {
     // Case 1: Booking paid with Wallet/Direct Payment -> Refund to wallet
     if (appointment.payment) {
       if (!appointment.customer?.user?.userId) {
         throw new BadRequestException('Customer user data missing for refund.');
       }
-      const refundAmount = Number(appointment.payment.amount);
-
-      await this.usersService.updateBalance(
-        appointment.customer.user.userId,
-        refundAmount,
+      const refund = await this.refundsService.createRefund(
+        {
+          paymentId: appointment.payment.paymentId,
+          destination: RefundDestination.WALLET,
+          walletUserId: appointment.customer.user.userId,
+          reason: `Dispute full refund for Appt ${appointment.appointmentId}`,
+          requestedBy: adminUserId,
+          preApproved: true, // Admin quyết định tranh chấp = đã duyệt
+          referenceType: LedgerReferenceType.APPOINTMENT,
+          referenceId: appointment.appointmentId,
+        },
         manager,
       );
-      this.logger.log(`💰 Refunded Full ${refundAmount} to Customer Wallet.`);
+      this.logger.log(`💰 Refunded Full ${refund.amount} to Customer Wallet.`);
     }
     // Case 2: Booking paid with Subscription -> Refund session
     else if (appointment.customerSubscription) {
@@ -170,6 +186,7 @@ export class AdminAppointmentsService {
     manager: EntityManager,
     appointment: Appointment,
     feeRate: number,
+    adminUserId: string,
   ) {
     // Only payout if booking was paid with money (Subscription does not pay cash per session)
     if (appointment.payment) {
@@ -183,26 +200,34 @@ export class AdminAppointmentsService {
       const payoutAmount = originalAmount * (1 - feeRate);
 
       if (payoutAmount > 0) {
-        await this.usersService.updateBalance(
-          appointment.dermatologist.user.userId,
-          payoutAmount,
+        await this.ledgerService.post(
+          {
+            type: LedgerTransactionType.BOOKING_PAYOUT,
+            description: `Dispute payout for Appt ${appointment.appointmentId}`,
+            referenceType: LedgerReferenceType.APPOINTMENT,
+            referenceId: appointment.appointmentId,
+            createdBy: adminUserId,
+            lines: [
+              {
+                account: { type: LedgerAccountType.BOOKING_ESCROW },
+                direction: LedgerEntryDirection.DEBIT,
+                amount: originalAmount,
+              },
+              {
+                account: { userId: appointment.dermatologist.user.userId },
+                direction: LedgerEntryDirection.CREDIT,
+                amount: payoutAmount,
+              },
+              {
+                account: { type: LedgerAccountType.PLATFORM_FEES },
+                direction: LedgerEntryDirection.CREDIT,
+                amount: originalAmount - payoutAmount,
+              },
+            ],
+          },
           manager,
         );
 
-        // Create Payment Record
-        const paymentRepo = manager.getRepository(Payment);
-        const payment = paymentRepo.create({
-          paymentCode: `SKWSTAPP${Date.now()}${Math.floor(Math.random() * 1000)}`,
-          paymentType: PaymentType.TOPUP,
-          amount: payoutAmount,
-          userId: appointment.dermatologist.user.userId,
-          transferContent: appointment.appointmentId,
-          status: PaymentStatus.COMPLETED,
-          paymentMethod: PaymentMethod.WALLET,
-          paidAt: new Date(),
-        });
-        await paymentRepo.save(payment);
-
         this.logger.log(
           `💰 Payout ${payoutAmount} (Rate ${((1 - feeRate) * 100).toFixed(2)}%) to Doctor Wallet.`,
         );
@@ -217,7 +242,8 @@ export class AdminAppointmentsService {
   private async processPartialRefund(
     manager: EntityManager,
     appointment: Appointment,
-    refundAmount?: number,
+    refundAmount: number | undefined,
+    adminUserId: string,
   ) {
     // 1. Validate Payment Method
     if (!appointment.payment) {
@@ -235,39 +261,57 @@ export class AdminAppointmentsService {
       );
     }
 
-    // 3. Perform the split refund
-    // Step 1: Refund the customer
-    await this.usersService.updateBalance(
-      appointment.customer.user.userId,
-      refundAmount,
+    // 3. Refund customer part: escrow -> customer wallet
+    await this.refundsService.createRefund(
+      {
+        paymentId: appointment.payment.paymentId,
+        amount: refundAmount,
+        destination: RefundDestination.WALLET,
+        walletUserId: appointment.customer.user.userId,
+        reason: `Dispute partial refund for Appt ${appointment.appointmentId}`,
+        requestedBy: adminUserId,
+        preApproved: true, // Admin quyết định tranh chấp = đã duyệt
+        referenceType: LedgerReferenceType.APPOINTMENT,
+        referenceId: appointment.appointmentId,
+      },
       manager,
     );
 
-    // Step 2: Payout the doctor with the remaining amount
+    // 4. Split the rest of escrow: doctor income + platform fee
     const remainingRevenue = originalPrice - refundAmount;
-    const doctorIncome = remainingRevenue * (1 - this.BOOKING_FEE_RATE);
-
-    if (doctorIncome > 0) {
-      await this.usersService.updateBalance(
-        appointment.dermatologist.user.userId,
-        doctorIncome,
-        manager,
-      );
-
-      // Create Payment Record
-      const paymentRepo = manager.getRepository(Payment);
-      const payment = paymentRepo.create({
-        paymentCode: `SKWSTAPP${Date.now()}${Math.floor(Math.random() * 1000)}`,
-        paymentType: PaymentType.TOPUP,
-        amount: doctorIncome,
-        userId: appointment.dermatologist.user.userId,
-        transferContent: appointment.appointmentId,
-        status: PaymentStatus.COMPLETED,
-        paymentMethod: PaymentMethod.WALLET,
-        paidAt: new Date(),
-      });
-      await paymentRepo.save(payment);
-    }
+    const feeRate = await this.commissionsService.getAppointmentFeeRate(
+      appointment,
+      manager,
+    );
+    const doctorIncome = remainingRevenue * (1 - feeRate);
+
+    await this.ledgerService.post(
+      {
+        type: LedgerTransactionType.BOOKING_PAYOUT,
+        description: `Dispute partial payout for Appt ${appointment.appointmentId}`,
+        referenceType: LedgerReferenceType.APPOINTMENT,
+        referenceId: appointment.appointmentId,
+        createdBy: adminUserId,
+        lines: [
+          {
+            account: { type: LedgerAccountType.BOOKING_ESCROW },
+            direction: LedgerEntryDirection.DEBIT,
+            amount: remainingRevenue,
+          },
+          {
+            account: { userId: appointment.dermatologist.user.userId },
+            direction: LedgerEntryDirection.CREDIT,
+            amount: doctorIncome,
+          },
+          {
+            account: { type: LedgerAccountType.PLATFORM_FEES },
+            direction: LedgerEntryDirection.CREDIT,
+            amount: remainingRevenue - doctorIncome,
+          },
+        ],
+      },
+      manager,
+    );
 
     this.logger.log(
       `💸 Partial Resolve: Customer +${refundAmount}, Derma +${doctorIncome}, Platform +${remainingRevenue - doctorIncome}`,
@@ -39,6 +39,7 @@ import { RolesGuard } from 'src/auth/guards/roles.guard';
 import { UpdateMedicalNoteDto } from './dto/update-medical-note.dto';
 import { ReportNoShowDto } from './dto/report-no-show-dto';
 import { InterruptAppointmentDto } from './dto/report-interrupt-appointment';
+import { Idempotent } from 'src/idempotency/decorators/idempotent.decorator';
 
 @ApiTags('Appointments')
 @Controller('appointments')
@@ -48,6 +49,7 @@ export class AppointmentsController {
 
   @Post()
   @Roles(UserRole.CUSTOMER)
+  @Idempotent()
   @ApiOperation({ summary: 'Create a reservation (Pay-as-you-go)' })
   async create(
     @Body() createAppointmentDto: CreateAppointmentDto,
@@ -67,6 +69,7 @@ export class AppointmentsController {
 
   @Post('use-subscription')
   @Roles(UserRole.CUSTOMER)
+  @Idempotent()
   @ApiOperation({ summary: 'Create an appointment using a subscription' })
   async createWithSubscription(
     @Body() createDto: CreateSubscriptionAppointmentDto,
@@ -86,6 +89,7 @@ export class AppointmentsController {
 
   @Post('use-wallet')
   @Roles(UserRole.CUSTOMER)
+  @Idempotent()
   @ApiOperation({ summary: 'Create an appointment using Wallet balance' })
   async createWithWallet(
     @Body() createDto: CreateAppointmentDto,
@@ -15,6 +15,9 @@ import { AppointmentsScheduler } from './appointments.schedule';
 import { AdminAppointmentsController } from './admin-appointments.controller';
 import { AdminAppointmentsService } from './admin-appointment.service';
 import { NotificationsModule } from 'src/notifications/notifications.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { CommissionsModule } from '../commissions/commissions.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
 
 @Module({
   imports: [
@@ -27,7 +30,10 @@ import { NotificationsModule } from 'src/notifications/notifications.module';
     GoogleMeetModule,
     UsersModule,
     NotificationsModule,
+    LedgerModule,
+    CommissionsModule,
     forwardRef(() => PaymentsModule),
+    IdempotencyModule,
   ],
   controllers: [AppointmentsController, AdminAppointmentsController],
   providers: [
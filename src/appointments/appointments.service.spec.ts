@@ -9,7 +9,15 @@ import { AvailabilitySlotsService } from '../availability-slots/availability-slo
 import { PaymentsService } from '../payments/payments.service';
 import { GoogleMeetService } from '../google-meet/google-meet.service';
 import { CustomerSubscriptionService } from '../customer-subscription/customer-subscription.service';
-import { UsersService } from '../users/users.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { RefundsService } from '../payments/refunds.service';
+import { RefundDestination } from '../payments/entities/refund.entity';
+import {
+  CommissionsService,
+  ResolvedCommission,
+} from '../commissions/commissions.service';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import { LedgerEntryDirection } from '../ledger/entities/ledger-entry.entity';
 import {
   BadRequestException,
   NotFoundException,
@@ -29,7 +37,7 @@ describe('AppointmentsService', () => {
   let googleMeetService: jest.Mocked<GoogleMeetService>;
   let entityManager: jest.Mocked<EntityManager>;
   let customerSubscriptionService: jest.Mocked<CustomerSubscriptionService>;
-  let usersService: jest.Mocked<UsersService>;
+  let ledgerService: jest.Mocked<LedgerService>;
 
   // ==================== MOCK SETUP ====================
   const mockAppointmentRepository = {
@@ -68,8 +76,23 @@ describe('AppointmentsService', () => {
     refundSession: jest.fn(),
   };
 
-  const mockUsersService = {
-    updateBalance: jest.fn(),
+  const mockLedgerService = {
+    transfer: jest.fn(),
+    post: jest.fn(),
+  };
+
+  const mockRefundsService = {
+    createRefund: jest.fn(),
+  };
+
+  const mockCommissionsService = {
+    resolveRate: jest.fn(
+      (): Promise<ResolvedCommission> =>
+        Promise.resolve({ rate: 0.25, ruleId: null }),
+    ),
+    getAppointmentFeeRate: jest.fn((appointment: { platformFeeRate?: number }) =>
+      Promise.resolve(appointment.platformFeeRate ?? 0.25),
+    ),
   };
 
   const mockEntityManager = {
@@ -106,6 +129,22 @@ describe('AppointmentsService', () => {
     paymentType: PaymentType.BOOKING,
     status: PaymentStatus.PENDING,
     expiredAt: new Date('2025-12-10T10:05:00Z'),
+    paymentIntent: {
+      provider: 'sepay',
+      paymentCode: 'SKB20251210001',
+      amount: 300000,
+      bankingInfo: {
+        bankName: 'MBBank',
+        bankBin: '970422',
+        accountNumber: '0347178790',
+        accountName: 'CHU PHAN NHAT LONG',
+        transferContent: 'SKB20251210001',
+        amount: 300000,
+      },
+      qrPayload: '00020101021238540010A000000727',
+      qrCodeUrl:
+        'https://img.vietqr.io/image/MB-0347178790-compact2.png?amount=300000&addInfo=SKB20251210001',
+    },
   };
 
   const mockAppointment = {
@@ -158,8 +197,16 @@ describe('AppointmentsService', () => {
           useValue: mockCustomerSubscriptionService,
         },
         {
-          provide: UsersService,
-          useValue: mockUsersService,
+          provide: LedgerService,
+          useValue: mockLedgerService,
+        },
+        {
+          provide: RefundsService,
+          useValue: mockRefundsService,
+        },
+        {
+          provide: CommissionsService,
+          useValue: mockCommissionsService,
         },
       ],
     }).compile();
@@ -173,7 +220,7 @@ describe('AppointmentsService', () => {
     googleMeetService = module.get(GoogleMeetService);
     entityManager = module.get(EntityManager);
     customerSubscriptionService = module.get(CustomerSubscriptionService);
-    usersService = module.get(UsersService);
+    ledgerService = module.get(LedgerService);
   });
 
   // ==================== AFTER EACH ====================
@@ -238,6 +285,8 @@ describe('AppointmentsService', () => {
       expect(result.bankingInfo.accountNumber).toBe('0347178790');
       expect(result.bankingInfo.accountName).toBe('CHU PHAN NHAT LONG');
       expect(result.bankingInfo.amount).toBe(300000);
+      expect(result.bankingInfo.transferContent).toBe('SKB20251210001');
+      expect(result.qrPayload).toBe(mockPayment.paymentIntent.qrPayload);
     });
 
     // TC-APPT-001-03: Abnormal case - Invalid skin analysis
@@ -306,7 +355,7 @@ describe('AppointmentsService', () => {
         save: jest.fn().mockResolvedValue(mockScheduledAppointment),
       } as any);
       mockAvailabilitySlotsService.reserveSlot.mockResolvedValue(mockSlot as any);
-      mockUsersService.updateBalance.mockResolvedValue(undefined);
+      mockLedgerService.transfer.mockResolvedValue(undefined);
       mockAvailabilitySlotsService.linkSlotToAppointment.mockResolvedValue(undefined);
     });
 
@@ -318,17 +367,53 @@ describe('AppointmentsService', () => {
       // Assert
       expect(result).toBeDefined();
       expect(result.appointmentStatus).toBe(AppointmentStatus.SCHEDULED);
-      expect(mockUsersService.updateBalance).toHaveBeenCalledWith(
-        'user-uuid-1',
-        -300000,
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          from: { userId: 'user-uuid-1' },
+          to: { type: LedgerAccountType.BOOKING_ESCROW },
+          amount: 300000,
+        }),
+        mockEntityManager,
+      );
+    });
+
+    // TC-APPT-002-04: Normal case - Platform fee rate snapshotted at booking
+    it('TC-APPT-002-04: should snapshot the commission rate on the appointment', async () => {
+      // Arrange
+      const appointmentRepo = {
+        findOne: jest.fn().mockResolvedValue(mockSkinAnalysis),
+        create: jest.fn().mockReturnValue(mockScheduledAppointment),
+        save: jest.fn().mockResolvedValue(mockScheduledAppointment),
+      };
+      mockEntityManager.getRepository.mockReturnValue(appointmentRepo as any);
+      mockCommissionsService.resolveRate.mockResolvedValueOnce({
+        rate: 0.1,
+        ruleId: 'rule-uuid-1',
+      });
+
+      // Act
+      await service.createWalletAppointment('user-uuid-1', createDto);
+
+      // Assert
+      expect(mockCommissionsService.resolveRate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          dermatologistId: 'derma-uuid-1',
+          appointmentType: 'NEW_PROBLEM',
+        }),
         mockEntityManager,
       );
+      expect(appointmentRepo.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          platformFeeRate: 0.1,
+          commissionRuleId: 'rule-uuid-1',
+        }),
+      );
     });
 
     // TC-APPT-002-02: Abnormal case - Insufficient balance
     it('TC-APPT-002-02: should throw error when wallet balance insufficient', async () => {
       // Arrange
-      mockUsersService.updateBalance.mockRejectedValue(
+      mockLedgerService.transfer.mockRejectedValue(
         new BadRequestException('Insufficient wallet balance'),
       );
 
@@ -684,7 +769,7 @@ describe('AppointmentsService', () => {
       startTime: new Date(Date.now() - 20 * 60 * 1000),
       customerJoinedAt: new Date(),
       dermatologistJoinedAt: null,
-      payment: { amount: 300000 },
+      payment: { paymentId: 1, amount: 300000 },
       customer: {
         customerId: 'customer-uuid-1',
         user: { userId: 'customer-user-uuid-1' },
@@ -703,7 +788,8 @@ describe('AppointmentsService', () => {
           appointmentStatus: AppointmentStatus.NO_SHOW,
         }),
       } as any);
-      mockUsersService.updateBalance.mockResolvedValue(undefined);
+      mockLedgerService.transfer.mockResolvedValue(undefined);
+      mockLedgerService.post.mockResolvedValue(undefined);
     });
 
     // TC-APPT-007-01: Normal case - Doctor did not join, refund issued
@@ -713,9 +799,14 @@ describe('AppointmentsService', () => {
 
       // Assert
       expect(result.message).toContain('Refund processed');
-      expect(mockUsersService.updateBalance).toHaveBeenCalledWith(
-        'customer-user-uuid-1',
-        300000,
+      expect(mockRefundsService.createRefund).toHaveBeenCalledWith(
+        expect.objectContaining({
+          paymentId: 1,
+          destination: RefundDestination.WALLET,
+          walletUserId: 'customer-user-uuid-1',
+          amount: 300000,
+          preApproved: true,
+        }),
         mockEntityManager,
       );
     });
@@ -808,7 +899,7 @@ describe('AppointmentsService', () => {
       // Arrange
       const appointmentWithPayment = {
         ...inProgressAppointment,
-        payment: { amount: 300000 },
+        payment: { paymentId: 1, amount: 300000 },
         customer: {
           user: { userId: 'customer-user-uuid-1' },
         },
@@ -820,7 +911,8 @@ describe('AppointmentsService', () => {
           appointmentStatus: AppointmentStatus.CANCELLED,
         }),
       } as any);
-      mockUsersService.updateBalance.mockResolvedValue(undefined);
+      mockLedgerService.transfer.mockResolvedValue(undefined);
+      mockLedgerService.post.mockResolvedValue(undefined);
 
       // Act
       const result = await service.interruptAppointment(
@@ -918,7 +1010,7 @@ describe('AppointmentsService', () => {
       appointmentId: 'appt-uuid-1',
       appointmentStatus: AppointmentStatus.SCHEDULED,
       startTime: new Date(Date.now() + 48 * 60 * 60 * 1000), // 48 hours from now
-      payment: { amount: 300000 },
+      payment: { paymentId: 1, amount: 300000 },
       customer: {
         customerId: 'customer-uuid-1',
         user: { userId: 'customer-user-uuid-1' },
@@ -935,7 +1027,8 @@ describe('AppointmentsService', () => {
           appointmentStatus: AppointmentStatus.CANCELLED,
         }),
       } as any);
-      mockUsersService.updateBalance.mockResolvedValue(undefined);
+      mockLedgerService.transfer.mockResolvedValue(undefined);
+      mockLedgerService.post.mockResolvedValue(undefined);
       mockAvailabilitySlotsService.releaseSlot.mockResolvedValue(undefined);
     });
 
@@ -945,9 +1038,14 @@ describe('AppointmentsService', () => {
       const result = await service.cancelMyAppointment('customer-user-uuid-1', 'appt-uuid-1');
 
       // Assert
-      expect(mockUsersService.updateBalance).toHaveBeenCalledWith(
-        'customer-user-uuid-1',
-        300000,
+      expect(mockRefundsService.createRefund).toHaveBeenCalledWith(
+        expect.objectContaining({
+          paymentId: 1,
+          destination: RefundDestination.WALLET,
+          walletUserId: 'customer-user-uuid-1',
+          amount: 300000,
+          preApproved: true,
+        }),
         mockEntityManager,
       );
     });
@@ -973,8 +1071,9 @@ describe('AppointmentsService', () => {
       // Act
       await service.cancelMyAppointment('customer-user-uuid-1', 'appt-uuid-1');
 
-      // Assert - updateBalance called for doctor, not customer (late cancel compensation)
-      expect(mockUsersService.updateBalance).toHaveBeenCalled();
+      // Assert - escrow paid out to doctor, not refunded to customer (late cancel compensation)
+      expect(mockLedgerService.post).toHaveBeenCalled();
+      expect(mockLedgerService.transfer).not.toHaveBeenCalled();
     });
 
     // TC-APPT-009-03: Abnormal case - Cannot cancel non-SCHEDULED appointment
@@ -1013,9 +1112,14 @@ describe('AppointmentsService', () => {
       await service.cancelMyAppointment('customer-user-uuid-1', 'appt-uuid-1');
 
       // Assert
-      expect(mockUsersService.updateBalance).toHaveBeenCalledWith(
-        'customer-user-uuid-1',
-        300000,
+      expect(mockRefundsService.createRefund).toHaveBeenCalledWith(
+        expect.objectContaining({
+          paymentId: 1,
+          destination: RefundDestination.WALLET,
+          walletUserId: 'customer-user-uuid-1',
+          amount: 300000,
+          preApproved: true,
+        }),
         mockEntityManager,
       );
     });
@@ -1025,7 +1129,7 @@ describe('AppointmentsService', () => {
     const scheduledAppointment = {
       appointmentId: 'appt-uuid-1',
       appointmentStatus: AppointmentStatus.SCHEDULED,
-      payment: { amount: 300000 },
+      payment: { paymentId: 1, amount: 300000 },
       customer: {
         user: { userId: 'customer-user-uuid-1' },
       },
@@ -1044,7 +1148,8 @@ describe('AppointmentsService', () => {
           appointmentStatus: AppointmentStatus.CANCELLED,
         }),
       } as any);
-      mockUsersService.updateBalance.mockResolvedValue(undefined);
+      mockLedgerService.transfer.mockResolvedValue(undefined);
+      mockLedgerService.post.mockResolvedValue(undefined);
     });
 
     // TC-APPT-010-01: Normal case - Always full refund to customer
@@ -1053,9 +1158,14 @@ describe('AppointmentsService', () => {
       await service.cancelByDermatologist('derma-user-uuid-1', 'appt-uuid-1');
 
       // Assert
-      expect(mockUsersService.updateBalance).toHaveBeenCalledWith(
-        'customer-user-uuid-1',
-        300000,
+      expect(mockRefundsService.createRefund).toHaveBeenCalledWith(
+        expect.objectContaining({
+          paymentId: 1,
+          destination: RefundDestination.WALLET,
+          walletUserId: 'customer-user-uuid-1',
+          amount: 300000,
+          preApproved: true,
+        }),
         mockEntityManager,
       );
     });
@@ -1079,14 +1189,15 @@ describe('AppointmentsService', () => {
     const completedAppointment = {
       appointmentId: 'appt-uuid-1',
       appointmentStatus: AppointmentStatus.COMPLETED,
-      payment: { amount: 300000 },
+      payment: { paymentId: 1, amount: 300000 },
       dermatologist: {
         user: { userId: 'derma-user-uuid-1' },
       },
     };
 
     beforeEach(() => {
-      mockUsersService.updateBalance.mockResolvedValue(undefined);
+      mockLedgerService.transfer.mockResolvedValue(undefined);
+      mockLedgerService.post.mockResolvedValue(undefined);
       mockEntityManager.save.mockResolvedValue({
         ...completedAppointment,
         appointmentStatus: AppointmentStatus.SETTLED,
@@ -1100,9 +1211,44 @@ describe('AppointmentsService', () => {
 
       // Assert
       const expectedAmount = 300000 * 0.75; // 25% platform fee
-      expect(mockUsersService.updateBalance).toHaveBeenCalledWith(
-        'derma-user-uuid-1',
-        expectedAmount,
+      expect(mockLedgerService.post).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lines: expect.arrayContaining([
+            {
+              account: { userId: 'derma-user-uuid-1' },
+              direction: LedgerEntryDirection.CREDIT,
+              amount: expectedAmount,
+            },
+            {
+              account: { type: LedgerAccountType.PLATFORM_FEES },
+              direction: LedgerEntryDirection.CREDIT,
+              amount: 300000 - expectedAmount,
+            },
+          ]),
+        }),
+        mockEntityManager,
+      );
+    });
+
+    // TC-APPT-011-04: Normal case - Use the rate snapshotted at booking
+    it('TC-APPT-011-04: should settle with the snapshotted commission rate', async () => {
+      // Act
+      await service.settleAppointment(
+        { ...completedAppointment, platformFeeRate: 0.1 } as any,
+        mockEntityManager,
+      );
+
+      // Assert
+      expect(mockLedgerService.post).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lines: expect.arrayContaining([
+            {
+              account: { userId: 'derma-user-uuid-1' },
+              direction: LedgerEntryDirection.CREDIT,
+              amount: 270000,
+            },
+          ]),
+        }),
         mockEntityManager,
       );
     });
@@ -1129,7 +1275,7 @@ describe('AppointmentsService', () => {
       await service.settleAppointment(subscriptionAppointment as any, mockEntityManager);
 
       // Assert
-      expect(mockUsersService.updateBalance).not.toHaveBeenCalled();
+      expect(mockLedgerService.post).not.toHaveBeenCalled();
     });
   });
 
@@ -27,6 +27,8 @@ import { TreatmentRoutine } from '../treatment-routines/entities/treatment-routi
 
 import { AvailabilitySlotsService } from '../availability-slots/availability-slots.service';
 import { PaymentsService } from '../payments/payments.service';
+import { RefundsService } from '../payments/refunds.service';
+import { RefundDestination } from '../payments/entities/refund.entity';
 import {
   Payment,
   PaymentMethod,
@@ -48,10 +50,19 @@ import {
   AppointmentDetailDto,
   FindAppointmentsDto,
 } from './dto/find-appointment.dto';
-import { UsersService } from '../users/users.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import { LedgerEntryDirection } from '../ledger/entities/ledger-entry.entity';
+import {
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../ledger/entities/ledger-transaction.entity';
 import { AvailabilitySlot } from '../availability-slots/entities/availability-slot.entity';
 import { ReportNoShowDto } from './dto/report-no-show-dto';
 import { InterruptAppointmentDto } from './dto/report-interrupt-appointment';
+import { BankingInfo } from '../payments/providers/payment-provider.interface';
+import { CommissionsService } from '../commissions/commissions.service';
+import { CommissionServiceType } from '../commissions/entities/commission-rule.entity';
 
 export interface AppointmentReservationResult {
   appointmentId: string;
@@ -59,13 +70,8 @@ export interface AppointmentReservationResult {
   paymentMethod: PaymentMethod;
   paymentType: PaymentType;
   expiredAt: Date;
-  bankingInfo: {
-    bankName: string;
-    accountNumber: string;
-    accountName: string;
-    amount: number;
-    qrCodeUrl: string;
-  };
+  qrPayload: string; // VietQR (EMVCo)
+  bankingInfo: BankingInfo & { qrCodeUrl: string };
 }
 
 export interface AppointmentActionResult {
@@ -76,7 +82,6 @@ export interface AppointmentActionResult {
 export class AppointmentsService {
   private readonly logger = new Logger(AppointmentsService.name);
   private readonly GRACE_PERIOD_MS = 15 * 60 * 1000; // Waiting time for report NO_SHOW: 15 minutes
-  private readonly BOOKING_FEE_RATE = 0.25; // 25% fee for booking
   private readonly CANCELLATION_THRESHOLD_MS = 24 * 60 * 60 * 1000; // 24 hours in milliseconds for cancellation refund policy
   readonly VALID_REPORT_HOURS = 24; // Hours allowed to report after completion
   constructor(
@@ -88,7 +93,9 @@ export class AppointmentsService {
     private readonly googleMeetService: GoogleMeetService,
     private readonly entityManager: EntityManager,
     private readonly customerSubscriptionService: CustomerSubscriptionService,
-    private readonly usersService: UsersService,
+    private readonly ledgerService: LedgerService,
+    private readonly refundsService: RefundsService,
+    private readonly commissionsService: CommissionsService,
 
     @Inject(forwardRef(() => PaymentsService))
     private readonly paymentsService: PaymentsService,
@@ -188,10 +195,17 @@ export class AppointmentsService {
         },
         manager,
       );
+      const paymentIntent = payment.paymentIntent!;
+      const commission = await this.resolveBookingCommission(
+        createDto,
+        manager,
+      );
       // 3. Create Pending Appointment
       const appointment = appointmentRepo.create({
         ...this.buildBaseAppointment(createDto, reservedSlot, customer),
         price: reservedSlot.price,
+        platformFeeRate: commission.rate,
+        commissionRuleId: commission.ruleId,
         appointmentStatus: AppointmentStatus.PENDING_PAYMENT,
         payment,
       });
@@ -211,12 +225,10 @@ export class AppointmentsService {
         paymentCode: payment.paymentCode, // Must pay using this code
         paymentMethod: payment.paymentMethod,
         expiredAt: payment.expiredAt,
+        qrPayload: paymentIntent.qrPayload,
         bankingInfo: {
-          bankName: 'MBBank',
-          accountNumber: '0347178790',
-          accountName: 'CHU PHAN NHAT LONG',
-          amount: payment.amount,
-          qrCodeUrl: `https://img.vietqr.io/image/MB-0347178790-compact2.png?amount=${payment.amount}&addInfo=${payment.paymentCode}`,
+          ...paymentIntent.bankingInfo,
+          qrCodeUrl: paymentIntent.qrCodeUrl,
         },
       };
     });
@@ -246,10 +258,7 @@ export class AppointmentsService {
 
       const amountToPay = Number(reservedSlot.price);
 
-      // 2. Deduct Wallet Balance (throw error if insufficient)
-      await this.usersService.updateBalance(userId, -amountToPay, manager);
-
-      // 3. Create Payment COMPLETED (Manually set status)
+      // 2. Create Payment COMPLETED (Manually set status)
       const payment = paymentRepo.create({
         paymentType: PaymentType.BOOKING,
         amount: amountToPay,
@@ -265,10 +274,31 @@ export class AppointmentsService {
       });
       const savedPayment = await paymentRepo.save(payment);
 
+      // 3. Move money from wallet into escrow (throw error if insufficient)
+      await this.ledgerService.transfer(
+        {
+          type: LedgerTransactionType.BOOKING_PAYMENT,
+          description: `Booking paid by wallet ${savedPayment.paymentCode}`,
+          from: { userId },
+          to: { type: LedgerAccountType.BOOKING_ESCROW },
+          amount: amountToPay,
+          referenceType: LedgerReferenceType.PAYMENT,
+          referenceId: savedPayment.paymentId,
+        },
+        manager,
+      );
+
+      const commission = await this.resolveBookingCommission(
+        createDto,
+        manager,
+      );
+
       // 4. Create Confirmed Appointment
       const appointment = appointmentRepo.create({
         ...this.buildBaseAppointment(createDto, reservedSlot, customer),
         price: amountToPay,
+        platformFeeRate: commission.rate,
+        commissionRuleId: commission.ruleId,
         appointmentStatus: AppointmentStatus.SCHEDULED,
         payment: savedPayment,
       });
@@ -843,7 +873,8 @@ export class AppointmentsService {
         if (customerUserId) {
           const refundAmount = Number(appointment.payment.amount);
 
-          await this.usersService.updateBalance(
+          await this.refundBookingToWallet(
+            appointment,
             customerUserId,
             refundAmount,
             manager,
@@ -880,12 +911,17 @@ export class AppointmentsService {
             appWithDermatologist.dermatologist.user.userId;
           const originalAmount = Number(appointment.payment.amount);
 
-          const rate = 1 - this.BOOKING_FEE_RATE;
-          const amountToCredit = originalAmount * rate;
+          const feeRate = await this.commissionsService.getAppointmentFeeRate(
+            appWithDermatologist,
+            manager,
+          );
+          const amountToCredit = originalAmount * (1 - feeRate);
 
           if (amountToCredit > 0) {
-            await this.usersService.updateBalance(
+            await this.payoutBookingToDoctor(
+              appointment,
               dermatologistUserId,
+              originalAmount,
               amountToCredit,
               manager,
             );
@@ -1089,7 +1125,8 @@ export class AppointmentsService {
     }
 
     if (appointment.payment && appointment.customer?.user?.userId) {
-      await this.usersService.updateBalance(
+      await this.refundBookingToWallet(
+        appointment,
         appointment.customer.user.userId,
         Number(appointment.payment.amount),
         manager,
@@ -1451,30 +1488,21 @@ export class AppointmentsService {
 
     if (appointment.payment) {
       const originalAmount = Number(appointment.payment.amount);
-      const rate = 1 - this.BOOKING_FEE_RATE;
-      const amountToCredit = originalAmount * rate;
+      const feeRate = await this.commissionsService.getAppointmentFeeRate(
+        appointment,
+        manager,
+      );
+      const amountToCredit = originalAmount * (1 - feeRate);
 
       if (amountToCredit > 0) {
-        await this.usersService.updateBalance(
+        await this.payoutBookingToDoctor(
+          appointment,
           doctorId,
+          originalAmount,
           amountToCredit,
           manager,
         );
 
-        // Create Payment Record
-        const paymentRepo = manager.getRepository(Payment);
-        const payment = paymentRepo.create({
-          paymentCode: `SKWSTAPP${Date.now()}${Math.floor(Math.random() * 1000)}`,
-          paymentType: PaymentType.TOPUP,
-          amount: amountToCredit,
-          userId: doctorId,
-          transferContent: appointment.appointmentId,
-          status: PaymentStatus.COMPLETED,
-          paymentMethod: PaymentMethod.WALLET,
-          paidAt: new Date(),
-        });
-        await paymentRepo.save(payment);
-
         this.logger.log(
           `💰 Payout ${amountToCredit} to Doctor ${doctorId} for Appt ${appointment.appointmentId}`,
         );
@@ -1482,7 +1510,7 @@ export class AppointmentsService {
     } else if (appointment.customerSubscription) {
       // CASE: Booking by SUBSCRIPTION
       this.logger.log(
-        `Skipping wallet credit for Appt ${appointment.appointmentId}: This is a subscription-based session. (Commission already paid at purchase).`,
+        `Skipping wallet credit for Appt ${appointment.appointmentId}: This is a subscription-based session. (Commission already paid at purchase, rate ${appointment.customerSubscription.platformFeeRate}).`,
       );
       return;
     } else {
@@ -1496,4 +1524,83 @@ export class AppointmentsService {
     appointment.appointmentStatus = AppointmentStatus.SETTLED;
     await manager.save(appointment);
   }
+
+  /**
+   * Phí nền tảng áp dụng cho lịch đặt lẻ, chụp lại trên appointment lúc đặt.
+   */
+  private resolveBookingCommission(
+    dto: CreateAppointmentDto,
+    manager: EntityManager,
+  ) {
+    return this.commissionsService.resolveRate(
+      {
+        serviceType: CommissionServiceType.BOOKING,
+        dermatologistId: dto.dermatologistId,
+        appointmentType: dto.appointmentType,
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Hoàn tiền booking từ escrow về ví khách hàng (theo chính sách hủy lịch, không cần duyệt).
+   */
+  private async refundBookingToWallet(
+    appointment: Appointment,
+    customerUserId: string,
+    amount: number,
+    manager: EntityManager,
+  ): Promise<void> {
+    await this.refundsService.createRefund(
+      {
+        paymentId: appointment.payment.paymentId,
+        amount,
+        destination: RefundDestination.WALLET,
+        walletUserId: customerUserId,
+        reason: `Refund for Appt ${appointment.appointmentId}`,
+        preApproved: true,
+        referenceType: LedgerReferenceType.APPOINTMENT,
+        referenceId: appointment.appointmentId,
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Giải phóng escrow: phần của bác sĩ vào ví thu nhập, phần còn lại là phí nền tảng.
+   */
+  private async payoutBookingToDoctor(
+    appointment: Appointment,
+    doctorUserId: string,
+    escrowAmount: number,
+    doctorShare: number,
+    manager: EntityManager,
+  ): Promise<void> {
+    await this.ledgerService.post(
+      {
+        type: LedgerTransactionType.BOOKING_PAYOUT,
+        description: `Payout for Appt ${appointment.appointmentId}`,
+        referenceType: LedgerReferenceType.APPOINTMENT,
+        referenceId: appointment.appointmentId,
+        lines: [
+          {
+            account: { type: LedgerAccountType.BOOKING_ESCROW },
+            direction: LedgerEntryDirection.DEBIT,
+            amount: escrowAmount,
+          },
+          {
+            account: { userId: doctorUserId },
+            direction: LedgerEntryDirection.CREDIT,
+            amount: doctorShare,
+          },
+          {
+            account: { type: LedgerAccountType.PLATFORM_FEES },
+            direction: LedgerEntryDirection.CREDIT,
+            amount: escrowAmount - doctorShare,
+          },
+        ],
+      },
+      manager,
+    );
+  }
 }
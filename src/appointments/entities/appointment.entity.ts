@@ -50,6 +50,13 @@ export class Appointment {
   })
   price: number;
 
+  // Phí nền tảng chụp lại lúc đặt lịch (NULL = lịch đặt bằng gói hoặc trước khi có commission rule)
+  @Column({ type: 'decimal', precision: 5, scale: 4, nullable: true })
+  platformFeeRate: number | null;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  commissionRuleId: string | null;
+
   @Column({ type: 'text', nullable: true })
   note: string;
 
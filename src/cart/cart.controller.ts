@@ -226,6 +226,29 @@ export class CartController {
     );
   }
 
+  @Post('item/:productId/save-for-later')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Move product to save-for-later',
+    description:
+      'Remove a product from the cart and keep it (with its quantity) in the save-for-later list of the wishlist.',
+  })
+  @ApiParam({
+    name: 'productId',
+    description: 'Product UUID',
+    example: '650e8400-e29b-41d4-a716-446655440000',
+  })
+  @ApiResponse({ status: 200, description: 'Product saved for later' })
+  @ApiResponse({ status: 404, description: 'Product not found in cart' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async saveForLater(
+    @GetUser() user: User,
+    @Param('productId') productId: string,
+  ) {
+    const cart = await this.cartService.saveForLater(user.userId, productId);
+    return ResponseHelper.success('Product saved for later', cart);
+  }
+
   @Delete()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
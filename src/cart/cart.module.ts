@@ -6,6 +6,7 @@ import { CartController } from './cart.controller';
 import { ProductsModule } from '../products/products.module';
 import { InventoryModule } from '../inventory/inventory.module';
 import { AddressModule } from '../address/address.module';
+import { WishlistModule } from '../wishlist/wishlist.module';
 
 @Module({
   imports: [
@@ -14,6 +15,7 @@ import { AddressModule } from '../address/address.module';
     ProductsModule,
     InventoryModule,
     AddressModule,
+    WishlistModule,
   ],
   controllers: [CartController],
   providers: [CartService],
@@ -1,44 +1,54 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
 import { CartService } from './cart.service';
-import { CACHE_MANAGER } from '@nestjs/cache-manager';
 import { ProductsService } from '../products/products.service';
 import { InventoryService } from '../inventory/inventory.service';
 import { AddressService } from '../address/address.service';
+import { WishlistService } from '../wishlist/wishlist.service';
 import { NotFoundException, BadRequestException } from '@nestjs/common';
-import { Cache } from 'cache-manager';
+
+const mockRedisClient = {
+  on: jest.fn(),
+  disconnect: jest.fn(),
+  get: jest.fn(),
+  set: jest.fn(),
+  del: jest.fn(),
+  exists: jest.fn(),
+  scan: jest.fn(),
+  ttl: jest.fn(),
+  getdel: jest.fn(),
+};
+
+jest.mock('ioredis', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => mockRedisClient),
+}));
 
 describe('CartService', () => {
   let service: CartService;
-  let cacheManager: jest.Mocked<Cache>;
-  let productsService: jest.Mocked<ProductsService>;
   let inventoryService: jest.Mocked<InventoryService>;
-  let addressService: jest.Mocked<AddressService>;
-
-  const mockCacheManager = {
-    get: jest.fn(),
-    set: jest.fn(),
-    del: jest.fn(),
-  };
 
   const mockProductsService = {
     findOne: jest.fn(),
   };
 
   const mockInventoryService = {
+    getAvailableStock: jest.fn(),
     reserveStock: jest.fn(),
     releaseReservation: jest.fn(),
   };
 
   const mockAddressService = {};
 
+  const mockWishlistService = {
+    saveForLater: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         CartService,
-        {
-          provide: CACHE_MANAGER,
-          useValue: mockCacheManager,
-        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
         {
           provide: ProductsService,
           useValue: mockProductsService,
@@ -51,14 +61,17 @@ describe('CartService', () => {
           provide: AddressService,
           useValue: mockAddressService,
         },
+        {
+          provide: WishlistService,
+          useValue: mockWishlistService,
+        },
       ],
     }).compile();
 
     service = module.get<CartService>(CartService);
-    cacheManager = module.get(CACHE_MANAGER);
-    productsService = module.get(ProductsService);
     inventoryService = module.get(InventoryService);
-    addressService = module.get(AddressService);
+
+    mockInventoryService.getAvailableStock.mockResolvedValue(1000);
   });
 
   afterEach(() => {
@@ -81,32 +94,39 @@ describe('CartService', () => {
     };
 
     beforeEach(() => {
-      mockCacheManager.set.mockResolvedValue(undefined);
+      mockRedisClient.set.mockResolvedValue('OK');
     });
 
     // TC-CART-001-01: Normal - Add product with quantity 5
-    it('TC-CART-001-01: should add product to cart with quantity 5 and reserve stock', async () => {
+    it('TC-CART-001-01: should add product to cart with quantity 5 without reserving stock', async () => {
       const quantity = 5;
       mockProductsService.findOne.mockResolvedValue(mockProduct);
-      mockCacheManager.get.mockResolvedValue({
-        userId,
-        items: [],
-        totalItems: 0,
-        totalPrice: 0,
-        updatedAt: new Date(),
-      });
-      mockInventoryService.reserveStock.mockResolvedValue({ success: true });
+      mockRedisClient.get.mockResolvedValue(
+        JSON.stringify({
+          userId,
+          items: [],
+          totalItems: 0,
+          totalPrice: 0,
+          updatedAt: new Date(),
+        }),
+      );
 
       const result = await service.addToCart(userId, { productId, quantity });
 
       expect(result.items).toHaveLength(1);
       expect(result.items[0].quantity).toBe(5);
       expect(result.items[0].productId).toBe(productId);
-      expect(inventoryService.reserveStock).toHaveBeenCalledWith(
+      expect(inventoryService.getAvailableStock).toHaveBeenCalledWith(
         productId,
-        quantity,
       );
+      expect(inventoryService.reserveStock).not.toHaveBeenCalled();
       expect(result.totalItems).toBe(5);
+      expect(mockRedisClient.set).toHaveBeenCalledWith(
+        `skinalyze:cart:${userId}`,
+        expect.any(String),
+        'EX',
+        30 * 24 * 60 * 60,
+      );
     });
 
     // TC-CART-001-02: Normal - Update existing cart item
@@ -131,8 +151,7 @@ describe('CartService', () => {
       };
 
       mockProductsService.findOne.mockResolvedValue(mockProduct);
-      mockCacheManager.get.mockResolvedValue(existingCart);
-      mockInventoryService.reserveStock.mockResolvedValue({ success: true });
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(existingCart));
 
       const result = await service.addToCart(userId, {
         productId,
@@ -141,14 +160,13 @@ describe('CartService', () => {
 
       expect(result.items[0].quantity).toBe(5); // 3 + 2
       expect(result.totalItems).toBe(5);
-      expect(inventoryService.reserveStock).toHaveBeenCalledWith(productId, 2);
+      expect(inventoryService.reserveStock).not.toHaveBeenCalled();
     });
 
     // TC-CART-001-03: Normal - Create new cart with 1 item
     it('TC-CART-001-03: should create new cart when user has empty cart', async () => {
       mockProductsService.findOne.mockResolvedValue(mockProduct);
-      mockCacheManager.get.mockResolvedValue(null);
-      mockInventoryService.reserveStock.mockResolvedValue({ success: true });
+      mockRedisClient.get.mockResolvedValue(null);
 
       const result = await service.addToCart(userId, {
         productId,
@@ -163,8 +181,7 @@ describe('CartService', () => {
     // TC-CART-001-04: Boundary - Minimum quantity (1)
     it('TC-CART-001-04: should add product with minimum quantity of 1', async () => {
       mockProductsService.findOne.mockResolvedValue(mockProduct);
-      mockCacheManager.get.mockResolvedValue(null);
-      mockInventoryService.reserveStock.mockResolvedValue({ success: true });
+      mockRedisClient.get.mockResolvedValue(null);
 
       const result = await service.addToCart(userId, {
         productId,
@@ -177,8 +194,7 @@ describe('CartService', () => {
     // TC-CART-001-05: Boundary - Maximum quantity (999)
     it('TC-CART-001-05: should add product with maximum quantity of 999', async () => {
       mockProductsService.findOne.mockResolvedValue(mockProduct);
-      mockCacheManager.get.mockResolvedValue(null);
-      mockInventoryService.reserveStock.mockResolvedValue({ success: true });
+      mockRedisClient.get.mockResolvedValue(null);
 
       const result = await service.addToCart(userId, {
         productId,
@@ -191,8 +207,8 @@ describe('CartService', () => {
     // TC-CART-001-06: Abnormal - Insufficient stock
     it('TC-CART-001-06: should throw error when stock is insufficient', async () => {
       mockProductsService.findOne.mockResolvedValue(mockProduct);
-      mockCacheManager.get.mockResolvedValue(null);
-      mockInventoryService.reserveStock.mockResolvedValue({ success: false });
+      mockRedisClient.get.mockResolvedValue(null);
+      mockInventoryService.getAvailableStock.mockResolvedValue(5);
 
       await expect(
         service.addToCart(userId, { productId, quantity: 10 }),
@@ -210,6 +226,37 @@ describe('CartService', () => {
         service.addToCart(userId, { productId: 'non-existent', quantity: 1 }),
       ).rejects.toThrow(NotFoundException);
     });
+
+    // TC-CART-001-08: Abnormal - Quantity already in cart counts against stock
+    it('TC-CART-001-08: should check stock for the total quantity in cart', async () => {
+      mockProductsService.findOne.mockResolvedValue(mockProduct);
+      mockRedisClient.get.mockResolvedValue(
+        JSON.stringify({
+          userId,
+          items: [
+            {
+              productId,
+              productName: 'Test Product',
+              price: 100000,
+              originalPrice: 100000,
+              salePercentage: 0,
+              quantity: 3,
+              addedAt: new Date(),
+              selected: true,
+            },
+          ],
+          totalItems: 3,
+          totalPrice: 300000,
+          updatedAt: new Date(),
+        }),
+      );
+      mockInventoryService.getAvailableStock.mockResolvedValue(4);
+
+      await expect(
+        service.addToCart(userId, { productId, quantity: 2 }),
+      ).rejects.toThrow('Không đủ hàng trong kho');
+      expect(mockRedisClient.set).not.toHaveBeenCalled();
+    });
   });
 
   describe('updateCartItem', () => {
@@ -217,7 +264,7 @@ describe('CartService', () => {
     const productId = 'test-product-id';
 
     // TC-CART-002-01: Normal - Increase quantity
-    it('TC-CART-002-01: should increase quantity and reserve additional stock', async () => {
+    it('TC-CART-002-01: should increase quantity when enough stock is available', async () => {
       const existingCart = {
         userId,
         items: [
@@ -237,19 +284,21 @@ describe('CartService', () => {
         updatedAt: new Date(),
       };
 
-      mockCacheManager.get.mockResolvedValue(existingCart);
-      mockInventoryService.reserveStock.mockResolvedValue({ success: true });
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(existingCart));
 
       const result = await service.updateCartItem(userId, productId, {
         quantity: 5,
       });
 
       expect(result.items[0].quantity).toBe(5);
-      expect(inventoryService.reserveStock).toHaveBeenCalledWith(productId, 3); // Diff = 5 - 2
+      expect(inventoryService.getAvailableStock).toHaveBeenCalledWith(
+        productId,
+      );
+      expect(inventoryService.reserveStock).not.toHaveBeenCalled();
     });
 
     // TC-CART-002-02: Normal - Decrease quantity
-    it('TC-CART-002-02: should decrease quantity and release reserved stock', async () => {
+    it('TC-CART-002-02: should decrease quantity without touching stock', async () => {
       const existingCart = {
         userId,
         items: [
@@ -269,18 +318,15 @@ describe('CartService', () => {
         updatedAt: new Date(),
       };
 
-      mockCacheManager.get.mockResolvedValue(existingCart);
-      mockInventoryService.releaseReservation.mockResolvedValue(undefined);
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(existingCart));
 
       const result = await service.updateCartItem(userId, productId, {
         quantity: 2,
       });
 
       expect(result.items[0].quantity).toBe(2);
-      expect(inventoryService.releaseReservation).toHaveBeenCalledWith(
-        productId,
-        3,
-      ); // Diff = 5 - 2
+      expect(inventoryService.getAvailableStock).not.toHaveBeenCalled();
+      expect(inventoryService.releaseReservation).not.toHaveBeenCalled();
     });
 
     // TC-CART-002-03: Boundary - Update to quantity 1 (minimum)
@@ -304,8 +350,7 @@ describe('CartService', () => {
         updatedAt: new Date(),
       };
 
-      mockCacheManager.get.mockResolvedValue(existingCart);
-      mockInventoryService.releaseReservation.mockResolvedValue(undefined);
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(existingCart));
 
       const result = await service.updateCartItem(userId, productId, {
         quantity: 1,
@@ -335,8 +380,7 @@ describe('CartService', () => {
         updatedAt: new Date(),
       };
 
-      mockCacheManager.get.mockResolvedValue(existingCart);
-      mockInventoryService.reserveStock.mockResolvedValue({ success: true });
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(existingCart));
 
       const result = await service.updateCartItem(userId, productId, {
         quantity: 999,
@@ -347,13 +391,15 @@ describe('CartService', () => {
 
     // TC-CART-002-05: Abnormal - Product not in cart
     it('TC-CART-002-05: should throw error when product not found in cart', async () => {
-      mockCacheManager.get.mockResolvedValue({
-        userId,
-        items: [],
-        totalItems: 0,
-        totalPrice: 0,
-        updatedAt: new Date(),
-      });
+      mockRedisClient.get.mockResolvedValue(
+        JSON.stringify({
+          userId,
+          items: [],
+          totalItems: 0,
+          totalPrice: 0,
+          updatedAt: new Date(),
+        }),
+      );
 
       await expect(
         service.updateCartItem(userId, 'non-existent', { quantity: 5 }),
@@ -381,7 +427,7 @@ describe('CartService', () => {
         updatedAt: new Date(),
       };
 
-      mockCacheManager.get.mockResolvedValue(existingCart);
+      mockRedisClient.get.mockResolvedValue(JSON.stringify(existingCart));
 
       await expect(
         service.updateCartItem(userId, productId, { quantity: 0 }),
@@ -391,5 +437,187 @@ describe('CartService', () => {
         service.updateCartItem(userId, productId, { quantity: -1 }),
       ).rejects.toThrow(BadRequestException);
     });
+
+    // TC-CART-002-07: Abnormal - Increase beyond available stock
+    it('TC-CART-002-07: should reject increasing beyond available stock', async () => {
+      mockRedisClient.get.mockResolvedValue(
+        JSON.stringify({
+          userId,
+          items: [
+            {
+              productId,
+              productName: 'Test Product',
+              price: 100000,
+              originalPrice: 100000,
+              salePercentage: 0,
+              quantity: 2,
+              addedAt: new Date(),
+              selected: true,
+            },
+          ],
+          totalItems: 2,
+          totalPrice: 200000,
+          updatedAt: new Date(),
+        }),
+      );
+      mockInventoryService.getAvailableStock.mockResolvedValue(4);
+
+      await expect(
+        service.updateCartItem(userId, productId, { quantity: 5 }),
+      ).rejects.toThrow('Only 4 available in stock');
+    });
+  });
+
+  describe('saveForLater', () => {
+    const userId = 'test-user-id';
+    const productId = 'test-product-id';
+
+    // TC-CART-003-01: Normal - Cart item moves to the save-for-later list
+    it('TC-CART-003-01: should save the item with its quantity and remove it from the cart', async () => {
+      mockRedisClient.get.mockResolvedValue(
+        JSON.stringify({
+          userId,
+          items: [
+            {
+              productId,
+              productName: 'Test Product',
+              price: 100000,
+              originalPrice: 100000,
+              salePercentage: 0,
+              quantity: 3,
+              addedAt: new Date(),
+              selected: true,
+            },
+          ],
+          totalItems: 3,
+          totalPrice: 300000,
+          updatedAt: new Date(),
+        }),
+      );
+
+      const result = await service.saveForLater(userId, productId);
+
+      expect(mockWishlistService.saveForLater).toHaveBeenCalledWith(
+        userId,
+        productId,
+        3,
+      );
+      expect(result.items).toHaveLength(0);
+      expect(mockRedisClient.del).toHaveBeenCalledWith(
+        `skinalyze:cart:${userId}`,
+      );
+    });
+
+    // TC-CART-003-02: Abnormal - Product is not in the cart
+    it('TC-CART-003-02: should throw when the product is not in the cart', async () => {
+      mockRedisClient.get.mockResolvedValue(null);
+
+      await expect(service.saveForLater(userId, productId)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockWishlistService.saveForLater).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseLegacyCartReservations', () => {
+    const legacyCart = {
+      userId: 'legacy-user',
+      items: [
+        { productId: 'product-1', quantity: 2 },
+        { productId: 'product-2', quantity: 1 },
+      ],
+      totalItems: 3,
+      totalPrice: 300000,
+    };
+
+    beforeEach(() => {
+      mockRedisClient.exists.mockResolvedValue(0);
+      mockRedisClient.set.mockResolvedValue('OK');
+    });
+
+    // TC-CART-004-01: Normal - Legacy 5-minute cart still holds stock
+    it('TC-CART-004-01: should release stock held by legacy carts and keep the cart', async () => {
+      mockRedisClient.scan.mockResolvedValue([
+        '0',
+        [
+          'skinalyze:cart:legacy-user',
+          'skinalyze:cart:new-user',
+          'skinalyze:cart:checked-out-user',
+        ],
+      ]);
+      mockRedisClient.ttl.mockImplementation((key: string) =>
+        Promise.resolve(
+          {
+            'skinalyze:cart:legacy-user': 120,
+            'skinalyze:cart:new-user': 30 * 24 * 60 * 60,
+            'skinalyze:cart:checked-out-user': -1,
+          }[key],
+        ),
+      );
+      mockRedisClient.getdel.mockResolvedValue(JSON.stringify(legacyCart));
+
+      const released = await service.releaseLegacyCartReservations();
+
+      expect(released).toBe(2);
+      expect(mockRedisClient.getdel).toHaveBeenCalledTimes(1);
+      expect(mockRedisClient.getdel).toHaveBeenCalledWith(
+        'skinalyze:cart:legacy-user',
+      );
+      expect(mockInventoryService.releaseReservation).toHaveBeenCalledWith(
+        'product-1',
+        2,
+        expect.objectContaining({}) as Record<string, unknown>,
+      );
+      expect(mockInventoryService.releaseReservation).toHaveBeenCalledWith(
+        'product-2',
+        1,
+        expect.objectContaining({}) as Record<string, unknown>,
+      );
+      expect(mockRedisClient.set).toHaveBeenCalledWith(
+        'skinalyze:cart:legacy-user',
+        JSON.stringify(legacyCart),
+        'EX',
+        30 * 24 * 60 * 60,
+      );
+      expect(mockRedisClient.set).toHaveBeenCalledWith(
+        'skinalyze:migrations:legacy-cart-reservations',
+        expect.any(String),
+      );
+    });
+
+    // TC-CART-004-02: Boundary - Sweep already ran on an earlier start
+    it('TC-CART-004-02: should not scan carts again once the sweep has run', async () => {
+      mockRedisClient.exists.mockResolvedValue(1);
+
+      const released = await service.releaseLegacyCartReservations();
+
+      expect(released).toBe(0);
+      expect(mockRedisClient.scan).not.toHaveBeenCalled();
+      expect(mockInventoryService.releaseReservation).not.toHaveBeenCalled();
+    });
+
+    // TC-CART-004-03: Abnormal - One product can no longer be released
+    it('TC-CART-004-03: should keep releasing the other items when one release fails', async () => {
+      mockRedisClient.scan.mockResolvedValue([
+        '0',
+        ['skinalyze:cart:legacy-user'],
+      ]);
+      mockRedisClient.ttl.mockResolvedValue(60);
+      mockRedisClient.getdel.mockResolvedValue(JSON.stringify(legacyCart));
+      mockInventoryService.releaseReservation
+        .mockRejectedValueOnce(
+          new BadRequestException('Cannot release more than reserved'),
+        )
+        .mockResolvedValueOnce(undefined);
+
+      const released = await service.releaseLegacyCartReservations();
+
+      expect(released).toBe(1);
+      expect(mockInventoryService.releaseReservation).toHaveBeenCalledTimes(2);
+      expect(mockRedisClient.set).toHaveBeenCalledWith(
+        'skinalyze:migrations:legacy-cart-reservations',
+        expect.any(String),
+      );
+    });
   });
 });
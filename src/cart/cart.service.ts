@@ -2,10 +2,10 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  OnApplicationBootstrap,
   OnModuleDestroy,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Cron, CronExpression } from '@nestjs/schedule';
 import Redis from 'ioredis';
 import { AddToCartDto } from './dto/add-to-cart.dto';
 import { UpdateCartItemDto } from './dto/update-cart-item.dto';
@@ -13,22 +13,26 @@ import { Cart, CartItem } from './interfaces/cart-item.interface';
 import { ProductsService } from '../products/products.service';
 import { InventoryService } from '../inventory/inventory.service';
 import { AddressService } from '../address/address.service';
-import {
-  calculateDistance,
-  geocodeAddress,
-  SHOP_LOCATIONS,
-} from '../utils/location';
+import { WishlistService } from '../wishlist/wishlist.service';
+import { calculateDistance, geocodeAddress } from '../utils/location';
 
 @Injectable()
-export class CartService implements OnModuleDestroy {
+export class CartService implements OnApplicationBootstrap, OnModuleDestroy {
   private readonly redisClient: Redis;
-  private readonly CART_TTL_SECONDS = 300; // 5 minutes
+  // Giỏ hàng bền, dùng chung mọi thiết bị; gia hạn mỗi lần cập nhật.
+  // Giỏ không giữ hàng, hàng chỉ được giữ trong phiên checkout (StockReservationsService)
+  private readonly CART_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+  // Giỏ trước khi đổi sang 30 ngày: TTL 5 phút và giữ hàng trong inventory.reservedStock
+  private readonly LEGACY_CART_TTL_SECONDS = 300;
+  private readonly LEGACY_RESERVATIONS_MIGRATION_KEY =
+    'skinalyze:migrations:legacy-cart-reservations';
 
   constructor(
     private readonly configService: ConfigService,
     private readonly productsService: ProductsService,
     private readonly inventoryService: InventoryService,
     private readonly addressService: AddressService,
+    private readonly wishlistService: WishlistService,
   ) {
     // Initialize Redis client with configuration
     this.redisClient = new Redis({
@@ -48,6 +52,20 @@ export class CartService implements OnModuleDestroy {
     });
   }
 
+  /**
+   * Release stock still held by legacy carts once the app has started
+   */
+  async onApplicationBootstrap() {
+    try {
+      await this.releaseLegacyCartReservations();
+    } catch (error) {
+      console.error(
+        '[Cart Migration] Failed to release legacy cart reservations:',
+        error,
+      );
+    }
+  }
+
   /**
    * Cleanup Redis connection on module destroy
    */
@@ -110,13 +128,12 @@ export class CartService implements OnModuleDestroy {
   }
 
   /**
-   * Save cart to Redis with 5-minute TTL
-   * After 5 minutes of inactivity, cart will be automatically deleted
+   * Save cart to Redis with a 30-day sliding TTL
+   * Cart is only deleted after 30 days without any change
    */
   private async saveCart(cart: Cart): Promise<void> {
     const cartKey = this.getCartKey(cart.userId);
     const cartData = JSON.stringify(cart);
-    // Set cart with 5-minute expiration (300 seconds)
     await this.redisClient.set(cartKey, cartData, 'EX', this.CART_TTL_SECONDS);
   }
 
@@ -129,66 +146,72 @@ export class CartService implements OnModuleDestroy {
   }
 
   /**
-   * Remove TTL from cart (make it persistent)
-   * Called when user successfully checks out
+   * 🧹 Chạy một lần sau khi nâng cấp: giỏ cũ (TTL ≤ 5 phút) vẫn giữ hàng mà không
+   * còn cron nào trả lại → trả hàng rồi lưu lại giỏ với TTL mới.
+   * Giỏ mới (TTL 30 ngày) và giỏ đã checkout (không TTL) không giữ hàng nên bỏ qua.
+   * @returns Số dòng hàng đã trả
    */
-  async removeTTL(userId: string): Promise<void> {
-    const cartKey = this.getCartKey(userId);
-    await this.redisClient.persist(cartKey);
-  }
+  async releaseLegacyCartReservations(): Promise<number> {
+    if (await this.redisClient.exists(this.LEGACY_RESERVATIONS_MIGRATION_KEY)) {
+      return 0;
+    }
 
-  /**
-   * Scheduled job: Clean up expired carts and release inventory
-   * Runs every minute to check for carts about to expire
-   */
-  @Cron(CronExpression.EVERY_MINUTE)
-  async cleanupExpiredCarts(): Promise<void> {
-    try {
-      // Scan for all cart keys
-      const pattern = 'skinalyze:cart:*';
-      const keys = await this.redisClient.keys(pattern);
+    let released = 0;
+    let cursor = '0';
+    do {
+      const [nextCursor, keys] = await this.redisClient.scan(
+        cursor,
+        'MATCH',
+        this.getCartKey('*'),
+        'COUNT',
+        100,
+      );
+      cursor = nextCursor;
 
       for (const key of keys) {
-        // Check TTL for each cart
         const ttl = await this.redisClient.ttl(key);
+        if (ttl < 0 || ttl > this.LEGACY_CART_TTL_SECONDS) {
+          continue;
+        }
 
-        // If TTL is less than 60 seconds (about to expire), release inventory
-        if (ttl > 0 && ttl < 60) {
-          const cartData = await this.redisClient.get(key);
-          if (cartData) {
-            const cart = JSON.parse(cartData) as Cart;
-
-            // Release all inventory reservations
-            for (const item of cart.items) {
-              try {
-                await this.inventoryService.releaseReservation(
-                  item.productId,
-                  item.quantity,
-                );
-                console.log(
-                  `[Cart Cleanup] Released inventory for product ${item.productId}, quantity: ${item.quantity}`,
-                );
-              } catch (error) {
-                console.error(
-                  `[Cart Cleanup] Failed to release inventory for product ${item.productId}:`,
-                  error,
-                );
-              }
-            }
-
-            // Delete cart immediately after releasing inventory
-            await this.redisClient.del(key);
-            console.log(`[Cart Cleanup] Deleted expired cart: ${key}`);
+        // GETDEL: instance khởi động cùng lúc không trả hàng của một giỏ hai lần
+        const cartData = await this.redisClient.getdel(key);
+        if (!cartData) {
+          continue;
+        }
+        const cart = JSON.parse(cartData) as Cart;
+
+        for (const item of cart.items) {
+          try {
+            await this.inventoryService.releaseReservation(
+              item.productId,
+              item.quantity,
+              { note: `Legacy cart of user ${cart.userId}` },
+            );
+            released++;
+          } catch (error) {
+            console.error(
+              `[Cart Migration] Failed to release inventory for product ${item.productId}:`,
+              error,
+            );
           }
         }
+        await this.saveCart(cart);
       }
-    } catch (error) {
-      console.error('[Cart Cleanup] Error during cleanup:', error);
-    }
+    } while (cursor !== '0');
+
+    await this.redisClient.set(
+      this.LEGACY_RESERVATIONS_MIGRATION_KEY,
+      new Date().toISOString(),
+    );
+    console.log(
+      `[Cart Migration] Released ${released} legacy cart reservations`,
+    );
+    return released;
   }
 
   /**
-   * Add product to cart with inventory reservation
+   * Add product to cart (stock is checked, not reserved)
    */
   async addToCart(userId: string, addToCartDto: AddToCartDto): Promise<Cart> {
     const { productId, quantity } = addToCartDto;
@@ -207,13 +230,12 @@ export class CartService implements OnModuleDestroy {
         (item) => item.productId === productId,
       );
 
-      // RESERVE INVENTORY (only reserve the NEW quantity being added)
-      const reserveResult = await this.inventoryService.reserveStock(
-        productId,
-        quantity,
-      );
-
-      if (!reserveResult.success) {
+      // Kiểm tra tồn cho tổng số lượng trong giỏ sau khi thêm (không giữ hàng)
+      const quantityInCart =
+        existingItemIndex > -1 ? cart.items[existingItemIndex].quantity : 0;
+      const available =
+        await this.inventoryService.getAvailableStock(productId);
+      if (available < quantityInCart + quantity) {
         throw new BadRequestException('Không đủ hàng trong kho');
       }
 
@@ -266,7 +288,7 @@ export class CartService implements OnModuleDestroy {
   }
 
   /**
-   * Update cart item quantity with inventory adjustment
+   * Update cart item quantity (stock is checked when increasing)
    */
   async updateCartItem(
     userId: string,
@@ -292,27 +314,14 @@ export class CartService implements OnModuleDestroy {
         );
       }
 
-      const oldQuantity = cart.items[itemIndex].quantity;
-      const quantityDiff = quantity - oldQuantity;
-
-      // Adjust inventory reservation based on quantity change
-      if (quantityDiff > 0) {
-        // Need to reserve MORE stock
-        const reserveResult = await this.inventoryService.reserveStock(
-          productId,
-          quantityDiff,
-        );
-        if (!reserveResult.success) {
+      if (quantity > cart.items[itemIndex].quantity) {
+        const available =
+          await this.inventoryService.getAvailableStock(productId);
+        if (available < quantity) {
           throw new BadRequestException(
-            `Cannot increase quantity. Only ${oldQuantity} available in stock.`,
+            `Cannot increase quantity. Only ${available} available in stock.`,
           );
         }
-      } else if (quantityDiff < 0) {
-        // Need to release SOME stock
-        await this.inventoryService.releaseReservation(
-          productId,
-          Math.abs(quantityDiff),
-        );
       }
 
       // Update quantity
@@ -340,7 +349,7 @@ export class CartService implements OnModuleDestroy {
   }
 
   /**
-   * Remove item from cart and release inventory
+   * Remove item from cart
    */
   async removeFromCart(userId: string, productId: string): Promise<Cart> {
     const cart = await this.getCart(userId);
@@ -355,14 +364,6 @@ export class CartService implements OnModuleDestroy {
       );
     }
 
-    const item = cart.items[itemIndex];
-
-    // Release inventory reservation
-    await this.inventoryService.releaseReservation(
-      item.productId,
-      item.quantity,
-    );
-
     // Remove item
     cart.items.splice(itemIndex, 1);
 
@@ -384,6 +385,23 @@ export class CartService implements OnModuleDestroy {
     return cart;
   }
 
+  /**
+   * Move a cart item to the save-for-later list (keeps its quantity)
+   */
+  async saveForLater(userId: string, productId: string): Promise<Cart> {
+    const cart = await this.getCart(userId);
+    const item = cart.items.find((item) => item.productId === productId);
+
+    if (!item) {
+      throw new NotFoundException(
+        `Product with ID ${productId} not found in cart`,
+      );
+    }
+
+    await this.wishlistService.saveForLater(userId, productId, item.quantity);
+    return await this.removeFromCart(userId, productId);
+  }
+
   /**
    * Toggle select/unselect item in cart
    */
@@ -461,21 +479,9 @@ export class CartService implements OnModuleDestroy {
   }
 
   /**
-   * Clear entire cart and release all reservations
+   * Clear entire cart
    */
   async clearCart(userId: string): Promise<void> {
-    // Release all reservations before clearing
-    const cart = await this.getCart(userId);
-    if (cart && cart.items.length > 0) {
-      for (const item of cart.items) {
-        await this.inventoryService.releaseReservation(
-          item.productId,
-          item.quantity,
-        );
-      }
-    }
-
-    // Delete cart from Redis
     await this.deleteCart(userId);
   }
 
@@ -0,0 +1,114 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CommissionsService } from './commissions.service';
+import {
+  CreateCommissionRuleDto,
+  FindCommissionRulesDto,
+  PlatformFeeReportDto,
+  UpdateCommissionRuleDto,
+} from './dto/commission-rule.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User, UserRole } from '../users/entities/user.entity';
+import { ResponseHelper } from '../utils/responses';
+
+@ApiTags('Commissions')
+@Controller('commissions')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class CommissionsController {
+  constructor(private readonly commissionsService: CommissionsService) {}
+
+  @Post('rules')
+  @ApiOperation({
+    summary: 'Create a commission rule (Admin only)',
+    description:
+      'Global default, per dermatologist, per subscription plan or per appointment type. Set startsAt/endsAt for time-bounded promotions.',
+  })
+  @ApiResponse({ status: 201, description: 'Commission rule created' })
+  async createRule(
+    @GetUser() user: User,
+    @Body() dto: CreateCommissionRuleDto,
+  ) {
+    const rule = await this.commissionsService.create(dto, user.userId);
+    return ResponseHelper.created('Commission rule created', rule);
+  }
+
+  @Get('rules')
+  @ApiOperation({ summary: 'List commission rules (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Commission rules retrieved' })
+  async findRules(@Query() query: FindCommissionRulesDto) {
+    const { data, total } = await this.commissionsService.findAll(query);
+    return ResponseHelper.paginated(
+      data,
+      total,
+      query.page ?? 1,
+      query.limit ?? 50,
+    );
+  }
+
+  @Get('rules/:ruleId')
+  @ApiOperation({ summary: 'Get a commission rule (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Commission rule retrieved' })
+  async findRule(@Param('ruleId', new ParseUUIDPipe()) ruleId: string) {
+    const rule = await this.commissionsService.findOne(ruleId);
+    return ResponseHelper.success('Commission rule retrieved', rule);
+  }
+
+  @Patch('rules/:ruleId')
+  @ApiOperation({
+    summary: 'Update a commission rule (Admin only)',
+    description:
+      'Only affects bookings made afterwards. Existing appointments and subscriptions keep their snapshotted rate.',
+  })
+  @ApiResponse({ status: 200, description: 'Commission rule updated' })
+  async updateRule(
+    @Param('ruleId', new ParseUUIDPipe()) ruleId: string,
+    @Body() dto: UpdateCommissionRuleDto,
+  ) {
+    const rule = await this.commissionsService.update(ruleId, dto);
+    return ResponseHelper.success('Commission rule updated', rule);
+  }
+
+  @Delete('rules/:ruleId')
+  @ApiOperation({ summary: 'Deactivate a commission rule (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Commission rule deactivated' })
+  async deactivateRule(@Param('ruleId', new ParseUUIDPipe()) ruleId: string) {
+    const rule = await this.commissionsService.deactivate(ruleId);
+    return ResponseHelper.success('Commission rule deactivated', rule);
+  }
+
+  @Get('reports/platform-fees')
+  @ApiOperation({
+    summary: 'Platform fee revenue report (Admin only)',
+    description:
+      'Net movement of the PLATFORM_FEES ledger account between two dates, grouped by transaction type',
+  })
+  @ApiResponse({ status: 200, description: 'Platform fee report generated' })
+  async getPlatformFeeReport(@Query() query: PlatformFeeReportDto) {
+    const report = await this.commissionsService.getPlatformFeeReport(
+      query.from,
+      query.to,
+    );
+    return ResponseHelper.success('Platform fee report generated', report);
+  }
+}
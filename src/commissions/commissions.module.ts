@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CommissionRule } from './entities/commission-rule.entity';
+import { CommissionsService } from './commissions.service';
+import { CommissionsController } from './commissions.controller';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([CommissionRule])],
+  controllers: [CommissionsController],
+  providers: [CommissionsService],
+  exports: [CommissionsService],
+})
+export class CommissionsModule {}
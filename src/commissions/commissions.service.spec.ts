@@ -0,0 +1,283 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import {
+  CommissionsService,
+  DEFAULT_COMMISSION_RATES,
+} from './commissions.service';
+import {
+  CommissionRule,
+  CommissionRuleScope,
+  CommissionServiceType,
+} from './entities/commission-rule.entity';
+import { Appointment } from '../appointments/entities/appointment.entity';
+import { AppointmentType } from '../appointments/types/appointment.types';
+import { LedgerTransactionType } from '../ledger/entities/ledger-transaction.entity';
+
+describe('CommissionsService', () => {
+  let service: CommissionsService;
+
+  const rule = (overrides: Partial<CommissionRule>): CommissionRule =>
+    ({
+      ruleId: 'rule-global',
+      name: 'Default',
+      serviceType: CommissionServiceType.BOOKING,
+      scope: CommissionRuleScope.GLOBAL,
+      dermatologistId: null,
+      planId: null,
+      appointmentType: null,
+      rate: 0.3,
+      priority: 0,
+      startsAt: null,
+      endsAt: null,
+      isActive: true,
+      createdAt: new Date('2025-01-01T00:00:00Z'),
+      ...overrides,
+    }) as CommissionRule;
+
+  const queryBuilder = {
+    innerJoin: jest.fn().mockReturnThis(),
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    groupBy: jest.fn().mockReturnThis(),
+    getRawMany: jest.fn(),
+  };
+
+  const mockEntityManager = {
+    findOne: jest.fn(),
+    getRepository: jest.fn(() => ({
+      createQueryBuilder: jest.fn(() => queryBuilder),
+    })),
+  };
+
+  const mockRuleRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    findAndCount: jest.fn(),
+    create: jest.fn((data: Partial<CommissionRule>) => data),
+    save: jest.fn((data: Partial<CommissionRule>) =>
+      Promise.resolve({ ruleId: 'rule-new', ...data }),
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommissionsService,
+        { provide: EntityManager, useValue: mockEntityManager },
+        {
+          provide: getRepositoryToken(CommissionRule),
+          useValue: mockRuleRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CommissionsService>(CommissionsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('resolveRate', () => {
+    const bookingContext = {
+      serviceType: CommissionServiceType.BOOKING,
+      dermatologistId: 'derma-1',
+      appointmentType: AppointmentType.NEW_PROBLEM,
+      at: new Date('2025-03-15T03:00:00Z'),
+    };
+
+    // TC-COMMISSION-001-01: Normal - No rule configured
+    it('TC-COMMISSION-001-01: should fall back to the default rate', async () => {
+      mockRuleRepository.find.mockResolvedValue([]);
+
+      const result = await service.resolveRate(bookingContext);
+
+      expect(result).toEqual({
+        rate: DEFAULT_COMMISSION_RATES[CommissionServiceType.BOOKING],
+        ruleId: null,
+      });
+    });
+
+    // TC-COMMISSION-001-02: Normal - Dermatologist rule beats global default
+    it('TC-COMMISSION-001-02: should prefer the more specific scope', async () => {
+      mockRuleRepository.find.mockResolvedValue([
+        rule({}),
+        rule({
+          ruleId: 'rule-type',
+          scope: CommissionRuleScope.APPOINTMENT_TYPE,
+          appointmentType: AppointmentType.NEW_PROBLEM,
+          rate: 0.2,
+        }),
+        rule({
+          ruleId: 'rule-derma',
+          scope: CommissionRuleScope.DERMATOLOGIST,
+          dermatologistId: 'derma-1',
+          rate: 0.15,
+        }),
+        rule({
+          ruleId: 'rule-other-derma',
+          scope: CommissionRuleScope.DERMATOLOGIST,
+          dermatologistId: 'derma-2',
+          rate: 0.05,
+        }),
+      ]);
+
+      const result = await service.resolveRate(bookingContext);
+
+      expect(result).toEqual({ rate: 0.15, ruleId: 'rule-derma' });
+    });
+
+    // TC-COMMISSION-001-03: Normal - Active promotion overrides standing rule
+    it('TC-COMMISSION-001-03: should apply a promotion only inside its window', async () => {
+      const promotion = rule({
+        ruleId: 'rule-promo',
+        rate: 0.1,
+        startsAt: new Date('2025-03-01T00:00:00Z'),
+        endsAt: new Date('2025-03-31T23:59:59Z'),
+      });
+      mockRuleRepository.find.mockResolvedValue([rule({}), promotion]);
+
+      const during = await service.resolveRate(bookingContext);
+      const after = await service.resolveRate({
+        ...bookingContext,
+        at: new Date('2025-04-01T03:00:00Z'),
+      });
+
+      expect(during.ruleId).toBe('rule-promo');
+      expect(after.ruleId).toBe('rule-global');
+    });
+
+    // TC-COMMISSION-001-04: Boundary - Priority wins over specificity
+    it('TC-COMMISSION-001-04: should let a higher priority rule win', async () => {
+      mockRuleRepository.find.mockResolvedValue([
+        rule({
+          ruleId: 'rule-derma',
+          scope: CommissionRuleScope.DERMATOLOGIST,
+          dermatologistId: 'derma-1',
+          rate: 0.15,
+        }),
+        rule({ ruleId: 'rule-campaign', rate: 0, priority: 10 }),
+      ]);
+
+      const result = await service.resolveRate(bookingContext);
+
+      expect(result).toEqual({ rate: 0, ruleId: 'rule-campaign' });
+    });
+  });
+
+  describe('getAppointmentFeeRate', () => {
+    // TC-COMMISSION-002-01: Normal - Snapshot is used as-is
+    it('TC-COMMISSION-002-01: should use the rate snapshotted on the appointment', async () => {
+      const rate = await service.getAppointmentFeeRate({
+        platformFeeRate: '0.1200',
+      } as unknown as Appointment);
+
+      expect(rate).toBe(0.12);
+      expect(mockRuleRepository.find).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('create', () => {
+    // TC-COMMISSION-003-01: Abnormal - Plan rule for bookings
+    it('TC-COMMISSION-003-01: should reject a subscription plan rule for bookings', async () => {
+      await expect(
+        service.create(
+          {
+            name: 'Invalid',
+            serviceType: CommissionServiceType.BOOKING,
+            scope: CommissionRuleScope.SUBSCRIPTION_PLAN,
+            planId: 'plan-1',
+            rate: 0.1,
+          },
+          'admin-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    // TC-COMMISSION-003-02: Abnormal - Window ends before it starts
+    it('TC-COMMISSION-003-02: should reject an empty promotion window', async () => {
+      await expect(
+        service.create(
+          {
+            name: 'Promo',
+            serviceType: CommissionServiceType.BOOKING,
+            scope: CommissionRuleScope.GLOBAL,
+            rate: 0.1,
+            startsAt: '2025-03-31T00:00:00Z',
+            endsAt: '2025-03-01T00:00:00Z',
+          },
+          'admin-1',
+        ),
+      ).rejects.toThrow('endsAt must be after startsAt');
+    });
+
+    // TC-COMMISSION-003-03: Normal - Global rule ignores scope targets
+    it('TC-COMMISSION-003-03: should create a global rule without targets', async () => {
+      const saved = await service.create(
+        {
+          name: 'New default',
+          serviceType: CommissionServiceType.SUBSCRIPTION,
+          scope: CommissionRuleScope.GLOBAL,
+          dermatologistId: 'derma-1',
+          rate: 0.18,
+        },
+        'admin-1',
+      );
+
+      expect(saved).toEqual(
+        expect.objectContaining({
+          dermatologistId: null,
+          rate: 0.18,
+          createdBy: 'admin-1',
+        }),
+      );
+    });
+  });
+
+  describe('getPlatformFeeReport', () => {
+    // TC-COMMISSION-004-01: Normal - Net revenue by transaction type
+    it('TC-COMMISSION-004-01: should net credits and debits on PLATFORM_FEES', async () => {
+      queryBuilder.getRawMany.mockResolvedValue([
+        {
+          transactionType: LedgerTransactionType.BOOKING_PAYOUT,
+          credited: '75000.00',
+          debited: '0',
+          entryCount: '1',
+        },
+        {
+          transactionType: LedgerTransactionType.SUBSCRIPTION_REFUND,
+          credited: '0',
+          debited: '20000.00',
+          entryCount: '1',
+        },
+      ]);
+
+      const report = await service.getPlatformFeeReport(
+        '2025-03-01',
+        '2025-03-31',
+      );
+
+      expect(report.totalCredited).toBe(75000);
+      expect(report.totalDebited).toBe(20000);
+      expect(report.netRevenue).toBe(55000);
+      expect(queryBuilder.andWhere).toHaveBeenCalledWith(
+        'entry.createdAt BETWEEN :start AND :end',
+        {
+          start: new Date('2025-02-28T17:00:00.000Z'),
+          end: new Date('2025-03-31T16:59:59.999Z'),
+        },
+      );
+    });
+
+    // TC-COMMISSION-004-02: Abnormal - Inverted range
+    it('TC-COMMISSION-004-02: should reject a range where from is after to', async () => {
+      await expect(
+        service.getPlatformFeeReport('2025-03-31', '2025-03-01'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
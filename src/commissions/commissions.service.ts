@@ -0,0 +1,429 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import {
+  CommissionRule,
+  CommissionRuleScope,
+  CommissionServiceType,
+} from './entities/commission-rule.entity';
+import {
+  CreateCommissionRuleDto,
+  FindCommissionRulesDto,
+  UpdateCommissionRuleDto,
+} from './dto/commission-rule.dto';
+import { Appointment } from '../appointments/entities/appointment.entity';
+import { AppointmentType } from '../appointments/types/appointment.types';
+import { Dermatologist } from '../dermatologists/entities/dermatologist.entity';
+import { SubscriptionPlan } from '../subscription-plans/entities/subscription-plan.entity';
+import { LedgerEntry } from '../ledger/entities/ledger-entry.entity';
+import {
+  LedgerAccount,
+  LedgerAccountType,
+} from '../ledger/entities/ledger-account.entity';
+import { LedgerTransactionType } from '../ledger/entities/ledger-transaction.entity';
+
+// Áp dụng khi chưa có rule nào khớp
+export const DEFAULT_COMMISSION_RATES: Record<CommissionServiceType, number> = {
+  [CommissionServiceType.BOOKING]: 0.25,
+  [CommissionServiceType.SUBSCRIPTION]: 0.2,
+};
+
+// Scope càng cụ thể càng được ưu tiên (khi cùng priority)
+const SCOPE_SPECIFICITY: Record<CommissionRuleScope, number> = {
+  [CommissionRuleScope.SUBSCRIPTION_PLAN]: 3,
+  [CommissionRuleScope.DERMATOLOGIST]: 2,
+  [CommissionRuleScope.APPOINTMENT_TYPE]: 1,
+  [CommissionRuleScope.GLOBAL]: 0,
+};
+
+export interface CommissionContext {
+  serviceType: CommissionServiceType;
+  dermatologistId?: string | null;
+  planId?: string | null;
+  appointmentType?: AppointmentType | null;
+  at?: Date; // Thời điểm đặt, mặc định là hiện tại
+}
+
+export interface ResolvedCommission {
+  rate: number;
+  ruleId: string | null; // NULL = dùng DEFAULT_COMMISSION_RATES
+}
+
+export interface PlatformFeeReport {
+  from: string;
+  to: string;
+  totalCredited: number;
+  totalDebited: number; // Phí nền tảng bị hoàn lại (hoàn gói, ...)
+  netRevenue: number;
+  byTransactionType: {
+    transactionType: LedgerTransactionType;
+    credited: number;
+    debited: number;
+    net: number;
+    entryCount: number;
+  }[];
+}
+
+@Injectable()
+export class CommissionsService {
+  private readonly logger = new Logger(CommissionsService.name);
+  private readonly TIMEZONE_OFFSET = '+07:00'; // Báo cáo theo ngày giờ Việt Nam
+
+  constructor(
+    @InjectRepository(CommissionRule)
+    private readonly commissionRuleRepository: Repository<CommissionRule>,
+    private readonly entityManager: EntityManager,
+  ) {}
+
+  async create(
+    dto: CreateCommissionRuleDto,
+    adminUserId: string,
+  ): Promise<CommissionRule> {
+    await this.validateScopeTarget(dto);
+    const { startsAt, endsAt } = this.parseWindow(dto.startsAt, dto.endsAt);
+
+    const rule = this.commissionRuleRepository.create({
+      name: dto.name,
+      serviceType: dto.serviceType,
+      scope: dto.scope,
+      dermatologistId:
+        dto.scope === CommissionRuleScope.DERMATOLOGIST
+          ? dto.dermatologistId
+          : null,
+      planId:
+        dto.scope === CommissionRuleScope.SUBSCRIPTION_PLAN ? dto.planId : null,
+      appointmentType:
+        dto.scope === CommissionRuleScope.APPOINTMENT_TYPE
+          ? dto.appointmentType
+          : null,
+      rate: dto.rate,
+      priority: dto.priority ?? 0,
+      startsAt,
+      endsAt,
+      createdBy: adminUserId,
+    });
+
+    const saved = await this.commissionRuleRepository.save(rule);
+    this.logger.log(
+      `📐 Commission rule ${saved.ruleId} (${saved.serviceType}/${saved.scope}) created at ${saved.rate} by ${adminUserId}`,
+    );
+    return saved;
+  }
+
+  async findAll(
+    query: FindCommissionRulesDto,
+  ): Promise<{ data: CommissionRule[]; total: number }> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+    const [data, total] = await this.commissionRuleRepository.findAndCount({
+      where: {
+        ...(query.serviceType && { serviceType: query.serviceType }),
+        ...(query.scope && { scope: query.scope }),
+      },
+      relations: ['dermatologist', 'dermatologist.user', 'subscriptionPlan'],
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { data, total };
+  }
+
+  async findOne(ruleId: string): Promise<CommissionRule> {
+    const rule = await this.commissionRuleRepository.findOne({
+      where: { ruleId },
+      relations: ['dermatologist', 'dermatologist.user', 'subscriptionPlan'],
+    });
+    if (!rule) {
+      throw new NotFoundException(`Commission rule ${ruleId} not found`);
+    }
+    return rule;
+  }
+
+  /**
+   * Chỉ ảnh hưởng các lượt đặt sau thời điểm cập nhật (rate đã chụp lại không đổi)
+   */
+  async update(
+    ruleId: string,
+    dto: UpdateCommissionRuleDto,
+  ): Promise<CommissionRule> {
+    const rule = await this.findOne(ruleId);
+    const { startsAt, endsAt } = this.parseWindow(
+      dto.startsAt ?? rule.startsAt?.toISOString(),
+      dto.endsAt ?? rule.endsAt?.toISOString(),
+    );
+
+    Object.assign(rule, {
+      ...(dto.name !== undefined && { name: dto.name }),
+      ...(dto.rate !== undefined && { rate: dto.rate }),
+      ...(dto.priority !== undefined && { priority: dto.priority }),
+      ...(dto.isActive !== undefined && { isActive: dto.isActive }),
+      startsAt,
+      endsAt,
+    });
+
+    return this.commissionRuleRepository.save(rule);
+  }
+
+  async deactivate(ruleId: string): Promise<CommissionRule> {
+    const rule = await this.findOne(ruleId);
+    rule.isActive = false;
+    return this.commissionRuleRepository.save(rule);
+  }
+
+  /**
+   * Chọn rate phí nền tảng cho một lượt đặt.
+   * Thứ tự ưu tiên: priority → scope cụ thể hơn → rule có thời hạn (khuyến mãi) → rule mới hơn.
+   */
+  async resolveRate(
+    context: CommissionContext,
+    manager?: EntityManager,
+  ): Promise<ResolvedCommission> {
+    const at = context.at ?? new Date();
+    const repo =
+      manager?.getRepository(CommissionRule) ?? this.commissionRuleRepository;
+
+    const rules = await repo.find({
+      where: { serviceType: context.serviceType, isActive: true },
+    });
+
+    const [winner] = rules
+      .filter((rule) => this.isWithinWindow(rule, at))
+      .filter((rule) => this.matchesContext(rule, context))
+      .sort(
+        (a, b) =>
+          b.priority - a.priority ||
+          SCOPE_SPECIFICITY[b.scope] - SCOPE_SPECIFICITY[a.scope] ||
+          Number(this.isTimeBounded(b)) - Number(this.isTimeBounded(a)) ||
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+      );
+
+    if (!winner) {
+      return {
+        rate: DEFAULT_COMMISSION_RATES[context.serviceType],
+        ruleId: null,
+      };
+    }
+    return { rate: Number(winner.rate), ruleId: winner.ruleId };
+  }
+
+  /**
+   * Rate đã chụp lại trên appointment. Lịch hẹn cũ chưa có snapshot thì
+   * tính lại theo rule hiệu lực tại thời điểm đặt.
+   */
+  async getAppointmentFeeRate(
+    appointment: Appointment,
+    manager?: EntityManager,
+  ): Promise<number> {
+    if (
+      appointment.platformFeeRate !== null &&
+      appointment.platformFeeRate !== undefined
+    ) {
+      return Number(appointment.platformFeeRate);
+    }
+
+    const { rate } = await this.resolveRate(
+      {
+        serviceType: CommissionServiceType.BOOKING,
+        dermatologistId: appointment.dermatologist?.dermatologistId,
+        appointmentType: appointment.appointmentType,
+        at: appointment.createdAt,
+      },
+      manager,
+    );
+    return rate;
+  }
+
+  /**
+   * Doanh thu phí nền tảng = phát sinh trên tài khoản PLATFORM_FEES trong khoảng ngày
+   */
+  async getPlatformFeeReport(
+    from: string,
+    to: string,
+  ): Promise<PlatformFeeReport> {
+    const start = this.parseDate(from);
+    const end = new Date(
+      this.parseDate(to).getTime() + 24 * 60 * 60 * 1000 - 1,
+    );
+    if (start > end) {
+      throw new BadRequestException('from must not be after to');
+    }
+
+    const rows: {
+      transactionType: LedgerTransactionType;
+      credited: string | null;
+      debited: string | null;
+      entryCount: string;
+    }[] = await this.entityManager
+      .getRepository(LedgerEntry)
+      .createQueryBuilder('entry')
+      .innerJoin(
+        LedgerAccount,
+        'account',
+        'account.accountId = entry.accountId',
+      )
+      .innerJoin('entry.transaction', 'transaction')
+      .select('transaction.transactionType', 'transactionType')
+      .addSelect(
+        "SUM(CASE WHEN entry.direction = 'credit' THEN entry.amount ELSE 0 END)",
+        'credited',
+      )
+      .addSelect(
+        "SUM(CASE WHEN entry.direction = 'debit' THEN entry.amount ELSE 0 END)",
+        'debited',
+      )
+      .addSelect('COUNT(*)', 'entryCount')
+      .where('account.accountType = :accountType', {
+        accountType: LedgerAccountType.PLATFORM_FEES,
+      })
+      .andWhere('entry.createdAt BETWEEN :start AND :end', { start, end })
+      .groupBy('transaction.transactionType')
+      .getRawMany();
+
+    const byTransactionType = rows.map((row) => {
+      const credited = this.toMoney(Number(row.credited ?? 0));
+      const debited = this.toMoney(Number(row.debited ?? 0));
+      return {
+        transactionType: row.transactionType,
+        credited,
+        debited,
+        net: this.toMoney(credited - debited),
+        entryCount: Number(row.entryCount),
+      };
+    });
+
+    const totalCredited = this.toMoney(
+      byTransactionType.reduce((sum, row) => sum + row.credited, 0),
+    );
+    const totalDebited = this.toMoney(
+      byTransactionType.reduce((sum, row) => sum + row.debited, 0),
+    );
+
+    return {
+      from,
+      to,
+      totalCredited,
+      totalDebited,
+      netRevenue: this.toMoney(totalCredited - totalDebited),
+      byTransactionType,
+    };
+  }
+
+  private matchesContext(
+    rule: CommissionRule,
+    context: CommissionContext,
+  ): boolean {
+    switch (rule.scope) {
+      case CommissionRuleScope.GLOBAL:
+        return true;
+      case CommissionRuleScope.DERMATOLOGIST:
+        return (
+          !!context.dermatologistId &&
+          rule.dermatologistId === context.dermatologistId
+        );
+      case CommissionRuleScope.SUBSCRIPTION_PLAN:
+        return !!context.planId && rule.planId === context.planId;
+      case CommissionRuleScope.APPOINTMENT_TYPE:
+        return (
+          !!context.appointmentType &&
+          rule.appointmentType === context.appointmentType
+        );
+      default:
+        return false;
+    }
+  }
+
+  private isWithinWindow(rule: CommissionRule, at: Date): boolean {
+    if (rule.startsAt && new Date(rule.startsAt) > at) return false;
+    if (rule.endsAt && new Date(rule.endsAt) < at) return false;
+    return true;
+  }
+
+  private isTimeBounded(rule: CommissionRule): boolean {
+    return !!rule.startsAt || !!rule.endsAt;
+  }
+
+  private async validateScopeTarget(
+    dto: CreateCommissionRuleDto,
+  ): Promise<void> {
+    switch (dto.scope) {
+      case CommissionRuleScope.DERMATOLOGIST: {
+        if (!dto.dermatologistId) {
+          throw new BadRequestException(
+            'dermatologistId is required for dermatologist rules',
+          );
+        }
+        const dermatologist = await this.entityManager.findOne(Dermatologist, {
+          where: { dermatologistId: dto.dermatologistId },
+        });
+        if (!dermatologist) {
+          throw new NotFoundException(
+            `Dermatologist ${dto.dermatologistId} not found`,
+          );
+        }
+        break;
+      }
+      case CommissionRuleScope.SUBSCRIPTION_PLAN: {
+        if (dto.serviceType !== CommissionServiceType.SUBSCRIPTION) {
+          throw new BadRequestException(
+            'Subscription plan rules only apply to subscriptions',
+          );
+        }
+        if (!dto.planId) {
+          throw new BadRequestException(
+            'planId is required for subscription plan rules',
+          );
+        }
+        const plan = await this.entityManager.findOne(SubscriptionPlan, {
+          where: { planId: dto.planId },
+        });
+        if (!plan) {
+          throw new NotFoundException(
+            `Subscription plan ${dto.planId} not found`,
+          );
+        }
+        break;
+      }
+      case CommissionRuleScope.APPOINTMENT_TYPE:
+        if (dto.serviceType !== CommissionServiceType.BOOKING) {
+          throw new BadRequestException(
+            'Appointment type rules only apply to bookings',
+          );
+        }
+        if (!dto.appointmentType) {
+          throw new BadRequestException(
+            'appointmentType is required for appointment type rules',
+          );
+        }
+        break;
+    }
+  }
+
+  private parseWindow(
+    startsAt?: string,
+    endsAt?: string,
+  ): { startsAt: Date | null; endsAt: Date | null } {
+    const start = startsAt ? new Date(startsAt) : null;
+    const end = endsAt ? new Date(endsAt) : null;
+    if (start && end && start >= end) {
+      throw new BadRequestException('endsAt must be after startsAt');
+    }
+    return { startsAt: start, endsAt: end };
+  }
+
+  private parseDate(date: string): Date {
+    const parsed = new Date(`${date}T00:00:00${this.TIMEZONE_OFFSET}`);
+    if (Number.isNaN(parsed.getTime())) {
+      throw new BadRequestException('Invalid date. Use YYYY-MM-DD');
+    }
+    return parsed;
+  }
+
+  private toMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
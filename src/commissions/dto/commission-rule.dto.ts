@@ -0,0 +1,159 @@
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  CommissionRuleScope,
+  CommissionServiceType,
+} from '../entities/commission-rule.entity';
+import { AppointmentType } from '../../appointments/types/appointment.types';
+
+export class CreateCommissionRuleDto {
+  @ApiProperty({
+    description: 'Tên quy tắc',
+    example: 'Khuyến mãi bác sĩ mới tháng 3',
+  })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ enum: CommissionServiceType })
+  @IsEnum(CommissionServiceType)
+  serviceType: CommissionServiceType;
+
+  @ApiProperty({ enum: CommissionRuleScope })
+  @IsEnum(CommissionRuleScope)
+  scope: CommissionRuleScope;
+
+  @ApiPropertyOptional({
+    description: 'Bắt buộc khi scope = dermatologist',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  dermatologistId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Bắt buộc khi scope = subscription_plan',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  planId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Bắt buộc khi scope = appointment_type',
+    enum: AppointmentType,
+  })
+  @IsOptional()
+  @IsEnum(AppointmentType)
+  appointmentType?: AppointmentType;
+
+  @ApiProperty({
+    description: 'Tỉ lệ phí nền tảng (0 - 1)',
+    example: 0.15,
+  })
+  @IsNumber({ maxDecimalPlaces: 4 })
+  @Min(0)
+  @Max(1)
+  rate: number;
+
+  @ApiPropertyOptional({
+    description: 'Rule có priority cao hơn được ưu tiên',
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @ApiPropertyOptional({
+    description: 'Bắt đầu áp dụng (ISO 8601). Bỏ trống = ngay lập tức',
+    example: '2025-03-01T00:00:00+07:00',
+  })
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Hết hạn áp dụng (ISO 8601). Bỏ trống = không giới hạn',
+    example: '2025-03-31T23:59:59+07:00',
+  })
+  @IsOptional()
+  @IsDateString()
+  endsAt?: string;
+}
+
+export class UpdateCommissionRuleDto extends PartialType(
+  OmitType(CreateCommissionRuleDto, [
+    'serviceType',
+    'scope',
+    'dermatologistId',
+    'planId',
+    'appointmentType',
+  ] as const),
+) {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class FindCommissionRulesDto {
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+
+  @ApiPropertyOptional({ enum: CommissionServiceType })
+  @IsOptional()
+  @IsEnum(CommissionServiceType)
+  serviceType?: CommissionServiceType;
+
+  @ApiPropertyOptional({ enum: CommissionRuleScope })
+  @IsOptional()
+  @IsEnum(CommissionRuleScope)
+  scope?: CommissionRuleScope;
+}
+
+export class PlatformFeeReportDto {
+  @ApiProperty({
+    description: 'Từ ngày (giờ Việt Nam)',
+    example: '2025-03-01',
+  })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'from must be YYYY-MM-DD' })
+  from: string;
+
+  @ApiProperty({
+    description: 'Đến ngày, tính cả ngày này (giờ Việt Nam)',
+    example: '2025-03-31',
+  })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'to must be YYYY-MM-DD' })
+  to: string;
+}
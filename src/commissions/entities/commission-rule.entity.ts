@@ -0,0 +1,90 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Dermatologist } from '../../dermatologists/entities/dermatologist.entity';
+import { SubscriptionPlan } from '../../subscription-plans/entities/subscription-plan.entity';
+import { AppointmentType } from '../../appointments/types/appointment.types';
+
+export enum CommissionServiceType {
+  BOOKING = 'booking', // Đặt lịch khám lẻ
+  SUBSCRIPTION = 'subscription', // Mua gói khám
+}
+
+export enum CommissionRuleScope {
+  GLOBAL = 'global', // Mặc định toàn hệ thống
+  DERMATOLOGIST = 'dermatologist', // Riêng một bác sĩ
+  SUBSCRIPTION_PLAN = 'subscription_plan', // Riêng một gói khám
+  APPOINTMENT_TYPE = 'appointment_type', // Theo loại lịch hẹn (NEW_PROBLEM / FOLLOW_UP)
+}
+
+/**
+ * Quy tắc phí nền tảng (hoa hồng) admin cấu hình.
+ * Rate được chụp lại trên appointment / customer subscription lúc đặt
+ * nên sửa rule không ảnh hưởng các lượt đã đặt.
+ */
+@Entity('commission_rules')
+@Index(['serviceType', 'isActive'])
+export class CommissionRule {
+  @PrimaryGeneratedColumn('uuid')
+  ruleId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'enum', enum: CommissionServiceType })
+  serviceType: CommissionServiceType;
+
+  @Column({ type: 'enum', enum: CommissionRuleScope })
+  scope: CommissionRuleScope;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  dermatologistId: string | null;
+
+  @ManyToOne(() => Dermatologist, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'dermatologistId' })
+  dermatologist: Dermatologist;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  planId: string | null;
+
+  @ManyToOne(() => SubscriptionPlan, { nullable: true, onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'planId' })
+  subscriptionPlan: SubscriptionPlan;
+
+  @Column({ type: 'enum', enum: AppointmentType, nullable: true })
+  appointmentType: AppointmentType | null;
+
+  // Tỉ lệ phí nền tảng, 0.25 = 25%
+  @Column({ type: 'decimal', precision: 5, scale: 4 })
+  rate: number;
+
+  // Rule có priority cao hơn thắng trước khi xét độ cụ thể của scope
+  @Column({ type: 'int', default: 0 })
+  priority: number;
+
+  // Khung thời gian áp dụng (khuyến mãi). NULL = không giới hạn
+  @Column({ type: 'datetime', nullable: true })
+  startsAt: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  endsAt: Date | null;
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  createdBy: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
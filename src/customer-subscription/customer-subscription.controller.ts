@@ -25,6 +25,7 @@ import { ResponseHelper } from '../utils/responses';
 import { CustomerSubscriptionService } from './customer-subscription.service';
 import { CustomersService } from '../customers/customers.service';
 import { CreateCustomerSubscriptionDto } from './dto/create-customer-subscription.dto';
+import { Idempotent } from '../idempotency/decorators/idempotent.decorator';
 
 @ApiTags('Customer Subscriptions')
 @ApiBearerAuth()
@@ -38,6 +39,7 @@ export class CustomerSubscriptionController {
 
   @Post()
   @Roles(UserRole.CUSTOMER)
+  @Idempotent()
   @ApiOperation({ summary: 'Create a payment request for a subscription' })
   @ApiCreatedResponse({
     description: 'Payment request created. Awaiting payment.',
@@ -58,12 +60,10 @@ export class CustomerSubscriptionController {
       {
         paymentInfo: {
           paymentCode: payment.paymentCode,
-          bankingInfo: {
-            bankName: 'MBBank',
-            accountNumber: '0347178790',
-            accountName: 'CHU PHAN NHAT LONG',
-            amount: payment.amount,
-            qrCodeUrl: `https://img.vietqr.io/image/MB-0347178790-compact2.png?amount=${payment.amount}&addInfo=${payment.paymentCode}`,
+          qrPayload: payment.paymentIntent?.qrPayload ?? null,
+          bankingInfo: payment.paymentIntent && {
+            ...payment.paymentIntent.bankingInfo,
+            qrCodeUrl: payment.paymentIntent.qrCodeUrl,
           },
         },
       },
@@ -72,6 +72,7 @@ export class CustomerSubscriptionController {
 
   @Post('use-wallet')
   @Roles(UserRole.CUSTOMER)
+  @Idempotent()
   @ApiOperation({ summary: 'Purchase subscription using Wallet balance' })
   @ApiCreatedResponse({
     description: 'Subscription activated immediately.',
@@ -7,6 +7,9 @@ import { PaymentsModule } from '../payments/payments.module';
 import { CustomersModule } from '../customers/customers.module';
 import { SubscriptionPlansModule } from '../subscription-plans/subscription-plans.module';
 import { UsersModule } from 'src/users/users.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { CommissionsModule } from '../commissions/commissions.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
 
 @Module({
   imports: [
@@ -15,6 +18,9 @@ import { UsersModule } from 'src/users/users.module';
     CustomersModule,
     SubscriptionPlansModule,
     UsersModule,
+    LedgerModule,
+    CommissionsModule,
+    IdempotencyModule,
   ],
   controllers: [CustomerSubscriptionController],
   providers: [CustomerSubscriptionService],
@@ -5,6 +5,7 @@ import {
   Inject,
   forwardRef,
   BadRequestException,
+  InternalServerErrorException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { EntityManager, FindOptionsWhere, LessThan, Repository } from 'typeorm';
@@ -17,11 +18,20 @@ import {
   PaymentStatus,
   PaymentType,
 } from '../payments/entities/payment.entity';
+import { PaymentWithIntent } from '../payments/providers/payment-provider.interface';
 import { CreateCustomerSubscriptionDto } from './dto/create-customer-subscription.dto';
 import { Customer } from 'src/customers/entities/customer.entity';
 import { SubscriptionPlan } from 'src/subscription-plans/entities/subscription-plan.entity';
-import { UsersService } from 'src/users/users.service';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { LedgerService } from '../ledger/ledger.service';
+import { CommissionsService } from '../commissions/commissions.service';
+import { CommissionServiceType } from '../commissions/entities/commission-rule.entity';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import { LedgerEntryDirection } from '../ledger/entities/ledger-entry.entity';
+import {
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../ledger/entities/ledger-transaction.entity';
 
 @Injectable()
 export class CustomerSubscriptionService {
@@ -31,16 +41,17 @@ export class CustomerSubscriptionService {
     @InjectRepository(CustomerSubscription)
     private readonly customerSubscriptionRepository: Repository<CustomerSubscription>,
     private readonly subscriptionPlansService: SubscriptionPlansService,
-    private readonly usersService: UsersService,
     private readonly entityManager: EntityManager,
     @Inject(forwardRef(() => PaymentsService))
     private readonly paymentsService: PaymentsService,
+    private readonly ledgerService: LedgerService,
+    private readonly commissionsService: CommissionsService,
   ) {}
 
   async createSubscriptionPayment(
     customerId: string,
     dto: CreateCustomerSubscriptionDto,
-  ): Promise<Payment> {
+  ): Promise<PaymentWithIntent> {
     const plan = await this.subscriptionPlansService.findOne(dto.planId);
     if (!plan) {
       throw new NotFoundException('Plan not found');
@@ -78,17 +89,12 @@ export class CustomerSubscriptionService {
     return this.entityManager.transaction(async (manager) => {
       const paymentRepo = manager.getRepository(Payment);
 
-      // A. deduct customer wallet
-      await this.usersService.updateBalance(
-        userId,
-        -Number(plan.basePrice),
-        manager,
-      );
-
+      // Customer wallet is debited by the ledger posting in activateSubscription
       const paidAt = new Date();
       const payment = paymentRepo.create({
         paymentType: PaymentType.SUBSCRIPTION,
         amount: plan.basePrice,
+        paidAmount: plan.basePrice,
         customerId: customerId,
         userId: userId,
         planId: plan.planId,
@@ -126,7 +132,10 @@ export class CustomerSubscriptionService {
 
     // 1. Lấy thông tin
     const [plan, customer] = await Promise.all([
-      planRepo.findOneBy({ planId }),
+      planRepo.findOne({
+        where: { planId },
+        relations: ['dermatologist', 'dermatologist.user'],
+      }),
       customerRepo.findOneBy({ customerId }),
     ]);
 
@@ -141,6 +150,17 @@ export class CustomerSubscriptionService {
     const endDate = new Date(paidAt);
     endDate.setDate(paidAt.getDate() + duration);
 
+    // Phí nền tảng theo rule hiệu lực lúc khách tạo thanh toán
+    const commission = await this.commissionsService.resolveRate(
+      {
+        serviceType: CommissionServiceType.SUBSCRIPTION,
+        dermatologistId: plan.dermatologist?.dermatologistId,
+        planId: plan.planId,
+        at: payment.createdAt ?? paidAt,
+      },
+      manager,
+    );
+
     // SỬA LẠI: Gán các đối tượng quan hệ trực tiếp
     const newSubscription = subRepo.create({
       customer: customer,
@@ -150,6 +170,8 @@ export class CustomerSubscriptionService {
       isActive: true,
       startDate: paidAt,
       endDate: endDate,
+      platformFeeRate: commission.rate,
+      commissionRuleId: commission.ruleId,
     });
 
     await subRepo.save(newSubscription);
@@ -157,9 +179,76 @@ export class CustomerSubscriptionService {
       `✅ Subscription ${newSubscription.id} activated. Expires on: ${endDate.toISOString()}`,
     );
 
+    await this.postSubscriptionPayment(newSubscription, plan, payment, manager);
+
     return newSubscription;
   }
 
+  /**
+   * Ghi sổ cái: tiền mua gói (từ ngân hàng hoặc ví khách) chia cho bác sĩ theo phí nền tảng đã chụp trên gói.
+   */
+  private async postSubscriptionPayment(
+    subscription: CustomerSubscription,
+    plan: SubscriptionPlan,
+    payment: Payment,
+    manager: EntityManager,
+  ): Promise<void> {
+    const dermatologistUserId = plan.dermatologist?.user?.userId;
+    if (!dermatologistUserId) {
+      this.logger.error(
+        `CRITICAL: Cannot credit earning for Subscription ${subscription.id}. Missing dermatologist user data.`,
+      );
+      throw new InternalServerErrorException(
+        'Dermatologist user linkage missing.',
+      );
+    }
+
+    // Tiền chuyển thừa đã được cộng vào ví khách riêng
+    const amount =
+      Number(payment.paidAmount ?? payment.amount) -
+      Number(payment.overpaidAmount ?? 0);
+    const feeRate = Number(subscription.platformFeeRate);
+    const doctorShare = amount * (1 - feeRate);
+    const systemShare = amount - doctorShare;
+
+    // Nợ ví khách (trừ tiền) hoặc Nợ ngân hàng (tiền chuyển khoản đã về)
+    const source =
+      payment.paymentMethod === PaymentMethod.WALLET && payment.userId
+        ? { userId: payment.userId }
+        : { type: LedgerAccountType.PLATFORM_BANK };
+
+    await this.ledgerService.post(
+      {
+        type: LedgerTransactionType.SUBSCRIPTION_PAYMENT,
+        description: `Subscription ${subscription.id} paid by ${payment.paymentCode}`,
+        referenceType: LedgerReferenceType.CUSTOMER_SUBSCRIPTION,
+        referenceId: subscription.id,
+        lines: [
+          {
+            account: source,
+            direction: LedgerEntryDirection.DEBIT,
+            amount,
+          },
+          {
+            account: { userId: dermatologistUserId },
+            direction: LedgerEntryDirection.CREDIT,
+            amount: doctorShare,
+          },
+          {
+            account: { type: LedgerAccountType.PLATFORM_FEES },
+            direction: LedgerEntryDirection.CREDIT,
+            amount: systemShare,
+          },
+        ],
+      },
+      manager,
+    );
+
+    this.logger.log(
+      `💰 Credited ${doctorShare} to User (Dermatologist) ${dermatologistUserId} for Subscription. System fee: ${systemShare} (rate ${feeRate})`,
+    );
+  }
+
   async useSession(
     subscriptionId: string,
     customerId: string,
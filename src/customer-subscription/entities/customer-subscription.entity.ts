@@ -32,6 +32,13 @@ export class CustomerSubscription {
   @Column({ default: true })
   isActive: boolean;
 
+  // Phí nền tảng chụp lại lúc mua gói, dùng khi chia tiền cho bác sĩ
+  @Column({ type: 'decimal', precision: 5, scale: 4, nullable: true })
+  platformFeeRate: number | null;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  commissionRuleId: string | null;
+
   @CreateDateColumn({ name: 'created_at' })
   createdAt: Date;
 
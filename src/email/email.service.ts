@@ -2,6 +2,29 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Resend } from 'resend';
 
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+}
+
+export interface OrderEmailSummary {
+  orderId: string;
+  items: { name: string; quantity: number; price: number }[];
+  subtotal: number;
+  discountTotal: number;
+  promotionDiscount: number;
+  shippingFee: number;
+  shippingDiscount: number;
+  totalAmount: number;
+}
+
+export interface WalletStatementSummary {
+  openingBalance: number;
+  totalCredit: number;
+  totalDebit: number;
+  closingBalance: number;
+}
+
 @Injectable()
 export class EmailService {
   private readonly logger = new Logger(EmailService.name);
@@ -96,6 +119,7 @@ export class EmailService {
     subject: string,
     html: string,
     text: string,
+    attachments?: EmailAttachment[],
   ) {
     try {
       this.logger.log(`📧 Attempting to send email to: ${to}`);
@@ -106,6 +130,7 @@ export class EmailService {
         subject,
         html,
         text,
+        attachments,
       });
 
       if (result.error) {
@@ -727,4 +752,165 @@ export class EmailService {
     
     await this.sendEmail(email, subject, html, text);
   }
+
+  async sendWalletStatement(
+    email: string,
+    fullName: string,
+    month: string,
+    summary: WalletStatementSummary,
+    attachments: EmailAttachment[],
+  ): Promise<void> {
+    const row = (label: string, value: number) => `
+                                    <tr>
+                                        <td style="padding: 12px 0; font-size: 16px; color: #4B5563; border-bottom: 1px solid #E5E7EB;">
+                                            ${label}
+                                        </td>
+                                        <td style="padding: 12px 0; font-size: 16px; color: #1F2937; font-weight: 600; text-align: right; border-bottom: 1px solid #E5E7EB;">
+                                            ${value.toLocaleString()} VND
+                                        </td>
+                                    </tr>`;
+
+    const html = `
+    <!DOCTYPE html>
+    <html lang="vi">
+    <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Sao kê ví tháng ${month}</title>
+    </head>
+    <body style="background-color: #F0FDFB; padding: 20px; margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333;">
+        <table width="100%" border="0" cellspacing="0" cellpadding="0">
+            <tr>
+                <td align="center">
+                    <div style="padding: 20px 0; text-align: center;">
+                        <h1 style="color: #0D9488; font-size: 32px; font-weight: 700; margin: 0;">
+                            Skinalyze
+                        </h1>
+                    </div>
+                    <table width="100%" border="0" cellspacing="0" cellpadding="0" style="max-width: 550px; background: #FFFFFF; border-radius: 16px; box-shadow: 0 10px 25px rgba(0,0,0,0.07); margin: 0 auto; overflow: hidden;">
+                        <tr>
+                            <td style="background-color: #14B8A6; height: 10px;"></td>
+                        </tr>
+                        <tr>
+                            <td style="padding: 40px 40px 35px 40px;">
+                                <h2 style="color: #1F2937; margin: 0 0 15px 0; font-size: 24px; font-weight: 600;">
+                                    Sao kê ví tháng ${month}
+                                </h2>
+                                <p style="font-size: 16px; color: #4B5563; margin-bottom: 30px;">
+                                    Xin chào ${fullName}, sao kê chi tiết các giao dịch ví của bạn được đính kèm dưới dạng PDF và CSV.
+                                </p>
+                                <table width="100%" border="0" cellspacing="0" cellpadding="0" style="margin: 30px 0 0 0;">
+                                    ${row('Số dư đầu kỳ', summary.openingBalance)}
+                                    ${row('Tổng tiền vào', summary.totalCredit)}
+                                    ${row('Tổng tiền ra', summary.totalDebit)}
+                                    ${row('Số dư cuối kỳ', summary.closingBalance)}
+                                </table>
+                            </td>
+                        </tr>
+                    </table>
+                    <div style="text-align: center; padding: 30px 20px; max-width: 550px; margin: 0 auto;">
+                        <p style="color: #6B7280; font-size: 14px; margin: 0;">
+                            Bạn nhận được email này vì đã bật nhận sao kê ví hằng tháng tại Skinalyze.
+                        </p>
+                        <p style="color: #9CA3AF; font-size: 14px; margin: 5px 0 0 0;">
+                            © ${new Date().getFullYear()} Skinalyze.
+                        </p>
+                    </div>
+                </td>
+            </tr>
+        </table>
+    </body>
+    </html>
+    `;
+
+    const subject = `📊 Sao kê ví tháng ${month} - Skinalyze`;
+    const text = `Sao kê ví tháng ${month}: số dư đầu kỳ ${summary.openingBalance.toLocaleString()} VND, số dư cuối kỳ ${summary.closingBalance.toLocaleString()} VND.`;
+
+    await this.sendEmail(email, subject, html, text, attachments);
+  }
+
+  async sendOrderConfirmation(
+    email: string,
+    fullName: string,
+    summary: OrderEmailSummary,
+  ): Promise<void> {
+    const orderCode = summary.orderId.slice(0, 8).toUpperCase();
+    const row = (label: string, value: number, bold = false) => `
+                                    <tr>
+                                        <td style="padding: 12px 0; font-size: 16px; color: #4B5563; border-bottom: 1px solid #E5E7EB;">
+                                            ${label}
+                                        </td>
+                                        <td style="padding: 12px 0; font-size: 16px; color: #1F2937; font-weight: ${bold ? 700 : 600}; text-align: right; border-bottom: 1px solid #E5E7EB;">
+                                            ${value.toLocaleString()} VND
+                                        </td>
+                                    </tr>`;
+    const itemRows = summary.items
+      .map((item) =>
+        row(`${item.name} × ${item.quantity}`, item.price * item.quantity),
+      )
+      .join('');
+
+    const html = `
+    <!DOCTYPE html>
+    <html lang="vi">
+    <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Xác nhận đơn hàng #${orderCode}</title>
+    </head>
+    <body style="background-color: #F0FDFB; padding: 20px; margin: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333;">
+        <table width="100%" border="0" cellspacing="0" cellpadding="0">
+            <tr>
+                <td align="center">
+                    <div style="padding: 20px 0; text-align: center;">
+                        <h1 style="color: #0D9488; font-size: 32px; font-weight: 700; margin: 0;">
+                            Skinalyze
+                        </h1>
+                    </div>
+                    <table width="100%" border="0" cellspacing="0" cellpadding="0" style="max-width: 550px; background: #FFFFFF; border-radius: 16px; box-shadow: 0 10px 25px rgba(0,0,0,0.07); margin: 0 auto; overflow: hidden;">
+                        <tr>
+                            <td style="background-color: #14B8A6; height: 10px;"></td>
+                        </tr>
+                        <tr>
+                            <td style="padding: 40px 40px 35px 40px;">
+                                <h2 style="color: #1F2937; margin: 0 0 15px 0; font-size: 24px; font-weight: 600;">
+                                    Đơn hàng #${orderCode} đã được tạo
+                                </h2>
+                                <p style="font-size: 16px; color: #4B5563; margin-bottom: 30px;">
+                                    Xin chào ${fullName}, cảm ơn bạn đã mua sắm tại Skinalyze. Chi tiết đơn hàng của bạn:
+                                </p>
+                                <table width="100%" border="0" cellspacing="0" cellpadding="0" style="margin: 30px 0 0 0;">
+                                    ${itemRows}
+                                </table>
+                                <table width="100%" border="0" cellspacing="0" cellpadding="0" style="margin: 30px 0 0 0;">
+                                    ${row('Tạm tính', summary.subtotal)}
+                                    ${summary.discountTotal ? row('Giảm giá sản phẩm', -summary.discountTotal) : ''}
+                                    ${summary.promotionDiscount ? row('Voucher / khuyến mãi', -summary.promotionDiscount) : ''}
+                                    ${row('Phí vận chuyển', summary.shippingFee)}
+                                    ${summary.shippingDiscount ? row('Giảm phí vận chuyển', -summary.shippingDiscount) : ''}
+                                    ${row('Tổng cộng', summary.totalAmount, true)}
+                                </table>
+                            </td>
+                        </tr>
+                    </table>
+                    <div style="text-align: center; padding: 30px 20px; max-width: 550px; margin: 0 auto;">
+                        <p style="color: #6B7280; font-size: 14px; margin: 0;">
+                            Bạn nhận được email này vì đã đặt hàng tại Skinalyze.
+                        </p>
+                        <p style="color: #9CA3AF; font-size: 14px; margin: 5px 0 0 0;">
+                            © ${new Date().getFullYear()} Skinalyze.
+                        </p>
+                    </div>
+                </td>
+            </tr>
+        </table>
+    </body>
+    </html>
+    `;
+
+    const subject = `🛍️ Xác nhận đơn hàng #${orderCode} - Skinalyze`;
+    const text = `Đơn hàng #${orderCode}: tạm tính ${summary.subtotal.toLocaleString()} VND, phí vận chuyển ${summary.shippingFee.toLocaleString()} VND, tổng cộng ${summary.totalAmount.toLocaleString()} VND.`;
+
+    await this.sendEmail(email, subject, html, text);
+  }
 }
@@ -0,0 +1,14 @@
+import { UseInterceptors, applyDecorators } from '@nestjs/common';
+import { ApiHeader } from '@nestjs/swagger';
+import { IdempotencyInterceptor } from '../idempotency.interceptor';
+
+export const Idempotent = () =>
+  applyDecorators(
+    UseInterceptors(IdempotencyInterceptor),
+    ApiHeader({
+      name: 'Idempotency-Key',
+      required: false,
+      description:
+        'Unique key per attempt. Retries with the same key and body return the original response; reusing it with a different body is rejected (422).',
+    }),
+  );
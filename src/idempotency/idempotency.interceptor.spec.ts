@@ -0,0 +1,152 @@
+import { BadRequestException, ExecutionContext } from '@nestjs/common';
+import { lastValueFrom, of, throwError } from 'rxjs';
+import {
+  IDEMPOTENCY_REPLAYED_HEADER,
+  IdempotencyInterceptor,
+} from './idempotency.interceptor';
+import { IdempotencyService } from './idempotency.service';
+
+describe('IdempotencyInterceptor', () => {
+  let interceptor: IdempotencyInterceptor;
+
+  const mockIdempotencyService = {
+    hashRequest: jest.fn().mockReturnValue('hash-1'),
+    begin: jest.fn(),
+    complete: jest.fn().mockResolvedValue(undefined),
+    release: jest.fn().mockResolvedValue(undefined),
+    keepAlive: jest.fn(),
+  };
+
+  const stopKeepAlive = jest.fn();
+
+  const response = {
+    statusCode: 201,
+    status: jest.fn(),
+    setHeader: jest.fn(),
+  };
+
+  const buildContext = (key?: string) => {
+    const request = {
+      method: 'POST',
+      path: '/api/v1/orders/checkout',
+      route: { path: '/api/v1/orders/checkout' },
+      params: {},
+      query: {},
+      body: { quoteId: 'quote-1' },
+      user: { userId: 'user-1' },
+      header: jest.fn().mockReturnValue(key),
+    };
+    return {
+      switchToHttp: () => ({
+        getRequest: () => request,
+        getResponse: () => response,
+      }),
+    } as unknown as ExecutionContext;
+  };
+
+  beforeEach(() => {
+    mockIdempotencyService.keepAlive.mockReturnValue(stopKeepAlive);
+    interceptor = new IdempotencyInterceptor(
+      mockIdempotencyService as unknown as IdempotencyService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // TC-IDEM-002-01: Normal - Request without the header
+  it('TC-IDEM-002-01: should pass through when no Idempotency-Key is sent', async () => {
+    const handle = jest.fn().mockReturnValue(of({ success: true }));
+
+    const result$ = await interceptor.intercept(buildContext(), { handle });
+
+    await expect(lastValueFrom(result$)).resolves.toEqual({ success: true });
+    expect(mockIdempotencyService.begin).not.toHaveBeenCalled();
+  });
+
+  // TC-IDEM-002-02: Normal - First request stores its response
+  it('TC-IDEM-002-02: should store the response of a new key', async () => {
+    mockIdempotencyService.begin.mockResolvedValue({ replay: false });
+    const handle = jest
+      .fn()
+      .mockReturnValue(of({ success: true, data: { orderId: 'order-1' } }));
+
+    const result$ = await interceptor.intercept(buildContext('key-1'), {
+      handle,
+    });
+    await lastValueFrom(result$);
+
+    expect(mockIdempotencyService.begin).toHaveBeenCalledWith(
+      'user-1:POST:/api/v1/orders/checkout',
+      'key-1',
+      'hash-1',
+    );
+    expect(mockIdempotencyService.complete).toHaveBeenCalledWith(
+      'user-1:POST:/api/v1/orders/checkout',
+      'key-1',
+      'hash-1',
+      {
+        statusCode: 201,
+        body: { success: true, data: { orderId: 'order-1' } },
+      },
+    );
+    expect(mockIdempotencyService.keepAlive).toHaveBeenCalledWith(
+      'user-1:POST:/api/v1/orders/checkout',
+      'key-1',
+    );
+    expect(stopKeepAlive).toHaveBeenCalled();
+  });
+
+  // TC-IDEM-002-03: Normal - Retry is answered from the stored response
+  it('TC-IDEM-002-03: should replay the stored response without calling the handler', async () => {
+    mockIdempotencyService.begin.mockResolvedValue({
+      replay: true,
+      response: { statusCode: 201, body: { data: { orderId: 'order-1' } } },
+    });
+    const handle = jest.fn();
+
+    const result$ = await interceptor.intercept(buildContext('key-1'), {
+      handle,
+    });
+
+    await expect(lastValueFrom(result$)).resolves.toEqual({
+      data: { orderId: 'order-1' },
+    });
+    expect(handle).not.toHaveBeenCalled();
+    expect(mockIdempotencyService.keepAlive).not.toHaveBeenCalled();
+    expect(response.status).toHaveBeenCalledWith(201);
+    expect(response.setHeader).toHaveBeenCalledWith(
+      IDEMPOTENCY_REPLAYED_HEADER,
+      'true',
+    );
+  });
+
+  // TC-IDEM-002-04: Abnormal - Handler fails
+  it('TC-IDEM-002-04: should release the key when the request fails', async () => {
+    mockIdempotencyService.begin.mockResolvedValue({ replay: false });
+    const error = new BadRequestException('Quote expired');
+    const handle = jest.fn().mockReturnValue(throwError(() => error));
+
+    const result$ = await interceptor.intercept(buildContext('key-1'), {
+      handle,
+    });
+
+    await expect(lastValueFrom(result$)).rejects.toBe(error);
+    expect(mockIdempotencyService.release).toHaveBeenCalledWith(
+      'user-1:POST:/api/v1/orders/checkout',
+      'key-1',
+    );
+    expect(mockIdempotencyService.complete).not.toHaveBeenCalled();
+    expect(stopKeepAlive).toHaveBeenCalled();
+  });
+
+  // TC-IDEM-002-05: Boundary - Key longer than 255 characters
+  it('TC-IDEM-002-05: should reject an over-long Idempotency-Key', async () => {
+    await expect(
+      interceptor.intercept(buildContext('k'.repeat(256)), {
+        handle: jest.fn(),
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
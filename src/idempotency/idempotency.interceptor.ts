@@ -0,0 +1,102 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NestInterceptor,
+} from '@nestjs/common';
+import { instanceToPlain } from 'class-transformer';
+import { Request, Response } from 'express';
+import { Observable, from, of, throwError } from 'rxjs';
+import { catchError, finalize, map, mergeMap } from 'rxjs/operators';
+import { IdempotencyService } from './idempotency.service';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+export const IDEMPOTENCY_REPLAYED_HEADER = 'Idempotency-Replayed';
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Xử lý header Idempotency-Key: request retry với cùng key nhận lại
+ * response cũ thay vì tạo trùng đơn hàng / thanh toán / lịch hẹn.
+ * Không gửi header → xử lý như bình thường.
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(IdempotencyInterceptor.name);
+
+  constructor(private readonly idempotencyService: IdempotencyService) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request & { user?: { userId: string } }>();
+    const response = http.getResponse<Response>();
+
+    const key = request.header(IDEMPOTENCY_KEY_HEADER)?.trim();
+    if (!key) {
+      return next.handle();
+    }
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(
+        `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+      );
+    }
+
+    // Key tách theo user + endpoint để 2 user không đụng key của nhau
+    const scope = [
+      request.user?.userId ?? 'anonymous',
+      request.method,
+      (request.route as { path?: string } | undefined)?.path ?? request.path,
+    ].join(':');
+    const requestHash = this.idempotencyService.hashRequest({
+      params: request.params,
+      query: request.query,
+      body: request.body as unknown,
+    });
+
+    const started = await this.idempotencyService.begin(
+      scope,
+      key,
+      requestHash,
+    );
+    if (started.replay) {
+      response.status(started.response.statusCode);
+      response.setHeader(IDEMPOTENCY_REPLAYED_HEADER, 'true');
+      return of(started.response.body);
+    }
+
+    // Giữ lock trong suốt thời gian handler chạy
+    const stopKeepAlive = this.idempotencyService.keepAlive(scope, key);
+
+    return next.handle().pipe(
+      // Request lỗi → bỏ key để client retry được
+      catchError((error: unknown) =>
+        from(this.idempotencyService.release(scope, key)).pipe(
+          mergeMap(() => throwError(() => error)),
+        ),
+      ),
+      mergeMap((body: unknown) =>
+        from(
+          this.idempotencyService.complete(scope, key, requestHash, {
+            statusCode: response.statusCode,
+            // Lưu dạng đã serialize để field @Exclude không lộ khi trả lại
+            body: instanceToPlain(body),
+          }),
+        ).pipe(
+          map(() => body),
+          // Đơn đã tạo xong, không lưu được response thì vẫn trả kết quả
+          catchError((error: Error) => {
+            this.logger.error(
+              `Failed to store idempotent response for key ${key}: ${error.message}`,
+            );
+            return of(body);
+          }),
+        ),
+      ),
+      finalize(() => stopKeepAlive()),
+    );
+  }
+}
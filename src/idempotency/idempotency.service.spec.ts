@@ -0,0 +1,183 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { IdempotencyService } from './idempotency.service';
+
+const mockStore = new Map<string, string>();
+
+jest.mock('ioredis', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    on: jest.fn(),
+    disconnect: jest.fn(),
+    get: jest.fn((key: string) => Promise.resolve(mockStore.get(key) ?? null)),
+    set: jest.fn((key: string, value: string, ...args: string[]) => {
+      if (args.includes('NX') && mockStore.has(key)) {
+        return Promise.resolve(null);
+      }
+      mockStore.set(key, value);
+      return Promise.resolve('OK');
+    }),
+    del: jest.fn((...keys: string[]) =>
+      Promise.resolve(keys.filter((key) => mockStore.delete(key)).length),
+    ),
+    exists: jest.fn((key: string) =>
+      Promise.resolve(mockStore.has(key) ? 1 : 0),
+    ),
+    expire: jest.fn((key: string) =>
+      Promise.resolve(mockStore.has(key) ? 1 : 0),
+    ),
+  })),
+}));
+
+describe('IdempotencyService', () => {
+  let service: IdempotencyService;
+
+  const scope = 'user-1:POST:/api/v1/orders/checkout';
+
+  beforeEach(async () => {
+    mockStore.clear();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        IdempotencyService,
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<IdempotencyService>(IdempotencyService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  // TC-IDEM-001-01: Normal - First request with a new key is processed
+  it('TC-IDEM-001-01: should let the first request with a key through', async () => {
+    const hash = service.hashRequest({ body: { quoteId: 'quote-1' } });
+
+    await expect(service.begin(scope, 'key-1', hash)).resolves.toEqual({
+      replay: false,
+    });
+  });
+
+  // TC-IDEM-001-02: Normal - Retry returns the stored response
+  it('TC-IDEM-001-02: should replay the stored response for a completed key', async () => {
+    const hash = service.hashRequest({ body: { quoteId: 'quote-1' } });
+    await service.begin(scope, 'key-1', hash);
+    await service.complete(scope, 'key-1', hash, {
+      statusCode: 200,
+      body: { data: { orderId: 'order-1' } },
+    });
+
+    await expect(service.begin(scope, 'key-1', hash)).resolves.toEqual({
+      replay: true,
+      response: { statusCode: 200, body: { data: { orderId: 'order-1' } } },
+    });
+  });
+
+  // TC-IDEM-001-03: Abnormal - Key reused for a different request
+  it('TC-IDEM-001-03: should reject a key reused with a different body', async () => {
+    await service.begin(
+      scope,
+      'key-1',
+      service.hashRequest({ body: { quoteId: 'quote-1' } }),
+    );
+
+    await expect(
+      service.begin(
+        scope,
+        'key-1',
+        service.hashRequest({ body: { quoteId: 'quote-2' } }),
+      ),
+    ).rejects.toThrow(UnprocessableEntityException);
+  });
+
+  // TC-IDEM-001-04: Abnormal - Retry while the first request is still running
+  it('TC-IDEM-001-04: should reject a concurrent retry of an unfinished request', async () => {
+    const hash = service.hashRequest({ body: { quoteId: 'quote-1' } });
+    await service.begin(scope, 'key-1', hash);
+
+    await expect(service.begin(scope, 'key-1', hash)).rejects.toThrow(
+      ConflictException,
+    );
+  });
+
+  // TC-IDEM-001-05: Boundary - Failed request frees the key
+  it('TC-IDEM-001-05: should allow retrying a key after the request failed', async () => {
+    const hash = service.hashRequest({ body: { quoteId: 'quote-1' } });
+    await service.begin(scope, 'key-1', hash);
+    await service.release(scope, 'key-1');
+
+    await expect(service.begin(scope, 'key-1', hash)).resolves.toEqual({
+      replay: false,
+    });
+  });
+
+  // TC-IDEM-001-06: Boundary - Same key from different users
+  it('TC-IDEM-001-06: should keep keys of different scopes apart', async () => {
+    const hash = service.hashRequest({ body: { quoteId: 'quote-1' } });
+    await service.begin(scope, 'key-1', hash);
+
+    await expect(
+      service.begin('user-2:POST:/api/v1/orders/checkout', 'key-1', hash),
+    ).resolves.toEqual({ replay: false });
+  });
+
+  // TC-IDEM-001-07: Abnormal - Retry after the lock of an unfinished request expired
+  it('TC-IDEM-001-07: should not run again when an unfinished request lost its lock', async () => {
+    const hash = service.hashRequest({ body: { quoteId: 'quote-1' } });
+    await service.begin(scope, 'key-1', hash);
+    mockStore.delete(`skinalyze:idempotency-lock:${scope}:key-1`);
+
+    await expect(service.begin(scope, 'key-1', hash)).rejects.toThrow(
+      'A previous request with this Idempotency-Key did not finish',
+    );
+  });
+
+  // TC-IDEM-001-08: Boundary - Long request keeps its lock alive
+  it('TC-IDEM-001-08: should refresh the lock until the request finishes', async () => {
+    jest.useFakeTimers();
+    try {
+      const hash = service.hashRequest({ body: { quoteId: 'quote-1' } });
+      await service.begin(scope, 'key-1', hash);
+      const redis = (
+        service as unknown as { redisClient: { expire: jest.Mock } }
+      ).redisClient;
+
+      const stop = service.keepAlive(scope, 'key-1');
+      jest.advanceTimersByTime(45 * 1000);
+      expect(redis.expire).toHaveBeenCalledTimes(2);
+      expect(redis.expire).toHaveBeenCalledWith(
+        `skinalyze:idempotency-lock:${scope}:key-1`,
+        60,
+      );
+
+      stop();
+      jest.advanceTimersByTime(60 * 1000);
+      expect(redis.expire).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  // TC-IDEM-001-09: Normal - Completing a request drops its lock
+  it('TC-IDEM-001-09: should drop the lock once the response is stored', async () => {
+    const hash = service.hashRequest({ body: { quoteId: 'quote-1' } });
+    await service.begin(scope, 'key-1', hash);
+    expect(mockStore.has(`skinalyze:idempotency-lock:${scope}:key-1`)).toBe(
+      true,
+    );
+
+    await service.complete(scope, 'key-1', hash, {
+      statusCode: 201,
+      body: { data: { orderId: 'order-1' } },
+    });
+
+    expect(mockStore.has(`skinalyze:idempotency-lock:${scope}:key-1`)).toBe(
+      false,
+    );
+  });
+});
@@ -0,0 +1,191 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import Redis from 'ioredis';
+
+export interface IdempotentResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+interface IdempotencyRecord {
+  requestHash: string;
+  response: IdempotentResponse | null; // null = request đang xử lý
+  createdAt: string;
+}
+
+export type IdempotencyBeginResult =
+  | { replay: false }
+  | { replay: true; response: IdempotentResponse };
+
+@Injectable()
+export class IdempotencyService implements OnModuleDestroy {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private readonly redisClient: Redis;
+  private readonly RECORD_TTL_SECONDS = 24 * 60 * 60; // 24 giờ
+  private readonly LOCK_TTL_SECONDS = 60; // Process chết → lock tự hết hạn
+  private readonly LOCK_REFRESH_MS = 20 * 1000; // Gia hạn lock khi request còn chạy
+
+  constructor(private readonly configService: ConfigService) {
+    this.redisClient = new Redis({
+      host: this.configService.get<string>('REDIS_HOST') || 'localhost',
+      port: this.configService.get<number>('REDIS_PORT') || 6379,
+      password: this.configService.get<string>('REDIS_PASSWORD') || undefined,
+      db: 0,
+    });
+
+    this.redisClient.on('error', (error) => {
+      this.logger.error(`Redis Client Error: ${error.message}`);
+    });
+  }
+
+  onModuleDestroy() {
+    this.redisClient.disconnect();
+  }
+
+  /**
+   * Hash nội dung request để phát hiện dùng lại key cho request khác
+   */
+  hashRequest(payload: unknown): string {
+    return createHash('sha256')
+      .update(JSON.stringify(payload ?? null))
+      .digest('hex');
+  }
+
+  /**
+   * 🔑 Giữ key trước khi xử lý request:
+   * - Key mới → giữ chỗ, request được xử lý
+   * - Key đã hoàn tất với cùng nội dung → trả lại response cũ
+   * - Key đang xử lý → 409, key dùng cho request khác → 422
+   * - Key chưa hoàn tất mà lock đã hết hạn (process chết giữa chừng) → 409,
+   *   không chạy lại vì không biết request cũ đã tạo dữ liệu hay chưa
+   */
+  async begin(
+    scope: string,
+    key: string,
+    requestHash: string,
+  ): Promise<IdempotencyBeginResult> {
+    const redisKey = this.getKey(scope, key);
+    const record: IdempotencyRecord = {
+      requestHash,
+      response: null,
+      createdAt: new Date().toISOString(),
+    };
+
+    // Record giữ 24 giờ kể cả khi chưa xong, lock riêng cho biết request còn chạy
+    const acquired = await this.redisClient.set(
+      redisKey,
+      JSON.stringify(record),
+      'EX',
+      this.RECORD_TTL_SECONDS,
+      'NX',
+    );
+    if (acquired) {
+      await this.redisClient.set(
+        this.getLockKey(scope, key),
+        record.createdAt,
+        'EX',
+        this.LOCK_TTL_SECONDS,
+      );
+      return { replay: false };
+    }
+
+    const raw = await this.redisClient.get(redisKey);
+    if (!raw) {
+      // Key vừa hết hạn giữa 2 lệnh → thử giữ lại
+      return this.begin(scope, key, requestHash);
+    }
+
+    const existing = JSON.parse(raw) as IdempotencyRecord;
+    if (existing.requestHash !== requestHash) {
+      throw new UnprocessableEntityException(
+        'Idempotency-Key has already been used for a different request',
+      );
+    }
+    if (!existing.response) {
+      const locked = await this.redisClient.exists(this.getLockKey(scope, key));
+      if (!locked) {
+        this.logger.warn(
+          `⚠️ Idempotency key ${key} was left unfinished since ${existing.createdAt}`,
+        );
+        throw new ConflictException(
+          'A previous request with this Idempotency-Key did not finish. Please check its result or use a new key',
+        );
+      }
+      throw new ConflictException(
+        'A request with this Idempotency-Key is still being processed',
+      );
+    }
+
+    this.logger.log(`🔁 Replaying response for idempotency key ${key}`);
+    return { replay: true, response: existing.response };
+  }
+
+  /**
+   * Lưu response thành công để trả lại cho các lần retry
+   */
+  async complete(
+    scope: string,
+    key: string,
+    requestHash: string,
+    response: IdempotentResponse,
+  ): Promise<void> {
+    const record: IdempotencyRecord = {
+      requestHash,
+      response,
+      createdAt: new Date().toISOString(),
+    };
+    await this.redisClient.set(
+      this.getKey(scope, key),
+      JSON.stringify(record),
+      'EX',
+      this.RECORD_TTL_SECONDS,
+    );
+    await this.redisClient.del(this.getLockKey(scope, key));
+  }
+
+  /**
+   * ⏱️ Gia hạn lock định kỳ trong lúc handler còn chạy,
+   * request chậm hơn LOCK_TTL_SECONDS không bị coi là đã chết.
+   * Trả về hàm dừng gia hạn.
+   */
+  keepAlive(scope: string, key: string): () => void {
+    const lockKey = this.getLockKey(scope, key);
+    const timer = setInterval(() => {
+      this.redisClient
+        .expire(lockKey, this.LOCK_TTL_SECONDS)
+        .catch((error: Error) => {
+          this.logger.error(
+            `Failed to refresh idempotency lock for key ${key}: ${error.message}`,
+          );
+        });
+    }, this.LOCK_REFRESH_MS);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Request lỗi → bỏ key để client có thể retry với cùng key
+   */
+  async release(scope: string, key: string): Promise<void> {
+    await this.redisClient.del(
+      this.getKey(scope, key),
+      this.getLockKey(scope, key),
+    );
+  }
+
+  private getKey(scope: string, key: string): string {
+    return `skinalyze:idempotency:${scope}:${key}`;
+  }
+
+  private getLockKey(scope: string, key: string): string {
+    return `skinalyze:idempotency-lock:${scope}:${key}`;
+  }
+}
@@ -0,0 +1,49 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export class ReceiveLotDto {
+  @ApiProperty({ example: '650e8400-e29b-41d4-a716-446655440000' })
+  @IsUUID()
+  productId: string;
+
+  @ApiProperty({ example: 'LOT-2026-0418' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  lotNumber: string;
+
+  @ApiPropertyOptional({ example: '2026-04-01', description: 'YYYY-MM-DD' })
+  @IsOptional()
+  @IsDateString()
+  @Matches(DATE_ONLY, { message: 'manufactureDate must be YYYY-MM-DD' })
+  manufactureDate?: string;
+
+  @ApiProperty({ example: '2028-04-01', description: 'YYYY-MM-DD' })
+  @IsDateString()
+  @Matches(DATE_ONLY, { message: 'expiryDate must be YYYY-MM-DD' })
+  expiryDate: string;
+
+  @ApiProperty({ example: 120 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiPropertyOptional({ example: 180000, description: 'Unit cost of the lot' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  costPrice?: number;
+}
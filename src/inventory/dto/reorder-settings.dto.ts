@@ -0,0 +1,51 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ReorderAction } from '../entities/inventory.entity';
+
+export class ReorderSettingsDto {
+  @ApiPropertyOptional({
+    example: 20,
+    nullable: true,
+    description:
+      'Available stock at or below which the product needs restocking (null stops monitoring)',
+  })
+  @IsOptional()
+  @ValidateIf((dto: ReorderSettingsDto) => dto.reorderPoint !== null)
+  @IsInt()
+  @Min(0)
+  reorderPoint?: number | null;
+
+  @ApiPropertyOptional({
+    example: 100,
+    nullable: true,
+    description:
+      'Quantity to restock each time (null = enough for 30 days of recent sales)',
+  })
+  @IsOptional()
+  @ValidateIf((dto: ReorderSettingsDto) => dto.reorderQuantity !== null)
+  @IsInt()
+  @Min(1)
+  reorderQuantity?: number | null;
+
+  @ApiPropertyOptional({ enum: ReorderAction, default: ReorderAction.NOTIFY })
+  @IsOptional()
+  @IsEnum(ReorderAction)
+  reorderAction?: ReorderAction;
+
+  @ApiPropertyOptional({
+    example: '550e8400-e29b-41d4-a716-446655440020',
+    nullable: true,
+    description: 'Supplier used for drafted purchase orders',
+  })
+  @IsOptional()
+  @ValidateIf((dto: ReorderSettingsDto) => dto.preferredSupplierId !== null)
+  @IsUUID()
+  preferredSupplierId?: string | null;
+}
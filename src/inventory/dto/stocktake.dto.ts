@@ -0,0 +1,64 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  NotEquals,
+} from 'class-validator';
+
+export class CreateStocktakeDto {
+  @ApiPropertyOptional({
+    type: [String],
+    example: ['550e8400-e29b-41d4-a716-446655440001'],
+    description: 'Products to count (omit to count every product in stock)',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('all', { each: true })
+  productIds?: string[];
+
+  @ApiPropertyOptional({ example: 'Kiểm kê cuối tháng 10' })
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class StocktakeScanDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440001' })
+  @IsUUID()
+  productId: string;
+
+  @ApiPropertyOptional({
+    example: 1,
+    default: 1,
+    description: 'Units added by this scan (negative to undo scans)',
+  })
+  @IsOptional()
+  @IsInt()
+  @NotEquals(0)
+  quantity?: number;
+}
+
+export class SubmitStocktakeDto {
+  @ApiPropertyOptional({
+    default: false,
+    description:
+      'Treat products that were not counted as missing (counted 0). Otherwise uncounted products block the submit.',
+  })
+  @IsOptional()
+  @IsBoolean()
+  uncountedAsZero?: boolean;
+}
+
+export class RejectStocktakeDto {
+  @ApiProperty({ example: 'Kệ B chưa đếm lại, số liệu lệch nhiều' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
@@ -0,0 +1,98 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Product } from '../../products/entities/product.entity';
+import { User } from '../../users/entities/user.entity';
+
+export enum InventoryLotStatus {
+  ACTIVE = 'ACTIVE', // Còn hạn, được bán
+  EXPIRED = 'EXPIRED', // Hết hạn, đã hủy phần chưa giữ, chặn bán
+  DEPLETED = 'DEPLETED', // Đã bán hết
+}
+
+// Lô đã phân bổ cho một dòng đơn hàng (lưu trên OrderItem để truy vết khi thu hồi)
+export interface LotAllocation {
+  lotId: string;
+  lotNumber: string;
+  expiryDate: string;
+  quantity: number;
+}
+
+/**
+ * Lô hàng nhập kho. Tổng quantity các lô ≤ Inventory.currentStock,
+ * phần chênh lệch là hàng nhập trước khi theo dõi lô (không có hạn dùng).
+ * reservedQuantity là phần hàng của lô đang được giữ cho phiên checkout.
+ */
+@Entity('inventory_lots')
+@Index(['productId', 'lotNumber'], { unique: true })
+@Index(['productId', 'status', 'expiryDate']) // Phân bổ FEFO theo index này
+@Index(['status', 'expiryDate']) // Worker hết hạn / báo cáo cận date
+export class InventoryLot {
+  @PrimaryGeneratedColumn('uuid')
+  lotId: string;
+
+  @Column()
+  productId: string;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'productId' })
+  product: Product;
+
+  @Column({ type: 'varchar', length: 50 })
+  lotNumber: string;
+
+  // Cột date trả về chuỗi YYYY-MM-DD
+  @Column({ type: 'date', nullable: true })
+  manufactureDate: string | null;
+
+  // Hết hạn từ ngày này trở đi
+  @Column({ type: 'date' })
+  expiryDate: string;
+
+  @Column({ type: 'decimal', precision: 10, scale: 2, default: 0 })
+  costPrice: number;
+
+  @Column({ type: 'int' })
+  receivedQuantity: number;
+
+  // Còn trong kho (gồm cả phần đang giữ)
+  @Column({ type: 'int' })
+  quantity: number;
+
+  @Column({ type: 'int', default: 0 })
+  reservedQuantity: number;
+
+  // Số lượng đã hủy do hết hạn
+  @Column({ type: 'int', default: 0 })
+  writtenOffQuantity: number;
+
+  @Column({
+    type: 'enum',
+    enum: InventoryLotStatus,
+    default: InventoryLotStatus.ACTIVE,
+  })
+  status: InventoryLotStatus;
+
+  @Column({ type: 'uuid', nullable: true })
+  receivedBy: string | null;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'receivedBy' })
+  receivedByUser: User;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiredAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -10,6 +10,12 @@ import {
 } from 'typeorm';
 import { Product } from '../../products/entities/product.entity';
 
+export enum ReorderAction {
+  NOTIFY = 'NOTIFY', // Chỉ báo cho staff
+  DRAFT_ADJUSTMENT = 'DRAFT_ADJUSTMENT', // Tạo yêu cầu nhập thêm chờ admin duyệt
+  DRAFT_PURCHASE_ORDER = 'DRAFT_PURCHASE_ORDER', // Tạo PO nháp cho nhà cung cấp mặc định
+}
+
 @Entity('inventory')
 @Index(['productId'], { unique: true })
 export class Inventory {
@@ -32,6 +38,28 @@ export class Inventory {
   @Column({ type: 'int', default: 0 })
   reservedStock: number;
 
+  // Hàng còn bán được chạm mức này → cần nhập thêm (NULL = không theo dõi)
+  @Column({ type: 'int', nullable: true })
+  reorderPoint: number | null;
+
+  // Số lượng nhập mỗi lần, NULL → tính theo tốc độ bán
+  @Column({ type: 'int', nullable: true })
+  reorderQuantity: number | null;
+
+  @Column({ type: 'enum', enum: ReorderAction, default: ReorderAction.NOTIFY })
+  reorderAction: ReorderAction;
+
+  @Column({ type: 'uuid', nullable: true })
+  preferredSupplierId: string | null;
+
+  // Người cài đặt mức nhập hàng, đứng tên các phiếu nháp tự động
+  @Column({ type: 'uuid', nullable: true })
+  reorderConfiguredBy: string | null;
+
+  // Đã báo thiếu hàng cho lần chạm mức hiện tại, xóa khi hàng về lại trên mức
+  @Column({ type: 'timestamp', nullable: true })
+  lowStockAlertedAt: Date | null;
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,87 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Product } from '../../products/entities/product.entity';
+
+export enum StockMovementType {
+  OPENING_BALANCE = 'opening_balance', // Tồn kho có từ trước khi có sổ
+  RESERVE = 'reserve', // Giữ hàng cho phiên checkout
+  RELEASE = 'release', // Trả hàng đang giữ (checkout lỗi, hết hạn)
+  SALE = 'sale', // Bán hàng đã giữ
+  DIRECT_SALE = 'direct_sale', // Bán hàng chưa giữ (trừ thẳng tồn kho)
+  RECEIPT = 'receipt', // Nhập hàng (lô, phiếu mua hàng)
+  RESTOCK = 'restock', // Hàng của dòng đơn bị hủy được cộng lại
+  ADJUSTMENT = 'adjustment', // Điều chỉnh tăng / giảm
+  SET = 'set', // Đặt lại số tồn
+  EXPIRY_WRITE_OFF = 'expiry_write_off', // Hủy hàng lô quá hạn
+}
+
+export enum StockMovementReferenceType {
+  CART = 'cart', // Phiên checkout của giỏ hàng (quoteId)
+  ORDER = 'order',
+  RETURN_REQUEST = 'return_request',
+  ADJUSTMENT = 'adjustment',
+  PURCHASE_ORDER = 'purchase_order',
+  INVENTORY_LOT = 'inventory_lot',
+  STOCKTAKE = 'stocktake',
+}
+
+/**
+ * Một lần thay đổi bộ đếm tồn kho (currentStock / reservedStock) của sản phẩm.
+ * Chỉ ghi thêm, không sửa: tổng chênh lệch các dòng phải bằng bộ đếm hiện tại.
+ */
+@Entity('stock_movements')
+@Index(['productId', 'createdAt'])
+@Index(['referenceType', 'referenceId'])
+export class StockMovement {
+  @PrimaryGeneratedColumn('uuid')
+  movementId: string;
+
+  @Column({ type: 'uuid' })
+  productId: string;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'productId' })
+  product: Product;
+
+  @Column({ type: 'enum', enum: StockMovementType })
+  movementType: StockMovementType;
+
+  // Số lượng của nghiệp vụ (luôn dương), chênh lệch thực tế xem before/after
+  @Column({ type: 'int' })
+  quantity: number;
+
+  @Column({ type: 'int' })
+  currentStockBefore: number;
+
+  @Column({ type: 'int' })
+  currentStockAfter: number;
+
+  @Column({ type: 'int' })
+  reservedStockBefore: number;
+
+  @Column({ type: 'int' })
+  reservedStockAfter: number;
+
+  @Column({ type: 'enum', enum: StockMovementReferenceType, nullable: true })
+  referenceType: StockMovementReferenceType | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  referenceId: string | null;
+
+  // userId của người thực hiện, NULL nếu do hệ thống (worker, cron)
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  actorId: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  note: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,75 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Product } from '../../products/entities/product.entity';
+
+export enum StockReservationStatus {
+  ACTIVE = 'ACTIVE', // Đang giữ hàng trong phiên checkout
+  CONSUMED = 'CONSUMED', // Đã chuyển thành đơn hàng
+  RELEASED = 'RELEASED', // Checkout thất bại / bị thay bằng phiên mới
+  EXPIRED = 'EXPIRED', // Hết hạn, worker đã trả hàng
+}
+
+/**
+ * Giữ hàng cho một dòng sản phẩm trong phiên checkout (từ lúc báo giá đến khi
+ * tạo đơn hoặc hết hạn thanh toán). Giỏ hàng không giữ hàng.
+ */
+@Entity('stock_reservations')
+@Index(['status', 'expiresAt']) // Worker hết hạn quét theo index này
+@Index(['quoteId'])
+@Index(['paymentId'])
+@Index(['userId', 'status'])
+export class StockReservation {
+  @PrimaryGeneratedColumn('uuid')
+  reservationId: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column()
+  productId: string;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'productId' })
+  product: Product;
+
+  @Column({ type: 'int' })
+  quantity: number;
+
+  @Column({
+    type: 'enum',
+    enum: StockReservationStatus,
+    default: StockReservationStatus.ACTIVE,
+  })
+  status: StockReservationStatus;
+
+  @Column({ type: 'uuid', nullable: true })
+  quoteId: string | null;
+
+  // Gắn khi checkout BANKING tạo payment, giữ hàng đến khi thanh toán xong
+  @Column({ type: 'int', nullable: true })
+  paymentId: number | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  orderId: string | null;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  // Thời điểm chuyển khỏi ACTIVE (CONSUMED / RELEASED / EXPIRED)
+  @Column({ type: 'timestamp', nullable: true })
+  settledAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
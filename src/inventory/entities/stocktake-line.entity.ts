@@ -0,0 +1,67 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Stocktake } from './stocktake.entity';
+import { Product } from '../../products/entities/product.entity';
+
+/**
+ * Một sản phẩm trong phiên kiểm kê.
+ * Tồn dự kiến lấy theo lần đếm gần nhất: bán / nhập trong lúc đếm làm đổi tồn thực tế,
+ * còn hàng đang giữ cho khách đã tách khỏi kệ nên được cộng lại vào số đếm
+ */
+@Entity('stocktake_lines')
+@Index(['stocktakeId', 'productId'], { unique: true })
+export class StocktakeLine {
+  @PrimaryGeneratedColumn('uuid')
+  lineId: string;
+
+  @Column({ type: 'uuid' })
+  stocktakeId: string;
+
+  @ManyToOne(() => Stocktake, (stocktake) => stocktake.lines, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'stocktakeId' })
+  stocktake: Stocktake;
+
+  @Column({ type: 'uuid' })
+  productId: string;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'productId' })
+  product: Product;
+
+  // Số liệu chốt khi bắt đầu kiểm kê
+  @Column({ type: 'int' })
+  frozenStock: number;
+
+  @Column({ type: 'int' })
+  frozenReservedStock: number;
+
+  // NULL = chưa đếm
+  @Column({ type: 'int', nullable: true })
+  countedQuantity: number | null;
+
+  // Tồn thực tế trên hệ thống tại lần đếm gần nhất
+  @Column({ type: 'int', nullable: true })
+  expectedQuantity: number | null;
+
+  // Hàng đang giữ tại lần đếm gần nhất (chênh với lúc chốt = giữ hàng trong lúc đếm)
+  @Column({ type: 'int', nullable: true })
+  reservedAtCount: number | null;
+
+  // countedQuantity + reservedAtCount - expectedQuantity, tính khi gửi duyệt
+  @Column({ type: 'int', nullable: true })
+  variance: number | null;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  countedBy: string | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  countedAt: Date | null;
+}
@@ -0,0 +1,77 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  OneToMany,
+} from 'typeorm';
+import { StocktakeLine } from './stocktake-line.entity';
+
+export enum StocktakeStatus {
+  COUNTING = 'COUNTING', // Đã chốt số liệu, đang đếm
+  SUBMITTED = 'SUBMITTED', // Đã gửi chênh lệch, chờ admin duyệt
+  APPROVED = 'APPROVED', // Đã duyệt và điều chỉnh tồn kho
+  REJECTED = 'REJECTED', // Admin từ chối, không điều chỉnh
+  CANCELLED = 'CANCELLED', // Hủy khi đang đếm
+}
+
+/**
+ * Phiên kiểm kê: chốt tồn kho của các sản phẩm tại thời điểm bắt đầu,
+ * nhập số đếm thực tế rồi gửi toàn bộ chênh lệch thành một lô chờ duyệt
+ */
+@Entity('stocktakes')
+@Index(['code'], { unique: true })
+@Index(['status'])
+export class Stocktake {
+  @PrimaryGeneratedColumn('uuid')
+  stocktakeId: string;
+
+  @Column({ type: 'varchar', length: 30 })
+  code: string;
+
+  @OneToMany(() => StocktakeLine, (line) => line.stocktake, {
+    cascade: true,
+  })
+  lines: StocktakeLine[];
+
+  @Column({
+    type: 'enum',
+    enum: StocktakeStatus,
+    default: StocktakeStatus.COUNTING,
+  })
+  status: StocktakeStatus;
+
+  @Column({ type: 'text', nullable: true })
+  note: string | null;
+
+  // Thời điểm chốt số liệu tồn kho
+  @Column({ type: 'datetime' })
+  frozenAt: Date;
+
+  @Column({ type: 'varchar', length: 36 })
+  createdBy: string;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  submittedBy: string | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  submittedAt: Date | null;
+
+  // Admin duyệt / từ chối
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  reviewedBy: string | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  reviewedAt: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  rejectionReason: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,51 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { InventoryService } from './inventory.service';
+import { InventoryLotsService } from './inventory-lots.service';
+
+/**
+ * 🤖 Scheduler for lot expiry (daily, 6:00 - before the shop opens)
+ * 1. Writes off expired lots so they can no longer be sold
+ * 2. Sends the near-expiry report to staff
+ */
+@Injectable()
+export class InventoryLotsScheduler {
+  private readonly logger = new Logger(InventoryLotsScheduler.name);
+  private readonly NEAR_EXPIRY_DAYS = 30;
+
+  constructor(
+    private readonly inventoryService: InventoryService,
+    private readonly inventoryLotsService: InventoryLotsService,
+  ) {}
+
+  @Cron('0 6 * * *', {
+    name: 'inventory-lot-expiry',
+    timeZone: 'Asia/Ho_Chi_Minh',
+  })
+  async handleLotExpiry() {
+    this.logger.log('🔄 Running Cron: Lot expiry check...');
+
+    try {
+      const result = await this.inventoryService.expireLots();
+      this.logger.log(
+        `✅ Expired ${result.expiredLots} lots, wrote off ${result.writtenOff} units`,
+      );
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(`❌ Failed to expire lots: ${err.message}`, err.stack);
+    }
+
+    try {
+      const nearExpiry = await this.inventoryLotsService.sendNearExpiryAlerts(
+        this.NEAR_EXPIRY_DAYS,
+      );
+      this.logger.log(`✅ Reported ${nearExpiry} near-expiry lots to staff`);
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(
+        `❌ Failed to send near-expiry alerts: ${err.message}`,
+        err.stack,
+      );
+    }
+  }
+}
@@ -0,0 +1,437 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { FindOperator } from 'typeorm';
+import { InventoryLotsService } from './inventory-lots.service';
+import {
+  InventoryLot,
+  InventoryLotStatus,
+} from './entities/inventory-lot.entity';
+import { Inventory } from './entities/inventory.entity';
+import { User } from '../users/entities/user.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('InventoryLotsService', () => {
+  let service: InventoryLotsService;
+
+  const productId = 'product-1';
+  // 10:00 ngày 15/06/2026 giờ Việt Nam
+  const now = new Date('2026-06-15T03:00:00Z');
+
+  let rows: InventoryLot[];
+  let nextId: number;
+
+  // Lọc như MySQL: so sánh bằng, In(), MoreThan() và LessThanOrEqual()
+  const matches = (row: InventoryLot, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, expected]) => {
+      const actual = row[key as keyof InventoryLot] as string | number;
+      if (expected instanceof FindOperator) {
+        if (expected.type === 'in') {
+          return (expected.value as unknown[]).includes(actual);
+        }
+        if (expected.type === 'moreThan') {
+          return actual > expected.value;
+        }
+        if (expected.type === 'lessThanOrEqual') {
+          return actual <= expected.value;
+        }
+      }
+      return actual === expected;
+    });
+
+  const byExpiry = (a: InventoryLot, b: InventoryLot) =>
+    a.expiryDate.localeCompare(b.expiryDate) ||
+    a.createdAt.getTime() - b.createdAt.getTime();
+
+  const persist = (lot: InventoryLot) => {
+    const index = rows.findIndex((row) => row.lotId === lot.lotId);
+    if (index >= 0) {
+      rows[index] = { ...lot };
+    } else {
+      rows.push({ ...lot });
+    }
+    return lot;
+  };
+
+  const mockLotRepository = {
+    create: jest.fn((data: Partial<InventoryLot>) => ({
+      lotId: `lot-${++nextId}`,
+      status: InventoryLotStatus.ACTIVE,
+      reservedQuantity: 0,
+      writtenOffQuantity: 0,
+      expiredAt: null,
+      createdAt: new Date(now.getTime() + nextId),
+      ...data,
+    })),
+    save: jest.fn((lots: InventoryLot | InventoryLot[]) =>
+      Promise.resolve(Array.isArray(lots) ? lots.map(persist) : persist(lots)),
+    ),
+    findOne: jest.fn(({ where }: { where: Record<string, unknown> }) =>
+      Promise.resolve(rows.find((row) => matches(row, where)) ?? null),
+    ),
+    find: jest.fn(({ where }: { where: Record<string, unknown> }) =>
+      Promise.resolve(
+        rows
+          .filter((row) => matches(row, where))
+          .sort(byExpiry)
+          .map((row) => ({ ...row })),
+      ),
+    ),
+  };
+
+  const mockUserRepository = {
+    find: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    notifyNearExpiry: jest.fn(),
+  };
+
+  const seed = (data: Partial<InventoryLot>) => {
+    const lot = mockLotRepository.create({
+      productId,
+      lotNumber: `LOT-${nextId + 1}`,
+      receivedQuantity: data.quantity,
+      ...data,
+    }) as InventoryLot;
+    rows.push(lot);
+    return lot;
+  };
+
+  const lot = (lotId: string) => rows.find((row) => row.lotId === lotId)!;
+
+  const inventory = (currentStock: number, reservedStock = 0) =>
+    ({ productId, currentStock, reservedStock }) as Inventory;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InventoryLotsService,
+        {
+          provide: getRepositoryToken(InventoryLot),
+          useValue: mockLotRepository,
+        },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<InventoryLotsService>(InventoryLotsService);
+
+    rows = [];
+    nextId = 0;
+    jest.useFakeTimers({ now });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    const dto = {
+      productId,
+      lotNumber: 'LOT-A',
+      manufactureDate: '2026-01-10',
+      expiryDate: '2028-01-10',
+      quantity: 50,
+      costPrice: 120000,
+    };
+
+    // TC-LOT-001-01: Normal - Received lot starts fully on hand
+    it('TC-LOT-001-01: should create an active lot with the received quantity', async () => {
+      const created = await service.create(dto, 'staff-1');
+
+      expect(created).toMatchObject({
+        lotNumber: 'LOT-A',
+        receivedQuantity: 50,
+        quantity: 50,
+        reservedQuantity: 0,
+        status: InventoryLotStatus.ACTIVE,
+        receivedBy: 'staff-1',
+      });
+    });
+
+    // TC-LOT-001-02: Abnormal - Duplicate or already expired lot
+    it('TC-LOT-001-02: should reject a duplicate lot number and an expired lot', async () => {
+      await service.create(dto);
+
+      await expect(service.create(dto)).rejects.toThrow(BadRequestException);
+      await expect(
+        service.create({
+          ...dto,
+          lotNumber: 'LOT-B',
+          expiryDate: '2026-06-15',
+        }),
+      ).rejects.toThrow('Cannot receive an expired lot');
+    });
+  });
+
+  describe('FEFO allocation', () => {
+    // TC-LOT-002-01: Normal - Reservation takes the earliest-expiring lot first
+    it('TC-LOT-002-01: should reserve from the earliest-expiring unexpired lot first', async () => {
+      const later = seed({ expiryDate: '2026-12-01', quantity: 10 });
+      const sooner = seed({ expiryDate: '2026-07-01', quantity: 5 });
+      const expired = seed({ expiryDate: '2026-06-10', quantity: 3 });
+
+      await service.reserve(productId, 7);
+
+      expect(lot(sooner.lotId).reservedQuantity).toBe(5);
+      expect(lot(later.lotId).reservedQuantity).toBe(2);
+      expect(lot(expired.lotId).reservedQuantity).toBe(0);
+    });
+
+    // TC-LOT-002-02: Normal - Sale of held stock returns the lots sold
+    it('TC-LOT-002-02: should sell held stock lot by lot and deplete emptied lots', async () => {
+      const sooner = seed({
+        expiryDate: '2026-07-01',
+        quantity: 5,
+        reservedQuantity: 5,
+      });
+      const later = seed({
+        expiryDate: '2026-12-01',
+        quantity: 10,
+        reservedQuantity: 2,
+      });
+
+      const result = await service.consumeReserved(inventory(15, 7), 7);
+
+      expect(result.writtenOff).toBe(0);
+      expect(result.allocations).toEqual([
+        {
+          lotId: sooner.lotId,
+          lotNumber: sooner.lotNumber,
+          expiryDate: '2026-07-01',
+          quantity: 5,
+        },
+        {
+          lotId: later.lotId,
+          lotNumber: later.lotNumber,
+          expiryDate: '2026-12-01',
+          quantity: 2,
+        },
+      ]);
+      expect(lot(sooner.lotId).status).toBe(InventoryLotStatus.DEPLETED);
+      expect(lot(later.lotId)).toMatchObject({
+        quantity: 8,
+        reservedQuantity: 0,
+      });
+    });
+
+    // TC-LOT-002-03: Boundary - Stock received before lot tracking is sold after the lots
+    it('TC-LOT-002-03: should fall back to untracked stock once lots run out', async () => {
+      const tracked = seed({ expiryDate: '2026-07-01', quantity: 15 });
+
+      const allocations = await service.consume(inventory(20), 17);
+
+      expect(allocations).toEqual([
+        expect.objectContaining({ lotId: tracked.lotId, quantity: 15 }),
+      ]);
+      await expect(service.consume(inventory(5), 6)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('stock adjustments', () => {
+    // TC-LOT-005-01: Normal - Cancelled units go back to the lots they were sold from
+    it('TC-LOT-005-01: should restock the original lots and reactivate a depleted one', async () => {
+      const sold = seed({
+        expiryDate: '2026-07-01',
+        quantity: 0,
+        status: InventoryLotStatus.DEPLETED,
+      });
+      const other = seed({ expiryDate: '2026-12-01', quantity: 4 });
+
+      const writtenOff = await service.restock(productId, 5, [
+        { lotId: sold.lotId, quantity: 3 },
+        { lotId: other.lotId, quantity: 1 },
+      ]);
+
+      expect(writtenOff).toBe(0);
+      expect(lot(sold.lotId)).toMatchObject({
+        quantity: 3,
+        status: InventoryLotStatus.ACTIVE,
+      });
+      // Phần vượt các lô đích (1) là hàng không theo lô
+      expect(lot(other.lotId).quantity).toBe(5);
+    });
+
+    // TC-LOT-005-02: Boundary - Units returned to an expired lot are written off
+    it('TC-LOT-005-02: should write off units returned to an expired lot', async () => {
+      const expired = seed({
+        expiryDate: '2026-06-10',
+        quantity: 0,
+        status: InventoryLotStatus.EXPIRED,
+      });
+
+      await expect(
+        service.restock(productId, 2, [{ lotId: expired.lotId, quantity: 2 }]),
+      ).resolves.toBe(2);
+      expect(lot(expired.lotId)).toMatchObject({
+        quantity: 0,
+        writtenOffQuantity: 2,
+        status: InventoryLotStatus.EXPIRED,
+      });
+      await expect(
+        service.restock(productId, 1, [{ lotId: 'lot-unknown', quantity: 1 }]),
+      ).rejects.toThrow('Lot not found for this product');
+    });
+
+    // TC-LOT-005-03: Normal - Shortage takes unheld units first-expired-first-out
+    it('TC-LOT-005-03: should shrink unheld units of the earliest-expiring lots', async () => {
+      const later = seed({ expiryDate: '2026-12-01', quantity: 10 });
+      const sooner = seed({
+        expiryDate: '2026-07-01',
+        quantity: 5,
+        reservedQuantity: 2,
+      });
+
+      const allocations = await service.shrink(productId, 6);
+
+      expect(allocations).toEqual([
+        expect.objectContaining({ lotId: sooner.lotId, quantity: 3 }),
+        expect.objectContaining({ lotId: later.lotId, quantity: 3 }),
+      ]);
+      expect(lot(sooner.lotId)).toMatchObject({
+        quantity: 2,
+        reservedQuantity: 2,
+      });
+      expect(lot(later.lotId).quantity).toBe(7);
+    });
+  });
+
+  describe('expired lots', () => {
+    // TC-LOT-003-01: Abnormal - Expired lot is blocked from sale
+    it('TC-LOT-003-01: should block unheld units of lots past their expiry date', async () => {
+      seed({ expiryDate: '2026-06-15', quantity: 6, reservedQuantity: 2 });
+      seed({ expiryDate: '2026-07-01', quantity: 9 });
+
+      await expect(service.getBlockedQuantity(productId)).resolves.toBe(4);
+    });
+
+    // TC-LOT-003-02: Boundary - Held units of a lot that expired during checkout
+    it('TC-LOT-003-02: should write off held expired units and ship unexpired ones instead', async () => {
+      const expired = seed({
+        expiryDate: '2026-06-14',
+        quantity: 4,
+        reservedQuantity: 3,
+      });
+      const fresh = seed({ expiryDate: '2026-12-01', quantity: 10 });
+
+      const result = await service.consumeReserved(inventory(14, 3), 3);
+
+      expect(result.writtenOff).toBe(3);
+      expect(result.allocations).toEqual([
+        expect.objectContaining({ lotId: fresh.lotId, quantity: 3 }),
+      ]);
+      expect(lot(expired.lotId)).toMatchObject({
+        quantity: 1,
+        reservedQuantity: 0,
+        writtenOffQuantity: 3,
+      });
+    });
+
+    // TC-LOT-003-03: Abnormal - No unexpired stock to replace the expired hold
+    it('TC-LOT-003-03: should refuse the sale without changing any lot', async () => {
+      const expired = seed({
+        expiryDate: '2026-06-14',
+        quantity: 4,
+        reservedQuantity: 3,
+      });
+
+      await expect(service.consumeReserved(inventory(4, 3), 3)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockLotRepository.save).not.toHaveBeenCalled();
+      expect(lot(expired.lotId).reservedQuantity).toBe(3);
+    });
+
+    // TC-LOT-003-04: Normal - Released hold on an expired lot is written off
+    it('TC-LOT-003-04: should release expired holds first and write them off', async () => {
+      const expired = seed({
+        expiryDate: '2026-06-14',
+        quantity: 2,
+        reservedQuantity: 2,
+      });
+      const fresh = seed({
+        expiryDate: '2026-12-01',
+        quantity: 5,
+        reservedQuantity: 3,
+      });
+
+      const writtenOff = await service.release(productId, 3);
+
+      expect(writtenOff).toBe(2);
+      expect(lot(expired.lotId)).toMatchObject({
+        quantity: 0,
+        reservedQuantity: 0,
+      });
+      expect(lot(fresh.lotId).reservedQuantity).toBe(2);
+    });
+
+    // TC-LOT-003-05: Normal - Daily expiry writes off unheld units
+    it('TC-LOT-003-05: should expire due lots and write off unheld units', async () => {
+      const due = seed({
+        expiryDate: '2026-06-15',
+        quantity: 6,
+        reservedQuantity: 1,
+      });
+      const current = seed({ expiryDate: '2026-06-16', quantity: 4 });
+
+      const expired = await service.expireDueLots();
+
+      expect(expired).toHaveLength(1);
+      expect(expired[0].writtenOff).toBe(5);
+      expect(lot(due.lotId)).toMatchObject({
+        status: InventoryLotStatus.EXPIRED,
+        quantity: 1,
+        writtenOffQuantity: 5,
+        expiredAt: now,
+      });
+      expect(lot(current.lotId).status).toBe(InventoryLotStatus.ACTIVE);
+    });
+  });
+
+  describe('near-expiry report', () => {
+    // TC-LOT-004-01: Normal - Staff are alerted about lots expiring in the window
+    it('TC-LOT-004-01: should notify active staff about lots expiring within the window', async () => {
+      const soon = seed({
+        lotNumber: 'LOT-SOON',
+        expiryDate: '2026-07-15',
+        quantity: 8,
+      });
+      seed({ expiryDate: '2026-07-16', quantity: 8 });
+      mockUserRepository.find.mockResolvedValue([{ userId: 'staff-1' }]);
+
+      const reported = await service.sendNearExpiryAlerts(30);
+
+      expect(reported).toBe(1);
+      expect(mockNotificationsService.notifyNearExpiry).toHaveBeenCalledWith(
+        ['staff-1'],
+        30,
+        [
+          expect.objectContaining({
+            lotId: soon.lotId,
+            lotNumber: 'LOT-SOON',
+            expiryDate: '2026-07-15',
+            quantity: 8,
+          }),
+        ],
+      );
+    });
+
+    // TC-LOT-004-02: Boundary - Nothing near expiry
+    it('TC-LOT-004-02: should not notify anyone when no lot is near expiry', async () => {
+      seed({ expiryDate: '2027-01-01', quantity: 8 });
+
+      await expect(service.sendNearExpiryAlerts(30)).resolves.toBe(0);
+      expect(mockUserRepository.find).not.toHaveBeenCalled();
+      expect(mockNotificationsService.notifyNearExpiry).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,487 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  EntityManager,
+  In,
+  LessThanOrEqual,
+  MoreThan,
+  Repository,
+} from 'typeorm';
+import {
+  InventoryLot,
+  InventoryLotStatus,
+  LotAllocation,
+} from './entities/inventory-lot.entity';
+import { Inventory } from './entities/inventory.entity';
+import { ReceiveLotDto } from './dto/receive-lot.dto';
+import { User, UserRole } from '../users/entities/user.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+
+// Lô nhận lại hàng và số lượng tối đa (phân bổ của dòng đơn hàng hoặc lô admin chỉ định)
+export type LotTarget = Pick<LotAllocation, 'lotId' | 'quantity'>;
+
+/**
+ * Theo dõi lô hàng và hạn dùng:
+ * - Giữ hàng / bán hàng phân bổ theo FEFO (hết hạn trước, xuất trước)
+ * - Lô quá hạn bị chặn bán, phần chưa giữ bị hủy khi worker chạy
+ * - Hàng nhập trước khi theo dõi lô (không thuộc lô nào) vẫn bán bình thường, xuất sau các lô
+ * Service chỉ cập nhật bảng lô; Inventory do InventoryService cập nhật theo kết quả trả về.
+ */
+@Injectable()
+export class InventoryLotsService {
+  private readonly logger = new Logger(InventoryLotsService.name);
+
+  constructor(
+    @InjectRepository(InventoryLot)
+    private readonly lotRepository: Repository<InventoryLot>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * 📥 Tạo lô mới khi nhập hàng
+   */
+  async create(dto: ReceiveLotDto, receivedBy?: string): Promise<InventoryLot> {
+    if (dto.manufactureDate && dto.manufactureDate > dto.expiryDate) {
+      throw new BadRequestException(
+        'Manufacture date must be before expiry date',
+      );
+    }
+    if (dto.expiryDate <= this.today()) {
+      throw new BadRequestException('Cannot receive an expired lot');
+    }
+
+    const existing = await this.lotRepository.findOne({
+      where: { productId: dto.productId, lotNumber: dto.lotNumber },
+    });
+    if (existing) {
+      throw new BadRequestException(
+        `Lot ${dto.lotNumber} already exists for this product`,
+      );
+    }
+
+    return await this.lotRepository.save(
+      this.lotRepository.create({
+        productId: dto.productId,
+        lotNumber: dto.lotNumber,
+        manufactureDate: dto.manufactureDate ?? null,
+        expiryDate: dto.expiryDate,
+        costPrice: dto.costPrice ?? 0,
+        receivedQuantity: dto.quantity,
+        quantity: dto.quantity,
+        reservedQuantity: 0,
+        receivedBy: receivedBy ?? null,
+      }),
+    );
+  }
+
+  async findByProduct(productId: string): Promise<InventoryLot[]> {
+    return await this.lotRepository.find({
+      where: { productId },
+      order: { expiryDate: 'ASC', createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * 📅 Lô còn hàng hết hạn trong `days` ngày tới (gồm cả lô đã quá hạn nhưng worker chưa xử lý)
+   */
+  async findNearExpiry(days: number = 30): Promise<InventoryLot[]> {
+    return await this.lotRepository.find({
+      where: {
+        status: InventoryLotStatus.ACTIVE,
+        quantity: MoreThan(0),
+        expiryDate: LessThanOrEqual(this.shiftDate(this.today(), days)),
+      },
+      relations: ['product'],
+      order: { expiryDate: 'ASC' },
+    });
+  }
+
+  /**
+   * 🚫 Số lượng thuộc lô đã quá hạn và chưa được giữ — không được bán
+   */
+  async getBlockedQuantity(productId: string): Promise<number> {
+    const today = this.today();
+    return (await this.findOnHand(productId))
+      .filter((lot) => this.isExpired(lot, today))
+      .reduce((sum, lot) => sum + lot.quantity - lot.reservedQuantity, 0);
+  }
+
+  /**
+   * 🔒 Giữ hàng theo FEFO, phần vượt quá các lô lấy từ hàng không theo lô
+   */
+  async reserve(productId: string, quantity: number): Promise<void> {
+    const today = this.today();
+    let remaining = quantity;
+    const changed: InventoryLot[] = [];
+
+    for (const lot of await this.findOnHand(productId)) {
+      if (remaining <= 0) break;
+      if (this.isExpired(lot, today)) continue;
+
+      const take = Math.min(remaining, lot.quantity - lot.reservedQuantity);
+      if (take <= 0) continue;
+      lot.reservedQuantity += take;
+      remaining -= take;
+      changed.push(lot);
+    }
+
+    await this.saveAll(changed);
+  }
+
+  /**
+   * 🔓 Trả hàng đang giữ: lô quá hạn trước (hàng trả về bị hủy luôn), sau đó lô hạn xa nhất
+   * để phần còn giữ vẫn là lô hết hạn sớm nhất.
+   * @returns Số lượng bị hủy do thuộc lô quá hạn
+   */
+  async release(productId: string, quantity: number): Promise<number> {
+    const today = this.today();
+    const lots = (await this.findOnHand(productId))
+      .filter((lot) => lot.reservedQuantity > 0)
+      .sort((a, b) => {
+        const expiredFirst =
+          Number(this.isExpired(b, today)) - Number(this.isExpired(a, today));
+        return expiredFirst || b.expiryDate.localeCompare(a.expiryDate);
+      });
+
+    let remaining = quantity;
+    let writtenOff = 0;
+    const changed: InventoryLot[] = [];
+    for (const lot of lots) {
+      if (remaining <= 0) break;
+
+      const take = Math.min(remaining, lot.reservedQuantity);
+      lot.reservedQuantity -= take;
+      if (this.isExpired(lot, today)) {
+        writtenOff += this.writeOff(lot, take);
+      }
+      remaining -= take;
+      changed.push(lot);
+    }
+
+    await this.saveAll(changed);
+    return writtenOff;
+  }
+
+  /**
+   * 📦 Bán hàng đã giữ theo FEFO. Hàng giữ nằm trên lô vừa quá hạn được hủy và thay bằng
+   * hàng còn hạn chưa giữ; không còn hàng thay thế → báo lỗi, không thay đổi gì.
+   * @returns Lô đã xuất và số lượng bị hủy
+   */
+  async consumeReserved(
+    inventory: Inventory,
+    quantity: number,
+  ): Promise<{ allocations: LotAllocation[]; writtenOff: number }> {
+    const today = this.today();
+    const lots = await this.findOnHand(inventory.productId);
+    const untracked = this.getUntracked(inventory, lots);
+    const allocations: LotAllocation[] = [];
+    const changed = new Set<InventoryLot>();
+    let remaining = quantity;
+
+    for (const lot of lots) {
+      if (remaining <= 0) break;
+      if (this.isExpired(lot, today)) continue;
+
+      const take = Math.min(remaining, lot.reservedQuantity);
+      if (take <= 0) continue;
+      lot.reservedQuantity -= take;
+      this.allocate(lot, take, allocations);
+      remaining -= take;
+      changed.add(lot);
+    }
+
+    remaining -= Math.min(remaining, untracked.reserved);
+
+    let writtenOff = 0;
+    for (const lot of lots) {
+      if (remaining <= 0) break;
+      if (!this.isExpired(lot, today) || lot.reservedQuantity <= 0) continue;
+
+      const take = Math.min(remaining, lot.reservedQuantity);
+      lot.reservedQuantity -= take;
+      writtenOff += this.writeOff(lot, take);
+      remaining -= take;
+      changed.add(lot);
+    }
+    if (writtenOff > 0) {
+      this.takeFree(lots, untracked.free, writtenOff, allocations, changed);
+      this.logger.warn(
+        `⚠️ Replaced ${writtenOff} reserved units of expired lots for product ${inventory.productId}`,
+      );
+    }
+
+    await this.saveAll([...changed]);
+    return { allocations, writtenOff };
+  }
+
+  /**
+   * 📦 Bán hàng chưa giữ (đơn không qua giữ hàng) theo FEFO
+   */
+  async consume(
+    inventory: Inventory,
+    quantity: number,
+  ): Promise<LotAllocation[]> {
+    const lots = await this.findOnHand(inventory.productId);
+    const allocations: LotAllocation[] = [];
+    const changed = new Set<InventoryLot>();
+
+    this.takeFree(
+      lots,
+      this.getUntracked(inventory, lots).free,
+      quantity,
+      allocations,
+      changed,
+    );
+
+    await this.saveAll([...changed]);
+    return allocations;
+  }
+
+  /**
+   * ↩️ Cộng hàng trả về vào lô đích (lô đã xuất cho dòng đơn hàng, hoặc lô do admin chỉ định).
+   * Lô đã quá hạn → hàng trả về bị hủy luôn; phần vượt quá các lô đích là hàng không theo lô.
+   * Nếu truyền manager, chạy trong transaction của caller
+   * @returns Số lượng bị hủy do thuộc lô quá hạn
+   */
+  async restock(
+    productId: string,
+    quantity: number,
+    targets: LotTarget[],
+    manager?: EntityManager,
+  ): Promise<number> {
+    const lotRepository =
+      manager?.getRepository(InventoryLot) ?? this.lotRepository;
+    const lotIds = [...new Set(targets.map((target) => target.lotId))];
+    const lots = await lotRepository.find({
+      where: { productId, lotId: In(lotIds) },
+    });
+    if (lots.length !== lotIds.length) {
+      throw new BadRequestException('Lot not found for this product');
+    }
+
+    const today = this.today();
+    let remaining = quantity;
+    let writtenOff = 0;
+    const changed = new Set<InventoryLot>();
+    for (const target of targets) {
+      if (remaining <= 0) break;
+
+      const lot = lots.find((candidate) => candidate.lotId === target.lotId)!;
+      const take = Math.min(remaining, target.quantity);
+      lot.quantity += take;
+      if (this.isExpired(lot, today)) {
+        writtenOff += this.writeOff(lot, take);
+      } else if (lot.status === InventoryLotStatus.DEPLETED) {
+        lot.status = InventoryLotStatus.ACTIVE;
+      }
+      remaining -= take;
+      changed.add(lot);
+    }
+
+    await this.saveAll([...changed], manager);
+    return writtenOff;
+  }
+
+  /**
+   * 📉 Trừ hàng thiếu (kiểm kê, điều chỉnh giảm) theo FEFO trên phần chưa giữ của các lô,
+   * phần còn lại trừ vào hàng không theo lô.
+   * Nếu truyền manager, chạy trong transaction của caller
+   */
+  async shrink(
+    productId: string,
+    quantity: number,
+    manager?: EntityManager,
+  ): Promise<LotAllocation[]> {
+    const allocations: LotAllocation[] = [];
+    const changed: InventoryLot[] = [];
+    let remaining = quantity;
+
+    for (const lot of await this.findOnHand(productId, manager)) {
+      if (remaining <= 0) break;
+
+      const take = Math.min(remaining, lot.quantity - lot.reservedQuantity);
+      if (take <= 0) continue;
+      this.allocate(lot, take, allocations);
+      remaining -= take;
+      changed.push(lot);
+    }
+
+    await this.saveAll(changed, manager);
+    return allocations;
+  }
+
+  /**
+   * ⏰ Chuyển lô quá hạn sang EXPIRED và hủy phần chưa giữ.
+   * Phần đang giữ được hủy khi phiên checkout trả hàng hoặc thay bằng lô khác khi bán.
+   */
+  async expireDueLots(): Promise<
+    Array<{ lot: InventoryLot; writtenOff: number }>
+  > {
+    const lots = await this.lotRepository.find({
+      where: {
+        status: InventoryLotStatus.ACTIVE,
+        expiryDate: LessThanOrEqual(this.today()),
+      },
+    });
+
+    const expired: Array<{ lot: InventoryLot; writtenOff: number }> = [];
+    for (const lot of lots) {
+      const writtenOff = this.writeOff(
+        lot,
+        lot.quantity - lot.reservedQuantity,
+      );
+      lot.status = InventoryLotStatus.EXPIRED;
+      lot.expiredAt = new Date();
+      expired.push({ lot: await this.lotRepository.save(lot), writtenOff });
+    }
+    return expired;
+  }
+
+  /**
+   * 🔔 Gửi danh sách lô cận date cho nhân viên kho
+   * @returns Số lô cận date
+   */
+  async sendNearExpiryAlerts(days: number = 30): Promise<number> {
+    const lots = await this.findNearExpiry(days);
+    if (lots.length === 0) {
+      return 0;
+    }
+
+    const staff = await this.userRepository.find({
+      where: { role: UserRole.STAFF, isActive: true },
+    });
+    if (staff.length === 0) {
+      this.logger.warn('⚠️ No active staff to notify about near-expiry lots');
+      return lots.length;
+    }
+
+    await this.notificationsService.notifyNearExpiry(
+      staff.map((user) => user.userId),
+      days,
+      lots.map((lot) => ({
+        lotId: lot.lotId,
+        lotNumber: lot.lotNumber,
+        productId: lot.productId,
+        productName: lot.product?.productName,
+        expiryDate: lot.expiryDate,
+        quantity: lot.quantity,
+      })),
+    );
+    return lots.length;
+  }
+
+  // Lô còn hàng (kể cả lô EXPIRED còn hàng đang giữ), sắp theo FEFO
+  private findOnHand(
+    productId: string,
+    manager?: EntityManager,
+  ): Promise<InventoryLot[]> {
+    const lotRepository =
+      manager?.getRepository(InventoryLot) ?? this.lotRepository;
+    return lotRepository.find({
+      where: {
+        productId,
+        status: In([InventoryLotStatus.ACTIVE, InventoryLotStatus.EXPIRED]),
+        quantity: MoreThan(0),
+      },
+      order: { expiryDate: 'ASC', createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Hàng không thuộc lô nào = tồn kho trừ tổng các lô.
+   * Điều chỉnh tồn kho thủ công có thể làm tổng lô vượt tồn kho → chặn về 0.
+   */
+  private getUntracked(inventory: Inventory, lots: InventoryLot[]) {
+    const onHand = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const reserved = lots.reduce((sum, lot) => sum + lot.reservedQuantity, 0);
+    const untrackedReserved = Math.max(0, inventory.reservedStock - reserved);
+    return {
+      reserved: untrackedReserved,
+      free: Math.max(0, inventory.currentStock - onHand - untrackedReserved),
+    };
+  }
+
+  /**
+   * Lấy hàng chưa giữ theo FEFO từ lô còn hạn, sau đó từ hàng không theo lô
+   */
+  private takeFree(
+    lots: InventoryLot[],
+    untrackedFree: number,
+    quantity: number,
+    allocations: LotAllocation[],
+    changed: Set<InventoryLot>,
+  ): void {
+    const today = this.today();
+    let remaining = quantity;
+
+    for (const lot of lots) {
+      if (remaining <= 0) break;
+      if (this.isExpired(lot, today)) continue;
+
+      const take = Math.min(remaining, lot.quantity - lot.reservedQuantity);
+      if (take <= 0) continue;
+      this.allocate(lot, take, allocations);
+      remaining -= take;
+      changed.add(lot);
+    }
+
+    if (remaining > untrackedFree) {
+      throw new BadRequestException(
+        `Insufficient unexpired stock. Available: ${quantity - remaining + untrackedFree}, Requested: ${quantity}`,
+      );
+    }
+  }
+
+  private allocate(
+    lot: InventoryLot,
+    quantity: number,
+    allocations: LotAllocation[],
+  ): void {
+    lot.quantity -= quantity;
+    if (lot.quantity === 0 && lot.status === InventoryLotStatus.ACTIVE) {
+      lot.status = InventoryLotStatus.DEPLETED;
+    }
+    allocations.push({
+      lotId: lot.lotId,
+      lotNumber: lot.lotNumber,
+      expiryDate: lot.expiryDate,
+      quantity,
+    });
+  }
+
+  private writeOff(lot: InventoryLot, quantity: number): number {
+    lot.quantity -= quantity;
+    lot.writtenOffQuantity += quantity;
+    return quantity;
+  }
+
+  private async saveAll(
+    lots: InventoryLot[],
+    manager?: EntityManager,
+  ): Promise<void> {
+    if (lots.length > 0) {
+      await (manager?.getRepository(InventoryLot) ?? this.lotRepository).save(
+        lots,
+      );
+    }
+  }
+
+  private isExpired(lot: InventoryLot, today: string): boolean {
+    return lot.expiryDate <= today;
+  }
+
+  private today(): string {
+    // en-CA cho định dạng YYYY-MM-DD
+    return new Date().toLocaleDateString('en-CA', {
+      timeZone: 'Asia/Ho_Chi_Minh',
+    });
+  }
+
+  private shiftDate(date: string, days: number): string {
+    const shifted = new Date(`${date}T00:00:00Z`);
+    shifted.setUTCDate(shifted.getUTCDate() + days);
+    return shifted.toISOString().slice(0, 10);
+  }
+}
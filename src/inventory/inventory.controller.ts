@@ -2,6 +2,7 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
   Delete,
   Body,
   Param,
@@ -20,6 +21,11 @@ import {
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import { InventoryService } from './inventory.service';
+import { InventoryLotsService } from './inventory-lots.service';
+import { StockMovementsService } from './stock-movements.service';
+import { ReceiveLotDto } from './dto/receive-lot.dto';
+import { FindStockMovementsDto } from './dto/find-stock-movements.dto';
+import { ReorderSettingsDto } from './dto/reorder-settings.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
@@ -32,7 +38,11 @@ import { ResponseHelper } from '../utils/responses';
 @Controller('inventory')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class InventoryController {
-  constructor(private readonly inventoryService: InventoryService) {}
+  constructor(
+    private readonly inventoryService: InventoryService,
+    private readonly inventoryLotsService: InventoryLotsService,
+    private readonly stockMovementsService: StockMovementsService,
+  ) {}
 
   @Get()
   @Roles(UserRole.ADMIN, UserRole.STAFF)
@@ -56,6 +66,42 @@ export class InventoryController {
     );
   }
 
+  @Get('products/:productId/movements')
+  @Roles(UserRole.STAFF, UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Get stock movement history for a product',
+    description:
+      'Every change to on-hand and reserved stock with before/after values, source document and actor, newest first',
+  })
+  @ApiParam({ name: 'productId', description: 'Product UUID' })
+  @ApiResponse({ status: 200, description: 'Returns stock movements' })
+  async getProductMovements(
+    @Param('productId') productId: string,
+    @Query() query: FindStockMovementsDto,
+  ) {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+    const { data, total } = await this.stockMovementsService.findByProduct(
+      productId,
+      page,
+      limit,
+    );
+    return ResponseHelper.paginated(data, total, page, limit);
+  }
+
+  @Get('movements/consistency')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Check inventory counters against stock movements (Admin only)',
+    description:
+      'Recomputes on-hand and reserved stock from the movement ledger and lists products whose counters drifted',
+  })
+  @ApiResponse({ status: 200, description: 'Returns drifted products' })
+  async checkMovementConsistency() {
+    const drifts = await this.stockMovementsService.checkConsistency();
+    return ResponseHelper.success('Stock ledger check completed', drifts);
+  }
+
   @Get('product/:productId')
   @Roles(UserRole.ADMIN, UserRole.STAFF)
   @ApiOperation({ summary: 'Get inventory for specific product' })
@@ -75,9 +121,36 @@ export class InventoryController {
     return { productId, available };
   }
 
+  @Patch('product/:productId/reorder')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Set reorder point and reorder quantity (Admin only)',
+    description:
+      'Staff are notified once each time available stock or days of cover drops to the reorder point. The action can also draft a restock adjustment or a purchase order for approval.',
+  })
+  @ApiParam({ name: 'productId', description: 'Product UUID' })
+  @ApiBody({ type: ReorderSettingsDto })
+  @ApiResponse({ status: 200, description: 'Reorder settings updated' })
+  async updateReorderSettings(
+    @Param('productId') productId: string,
+    @Body() dto: ReorderSettingsDto,
+    @GetUser() user: User,
+  ) {
+    const inventory = await this.inventoryService.updateReorderSettings(
+      productId,
+      dto,
+      user.userId,
+    );
+    return ResponseHelper.success('Reorder settings updated', inventory);
+  }
+
   @Get('alerts/low-stock')
   @Roles(UserRole.ADMIN, UserRole.STAFF)
-  @ApiOperation({ summary: 'Get low stock alerts' })
+  @ApiOperation({
+    summary: 'Get low stock alerts',
+    description:
+      'Products at or below their reorder point, or the threshold when no reorder point is set',
+  })
   @ApiQuery({ name: 'threshold', required: false, type: Number })
   @ApiResponse({ status: 200, description: 'Returns low stock products' })
   getLowStockAlerts(@Query('threshold') threshold?: number) {
@@ -92,6 +165,54 @@ export class InventoryController {
     return this.inventoryService.getInventorySummary();
   }
 
+  @Post('lots')
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Receive stock as a lot',
+    description:
+      'Record a received lot (lot number, manufacture/expiry date, unit cost) and add its quantity to inventory. Lots are sold first-expired-first-out.',
+  })
+  @ApiBody({ type: ReceiveLotDto })
+  @ApiResponse({ status: 201, description: 'Lot received' })
+  @ApiResponse({
+    status: 400,
+    description: 'Lot number already exists or lot is already expired',
+  })
+  async receiveLot(@Body() dto: ReceiveLotDto, @GetUser() user: User) {
+    const lot = await this.inventoryService.receiveLot(dto, user.userId);
+    return ResponseHelper.created('Lot received successfully', lot);
+  }
+
+  @Get('lots/near-expiry')
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiOperation({
+    summary: 'Near-expiry report',
+    description:
+      'Lots with stock on hand that expire within the given number of days (including expired lots not yet written off).',
+  })
+  @ApiQuery({ name: 'days', required: false, type: Number, example: 30 })
+  @ApiResponse({ status: 200, description: 'Returns near-expiry lots' })
+  async getNearExpiryLots(@Query('days') days?: number) {
+    const lots = await this.inventoryLotsService.findNearExpiry(
+      days ? Number(days) : 30,
+    );
+    return ResponseHelper.success(
+      'Near-expiry lots retrieved successfully',
+      lots,
+    );
+  }
+
+  @Get('lots/product/:productId')
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiOperation({ summary: 'Get lots of a product (earliest expiry first)' })
+  @ApiParam({ name: 'productId', description: 'Product UUID' })
+  @ApiResponse({ status: 200, description: 'Returns product lots' })
+  async getProductLots(@Param('productId') productId: string) {
+    const lots = await this.inventoryLotsService.findByProduct(productId);
+    return ResponseHelper.success('Product lots retrieved successfully', lots);
+  }
+
   @Post('adjust')
   @Roles(UserRole.ADMIN)
   @HttpCode(HttpStatus.OK)
@@ -102,18 +223,27 @@ export class InventoryController {
       properties: {
         productId: { type: 'string' },
         quantity: { type: 'number', description: '+/- to add/remove' },
+        lotId: {
+          type: 'string',
+          description:
+            'Lot that receives added units. Removed units are taken from lots first-expired-first-out',
+        },
       },
     },
   })
   @ApiResponse({ status: 200, description: 'Stock adjusted' })
   async adjustStock(
-    @Body() dto: { productId: string; quantity: number },
+    @Body() dto: { productId: string; quantity: number; lotId?: string },
     @GetUser() user: User,
   ) {
     await this.inventoryService.adjustStock(
       dto.productId,
       dto.quantity,
       user.userId,
+      undefined,
+      dto.lotId
+        ? { lots: [{ lotId: dto.lotId, quantity: dto.quantity }] }
+        : undefined,
     );
     return ResponseHelper.success('Stock adjusted successfully');
   }
@@ -166,10 +296,14 @@ export class InventoryController {
     },
   })
   @ApiResponse({ status: 200, description: 'Stock reserved' })
-  async reserveStock(@Body() dto: { productId: string; quantity: number }) {
+  async reserveStock(
+    @Body() dto: { productId: string; quantity: number },
+    @GetUser() user: User,
+  ) {
     const result = await this.inventoryService.reserveStock(
       dto.productId,
       dto.quantity,
+      { actorId: user.userId },
     );
 
     if (!result.success) {
@@ -195,8 +329,13 @@ export class InventoryController {
   @ApiResponse({ status: 200, description: 'Reservation released' })
   async releaseReservation(
     @Body() dto: { productId: string; quantity: number },
+    @GetUser() user: User,
   ) {
-    await this.inventoryService.releaseReservation(dto.productId, dto.quantity);
+    await this.inventoryService.releaseReservation(
+      dto.productId,
+      dto.quantity,
+      { actorId: user.userId },
+    );
     return ResponseHelper.success('Reservation released successfully');
   }
 
@@ -214,8 +353,13 @@ export class InventoryController {
     },
   })
   @ApiResponse({ status: 200, description: 'Sale confirmed' })
-  async confirmSale(@Body() dto: { productId: string; quantity: number }) {
-    await this.inventoryService.confirmSale(dto.productId, dto.quantity);
+  async confirmSale(
+    @Body() dto: { productId: string; quantity: number },
+    @GetUser() user: User,
+  ) {
+    await this.inventoryService.confirmSale(dto.productId, dto.quantity, {
+      actorId: user.userId,
+    });
     return ResponseHelper.success('Sale confirmed successfully');
   }
 
@@ -4,14 +4,54 @@ import { InventoryService } from './inventory.service';
 import { InventoryController } from './inventory.controller';
 import { Inventory } from './entities/inventory.entity';
 import { InventoryAdjustment } from './entities/inventory-adjustment.entity';
+import { StockReservation } from './entities/stock-reservation.entity';
+import { StockReservationsService } from './stock-reservations.service';
+import { InventoryLot } from './entities/inventory-lot.entity';
+import { InventoryLotsService } from './inventory-lots.service';
+import { InventoryLotsScheduler } from './inventory-lots.schedule';
+import { StockMovement } from './entities/stock-movement.entity';
+import { StockMovementsService } from './stock-movements.service';
+import { StockMovementsScheduler } from './stock-movements.schedule';
+import { Stocktake } from './entities/stocktake.entity';
+import { StocktakeLine } from './entities/stocktake-line.entity';
+import { StocktakesService } from './stocktakes.service';
+import { StocktakesController } from './stocktakes.controller';
 import { Product } from '../products/entities/product.entity';
+import { User } from '../users/entities/user.entity';
+import { WishlistModule } from '../wishlist/wishlist.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Inventory, InventoryAdjustment, Product]),
+    TypeOrmModule.forFeature([
+      Inventory,
+      InventoryAdjustment,
+      StockReservation,
+      InventoryLot,
+      StockMovement,
+      Stocktake,
+      StocktakeLine,
+      Product,
+      User,
+    ]),
+    WishlistModule,
+    NotificationsModule,
+  ],
+  controllers: [InventoryController, StocktakesController],
+  providers: [
+    InventoryService,
+    StockReservationsService,
+    InventoryLotsService,
+    InventoryLotsScheduler,
+    StockMovementsService,
+    StockMovementsScheduler,
+    StocktakesService,
+  ],
+  exports: [
+    InventoryService,
+    StockReservationsService,
+    InventoryLotsService,
+    StockMovementsService,
   ],
-  controllers: [InventoryController],
-  providers: [InventoryService],
-  exports: [InventoryService],
 })
 export class InventoryModule {}
@@ -5,6 +5,18 @@ import { getRepositoryToken } from '@nestjs/typeorm';
 import { Inventory } from './entities/inventory.entity';
 import { InventoryAdjustment } from './entities/inventory-adjustment.entity';
 import { Product } from '../products/entities/product.entity';
+import { WishlistAlertsService } from '../wishlist/wishlist-alerts.service';
+import { InventoryLotsService } from './inventory-lots.service';
+import { StockMovementsService } from './stock-movements.service';
+import { ReorderAction } from './entities/inventory.entity';
+import {
+  StockMovementReferenceType,
+  StockMovementType,
+} from './entities/stock-movement.entity';
+import {
+  AdjustmentStatus,
+  AdjustmentType,
+} from './entities/inventory-adjustment.entity';
 import { BadRequestException, NotFoundException } from '@nestjs/common';
 
 describe('InventoryService', () => {
@@ -33,6 +45,28 @@ describe('InventoryService', () => {
     save: jest.fn(),
   };
 
+  const mockWishlistAlertsService = {
+    onStockChanged: jest.fn(),
+  };
+
+  const mockInventoryLotsService = {
+    getBlockedQuantity: jest.fn().mockResolvedValue(0),
+    reserve: jest.fn().mockResolvedValue(undefined),
+    release: jest.fn().mockResolvedValue(0),
+    consumeReserved: jest
+      .fn()
+      .mockResolvedValue({ allocations: [], writtenOff: 0 }),
+    consume: jest.fn().mockResolvedValue([]),
+    restock: jest.fn().mockResolvedValue(0),
+    shrink: jest.fn().mockResolvedValue([]),
+    create: jest.fn(),
+    expireDueLots: jest.fn().mockResolvedValue([]),
+  };
+
+  const mockStockMovementsService = {
+    record: jest.fn().mockResolvedValue(null),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -49,6 +83,18 @@ describe('InventoryService', () => {
           provide: getRepositoryToken(Product),
           useValue: mockProductRepository,
         },
+        {
+          provide: WishlistAlertsService,
+          useValue: mockWishlistAlertsService,
+        },
+        {
+          provide: InventoryLotsService,
+          useValue: mockInventoryLotsService,
+        },
+        {
+          provide: StockMovementsService,
+          useValue: mockStockMovementsService,
+        },
       ],
     }).compile();
 
@@ -417,4 +463,407 @@ describe('InventoryService', () => {
       );
     });
   });
+
+  describe('back-in-stock alerts', () => {
+    const productId = 'test-product-id';
+
+    // TC-INV-003-01: Normal - Restock of a sold-out product
+    it('TC-INV-003-01: should pass the previous available stock to wishlist alerts', async () => {
+      const inventory = {
+        productId,
+        currentStock: 0,
+        reservedStock: 0,
+      };
+      const product = { productId, productName: 'Serum', stock: 0 };
+      mockInventoryRepository.findOne.mockResolvedValue(inventory);
+      mockInventoryRepository.save.mockResolvedValue(inventory);
+      mockProductRepository.findOne.mockResolvedValue(product);
+      mockProductRepository.save.mockResolvedValue(product);
+
+      await service.adjustStock(productId, 10);
+
+      expect(product.stock).toBe(10);
+      expect(mockWishlistAlertsService.onStockChanged).toHaveBeenCalledWith(
+        product,
+        0,
+      );
+    });
+  });
+
+  describe('lot tracking', () => {
+    const productId = 'test-product-id';
+    const allocation = {
+      lotId: 'lot-1',
+      lotNumber: 'LOT-A',
+      expiryDate: '2027-01-31',
+      quantity: 5,
+    };
+
+    beforeEach(() => {
+      mockProductRepository.findOne.mockResolvedValue({ productId });
+      mockProductRepository.save.mockResolvedValue({});
+      mockInventoryLotsService.getBlockedQuantity.mockResolvedValue(0);
+    });
+
+    // TC-INV-004-01: Abnormal - Expired lot units are not sellable
+    it('TC-INV-004-01: should exclude expired lot units from available stock', async () => {
+      const inventory = { productId, currentStock: 10, reservedStock: 2 };
+      mockInventoryRepository.findOne.mockResolvedValue(inventory);
+      mockInventoryLotsService.getBlockedQuantity.mockResolvedValue(6);
+
+      await expect(service.getAvailableStock(productId)).resolves.toBe(2);
+      await expect(service.reserveStock(productId, 3)).resolves.toEqual({
+        success: false,
+      });
+      expect(mockInventoryLotsService.reserve).not.toHaveBeenCalled();
+    });
+
+    // TC-INV-004-02: Normal - Sale returns the FEFO lots and writes off swapped expired units
+    it('TC-INV-004-02: should return sold lots and deduct written-off units', async () => {
+      const inventory = { productId, currentStock: 20, reservedStock: 5 };
+      mockInventoryRepository.findOne.mockResolvedValue(inventory);
+      mockInventoryRepository.save.mockResolvedValue(inventory);
+      mockInventoryLotsService.consumeReserved.mockResolvedValueOnce({
+        allocations: [allocation],
+        writtenOff: 2,
+      });
+
+      const lots = await service.confirmSale(productId, 5);
+
+      expect(lots).toEqual([allocation]);
+      expect(inventory).toMatchObject({ currentStock: 13, reservedStock: 0 });
+    });
+
+    // TC-INV-004-03: Boundary - Released hold on an expired lot is written off
+    it('TC-INV-004-03: should remove written-off units when releasing a reservation', async () => {
+      const inventory = { productId, currentStock: 10, reservedStock: 4 };
+      mockInventoryRepository.findOne.mockResolvedValue(inventory);
+      mockInventoryRepository.save.mockResolvedValue(inventory);
+      mockInventoryLotsService.release.mockResolvedValueOnce(3);
+
+      await service.releaseReservation(productId, 4);
+
+      expect(mockInventoryLotsService.release).toHaveBeenCalledWith(
+        productId,
+        4,
+      );
+      expect(inventory).toMatchObject({ currentStock: 7, reservedStock: 0 });
+    });
+
+    // TC-INV-004-04: Normal - Receiving a lot adds its quantity to stock
+    it('TC-INV-004-04: should create the lot and record an adjustment', async () => {
+      const dto = {
+        productId,
+        lotNumber: 'LOT-A',
+        expiryDate: '2027-01-31',
+        quantity: 12,
+        costPrice: 150000,
+      };
+      const inventory = { productId, currentStock: 3, reservedStock: 0 };
+      mockInventoryLotsService.create.mockResolvedValue({
+        lotId: 'lot-1',
+        ...dto,
+      });
+      mockInventoryRepository.findOne.mockResolvedValue(inventory);
+      mockInventoryRepository.save.mockResolvedValue(inventory);
+      mockInventoryAdjustmentRepository.create.mockImplementation(
+        (data: object) => data,
+      );
+
+      const lot = await service.receiveLot(dto, 'staff-1');
+
+      expect(lot.lotId).toBe('lot-1');
+      expect(mockInventoryLotsService.create).toHaveBeenCalledWith(
+        dto,
+        'staff-1',
+      );
+      expect(inventory.currentStock).toBe(15);
+      expect(mockInventoryAdjustmentRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          quantity: 12,
+          requestedBy: 'staff-1',
+          reason: 'Received lot LOT-A (exp. 2027-01-31)',
+        }),
+      );
+    });
+
+    // TC-INV-004-05: Normal - Daily expiry writes off stock per product
+    it('TC-INV-004-05: should deduct written-off units of expired lots from stock', async () => {
+      const inventory = { productId, currentStock: 30, reservedStock: 1 };
+      mockInventoryRepository.findOne.mockResolvedValue(inventory);
+      mockInventoryRepository.save.mockResolvedValue(inventory);
+      mockInventoryLotsService.expireDueLots.mockResolvedValueOnce([
+        { lot: { productId, lotNumber: 'LOT-A' }, writtenOff: 8 },
+        { lot: { productId, lotNumber: 'LOT-B' }, writtenOff: 4 },
+      ]);
+
+      const result = await service.expireLots();
+
+      expect(result).toEqual({ expiredLots: 2, writtenOff: 12 });
+      expect(inventory.currentStock).toBe(18);
+      expect(mockInventoryRepository.save).toHaveBeenCalledTimes(1);
+    });
+
+    // TC-INV-004-06: Normal - Purchase receipt updates the weighted average cost
+    it('TC-INV-004-06: should add received stock and average the cost price', async () => {
+      const inventory = {
+        productId,
+        currentStock: 30,
+        reservedStock: 0,
+        originalPrice: '100000.00',
+      };
+      mockInventoryRepository.findOne.mockResolvedValue(inventory);
+      mockInventoryRepository.save.mockResolvedValue(inventory);
+      mockInventoryAdjustmentRepository.create.mockImplementation(
+        (data: object) => data,
+      );
+
+      const lot = await service.receivePurchase(
+        { productId, quantity: 10, unitCost: 140000 },
+        'staff-1',
+        'Received on purchase order PO1',
+      );
+
+      expect(lot).toBeNull();
+      expect(mockInventoryLotsService.create).not.toHaveBeenCalled();
+      expect(inventory).toMatchObject({
+        currentStock: 40,
+        originalPrice: 110000,
+      });
+      expect(mockInventoryAdjustmentRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'Received on purchase order PO1' }),
+      );
+    });
+
+    // TC-INV-004-07: Normal - Returned units go back to their original lots
+    it('TC-INV-004-07: should restock the given lots and drop units of expired lots', async () => {
+      const inventory = { productId, currentStock: 10, reservedStock: 0 };
+      mockInventoryRepository.findOne.mockResolvedValue(inventory);
+      mockInventoryRepository.save.mockResolvedValue(inventory);
+      mockInventoryLotsService.restock.mockResolvedValueOnce(2);
+
+      await service.adjustStock(
+        productId,
+        5,
+        undefined,
+        'Order item cancelled',
+        {
+          lots: [allocation],
+        },
+      );
+
+      expect(mockInventoryLotsService.restock).toHaveBeenCalledWith(
+        productId,
+        5,
+        [allocation],
+        undefined,
+      );
+      expect(inventory.currentStock).toBe(13);
+      expect(mockStockMovementsService.record).toHaveBeenCalledWith(
+        productId,
+        StockMovementType.ADJUSTMENT,
+        5,
+        { currentStock: 10, reservedStock: 0 },
+        inventory,
+        expect.objectContaining({
+          note: 'Order item cancelled. 2 units of expired lots written off',
+        }) as Record<string, unknown>,
+        undefined,
+      );
+    });
+
+    // TC-INV-004-08: Normal - Shortage is taken from lots first-expired-first-out
+    it('TC-INV-004-08: should shrink lots on a negative adjustment', async () => {
+      const inventory = { productId, currentStock: 10, reservedStock: 0 };
+      mockInventoryRepository.findOne.mockResolvedValue(inventory);
+      mockInventoryRepository.save.mockResolvedValue(inventory);
+
+      await service.adjustStock(productId, -4);
+
+      expect(mockInventoryLotsService.shrink).toHaveBeenCalledWith(
+        productId,
+        4,
+        undefined,
+      );
+      expect(mockInventoryLotsService.restock).not.toHaveBeenCalled();
+      expect(inventory.currentStock).toBe(6);
+    });
+
+    // TC-INV-004-09: Abnormal - Shortage larger than stock leaves lots untouched
+    it('TC-INV-004-09: should reject reducing below zero before touching lots', async () => {
+      mockInventoryRepository.findOne.mockResolvedValue({
+        productId,
+        currentStock: 3,
+        reservedStock: 0,
+      });
+
+      await expect(service.adjustStock(productId, -4)).rejects.toThrow(
+        'Cannot reduce stock below zero',
+      );
+      expect(mockInventoryLotsService.shrink).not.toHaveBeenCalled();
+      expect(mockInventoryRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('stock movements', () => {
+    const productId = 'test-product-id';
+
+    beforeEach(() => {
+      mockProductRepository.findOne.mockResolvedValue({ productId });
+      mockProductRepository.save.mockResolvedValue({});
+      mockInventoryLotsService.getBlockedQuantity.mockResolvedValue(0);
+    });
+
+    // TC-INV-005-01: Normal - Reservation is recorded with before/after counters
+    it('TC-INV-005-01: should record a reserve movement with the checkout reference', async () => {
+      const inventory = { productId, currentStock: 50, reservedStock: 5 };
+      mockInventoryRepository.findOne.mockResolvedValue(inventory);
+      mockInventoryRepository.save.mockResolvedValue(inventory);
+      const context = {
+        referenceType: StockMovementReferenceType.CART,
+        referenceId: 'quote-1',
+        actorId: 'customer-user-1',
+      };
+
+      await service.reserveStock(productId, 3, context);
+
+      expect(mockStockMovementsService.record).toHaveBeenCalledWith(
+        productId,
+        StockMovementType.RESERVE,
+        3,
+        { currentStock: 50, reservedStock: 5 },
+        inventory,
+        context,
+      );
+      expect(inventory).toMatchObject({ currentStock: 50, reservedStock: 8 });
+    });
+
+    // TC-INV-005-02: Boundary - Sale that also writes off expired units notes the write-off
+    it('TC-INV-005-02: should record the sale against the order with the write-off note', async () => {
+      const inventory = { productId, currentStock: 20, reservedStock: 5 };
+      mockInventoryRepository.findOne.mockResolvedValue(inventory);
+      mockInventoryRepository.save.mockResolvedValue(inventory);
+      mockInventoryLotsService.consumeReserved.mockResolvedValueOnce({
+        allocations: [],
+        writtenOff: 2,
+      });
+
+      await service.confirmSale(productId, 5, {
+        referenceType: StockMovementReferenceType.ORDER,
+        referenceId: 'order-1',
+      });
+
+      expect(mockStockMovementsService.record).toHaveBeenCalledWith(
+        productId,
+        StockMovementType.SALE,
+        5,
+        { currentStock: 20, reservedStock: 5 },
+        { productId, currentStock: 13, reservedStock: 0 },
+        {
+          referenceType: StockMovementReferenceType.ORDER,
+          referenceId: 'order-1',
+          note: '2 units of expired lots written off',
+        },
+      );
+    });
+
+    // TC-INV-005-03: Normal - Approved adjustment references the request and reviewer
+    it('TC-INV-005-03: should record an approved adjustment with its reviewer', async () => {
+      const inventory = { productId, currentStock: 10, reservedStock: 0 };
+      mockInventoryRepository.findOne.mockResolvedValue(inventory);
+      mockInventoryRepository.save.mockResolvedValue(inventory);
+      mockInventoryAdjustmentRepository.findOne.mockResolvedValue({
+        adjustmentId: 'adjustment-1',
+        productId,
+        adjustmentType: AdjustmentType.DECREASE,
+        quantity: 4,
+        reason: 'Damaged in storage',
+        status: AdjustmentStatus.PENDING,
+      });
+      mockInventoryAdjustmentRepository.save.mockImplementation(
+        (data: object) => Promise.resolve(data),
+      );
+
+      await service.reviewAdjustment('adjustment-1', {
+        status: AdjustmentStatus.APPROVED,
+        reviewedBy: 'admin-1',
+      });
+
+      expect(mockStockMovementsService.record).toHaveBeenCalledWith(
+        productId,
+        StockMovementType.ADJUSTMENT,
+        4,
+        { currentStock: 10, reservedStock: 0 },
+        inventory,
+        {
+          referenceType: StockMovementReferenceType.ADJUSTMENT,
+          referenceId: 'adjustment-1',
+          actorId: 'admin-1',
+          note: 'Damaged in storage',
+        },
+      );
+      expect(inventory.currentStock).toBe(6);
+    });
+  });
+
+  describe('reorder settings', () => {
+    const productId = 'test-product-id';
+
+    // TC-INV-006-01: Normal - Saving settings starts a fresh crossing
+    it('TC-INV-006-01: should save reorder settings and reset the low-stock alert', async () => {
+      const inventory = {
+        productId,
+        reorderPoint: null,
+        reorderQuantity: null,
+        reorderAction: ReorderAction.NOTIFY,
+        preferredSupplierId: null,
+        lowStockAlertedAt: new Date('2026-10-01T00:00:00Z'),
+      };
+      mockInventoryRepository.findOne.mockResolvedValue(inventory);
+      mockInventoryRepository.save.mockImplementation((data: object) =>
+        Promise.resolve(data),
+      );
+
+      const saved = await service.updateReorderSettings(
+        productId,
+        {
+          reorderPoint: 15,
+          reorderQuantity: 60,
+          reorderAction: ReorderAction.DRAFT_PURCHASE_ORDER,
+          preferredSupplierId: 'supplier-1',
+        },
+        'admin-1',
+      );
+
+      expect(saved).toMatchObject({
+        reorderPoint: 15,
+        reorderQuantity: 60,
+        reorderAction: ReorderAction.DRAFT_PURCHASE_ORDER,
+        preferredSupplierId: 'supplier-1',
+        reorderConfiguredBy: 'admin-1',
+        lowStockAlertedAt: null,
+      });
+    });
+
+    // TC-INV-006-02: Abnormal - Drafting purchase orders needs a supplier
+    it('TC-INV-006-02: should require a preferred supplier to draft purchase orders', async () => {
+      mockInventoryRepository.findOne.mockResolvedValue({
+        productId,
+        reorderAction: ReorderAction.NOTIFY,
+        preferredSupplierId: null,
+      });
+
+      await expect(
+        service.updateReorderSettings(
+          productId,
+          {
+            reorderPoint: 5,
+            reorderAction: ReorderAction.DRAFT_PURCHASE_ORDER,
+          },
+          'admin-1',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockInventoryRepository.save).not.toHaveBeenCalled();
+    });
+  });
 });
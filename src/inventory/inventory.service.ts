@@ -2,10 +2,11 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  Logger,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Inventory } from './entities/inventory.entity';
+import { EntityManager, IsNull, Not, Repository } from 'typeorm';
+import { Inventory, ReorderAction } from './entities/inventory.entity';
 import {
   InventoryAdjustment,
   AdjustmentType,
@@ -13,10 +14,26 @@ import {
 } from './entities/inventory-adjustment.entity';
 import { CreateAdjustmentDto } from './dto/create-adjustment.dto';
 import { ReviewAdjustmentDto } from './dto/review-adjustment.dto';
+import { ReceiveLotDto } from './dto/receive-lot.dto';
+import { ReorderSettingsDto } from './dto/reorder-settings.dto';
+import { InventoryLot, LotAllocation } from './entities/inventory-lot.entity';
+import { InventoryLotsService, LotTarget } from './inventory-lots.service';
+import {
+  StockCounters,
+  StockMovementContext,
+  StockMovementsService,
+} from './stock-movements.service';
+import {
+  StockMovementReferenceType,
+  StockMovementType,
+} from './entities/stock-movement.entity';
 import { Product } from '../products/entities/product.entity';
+import { WishlistAlertsService } from '../wishlist/wishlist-alerts.service';
 
 @Injectable()
 export class InventoryService {
+  private readonly logger = new Logger(InventoryService.name);
+
   constructor(
     @InjectRepository(Inventory)
     private readonly inventoryRepository: Repository<Inventory>,
@@ -24,32 +41,68 @@ export class InventoryService {
     private readonly adjustmentRepository: Repository<InventoryAdjustment>,
     @InjectRepository(Product)
     private readonly productRepository: Repository<Product>,
+    private readonly wishlistAlertsService: WishlistAlertsService,
+    private readonly inventoryLotsService: InventoryLotsService,
+    private readonly stockMovementsService: StockMovementsService,
   ) {}
 
+  private counters(inventory: Inventory | null): StockCounters {
+    return {
+      currentStock: inventory?.currentStock ?? 0,
+      reservedStock: inventory?.reservedStock ?? 0,
+    };
+  }
+
+  /**
+   * Hàng còn bán được = tồn kho - đang giữ - hàng thuộc lô quá hạn chưa giữ
+   */
+  private async getSellableStock(inventory: Inventory): Promise<number> {
+    const blocked = await this.inventoryLotsService.getBlockedQuantity(
+      inventory.productId,
+    );
+    return Math.max(
+      0,
+      inventory.currentStock - inventory.reservedStock - blocked,
+    );
+  }
+
+  private writeOffNote(writtenOff: number): string | undefined {
+    return writtenOff > 0
+      ? `${writtenOff} units of expired lots written off`
+      : undefined;
+  }
+
   /**
    * 🔄 Sync product stock with available inventory stock
-   * Keep product.stock in sync with available stock (currentStock - reservedStock)
+   * Keep product.stock in sync with available stock (currentStock - reservedStock - expired lots)
    * This shows customers what they can actually buy
+   * 🔔 Available stock going from 0 to > 0 triggers back-in-stock alerts
    */
-  private async syncProductStock(productId: string): Promise<void> {
-    const inventory = await this.inventoryRepository.findOne({
+  private async syncProductStock(
+    productId: string,
+    manager?: EntityManager,
+  ): Promise<void> {
+    const inventoryRepository =
+      manager?.getRepository(Inventory) ?? this.inventoryRepository;
+    const productRepository =
+      manager?.getRepository(Product) ?? this.productRepository;
+    const inventory = await inventoryRepository.findOne({
       where: { productId },
     });
 
     if (!inventory) return;
 
-    const product = await this.productRepository.findOne({
+    const product = await productRepository.findOne({
       where: { productId },
     });
 
     if (product) {
       // Sync with AVAILABLE stock (what customers can buy)
-      const availableStock = Math.max(
-        0,
-        inventory.currentStock - inventory.reservedStock,
-      );
+      const availableStock = await this.getSellableStock(inventory);
+      const previousStock = product.stock;
       product.stock = availableStock;
-      await this.productRepository.save(product);
+      await productRepository.save(product);
+      await this.wishlistAlertsService.onStockChanged(product, previousStock);
     }
   }
 
@@ -79,61 +132,110 @@ export class InventoryService {
       return 0;
     }
 
-    return Math.max(0, inventory.currentStock - inventory.reservedStock);
+    return await this.getSellableStock(inventory);
   }
 
-  // Adjust stock (+ or -)
+  // Adjust stock (+ or -). Nếu truyền manager, chạy trong transaction của caller
+  // Hàng cộng vào `lots` (nếu có) theo lô gốc / lô chỉ định; hàng giảm trừ các lô theo FEFO
   async adjustStock(
     productId: string,
     quantity: number,
     adminUserId?: string,
+    reason: string = 'Direct admin adjustment',
+    movement: StockMovementContext & {
+      type?: StockMovementType;
+      lots?: LotTarget[];
+    } = {},
+    manager?: EntityManager,
   ): Promise<void> {
-    let inventory = await this.inventoryRepository.findOne({
+    const { type = StockMovementType.ADJUSTMENT, lots, ...context } = movement;
+    const inventoryRepository =
+      manager?.getRepository(Inventory) ?? this.inventoryRepository;
+    const adjustmentRepository =
+      manager?.getRepository(InventoryAdjustment) ?? this.adjustmentRepository;
+    let inventory = await inventoryRepository.findOne({
       where: { productId },
+      ...(manager && { lock: { mode: 'pessimistic_write' as const } }),
     });
 
     const previousStock = inventory?.currentStock || 0;
+    const before = this.counters(inventory);
 
-    if (!inventory) {
-      if (quantity < 0) {
-        throw new BadRequestException('Cannot reduce non-existent inventory');
-      }
+    if (quantity < 0 && (!inventory || inventory.currentStock < -quantity)) {
+      throw new BadRequestException(
+        inventory
+          ? 'Cannot reduce stock below zero'
+          : 'Cannot reduce non-existent inventory',
+      );
+    }
+
+    // Hàng trả về lô đã quá hạn bị hủy luôn
+    let writtenOff = 0;
+    if (quantity > 0 && lots?.length) {
+      writtenOff = await this.inventoryLotsService.restock(
+        productId,
+        quantity,
+        lots,
+        manager,
+      );
+    } else if (quantity < 0) {
+      await this.inventoryLotsService.shrink(productId, -quantity, manager);
+    }
 
+    if (!inventory) {
       // Create new inventory record
-      inventory = this.inventoryRepository.create({
+      inventory = inventoryRepository.create({
         productId,
         originalPrice: 0,
-        currentStock: quantity,
+        currentStock: quantity - writtenOff,
         reservedStock: 0,
       });
     } else {
-      inventory.currentStock += quantity;
-
-      if (inventory.currentStock < 0) {
-        throw new BadRequestException('Cannot reduce stock below zero');
-      }
+      inventory.currentStock += quantity - writtenOff;
     }
 
-    await this.inventoryRepository.save(inventory);
-    await this.syncProductStock(productId);
+    await inventoryRepository.save(inventory);
+    await this.syncProductStock(productId, manager);
 
     // Create adjustment record for tracking
+    let adjustmentId: string | undefined;
     if (adminUserId) {
-      const adjustmentRecord = this.adjustmentRepository.create({
+      const adjustmentRecord = adjustmentRepository.create({
         productId,
         adjustmentType:
           quantity > 0 ? AdjustmentType.INCREASE : AdjustmentType.DECREASE,
         quantity: Math.abs(quantity),
         previousStock,
         newStock: inventory.currentStock,
-        reason: 'Direct admin adjustment',
+        reason,
         status: AdjustmentStatus.APPROVED,
         requestedBy: adminUserId,
         reviewedBy: adminUserId,
         reviewedAt: new Date(),
       });
-      await this.adjustmentRepository.save(adjustmentRecord);
+      await adjustmentRepository.save(adjustmentRecord);
+      adjustmentId = adjustmentRecord.adjustmentId;
     }
+
+    await this.stockMovementsService.record(
+      productId,
+      type,
+      quantity,
+      before,
+      inventory,
+      {
+        ...(adjustmentId && {
+          referenceType: StockMovementReferenceType.ADJUSTMENT,
+          referenceId: adjustmentId,
+        }),
+        actorId: adminUserId,
+        note: [reason, this.writeOffNote(writtenOff)]
+          .filter(Boolean)
+          .join('. '),
+        ...context,
+      },
+      manager,
+    );
   }
 
   // Set absolute stock level
@@ -148,6 +250,7 @@ export class InventoryService {
     });
 
     const previousStock = inventory?.currentStock || 0;
+    const before = this.counters(inventory);
 
     if (!inventory) {
       inventory = this.inventoryRepository.create({
@@ -157,6 +260,13 @@ export class InventoryService {
         reservedStock: 0,
       });
     } else {
+      // Giảm tồn → trừ các lô theo FEFO để lô không vượt hàng thực tế
+      if (quantity < inventory.currentStock) {
+        await this.inventoryLotsService.shrink(
+          productId,
+          inventory.currentStock - quantity,
+        );
+      }
       inventory.currentStock = quantity;
       if (originalPrice !== undefined) {
         inventory.originalPrice = originalPrice;
@@ -167,6 +277,7 @@ export class InventoryService {
     await this.syncProductStock(productId);
 
     // Create adjustment record for tracking
+    let adjustmentId: string | undefined;
     if (adminUserId) {
       const adjustmentRecord = this.adjustmentRepository.create({
         productId,
@@ -182,13 +293,31 @@ export class InventoryService {
         originalPrice,
       });
       await this.adjustmentRepository.save(adjustmentRecord);
+      adjustmentId = adjustmentRecord.adjustmentId;
     }
+
+    await this.stockMovementsService.record(
+      productId,
+      StockMovementType.SET,
+      quantity,
+      before,
+      inventory,
+      {
+        ...(adjustmentId && {
+          referenceType: StockMovementReferenceType.ADJUSTMENT,
+          referenceId: adjustmentId,
+        }),
+        actorId: adminUserId,
+        ...(adminUserId && { note: 'Direct admin stock set' }),
+      },
+    );
   }
 
   // Reserve stock (simple version - no batch tracking)
   async reserveStock(
     productId: string,
     quantity: number,
+    context: StockMovementContext = {},
   ): Promise<{ success: boolean }> {
     const inventory = await this.inventoryRepository.findOne({
       where: { productId },
@@ -198,21 +327,35 @@ export class InventoryService {
       return { success: false };
     }
 
-    const available = inventory.currentStock - inventory.reservedStock;
+    const available = await this.getSellableStock(inventory);
 
     if (available < quantity) {
       return { success: false };
     }
 
+    const before = this.counters(inventory);
     inventory.reservedStock += quantity;
     await this.inventoryRepository.save(inventory);
+    await this.inventoryLotsService.reserve(productId, quantity);
+    await this.stockMovementsService.record(
+      productId,
+      StockMovementType.RESERVE,
+      quantity,
+      before,
+      inventory,
+      context,
+    );
     await this.syncProductStock(productId); // Sync because available stock changed
 
     return { success: true };
   }
 
   // Release reservation
-  async releaseReservation(productId: string, quantity: number): Promise<void> {
+  async releaseReservation(
+    productId: string,
+    quantity: number,
+    context: StockMovementContext = {},
+  ): Promise<void> {
     const inventory = await this.inventoryRepository.findOne({
       where: { productId },
     });
@@ -225,13 +368,32 @@ export class InventoryService {
       throw new BadRequestException('Cannot release more than reserved');
     }
 
+    // Hàng trả về thuộc lô quá hạn bị hủy luôn
+    const before = this.counters(inventory);
+    const writtenOff = await this.inventoryLotsService.release(
+      productId,
+      quantity,
+    );
     inventory.reservedStock -= quantity;
+    inventory.currentStock = Math.max(0, inventory.currentStock - writtenOff);
     await this.inventoryRepository.save(inventory);
+    await this.stockMovementsService.record(
+      productId,
+      StockMovementType.RELEASE,
+      quantity,
+      before,
+      inventory,
+      { note: this.writeOffNote(writtenOff), ...context },
+    );
     await this.syncProductStock(productId); // Sync because available stock changed
   }
 
-  // Confirm sale (reduce both current and reserved)
-  async confirmSale(productId: string, quantity: number): Promise<void> {
+  // Confirm sale (reduce both current and reserved), returns the lots sold (FEFO)
+  async confirmSale(
+    productId: string,
+    quantity: number,
+    context: StockMovementContext = {},
+  ): Promise<LotAllocation[]> {
     const inventory = await this.inventoryRepository.findOne({
       where: { productId },
     });
@@ -253,13 +415,29 @@ export class InventoryService {
       );
     }
 
-    inventory.currentStock -= quantity;
+    const before = this.counters(inventory);
+    const { allocations, writtenOff } =
+      await this.inventoryLotsService.consumeReserved(inventory, quantity);
+
+    inventory.currentStock = Math.max(
+      0,
+      inventory.currentStock - quantity - writtenOff,
+    );
     inventory.reservedStock -= quantity;
     await this.inventoryRepository.save(inventory);
+    await this.stockMovementsService.record(
+      productId,
+      StockMovementType.SALE,
+      quantity,
+      before,
+      inventory,
+      { note: this.writeOffNote(writtenOff), ...context },
+    );
     console.log(
       `✅ Sale confirmed: New currentStock=${inventory.currentStock}, New reservedStock=${inventory.reservedStock}`,
     );
     await this.syncProductStock(productId);
+    return allocations;
   }
 
   /**
@@ -280,9 +458,13 @@ export class InventoryService {
 
   /**
    * 💳 Reduce stock directly (for paid orders without reservation)
-   * Dùng khi order đã thanh toán, trừ stock trực tiếp
+   * Dùng khi order đã thanh toán, trừ stock trực tiếp, trả về lô đã xuất (FEFO)
    */
-  async reduceStock(productId: string, quantity: number): Promise<void> {
+  async reduceStock(
+    productId: string,
+    quantity: number,
+    context: StockMovementContext = {},
+  ): Promise<LotAllocation[]> {
     const inventory = await this.inventoryRepository.findOne({
       where: { productId },
     });
@@ -291,7 +473,7 @@ export class InventoryService {
       throw new NotFoundException('Inventory not found');
     }
 
-    const available = inventory.currentStock - inventory.reservedStock;
+    const available = await this.getSellableStock(inventory);
 
     if (available < quantity) {
       throw new BadRequestException(
@@ -299,9 +481,158 @@ export class InventoryService {
       );
     }
 
+    const before = this.counters(inventory);
+    const allocations = await this.inventoryLotsService.consume(
+      inventory,
+      quantity,
+    );
     inventory.currentStock -= quantity;
     await this.inventoryRepository.save(inventory);
+    await this.stockMovementsService.record(
+      productId,
+      StockMovementType.DIRECT_SALE,
+      quantity,
+      before,
+      inventory,
+      context,
+    );
     await this.syncProductStock(productId);
+    return allocations;
+  }
+
+  /**
+   * 📥 Nhập hàng theo lô (số lô, NSX, HSD, giá vốn) và cộng tồn kho
+   */
+  async receiveLot(
+    dto: ReceiveLotDto,
+    staffUserId: string,
+    reason?: string,
+    context: StockMovementContext = {},
+  ): Promise<InventoryLot> {
+    const lot = await this.inventoryLotsService.create(dto, staffUserId);
+    await this.adjustStock(
+      dto.productId,
+      dto.quantity,
+      staffUserId,
+      reason ?? `Received lot ${lot.lotNumber} (exp. ${lot.expiryDate})`,
+      {
+        type: StockMovementType.RECEIPT,
+        referenceType: StockMovementReferenceType.INVENTORY_LOT,
+        referenceId: lot.lotId,
+        ...context,
+      },
+    );
+    return lot;
+  }
+
+  /**
+   * 🚚 Nhập hàng theo phiếu mua hàng: cộng tồn (theo lô nếu có HSD) và cập nhật
+   * giá vốn bình quân gia quyền theo giá nhập thực tế
+   */
+  async receivePurchase(
+    receipt: {
+      productId: string;
+      quantity: number;
+      unitCost: number;
+      lot?: Pick<ReceiveLotDto, 'lotNumber' | 'manufactureDate' | 'expiryDate'>;
+    },
+    staffUserId: string,
+    reason: string,
+    context: StockMovementContext = {},
+  ): Promise<InventoryLot | null> {
+    const before = await this.inventoryRepository.findOne({
+      where: { productId: receipt.productId },
+    });
+    const previousStock = Math.max(0, before?.currentStock ?? 0);
+    const previousCost = Number(before?.originalPrice ?? 0);
+
+    let lot: InventoryLot | null = null;
+    if (receipt.lot) {
+      lot = await this.receiveLot(
+        {
+          ...receipt.lot,
+          productId: receipt.productId,
+          quantity: receipt.quantity,
+          costPrice: receipt.unitCost,
+        },
+        staffUserId,
+        reason,
+        context,
+      );
+    } else {
+      await this.adjustStock(
+        receipt.productId,
+        receipt.quantity,
+        staffUserId,
+        reason,
+        { type: StockMovementType.RECEIPT, ...context },
+      );
+    }
+
+    const inventory = await this.inventoryRepository.findOne({
+      where: { productId: receipt.productId },
+    });
+    if (inventory) {
+      const averageCost =
+        (previousStock * previousCost + receipt.quantity * receipt.unitCost) /
+        (previousStock + receipt.quantity);
+      inventory.originalPrice = Math.round(averageCost * 100) / 100;
+      await this.inventoryRepository.save(inventory);
+    }
+    return lot;
+  }
+
+  /**
+   * ⏰ Hủy hàng các lô quá hạn và trừ tồn kho tương ứng.
+   * Số lượng hủy được lưu trên lô (writtenOffQuantity).
+   */
+  async expireLots(): Promise<{ expiredLots: number; writtenOff: number }> {
+    const expired = await this.inventoryLotsService.expireDueLots();
+
+    const writtenOffByProduct = new Map<string, number>();
+    const lotNumbersByProduct = new Map<string, string[]>();
+    for (const { lot, writtenOff } of expired) {
+      writtenOffByProduct.set(
+        lot.productId,
+        (writtenOffByProduct.get(lot.productId) ?? 0) + writtenOff,
+      );
+      lotNumbersByProduct.set(lot.productId, [
+        ...(lotNumbersByProduct.get(lot.productId) ?? []),
+        lot.lotNumber,
+      ]);
+      this.logger.warn(
+        `⏰ Lot ${lot.lotNumber} of product ${lot.productId} expired, wrote off ${writtenOff} units`,
+      );
+    }
+
+    let total = 0;
+    for (const [productId, writtenOff] of writtenOffByProduct) {
+      const inventory = await this.inventoryRepository.findOne({
+        where: { productId },
+      });
+      if (inventory && writtenOff > 0) {
+        const before = this.counters(inventory);
+        inventory.currentStock = Math.max(
+          0,
+          inventory.currentStock - writtenOff,
+        );
+        await this.inventoryRepository.save(inventory);
+        await this.stockMovementsService.record(
+          productId,
+          StockMovementType.EXPIRY_WRITE_OFF,
+          writtenOff,
+          before,
+          inventory,
+          {
+            note: `Expired lots: ${lotNumbersByProduct.get(productId)?.join(', ')}`,
+          },
+        );
+        await this.syncProductStock(productId);
+      }
+      total += writtenOff;
+    }
+
+    return { expiredLots: expired.length, writtenOff: total };
   }
 
   // Confirm multiple sales
@@ -313,13 +644,13 @@ export class InventoryService {
     }
   }
 
-  // Low stock alerts
+  // Low stock alerts (mức nhập hàng riêng của sản phẩm thay cho threshold chung)
   async getLowStockAlerts(threshold: number = 10): Promise<Inventory[]> {
     return await this.inventoryRepository
       .createQueryBuilder('inventory')
       .leftJoinAndSelect('inventory.product', 'product')
       .where(
-        '(inventory.currentStock - inventory.reservedStock) <= :threshold',
+        '(inventory.currentStock - inventory.reservedStock) <= COALESCE(inventory.reorderPoint, :threshold)',
         { threshold },
       )
       .andWhere('(inventory.currentStock - inventory.reservedStock) >= 0')
@@ -327,6 +658,66 @@ export class InventoryService {
       .getMany();
   }
 
+  /**
+   * 📉 Cài đặt mức nhập hàng của sản phẩm. Đổi cài đặt thì lần chạm mức được tính lại từ đầu.
+   */
+  async updateReorderSettings(
+    productId: string,
+    dto: ReorderSettingsDto,
+    adminUserId: string,
+  ): Promise<Inventory> {
+    const inventory = await this.inventoryRepository.findOne({
+      where: { productId },
+    });
+
+    if (!inventory) {
+      throw new NotFoundException('Product inventory not found');
+    }
+
+    if (dto.reorderPoint !== undefined) {
+      inventory.reorderPoint = dto.reorderPoint;
+    }
+    if (dto.reorderQuantity !== undefined) {
+      inventory.reorderQuantity = dto.reorderQuantity;
+    }
+    if (dto.reorderAction !== undefined) {
+      inventory.reorderAction = dto.reorderAction;
+    }
+    if (dto.preferredSupplierId !== undefined) {
+      inventory.preferredSupplierId = dto.preferredSupplierId;
+    }
+    if (
+      inventory.reorderAction === ReorderAction.DRAFT_PURCHASE_ORDER &&
+      !inventory.preferredSupplierId
+    ) {
+      throw new BadRequestException(
+        'A preferred supplier is required to draft purchase orders',
+      );
+    }
+
+    inventory.reorderConfiguredBy = adminUserId;
+    inventory.lowStockAlertedAt = null;
+    return await this.inventoryRepository.save(inventory);
+  }
+
+  // Sản phẩm đang theo dõi mức nhập hàng
+  async getReorderMonitored(): Promise<Inventory[]> {
+    return await this.inventoryRepository.find({
+      where: { reorderPoint: Not(IsNull()) },
+      relations: ['product'],
+    });
+  }
+
+  async setLowStockAlerted(
+    productId: string,
+    alertedAt: Date | null,
+  ): Promise<void> {
+    await this.inventoryRepository.update(
+      { productId },
+      { lowStockAlertedAt: alertedAt },
+    );
+  }
+
   // Inventory summary stats
   async getInventorySummary(): Promise<{
     totalProducts: number;
@@ -499,6 +890,8 @@ export class InventoryService {
       throw new NotFoundException('Inventory not found');
     }
 
+    const before = this.counters(inventory);
+
     // Apply adjustment based on type
     switch (adjustment.adjustmentType) {
       case AdjustmentType.INCREASE:
@@ -520,6 +913,14 @@ export class InventoryService {
         break;
     }
 
+    // Giảm tồn → trừ các lô theo FEFO
+    if (inventory.currentStock < before.currentStock) {
+      await this.inventoryLotsService.shrink(
+        adjustment.productId,
+        before.currentStock - inventory.currentStock,
+      );
+    }
+
     // Update original price if provided (optional)
     if (
       adjustment.originalPrice !== null &&
@@ -529,6 +930,21 @@ export class InventoryService {
     }
 
     await this.inventoryRepository.save(inventory);
+    await this.stockMovementsService.record(
+      adjustment.productId,
+      adjustment.adjustmentType === AdjustmentType.SET
+        ? StockMovementType.SET
+        : StockMovementType.ADJUSTMENT,
+      adjustment.quantity,
+      before,
+      inventory,
+      {
+        referenceType: StockMovementReferenceType.ADJUSTMENT,
+        referenceId: adjustment.adjustmentId,
+        actorId: adjustment.reviewedBy,
+        note: adjustment.reason,
+      },
+    );
     await this.syncProductStock(adjustment.productId);
   }
 
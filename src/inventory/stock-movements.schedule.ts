@@ -0,0 +1,41 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { StockMovementsService } from './stock-movements.service';
+
+/**
+ * 🤖 Scheduler for the stock ledger consistency check (daily, 3:00 - low traffic)
+ * Recomputes inventory counters from stock movements and reports drift
+ */
+@Injectable()
+export class StockMovementsScheduler {
+  private readonly logger = new Logger(StockMovementsScheduler.name);
+
+  constructor(private readonly stockMovementsService: StockMovementsService) {}
+
+  @Cron('0 3 * * *', {
+    name: 'stock-ledger-consistency',
+    timeZone: 'Asia/Ho_Chi_Minh',
+  })
+  async handleConsistencyCheck() {
+    this.logger.log('🔄 Running Cron: Stock ledger consistency check...');
+
+    try {
+      const drifts = await this.stockMovementsService.checkConsistency();
+      if (drifts.length > 0) {
+        this.logger.error(
+          `❌ Stock counters drifted from movements for ${drifts.length} products: ${drifts
+            .map((drift) => drift.productId)
+            .join(', ')}`,
+        );
+      } else {
+        this.logger.log('✅ Stock counters match stock movements');
+      }
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(
+        `❌ Failed to check stock ledger consistency: ${err.message}`,
+        err.stack,
+      );
+    }
+  }
+}
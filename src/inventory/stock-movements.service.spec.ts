@@ -0,0 +1,192 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { StockMovementsService } from './stock-movements.service';
+import {
+  StockMovement,
+  StockMovementReferenceType,
+  StockMovementType,
+} from './entities/stock-movement.entity';
+import { Inventory } from './entities/inventory.entity';
+
+describe('StockMovementsService', () => {
+  let service: StockMovementsService;
+
+  const productId = 'product-1';
+
+  const queryBuilder = {
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    groupBy: jest.fn().mockReturnThis(),
+    getRawMany: jest.fn(),
+  };
+
+  const mockMovementRepository = {
+    exists: jest.fn(),
+    findAndCount: jest.fn(),
+    create: jest.fn((data: object) => data),
+    save: jest.fn((data: object) => Promise.resolve(data)),
+    createQueryBuilder: jest.fn(() => queryBuilder),
+  };
+
+  const mockInventoryRepository = {
+    find: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockMovementsService,
+        {
+          provide: getRepositoryToken(StockMovement),
+          useValue: mockMovementRepository,
+        },
+        {
+          provide: getRepositoryToken(Inventory),
+          useValue: mockInventoryRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<StockMovementsService>(StockMovementsService);
+    mockMovementRepository.exists.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('record', () => {
+    // TC-SMV-001-01: Normal - Movement keeps counters, reference and actor
+    it('TC-SMV-001-01: should record before/after counters with the source document', async () => {
+      const movement = await service.record(
+        productId,
+        StockMovementType.SALE,
+        3,
+        { currentStock: 20, reservedStock: 5 },
+        { currentStock: 17, reservedStock: 2 },
+        {
+          referenceType: StockMovementReferenceType.ORDER,
+          referenceId: 'order-1',
+          actorId: 'staff-1',
+        },
+      );
+
+      expect(movement).toEqual({
+        productId,
+        movementType: StockMovementType.SALE,
+        quantity: 3,
+        currentStockBefore: 20,
+        currentStockAfter: 17,
+        reservedStockBefore: 5,
+        reservedStockAfter: 2,
+        referenceType: StockMovementReferenceType.ORDER,
+        referenceId: 'order-1',
+        actorId: 'staff-1',
+        note: null,
+      });
+    });
+
+    // TC-SMV-001-02: Boundary - Counters did not change
+    it('TC-SMV-001-02: should skip changes that leave the counters untouched', async () => {
+      const movement = await service.record(
+        productId,
+        StockMovementType.SET,
+        10,
+        { currentStock: 10, reservedStock: 0 },
+        { currentStock: 10, reservedStock: 0 },
+      );
+
+      expect(movement).toBeNull();
+      expect(mockMovementRepository.save).not.toHaveBeenCalled();
+    });
+
+    // TC-SMV-001-03: Normal - First movement of stock that existed before the ledger
+    it('TC-SMV-001-03: should write an opening balance before the first movement', async () => {
+      mockMovementRepository.exists.mockResolvedValueOnce(false);
+
+      await service.record(
+        productId,
+        StockMovementType.ADJUSTMENT,
+        -4,
+        { currentStock: 30, reservedStock: 2 },
+        { currentStock: 26, reservedStock: 2 },
+        { actorId: 'admin-1', note: 'Damaged in storage' },
+      );
+
+      expect(mockMovementRepository.save).toHaveBeenCalledTimes(2);
+      expect(mockMovementRepository.save.mock.calls[0][0]).toMatchObject({
+        movementType: StockMovementType.OPENING_BALANCE,
+        currentStockBefore: 0,
+        currentStockAfter: 30,
+        reservedStockBefore: 0,
+        reservedStockAfter: 2,
+        actorId: null,
+      });
+      expect(mockMovementRepository.save.mock.calls[1][0]).toMatchObject({
+        movementType: StockMovementType.ADJUSTMENT,
+        quantity: 4,
+        currentStockBefore: 30,
+        currentStockAfter: 26,
+        note: 'Damaged in storage',
+      });
+    });
+  });
+
+  describe('checkConsistency', () => {
+    // TC-SMV-002-01: Abnormal - Counters changed outside the ledger
+    it('TC-SMV-002-01: should report products whose counters differ from their movements', async () => {
+      queryBuilder.getRawMany.mockResolvedValue([
+        { productId, currentStock: '40', reservedStock: '3', count: '6' },
+        {
+          productId: 'product-2',
+          currentStock: '12',
+          reservedStock: '0',
+          count: '2',
+        },
+      ]);
+      mockInventoryRepository.find.mockResolvedValue([
+        { productId, currentStock: 38, reservedStock: 3 },
+        { productId: 'product-2', currentStock: 12, reservedStock: 0 },
+      ]);
+
+      const drifts = await service.checkConsistency();
+
+      expect(drifts).toEqual([
+        {
+          productId,
+          currentStock: 38,
+          derivedCurrentStock: 40,
+          reservedStock: 3,
+          derivedReservedStock: 3,
+          movementCount: 6,
+        },
+      ]);
+      expect(mockMovementRepository.save).not.toHaveBeenCalled();
+    });
+
+    // TC-SMV-002-02: Boundary - Product without movements yet
+    it('TC-SMV-002-02: should migrate stock without movements as an opening balance', async () => {
+      queryBuilder.getRawMany.mockResolvedValue([]);
+      mockInventoryRepository.find.mockResolvedValue([
+        { productId, currentStock: 25, reservedStock: 0 },
+        { productId: 'product-2', currentStock: 0, reservedStock: 0 },
+      ]);
+
+      const drifts = await service.checkConsistency();
+
+      expect(drifts).toEqual([]);
+      expect(mockMovementRepository.save).toHaveBeenCalledTimes(1);
+      expect(mockMovementRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          productId,
+          movementType: StockMovementType.OPENING_BALANCE,
+          currentStockAfter: 25,
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import {
+  StockMovement,
+  StockMovementReferenceType,
+  StockMovementType,
+} from './entities/stock-movement.entity';
+import { Inventory } from './entities/inventory.entity';
+
+export interface StockCounters {
+  currentStock: number;
+  reservedStock: number;
+}
+
+/**
+ * Nguồn gốc của một lần thay đổi tồn kho
+ */
+export interface StockMovementContext {
+  referenceType?: StockMovementReferenceType;
+  referenceId?: string | number;
+  actorId?: string | null;
+  note?: string;
+}
+
+export interface StockDrift {
+  productId: string;
+  currentStock: number;
+  derivedCurrentStock: number;
+  reservedStock: number;
+  derivedReservedStock: number;
+  movementCount: number;
+}
+
+/**
+ * Sổ biến động kho: mỗi thay đổi currentStock / reservedStock là một dòng
+ * kèm số trước / sau, chứng từ gốc và người thực hiện.
+ */
+@Injectable()
+export class StockMovementsService {
+  private readonly logger = new Logger(StockMovementsService.name);
+
+  constructor(
+    @InjectRepository(StockMovement)
+    private readonly movementRepository: Repository<StockMovement>,
+    @InjectRepository(Inventory)
+    private readonly inventoryRepository: Repository<Inventory>,
+  ) {}
+
+  /**
+   * Ghi một dòng biến động, bỏ qua nếu bộ đếm không đổi.
+   * Dòng đầu tiên của sản phẩm có tồn từ trước → ghi số dư đầu kỳ trước.
+   * Nếu truyền manager, ghi trong transaction của caller.
+   */
+  async record(
+    productId: string,
+    movementType: StockMovementType,
+    quantity: number,
+    before: StockCounters,
+    after: StockCounters,
+    context: StockMovementContext = {},
+    manager?: EntityManager,
+  ): Promise<StockMovement | null> {
+    const movementRepository =
+      manager?.getRepository(StockMovement) ?? this.movementRepository;
+    if (
+      before.currentStock === after.currentStock &&
+      before.reservedStock === after.reservedStock
+    ) {
+      return null;
+    }
+
+    if (
+      (before.currentStock !== 0 || before.reservedStock !== 0) &&
+      !(await movementRepository.exists({ where: { productId } }))
+    ) {
+      await this.writeOpeningBalance(productId, before, movementRepository);
+    }
+
+    return movementRepository.save(
+      movementRepository.create({
+        productId,
+        movementType,
+        quantity: Math.abs(quantity),
+        currentStockBefore: before.currentStock,
+        currentStockAfter: after.currentStock,
+        reservedStockBefore: before.reservedStock,
+        reservedStockAfter: after.reservedStock,
+        referenceType: context.referenceType ?? null,
+        referenceId:
+          context.referenceId !== undefined
+            ? String(context.referenceId)
+            : null,
+        actorId: context.actorId ?? null,
+        note: context.note?.slice(0, 255) ?? null,
+      }),
+    );
+  }
+
+  async findByProduct(
+    productId: string,
+    page: number = 1,
+    limit: number = 50,
+  ): Promise<{ data: StockMovement[]; total: number }> {
+    const [data, total] = await this.movementRepository.findAndCount({
+      where: { productId },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { data, total };
+  }
+
+  /**
+   * Số lượng đã bán (giữ hàng rồi bán + bán thẳng) của từng sản phẩm từ thời điểm since
+   */
+  async getSoldQuantities(since: Date): Promise<Map<string, number>> {
+    const rows: { productId: string; quantity: string }[] =
+      await this.movementRepository
+        .createQueryBuilder('movement')
+        .select('movement.productId', 'productId')
+        .addSelect('SUM(movement.quantity)', 'quantity')
+        .where('movement.movementType IN (:...types)', {
+          types: [StockMovementType.SALE, StockMovementType.DIRECT_SALE],
+        })
+        .andWhere('movement.createdAt >= :since', { since })
+        .groupBy('movement.productId')
+        .getRawMany();
+    return new Map(rows.map((row) => [row.productId, Number(row.quantity)]));
+  }
+
+  /**
+   * 🔍 Tính lại bộ đếm từ sổ biến động và so với bảng inventory.
+   * Sản phẩm chưa có dòng nào được ghi số dư đầu kỳ thay vì báo lệch.
+   */
+  async checkConsistency(): Promise<StockDrift[]> {
+    const rows: {
+      productId: string;
+      currentStock: string;
+      reservedStock: string;
+      count: string;
+    }[] = await this.movementRepository
+      .createQueryBuilder('movement')
+      .select('movement.productId', 'productId')
+      .addSelect(
+        'SUM(movement.currentStockAfter - movement.currentStockBefore)',
+        'currentStock',
+      )
+      .addSelect(
+        'SUM(movement.reservedStockAfter - movement.reservedStockBefore)',
+        'reservedStock',
+      )
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('movement.productId')
+      .getRawMany();
+    const derived = new Map(rows.map((row) => [row.productId, row]));
+
+    const drifts: StockDrift[] = [];
+    for (const inventory of await this.inventoryRepository.find()) {
+      const row = derived.get(inventory.productId);
+      if (!row) {
+        if (inventory.currentStock !== 0 || inventory.reservedStock !== 0) {
+          await this.writeOpeningBalance(inventory.productId, inventory);
+        }
+        continue;
+      }
+
+      const drift: StockDrift = {
+        productId: inventory.productId,
+        currentStock: inventory.currentStock,
+        derivedCurrentStock: Number(row.currentStock),
+        reservedStock: inventory.reservedStock,
+        derivedReservedStock: Number(row.reservedStock),
+        movementCount: Number(row.count),
+      };
+      if (
+        drift.currentStock !== drift.derivedCurrentStock ||
+        drift.reservedStock !== drift.derivedReservedStock
+      ) {
+        this.logger.warn(
+          `⚠️ Stock drift for product ${drift.productId}: current ${drift.currentStock} vs ${drift.derivedCurrentStock} from movements, reserved ${drift.reservedStock} vs ${drift.derivedReservedStock}`,
+        );
+        drifts.push(drift);
+      }
+    }
+    return drifts;
+  }
+
+  private async writeOpeningBalance(
+    productId: string,
+    counters: StockCounters,
+    movementRepository = this.movementRepository,
+  ): Promise<void> {
+    await movementRepository.save(
+      movementRepository.create({
+        productId,
+        movementType: StockMovementType.OPENING_BALANCE,
+        quantity: counters.currentStock,
+        currentStockBefore: 0,
+        currentStockAfter: counters.currentStock,
+        reservedStockBefore: 0,
+        reservedStockAfter: counters.reservedStock,
+        referenceType: null,
+        referenceId: null,
+        actorId: null,
+        note: 'Opening balance migrated from inventory counters',
+      }),
+    );
+  }
+}
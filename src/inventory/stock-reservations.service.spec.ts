@@ -0,0 +1,417 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { FindOperator } from 'typeorm';
+import { StockReservationsService } from './stock-reservations.service';
+import {
+  StockReservation,
+  StockReservationStatus,
+} from './entities/stock-reservation.entity';
+import { InventoryService } from './inventory.service';
+import { StockMovementReferenceType } from './entities/stock-movement.entity';
+
+describe('StockReservationsService', () => {
+  let service: StockReservationsService;
+
+  const userId = 'user-1';
+  const quoteId = 'quote-1';
+  const quoteExpiresAt = new Date('2026-01-01T10:10:00Z');
+  const graceMs = 5 * 60 * 1000;
+  const cartReference = {
+    referenceType: StockMovementReferenceType.CART,
+    referenceId: quoteId,
+  };
+  const orderReference = {
+    referenceType: StockMovementReferenceType.ORDER,
+    referenceId: 'order-1',
+  };
+
+  let rows: StockReservation[];
+  let nextId: number;
+
+  // Lọc như MySQL: so sánh bằng, IsNull() và LessThan()
+  const matches = (row: StockReservation, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, expected]) => {
+      const actual = row[key as keyof StockReservation];
+      if (expected instanceof FindOperator) {
+        if (expected.type === 'isNull') {
+          return actual === null || actual === undefined;
+        }
+        if (expected.type === 'lessThan') {
+          return (actual as Date) < (expected.value as Date);
+        }
+      }
+      return actual === expected;
+    });
+
+  const mockReservationRepository = {
+    create: jest.fn((data: Partial<StockReservation>) => ({
+      reservationId: `rsv-${++nextId}`,
+      status: StockReservationStatus.ACTIVE,
+      paymentId: null,
+      orderId: null,
+      settledAt: null,
+      ...data,
+    })),
+    save: jest.fn((row: StockReservation) => {
+      rows.push(row);
+      return Promise.resolve(row);
+    }),
+    find: jest.fn(
+      ({ where, take }: { where: Record<string, unknown>; take?: number }) =>
+        Promise.resolve(
+          rows
+            .filter((row) => matches(row, where))
+            .slice(0, take)
+            .map((row) => ({ ...row })),
+        ),
+    ),
+    update: jest.fn(
+      (where: Record<string, unknown>, changes: Partial<StockReservation>) => {
+        const matched = rows.filter((row) => matches(row, where));
+        matched.forEach((row) => Object.assign(row, changes));
+        return Promise.resolve({ affected: matched.length });
+      },
+    ),
+  };
+
+  const mockInventoryService = {
+    reserveStock: jest.fn(),
+    releaseReservation: jest.fn(),
+    confirmSale: jest.fn(),
+    reduceStock: jest.fn(),
+    getAvailableStock: jest.fn(),
+  };
+
+  const seed = (data: Partial<StockReservation>) =>
+    rows.push(
+      mockReservationRepository.create({
+        userId,
+        quoteId,
+        expiresAt: quoteExpiresAt,
+        ...data,
+      }) as StockReservation,
+    );
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockReservationsService,
+        {
+          provide: getRepositoryToken(StockReservation),
+          useValue: mockReservationRepository,
+        },
+        { provide: InventoryService, useValue: mockInventoryService },
+      ],
+    }).compile();
+
+    service = module.get<StockReservationsService>(StockReservationsService);
+
+    rows = [];
+    nextId = 0;
+    mockInventoryService.reserveStock.mockResolvedValue({ success: true });
+    mockInventoryService.releaseReservation.mockResolvedValue(undefined);
+    mockInventoryService.confirmSale.mockResolvedValue([]);
+    mockInventoryService.reduceStock.mockResolvedValue([]);
+    mockInventoryService.getAvailableStock.mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('reserve', () => {
+    // TC-RSV-001-01: Normal - Each quoted line is held until the quote expires
+    it('TC-RSV-001-01: should hold every line with the quote expiry plus grace', async () => {
+      await service.reserve(
+        userId,
+        [
+          { productId: 'product-1', quantity: 2 },
+          { productId: 'product-2', quantity: 1 },
+        ],
+        { quoteId, expiresAt: quoteExpiresAt },
+      );
+
+      expect(mockInventoryService.reserveStock).toHaveBeenCalledWith(
+        'product-1',
+        2,
+        { ...cartReference, actorId: userId },
+      );
+      expect(mockInventoryService.reserveStock).toHaveBeenCalledWith(
+        'product-2',
+        1,
+        { ...cartReference, actorId: userId },
+      );
+      expect(rows).toHaveLength(2);
+      expect(rows[0]).toMatchObject({
+        quoteId,
+        status: StockReservationStatus.ACTIVE,
+        expiresAt: new Date(quoteExpiresAt.getTime() + graceMs),
+      });
+    });
+
+    // TC-RSV-001-02: Abnormal - One line is out of stock
+    it('TC-RSV-001-02: should give back lines already held when a later line fails', async () => {
+      mockInventoryService.reserveStock
+        .mockResolvedValueOnce({ success: true })
+        .mockResolvedValueOnce({ success: false });
+
+      await expect(
+        service.reserve(
+          userId,
+          [
+            { productId: 'product-1', quantity: 2 },
+            { productId: 'product-2', productName: 'Toner', quantity: 9 },
+          ],
+          { quoteId, expiresAt: quoteExpiresAt },
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(mockInventoryService.releaseReservation).toHaveBeenCalledTimes(1);
+      expect(mockInventoryService.releaseReservation).toHaveBeenCalledWith(
+        'product-1',
+        2,
+        { ...cartReference, note: 'Reservation released' },
+      );
+      expect(rows[0].status).toBe(StockReservationStatus.RELEASED);
+    });
+
+    // TC-RSV-001-03: Normal - New quote replaces the unpaid session
+    it('TC-RSV-001-03: should release the previous unpaid session but keep a pending payment', async () => {
+      seed({ quoteId: 'old-quote', productId: 'product-1', quantity: 1 });
+      seed({
+        quoteId: 'paid-quote',
+        productId: 'product-2',
+        quantity: 1,
+        paymentId: 7,
+      });
+
+      await service.reserve(userId, [{ productId: 'product-3', quantity: 1 }], {
+        quoteId,
+        expiresAt: quoteExpiresAt,
+      });
+
+      expect(rows[0].status).toBe(StockReservationStatus.RELEASED);
+      expect(rows[1].status).toBe(StockReservationStatus.ACTIVE);
+      expect(mockInventoryService.releaseReservation).toHaveBeenCalledWith(
+        'product-1',
+        1,
+        {
+          referenceType: StockMovementReferenceType.CART,
+          referenceId: 'old-quote',
+          note: 'Reservation released',
+        },
+      );
+    });
+
+    // TC-RSV-001-04: Abnormal - Stock is held but the reservation row is not saved
+    it('TC-RSV-001-04: should give back the stock of a line whose reservation could not be saved', async () => {
+      mockInventoryService.reserveStock.mockResolvedValue({ success: true });
+      mockReservationRepository.save
+        .mockImplementationOnce((row: StockReservation) => {
+          rows.push(row);
+          return Promise.resolve(row);
+        })
+        .mockRejectedValueOnce(new Error('Deadlock found'));
+
+      await expect(
+        service.reserve(
+          userId,
+          [
+            { productId: 'product-1', quantity: 2 },
+            { productId: 'product-2', quantity: 1 },
+          ],
+          { quoteId, expiresAt: quoteExpiresAt },
+        ),
+      ).rejects.toThrow('Deadlock found');
+
+      expect(mockInventoryService.releaseReservation).toHaveBeenCalledTimes(2);
+      expect(mockInventoryService.releaseReservation).toHaveBeenCalledWith(
+        'product-2',
+        1,
+        {
+          ...cartReference,
+          actorId: userId,
+          note: 'Reservation could not be saved',
+        },
+      );
+      expect(mockInventoryService.releaseReservation).toHaveBeenCalledWith(
+        'product-1',
+        2,
+        { ...cartReference, note: 'Reservation released' },
+      );
+      expect(rows).toHaveLength(1);
+      expect(rows[0].status).toBe(StockReservationStatus.RELEASED);
+    });
+  });
+
+  describe('fulfil', () => {
+    // TC-RSV-002-01: Normal - Order consumes the held stock
+    it('TC-RSV-002-01: should confirm the sale of held stock and link the order', async () => {
+      seed({ productId: 'product-1', quantity: 2 });
+
+      await service.fulfil(
+        { quoteId },
+        [{ productId: 'product-1', quantity: 2 }],
+        'order-1',
+      );
+
+      expect(mockInventoryService.confirmSale).toHaveBeenCalledWith(
+        'product-1',
+        2,
+        orderReference,
+      );
+      expect(mockInventoryService.reduceStock).not.toHaveBeenCalled();
+      expect(rows[0]).toMatchObject({
+        status: StockReservationStatus.CONSUMED,
+        orderId: 'order-1',
+      });
+    });
+
+    // TC-RSV-002-02: Boundary - Payment arrives after the hold expired
+    it('TC-RSV-002-02: should reduce available stock when the hold already expired', async () => {
+      seed({
+        productId: 'product-1',
+        quantity: 2,
+        paymentId: 7,
+        status: StockReservationStatus.EXPIRED,
+      });
+
+      await service.fulfil(
+        { paymentId: 7 },
+        [{ productId: 'product-1', quantity: 2 }],
+        'order-1',
+      );
+
+      expect(mockInventoryService.confirmSale).not.toHaveBeenCalled();
+      expect(mockInventoryService.reduceStock).toHaveBeenCalledWith(
+        'product-1',
+        2,
+        orderReference,
+      );
+    });
+
+    // TC-RSV-002-03: Normal - Held line that is not in the order is given back
+    it('TC-RSV-002-03: should release held lines missing from the order', async () => {
+      seed({ productId: 'product-1', quantity: 2 });
+      seed({ productId: 'product-2', quantity: 1 });
+
+      await service.fulfil({ quoteId }, [
+        { productId: 'product-1', quantity: 2 },
+      ]);
+
+      expect(rows[1].status).toBe(StockReservationStatus.RELEASED);
+      expect(mockInventoryService.releaseReservation).toHaveBeenCalledWith(
+        'product-2',
+        1,
+        { ...cartReference, note: 'Reservation released' },
+      );
+    });
+
+    // TC-RSV-002-05: Normal - Lots sold from held and unheld stock are collected per product
+    it('TC-RSV-002-05: should return the lots allocated to each product', async () => {
+      const heldLot = {
+        lotId: 'lot-1',
+        lotNumber: 'LOT-A',
+        expiryDate: '2027-01-31',
+        quantity: 1,
+      };
+      const extraLot = { ...heldLot, lotId: 'lot-2', lotNumber: 'LOT-B' };
+      seed({ productId: 'product-1', quantity: 1 });
+      mockInventoryService.confirmSale.mockResolvedValueOnce([heldLot]);
+      mockInventoryService.reduceStock.mockResolvedValueOnce([extraLot]);
+
+      const allocations = await service.fulfil({ quoteId }, [
+        { productId: 'product-1', quantity: 2 },
+      ]);
+
+      expect(allocations.get('product-1')).toEqual([heldLot, extraLot]);
+    });
+
+    // TC-RSV-002-04: Abnormal - Not enough held or available stock
+    it('TC-RSV-002-04: should report when held plus available stock is short', async () => {
+      seed({ productId: 'product-1', quantity: 1 });
+      mockInventoryService.getAvailableStock.mockResolvedValue(1);
+
+      await expect(
+        service.canFulfil({ quoteId }, 'product-1', 2),
+      ).resolves.toBe(true);
+      await expect(
+        service.canFulfil({ quoteId }, 'product-1', 3),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('expiry', () => {
+    // TC-RSV-003-01: Normal - Worker expires only overdue holds
+    it('TC-RSV-003-01: should expire overdue holds and leave current ones', async () => {
+      seed({
+        productId: 'product-1',
+        quantity: 2,
+        expiresAt: new Date('2026-01-01T10:00:00Z'),
+      });
+      seed({
+        productId: 'product-2',
+        quantity: 1,
+        expiresAt: new Date('2026-01-01T11:00:00Z'),
+      });
+
+      const released = await service.releaseExpired(
+        new Date('2026-01-01T10:30:00Z'),
+      );
+
+      expect(released).toBe(1);
+      expect(rows[0].status).toBe(StockReservationStatus.EXPIRED);
+      expect(rows[1].status).toBe(StockReservationStatus.ACTIVE);
+      expect(mockInventoryService.releaseReservation).toHaveBeenCalledWith(
+        'product-1',
+        2,
+        { ...cartReference, note: 'Reservation expired' },
+      );
+    });
+
+    // TC-RSV-003-02: Boundary - Stock is given back exactly once
+    it('TC-RSV-003-02: should not release the same hold twice', async () => {
+      seed({
+        productId: 'product-1',
+        quantity: 2,
+        expiresAt: new Date('2026-01-01T10:00:00Z'),
+      });
+
+      await service.releaseExpired(new Date('2026-01-01T10:30:00Z'));
+      await service.releaseExpired(new Date('2026-01-01T10:31:00Z'));
+      await expect(service.release({ quoteId })).resolves.toBe(0);
+
+      expect(mockInventoryService.releaseReservation).toHaveBeenCalledTimes(1);
+    });
+
+    // TC-RSV-003-03: Abnormal - Giving back the stock fails
+    it('TC-RSV-003-03: should keep the hold active when releasing its stock fails', async () => {
+      seed({
+        productId: 'product-1',
+        quantity: 2,
+        expiresAt: new Date('2026-01-01T10:00:00Z'),
+      });
+      mockInventoryService.releaseReservation.mockRejectedValueOnce(
+        new Error('Lock wait timeout exceeded'),
+      );
+
+      await expect(
+        service.releaseExpired(new Date('2026-01-01T10:30:00Z')),
+      ).resolves.toBe(0);
+      expect(rows[0].status).toBe(StockReservationStatus.ACTIVE);
+      expect(rows[0].settledAt).toBeNull();
+
+      // Lần quét sau trả hàng thành công
+      await expect(
+        service.releaseExpired(new Date('2026-01-01T10:31:00Z')),
+      ).resolves.toBe(1);
+      expect(rows[0].status).toBe(StockReservationStatus.EXPIRED);
+      expect(mockInventoryService.releaseReservation).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,356 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { IsNull, LessThan, Repository } from 'typeorm';
+import {
+  StockReservation,
+  StockReservationStatus,
+} from './entities/stock-reservation.entity';
+import { LotAllocation } from './entities/inventory-lot.entity';
+import { StockMovementReferenceType } from './entities/stock-movement.entity';
+import { InventoryService } from './inventory.service';
+import { StockMovementContext } from './stock-movements.service';
+
+export interface ReservationLine {
+  productId: string;
+  productName?: string;
+  quantity: number;
+}
+
+// Luôn lọc theo quote hoặc payment, không bao giờ quét toàn bảng
+export type ReservationCriteria = { quoteId: string } | { paymentId: number };
+
+/**
+ * Giữ hàng theo phiên checkout:
+ * - Báo giá → giữ hàng từng dòng, hết hạn cùng quote
+ * - Checkout BANKING → gia hạn đến khi payment hết hạn
+ * - Tạo đơn → CONSUMED, checkout lỗi → RELEASED, quá hạn → EXPIRED
+ * Mỗi lần đổi trạng thái chỉ thành công khi bản ghi còn ACTIVE nên hàng
+ * chỉ được trả / trừ đúng một lần.
+ */
+@Injectable()
+export class StockReservationsService {
+  private readonly logger = new Logger(StockReservationsService.name);
+  // Giữ thêm sau hạn quote / payment để request đang xử lý không bị worker trả hàng giữa chừng
+  private readonly HOLD_GRACE_MS = 5 * 60 * 1000;
+  private readonly EXPIRY_BATCH_SIZE = 500;
+
+  constructor(
+    @InjectRepository(StockReservation)
+    private readonly reservationRepository: Repository<StockReservation>,
+    private readonly inventoryService: InventoryService,
+  ) {}
+
+  /**
+   * 🔒 Giữ hàng cho phiên checkout mới. Phiên cũ chưa thanh toán của user được trả lại.
+   * Thiếu hàng dòng nào → trả lại các dòng đã giữ và báo lỗi.
+   */
+  async reserve(
+    userId: string,
+    lines: ReservationLine[],
+    hold: { quoteId: string; expiresAt: Date },
+  ): Promise<StockReservation[]> {
+    const previous = await this.reservationRepository.find({
+      where: {
+        userId,
+        status: StockReservationStatus.ACTIVE,
+        paymentId: IsNull(),
+      },
+    });
+    await this.settleAll(previous, StockReservationStatus.RELEASED);
+
+    const expiresAt = new Date(
+      new Date(hold.expiresAt).getTime() + this.HOLD_GRACE_MS,
+    );
+    const reference: StockMovementContext = {
+      referenceType: StockMovementReferenceType.CART,
+      referenceId: hold.quoteId,
+      actorId: userId,
+    };
+    const reserved: StockReservation[] = [];
+    try {
+      for (const line of lines) {
+        const result = await this.inventoryService.reserveStock(
+          line.productId,
+          line.quantity,
+          reference,
+        );
+        if (!result.success) {
+          throw new BadRequestException(
+            `Sản phẩm "${line.productName ?? line.productId}" không đủ hàng trong kho`,
+          );
+        }
+        try {
+          reserved.push(
+            await this.reservationRepository.save(
+              this.reservationRepository.create({
+                userId,
+                productId: line.productId,
+                quantity: line.quantity,
+                quoteId: hold.quoteId,
+                expiresAt,
+              }),
+            ),
+          );
+        } catch (error) {
+          // Chưa có bản ghi giữ hàng → worker không biết để trả, trả ngay tại đây
+          await this.inventoryService.releaseReservation(
+            line.productId,
+            line.quantity,
+            { ...reference, note: 'Reservation could not be saved' },
+          );
+          throw error;
+        }
+      }
+    } catch (error) {
+      await this.settleAll(reserved, StockReservationStatus.RELEASED);
+      throw error;
+    }
+
+    this.logger.log(
+      `🔒 Reserved ${lines.length} lines for quote ${hold.quoteId} until ${expiresAt.toISOString()}`,
+    );
+    return reserved;
+  }
+
+  /**
+   * Gắn payment BANKING và giữ hàng đến khi payment hết hạn
+   */
+  async extend(
+    criteria: ReservationCriteria,
+    changes: { paymentId?: number; expiresAt: Date },
+  ): Promise<void> {
+    await this.reservationRepository.update(
+      { ...criteria, status: StockReservationStatus.ACTIVE },
+      {
+        ...(changes.paymentId !== undefined && {
+          paymentId: changes.paymentId,
+        }),
+        expiresAt: new Date(
+          new Date(changes.expiresAt).getTime() + this.HOLD_GRACE_MS,
+        ),
+      },
+    );
+  }
+
+  /**
+   * Hàng đang giữ + hàng còn bán được có đủ cho dòng này không
+   */
+  async canFulfil(
+    criteria: ReservationCriteria,
+    productId: string,
+    quantity: number,
+  ): Promise<boolean> {
+    const reservations = await this.findActive(criteria);
+    const reserved = reservations
+      .filter((reservation) => reservation.productId === productId)
+      .reduce((sum, reservation) => sum + reservation.quantity, 0);
+    if (reserved >= quantity) {
+      return true;
+    }
+    const available = await this.inventoryService.getAvailableStock(productId);
+    return reserved + available >= quantity;
+  }
+
+  /**
+   * 📦 Trừ kho cho đơn hàng: dùng hàng đã giữ trước, phần thiếu (giữ hàng đã
+   * hết hạn, đơn không qua báo giá) trừ thẳng vào hàng còn bán được.
+   * @returns Lô đã xuất theo từng sản phẩm (FEFO) để ghi lên dòng đơn hàng
+   */
+  async fulfil(
+    criteria: ReservationCriteria,
+    lines: ReservationLine[],
+    orderId?: string,
+  ): Promise<Map<string, LotAllocation[]>> {
+    const orderReference: StockMovementContext = orderId
+      ? {
+          referenceType: StockMovementReferenceType.ORDER,
+          referenceId: orderId,
+        }
+      : {};
+    const allocations = new Map<string, LotAllocation[]>();
+    const record = (productId: string, lots: LotAllocation[]) =>
+      allocations.set(productId, [
+        ...(allocations.get(productId) ?? []),
+        ...lots,
+      ]);
+    const remaining = new Map<string, number>();
+    for (const line of lines) {
+      remaining.set(
+        line.productId,
+        (remaining.get(line.productId) ?? 0) + line.quantity,
+      );
+    }
+
+    for (const reservation of await this.findActive(criteria)) {
+      const needed = remaining.get(reservation.productId) ?? 0;
+      if (needed <= 0) {
+        // Dòng không còn trong đơn → trả lại hàng
+        await this.settle(reservation, StockReservationStatus.RELEASED);
+        continue;
+      }
+      if (
+        !(await this.markSettled(
+          reservation,
+          StockReservationStatus.CONSUMED,
+          orderId,
+        ))
+      ) {
+        continue; // Worker vừa trả hàng → trừ như hàng chưa giữ
+      }
+
+      const used = Math.min(needed, reservation.quantity);
+      const reference = orderId
+        ? orderReference
+        : this.holdReference(reservation);
+      record(
+        reservation.productId,
+        await this.inventoryService.confirmSale(
+          reservation.productId,
+          used,
+          reference,
+        ),
+      );
+      if (reservation.quantity > used) {
+        await this.inventoryService.releaseReservation(
+          reservation.productId,
+          reservation.quantity - used,
+          reference,
+        );
+      }
+      remaining.set(reservation.productId, needed - used);
+    }
+
+    for (const [productId, quantity] of remaining) {
+      if (quantity > 0) {
+        record(
+          productId,
+          await this.inventoryService.reduceStock(
+            productId,
+            quantity,
+            orderReference,
+          ),
+        );
+      }
+    }
+    return allocations;
+  }
+
+  /**
+   * Trả lại hàng đang giữ (checkout lỗi, hủy thanh toán)
+   */
+  async release(criteria: ReservationCriteria): Promise<number> {
+    return this.settleAll(
+      await this.findActive(criteria),
+      StockReservationStatus.RELEASED,
+    );
+  }
+
+  /**
+   * ⏰ Trả hàng các phiên checkout quá hạn. Quét theo index (status, expiresAt),
+   * không quét keyspace Redis.
+   */
+  @Cron(CronExpression.EVERY_MINUTE)
+  async releaseExpired(now: Date = new Date()): Promise<number> {
+    let released = 0;
+    let batch: StockReservation[];
+    let settled: number;
+    do {
+      batch = await this.reservationRepository.find({
+        where: {
+          status: StockReservationStatus.ACTIVE,
+          expiresAt: LessThan(now),
+        },
+        order: { expiresAt: 'ASC' },
+        take: this.EXPIRY_BATCH_SIZE,
+      });
+      settled = await this.settleAll(batch, StockReservationStatus.EXPIRED);
+      released += settled;
+    } while (batch.length === this.EXPIRY_BATCH_SIZE && settled > 0);
+
+    if (released > 0) {
+      this.logger.log(`⏰ Released ${released} expired stock reservations`);
+    }
+    return released;
+  }
+
+  private findActive(criteria: ReservationCriteria) {
+    return this.reservationRepository.find({
+      where: { ...criteria, status: StockReservationStatus.ACTIVE },
+    });
+  }
+
+  private async settleAll(
+    reservations: StockReservation[],
+    status: StockReservationStatus,
+  ): Promise<number> {
+    let settled = 0;
+    for (const reservation of reservations) {
+      if (await this.settle(reservation, status)) {
+        settled++;
+      }
+    }
+    return settled;
+  }
+
+  /**
+   * Trả hàng của một bản ghi giữ hàng, bỏ qua nếu đã được xử lý ở nơi khác.
+   * Trả hàng lỗi → đưa bản ghi về ACTIVE để worker xử lý lại ở lần quét sau
+   */
+  private async settle(
+    reservation: StockReservation,
+    status: StockReservationStatus,
+  ): Promise<boolean> {
+    if (!(await this.markSettled(reservation, status))) {
+      return false;
+    }
+    try {
+      await this.inventoryService.releaseReservation(
+        reservation.productId,
+        reservation.quantity,
+        {
+          ...this.holdReference(reservation),
+          note: `Reservation ${status.toLowerCase()}`,
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to release reservation ${reservation.reservationId}: ${(error as Error).message}`,
+      );
+      await this.reservationRepository.update(
+        { reservationId: reservation.reservationId, status },
+        { status: StockReservationStatus.ACTIVE, settledAt: null },
+      );
+      return false;
+    }
+    return true;
+  }
+
+  // Chứng từ của hàng đang giữ: phiên checkout (quote) của giỏ hàng
+  private holdReference(reservation: StockReservation): StockMovementContext {
+    return reservation.quoteId
+      ? {
+          referenceType: StockMovementReferenceType.CART,
+          referenceId: reservation.quoteId,
+        }
+      : {};
+  }
+
+  /**
+   * Chuyển ACTIVE → trạng thái mới; false nếu bản ghi đã rời ACTIVE
+   */
+  private async markSettled(
+    reservation: StockReservation,
+    status: StockReservationStatus,
+    orderId?: string,
+  ): Promise<boolean> {
+    const result = await this.reservationRepository.update(
+      {
+        reservationId: reservation.reservationId,
+        status: StockReservationStatus.ACTIVE,
+      },
+      { status, settledAt: new Date(), ...(orderId && { orderId }) },
+    );
+    return result.affected === 1;
+  }
+}
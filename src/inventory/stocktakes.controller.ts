@@ -0,0 +1,207 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  MaxFileSizeValidator,
+  Param,
+  ParseFilePipe,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { StocktakesService } from './stocktakes.service';
+import {
+  CreateStocktakeDto,
+  RejectStocktakeDto,
+  StocktakeScanDto,
+  SubmitStocktakeDto,
+} from './dto/stocktake.dto';
+import { StocktakeStatus } from './entities/stocktake.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User, UserRole } from '../users/entities/user.entity';
+import { ResponseHelper } from '../utils/responses';
+
+@ApiTags('Inventory')
+@Controller('inventory/stocktakes')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.STAFF, UserRole.ADMIN)
+@ApiBearerAuth()
+export class StocktakesController {
+  constructor(private readonly stocktakesService: StocktakesService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Start a stocktake',
+    description:
+      'Freezes current and reserved stock of the selected products (or every product in stock). A product can only be in one open stocktake.',
+  })
+  @ApiResponse({ status: 201, description: 'Stocktake started' })
+  async create(@Body() dto: CreateStocktakeDto, @GetUser() user: User) {
+    const stocktake = await this.stocktakesService.create(dto, user.userId);
+    return ResponseHelper.created('Stocktake started', stocktake);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List stocktakes' })
+  @ApiQuery({ name: 'status', required: false, enum: StocktakeStatus })
+  async findAll(@Query('status') status?: StocktakeStatus) {
+    const stocktakes = await this.stocktakesService.findAll(status);
+    return ResponseHelper.success('Stocktakes retrieved', stocktakes);
+  }
+
+  @Get(':stocktakeId')
+  @ApiOperation({
+    summary: 'Get a stocktake with its lines and variance summary',
+  })
+  async findOne(
+    @Param('stocktakeId', new ParseUUIDPipe()) stocktakeId: string,
+  ) {
+    const stocktake = await this.stocktakesService.findOne(stocktakeId);
+    return ResponseHelper.success('Stocktake retrieved', stocktake);
+  }
+
+  @Post(':stocktakeId/scans')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Record a scanned product',
+    description:
+      'Adds the scanned units to the counted quantity and records the system stock at the time of the scan',
+  })
+  async recordScan(
+    @Param('stocktakeId', new ParseUUIDPipe()) stocktakeId: string,
+    @Body() dto: StocktakeScanDto,
+    @GetUser() user: User,
+  ) {
+    const line = await this.stocktakesService.recordScan(
+      stocktakeId,
+      dto,
+      user.userId,
+    );
+    return ResponseHelper.success('Scan recorded', line);
+  }
+
+  @Post(':stocktakeId/import')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Import counted quantities from CSV',
+    description:
+      'CSV with a header row containing productId and countedQuantity. Rows of the same product are added up; imported products replace earlier counts. A file with any invalid row is rejected as a whole.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'CSV (Max 5MB)',
+        },
+      },
+    },
+  })
+  @UseInterceptors(FileInterceptor('file'))
+  async importCsv(
+    @Param('stocktakeId', new ParseUUIDPipe()) stocktakeId: string,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [new MaxFileSizeValidator({ maxSize: 5 * 1024 * 1024 })], // 5MB
+      }),
+    )
+    file: Express.Multer.File,
+    @GetUser() user: User,
+  ) {
+    const result = await this.stocktakesService.importCsv(
+      stocktakeId,
+      file.buffer.toString('utf-8'),
+      user.userId,
+    );
+    return ResponseHelper.success('Counts imported', result);
+  }
+
+  @Post(':stocktakeId/submit')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Submit all variances for approval',
+    description:
+      'Variance = counted quantity + stock reserved at the time of the count - system stock at the time of the count. Reserved units are set aside for customers, so they are not on the shelf being counted.',
+  })
+  async submit(
+    @Param('stocktakeId', new ParseUUIDPipe()) stocktakeId: string,
+    @Body() dto: SubmitStocktakeDto,
+    @GetUser() user: User,
+  ) {
+    const stocktake = await this.stocktakesService.submit(
+      stocktakeId,
+      dto,
+      user.userId,
+    );
+    return ResponseHelper.success(
+      'Stocktake submitted for approval',
+      stocktake,
+    );
+  }
+
+  @Post(':stocktakeId/approve')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Approve a submitted stocktake (Admin only)',
+    description:
+      'Posts one stock adjustment per variance with the stocktake code as reason. Rejected when a shortage would leave less stock than is reserved at approval time.',
+  })
+  async approve(
+    @Param('stocktakeId', new ParseUUIDPipe()) stocktakeId: string,
+    @GetUser() user: User,
+  ) {
+    const stocktake = await this.stocktakesService.approve(
+      stocktakeId,
+      user.userId,
+    );
+    return ResponseHelper.success('Stocktake approved', stocktake);
+  }
+
+  @Post(':stocktakeId/reject')
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Reject a submitted stocktake (Admin only)' })
+  async reject(
+    @Param('stocktakeId', new ParseUUIDPipe()) stocktakeId: string,
+    @Body() dto: RejectStocktakeDto,
+    @GetUser() user: User,
+  ) {
+    const stocktake = await this.stocktakesService.reject(
+      stocktakeId,
+      user.userId,
+      dto.reason,
+    );
+    return ResponseHelper.success('Stocktake rejected', stocktake);
+  }
+
+  @Post(':stocktakeId/cancel')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Cancel a stocktake that is still counting' })
+  async cancel(@Param('stocktakeId', new ParseUUIDPipe()) stocktakeId: string) {
+    const stocktake = await this.stocktakesService.cancel(stocktakeId);
+    return ResponseHelper.success('Stocktake cancelled', stocktake);
+  }
+}
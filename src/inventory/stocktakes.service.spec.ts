@@ -0,0 +1,463 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { StocktakesService } from './stocktakes.service';
+import { InventoryService } from './inventory.service';
+import { Stocktake, StocktakeStatus } from './entities/stocktake.entity';
+import { StocktakeLine } from './entities/stocktake-line.entity';
+import { Inventory } from './entities/inventory.entity';
+import { StockMovementReferenceType } from './entities/stock-movement.entity';
+
+describe('StocktakesService', () => {
+  let service: StocktakesService;
+
+  const staffId = 'staff-1';
+  const adminId = 'admin-1';
+  const stocktakeId = 'stocktake-1';
+
+  const buildLine = (overrides: Partial<StocktakeLine> = {}) =>
+    ({
+      productId: 'product-1',
+      frozenStock: 20,
+      frozenReservedStock: 2,
+      countedQuantity: null,
+      expectedQuantity: null,
+      reservedAtCount: null,
+      variance: null,
+      countedBy: null,
+      countedAt: null,
+      ...overrides,
+    }) as StocktakeLine;
+
+  const buildStocktake = (
+    lines: StocktakeLine[],
+    status = StocktakeStatus.COUNTING,
+  ) =>
+    ({
+      stocktakeId,
+      code: 'ST20261019123456',
+      status,
+      lines,
+    }) as Stocktake;
+
+  const mockStocktakeRepository = {
+    create: jest.fn((data: object) => data),
+    save: jest.fn((data: object) => Promise.resolve(data)),
+    find: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockLineRepository = {
+    create: jest.fn((data: object) => data),
+    save: jest.fn((data: object) => Promise.resolve(data)),
+    find: jest.fn(),
+    findOneOrFail: jest.fn(),
+  };
+
+  const mockInventoryRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockInventoryService = {
+    adjustStock: jest.fn(),
+  };
+
+  const mockEntityManager = {
+    getRepository: jest.fn((entity: unknown) => {
+      if (entity === Stocktake) return mockStocktakeRepository;
+      if (entity === StocktakeLine) return mockLineRepository;
+      return mockInventoryRepository;
+    }),
+    transaction: jest.fn(
+      (work: (manager: unknown) => Promise<unknown>): Promise<unknown> =>
+        work(mockEntityManager),
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StocktakesService,
+        {
+          provide: getRepositoryToken(Stocktake),
+          useValue: mockStocktakeRepository,
+        },
+        {
+          provide: getRepositoryToken(StocktakeLine),
+          useValue: mockLineRepository,
+        },
+        {
+          provide: getRepositoryToken(Inventory),
+          useValue: mockInventoryRepository,
+        },
+        { provide: InventoryService, useValue: mockInventoryService },
+        { provide: EntityManager, useValue: mockEntityManager },
+      ],
+    }).compile();
+
+    service = module.get<StocktakesService>(StocktakesService);
+    mockLineRepository.find.mockResolvedValue([]);
+    mockStocktakeRepository.update.mockResolvedValue({ affected: 1 });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    // TC-STK-001-01: Normal - Snapshot of on-hand and reserved stock
+    it('TC-STK-001-01: should freeze current and reserved stock of each product', async () => {
+      mockInventoryRepository.find.mockResolvedValue([
+        { productId: 'product-1', currentStock: 20, reservedStock: 2 },
+        { productId: 'product-2', currentStock: 5, reservedStock: 0 },
+      ]);
+
+      const stocktake = await service.create(
+        { productIds: ['product-1', 'product-2'], note: 'Kiểm kê tháng 10' },
+        staffId,
+      );
+
+      expect(stocktake).toMatchObject({
+        status: StocktakeStatus.COUNTING,
+        createdBy: staffId,
+        note: 'Kiểm kê tháng 10',
+        lines: [
+          { productId: 'product-1', frozenStock: 20, frozenReservedStock: 2 },
+          { productId: 'product-2', frozenStock: 5, frozenReservedStock: 0 },
+        ],
+      });
+      expect(stocktake.code).toMatch(/^ST\d{8}\d{6}$/);
+      expect(stocktake.frozenAt).toBeInstanceOf(Date);
+    });
+
+    // TC-STK-001-02: Abnormal - Product already counted in an open stocktake
+    it('TC-STK-001-02: should reject products that are part of another open stocktake', async () => {
+      mockInventoryRepository.find.mockResolvedValue([
+        { productId: 'product-1', currentStock: 20, reservedStock: 2 },
+      ]);
+      mockLineRepository.find.mockResolvedValue([
+        { productId: 'product-1', stocktake: { code: 'ST20261018000001' } },
+      ]);
+
+      await expect(
+        service.create({ productIds: ['product-1'] }, staffId),
+      ).rejects.toThrow(
+        '1 products are already being counted in stocktake ST20261018000001',
+      );
+      expect(mockStocktakeRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('counting', () => {
+    // TC-STK-002-01: Normal - Scan adds to the count, expected stock taken at scan time
+    it('TC-STK-002-01: should add scanned units and record system stock at the time of the scan', async () => {
+      mockStocktakeRepository.findOne.mockResolvedValue(
+        buildStocktake([buildLine({ countedQuantity: 1 })]),
+      );
+      // Số đếm đọc lại sau khi khóa dòng (máy quét khác vừa cộng thêm)
+      mockLineRepository.findOneOrFail.mockResolvedValue(
+        buildLine({ countedQuantity: 4 }),
+      );
+      // Bán 3 và có thêm 1 đơn giữ hàng trong lúc đếm
+      mockInventoryRepository.findOne.mockResolvedValue({
+        productId: 'product-1',
+        currentStock: 17,
+        reservedStock: 3,
+      });
+
+      const line = await service.recordScan(
+        stocktakeId,
+        { productId: 'product-1' },
+        staffId,
+      );
+
+      expect(mockLineRepository.findOneOrFail).toHaveBeenCalledWith({
+        where: { stocktakeId, productId: 'product-1' },
+        lock: { mode: 'pessimistic_write' },
+      });
+      expect(line).toMatchObject({
+        countedQuantity: 5,
+        expectedQuantity: 17,
+        reservedAtCount: 3,
+        countedBy: staffId,
+      });
+    });
+
+    // TC-STK-002-02: Normal - CSV rows of the same product are added up
+    it('TC-STK-002-02: should import CSV counts and add up rows of the same product', async () => {
+      mockStocktakeRepository.findOne.mockResolvedValue(
+        buildStocktake([
+          buildLine({ countedQuantity: 99 }),
+          buildLine({ productId: 'product-2', frozenStock: 5 }),
+        ]),
+      );
+      mockInventoryRepository.find.mockResolvedValue([
+        { productId: 'product-1', currentStock: 20, reservedStock: 2 },
+        { productId: 'product-2', currentStock: 5, reservedStock: 0 },
+      ]);
+      const csv = [
+        '\uFEFFproductId,countedQuantity',
+        'product-1,12',
+        '"product-2",5',
+        '',
+        'product-1,7',
+      ].join('\r\n');
+
+      const result = await service.importCsv(stocktakeId, csv, staffId);
+
+      expect(result).toEqual({ rows: 3, products: 2 });
+      expect(mockLineRepository.save).toHaveBeenCalledWith([
+        expect.objectContaining({
+          productId: 'product-1',
+          countedQuantity: 19,
+          expectedQuantity: 20,
+        }),
+        expect.objectContaining({
+          productId: 'product-2',
+          countedQuantity: 5,
+          expectedQuantity: 5,
+        }),
+      ]);
+    });
+
+    // TC-STK-002-03: Abnormal - Any invalid row rejects the whole file
+    it('TC-STK-002-03: should reject the whole CSV when a row is invalid', async () => {
+      mockStocktakeRepository.findOne.mockResolvedValue(
+        buildStocktake([buildLine()]),
+      );
+      const csv = 'productId,quantity\nproduct-1,12\nproduct-9,3\nproduct-1,-2';
+
+      await expect(
+        service.importCsv(stocktakeId, csv, staffId),
+      ).rejects.toThrow(
+        'CSV has 2 invalid rows: Row 3: product product-9 is not part of this stocktake; Row 4: counted quantity must be a whole number ≥ 0, got "-2"',
+      );
+      expect(mockLineRepository.save).not.toHaveBeenCalled();
+    });
+
+    // TC-STK-002-04: Abnormal - Stocktake no longer counting
+    it('TC-STK-002-04: should not accept counts after the stocktake was submitted', async () => {
+      mockStocktakeRepository.findOne.mockResolvedValue(
+        buildStocktake([buildLine()], StocktakeStatus.SUBMITTED),
+      );
+
+      await expect(
+        service.recordScan(stocktakeId, { productId: 'product-1' }, staffId),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('submit', () => {
+    // TC-STK-003-01: Abnormal - Uncounted products block the submit
+    it('TC-STK-003-01: should refuse to submit while products are uncounted', async () => {
+      mockStocktakeRepository.findOne.mockResolvedValue(
+        buildStocktake([
+          buildLine({ countedQuantity: 18, expectedQuantity: 20 }),
+          buildLine({ productId: 'product-2' }),
+        ]),
+      );
+
+      await expect(service.submit(stocktakeId, {}, staffId)).rejects.toThrow(
+        '1 products have not been counted yet',
+      );
+      expect(mockStocktakeRepository.save).not.toHaveBeenCalled();
+    });
+
+    // TC-STK-003-02: Normal - Variances computed, uncounted products treated as missing
+    it('TC-STK-003-02: should compute variances and submit them as one batch', async () => {
+      mockStocktakeRepository.findOne.mockResolvedValue(
+        buildStocktake([
+          buildLine({ countedQuantity: 18, expectedQuantity: 20 }),
+          buildLine({
+            productId: 'product-2',
+            countedQuantity: 6,
+            expectedQuantity: 5,
+          }),
+          buildLine({ productId: 'product-3' }),
+        ]),
+      );
+      mockInventoryRepository.find.mockResolvedValue([
+        { productId: 'product-3', currentStock: 4, reservedStock: 0 },
+      ]);
+
+      const result = await service.submit(
+        stocktakeId,
+        { uncountedAsZero: true },
+        staffId,
+      );
+
+      expect(result.status).toBe(StocktakeStatus.SUBMITTED);
+      expect(result.submittedBy).toBe(staffId);
+      expect(result.lines.map((line) => line.variance)).toEqual([-2, 1, -4]);
+      expect(result.summary).toEqual({
+        totalProducts: 3,
+        countedProducts: 3,
+        productsWithVariance: 3,
+        surplusUnits: 1,
+        shortageUnits: 6,
+      });
+    });
+
+    // TC-STK-003-03: Normal - Stock reserved during the count is set aside, not missing
+    it('TC-STK-003-03: should add stock reserved at the time of the count to the counted quantity', async () => {
+      // Chốt giữ 2, lúc đếm đã giữ 5: 5 sản phẩm đã tách khỏi kệ cho khách
+      mockStocktakeRepository.findOne.mockResolvedValue(
+        buildStocktake([
+          buildLine({
+            countedQuantity: 14,
+            expectedQuantity: 20,
+            reservedAtCount: 5,
+          }),
+          buildLine({
+            productId: 'product-2',
+            countedQuantity: 15,
+            expectedQuantity: 20,
+            reservedAtCount: 5,
+          }),
+        ]),
+      );
+
+      const result = await service.submit(stocktakeId, {}, staffId);
+
+      expect(result.lines.map((line) => line.variance)).toEqual([-1, 0]);
+      expect(result.summary).toMatchObject({
+        productsWithVariance: 1,
+        shortageUnits: 1,
+      });
+    });
+  });
+
+  describe('approve', () => {
+    // TC-STK-004-01: Normal - One adjustment per variance with the stocktake as reason
+    it('TC-STK-004-01: should post each variance as an adjustment referencing the stocktake', async () => {
+      mockStocktakeRepository.findOne.mockResolvedValue(
+        buildStocktake(
+          [
+            buildLine({ variance: -2 }),
+            buildLine({ productId: 'product-2', variance: 0 }),
+            buildLine({ productId: 'product-3', variance: 3 }),
+          ],
+          StocktakeStatus.SUBMITTED,
+        ),
+      );
+      mockInventoryRepository.find.mockResolvedValue([
+        { productId: 'product-1', currentStock: 15 },
+        { productId: 'product-3', currentStock: 0 },
+      ]);
+
+      const result = await service.approve(stocktakeId, adminId);
+
+      expect(result.status).toBe(StocktakeStatus.APPROVED);
+      expect(result.reviewedBy).toBe(adminId);
+      expect(mockStocktakeRepository.update).toHaveBeenCalledWith(
+        { stocktakeId, status: StocktakeStatus.SUBMITTED },
+        {
+          status: StocktakeStatus.APPROVED,
+          reviewedBy: adminId,
+          reviewedAt: result.reviewedAt,
+        },
+      );
+      expect(mockInventoryService.adjustStock).toHaveBeenCalledTimes(2);
+      expect(mockInventoryService.adjustStock).toHaveBeenCalledWith(
+        'product-1',
+        -2,
+        adminId,
+        'Stocktake ST20261019123456',
+        {
+          referenceType: StockMovementReferenceType.STOCKTAKE,
+          referenceId: stocktakeId,
+        },
+        mockEntityManager,
+      );
+      expect(mockInventoryService.adjustStock).toHaveBeenCalledWith(
+        'product-3',
+        3,
+        adminId,
+        'Stocktake ST20261019123456',
+        expect.any(Object),
+        mockEntityManager,
+      );
+    });
+
+    // TC-STK-004-02: Abnormal - Stock sold below the counted shortage since the count
+    it('TC-STK-004-02: should not adjust anything when a shortage no longer fits current stock', async () => {
+      mockStocktakeRepository.findOne.mockResolvedValue(
+        buildStocktake(
+          [
+            buildLine({ variance: 2 }),
+            buildLine({ productId: 'product-2', variance: -5 }),
+          ],
+          StocktakeStatus.SUBMITTED,
+        ),
+      );
+      mockInventoryRepository.find.mockResolvedValue([
+        { productId: 'product-1', currentStock: 10 },
+        { productId: 'product-2', currentStock: 3 },
+      ]);
+
+      await expect(service.approve(stocktakeId, adminId)).rejects.toThrow(
+        'Stock of products product-2 has dropped below the counted shortage',
+      );
+      expect(mockInventoryService.adjustStock).not.toHaveBeenCalled();
+      expect(mockEntityManager.transaction).toHaveBeenCalledTimes(1);
+    });
+
+    // TC-STK-004-05: Abnormal - Stock reserved between the count and the approval
+    it('TC-STK-004-05: should not let a shortage eat into stock reserved since the count', async () => {
+      mockStocktakeRepository.findOne.mockResolvedValue(
+        buildStocktake(
+          [
+            buildLine({ variance: -2, reservedAtCount: 2 }),
+            buildLine({
+              productId: 'product-2',
+              variance: -2,
+              reservedAtCount: 2,
+            }),
+          ],
+          StocktakeStatus.SUBMITTED,
+        ),
+      );
+      // product-1 giữ thêm 2 sau lúc đếm: 10 - 2 = 8 < 9 đang giữ
+      mockInventoryRepository.find.mockResolvedValue([
+        { productId: 'product-1', currentStock: 10, reservedStock: 9 },
+        { productId: 'product-2', currentStock: 10, reservedStock: 8 },
+      ]);
+
+      await expect(service.approve(stocktakeId, adminId)).rejects.toThrow(
+        'Stock of products product-1 has dropped below the counted shortage',
+      );
+      expect(mockInventoryService.adjustStock).not.toHaveBeenCalled();
+    });
+
+    // TC-STK-004-03: Abnormal - Stocktake still counting
+    it('TC-STK-004-03: should only approve submitted stocktakes', async () => {
+      mockStocktakeRepository.findOne.mockResolvedValue(
+        buildStocktake([buildLine()]),
+      );
+
+      await expect(service.approve(stocktakeId, adminId)).rejects.toThrow(
+        'Stocktake ST20261019123456 is COUNTING, expected SUBMITTED',
+      );
+    });
+
+    // TC-STK-004-04: Abnormal - Two admins approve the same stocktake at once
+    it('TC-STK-004-04: should apply the variances only once when another approval won', async () => {
+      mockStocktakeRepository.findOne.mockResolvedValue(
+        buildStocktake([buildLine({ variance: 3 })], StocktakeStatus.SUBMITTED),
+      );
+      mockStocktakeRepository.update.mockResolvedValueOnce({ affected: 0 });
+
+      await expect(service.approve(stocktakeId, adminId)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockInventoryService.adjustStock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,509 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, MoreThan, Repository } from 'typeorm';
+import { Stocktake, StocktakeStatus } from './entities/stocktake.entity';
+import { StocktakeLine } from './entities/stocktake-line.entity';
+import { Inventory } from './entities/inventory.entity';
+import { StockMovementReferenceType } from './entities/stock-movement.entity';
+import {
+  CreateStocktakeDto,
+  StocktakeScanDto,
+  SubmitStocktakeDto,
+} from './dto/stocktake.dto';
+import { InventoryService } from './inventory.service';
+
+export interface StocktakeSummary {
+  totalProducts: number;
+  countedProducts: number;
+  productsWithVariance: number;
+  surplusUnits: number;
+  shortageUnits: number;
+}
+
+export interface StocktakeImportResult {
+  rows: number;
+  products: number;
+}
+
+const OPEN_STATUSES = [StocktakeStatus.COUNTING, StocktakeStatus.SUBMITTED];
+
+/**
+ * Kiểm kê kho:
+ * COUNTING → SUBMITTED → APPROVED / REJECTED (hoặc CANCELLED khi đang đếm)
+ * - Bắt đầu phiên: chốt tồn của các sản phẩm, mỗi sản phẩm chỉ thuộc một phiên đang mở
+ * - Nhập số đếm qua file CSV hoặc quét từng sản phẩm
+ * - Chênh lệch = số đếm + hàng đang giữ lúc đếm - tồn trên hệ thống tại lúc đếm
+ *   (đã gồm bán / nhập / giữ hàng trong lúc đếm)
+ * - Admin duyệt cả lô: mỗi chênh lệch thành một điều chỉnh tồn với lý do là mã phiên
+ */
+@Injectable()
+export class StocktakesService {
+  private readonly logger = new Logger(StocktakesService.name);
+
+  constructor(
+    @InjectRepository(Stocktake)
+    private readonly stocktakeRepository: Repository<Stocktake>,
+    @InjectRepository(StocktakeLine)
+    private readonly lineRepository: Repository<StocktakeLine>,
+    @InjectRepository(Inventory)
+    private readonly inventoryRepository: Repository<Inventory>,
+    private readonly inventoryService: InventoryService,
+    private readonly entityManager: EntityManager,
+  ) {}
+
+  /**
+   * 🧊 Bắt đầu kiểm kê: chốt tồn hiện tại của các sản phẩm cần đếm
+   */
+  async create(dto: CreateStocktakeDto, userId: string): Promise<Stocktake> {
+    const inventories = dto.productIds
+      ? await this.inventoryRepository.find({
+          where: { productId: In(dto.productIds) },
+        })
+      : await this.inventoryRepository.find({
+          where: [
+            { currentStock: MoreThan(0) },
+            { reservedStock: MoreThan(0) },
+          ],
+        });
+
+    if (dto.productIds) {
+      const found = new Set(inventories.map((item) => item.productId));
+      const missing = dto.productIds.filter((id) => !found.has(id));
+      if (missing.length > 0) {
+        throw new BadRequestException(
+          `No inventory found for products: ${missing.join(', ')}`,
+        );
+      }
+    }
+    if (inventories.length === 0) {
+      throw new BadRequestException('There is no stock to count');
+    }
+
+    const productIds = inventories.map((item) => item.productId);
+    const busy = await this.lineRepository.find({
+      where: {
+        productId: In(productIds),
+        stocktake: { status: In(OPEN_STATUSES) },
+      },
+      relations: { stocktake: true },
+    });
+    if (busy.length > 0) {
+      const codes = [...new Set(busy.map((line) => line.stocktake.code))];
+      throw new BadRequestException(
+        `${busy.length} products are already being counted in stocktake ${codes.join(', ')}`,
+      );
+    }
+
+    const stocktake = this.stocktakeRepository.create({
+      code: this.generateCode(),
+      note: dto.note ?? null,
+      frozenAt: new Date(),
+      createdBy: userId,
+      status: StocktakeStatus.COUNTING,
+      lines: inventories.map((inventory) =>
+        this.lineRepository.create({
+          productId: inventory.productId,
+          frozenStock: inventory.currentStock,
+          frozenReservedStock: inventory.reservedStock,
+        }),
+      ),
+    });
+    const saved = await this.stocktakeRepository.save(stocktake);
+
+    this.logger.log(
+      `🧊 Stocktake ${saved.code} started for ${inventories.length} products`,
+    );
+    return saved;
+  }
+
+  async findAll(status?: StocktakeStatus): Promise<Stocktake[]> {
+    return this.stocktakeRepository.find({
+      where: status ? { status } : {},
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async findOne(
+    stocktakeId: string,
+  ): Promise<Stocktake & { summary: StocktakeSummary }> {
+    const stocktake = await this.getWithLines(stocktakeId, true);
+    return { ...stocktake, summary: this.summarize(stocktake.lines) };
+  }
+
+  /**
+   * 📷 Quét từng sản phẩm: mỗi lần quét cộng thêm vào số đếm
+   */
+  async recordScan(
+    stocktakeId: string,
+    dto: StocktakeScanDto,
+    userId: string,
+  ): Promise<StocktakeLine> {
+    const stocktake = await this.getCounting(stocktakeId);
+    if (!stocktake.lines.some((item) => item.productId === dto.productId)) {
+      throw new BadRequestException(
+        `Product ${dto.productId} is not part of stocktake ${stocktake.code}`,
+      );
+    }
+
+    // 🔒 Khóa dòng kiểm kê rồi mới cộng: hai máy quét cùng lúc không ghi đè số đếm của nhau
+    return this.entityManager.transaction(async (manager) => {
+      const lineRepository = manager.getRepository(StocktakeLine);
+      const line = await lineRepository.findOneOrFail({
+        where: { stocktakeId, productId: dto.productId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      const counted = (line.countedQuantity ?? 0) + (dto.quantity ?? 1);
+      if (counted < 0) {
+        throw new BadRequestException('Counted quantity cannot be negative');
+      }
+
+      const inventory = await manager.getRepository(Inventory).findOne({
+        where: { productId: dto.productId },
+      });
+      this.applyCount(line, counted, inventory, userId);
+      return lineRepository.save(line);
+    });
+  }
+
+  /**
+   * 📄 Nhập số đếm từ file CSV (cột productId, countedQuantity).
+   * Một sản phẩm nằm ở nhiều kệ có thể xuất hiện nhiều dòng, số đếm được cộng dồn.
+   * File có dòng lỗi thì không nhập dòng nào.
+   */
+  async importCsv(
+    stocktakeId: string,
+    content: string,
+    userId: string,
+  ): Promise<StocktakeImportResult> {
+    const stocktake = await this.getCounting(stocktakeId);
+    const rows = this.parseCsv(content);
+    const lines = new Map(
+      stocktake.lines.map((line) => [line.productId, line]),
+    );
+
+    const counts = new Map<string, number>();
+    const errors: string[] = [];
+    for (const { row, productId, quantity } of rows) {
+      if (!lines.has(productId)) {
+        errors.push(
+          `Row ${row}: product ${productId} is not part of this stocktake`,
+        );
+      } else if (!/^\d+$/.test(quantity)) {
+        errors.push(
+          `Row ${row}: counted quantity must be a whole number ≥ 0, got "${quantity}"`,
+        );
+      } else {
+        counts.set(productId, (counts.get(productId) ?? 0) + Number(quantity));
+      }
+    }
+    if (errors.length > 0) {
+      throw new BadRequestException(
+        `CSV has ${errors.length} invalid rows: ${errors.slice(0, 10).join('; ')}`,
+      );
+    }
+    if (counts.size === 0) {
+      throw new BadRequestException('CSV has no counted rows');
+    }
+
+    const inventories = await this.inventoryRepository.find({
+      where: { productId: In([...counts.keys()]) },
+    });
+    const byProduct = new Map(
+      inventories.map((inventory) => [inventory.productId, inventory]),
+    );
+
+    const updated = [...counts].map(([productId, counted]) => {
+      const line = lines.get(productId)!;
+      this.applyCount(line, counted, byProduct.get(productId) ?? null, userId);
+      return line;
+    });
+    await this.lineRepository.save(updated);
+
+    this.logger.log(
+      `📄 Imported ${rows.length} rows into stocktake ${stocktake.code}`,
+    );
+    return { rows: rows.length, products: counts.size };
+  }
+
+  /**
+   * 📤 Gửi toàn bộ chênh lệch thành một lô chờ admin duyệt
+   */
+  async submit(
+    stocktakeId: string,
+    dto: SubmitStocktakeDto,
+    userId: string,
+  ): Promise<Stocktake & { summary: StocktakeSummary }> {
+    const stocktake = await this.getCounting(stocktakeId);
+
+    const uncounted = stocktake.lines.filter(
+      (line) => line.countedQuantity === null,
+    );
+    if (uncounted.length > 0) {
+      if (!dto.uncountedAsZero) {
+        throw new BadRequestException(
+          `${uncounted.length} products have not been counted yet. Count them or submit with uncountedAsZero.`,
+        );
+      }
+      const inventories = await this.inventoryRepository.find({
+        where: { productId: In(uncounted.map((line) => line.productId)) },
+      });
+      const byProduct = new Map(
+        inventories.map((inventory) => [inventory.productId, inventory]),
+      );
+      for (const line of uncounted) {
+        this.applyCount(line, 0, byProduct.get(line.productId) ?? null, userId);
+      }
+    }
+
+    for (const line of stocktake.lines) {
+      line.variance = this.computeVariance(line);
+    }
+    stocktake.status = StocktakeStatus.SUBMITTED;
+    stocktake.submittedBy = userId;
+    stocktake.submittedAt = new Date();
+    const saved = await this.stocktakeRepository.save(stocktake);
+
+    return { ...saved, summary: this.summarize(saved.lines) };
+  }
+
+  /**
+   * ✅ Duyệt lô chênh lệch: điều chỉnh tồn theo chênh lệch, không ghi đè bằng số đếm,
+   * để hàng bán / nhập / giữ sau lúc đếm vẫn được giữ nguyên
+   */
+  async approve(
+    stocktakeId: string,
+    adminUserId: string,
+  ): Promise<Stocktake & { summary: StocktakeSummary }> {
+    const stocktake = await this.getWithLines(stocktakeId);
+    this.assertStatus(stocktake, StocktakeStatus.SUBMITTED);
+
+    const variances = stocktake.lines.filter((line) => line.variance);
+    const reviewedAt = new Date();
+    const reason = `Stocktake ${stocktake.code}`;
+
+    // Đổi trạng thái có điều kiện và điều chỉnh tồn trong cùng transaction:
+    // 2 admin duyệt cùng lúc chỉ một người qua được, lỗi giữa chừng thì không điều chỉnh gì
+    await this.entityManager.transaction(async (manager) => {
+      const result = await manager.getRepository(Stocktake).update(
+        { stocktakeId, status: StocktakeStatus.SUBMITTED },
+        {
+          status: StocktakeStatus.APPROVED,
+          reviewedBy: adminUserId,
+          reviewedAt,
+        },
+      );
+      if (result.affected !== 1) {
+        throw new ConflictException(
+          `Stocktake ${stocktake.code} has already been reviewed`,
+        );
+      }
+
+      const inventories = variances.length
+        ? await manager.getRepository(Inventory).find({
+            where: { productId: In(variances.map((line) => line.productId)) },
+            lock: { mode: 'pessimistic_write' },
+          })
+        : [];
+      const byProduct = new Map(
+        inventories.map((inventory) => [inventory.productId, inventory]),
+      );
+      // Kiểm tra cả lô trước khi điều chỉnh để báo đủ các sản phẩm bị chặn.
+      // Hàng giữ thêm từ lúc đếm đến lúc duyệt vẫn phải còn đủ sau khi trừ hao hụt
+      const blocked = variances.filter((line) => {
+        const inventory = byProduct.get(line.productId);
+        return (
+          (inventory?.currentStock ?? 0) + line.variance! <
+          (inventory?.reservedStock ?? 0)
+        );
+      });
+      if (blocked.length > 0) {
+        throw new BadRequestException(
+          `Stock of products ${blocked.map((line) => line.productId).join(', ')} has dropped below the counted shortage since the count or would no longer cover its reservations. Reject and recount them.`,
+        );
+      }
+
+      for (const line of variances) {
+        await this.inventoryService.adjustStock(
+          line.productId,
+          line.variance!,
+          adminUserId,
+          reason,
+          {
+            referenceType: StockMovementReferenceType.STOCKTAKE,
+            referenceId: stocktake.stocktakeId,
+          },
+          manager,
+        );
+      }
+    });
+
+    stocktake.status = StocktakeStatus.APPROVED;
+    stocktake.reviewedBy = adminUserId;
+    stocktake.reviewedAt = reviewedAt;
+
+    this.logger.log(
+      `✅ Stocktake ${stocktake.code} approved: ${variances.length} products adjusted`,
+    );
+    return { ...stocktake, summary: this.summarize(stocktake.lines) };
+  }
+
+  async reject(
+    stocktakeId: string,
+    adminUserId: string,
+    reason: string,
+  ): Promise<Stocktake> {
+    const stocktake = await this.getWithLines(stocktakeId);
+    this.assertStatus(stocktake, StocktakeStatus.SUBMITTED);
+
+    stocktake.status = StocktakeStatus.REJECTED;
+    stocktake.reviewedBy = adminUserId;
+    stocktake.reviewedAt = new Date();
+    stocktake.rejectionReason = reason;
+    return this.stocktakeRepository.save(stocktake);
+  }
+
+  async cancel(stocktakeId: string): Promise<Stocktake> {
+    const stocktake = await this.getCounting(stocktakeId);
+    stocktake.status = StocktakeStatus.CANCELLED;
+    return this.stocktakeRepository.save(stocktake);
+  }
+
+  private async getWithLines(
+    stocktakeId: string,
+    withProducts = false,
+  ): Promise<Stocktake> {
+    const stocktake = await this.stocktakeRepository.findOne({
+      where: { stocktakeId },
+      relations: withProducts ? { lines: { product: true } } : { lines: true },
+    });
+    if (!stocktake) {
+      throw new NotFoundException(`Stocktake ${stocktakeId} not found`);
+    }
+    return stocktake;
+  }
+
+  private async getCounting(stocktakeId: string): Promise<Stocktake> {
+    const stocktake = await this.getWithLines(stocktakeId);
+    this.assertStatus(stocktake, StocktakeStatus.COUNTING);
+    return stocktake;
+  }
+
+  private assertStatus(stocktake: Stocktake, status: StocktakeStatus): void {
+    if (stocktake.status !== status) {
+      throw new BadRequestException(
+        `Stocktake ${stocktake.code} is ${stocktake.status}, expected ${status}`,
+      );
+    }
+  }
+
+  /**
+   * Ghi số đếm cùng tồn trên hệ thống tại lúc đếm
+   */
+  private applyCount(
+    line: StocktakeLine,
+    counted: number,
+    inventory: Inventory | null,
+    userId: string,
+  ): void {
+    line.countedQuantity = counted;
+    line.expectedQuantity = inventory?.currentStock ?? 0;
+    line.reservedAtCount = inventory?.reservedStock ?? 0;
+    line.countedBy = userId;
+    line.countedAt = new Date();
+  }
+
+  /**
+   * Hàng đang giữ cho khách đã tách khỏi kệ nên không có trong số đếm → cộng lại
+   * số giữ tại lúc đếm. Giữ / trả hàng trong lúc đếm vì thế không tạo chênh lệch giả
+   */
+  private computeVariance(line: StocktakeLine): number {
+    return (
+      (line.countedQuantity ?? 0) +
+      (line.reservedAtCount ?? 0) -
+      (line.expectedQuantity ?? 0)
+    );
+  }
+
+  private summarize(lines: StocktakeLine[]): StocktakeSummary {
+    const summary: StocktakeSummary = {
+      totalProducts: lines.length,
+      countedProducts: 0,
+      productsWithVariance: 0,
+      surplusUnits: 0,
+      shortageUnits: 0,
+    };
+    for (const line of lines) {
+      if (line.countedQuantity === null) {
+        continue;
+      }
+      summary.countedProducts++;
+      const variance = line.variance ?? this.computeVariance(line);
+      if (variance > 0) {
+        summary.surplusUnits += variance;
+      } else if (variance < 0) {
+        summary.shortageUnits -= variance;
+      }
+      if (variance !== 0) {
+        summary.productsWithVariance++;
+      }
+    }
+    return summary;
+  }
+
+  /**
+   * Đọc CSV có dòng tiêu đề chứa cột productId và countedQuantity (hoặc quantity)
+   */
+  private parseCsv(
+    content: string,
+  ): { row: number; productId: string; quantity: string }[] {
+    const records = content
+      .replace(/^\uFEFF/, '')
+      .split(/\r?\n/)
+      .map((text, index) => ({
+        row: index + 1,
+        cells: text.split(',').map((cell) =>
+          cell
+            .trim()
+            .replace(/^"(.*)"$/, '$1')
+            .trim(),
+        ),
+      }))
+      .filter(({ cells }) => cells.some((cell) => cell !== ''));
+
+    if (records.length === 0) {
+      throw new BadRequestException('CSV file is empty');
+    }
+
+    const header = records[0].cells.map((cell) => cell.toLowerCase());
+    const productColumn = header.indexOf('productid');
+    const quantityColumn = header.includes('countedquantity')
+      ? header.indexOf('countedquantity')
+      : header.indexOf('quantity');
+    if (productColumn < 0 || quantityColumn < 0) {
+      throw new BadRequestException(
+        'CSV header must contain productId and countedQuantity columns',
+      );
+    }
+
+    return records.slice(1).map(({ row, cells }) => ({
+      row,
+      productId: cells[productColumn] ?? '',
+      quantity: cells[quantityColumn] ?? '',
+    }));
+  }
+
+  private generateCode(): string {
+    // en-CA cho định dạng YYYY-MM-DD
+    const date = new Date()
+      .toLocaleDateString('en-CA', { timeZone: 'Asia/Ho_Chi_Minh' })
+      .replace(/-/g, '');
+    return `ST${date}${Date.now().toString().slice(-6)}`;
+  }
+}
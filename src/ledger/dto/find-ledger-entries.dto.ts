@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { LedgerAccountType } from '../entities/ledger-account.entity';
+
+export class FindLedgerEntriesDto {
+  @ApiProperty({ required: false, default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({ required: false, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+}
+
+export class FindLedgerAccountsDto extends FindLedgerEntriesDto {
+  @ApiProperty({
+    description: 'Filter by account type',
+    required: false,
+    enum: LedgerAccountType,
+  })
+  @IsOptional()
+  @IsEnum(LedgerAccountType)
+  accountType?: LedgerAccountType;
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean } from 'class-validator';
+
+export class WalletStatementEmailPreferenceDto {
+  @ApiProperty({
+    description: 'Receive the previous month wallet statement by email',
+    example: true,
+  })
+  @IsBoolean()
+  enabled: boolean;
+}
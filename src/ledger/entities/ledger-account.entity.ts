@@ -0,0 +1,84 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+export enum LedgerAccountType {
+  CUSTOMER_WALLET = 'customer_wallet', // Ví khách hàng
+  DERMATOLOGIST_EARNINGS = 'dermatologist_earnings', // Thu nhập bác sĩ
+  PLATFORM_BANK = 'platform_bank', // Tiền thực tế trong tài khoản ngân hàng của hệ thống
+  PLATFORM_FEES = 'platform_fees', // Phí nền tảng (hoa hồng)
+  PLATFORM_SALES = 'platform_sales', // Doanh thu bán sản phẩm
+  BOOKING_ESCROW = 'booking_escrow', // Tiền booking đang giữ chờ settlement
+  PENDING_REFUNDS = 'pending_refunds', // Tiền hoàn chờ chuyển khoản ra ngân hàng
+  UNMATCHED_TRANSFERS = 'unmatched_transfers', // Tiền chuyển khoản chưa xác định được payment
+  PARTIAL_PAYMENTS = 'partial_payments', // Tiền chuyển khoản chưa đủ, chờ khách chuyển nốt
+  COD_RECEIVABLE = 'cod_receivable', // Tiền COD shipper/GHN đã thu, chưa nộp về hệ thống
+}
+
+/**
+ * Asset accounts increase on DEBIT, every other account increases on CREDIT.
+ */
+export const DEBIT_NORMAL_ACCOUNTS: LedgerAccountType[] = [
+  LedgerAccountType.PLATFORM_BANK,
+  LedgerAccountType.COD_RECEIVABLE,
+];
+
+/**
+ * Accounts owned by a user. Their balance is mirrored to `User.balance`
+ * and may never go negative.
+ */
+export const USER_ACCOUNT_TYPES: LedgerAccountType[] = [
+  LedgerAccountType.CUSTOMER_WALLET,
+  LedgerAccountType.DERMATOLOGIST_EARNINGS,
+];
+
+@Entity('ledger_accounts')
+@Index(['accountKey'], { unique: true })
+export class LedgerAccount {
+  @PrimaryGeneratedColumn('uuid')
+  accountId: string;
+
+  // MySQL unique index coi các NULL là khác nhau nên (accountType, ownerUserId)
+  // không chặn được hai tài khoản hệ thống trùng loại → khóa sinh từ cả hai cột
+  @Column({
+    type: 'varchar',
+    length: 80,
+    generatedType: 'STORED',
+    asExpression: "CONCAT(accountType, ':', COALESCE(ownerUserId, 'system'))",
+    insert: false,
+    update: false,
+  })
+  accountKey: string;
+
+  @Column({ type: 'enum', enum: LedgerAccountType })
+  accountType: LedgerAccountType;
+
+  // NULL cho tài khoản hệ thống (PLATFORM_*, BOOKING_ESCROW, PENDING_REFUNDS)
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  ownerUserId: string | null;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'ownerUserId' })
+  owner: User;
+
+  // Checkpoint balance, always equal to the sum of this account's entries
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  balance: number;
+
+  @Column({ type: 'varchar', length: 3, default: 'VND' })
+  currency: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,51 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { LedgerAccount } from './ledger-account.entity';
+import { LedgerTransaction } from './ledger-transaction.entity';
+
+export enum LedgerEntryDirection {
+  DEBIT = 'debit',
+  CREDIT = 'credit',
+}
+
+@Entity('ledger_entries')
+@Index(['accountId', 'createdAt'])
+export class LedgerEntry {
+  @PrimaryGeneratedColumn('uuid')
+  entryId: string;
+
+  @Column({ type: 'varchar', length: 36 })
+  transactionId: string;
+
+  @ManyToOne(() => LedgerTransaction, (transaction) => transaction.entries, {
+    onDelete: 'RESTRICT',
+  })
+  @JoinColumn({ name: 'transactionId' })
+  transaction: LedgerTransaction;
+
+  @Column({ type: 'varchar', length: 36 })
+  accountId: string;
+
+  @ManyToOne(() => LedgerAccount, { onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'accountId' })
+  account: LedgerAccount;
+
+  @Column({ type: 'enum', enum: LedgerEntryDirection })
+  direction: LedgerEntryDirection;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2 })
+  amount: number; // Luôn dương, chiều tăng/giảm do direction quyết định
+
+  @Column({ type: 'decimal', precision: 15, scale: 2 })
+  balanceAfter: number; // Số dư tài khoản ngay sau bút toán này
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,82 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  OneToMany,
+  Index,
+} from 'typeorm';
+import { LedgerEntry } from './ledger-entry.entity';
+
+export enum LedgerTransactionType {
+  OPENING_BALANCE = 'opening_balance', // Số dư ban đầu chuyển từ users.balance
+  TOPUP = 'topup', // Nạp tiền vào ví
+  MANUAL_TOPUP = 'manual_topup', // Nạp tiền thủ công (không qua ngân hàng)
+  TOPUP_REVERSAL = 'topup_reversal', // Hoàn lại giao dịch nạp tiền
+  BOOKING_PAYMENT = 'booking_payment', // Thanh toán booking
+  BOOKING_REFUND = 'booking_refund', // Hoàn tiền booking về ví
+  BOOKING_PAYOUT = 'booking_payout', // Chi trả bác sĩ sau khi settlement
+  SUBSCRIPTION_PAYMENT = 'subscription_payment', // Mua gói subscription
+  ORDER_PAYMENT = 'order_payment', // Thanh toán đơn hàng
+  ORDER_PAYMENT_REVERSAL = 'order_payment_reversal', // Hoàn lại thanh toán khi tạo đơn thất bại
+  ORDER_REFUND = 'order_refund', // Hoàn tiền đơn hàng
+  SUBSCRIPTION_REFUND = 'subscription_refund', // Hoàn tiền gói subscription
+  UNDERPAYMENT_REFUND = 'underpayment_refund', // Chuyển khoản thiếu -> hoàn về ví
+  PARTIAL_PAYMENT = 'partial_payment', // Chuyển khoản chưa đủ -> tạm giữ chờ chuyển tiếp
+  PARTIAL_PAYMENT_RELEASE = 'partial_payment_release', // Đủ tiền -> giải phóng tiền tạm giữ
+  PARTIAL_PAYMENT_REFUND = 'partial_payment_refund', // Hết hạn khi chưa đủ -> hoàn tiền tạm giữ
+  OVERPAYMENT_CREDIT = 'overpayment_credit', // Chuyển khoản thừa -> cộng vào ví
+  RETURN_REFUND = 'return_refund', // Hoàn tiền trả hàng
+  REFUND_PAYOUT = 'refund_payout', // Đã chuyển khoản hoàn tiền ra ngân hàng
+  WITHDRAWAL = 'withdrawal', // Rút tiền ra ngân hàng
+  UNMATCHED_TRANSFER = 'unmatched_transfer', // Chuyển khoản không khớp payment -> tạm giữ
+  UNMATCHED_TRANSFER_RESOLUTION = 'unmatched_transfer_resolution', // Staff xử lý chuyển khoản tạm giữ
+  COD_COLLECTION = 'cod_collection', // Shipper/GHN thu tiền COD của khách
+  COD_SETTLEMENT = 'cod_settlement', // Shipper nộp / GHN chuyển tiền COD về hệ thống
+}
+
+export enum LedgerReferenceType {
+  PAYMENT = 'payment',
+  APPOINTMENT = 'appointment',
+  ORDER = 'order',
+  RETURN_REQUEST = 'return_request',
+  WITHDRAWAL_REQUEST = 'withdrawal_request',
+  CUSTOMER_SUBSCRIPTION = 'customer_subscription',
+  UNMATCHED_TRANSACTION = 'unmatched_transaction',
+  REFUND = 'refund',
+}
+
+/**
+ * One balanced journal posting. Immutable once written: corrections are new
+ * transactions, never updates.
+ */
+@Entity('ledger_transactions')
+@Index(['referenceType', 'referenceId'])
+export class LedgerTransaction {
+  @PrimaryGeneratedColumn('uuid')
+  transactionId: string;
+
+  @Column({ type: 'enum', enum: LedgerTransactionType })
+  transactionType: LedgerTransactionType;
+
+  @Column({ type: 'enum', enum: LedgerReferenceType, nullable: true })
+  referenceType: LedgerReferenceType | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  referenceId: string | null;
+
+  @Column({ type: 'varchar', length: 255 })
+  description: string;
+
+  // userId của người thực hiện (admin/staff), NULL nếu do hệ thống
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  createdBy: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @OneToMany(() => LedgerEntry, (entry) => entry.transaction, {
+    cascade: ['insert'],
+  })
+  entries: LedgerEntry[];
+}
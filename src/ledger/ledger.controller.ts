@@ -0,0 +1,220 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseEnumPipe,
+  Patch,
+  Post,
+  Query,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { Response } from 'express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBearerAuth,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { LedgerService } from './ledger.service';
+import { WalletStatementService } from './wallet-statement.service';
+import {
+  FindLedgerAccountsDto,
+  FindLedgerEntriesDto,
+} from './dto/find-ledger-entries.dto';
+import { WalletStatementEmailPreferenceDto } from './dto/wallet-statement.dto';
+import { LedgerReferenceType } from './entities/ledger-transaction.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User, UserRole } from '../users/entities/user.entity';
+import { ResponseHelper } from '../utils/responses';
+
+@ApiTags('Ledger')
+@Controller('ledger')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth()
+export class LedgerController {
+  constructor(
+    private readonly ledgerService: LedgerService,
+    private readonly walletStatementService: WalletStatementService,
+  ) {}
+
+  @Get('me/entries')
+  @ApiOperation({
+    summary: 'Get my wallet ledger entries',
+    description:
+      'Every credit/debit on the authenticated user wallet, newest first',
+  })
+  @ApiResponse({ status: 200, description: 'Ledger entries retrieved' })
+  async getMyEntries(
+    @GetUser() user: User,
+    @Query() query: FindLedgerEntriesDto,
+  ) {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+    const account = await this.ledgerService.getUserAccount(user.userId);
+    const { data, total } = await this.ledgerService.findEntriesByAccount(
+      account.accountId,
+      page,
+      limit,
+    );
+    return ResponseHelper.paginated(data, total, page, limit);
+  }
+
+  @Patch('me/statements/email-preference')
+  @ApiOperation({
+    summary: 'Enable or disable monthly wallet statement emails',
+    description:
+      'When enabled, the previous month statement is emailed on the 1st of every month',
+  })
+  @ApiResponse({ status: 200, description: 'Preference updated' })
+  async setStatementEmailPreference(
+    @GetUser() user: User,
+    @Body() dto: WalletStatementEmailPreferenceDto,
+  ) {
+    await this.walletStatementService.setEmailPreference(
+      user.userId,
+      dto.enabled,
+    );
+    return ResponseHelper.success('Wallet statement email preference updated', {
+      enabled: dto.enabled,
+    });
+  }
+
+  @Get('me/statements/:month')
+  @ApiOperation({
+    summary: 'Get my monthly wallet statement',
+    description:
+      'Opening balance, every credit/debit with a description and closing balance. Month format: YYYY-MM (Vietnam time)',
+  })
+  @ApiResponse({ status: 200, description: 'Wallet statement retrieved' })
+  async getMyStatement(@GetUser() user: User, @Param('month') month: string) {
+    const statement = await this.walletStatementService.getStatement(
+      user.userId,
+      month,
+    );
+    return ResponseHelper.success('Wallet statement retrieved', statement);
+  }
+
+  @Get('me/statements/:month/csv')
+  @ApiOperation({ summary: 'Download my monthly wallet statement as CSV' })
+  @ApiResponse({ status: 200, description: 'CSV file' })
+  async downloadMyStatementCsv(
+    @GetUser() user: User,
+    @Param('month') month: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const statement = await this.walletStatementService.getStatement(
+      user.userId,
+      month,
+    );
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="wallet-statement-${month}.csv"`,
+    );
+    return this.walletStatementService.toCsv(statement);
+  }
+
+  @Get('me/statements/:month/pdf')
+  @ApiOperation({ summary: 'Download my monthly wallet statement as PDF' })
+  @ApiResponse({ status: 200, description: 'PDF file' })
+  async downloadMyStatementPdf(
+    @GetUser() user: User,
+    @Param('month') month: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const statement = await this.walletStatementService.getStatement(
+      user.userId,
+      month,
+    );
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="wallet-statement-${month}.pdf"`,
+    );
+    return this.walletStatementService.toPdf(statement);
+  }
+
+  @Post('me/statements/:month/email')
+  @ApiOperation({
+    summary: 'Email my monthly wallet statement',
+    description: 'Sends the statement with PDF and CSV attachments',
+  })
+  @ApiResponse({ status: 201, description: 'Wallet statement emailed' })
+  async emailMyStatement(@GetUser() user: User, @Param('month') month: string) {
+    await this.walletStatementService.emailStatement(user.userId, month);
+    return ResponseHelper.success('Wallet statement emailed');
+  }
+
+  @Get('accounts')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'List ledger accounts (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Ledger accounts retrieved' })
+  async getAccounts(@Query() query: FindLedgerAccountsDto) {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+    const { data, total } = await this.ledgerService.findAccounts(
+      query.accountType,
+      page,
+      limit,
+    );
+    return ResponseHelper.paginated(data, total, page, limit);
+  }
+
+  @Get('accounts/:accountId/entries')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get entries of a ledger account (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Ledger entries retrieved' })
+  async getAccountEntries(
+    @Param('accountId') accountId: string,
+    @Query() query: FindLedgerEntriesDto,
+  ) {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+    const { data, total } = await this.ledgerService.findEntriesByAccount(
+      accountId,
+      page,
+      limit,
+    );
+    return ResponseHelper.paginated(data, total, page, limit);
+  }
+
+  @Get('accounts/:accountId/audit')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Audit a ledger account (Admin only)',
+    description:
+      'Recomputes the balance from entries and compares it with the checkpoint and users.balance',
+  })
+  @ApiResponse({ status: 200, description: 'Audit result' })
+  async auditAccount(@Param('accountId') accountId: string) {
+    const audit = await this.ledgerService.auditAccount(accountId);
+    return ResponseHelper.success('Ledger audit completed', audit);
+  }
+
+  @Get('references/:referenceType/:referenceId')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Get ledger transactions for a source event (Admin only)',
+    description: 'E.g. all postings caused by a payment, appointment or order',
+  })
+  @ApiResponse({ status: 200, description: 'Ledger transactions retrieved' })
+  async getByReference(
+    @Param('referenceType', new ParseEnumPipe(LedgerReferenceType))
+    referenceType: LedgerReferenceType,
+    @Param('referenceId') referenceId: string,
+  ) {
+    const transactions = await this.ledgerService.findTransactionsByReference(
+      referenceType,
+      referenceId,
+    );
+    return ResponseHelper.success(
+      'Ledger transactions retrieved',
+      transactions,
+    );
+  }
+}
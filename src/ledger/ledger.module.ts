@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { LedgerAccount } from './entities/ledger-account.entity';
+import { LedgerEntry } from './entities/ledger-entry.entity';
+import { LedgerTransaction } from './entities/ledger-transaction.entity';
+import { LedgerService } from './ledger.service';
+import { LedgerController } from './ledger.controller';
+import { WalletStatementService } from './wallet-statement.service';
+import { User } from '../users/entities/user.entity';
+import { EmailModule } from '../email/email.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      LedgerAccount,
+      LedgerEntry,
+      LedgerTransaction,
+      User,
+    ]),
+    EmailModule,
+  ],
+  controllers: [LedgerController],
+  providers: [LedgerService, WalletStatementService],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
@@ -0,0 +1,471 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EntityManager, FindOperator } from 'typeorm';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { LedgerService } from './ledger.service';
+import {
+  LedgerAccount,
+  LedgerAccountType,
+} from './entities/ledger-account.entity';
+import {
+  LedgerEntry,
+  LedgerEntryDirection,
+} from './entities/ledger-entry.entity';
+import {
+  LedgerTransaction,
+  LedgerTransactionType,
+} from './entities/ledger-transaction.entity';
+import { User, UserRole } from '../users/entities/user.entity';
+
+describe('LedgerService', () => {
+  let service: LedgerService;
+
+  // In-memory state shared by the mocked repositories
+  let accounts: LedgerAccount[];
+  let entries: LedgerEntry[];
+  let users: Partial<User>[];
+
+  type Row = Record<string, unknown>;
+
+  // `IsNull()` in a where clause matches a null/undefined column
+  const matches = (row: Row, where: Row) =>
+    Object.entries(where).every(([key, value]) =>
+      value instanceof FindOperator
+        ? row[key] === null || row[key] === undefined
+        : row[key] === value,
+    );
+
+  const mockAccountRepository = {
+    findOne: jest.fn(({ where }: { where: Row }) =>
+      Promise.resolve(
+        accounts.find((a) => matches(a as unknown as Row, where)) ?? null,
+      ),
+    ),
+    findOneOrFail: jest.fn(({ where }: { where: Row }) =>
+      Promise.resolve(
+        accounts.find((a) => matches(a as unknown as Row, where)),
+      ),
+    ),
+    create: jest.fn((data: Partial<LedgerAccount>) => ({
+      ownerUserId: null,
+      ...data,
+    })),
+    save: jest.fn((account: Partial<LedgerAccount>) => {
+      const saved = {
+        accountId: `acc-${accounts.length + 1}`,
+        ...account,
+      } as LedgerAccount;
+      accounts.push(saved);
+      return Promise.resolve(saved);
+    }),
+    update: jest.fn((accountId: string, data: Partial<LedgerAccount>) => {
+      Object.assign(accounts.find((a) => a.accountId === accountId)!, data);
+      return Promise.resolve();
+    }),
+  };
+
+  const mockEntryRepository = {
+    create: jest.fn((data: Partial<LedgerEntry>) => data),
+    save: jest.fn((rows: LedgerEntry[]) => {
+      entries.push(...rows);
+      return Promise.resolve(rows);
+    }),
+    createQueryBuilder: jest.fn(),
+  };
+
+  const mockTransactionRepository = {
+    create: jest.fn((data: Partial<LedgerTransaction>) => data),
+    save: jest.fn((data: Partial<LedgerTransaction>) =>
+      Promise.resolve({ transactionId: 'txn-1', ...data }),
+    ),
+  };
+
+  const mockUserRepository = {
+    findOne: jest.fn(({ where }: { where: { userId: string } }) =>
+      Promise.resolve(users.find((u) => u.userId === where.userId) ?? null),
+    ),
+    update: jest.fn(({ userId }: { userId: string }, data: Partial<User>) => {
+      Object.assign(users.find((u) => u.userId === userId)!, data);
+      return Promise.resolve();
+    }),
+  };
+
+  const mockEntityManager = {
+    transaction: jest.fn(
+      (callback: (manager: unknown) => Promise<unknown>): Promise<unknown> =>
+        callback(mockEntityManager),
+    ),
+    getRepository: jest.fn((entity: unknown) => {
+      if (entity === LedgerAccount) return mockAccountRepository;
+      if (entity === LedgerEntry) return mockEntryRepository;
+      if (entity === LedgerTransaction) return mockTransactionRepository;
+      if (entity === User) return mockUserRepository;
+      throw new Error('Unexpected repository');
+    }),
+  };
+
+  beforeEach(async () => {
+    accounts = [];
+    entries = [];
+    users = [
+      {
+        userId: 'customer-user-uuid-1',
+        role: UserRole.CUSTOMER,
+        balance: 0,
+      },
+      {
+        userId: 'derma-user-uuid-1',
+        role: UserRole.DERMATOLOGIST,
+        balance: 0,
+      },
+    ];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LedgerService,
+        { provide: EntityManager, useValue: mockEntityManager },
+        {
+          provide: getRepositoryToken(LedgerAccount),
+          useValue: mockAccountRepository,
+        },
+        {
+          provide: getRepositoryToken(LedgerEntry),
+          useValue: mockEntryRepository,
+        },
+        {
+          provide: getRepositoryToken(LedgerTransaction),
+          useValue: mockTransactionRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<LedgerService>(LedgerService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('transfer', () => {
+    // TC-LEDGER-001-01: Normal - Topup credits wallet and debits platform bank
+    it('TC-LEDGER-001-01: should post balanced entries and sync user balance', async () => {
+      await service.transfer({
+        type: LedgerTransactionType.TOPUP,
+        description: 'Topup',
+        from: { type: LedgerAccountType.PLATFORM_BANK },
+        to: { userId: 'customer-user-uuid-1' },
+        amount: 500000,
+      });
+
+      expect(entries).toHaveLength(2);
+      expect(entries).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            direction: LedgerEntryDirection.DEBIT,
+            amount: 500000,
+            balanceAfter: 500000,
+          }),
+          expect.objectContaining({
+            direction: LedgerEntryDirection.CREDIT,
+            amount: 500000,
+            balanceAfter: 500000,
+          }),
+        ]),
+      );
+      const wallet = accounts.find(
+        (a) => a.ownerUserId === 'customer-user-uuid-1',
+      );
+      expect(wallet?.accountType).toBe(LedgerAccountType.CUSTOMER_WALLET);
+      expect(users[0].balance).toBe(500000);
+    });
+
+    // TC-LEDGER-001-02: Abnormal - Wallet cannot go negative
+    it('TC-LEDGER-001-02: should throw when user wallet has insufficient funds', async () => {
+      await expect(
+        service.transfer({
+          type: LedgerTransactionType.BOOKING_PAYMENT,
+          description: 'Booking',
+          from: { userId: 'customer-user-uuid-1' },
+          to: { type: LedgerAccountType.BOOKING_ESCROW },
+          amount: 300000,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    // TC-LEDGER-001-03: Normal - Existing users.balance is migrated as opening balance
+    it('TC-LEDGER-001-03: should migrate existing balance as an opening entry', async () => {
+      users[0].balance = 200000;
+
+      await service.transfer({
+        type: LedgerTransactionType.BOOKING_PAYMENT,
+        description: 'Booking',
+        from: { userId: 'customer-user-uuid-1' },
+        to: { type: LedgerAccountType.BOOKING_ESCROW },
+        amount: 150000,
+      });
+
+      expect(mockTransactionRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          transactionType: LedgerTransactionType.OPENING_BALANCE,
+        }),
+      );
+      expect(users[0].balance).toBe(50000);
+    });
+
+    // TC-LEDGER-001-04: Normal - Dermatologist gets an earnings account
+    it('TC-LEDGER-001-04: should open an earnings account for dermatologists', async () => {
+      await service.transfer({
+        type: LedgerTransactionType.BOOKING_PAYOUT,
+        description: 'Payout',
+        from: { type: LedgerAccountType.BOOKING_ESCROW },
+        to: { userId: 'derma-user-uuid-1' },
+        amount: 225000,
+      });
+
+      const account = accounts.find(
+        (a) => a.ownerUserId === 'derma-user-uuid-1',
+      );
+      expect(account?.accountType).toBe(
+        LedgerAccountType.DERMATOLOGIST_EARNINGS,
+      );
+      expect(users[1].balance).toBe(225000);
+    });
+
+    // TC-LEDGER-001-05: Abnormal - Unknown user
+    it('TC-LEDGER-001-05: should throw when the user does not exist', async () => {
+      await expect(
+        service.transfer({
+          type: LedgerTransactionType.TOPUP,
+          description: 'Topup',
+          from: { type: LedgerAccountType.PLATFORM_BANK },
+          to: { userId: 'missing-user' },
+          amount: 100000,
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    // TC-LEDGER-001-06: Boundary - Concurrent first posting creates the same system account
+    it('TC-LEDGER-001-06: should reuse the system account created by a concurrent transaction', async () => {
+      const escrow = {
+        accountId: 'acc-escrow',
+        accountType: LedgerAccountType.BOOKING_ESCROW,
+        ownerUserId: null,
+        balance: 0,
+      } as LedgerAccount;
+      // Giao dịch kia tạo escrow giữa lúc tìm và lúc insert
+      mockAccountRepository.findOne.mockImplementationOnce(() =>
+        Promise.resolve(null),
+      );
+      mockAccountRepository.save.mockImplementationOnce(() => {
+        accounts.push({ ...escrow, balance: 300000 });
+        return Promise.reject(
+          Object.assign(new Error('Duplicate entry'), { code: 'ER_DUP_ENTRY' }),
+        );
+      });
+
+      await service.transfer({
+        type: LedgerTransactionType.BOOKING_PAYOUT,
+        description: 'Payout',
+        from: { type: LedgerAccountType.BOOKING_ESCROW },
+        to: { userId: 'derma-user-uuid-1' },
+        amount: 225000,
+      });
+
+      expect(
+        accounts.filter(
+          (a) => a.accountType === LedgerAccountType.BOOKING_ESCROW,
+        ),
+      ).toHaveLength(1);
+      expect(mockAccountRepository.findOneOrFail).toHaveBeenCalledWith(
+        expect.objectContaining({ lock: { mode: 'pessimistic_write' } }),
+      );
+      expect(users[1].balance).toBe(225000);
+    });
+
+    // TC-LEDGER-001-07: Boundary - Concurrent first posting creates the same user wallet
+    it('TC-LEDGER-001-07: should reuse the wallet created by a concurrent transaction', async () => {
+      users[0].balance = 200000;
+      const wallet = {
+        accountId: 'acc-wallet',
+        accountType: LedgerAccountType.CUSTOMER_WALLET,
+        ownerUserId: 'customer-user-uuid-1',
+        balance: 200000,
+      } as LedgerAccount;
+      accounts.push({
+        accountId: 'acc-escrow',
+        accountType: LedgerAccountType.BOOKING_ESCROW,
+        ownerUserId: null,
+        balance: 0,
+      } as LedgerAccount);
+      // Giao dịch kia mở ví (kèm số dư đầu kỳ) giữa lúc tìm và lúc insert
+      mockAccountRepository.save.mockImplementationOnce(() => {
+        accounts.push(wallet);
+        return Promise.reject(
+          Object.assign(new Error('Duplicate entry'), {
+            errno: 1062,
+            number: 1062,
+          }),
+        );
+      });
+
+      await service.transfer({
+        type: LedgerTransactionType.BOOKING_PAYMENT,
+        description: 'Booking',
+        from: { userId: 'customer-user-uuid-1' },
+        to: { type: LedgerAccountType.BOOKING_ESCROW },
+        amount: 150000,
+      });
+
+      // Tìm lần đầu không khóa để không giữ gap lock trên dòng chưa có
+      expect(mockAccountRepository.findOne).toHaveBeenCalledWith({
+        where: { ownerUserId: 'customer-user-uuid-1' },
+      });
+      expect(mockTransactionRepository.create).not.toHaveBeenCalledWith(
+        expect.objectContaining({
+          transactionType: LedgerTransactionType.OPENING_BALANCE,
+        }),
+      );
+      expect(wallet.balance).toBe(50000);
+      expect(users[0].balance).toBe(50000);
+    });
+  });
+
+  describe('post', () => {
+    // TC-LEDGER-002-01: Abnormal - Debits must equal credits
+    it('TC-LEDGER-002-01: should reject an unbalanced transaction', async () => {
+      await expect(
+        service.post({
+          type: LedgerTransactionType.BOOKING_PAYOUT,
+          description: 'Payout',
+          lines: [
+            {
+              account: { type: LedgerAccountType.BOOKING_ESCROW },
+              direction: LedgerEntryDirection.DEBIT,
+              amount: 300000,
+            },
+            {
+              account: { userId: 'derma-user-uuid-1' },
+              direction: LedgerEntryDirection.CREDIT,
+              amount: 225000,
+            },
+          ],
+        }),
+      ).rejects.toThrow('Unbalanced ledger transaction');
+    });
+
+    // TC-LEDGER-002-02: Normal - Split posting drops zero lines
+    it('TC-LEDGER-002-02: should split escrow between doctor and platform fee', async () => {
+      await service.post({
+        type: LedgerTransactionType.BOOKING_PAYOUT,
+        description: 'Payout',
+        lines: [
+          {
+            account: { type: LedgerAccountType.BOOKING_ESCROW },
+            direction: LedgerEntryDirection.DEBIT,
+            amount: 300000,
+          },
+          {
+            account: { userId: 'derma-user-uuid-1' },
+            direction: LedgerEntryDirection.CREDIT,
+            amount: 225000,
+          },
+          {
+            account: { type: LedgerAccountType.PLATFORM_FEES },
+            direction: LedgerEntryDirection.CREDIT,
+            amount: 75000,
+          },
+          {
+            account: { type: LedgerAccountType.PENDING_REFUNDS },
+            direction: LedgerEntryDirection.CREDIT,
+            amount: 0,
+          },
+        ],
+      });
+
+      expect(entries).toHaveLength(3);
+      const fees = accounts.find(
+        (a) => a.accountType === LedgerAccountType.PLATFORM_FEES,
+      );
+      expect(fees?.balance).toBe(75000);
+    });
+  });
+
+  describe('auditAccount', () => {
+    // TC-LEDGER-003-01: Normal - Derived balance matches checkpoint
+    it('TC-LEDGER-003-01: should report consistent balances', async () => {
+      mockAccountRepository.findOne.mockResolvedValueOnce({
+        accountId: 'acc-1',
+        accountType: LedgerAccountType.CUSTOMER_WALLET,
+        ownerUserId: 'customer-user-uuid-1',
+        balance: 400000,
+        owner: { balance: 400000 },
+      } as any);
+      mockEntryRepository.createQueryBuilder.mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        addSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        groupBy: jest.fn().mockReturnThis(),
+        getRawMany: jest.fn().mockResolvedValue([
+          {
+            direction: LedgerEntryDirection.CREDIT,
+            total: '500000',
+            count: '2',
+          },
+          {
+            direction: LedgerEntryDirection.DEBIT,
+            total: '100000',
+            count: '1',
+          },
+        ]),
+      });
+
+      const result = await service.auditAccount('acc-1');
+
+      expect(result.derivedBalance).toBe(400000);
+      expect(result.entryCount).toBe(3);
+      expect(result.isConsistent).toBe(true);
+    });
+
+    // TC-LEDGER-003-02: Abnormal - users.balance drifted from ledger
+    it('TC-LEDGER-003-02: should flag a drifted user balance', async () => {
+      mockAccountRepository.findOne.mockResolvedValueOnce({
+        accountId: 'acc-1',
+        accountType: LedgerAccountType.CUSTOMER_WALLET,
+        ownerUserId: 'customer-user-uuid-1',
+        balance: 400000,
+        owner: { balance: 999999 },
+      } as any);
+      mockEntryRepository.createQueryBuilder.mockReturnValue({
+        select: jest.fn().mockReturnThis(),
+        addSelect: jest.fn().mockReturnThis(),
+        where: jest.fn().mockReturnThis(),
+        groupBy: jest.fn().mockReturnThis(),
+        getRawMany: jest.fn().mockResolvedValue([
+          {
+            direction: LedgerEntryDirection.CREDIT,
+            total: '400000',
+            count: '1',
+          },
+        ]),
+      });
+
+      const result = await service.auditAccount('acc-1');
+
+      expect(result.isConsistent).toBe(false);
+    });
+
+    // TC-LEDGER-003-03: Abnormal - Unknown account
+    it('TC-LEDGER-003-03: should throw when account not found', async () => {
+      mockAccountRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(service.auditAccount('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,487 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, IsNull, Repository } from 'typeorm';
+import {
+  DEBIT_NORMAL_ACCOUNTS,
+  LedgerAccount,
+  LedgerAccountType,
+  USER_ACCOUNT_TYPES,
+} from './entities/ledger-account.entity';
+import {
+  LedgerEntry,
+  LedgerEntryDirection,
+} from './entities/ledger-entry.entity';
+import {
+  LedgerReferenceType,
+  LedgerTransaction,
+  LedgerTransactionType,
+} from './entities/ledger-transaction.entity';
+import { User, UserRole } from '../users/entities/user.entity';
+
+/**
+ * Identifies a ledger account.
+ * - `{ userId }`: the user's own wallet (customer wallet or dermatologist earnings, by role)
+ * - `{ type }`: a platform-level account (PLATFORM_BANK, PLATFORM_FEES, ...)
+ */
+export type LedgerAccountRef =
+  | { userId: string; type?: undefined }
+  | { type: LedgerAccountType; userId?: undefined };
+
+export interface LedgerLine {
+  account: LedgerAccountRef;
+  direction: LedgerEntryDirection;
+  amount: number;
+}
+
+export interface PostLedgerTransactionInput {
+  type: LedgerTransactionType;
+  description: string;
+  referenceType?: LedgerReferenceType;
+  referenceId?: string | number;
+  createdBy?: string;
+  lines: LedgerLine[];
+}
+
+export interface LedgerTransferInput {
+  type: LedgerTransactionType;
+  description: string;
+  from: LedgerAccountRef;
+  to: LedgerAccountRef;
+  amount: number;
+  referenceType?: LedgerReferenceType;
+  referenceId?: string | number;
+  createdBy?: string;
+}
+
+export interface LedgerAccountAudit {
+  accountId: string;
+  accountType: LedgerAccountType;
+  ownerUserId: string | null;
+  checkpointBalance: number;
+  derivedBalance: number;
+  userBalance: number | null;
+  entryCount: number;
+  isConsistent: boolean;
+}
+
+@Injectable()
+export class LedgerService {
+  private readonly logger = new Logger(LedgerService.name);
+
+  constructor(
+    private readonly entityManager: EntityManager,
+    @InjectRepository(LedgerAccount)
+    private readonly accountRepository: Repository<LedgerAccount>,
+    @InjectRepository(LedgerEntry)
+    private readonly entryRepository: Repository<LedgerEntry>,
+    @InjectRepository(LedgerTransaction)
+    private readonly transactionRepository: Repository<LedgerTransaction>,
+  ) {}
+
+  /**
+   * Ghi một bút toán kép (tổng Nợ = tổng Có) và cập nhật số dư checkpoint.
+   * Nếu truyền manager, bút toán chạy trong transaction của caller.
+   */
+  async post(
+    input: PostLedgerTransactionInput,
+    manager?: EntityManager,
+  ): Promise<LedgerTransaction> {
+    if (!manager) {
+      return this.entityManager.transaction((txManager) =>
+        this.post(input, txManager),
+      );
+    }
+
+    const lines = this.normalizeLines(input.lines);
+
+    // Lock accounts in a stable order to avoid deadlocks between concurrent postings
+    const refKeys = [...new Set(lines.map((l) => this.refKey(l.account)))];
+    refKeys.sort();
+    const accounts = new Map<string, LedgerAccount>();
+    for (const key of refKeys) {
+      const ref = lines.find((l) => this.refKey(l.account) === key)!.account;
+      accounts.set(key, await this.lockAccount(ref, manager));
+    }
+
+    const transactionRepo = manager.getRepository(LedgerTransaction);
+    const entryRepo = manager.getRepository(LedgerEntry);
+    const accountRepo = manager.getRepository(LedgerAccount);
+
+    const transaction = await transactionRepo.save(
+      transactionRepo.create({
+        transactionType: input.type,
+        description: input.description,
+        referenceType: input.referenceType ?? null,
+        referenceId:
+          input.referenceId !== undefined ? String(input.referenceId) : null,
+        createdBy: input.createdBy ?? null,
+      }),
+    );
+
+    const entries: LedgerEntry[] = [];
+    for (const line of lines) {
+      const account = accounts.get(this.refKey(line.account))!;
+      const newBalance = this.toMoney(
+        Number(account.balance) + this.signedAmount(account, line),
+      );
+
+      if (newBalance < 0 && this.isUserAccount(account)) {
+        throw new BadRequestException(
+          `Insufficient funds. Cannot deduct ${line.amount}. Current balance is ${Number(account.balance)}`,
+        );
+      }
+
+      account.balance = newBalance;
+      entries.push(
+        entryRepo.create({
+          transactionId: transaction.transactionId,
+          accountId: account.accountId,
+          direction: line.direction,
+          amount: line.amount,
+          balanceAfter: newBalance,
+        }),
+      );
+    }
+
+    transaction.entries = await entryRepo.save(entries);
+
+    for (const account of accounts.values()) {
+      await accountRepo.update(account.accountId, { balance: account.balance });
+      if (account.ownerUserId && this.isUserAccount(account)) {
+        await manager
+          .getRepository(User)
+          .update(
+            { userId: account.ownerUserId },
+            { balance: account.balance },
+          );
+      }
+    }
+
+    this.logger.log(
+      `📒 Ledger ${input.type} posted (${transaction.transactionId}): ${input.description}`,
+    );
+
+    return transaction;
+  }
+
+  /**
+   * Shortcut cho bút toán 2 dòng: Nợ `from`, Có `to`.
+   * Với ví người dùng, Nợ = trừ tiền, Có = cộng tiền. Với PLATFORM_BANK thì ngược lại
+   * (tiền về ngân hàng = Nợ), nên nạp tiền là `from: PLATFORM_BANK, to: { userId }`.
+   */
+  async transfer(
+    input: LedgerTransferInput,
+    manager?: EntityManager,
+  ): Promise<LedgerTransaction> {
+    return this.post(
+      {
+        type: input.type,
+        description: input.description,
+        referenceType: input.referenceType,
+        referenceId: input.referenceId,
+        createdBy: input.createdBy,
+        lines: [
+          {
+            account: input.from,
+            direction: LedgerEntryDirection.DEBIT,
+            amount: input.amount,
+          },
+          {
+            account: input.to,
+            direction: LedgerEntryDirection.CREDIT,
+            amount: input.amount,
+          },
+        ],
+      },
+      manager,
+    );
+  }
+
+  async getUserAccount(
+    userId: string,
+    manager?: EntityManager,
+  ): Promise<LedgerAccount> {
+    const repo =
+      manager?.getRepository(LedgerAccount) ?? this.accountRepository;
+    const existing = await repo.findOne({ where: { ownerUserId: userId } });
+    if (existing) return existing;
+
+    if (manager) return this.lockAccount({ userId }, manager);
+    return this.entityManager.transaction((txManager) =>
+      this.lockAccount({ userId }, txManager),
+    );
+  }
+
+  async findAccounts(
+    accountType?: LedgerAccountType,
+    page: number = 1,
+    limit: number = 50,
+  ): Promise<{ data: LedgerAccount[]; total: number }> {
+    const [data, total] = await this.accountRepository.findAndCount({
+      where: accountType ? { accountType } : {},
+      relations: ['owner'],
+      order: { createdAt: 'ASC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { data, total };
+  }
+
+  async findEntriesByAccount(
+    accountId: string,
+    page: number = 1,
+    limit: number = 50,
+  ): Promise<{ data: LedgerEntry[]; total: number }> {
+    const [data, total] = await this.entryRepository.findAndCount({
+      where: { accountId },
+      relations: ['transaction'],
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { data, total };
+  }
+
+  async findTransactionsByReference(
+    referenceType: LedgerReferenceType,
+    referenceId: string,
+  ): Promise<LedgerTransaction[]> {
+    return this.transactionRepository.find({
+      where: { referenceType, referenceId },
+      relations: ['entries', 'entries.account'],
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * Recompute an account's balance from its entries and compare with the
+   * checkpoint (and `User.balance` for user accounts).
+   */
+  async auditAccount(accountId: string): Promise<LedgerAccountAudit> {
+    const account = await this.accountRepository.findOne({
+      where: { accountId },
+      relations: ['owner'],
+    });
+    if (!account) {
+      throw new NotFoundException(`Ledger account ${accountId} not found`);
+    }
+
+    const rows: {
+      direction: LedgerEntryDirection;
+      total: string;
+      count: string;
+    }[] = await this.entryRepository
+      .createQueryBuilder('entry')
+      .select('entry.direction', 'direction')
+      .addSelect('SUM(entry.amount)', 'total')
+      .addSelect('COUNT(*)', 'count')
+      .where('entry.accountId = :accountId', { accountId })
+      .groupBy('entry.direction')
+      .getRawMany();
+
+    let derived = 0;
+    let entryCount = 0;
+    for (const row of rows) {
+      const sign = this.signedAmount(account, {
+        direction: row.direction,
+        amount: 1,
+      });
+      derived += sign * Number(row.total);
+      entryCount += Number(row.count);
+    }
+    derived = this.toMoney(derived);
+
+    const checkpoint = Number(account.balance);
+    const userBalance = account.owner ? Number(account.owner.balance) : null;
+
+    return {
+      accountId: account.accountId,
+      accountType: account.accountType,
+      ownerUserId: account.ownerUserId,
+      checkpointBalance: checkpoint,
+      derivedBalance: derived,
+      userBalance,
+      entryCount,
+      isConsistent:
+        derived === checkpoint &&
+        (userBalance === null || userBalance === checkpoint),
+    };
+  }
+
+  /**
+   * Khóa tài khoản (SELECT ... FOR UPDATE), tạo mới nếu chưa có.
+   * Tìm không khóa trước: FOR UPDATE trên dòng chưa tồn tại giữ gap lock của InnoDB,
+   * hai giao dịch cùng tạo một tài khoản sẽ deadlock nhau khi INSERT
+   */
+  private async lockAccount(
+    ref: LedgerAccountRef,
+    manager: EntityManager,
+  ): Promise<LedgerAccount> {
+    const repo = manager.getRepository(LedgerAccount);
+    const where = ref.userId
+      ? { ownerUserId: ref.userId }
+      : { accountType: ref.type, ownerUserId: IsNull() };
+
+    if (!(await repo.findOne({ where }))) {
+      await this.createAccount(ref, manager);
+    }
+
+    return repo.findOneOrFail({
+      where,
+      lock: { mode: 'pessimistic_write' },
+    });
+  }
+
+  /**
+   * Mở tài khoản lần đầu. Giao dịch khác vừa tạo cùng tài khoản (trùng unique accountKey)
+   * → bỏ qua, dùng tài khoản của giao dịch kia
+   */
+  private async createAccount(
+    ref: LedgerAccountRef,
+    manager: EntityManager,
+  ): Promise<void> {
+    const repo = manager.getRepository(LedgerAccount);
+
+    let user: User | null = null;
+    if (ref.userId) {
+      user = await manager.getRepository(User).findOne({
+        where: { userId: ref.userId },
+        select: ['userId', 'role', 'balance'],
+      });
+      if (!user) {
+        throw new NotFoundException(`User ${ref.userId} not found for ledger.`);
+      }
+    }
+
+    let account: LedgerAccount;
+    try {
+      account = await repo.save(
+        repo.create(
+          user
+            ? {
+                accountType:
+                  user.role === UserRole.DERMATOLOGIST
+                    ? LedgerAccountType.DERMATOLOGIST_EARNINGS
+                    : LedgerAccountType.CUSTOMER_WALLET,
+                ownerUserId: user.userId,
+                balance: 0,
+              }
+            : { accountType: ref.type, balance: 0 },
+        ),
+      );
+    } catch (error) {
+      const dbError = error as { code?: string; number?: number };
+      if (dbError?.code === 'ER_DUP_ENTRY' || dbError?.number === 1062) {
+        return;
+      }
+      throw error;
+    }
+
+    // Migrate the pre-ledger balance as an opening entry so history stays derivable
+    const openingBalance = user ? this.toMoney(Number(user.balance)) : 0;
+    if (openingBalance > 0) {
+      await this.writeOpeningBalance(account, openingBalance, manager);
+    }
+  }
+
+  private async writeOpeningBalance(
+    account: LedgerAccount,
+    amount: number,
+    manager: EntityManager,
+  ): Promise<void> {
+    const bank = await this.lockAccount(
+      { type: LedgerAccountType.PLATFORM_BANK },
+      manager,
+    );
+    const transactionRepo = manager.getRepository(LedgerTransaction);
+    const entryRepo = manager.getRepository(LedgerEntry);
+    const accountRepo = manager.getRepository(LedgerAccount);
+
+    const transaction = await transactionRepo.save(
+      transactionRepo.create({
+        transactionType: LedgerTransactionType.OPENING_BALANCE,
+        description: `Opening balance migrated from users.balance`,
+        referenceType: null,
+        referenceId: null,
+        createdBy: null,
+      }),
+    );
+
+    bank.balance = this.toMoney(Number(bank.balance) + amount);
+    account.balance = amount;
+
+    await entryRepo.save([
+      entryRepo.create({
+        transactionId: transaction.transactionId,
+        accountId: bank.accountId,
+        direction: LedgerEntryDirection.DEBIT,
+        amount,
+        balanceAfter: bank.balance,
+      }),
+      entryRepo.create({
+        transactionId: transaction.transactionId,
+        accountId: account.accountId,
+        direction: LedgerEntryDirection.CREDIT,
+        amount,
+        balanceAfter: account.balance,
+      }),
+    ]);
+    await accountRepo.update(bank.accountId, { balance: bank.balance });
+    await accountRepo.update(account.accountId, { balance: account.balance });
+  }
+
+  private normalizeLines(lines: LedgerLine[]): LedgerLine[] {
+    const normalized = lines
+      .map((line) => ({ ...line, amount: this.toMoney(line.amount) }))
+      .filter((line) => line.amount !== 0);
+
+    if (normalized.some((line) => !(line.amount > 0))) {
+      throw new BadRequestException('Ledger amounts must be positive numbers');
+    }
+    if (normalized.length < 2) {
+      throw new BadRequestException(
+        'A ledger transaction needs at least one debit and one credit',
+      );
+    }
+
+    let debit = 0;
+    let credit = 0;
+    for (const line of normalized) {
+      if (line.direction === LedgerEntryDirection.DEBIT) debit += line.amount;
+      else credit += line.amount;
+    }
+    if (this.toMoney(debit) !== this.toMoney(credit)) {
+      throw new BadRequestException(
+        `Unbalanced ledger transaction: debit ${debit} != credit ${credit}`,
+      );
+    }
+
+    return normalized;
+  }
+
+  private signedAmount(
+    account: LedgerAccount,
+    line: Pick<LedgerLine, 'direction' | 'amount'>,
+  ): number {
+    const debitNormal = DEBIT_NORMAL_ACCOUNTS.includes(account.accountType);
+    const isDebit = line.direction === LedgerEntryDirection.DEBIT;
+    return debitNormal === isDebit ? line.amount : -line.amount;
+  }
+
+  private isUserAccount(account: LedgerAccount): boolean {
+    return USER_ACCOUNT_TYPES.includes(account.accountType);
+  }
+
+  private refKey(ref: LedgerAccountRef): string {
+    return ref.userId ? `user:${ref.userId}` : `system:${ref.type}`;
+  }
+
+  private toMoney(amount: number): number {
+    return Math.round(Number(amount) * 100) / 100;
+  }
+}
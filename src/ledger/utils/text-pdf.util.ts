@@ -0,0 +1,103 @@
+/**
+ * PDF tối giản (PDF 1.4, font Courier có sẵn) để xuất báo cáo dạng bảng chữ.
+ *
+ * Font chuẩn của PDF không có dấu tiếng Việt nên nội dung được bỏ dấu
+ * trước khi ghi. Dùng font monospace để các cột thẳng hàng.
+ */
+export interface PdfTextLine {
+  text: string;
+  bold?: boolean;
+}
+
+const PAGE_WIDTH = 595; // A4 (pt)
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const FONT_SIZE = 8;
+const LINE_HEIGHT = 11;
+export const PDF_LINE_WIDTH = 105; // Số ký tự Courier 8pt vừa một dòng A4
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT);
+
+/**
+ * Bỏ dấu tiếng Việt và ký tự ngoài ASCII in được
+ */
+export function toPdfSafeText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .replace(/[^\x20-\x7e]/g, '?');
+}
+
+function escapePdfString(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+function buildPageContent(lines: PdfTextLine[]): string {
+  const commands = [
+    'BT',
+    `${LINE_HEIGHT} TL`,
+    `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+  ];
+  for (const line of lines) {
+    const text = escapePdfString(
+      toPdfSafeText(line.text).slice(0, PDF_LINE_WIDTH),
+    );
+    commands.push(`/${line.bold ? 'F2' : 'F1'} ${FONT_SIZE} Tf`);
+    commands.push(`(${text}) Tj T*`);
+  }
+  commands.push('ET');
+  return commands.join('\n');
+}
+
+export function renderTextPdf(lines: PdfTextLine[]): Buffer {
+  const pages: PdfTextLine[][] = [];
+  for (let i = 0; i < lines.length; i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+  if (pages.length === 0) {
+    pages.push([]);
+  }
+
+  // 1: catalog, 2: pages, 3-4: fonts, sau đó mỗi trang gồm page + content
+  const objects: string[] = [];
+  const pageObjectIds = pages.map((_, index) => 5 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageObjectIds
+    .map((id) => `${id} 0 R`)
+    .join(' ')}] /Count ${pages.length} >>`;
+  objects[3] =
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>';
+  objects[4] =
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((pageLines, index) => {
+    const pageId = pageObjectIds[index];
+    const content = buildPageContent(pageLines);
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] =
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${offsets[id].toString().padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
@@ -0,0 +1,248 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { WalletStatementService } from './wallet-statement.service';
+import {
+  LedgerAccount,
+  LedgerAccountType,
+} from './entities/ledger-account.entity';
+import {
+  LedgerEntry,
+  LedgerEntryDirection,
+} from './entities/ledger-entry.entity';
+import {
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from './entities/ledger-transaction.entity';
+import { User } from '../users/entities/user.entity';
+import { EmailService } from '../email/email.service';
+
+describe('WalletStatementService', () => {
+  let service: WalletStatementService;
+
+  const user = {
+    userId: 'derma-user-1',
+    fullName: 'Nguyễn Văn Bác Sĩ',
+    email: 'doctor@example.com',
+  } as User;
+
+  const account = {
+    accountId: 'acc-derma',
+    accountType: LedgerAccountType.DERMATOLOGIST_EARNINGS,
+    ownerUserId: user.userId,
+  } as LedgerAccount;
+
+  const entry = (
+    overrides: Partial<LedgerEntry>,
+    transactionType: LedgerTransactionType,
+    referenceType: LedgerReferenceType | null = null,
+    referenceId: string | null = null,
+  ): LedgerEntry =>
+    ({
+      entryId: 'entry-1',
+      accountId: account.accountId,
+      direction: LedgerEntryDirection.CREDIT,
+      amount: 0,
+      balanceAfter: 0,
+      createdAt: new Date('2025-03-10T03:00:00Z'),
+      transaction: {
+        transactionType,
+        referenceType,
+        referenceId,
+        description: 'raw description',
+      },
+      ...overrides,
+    }) as unknown as LedgerEntry;
+
+  const mockAccountRepository = { findOne: jest.fn() };
+  const mockEntryRepository = { findOne: jest.fn(), find: jest.fn() };
+  const mockUserRepository = {
+    findOne: jest.fn(),
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+  const mockEmailService = { sendWalletStatement: jest.fn() };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WalletStatementService,
+        {
+          provide: getRepositoryToken(LedgerAccount),
+          useValue: mockAccountRepository,
+        },
+        {
+          provide: getRepositoryToken(LedgerEntry),
+          useValue: mockEntryRepository,
+        },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+        { provide: EmailService, useValue: mockEmailService },
+      ],
+    }).compile();
+
+    service = module.get<WalletStatementService>(WalletStatementService);
+
+    mockUserRepository.findOne.mockResolvedValue(user);
+    mockAccountRepository.findOne.mockResolvedValue(account);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getStatement', () => {
+    // TC-STATEMENT-001-01: Normal - Opening, movements and closing balance
+    it('TC-STATEMENT-001-01: should build the statement from ledger entries', async () => {
+      // MySQL trả cột decimal dạng chuỗi
+      mockEntryRepository.findOne.mockResolvedValue({ balanceAfter: '500000' });
+      mockEntryRepository.find.mockResolvedValue([
+        entry(
+          { amount: 225000, balanceAfter: 725000 },
+          LedgerTransactionType.BOOKING_PAYOUT,
+          LedgerReferenceType.APPOINTMENT,
+          '3f1c9a52-0000-0000-0000-000000000000',
+        ),
+        entry(
+          {
+            direction: LedgerEntryDirection.DEBIT,
+            amount: 700000,
+            balanceAfter: 25000,
+          },
+          LedgerTransactionType.WITHDRAWAL,
+        ),
+      ]);
+
+      const statement = await service.getStatement(user.userId, '2025-03');
+
+      expect(statement.openingBalance).toBe(500000);
+      expect(statement.totalCredit).toBe(225000);
+      expect(statement.totalDebit).toBe(700000);
+      expect(statement.closingBalance).toBe(25000);
+      expect(statement.lines[0]).toEqual(
+        expect.objectContaining({
+          description: 'Thu nhập từ lịch hẹn',
+          reference: 'Lịch hẹn #3f1c9a52',
+          credit: 225000,
+          debit: 0,
+        }),
+      );
+      expect(statement.lines[1].description).toBe('Rút tiền về ngân hàng');
+      expect(statement.periodStart).toEqual(
+        new Date('2025-02-28T17:00:00.000Z'),
+      );
+      expect(statement.periodEnd).toEqual(new Date('2025-03-31T17:00:00.000Z'));
+    });
+
+    // TC-STATEMENT-001-02: Normal - Same type labelled by direction
+    it('TC-STATEMENT-001-02: should describe subscription income for the dermatologist', async () => {
+      mockEntryRepository.findOne.mockResolvedValue(null);
+      mockEntryRepository.find.mockResolvedValue([
+        entry(
+          { amount: 400000, balanceAfter: 400000 },
+          LedgerTransactionType.SUBSCRIPTION_PAYMENT,
+        ),
+      ]);
+
+      const statement = await service.getStatement(user.userId, '2025-12');
+
+      expect(statement.openingBalance).toBe(0);
+      expect(statement.lines[0].description).toBe('Thu nhập từ gói khám');
+      expect(statement.periodEnd).toEqual(new Date('2025-12-31T17:00:00.000Z'));
+    });
+
+    // TC-STATEMENT-001-03: Boundary - User without a wallet account
+    it('TC-STATEMENT-001-03: should return an empty statement when no account exists', async () => {
+      mockAccountRepository.findOne.mockResolvedValue(null);
+
+      const statement = await service.getStatement(user.userId, '2025-03');
+
+      expect(statement.lines).toEqual([]);
+      expect(statement.closingBalance).toBe(0);
+      expect(statement.accountType).toBeNull();
+      expect(mockEntryRepository.find).not.toHaveBeenCalled();
+    });
+
+    // TC-STATEMENT-001-04: Abnormal - Invalid month
+    it('TC-STATEMENT-001-04: should reject a malformed month', async () => {
+      await expect(
+        service.getStatement(user.userId, '2025-13'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('exports', () => {
+    // TC-STATEMENT-002-01: Normal - CSV with opening and closing rows
+    it('TC-STATEMENT-002-01: should render CSV with opening and closing rows', async () => {
+      mockEntryRepository.findOne.mockResolvedValue({ balanceAfter: '100000' });
+      mockEntryRepository.find.mockResolvedValue([
+        entry(
+          { amount: 50000, balanceAfter: 150000 },
+          LedgerTransactionType.TOPUP,
+        ),
+      ]);
+      const statement = await service.getStatement(user.userId, '2025-03');
+
+      const rows = service
+        .toCsv(statement)
+        .replace(/^\uFEFF/, '')
+        .split('\n');
+
+      expect(rows[0]).toBe(
+        'date,description,reference,credit,debit,balanceAfter',
+      );
+      expect(rows[1]).toContain('Số dư đầu kỳ,,,,100000');
+      expect(rows[2]).toContain('Nạp tiền vào ví,,50000,,150000');
+      expect(rows[3]).toContain('Số dư cuối kỳ,,50000,0,150000');
+    });
+
+    // TC-STATEMENT-002-02: Normal - PDF document
+    it('TC-STATEMENT-002-02: should render a PDF document', async () => {
+      mockEntryRepository.findOne.mockResolvedValue(null);
+      mockEntryRepository.find.mockResolvedValue([]);
+      const statement = await service.getStatement(user.userId, '2025-03');
+
+      const pdf = service.toPdf(statement).toString('latin1');
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('Nguyen Van Bac Si');
+      expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    });
+  });
+
+  describe('sendMonthlyStatements', () => {
+    // TC-STATEMENT-003-01: Normal - One failure does not stop the batch
+    it('TC-STATEMENT-003-01: should email every opted-in user and skip failures', async () => {
+      mockUserRepository.find.mockResolvedValue([
+        { userId: 'user-a' },
+        { userId: 'user-b' },
+      ]);
+      mockEntryRepository.findOne.mockResolvedValue(null);
+      mockEntryRepository.find.mockResolvedValue([]);
+      mockEmailService.sendWalletStatement
+        .mockRejectedValueOnce(new Error('Resend down'))
+        .mockResolvedValueOnce(undefined);
+
+      await service.sendMonthlyStatements();
+
+      expect(mockUserRepository.find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { walletStatementEmailEnabled: true, isActive: true },
+        }),
+      );
+      expect(mockEmailService.sendWalletStatement).toHaveBeenCalledTimes(2);
+      const [email, , , , attachments] = mockEmailService.sendWalletStatement
+        .mock.calls[1] as [
+        string,
+        string,
+        string,
+        object,
+        { filename: string }[],
+      ];
+      expect(email).toBe(user.email);
+      expect(attachments.map((a) => a.filename)).toEqual([
+        expect.stringMatching(/^wallet-statement-\d{4}-\d{2}\.pdf$/),
+        expect.stringMatching(/^wallet-statement-\d{4}-\d{2}\.csv$/),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,437 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron } from '@nestjs/schedule';
+import { Between, LessThan, Repository } from 'typeorm';
+import {
+  LedgerAccount,
+  LedgerAccountType,
+} from './entities/ledger-account.entity';
+import {
+  LedgerEntry,
+  LedgerEntryDirection,
+} from './entities/ledger-entry.entity';
+import {
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from './entities/ledger-transaction.entity';
+import { User } from '../users/entities/user.entity';
+import { EmailService } from '../email/email.service';
+import {
+  PDF_LINE_WIDTH,
+  PdfTextLine,
+  renderTextPdf,
+} from './utils/text-pdf.util';
+
+export interface WalletStatementLine {
+  date: Date;
+  transactionType: LedgerTransactionType;
+  description: string;
+  reference: string | null;
+  credit: number; // Tiền vào ví
+  debit: number; // Tiền ra khỏi ví
+  balanceAfter: number;
+}
+
+export interface WalletStatement {
+  userId: string;
+  fullName: string;
+  email: string;
+  accountType: LedgerAccountType | null; // NULL = chưa có giao dịch nào
+  month: string; // YYYY-MM
+  periodStart: Date;
+  periodEnd: Date;
+  openingBalance: number;
+  totalCredit: number;
+  totalDebit: number;
+  closingBalance: number;
+  lines: WalletStatementLine[];
+}
+
+// Diễn giải giao dịch cho người dùng (mặc định theo chiều tiền ra/vào thông thường)
+const STATEMENT_LABELS: Record<LedgerTransactionType, string> = {
+  [LedgerTransactionType.OPENING_BALANCE]: 'Số dư đầu kỳ chuyển sang',
+  [LedgerTransactionType.TOPUP]: 'Nạp tiền vào ví',
+  [LedgerTransactionType.MANUAL_TOPUP]: 'Nạp tiền thủ công',
+  [LedgerTransactionType.TOPUP_REVERSAL]: 'Hoàn tiền nạp về ngân hàng',
+  [LedgerTransactionType.BOOKING_PAYMENT]: 'Thanh toán lịch hẹn',
+  [LedgerTransactionType.BOOKING_REFUND]: 'Hoàn tiền lịch hẹn',
+  [LedgerTransactionType.BOOKING_PAYOUT]: 'Thu nhập từ lịch hẹn',
+  [LedgerTransactionType.SUBSCRIPTION_PAYMENT]: 'Mua gói khám',
+  [LedgerTransactionType.ORDER_PAYMENT]: 'Thanh toán đơn hàng',
+  [LedgerTransactionType.ORDER_PAYMENT_REVERSAL]:
+    'Hoàn tiền đơn hàng tạo không thành công',
+  [LedgerTransactionType.ORDER_REFUND]: 'Hoàn tiền đơn hàng',
+  [LedgerTransactionType.SUBSCRIPTION_REFUND]: 'Hoàn tiền gói khám',
+  [LedgerTransactionType.UNDERPAYMENT_REFUND]: 'Hoàn tiền chuyển khoản thiếu',
+  [LedgerTransactionType.PARTIAL_PAYMENT]: 'Chuyển khoản một phần',
+  [LedgerTransactionType.PARTIAL_PAYMENT_RELEASE]: 'Hoàn tất thanh toán',
+  [LedgerTransactionType.PARTIAL_PAYMENT_REFUND]:
+    'Hoàn tiền chuyển khoản chưa đủ',
+  [LedgerTransactionType.OVERPAYMENT_CREDIT]: 'Tiền chuyển khoản thừa',
+  [LedgerTransactionType.RETURN_REFUND]: 'Hoàn tiền trả hàng',
+  [LedgerTransactionType.REFUND_PAYOUT]: 'Chuyển khoản hoàn tiền',
+  [LedgerTransactionType.WITHDRAWAL]: 'Rút tiền về ngân hàng',
+  [LedgerTransactionType.UNMATCHED_TRANSFER]: 'Chuyển khoản chưa xác định',
+  [LedgerTransactionType.UNMATCHED_TRANSFER_RESOLUTION]:
+    'Cộng tiền chuyển khoản đã đối soát',
+  [LedgerTransactionType.COD_COLLECTION]: 'Thu tiền khi giao hàng',
+  [LedgerTransactionType.COD_SETTLEMENT]: 'Nộp tiền thu hộ COD',
+};
+
+// Cùng loại giao dịch nhưng tiền vào ví (vd bác sĩ nhận tiền gói, rút tiền bị từ chối)
+const CREDIT_LABEL_OVERRIDES: Partial<Record<LedgerTransactionType, string>> = {
+  [LedgerTransactionType.SUBSCRIPTION_PAYMENT]: 'Thu nhập từ gói khám',
+  [LedgerTransactionType.WITHDRAWAL]: 'Hoàn tiền yêu cầu rút tiền',
+  [LedgerTransactionType.BOOKING_PAYMENT]: 'Hoàn tiền thanh toán lịch hẹn',
+};
+
+const REFERENCE_LABELS: Record<LedgerReferenceType, string> = {
+  [LedgerReferenceType.PAYMENT]: 'Thanh toán',
+  [LedgerReferenceType.APPOINTMENT]: 'Lịch hẹn',
+  [LedgerReferenceType.ORDER]: 'Đơn hàng',
+  [LedgerReferenceType.RETURN_REQUEST]: 'Yêu cầu trả hàng',
+  [LedgerReferenceType.WITHDRAWAL_REQUEST]: 'Yêu cầu rút tiền',
+  [LedgerReferenceType.CUSTOMER_SUBSCRIPTION]: 'Gói khám',
+  [LedgerReferenceType.UNMATCHED_TRANSACTION]: 'Giao dịch đối soát',
+  [LedgerReferenceType.REFUND]: 'Hoàn tiền',
+};
+
+const CSV_COLUMNS = [
+  'date',
+  'description',
+  'reference',
+  'credit',
+  'debit',
+  'balanceAfter',
+] as const;
+
+/**
+ * Sao kê ví theo tháng cho khách hàng và bác sĩ, lấy từ sổ cái.
+ */
+@Injectable()
+export class WalletStatementService {
+  private readonly logger = new Logger(WalletStatementService.name);
+  private readonly TIMEZONE = 'Asia/Ho_Chi_Minh';
+  private readonly TIMEZONE_OFFSET = '+07:00'; // Kỳ sao kê theo giờ Việt Nam
+
+  constructor(
+    @InjectRepository(LedgerAccount)
+    private readonly accountRepository: Repository<LedgerAccount>,
+    @InjectRepository(LedgerEntry)
+    private readonly entryRepository: Repository<LedgerEntry>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly emailService: EmailService,
+  ) {}
+
+  async getStatement(userId: string, month: string): Promise<WalletStatement> {
+    const { start, end } = this.getMonthRange(month);
+
+    const user = await this.userRepository.findOne({ where: { userId } });
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+
+    const account = await this.accountRepository.findOne({
+      where: { ownerUserId: userId },
+    });
+
+    let openingBalance = 0;
+    let entries: LedgerEntry[] = [];
+    if (account) {
+      const lastBefore = await this.entryRepository.findOne({
+        where: { accountId: account.accountId, createdAt: LessThan(start) },
+        order: { createdAt: 'DESC' },
+      });
+      openingBalance = lastBefore ? Number(lastBefore.balanceAfter) : 0;
+
+      entries = await this.entryRepository.find({
+        where: {
+          accountId: account.accountId,
+          createdAt: Between(start, new Date(end.getTime() - 1)),
+        },
+        relations: ['transaction'],
+        order: { createdAt: 'ASC' },
+      });
+    }
+
+    const lines = entries.map((entry) => this.toStatementLine(entry));
+    const totalCredit = this.toMoney(
+      lines.reduce((sum, line) => sum + line.credit, 0),
+    );
+    const totalDebit = this.toMoney(
+      lines.reduce((sum, line) => sum + line.debit, 0),
+    );
+
+    return {
+      userId: user.userId,
+      fullName: user.fullName,
+      email: user.email,
+      accountType: account?.accountType ?? null,
+      month,
+      periodStart: start,
+      periodEnd: end,
+      openingBalance,
+      totalCredit,
+      totalDebit,
+      closingBalance: lines.length
+        ? lines[lines.length - 1].balanceAfter
+        : openingBalance,
+      lines,
+    };
+  }
+
+  toCsv(statement: WalletStatement): string {
+    const rows: Record<(typeof CSV_COLUMNS)[number], string | number>[] = [
+      {
+        date: this.formatDate(statement.periodStart),
+        description: 'Số dư đầu kỳ',
+        reference: '',
+        credit: '',
+        debit: '',
+        balanceAfter: statement.openingBalance,
+      },
+      ...statement.lines.map((line) => ({
+        date: this.formatDate(line.date),
+        description: line.description,
+        reference: line.reference ?? '',
+        credit: line.credit || '',
+        debit: line.debit || '',
+        balanceAfter: line.balanceAfter,
+      })),
+      {
+        date: this.formatDate(new Date(statement.periodEnd.getTime() - 1)),
+        description: 'Số dư cuối kỳ',
+        reference: '',
+        credit: statement.totalCredit,
+        debit: statement.totalDebit,
+        balanceAfter: statement.closingBalance,
+      },
+    ];
+
+    // BOM để Excel đọc đúng tiếng Việt
+    return (
+      '\uFEFF' +
+      [
+        CSV_COLUMNS.join(','),
+        ...rows.map((row) =>
+          CSV_COLUMNS.map((column) => this.toCsvCell(row[column])).join(','),
+        ),
+      ].join('\n')
+    );
+  }
+
+  toPdf(statement: WalletStatement): Buffer {
+    const separator = { text: '-'.repeat(PDF_LINE_WIDTH) };
+    const row = (
+      date: string,
+      description: string,
+      credit: string,
+      debit: string,
+      balance: string,
+    ) =>
+      `${date.padEnd(17)} ${description.slice(0, 38).padEnd(38)} ${credit.padStart(15)} ${debit.padStart(15)} ${balance.padStart(15)}`;
+
+    const lines: PdfTextLine[] = [
+      { text: `SKINALYZE - SAO KE VI THANG ${statement.month}`, bold: true },
+      { text: `Khach hang: ${statement.fullName} (${statement.email})` },
+      {
+        text: `Ky sao ke: ${this.formatDate(statement.periodStart)} - ${this.formatDate(new Date(statement.periodEnd.getTime() - 1))}`,
+      },
+      { text: '' },
+      {
+        text: row('Ngay', 'Dien giai', 'Tien vao', 'Tien ra', 'So du'),
+        bold: true,
+      },
+      separator,
+      {
+        text: row(
+          '',
+          'So du dau ky',
+          '',
+          '',
+          this.formatMoney(statement.openingBalance),
+        ),
+      },
+      ...statement.lines.map((line) => ({
+        text: row(
+          this.formatDate(line.date).slice(0, 16),
+          line.reference
+            ? `${line.description} - ${line.reference}`
+            : line.description,
+          line.credit ? this.formatMoney(line.credit) : '',
+          line.debit ? this.formatMoney(line.debit) : '',
+          this.formatMoney(line.balanceAfter),
+        ),
+      })),
+      separator,
+      {
+        text: row(
+          '',
+          'Tong phat sinh',
+          this.formatMoney(statement.totalCredit),
+          this.formatMoney(statement.totalDebit),
+          '',
+        ),
+        bold: true,
+      },
+      {
+        text: row(
+          '',
+          'So du cuoi ky',
+          '',
+          '',
+          this.formatMoney(statement.closingBalance),
+        ),
+        bold: true,
+      },
+    ];
+
+    return renderTextPdf(lines);
+  }
+
+  async emailStatement(userId: string, month: string): Promise<void> {
+    const statement = await this.getStatement(userId, month);
+
+    await this.emailService.sendWalletStatement(
+      statement.email,
+      statement.fullName,
+      statement.month,
+      {
+        openingBalance: statement.openingBalance,
+        totalCredit: statement.totalCredit,
+        totalDebit: statement.totalDebit,
+        closingBalance: statement.closingBalance,
+      },
+      [
+        {
+          filename: `wallet-statement-${month}.pdf`,
+          content: this.toPdf(statement),
+        },
+        {
+          filename: `wallet-statement-${month}.csv`,
+          content: Buffer.from(this.toCsv(statement), 'utf8'),
+        },
+      ],
+    );
+
+    this.logger.log(`📨 Wallet statement ${month} emailed to user ${userId}`);
+  }
+
+  async setEmailPreference(userId: string, enabled: boolean): Promise<void> {
+    const result = await this.userRepository.update(
+      { userId },
+      { walletStatementEmailEnabled: enabled },
+    );
+    if (!result.affected) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+  }
+
+  /**
+   * Ngày 1 hằng tháng gửi sao kê tháng trước cho người dùng đã bật nhận email
+   */
+  @Cron('0 8 1 * *', {
+    name: 'MonthlyWalletStatements',
+    timeZone: 'Asia/Ho_Chi_Minh',
+  })
+  async sendMonthlyStatements(): Promise<void> {
+    const month = this.previousMonth();
+    const users = await this.userRepository.find({
+      where: { walletStatementEmailEnabled: true, isActive: true },
+      select: ['userId'],
+    });
+
+    let sent = 0;
+    for (const { userId } of users) {
+      try {
+        await this.emailStatement(userId, month);
+        sent++;
+      } catch (error) {
+        // Một email lỗi không chặn các user còn lại
+        this.logger.error(
+          `❌ Failed to email wallet statement ${month} to user ${userId}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    this.logger.log(
+      `📊 Monthly wallet statements ${month}: ${sent}/${users.length} sent`,
+    );
+  }
+
+  private toStatementLine(entry: LedgerEntry): WalletStatementLine {
+    const amount = Number(entry.amount);
+    const isCredit = entry.direction === LedgerEntryDirection.CREDIT;
+    const { transactionType, referenceType, referenceId } = entry.transaction;
+
+    return {
+      date: entry.createdAt,
+      transactionType,
+      description:
+        (isCredit && CREDIT_LABEL_OVERRIDES[transactionType]) ||
+        STATEMENT_LABELS[transactionType] ||
+        entry.transaction.description,
+      reference:
+        referenceType && referenceId
+          ? `${REFERENCE_LABELS[referenceType]} #${referenceId.slice(0, 8)}`
+          : null,
+      credit: isCredit ? amount : 0,
+      debit: isCredit ? 0 : amount,
+      balanceAfter: Number(entry.balanceAfter),
+    };
+  }
+
+  private getMonthRange(month: string): { start: Date; end: Date } {
+    const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(month);
+    if (!match) {
+      throw new BadRequestException('Invalid month. Use YYYY-MM');
+    }
+    const year = Number(match[1]);
+    const monthIndex = Number(match[2]);
+    const next =
+      monthIndex === 12
+        ? `${year + 1}-01`
+        : `${year}-${String(monthIndex + 1).padStart(2, '0')}`;
+
+    return {
+      start: new Date(`${month}-01T00:00:00${this.TIMEZONE_OFFSET}`),
+      end: new Date(`${next}-01T00:00:00${this.TIMEZONE_OFFSET}`),
+    };
+  }
+
+  private previousMonth(): string {
+    // en-CA cho định dạng YYYY-MM-DD
+    const today = new Date().toLocaleDateString('en-CA', {
+      timeZone: this.TIMEZONE,
+    });
+    const [year, month] = today.split('-').map(Number);
+    return month === 1
+      ? `${year - 1}-12`
+      : `${year}-${String(month - 1).padStart(2, '0')}`;
+  }
+
+  private formatDate(date: Date): string {
+    // sv-SE cho định dạng YYYY-MM-DD HH:mm:ss
+    return new Date(date).toLocaleString('sv-SE', { timeZone: this.TIMEZONE });
+  }
+
+  private formatMoney(value: number): string {
+    return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  }
+
+  private toCsvCell(value: string | number | null | undefined): string {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private toMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -313,22 +313,130 @@ export class NotificationsService {
     });
   }
 
+  async notifyPaymentOutstanding(
+    userId: string,
+    paymentCode: string,
+    paidAmount: number,
+    outstandingAmount: number,
+    qrCodeUrl: string,
+    expiredAt: Date | null,
+  ): Promise<Notification> {
+    return await this.create({
+      userId,
+      type: NotificationType.SYSTEM,
+      title: 'Partial Payment Received',
+      message: `We received ${paidAmount.toLocaleString('vi-VN')} VND for ${paymentCode}. Please transfer the remaining ${outstandingAmount.toLocaleString('vi-VN')} VND to complete your payment.`,
+      data: {
+        paymentCode,
+        paidAmount,
+        outstandingAmount,
+        qrCodeUrl,
+        expiredAt,
+      },
+      actionUrl: `/payments/${paymentCode}`,
+      imageUrl: qrCodeUrl,
+      priority: NotificationPriority.HIGH,
+    });
+  }
+
   async notifyLowStock(
     userIds: string[],
     productName: string,
     quantity: number,
+    reorder?: {
+      productId: string;
+      reorderPoint: number;
+      daysOfCover: number | null;
+      suggestedQuantity: number;
+      draft?: { type: 'adjustment' | 'purchase_order'; id: string };
+    },
   ): Promise<Notification[]> {
+    const cover =
+      reorder?.daysOfCover != null
+        ? `, about ${reorder.daysOfCover} days of sales left`
+        : '';
+    const drafted = reorder?.draft
+      ? `. A ${reorder.draft.type === 'purchase_order' ? 'purchase order' : 'restock adjustment'} for ${reorder.suggestedQuantity} units is waiting for approval.`
+      : '';
     const notifications = userIds.map((userId) => ({
       userId,
       type: NotificationType.PRODUCT,
       title: 'Low Stock Alert',
-      message: `${productName} is running low (${quantity} units remaining)`,
-      data: { productName, quantity },
+      message: `${productName} is running low (${quantity} units remaining${cover})${drafted}`,
+      data: { productName, quantity, ...reorder },
+      ...(reorder && {
+        actionUrl:
+          reorder.draft?.type === 'purchase_order'
+            ? `/purchase-orders/${reorder.draft.id}`
+            : `/inventory/product/${reorder.productId}`,
+      }),
+      priority: reorder
+        ? NotificationPriority.HIGH
+        : NotificationPriority.MEDIUM,
+    }));
+    return await this.createBulk(notifications);
+  }
+
+  async notifyBackInStock(
+    userIds: string[],
+    productId: string,
+    productName: string,
+  ): Promise<Notification[]> {
+    const notifications = userIds.map((userId) => ({
+      userId,
+      type: NotificationType.PRODUCT,
+      title: 'Back in Stock',
+      message: `${productName} from your wishlist is back in stock`,
+      data: { productId, productName },
+      actionUrl: `/products/${productId}`,
       priority: NotificationPriority.MEDIUM,
     }));
     return await this.createBulk(notifications);
   }
 
+  async notifyPriceDrop(
+    recipients: { userId: string; previousPrice: number }[],
+    productId: string,
+    productName: string,
+    price: number,
+  ): Promise<Notification[]> {
+    const notifications = recipients.map(({ userId, previousPrice }) => ({
+      userId,
+      type: NotificationType.PROMOTION,
+      title: 'Price Drop',
+      message: `${productName} from your wishlist dropped from ${previousPrice.toLocaleString('vi-VN')} VND to ${price.toLocaleString('vi-VN')} VND`,
+      data: { productId, productName, previousPrice, price },
+      actionUrl: `/products/${productId}`,
+      priority: NotificationPriority.MEDIUM,
+    }));
+    return await this.createBulk(notifications);
+  }
+
+  async notifyNearExpiry(
+    userIds: string[],
+    days: number,
+    lots: {
+      lotId: string;
+      lotNumber: string;
+      productId: string;
+      productName?: string;
+      expiryDate: string;
+      quantity: number;
+    }[],
+  ): Promise<Notification[]> {
+    const units = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const notifications = userIds.map((userId) => ({
+      userId,
+      type: NotificationType.PRODUCT,
+      title: 'Near-Expiry Stock',
+      message: `${lots.length} lots (${units} units) expire within ${days} days. Earliest: ${lots[0].productName ?? lots[0].productId} lot ${lots[0].lotNumber} (${lots[0].expiryDate})`,
+      data: { days, lots },
+      actionUrl: `/inventory/lots/near-expiry?days=${days}`,
+      priority: NotificationPriority.HIGH,
+    }));
+    return await this.createBulk(notifications);
+  }
+
   /**
    * Send notification to a specific user (Admin feature)
    */
@@ -0,0 +1,37 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsOptional,
+  IsString,
+  IsUUID,
+} from 'class-validator';
+
+export class CancelOrderItemsDto {
+  @ApiProperty({
+    description: 'Order items that will not be shipped',
+    type: [String],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('4', { each: true })
+  orderItemIds: string[];
+
+  @ApiPropertyOptional({
+    description: 'Reason shown to the customer',
+    example: 'Sản phẩm tạm hết hàng',
+  })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Mark the items as out of stock instead of cancelled (Staff/Admin only). Out-of-stock items are not returned to inventory.',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  outOfStock?: boolean;
+}
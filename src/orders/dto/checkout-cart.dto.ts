@@ -4,8 +4,8 @@ import {
   IsOptional,
   IsEnum,
   IsBoolean,
-  IsArray,
   IsNumber,
+  IsUUID,
 } from 'class-validator';
 import { ShippingMethod } from '../../shipping-logs/entities/shipping-log.entity';
 
@@ -21,61 +21,23 @@ export enum PaymentMethod {
 
 export class CheckoutCartDto {
   @ApiProperty({
-    example: '72 Thành Thái, Phường 14, Quận 10, Hồ Chí Minh, Vietnam',
-  })
-  @IsString()
-  shippingAddress: string;
-
-  @ApiProperty({
-    example: 'Hồ Chí Minh',
-    description: 'Province/City name (BE will auto-find GHN code)',
-    required: false,
-  })
-  @IsOptional()
-  @IsString()
-  province?: string;
-
-  @ApiProperty({
-    example: 'Quận 10',
-    description: 'District name (BE will auto-find GHN code)',
-    required: false,
-  })
-  @IsOptional()
-  @IsString()
-  district?: string;
-
-  @ApiProperty({
-    example: 'Phường 14',
-    description: 'Ward name (BE will auto-find GHN code)',
-    required: false,
+    example: '9b2f5c1e-7a4d-4c2b-8f3e-1d6a0b9c8e71',
+    description:
+      'Quote from POST /orders/quote. Items, prices, shipping address, shipping fee and total are taken from the quote',
   })
-  @IsOptional()
-  @IsString()
-  ward?: string;
+  @IsUUID()
+  quoteId: string;
 
   @ApiProperty({
     example: 500000,
-    description: 'Total amount for the order (including shipping fee)',
+    description:
+      'Optional: total shown to the customer. Checkout is rejected if it differs from the quote total',
     required: false,
   })
   @IsOptional()
   @IsNumber()
   totalAmount?: number;
 
-  @ApiProperty({
-    example: [
-      '550e8400-e29b-41d4-a716-446655440001',
-      '550e8400-e29b-41d4-a716-446655440002',
-    ],
-    description:
-      'Optional: Specific product IDs to checkout. If not provided, checkout all items with selected=true in cart',
-    required: false,
-  })
-  @IsOptional()
-  @IsArray()
-  @IsString({ each: true })
-  selectedProductIds?: string[];
-
   @ApiProperty({
     example: 'cod',
     enum: PaymentMethod,
@@ -106,8 +68,7 @@ export class CheckoutCartDto {
     example: 'INTERNAL',
     enum: ShippingMethod,
     description:
-      'Shipping method: INTERNAL (nội bộ), GHN (third-party), or BATCH (combine orders)',
-    default: ShippingMethod.INTERNAL,
+      'Optional: must match the shipping method of the quote when provided',
     required: false,
   })
   @IsOptional()
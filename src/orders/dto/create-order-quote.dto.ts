@@ -0,0 +1,88 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateIf,
+} from 'class-validator';
+import { ShippingMethod } from '../../shipping-logs/entities/shipping-log.entity';
+
+export class CreateOrderQuoteDto {
+  @ApiProperty({
+    example: [
+      '550e8400-e29b-41d4-a716-446655440001',
+      '550e8400-e29b-41d4-a716-446655440002',
+    ],
+    description:
+      'Optional: Specific product IDs to checkout. If not provided, quote all items with selected=true in cart',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  selectedProductIds?: string[];
+
+  @ApiProperty({
+    example: 'INTERNAL',
+    enum: ShippingMethod,
+    description:
+      'Shipping method: INTERNAL (nội bộ), GHN (third-party), or BATCH (combine orders)',
+    default: ShippingMethod.INTERNAL,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(ShippingMethod)
+  shippingMethod?: ShippingMethod;
+
+  @ApiProperty({
+    example: '72 Thành Thái',
+    description:
+      'House number and street. Ward, district and province are appended from the fields below',
+  })
+  @IsString()
+  @IsNotEmpty()
+  shippingAddress: string;
+
+  @ApiProperty({
+    example: 'Hồ Chí Minh',
+    description:
+      'Province/City name (BE will auto-find GHN code, or the internal shipping zone)',
+  })
+  @IsString()
+  @IsNotEmpty()
+  province: string;
+
+  @ApiProperty({
+    example: 'Quận 10',
+    description:
+      'District name (BE will auto-find GHN code, or the internal shipping zone)',
+  })
+  @IsString()
+  @IsNotEmpty()
+  district: string;
+
+  @ApiProperty({
+    example: 'Phường 14',
+    description: 'Ward name (BE will auto-find GHN code). Required for GHN',
+    required: false,
+  })
+  @ValidateIf(
+    (dto: CreateOrderQuoteDto) =>
+      dto.shippingMethod === ShippingMethod.GHN || dto.ward !== undefined,
+  )
+  @IsString()
+  @IsNotEmpty()
+  ward?: string;
+
+  @ApiProperty({
+    example: 'SKIN10',
+    description:
+      'Optional voucher code. Automatic promotions are applied without a code',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  voucherCode?: string;
+}
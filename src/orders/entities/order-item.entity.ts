@@ -7,6 +7,13 @@ import {
 } from 'typeorm';
 import { Order } from './order.entity';
 import { Product } from '../../products/entities/product.entity';
+import { LotAllocation } from '../../inventory/entities/inventory-lot.entity';
+
+export enum OrderItemStatus {
+  ACTIVE = 'ACTIVE', // Sẽ được giao
+  CANCELLED = 'CANCELLED', // Khách/staff hủy trước khi giao
+  OUT_OF_STOCK = 'OUT_OF_STOCK', // Kho báo hết hàng, không giao
+}
 
 @Entity('order_items')
 export class OrderItem {
@@ -34,4 +41,24 @@ export class OrderItem {
 
   @Column({ type: 'int' })
   quantity: number;
+
+  @Column({
+    type: 'enum',
+    enum: OrderItemStatus,
+    default: OrderItemStatus.ACTIVE,
+  })
+  status: OrderItemStatus;
+
+  @Column({ type: 'text', nullable: true })
+  cancellationReason: string | null;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  cancelledBy: string | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  cancelledAt: Date | null;
+
+  // Lô đã xuất cho dòng này (FEFO), dùng để truy vết khi thu hồi sản phẩm
+  @Column({ type: 'json', nullable: true })
+  lotAllocations: LotAllocation[] | null;
 }
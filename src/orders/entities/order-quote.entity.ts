@@ -0,0 +1,107 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+export interface OrderQuoteLine {
+  productId: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number; // Product.sellingPrice tại thời điểm báo giá
+  salePercentage: number;
+  finalUnitPrice: number; // Giá sau giảm, dùng làm OrderItem.priceAtTime
+  discount: number; // (unitPrice - finalUnitPrice) * quantity
+  lineTotal: number; // finalUnitPrice * quantity
+}
+
+export interface OrderQuotePromotion {
+  promotionId: string;
+  name: string;
+  code: string | null;
+  discountType: string;
+  discountAmount: number;
+  shippingDiscount: number;
+}
+
+/**
+ * Báo giá do server tính cho một lần checkout. Checkout chỉ nhận quoteId,
+ * không nhận tổng tiền từ client. Quote được ký HMAC, hết hạn sau vài phút
+ * và chỉ dùng được một lần.
+ */
+@Entity('order_quotes')
+@Index(['userId', 'createdAt'])
+export class OrderQuote {
+  // Sinh trước khi lưu vì quoteId nằm trong chữ ký
+  @PrimaryColumn({ type: 'uuid' })
+  quoteId: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'json' })
+  items: OrderQuoteLine[];
+
+  @Column({ type: 'decimal', precision: 15, scale: 2 })
+  subtotal: number; // Tổng giá gốc
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  discountTotal: number;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  shippingFee: number;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  voucherCode: string | null;
+
+  // Tổng giảm từ voucher / khuyến mãi tự động
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  promotionDiscount: number;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  shippingDiscount: number;
+
+  @Column({ type: 'json', nullable: true })
+  appliedPromotions: OrderQuotePromotion[] | null;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2 })
+  totalAmount: number; // subtotal - discountTotal - promotionDiscount + shippingFee - shippingDiscount
+
+  @Column({ type: 'varchar', length: 20, default: 'INTERNAL' })
+  shippingMethod: string;
+
+  // Địa chỉ giao hàng đã báo phí ship, checkout dùng lại đúng địa chỉ này
+  @Column({ type: 'text' })
+  shippingAddress: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  province: string;
+
+  @Column({ type: 'varchar', length: 100 })
+  district: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  ward: string | null;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  toWardCode: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  toDistrictId: number | null;
+
+  // HMAC-SHA256 (hex) trên nội dung báo giá
+  @Column({ type: 'varchar', length: 64 })
+  signature: string;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  // NULL = chưa dùng; checkout set khi đổi quote thành đơn/payment
+  @Column({ type: 'timestamp', nullable: true })
+  usedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
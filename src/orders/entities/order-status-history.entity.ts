@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Order, OrderStatus } from './order.entity';
+import { User } from '../../users/entities/user.entity';
+
+export enum OrderStatusSource {
+  STAFF = 'STAFF',
+  GHN = 'GHN',
+  SYSTEM = 'SYSTEM',
+  CUSTOMER = 'CUSTOMER',
+}
+
+/**
+ * Lịch sử trạng thái đơn hàng. Mỗi lần đổi trạng thái (kể cả lúc tạo đơn,
+ * fromStatus = NULL) ghi một dòng để hiển thị timeline cho khách và nhân viên.
+ */
+@Entity('order_status_history')
+@Index(['orderId', 'createdAt'])
+export class OrderStatusHistory {
+  @PrimaryGeneratedColumn('uuid')
+  historyId: string;
+
+  @Column({ type: 'uuid' })
+  orderId: string;
+
+  @ManyToOne(() => Order, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'orderId' })
+  order: Order;
+
+  // NULL = trạng thái khởi tạo của đơn
+  @Column({ type: 'enum', enum: OrderStatus, nullable: true })
+  fromStatus: OrderStatus | null;
+
+  @Column({ type: 'enum', enum: OrderStatus })
+  toStatus: OrderStatus;
+
+  @Column({ type: 'enum', enum: OrderStatusSource })
+  source: OrderStatusSource;
+
+  // Người thực hiện; NULL với GHN / hệ thống
+  @Column({ type: 'uuid', nullable: true })
+  actorId: string | null;
+
+  @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'actorId' })
+  actor: User;
+
+  @Column({ type: 'text', nullable: true })
+  reason: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -26,6 +26,16 @@ export enum OrderStatus {
   REJECTED = 'REJECTED',
 }
 
+export type OrderPriceBreakdown = Pick<
+  Order,
+  | 'subtotal'
+  | 'discountTotal'
+  | 'promotionDiscount'
+  | 'shippingFee'
+  | 'shippingDiscount'
+  | 'totalAmount'
+>;
+
 @Entity('orders')
 export class Order {
   @PrimaryGeneratedColumn('uuid')
@@ -90,6 +100,26 @@ export class Order {
   })
   preferredShippingMethod: string;
 
+  // Chi tiết giá lấy từ quote lúc checkout:
+  // totalAmount = subtotal - discountTotal - promotionDiscount + shippingFee - shippingDiscount
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  subtotal: number; // Tổng giá gốc
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  discountTotal: number; // Giảm theo salePercentage
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  promotionDiscount: number; // Voucher / khuyến mãi tự động
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  shippingFee: number; // GHN hoặc bảng phí vùng nội bộ
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  shippingDiscount: number;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  totalAmount: number;
+
   // One-to-Many with OrderItems
   @OneToMany(() => OrderItem, (item) => item.order, { cascade: true })
   orderItems: OrderItem[];
@@ -0,0 +1,468 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { OrderQuotesService } from './order-quotes.service';
+import { OrderQuote } from './entities/order-quote.entity';
+import { CartService } from '../cart/cart.service';
+import { ProductsService } from '../products/products.service';
+import { GhnService } from '../ghn/ghn.service';
+import { ShippingMethod } from '../shipping-logs/entities/shipping-log.entity';
+import { ShippingZonesService } from '../shipping-logs/shipping-zones.service';
+import {
+  PromotionEvaluation,
+  PromotionsService,
+} from '../promotions/promotions.service';
+import { PromotionDiscountType } from '../promotions/entities/promotion.entity';
+import { StockReservationsService } from '../inventory/stock-reservations.service';
+
+describe('OrderQuotesService', () => {
+  let service: OrderQuotesService;
+
+  // Quote đã lưu, mô phỏng bảng order_quotes
+  let stored: OrderQuote | null;
+
+  const userId = 'user-1';
+
+  const products: Record<
+    string,
+    { sellingPrice: number; salePercentage: number | string }
+  > = {};
+
+  const cart = {
+    userId,
+    items: [
+      { productId: 'product-1', price: 1, quantity: 2, selected: true },
+      { productId: 'product-2', price: 1, quantity: 1, selected: false },
+    ],
+    totalItems: 3,
+    totalPrice: 3,
+    updatedAt: new Date(),
+  };
+
+  const address = {
+    shippingAddress: '72 Thành Thái',
+    province: 'Hồ Chí Minh',
+    district: 'Quận 10',
+  };
+
+  const mockQuoteRepository = {
+    create: jest.fn((data: Partial<OrderQuote>) => ({ ...data })),
+    save: jest.fn((quote: OrderQuote) => {
+      stored = { ...quote };
+      return Promise.resolve(quote);
+    }),
+    findOne: jest.fn(() => Promise.resolve(stored ? { ...stored } : null)),
+    update: jest.fn(() => Promise.resolve({ affected: 1 })),
+  };
+
+  const mockCartService = {
+    getCart: jest.fn(),
+    getSelectedItems: jest.fn(),
+  };
+
+  const mockProductsService = {
+    findOne: jest.fn((productId: string) =>
+      Promise.resolve({
+        productId,
+        productName: `Name ${productId}`,
+        ...products[productId],
+      }),
+    ),
+  };
+
+  const mockGhnService = {
+    findAddressCodes: jest.fn(),
+    calculateShippingFee: jest.fn(),
+    getWards: jest.fn(),
+    getDistricts: jest.fn(),
+  };
+
+  const mockShippingZonesService = {
+    calculateFee: jest.fn(),
+  };
+
+  const noPromotions: PromotionEvaluation = {
+    applied: [],
+    discountAmount: 0,
+    shippingDiscount: 0,
+    voucherCode: null,
+    voucherError: null,
+  };
+
+  const voucher: PromotionEvaluation = {
+    applied: [
+      {
+        promotionId: 'promotion-1',
+        name: 'Giảm 20k',
+        code: 'SKIN20',
+        discountType: PromotionDiscountType.FIXED,
+        discountAmount: 20000,
+        shippingDiscount: 0,
+      },
+    ],
+    discountAmount: 20000,
+    shippingDiscount: 0,
+    voucherCode: 'SKIN20',
+    voucherError: null,
+  };
+
+  const mockPromotionsService = {
+    evaluate: jest.fn(),
+    claim: jest.fn(),
+  };
+
+  const mockStockReservationsService = {
+    reserve: jest.fn().mockResolvedValue([]),
+    release: jest.fn().mockResolvedValue(0),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, fallback?: string) =>
+      key === 'ORDER_QUOTE_SECRET' ? 'test-secret' : fallback,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderQuotesService,
+        {
+          provide: getRepositoryToken(OrderQuote),
+          useValue: mockQuoteRepository,
+        },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: CartService, useValue: mockCartService },
+        { provide: ProductsService, useValue: mockProductsService },
+        { provide: GhnService, useValue: mockGhnService },
+        {
+          provide: ShippingZonesService,
+          useValue: mockShippingZonesService,
+        },
+        { provide: PromotionsService, useValue: mockPromotionsService },
+        {
+          provide: StockReservationsService,
+          useValue: mockStockReservationsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrderQuotesService>(OrderQuotesService);
+
+    stored = null;
+    products['product-1'] = { sellingPrice: 100000, salePercentage: '10.00' };
+    products['product-2'] = { sellingPrice: 50000, salePercentage: 0 };
+    mockCartService.getCart.mockResolvedValue(cart);
+    mockCartService.getSelectedItems.mockReturnValue([cart.items[0]]);
+    mockQuoteRepository.update.mockResolvedValue({ affected: 1 });
+    mockPromotionsService.evaluate.mockResolvedValue(noPromotions);
+    mockShippingZonesService.calculateFee.mockResolvedValue(0);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createQuote', () => {
+    // TC-QUOTE-001-01: Normal - Prices come from the product, not the cart
+    it('TC-QUOTE-001-01: should price selected items from current product prices', async () => {
+      const quote = await service.createQuote(userId, address);
+
+      expect(quote.items).toEqual([
+        expect.objectContaining({
+          productId: 'product-1',
+          quantity: 2,
+          unitPrice: 100000,
+          finalUnitPrice: 90000,
+          discount: 20000,
+          lineTotal: 180000,
+        }),
+      ]);
+      expect(quote.subtotal).toBe(200000);
+      expect(quote.discountTotal).toBe(20000);
+      expect(quote.shippingFee).toBe(0);
+      expect(quote.totalAmount).toBe(180000);
+      expect(quote.shippingAddress).toBe('72 Thành Thái, Quận 10, Hồ Chí Minh');
+      expect(quote.signature).toMatch(/^[0-9a-f]{64}$/);
+      expect(quote.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    // TC-QUOTE-001-02: Normal - GHN shipping fee is part of the total
+    it('TC-QUOTE-001-02: should add the GHN shipping fee', async () => {
+      mockGhnService.findAddressCodes.mockResolvedValue({
+        provinceId: 202,
+        districtId: 1442,
+        wardCode: '21012',
+      });
+      mockGhnService.calculateShippingFee.mockResolvedValue(32000);
+
+      const quote = await service.createQuote(userId, {
+        selectedProductIds: ['product-1', 'product-2'],
+        shippingMethod: ShippingMethod.GHN,
+        shippingAddress: '1 Võ Văn Ngân',
+        province: 'TP.HCM',
+        district: 'Thủ Đức',
+        ward: 'Long Thạnh Mỹ',
+      });
+
+      expect(mockGhnService.calculateShippingFee).toHaveBeenCalledWith({
+        toDistrictId: 1442,
+        toWardCode: '21012',
+        weight: 400,
+      });
+      expect(quote.toDistrictId).toBe(1442);
+      expect(quote.shippingAddress).toBe(
+        '1 Võ Văn Ngân, Long Thạnh Mỹ, Thủ Đức, TP.HCM',
+      );
+      expect(quote.shippingFee).toBe(32000);
+      expect(quote.totalAmount).toBe(180000 + 50000 + 32000);
+    });
+
+    // TC-QUOTE-001-03: Abnormal - Empty cart
+    it('TC-QUOTE-001-03: should throw error when cart is empty', async () => {
+      mockCartService.getCart.mockResolvedValue({ ...cart, items: [] });
+
+      await expect(service.createQuote(userId, address)).rejects.toThrow(
+        'Cart is empty',
+      );
+    });
+
+    // TC-QUOTE-001-04: Normal - Internal delivery priced from the zone table
+    it('TC-QUOTE-001-04: should add the internal zone fee for INTERNAL delivery', async () => {
+      mockShippingZonesService.calculateFee.mockResolvedValue(25000);
+
+      const quote = await service.createQuote(userId, {
+        ...address,
+        shippingMethod: ShippingMethod.INTERNAL,
+      });
+
+      expect(mockShippingZonesService.calculateFee).toHaveBeenCalledWith({
+        province: 'Hồ Chí Minh',
+        district: 'Quận 10',
+        shippingMethod: ShippingMethod.INTERNAL,
+        weight: 200,
+      });
+      expect(mockGhnService.calculateShippingFee).not.toHaveBeenCalled();
+      expect(quote.shippingFee).toBe(25000);
+      expect(quote.totalAmount).toBe(205000);
+    });
+
+    // TC-QUOTE-001-05: Normal - Stock is held for the checkout session
+    it('TC-QUOTE-001-05: should reserve the quoted lines until the quote expires', async () => {
+      const quote = await service.createQuote(userId, address);
+
+      expect(mockStockReservationsService.reserve).toHaveBeenCalledWith(
+        userId,
+        [
+          {
+            productId: 'product-1',
+            productName: 'Name product-1',
+            quantity: 2,
+          },
+        ],
+        { quoteId: quote.quoteId, expiresAt: quote.expiresAt },
+      );
+    });
+
+    // TC-QUOTE-001-06: Abnormal - Not enough stock to hold
+    it('TC-QUOTE-001-06: should not save a quote when stock cannot be reserved', async () => {
+      mockStockReservationsService.reserve.mockRejectedValueOnce(
+        new BadRequestException(
+          'Sản phẩm "Name product-1" không đủ hàng trong kho',
+        ),
+      );
+
+      await expect(service.createQuote(userId, address)).rejects.toThrow(
+        'không đủ hàng trong kho',
+      );
+      expect(mockQuoteRepository.save).not.toHaveBeenCalled();
+    });
+
+    // TC-QUOTE-001-07: Abnormal - GHN quote without a complete address
+    it('TC-QUOTE-001-07: should reject a GHN quote without province, district and ward', async () => {
+      await expect(
+        service.createQuote(userId, {
+          ...address,
+          shippingMethod: ShippingMethod.GHN,
+        }),
+      ).rejects.toThrow(
+        'Province, district and ward are required for GHN delivery',
+      );
+      expect(mockGhnService.findAddressCodes).not.toHaveBeenCalled();
+      expect(mockStockReservationsService.reserve).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('promotions', () => {
+    // TC-QUOTE-003-01: Normal - Voucher discount is deducted and signed
+    it('TC-QUOTE-003-01: should deduct the voucher discount from the total', async () => {
+      mockPromotionsService.evaluate.mockResolvedValue(voucher);
+
+      const quote = await service.createQuote(userId, {
+        ...address,
+        voucherCode: 'skin20',
+      });
+
+      expect(mockPromotionsService.evaluate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId,
+          voucherCode: 'skin20',
+          lines: [{ productId: 'product-1', quantity: 2, unitPrice: 90000 }],
+        }),
+      );
+      expect(quote.promotionDiscount).toBe(20000);
+      expect(quote.voucherCode).toBe('SKIN20');
+      expect(quote.totalAmount).toBe(160000);
+    });
+
+    // TC-QUOTE-003-02: Abnormal - Invalid voucher is reported to the client
+    it('TC-QUOTE-003-02: should reject a quote with an unusable voucher', async () => {
+      mockPromotionsService.evaluate.mockResolvedValue({
+        ...noPromotions,
+        voucherError: 'Mã giảm giá đã hết hạn',
+      });
+
+      await expect(
+        service.createQuote(userId, { ...address, voucherCode: 'OLD' }),
+      ).rejects.toThrow('Mã giảm giá đã hết hạn');
+      expect(mockQuoteRepository.save).not.toHaveBeenCalled();
+    });
+
+    // TC-QUOTE-003-03: Normal - Redemption is claimed for the quote
+    it('TC-QUOTE-003-03: should claim applied promotions on redeem', async () => {
+      mockPromotionsService.evaluate.mockResolvedValue(voucher);
+      const created = await service.createQuote(userId, {
+        ...address,
+        voucherCode: 'SKIN20',
+      });
+
+      await service.redeemQuote(userId, created.quoteId, 160000);
+
+      expect(mockPromotionsService.claim).toHaveBeenCalledWith(
+        voucher.applied,
+        { userId, quoteId: created.quoteId },
+      );
+    });
+
+    // TC-QUOTE-003-04: Abnormal - Voucher ran out after the quote
+    it('TC-QUOTE-003-04: should reject a quote whose voucher is no longer valid', async () => {
+      mockPromotionsService.evaluate.mockResolvedValueOnce(voucher);
+      const created = await service.createQuote(userId, {
+        ...address,
+        voucherCode: 'SKIN20',
+      });
+      mockPromotionsService.evaluate.mockResolvedValueOnce({
+        ...noPromotions,
+        voucherError: 'Mã giảm giá đã hết lượt sử dụng',
+      });
+
+      await expect(
+        service.redeemQuote(userId, created.quoteId),
+      ).rejects.toThrow('Mã giảm giá đã hết lượt sử dụng');
+      expect(mockQuoteRepository.update).not.toHaveBeenCalled();
+      expect(mockPromotionsService.claim).not.toHaveBeenCalled();
+    });
+
+    // TC-QUOTE-003-05: Abnormal - Automatic promotion changed after the quote
+    it('TC-QUOTE-003-05: should reject a quote whose promotion amount changed', async () => {
+      const created = await service.createQuote(userId, address);
+      mockPromotionsService.evaluate.mockResolvedValueOnce({
+        ...voucher,
+        voucherCode: null,
+      });
+
+      await expect(
+        service.redeemQuote(userId, created.quoteId),
+      ).rejects.toThrow('Promotions have changed since the quote was issued');
+      expect(mockQuoteRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('redeemQuote', () => {
+    // TC-QUOTE-002-01: Normal - Valid quote is marked as used
+    it('TC-QUOTE-002-01: should redeem a valid quote once', async () => {
+      const created = await service.createQuote(userId, address);
+
+      const quote = await service.redeemQuote(userId, created.quoteId, 180000);
+
+      expect(quote.quoteId).toBe(created.quoteId);
+      expect(mockQuoteRepository.update).toHaveBeenCalledWith(
+        expect.objectContaining({ quoteId: created.quoteId }),
+        expect.objectContaining({ usedAt: expect.any(Date) as Date }),
+      );
+    });
+
+    // TC-QUOTE-002-02: Abnormal - Total was tampered with
+    it('TC-QUOTE-002-02: should reject a stored quote whose total was changed', async () => {
+      const created = await service.createQuote(userId, address);
+      stored!.totalAmount = 1;
+
+      await expect(
+        service.redeemQuote(userId, created.quoteId),
+      ).rejects.toThrow('Quote signature is invalid');
+    });
+
+    // TC-QUOTE-002-03: Abnormal - Client total differs from the quote
+    it('TC-QUOTE-002-03: should reject a client total that differs from the quote', async () => {
+      const created = await service.createQuote(userId, address);
+
+      await expect(
+        service.redeemQuote(userId, created.quoteId, 1),
+      ).rejects.toThrow('Total amount does not match the quote');
+    });
+
+    // TC-QUOTE-002-04: Abnormal - Price changed after the quote
+    it('TC-QUOTE-002-04: should reject a stale quote after a price change', async () => {
+      const created = await service.createQuote(userId, address);
+      products['product-1'].salePercentage = 0;
+
+      await expect(
+        service.redeemQuote(userId, created.quoteId),
+      ).rejects.toThrow('has changed since the quote was issued');
+      expect(mockQuoteRepository.update).not.toHaveBeenCalled();
+    });
+
+    // TC-QUOTE-002-05: Abnormal - Expired quote
+    it('TC-QUOTE-002-05: should reject an expired quote', async () => {
+      const created = await service.createQuote(userId, address);
+      const nowSpy = jest
+        .spyOn(Date, 'now')
+        .mockReturnValue(created.expiresAt.getTime() + 1000);
+
+      await expect(
+        service.redeemQuote(userId, created.quoteId),
+      ).rejects.toThrow('Quote has expired');
+
+      nowSpy.mockRestore();
+    });
+
+    // TC-QUOTE-002-06: Abnormal - Concurrent checkout with the same quote
+    it('TC-QUOTE-002-06: should reject a quote redeemed by another request', async () => {
+      const created = await service.createQuote(userId, address);
+      mockQuoteRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.redeemQuote(userId, created.quoteId),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    // TC-QUOTE-002-07: Abnormal - Quote of another user
+    it('TC-QUOTE-002-07: should not find a quote of another user', async () => {
+      mockQuoteRepository.findOne.mockResolvedValueOnce(null);
+
+      await expect(
+        service.redeemQuote('other-user', 'quote-id'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    // TC-QUOTE-002-08: Abnormal - Shipping address was changed after the quote
+    it('TC-QUOTE-002-08: should reject a stored quote whose shipping address was changed', async () => {
+      const created = await service.createQuote(userId, address);
+      stored!.shippingAddress = '1 Lê Lợi, Quận 1, Hồ Chí Minh';
+
+      await expect(
+        service.redeemQuote(userId, created.quoteId),
+      ).rejects.toThrow('Quote signature is invalid');
+    });
+  });
+});
@@ -0,0 +1,497 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { OrderQuote, OrderQuoteLine } from './entities/order-quote.entity';
+import { CreateOrderQuoteDto } from './dto/create-order-quote.dto';
+import { CartService } from '../cart/cart.service';
+import { Cart, CartItem } from '../cart/interfaces/cart-item.interface';
+import { ProductsService } from '../products/products.service';
+import { GhnService } from '../ghn/ghn.service';
+import {
+  PromotionEvaluation,
+  PromotionsService,
+} from '../promotions/promotions.service';
+import { ShippingMethod } from '../shipping-logs/entities/shipping-log.entity';
+import { ShippingZonesService } from '../shipping-logs/shipping-zones.service';
+import { StockReservationsService } from '../inventory/stock-reservations.service';
+
+/**
+ * Báo giá checkout: giá từng dòng lấy từ Product hiện tại (không tin giá
+ * trong cart hay tổng tiền từ client), trừ khuyến mãi, cộng phí ship theo
+ * địa chỉ giao, ký HMAC cả địa chỉ để checkout không đổi sang địa chỉ khác.
+ */
+@Injectable()
+export class OrderQuotesService {
+  private readonly logger = new Logger(OrderQuotesService.name);
+  private readonly QUOTE_TTL_MS = 10 * 60 * 1000; // 10 phút
+  private readonly GRAMS_PER_ITEM = 200; // Cùng cách tính cân nặng khi tạo đơn GHN
+
+  constructor(
+    @InjectRepository(OrderQuote)
+    private readonly quoteRepository: Repository<OrderQuote>,
+    private readonly configService: ConfigService,
+    private readonly cartService: CartService,
+    private readonly productsService: ProductsService,
+    private readonly ghnService: GhnService,
+    private readonly shippingZonesService: ShippingZonesService,
+    private readonly promotionsService: PromotionsService,
+    private readonly stockReservationsService: StockReservationsService,
+  ) {}
+
+  async createQuote(
+    userId: string,
+    dto: CreateOrderQuoteDto,
+  ): Promise<OrderQuote> {
+    const cart = await this.cartService.getCart(userId);
+    if (!cart.items || cart.items.length === 0) {
+      throw new BadRequestException('Cart is empty');
+    }
+
+    const selectedItems = this.selectItems(cart, dto.selectedProductIds);
+    if (selectedItems.length === 0) {
+      throw new BadRequestException(
+        'Vui lòng chọn ít nhất một sản phẩm để thanh toán',
+      );
+    }
+
+    const items = await this.priceLines(selectedItems);
+    const shippingMethod = dto.shippingMethod || ShippingMethod.INTERNAL;
+    const { shippingFee, toWardCode, toDistrictId } =
+      await this.calculateShipping({ ...dto, shippingMethod }, items.length);
+
+    const subtotal = items.reduce(
+      (sum, line) => sum + line.unitPrice * line.quantity,
+      0,
+    );
+    const discountTotal = items.reduce((sum, line) => sum + line.discount, 0);
+
+    const promotions = await this.evaluatePromotions(
+      userId,
+      items,
+      shippingFee,
+      dto.voucherCode,
+    );
+    if (promotions.voucherError) {
+      throw new BadRequestException(promotions.voucherError);
+    }
+
+    const quote = this.quoteRepository.create({
+      quoteId: uuidv4(),
+      userId,
+      items,
+      subtotal,
+      discountTotal,
+      shippingFee,
+      voucherCode: promotions.voucherCode,
+      promotionDiscount: promotions.discountAmount,
+      shippingDiscount: promotions.shippingDiscount,
+      appliedPromotions: promotions.applied,
+      totalAmount:
+        subtotal -
+        discountTotal -
+        promotions.discountAmount +
+        shippingFee -
+        promotions.shippingDiscount,
+      shippingMethod,
+      shippingAddress: [
+        dto.shippingAddress,
+        dto.ward,
+        dto.district,
+        dto.province,
+      ]
+        .map((part) => part?.trim())
+        .filter(Boolean)
+        .join(', '),
+      province: dto.province,
+      district: dto.district,
+      ward: dto.ward ?? null,
+      toWardCode,
+      toDistrictId,
+      // MySQL timestamp không lưu millisecond → làm tròn để chữ ký khớp khi đọc lại
+      expiresAt: new Date(
+        Math.floor((Date.now() + this.QUOTE_TTL_MS) / 1000) * 1000,
+      ),
+      usedAt: null,
+    });
+    quote.signature = this.sign(quote);
+
+    // 🔒 Giữ hàng cho phiên checkout, hết hạn cùng quote
+    await this.stockReservationsService.reserve(
+      userId,
+      items.map((line) => ({
+        productId: line.productId,
+        productName: line.productName,
+        quantity: line.quantity,
+      })),
+      { quoteId: quote.quoteId, expiresAt: quote.expiresAt },
+    );
+
+    let saved: OrderQuote;
+    try {
+      saved = await this.quoteRepository.save(quote);
+    } catch (error) {
+      await this.stockReservationsService.release({ quoteId: quote.quoteId });
+      throw error;
+    }
+    this.logger.log(
+      `🧾 Quote ${saved.quoteId} for user ${userId}: ${saved.totalAmount} VND (${items.length} items, ship ${shippingFee}, promotions -${promotions.discountAmount + promotions.shippingDiscount})`,
+    );
+    return saved;
+  }
+
+  /**
+   * Kiểm tra và đánh dấu đã dùng quote khi checkout.
+   * Từ chối nếu quote hết hạn, đã dùng, bị sửa, lệch tổng tiền client gửi
+   * hoặc giá sản phẩm / giỏ hàng / khuyến mãi đã thay đổi kể từ lúc báo giá.
+   * Lượt dùng khuyến mãi được ghi nhận theo quoteId.
+   */
+  async redeemQuote(
+    userId: string,
+    quoteId: string,
+    expectedTotal?: number,
+  ): Promise<OrderQuote> {
+    const quote = await this.quoteRepository.findOne({
+      where: { quoteId, userId },
+    });
+    if (!quote) {
+      throw new NotFoundException('Quote not found');
+    }
+    if (quote.usedAt) {
+      throw new BadRequestException('Quote has already been used');
+    }
+    if (new Date(quote.expiresAt).getTime() < Date.now()) {
+      throw new BadRequestException(
+        'Quote has expired. Please request a new quote.',
+      );
+    }
+    if (!this.verify(quote)) {
+      this.logger.warn(`⚠️ Quote ${quoteId} failed signature verification`);
+      throw new BadRequestException('Quote signature is invalid');
+    }
+    if (
+      expectedTotal !== undefined &&
+      expectedTotal !== Number(quote.totalAmount)
+    ) {
+      throw new BadRequestException(
+        `Total amount does not match the quote (${Number(quote.totalAmount)} VND)`,
+      );
+    }
+
+    // Giỏ hàng phải còn đúng các sản phẩm, số lượng đã báo giá
+    const cart = await this.cartService.getCart(userId);
+    for (const line of quote.items) {
+      const cartItem = cart.items?.find(
+        (item) => item.productId === line.productId,
+      );
+      if (!cartItem || cartItem.quantity !== line.quantity) {
+        throw new BadRequestException(
+          'Cart has changed since the quote was issued. Please request a new quote.',
+        );
+      }
+    }
+
+    // Giá hiện tại phải giống lúc báo giá
+    const current = await this.priceLines(quote.items);
+    const changed = current.find(
+      (line, index) =>
+        line.finalUnitPrice !== quote.items[index].finalUnitPrice,
+    );
+    if (changed) {
+      throw new BadRequestException(
+        `Price of "${changed.productName}" has changed since the quote was issued. Please request a new quote.`,
+      );
+    }
+
+    // Khuyến mãi có thể hết hạn / hết lượt sau khi báo giá
+    const promotions = await this.evaluatePromotions(
+      userId,
+      current,
+      Number(quote.shippingFee),
+      quote.voucherCode,
+    );
+    if (quote.voucherCode && promotions.voucherError) {
+      throw new BadRequestException(
+        `${promotions.voucherError}. Please request a new quote.`,
+      );
+    }
+    if (
+      promotions.discountAmount !== Number(quote.promotionDiscount) ||
+      promotions.shippingDiscount !== Number(quote.shippingDiscount)
+    ) {
+      throw new BadRequestException(
+        'Promotions have changed since the quote was issued. Please request a new quote.',
+      );
+    }
+
+    // Chặn 2 request checkout dùng cùng một quote
+    const result = await this.quoteRepository.update(
+      { quoteId, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new BadRequestException('Quote has already been used');
+    }
+
+    await this.promotionsService.claim(promotions.applied, {
+      userId,
+      quoteId,
+    });
+
+    return quote;
+  }
+
+  private evaluatePromotions(
+    userId: string,
+    items: OrderQuoteLine[],
+    shippingFee: number,
+    voucherCode?: string | null,
+  ): Promise<PromotionEvaluation> {
+    return this.promotionsService.evaluate({
+      userId,
+      lines: items.map((line) => ({
+        productId: line.productId,
+        quantity: line.quantity,
+        unitPrice: line.finalUnitPrice,
+      })),
+      shippingFee,
+      voucherCode,
+    });
+  }
+
+  private selectItems(cart: Cart, selectedProductIds?: string[]): CartItem[] {
+    if (selectedProductIds && selectedProductIds.length > 0) {
+      this.logger.log(
+        `📦 Quote from selectedProductIds: ${selectedProductIds.join(', ')}`,
+      );
+      return cart.items.filter((item) =>
+        selectedProductIds.includes(item.productId),
+      );
+    }
+
+    // Nếu không → dùng field selected=true trong cart
+    this.logger.log(`📦 Quote from cart selection (selected=true)`);
+    return this.cartService.getSelectedItems(cart);
+  }
+
+  /**
+   * Phí ship theo phương thức giao: GHN tính theo mã ward/district,
+   * INTERNAL / BATCH theo bảng phí vùng
+   */
+  async calculateShipping(
+    dto: Partial<
+      Pick<CreateOrderQuoteDto, 'province' | 'district' | 'ward'>
+    > & {
+      shippingMethod: ShippingMethod;
+    },
+    itemCount: number,
+  ): Promise<{
+    shippingFee: number;
+    toWardCode: string | null;
+    toDistrictId: number | null;
+  }> {
+    let toWardCode: string | null = null;
+    let toDistrictId: number | null = null;
+    let shippingFee = 0;
+    const weight = (itemCount || 1) * this.GRAMS_PER_ITEM;
+
+    if (dto.shippingMethod === ShippingMethod.GHN) {
+      // Thiếu địa chỉ thì không tính được phí GHN → không báo giá ship 0đ
+      if (!dto.province || !dto.district || !dto.ward) {
+        throw new BadRequestException(
+          'Province, district and ward are required for GHN delivery',
+        );
+      }
+
+      const codes = await this.resolveGhnAddress({
+        province: dto.province,
+        district: dto.district,
+        ward: dto.ward,
+      });
+      toWardCode = codes.toWardCode;
+      toDistrictId = codes.toDistrictId;
+      shippingFee = await this.ghnService.calculateShippingFee({
+        toDistrictId,
+        toWardCode,
+        weight,
+      });
+    } else {
+      // INTERNAL / BATCH: bảng phí theo vùng
+      shippingFee = await this.shippingZonesService.calculateFee({
+        province: dto.province,
+        district: dto.district,
+        shippingMethod: dto.shippingMethod,
+        weight,
+      });
+    }
+
+    return { shippingFee, toWardCode, toDistrictId };
+  }
+
+  /**
+   * Giá từng dòng theo Product hiện tại (giá bán, % giảm)
+   */
+  async priceLines(
+    items: Pick<CartItem, 'productId' | 'quantity'>[],
+  ): Promise<OrderQuoteLine[]> {
+    const lines: OrderQuoteLine[] = [];
+    for (const item of items) {
+      const product = await this.productsService.findOne(item.productId);
+      const unitPrice = Number(product.sellingPrice);
+      const salePercentage = Number(product.salePercentage) || 0;
+      const finalUnitPrice =
+        salePercentage > 0
+          ? Math.round(unitPrice - (unitPrice * salePercentage) / 100)
+          : unitPrice;
+
+      lines.push({
+        productId: product.productId,
+        productName: product.productName,
+        quantity: item.quantity,
+        unitPrice,
+        salePercentage,
+        finalUnitPrice,
+        discount: (unitPrice - finalUnitPrice) * item.quantity,
+        lineTotal: finalUnitPrice * item.quantity,
+      });
+    }
+    return lines;
+  }
+
+  /**
+   * Tìm GHN ward/district từ tên địa chỉ, fallback về khu vực gần nhất
+   */
+  private async resolveGhnAddress(
+    dto: Pick<CreateOrderQuoteDto, 'province' | 'district' | 'ward'>,
+  ): Promise<{ toWardCode: string; toDistrictId: number }> {
+    this.logger.log(
+      `🔍 Finding GHN codes for: ${dto.province} > ${dto.district} > ${dto.ward}`,
+    );
+
+    const ghnCodes = await this.ghnService.findAddressCodes({
+      province: dto.province,
+      district: dto.district,
+      ward: dto.ward,
+    });
+
+    let toWardCode = ghnCodes.wardCode;
+    let toDistrictId = ghnCodes.districtId;
+
+    if (toWardCode && toDistrictId) {
+      this.logger.log(
+        `✅ Found GHN codes: wardCode=${toWardCode}, districtId=${toDistrictId}`,
+      );
+      return { toWardCode, toDistrictId };
+    }
+
+    this.logger.warn(
+      `⚠️ Could not find complete GHN codes. Found: wardCode=${toWardCode}, districtId=${toDistrictId}`,
+    );
+
+    // Try to get missing info from nearby areas
+    try {
+      // If we have district but missing ward → get first ward in district
+      if (toDistrictId && !toWardCode) {
+        const wards = await this.ghnService.getWards(toDistrictId);
+        if (wards.length > 0) {
+          toWardCode = wards[0].WardCode;
+          this.logger.log(
+            `📍 Using first ward in district: ${wards[0].WardName} (${toWardCode})`,
+          );
+        }
+      }
+
+      // If we have province but missing district → get first district in province
+      if (ghnCodes.provinceId && !toDistrictId) {
+        const districts = await this.ghnService.getDistricts(
+          ghnCodes.provinceId,
+        );
+        if (districts.length > 0) {
+          toDistrictId = districts[0].DistrictID;
+          this.logger.log(
+            `📍 Using first district in province: ${districts[0].DistrictName} (${toDistrictId})`,
+          );
+
+          // Get first ward in this district
+          const wards = await this.ghnService.getWards(toDistrictId);
+          if (wards.length > 0) {
+            toWardCode = wards[0].WardCode;
+            this.logger.log(
+              `📍 Using first ward: ${wards[0].WardName} (${toWardCode})`,
+            );
+          }
+        }
+      }
+    } catch (fallbackError) {
+      this.logger.error(
+        `Failed to get fallback address: ${(fallbackError as Error).message}`,
+      );
+    }
+
+    // If still missing, fallback to default TP.HCM address
+    if (!toWardCode || !toDistrictId) {
+      this.logger.warn(
+        `📍 Using default fallback: Thủ Đức, TP.HCM (District: 1442, Ward: 21012)`,
+      );
+      toWardCode = '21012'; // Phường Long Thạnh Mỹ, Thủ Đức
+      toDistrictId = 1442; // Quận Thủ Đức
+    }
+
+    return { toWardCode, toDistrictId };
+  }
+
+  private sign(quote: OrderQuote): string {
+    const secret =
+      this.configService.get<string>('ORDER_QUOTE_SECRET') ||
+      this.configService.get<string>('JWT_SECRET', 'your-secret-key');
+
+    // Chuẩn hoá số (decimal đọc từ MySQL là string) để ký lại được sau khi đọc từ DB
+    const payload = JSON.stringify({
+      quoteId: quote.quoteId,
+      userId: quote.userId,
+      items: quote.items.map((line) => [
+        line.productId,
+        line.quantity,
+        line.unitPrice,
+        line.finalUnitPrice,
+      ]),
+      subtotal: Number(quote.subtotal),
+      discountTotal: Number(quote.discountTotal),
+      shippingFee: Number(quote.shippingFee),
+      voucherCode: quote.voucherCode ?? null,
+      promotionDiscount: Number(quote.promotionDiscount ?? 0),
+      shippingDiscount: Number(quote.shippingDiscount ?? 0),
+      promotions: (quote.appliedPromotions ?? []).map((promotion) => [
+        promotion.promotionId,
+        promotion.discountAmount,
+        promotion.shippingDiscount,
+      ]),
+      totalAmount: Number(quote.totalAmount),
+      shippingMethod: quote.shippingMethod,
+      shippingAddress: quote.shippingAddress,
+      province: quote.province,
+      district: quote.district,
+      ward: quote.ward ?? null,
+      toWardCode: quote.toWardCode ?? null,
+      toDistrictId: quote.toDistrictId ?? null,
+      expiresAt: new Date(quote.expiresAt).toISOString(),
+    });
+
+    return createHmac('sha256', secret).update(payload).digest('hex');
+  }
+
+  private verify(quote: OrderQuote): boolean {
+    const expected = Buffer.from(this.sign(quote));
+    const provided = Buffer.from(quote.signature ?? '');
+    return (
+      expected.length === provided.length && timingSafeEqual(expected, provided)
+    );
+  }
+}
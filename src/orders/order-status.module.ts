@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { OrderStatusHistory } from './entities/order-status-history.entity';
+import { OrderStatusService } from './order-status.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([OrderStatusHistory])],
+  providers: [OrderStatusService],
+  exports: [OrderStatusService],
+})
+export class OrderStatusModule {}
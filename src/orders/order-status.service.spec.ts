@@ -0,0 +1,168 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EntityManager } from 'typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { OrderStatusService } from './order-status.service';
+import { Order, OrderStatus } from './entities/order.entity';
+import {
+  OrderStatusHistory,
+  OrderStatusSource,
+} from './entities/order-status-history.entity';
+import { canTransitionOrderStatus } from './utils/order-status-transitions.util';
+
+describe('OrderStatusService', () => {
+  let service: OrderStatusService;
+
+  const mockHistoryRepository = {
+    find: jest.fn(),
+  };
+
+  const mockManager = {
+    update: jest.fn(),
+    create: jest.fn(
+      (_entity: unknown, data: Partial<OrderStatusHistory>) => data,
+    ),
+    save: jest.fn((_entity: unknown, data: Partial<OrderStatusHistory>) =>
+      Promise.resolve(data),
+    ),
+    transaction: jest.fn(
+      (work: (manager: unknown) => Promise<unknown>): Promise<unknown> =>
+        work(mockManager),
+    ),
+  };
+
+  const order = (status: OrderStatus): Order =>
+    ({ orderId: 'order-1', status }) as Order;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrderStatusService,
+        {
+          provide: getRepositoryToken(OrderStatusHistory),
+          useValue: mockHistoryRepository,
+        },
+        {
+          provide: EntityManager,
+          useValue: mockManager,
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrderStatusService>(OrderStatusService);
+    mockManager.update.mockResolvedValue({ affected: 1 });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('transition', () => {
+    // TC-OSH-001-01: Normal - Allowed transition is applied and recorded
+    it('TC-OSH-001-01: should update the status and record the history', async () => {
+      const target = order(OrderStatus.SHIPPING);
+
+      const changed = await service.transition(target, OrderStatus.DELIVERED, {
+        source: OrderStatusSource.GHN,
+        reason: 'delivered',
+      });
+
+      expect(changed).toBe(true);
+      expect(target.status).toBe(OrderStatus.DELIVERED);
+      expect(mockManager.update).toHaveBeenCalledWith(
+        Order,
+        { orderId: 'order-1', status: OrderStatus.SHIPPING },
+        { status: OrderStatus.DELIVERED },
+      );
+      expect(mockManager.save).toHaveBeenCalledWith(OrderStatusHistory, {
+        orderId: 'order-1',
+        fromStatus: OrderStatus.SHIPPING,
+        toStatus: OrderStatus.DELIVERED,
+        source: OrderStatusSource.GHN,
+        actorId: null,
+        reason: 'delivered',
+      });
+    });
+
+    // TC-OSH-001-02: Abnormal - Transition not in the map
+    it('TC-OSH-001-02: should reject a transition out of a final status', async () => {
+      const target = order(OrderStatus.COMPLETED);
+
+      await expect(
+        service.transition(target, OrderStatus.SHIPPING, {
+          source: OrderStatusSource.STAFF,
+          actorId: 'staff-1',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(target.status).toBe(OrderStatus.COMPLETED);
+      expect(mockManager.update).not.toHaveBeenCalled();
+    });
+
+    // TC-OSH-001-03: Boundary - Same status is a no-op
+    it('TC-OSH-001-03: should not record anything when the status is unchanged', async () => {
+      const changed = await service.transition(
+        order(OrderStatus.SHIPPING),
+        OrderStatus.SHIPPING,
+        { source: OrderStatusSource.GHN },
+      );
+
+      expect(changed).toBe(false);
+      expect(mockManager.update).not.toHaveBeenCalled();
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    // TC-OSH-001-04: Abnormal - Status changed concurrently
+    it('TC-OSH-001-04: should throw when the order status changed in the meantime', async () => {
+      mockManager.update.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.transition(order(OrderStatus.PENDING), OrderStatus.CONFIRMED, {
+          source: OrderStatusSource.STAFF,
+        }),
+      ).rejects.toThrow(ConflictException);
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('canTransitionOrderStatus', () => {
+    // TC-OSH-002-01: Normal - Customer can complete a delivered order only
+    it('TC-OSH-002-01: should only allow COMPLETED after DELIVERED', () => {
+      expect(
+        canTransitionOrderStatus(OrderStatus.DELIVERED, OrderStatus.COMPLETED),
+      ).toBe(true);
+      expect(
+        canTransitionOrderStatus(OrderStatus.SHIPPING, OrderStatus.COMPLETED),
+      ).toBe(false);
+    });
+
+    // TC-OSH-002-02: Normal - GHN redelivery after a failed attempt
+    it('TC-OSH-002-02: should allow REJECTED back to SHIPPING', () => {
+      expect(
+        canTransitionOrderStatus(OrderStatus.REJECTED, OrderStatus.SHIPPING),
+      ).toBe(true);
+      expect(
+        canTransitionOrderStatus(OrderStatus.CANCELLED, OrderStatus.SHIPPING),
+      ).toBe(false);
+    });
+  });
+
+  describe('recordCreated', () => {
+    // TC-OSH-003-01: Normal - Initial status has no previous status
+    it('TC-OSH-003-01: should record the initial status with fromStatus null', async () => {
+      await service.recordCreated(order(OrderStatus.PENDING), {
+        source: OrderStatusSource.CUSTOMER,
+        actorId: 'user-1',
+      });
+
+      expect(mockManager.save).toHaveBeenCalledWith(
+        OrderStatusHistory,
+        expect.objectContaining({
+          fromStatus: null,
+          toStatus: OrderStatus.PENDING,
+          source: OrderStatusSource.CUSTOMER,
+          actorId: 'user-1',
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { Order, OrderStatus } from './entities/order.entity';
+import {
+  OrderStatusHistory,
+  OrderStatusSource,
+} from './entities/order-status-history.entity';
+import { canTransitionOrderStatus } from './utils/order-status-transitions.util';
+
+export interface OrderStatusChange {
+  source: OrderStatusSource;
+  actorId?: string | null;
+  reason?: string | null;
+}
+
+/**
+ * Nơi duy nhất được đổi Order.status: kiểm tra bảng chuyển trạng thái
+ * và ghi lịch sử. Tách module riêng để ShippingLogsModule dùng được
+ * mà không phụ thuộc vòng với OrdersModule.
+ */
+@Injectable()
+export class OrderStatusService {
+  private readonly logger = new Logger(OrderStatusService.name);
+
+  constructor(
+    @InjectRepository(OrderStatusHistory)
+    private readonly historyRepository: Repository<OrderStatusHistory>,
+    private readonly entityManager: EntityManager,
+  ) {}
+
+  /**
+   * Chuyển đơn sang trạng thái mới và ghi lịch sử.
+   * Trả về false (không ghi gì) nếu đơn đã ở trạng thái đích.
+   */
+  async transition(
+    order: Order,
+    toStatus: OrderStatus,
+    change: OrderStatusChange,
+    manager?: EntityManager,
+  ): Promise<boolean> {
+    const fromStatus = order.status;
+    if (fromStatus === toStatus) {
+      return false;
+    }
+
+    if (!canTransitionOrderStatus(fromStatus, toStatus)) {
+      throw new BadRequestException(
+        `Cannot change order status from ${fromStatus} to ${toStatus}`,
+      );
+    }
+
+    const apply = async (m: EntityManager) => {
+      // Cập nhật có điều kiện để không ghi đè một thay đổi đồng thời
+      const result = await m.update(
+        Order,
+        { orderId: order.orderId, status: fromStatus },
+        { status: toStatus },
+      );
+      if (!result.affected) {
+        throw new ConflictException(
+          `Order ${order.orderId} status was changed by another request, please retry`,
+        );
+      }
+
+      await m.save(
+        OrderStatusHistory,
+        m.create(OrderStatusHistory, {
+          orderId: order.orderId,
+          fromStatus,
+          toStatus,
+          source: change.source,
+          actorId: change.actorId ?? null,
+          reason: change.reason ?? null,
+        }),
+      );
+    };
+
+    if (manager) {
+      await apply(manager);
+    } else {
+      await this.entityManager.transaction(apply);
+    }
+
+    order.status = toStatus;
+    this.logger.log(
+      `🔀 Order ${order.orderId}: ${fromStatus} -> ${toStatus} (${change.source})`,
+    );
+    return true;
+  }
+
+  /**
+   * Ghi trạng thái khởi tạo của đơn vừa tạo (fromStatus = NULL)
+   */
+  async recordCreated(
+    order: Pick<Order, 'orderId' | 'status'>,
+    change: OrderStatusChange,
+    manager: EntityManager = this.entityManager,
+  ): Promise<OrderStatusHistory> {
+    return manager.save(
+      OrderStatusHistory,
+      manager.create(OrderStatusHistory, {
+        orderId: order.orderId,
+        fromStatus: null,
+        toStatus: order.status,
+        source: change.source,
+        actorId: change.actorId ?? null,
+        reason: change.reason ?? null,
+      }),
+    );
+  }
+
+  async getTimeline(orderId: string): Promise<OrderStatusHistory[]> {
+    return this.historyRepository.find({
+      where: { orderId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+}
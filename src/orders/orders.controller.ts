@@ -17,32 +17,61 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { OrdersService } from './orders.service';
+import { OrderQuotesService } from './order-quotes.service';
 import { CreateOrderDto } from './dto/create-order.dto';
 import { UpdateOrderDto } from './dto/update-order.dto';
 import { ConfirmOrderDto } from './dto/confirm-order.dto';
 import { CancelOrderDto } from './dto/cancel-order.dto';
+import { CancelOrderItemsDto } from './dto/cancel-order-items.dto';
 import { CompleteOrderDto } from './dto/complete-order.dto';
 import { CheckoutCartDto } from './dto/checkout-cart.dto';
+import { CreateOrderQuoteDto } from './dto/create-order-quote.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { UserRole } from '../users/entities/user.entity';
 import { ResponseHelper } from '../utils/responses';
+import { OrderStatusSource } from './entities/order-status-history.entity';
+import { Idempotent } from '../idempotency/decorators/idempotent.decorator';
 
 @ApiTags('orders')
 @Controller('orders')
 export class OrdersController {
-  constructor(private readonly ordersService: OrdersService) {}
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly orderQuotesService: OrderQuotesService,
+  ) {}
+
+  @Post('quote')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CUSTOMER)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: '🧾 Get a checkout quote for selected cart items',
+    description: `
+      Prices are computed on the server from the current product price and sale percentage.
+      - Returns line prices, discounts, shipping fee and total
+      - The quote is signed and expires after 10 minutes
+      - Pass quoteId to POST /orders/checkout; a quote can only be used once
+    `,
+  })
+  async quote(@Req() req, @Body() quoteDto: CreateOrderQuoteDto) {
+    const userId = req.user.userId;
+    const quote = await this.orderQuotesService.createQuote(userId, quoteDto);
+    return ResponseHelper.success('Checkout quote created', quote);
+  }
 
   @Post('checkout')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.CUSTOMER)
   @ApiBearerAuth()
+  @Idempotent()
   @ApiOperation({
     summary: '🛒 Checkout cart - Convert selected cart items to order',
     description: `
-      Checkout only the items that are marked as selected in the cart.
-      - Validates inventory availability for selected items
+      Checkout the items of a quote from POST /orders/quote.
+      - Rejects expired, reused or tampered quotes, and quotes whose prices or cart items changed
+      - Validates inventory availability for quoted items
       - Creates order with payment record
       - Removes selected items from cart (unselected items remain)
       - Throws error if no items are selected
@@ -81,8 +110,8 @@ export class OrdersController {
   @Roles(UserRole.STAFF, UserRole.ADMIN)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Create a new order (Staff/Admin only)' })
-  async create(@Body() createDto: CreateOrderDto) {
-    const order = await this.ordersService.create(createDto);
+  async create(@Req() req, @Body() createDto: CreateOrderDto) {
+    const order = await this.ordersService.create(createDto, req.user.userId);
     return ResponseHelper.success('Order created successfully', order);
   }
 
@@ -108,13 +137,44 @@ export class OrdersController {
     return ResponseHelper.success('Order retrieved successfully', order);
   }
 
+  @Get(':id/timeline')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CUSTOMER, UserRole.STAFF, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: '🕒 Get the status timeline of an order',
+    description:
+      'Every status change with from/to status, actor, source (STAFF, GHN, SYSTEM, CUSTOMER) and reason, oldest first. Customers can only view their own orders.',
+  })
+  async timeline(@Req() req, @Param('id') id: string) {
+    let customerId: string | undefined;
+    if (req.user.role === UserRole.CUSTOMER) {
+      const customer = await this.ordersService.getCustomerByUserId(
+        req.user.userId,
+      );
+      if (!customer) {
+        return ResponseHelper.notFound('Customer not found');
+      }
+      customerId = customer.customerId;
+    }
+    const timeline = await this.ordersService.getTimeline(id, customerId);
+    return ResponseHelper.success('Order timeline retrieved', timeline);
+  }
+
   @Patch(':id')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.STAFF, UserRole.ADMIN)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Update an order (Staff/Admin only)' })
-  async update(@Param('id') id: string, @Body() updateDto: UpdateOrderDto) {
-    const order = await this.ordersService.update(id, updateDto);
+  async update(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() updateDto: UpdateOrderDto,
+  ) {
+    const order = await this.ordersService.update(id, updateDto, {
+      source: OrderStatusSource.STAFF,
+      actorId: req.user.userId,
+    });
     return ResponseHelper.success('Order updated successfully', order);
   }
 
@@ -123,11 +183,50 @@ export class OrdersController {
   @Roles(UserRole.STAFF, UserRole.ADMIN)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Cancel an order (Staff/Admin only)' })
-  async cancel(@Param('id') id: string, @Body() cancelDto: CancelOrderDto) {
-    const order = await this.ordersService.cancelOrder(id, cancelDto.reason);
+  async cancel(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() cancelDto: CancelOrderDto,
+  ) {
+    const order = await this.ordersService.cancelOrder(
+      id,
+      cancelDto.reason,
+      req.user.userId,
+    );
     return ResponseHelper.success('Order cancelled successfully', order);
   }
 
+  @Post(':id/items/cancel')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CUSTOMER, UserRole.STAFF, UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: '✂️ Cancel or mark individual order items as out of stock',
+    description:
+      'Only before the order is shipped. Cancelled items are returned to inventory, the order total is recalculated, prepaid orders get the difference refunded to the wallet and COD orders collect the new total. Customers can only cancel items of their own orders.',
+  })
+  async cancelItems(
+    @Req() req,
+    @Param('id') id: string,
+    @Body() cancelDto: CancelOrderItemsDto,
+  ) {
+    let customerId: string | undefined;
+    if (req.user.role === UserRole.CUSTOMER) {
+      const customer = await this.ordersService.getCustomerByUserId(
+        req.user.userId,
+      );
+      if (!customer) {
+        return ResponseHelper.notFound('Customer not found');
+      }
+      customerId = customer.customerId;
+    }
+    const order = await this.ordersService.cancelOrderItems(id, cancelDto, {
+      userId: req.user.userId,
+      customerId,
+    });
+    return ResponseHelper.success('Order items cancelled successfully', order);
+  }
+
   @Post(':id/confirm')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.STAFF, UserRole.ADMIN)
@@ -142,6 +241,20 @@ export class OrdersController {
     return ResponseHelper.success('Order confirmed successfully', order);
   }
 
+  @Post(':id/reorder')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.CUSTOMER)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: '🔁 Buy again: add the items of a past order to the cart',
+    description:
+      'Items are repriced at the current product price and reserved in stock. Items with less stock are added with the available quantity; out-of-stock items are listed in `unavailable`.',
+  })
+  async reorder(@Req() req, @Param('id') id: string) {
+    const result = await this.ordersService.reorder(id, req.user.userId);
+    return ResponseHelper.success('Order items added to cart', result);
+  }
+
   @Post(':id/complete')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.CUSTOMER)
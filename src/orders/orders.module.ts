@@ -5,6 +5,7 @@ import { OrdersController } from './orders.controller';
 import { GhnWebhookController } from './webhooks/ghn-webhook.controller';
 import { Order } from './entities/order.entity';
 import { OrderItem } from './entities/order-item.entity';
+import { OrderQuote } from './entities/order-quote.entity';
 import { Payment } from '../payments/entities/payment.entity';
 import { CartModule } from '../cart/cart.module';
 import { InventoryModule } from '../inventory/inventory.module';
@@ -14,10 +15,18 @@ import { PaymentsModule } from '../payments/payments.module';
 import { NotificationsModule } from '../notifications/notifications.module';
 import { ShippingLogsModule } from '../shipping-logs/shipping-logs.module';
 import { GhnModule } from '../ghn/ghn.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { ProductsModule } from '../products/products.module';
+import { OrderQuotesService } from './order-quotes.service';
+import { PromotionsModule } from '../promotions/promotions.module';
+import { EmailModule } from '../email/email.module';
+import { OrderStatusModule } from './order-status.module';
+import { WarehousesModule } from '../warehouses/warehouses.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Order, OrderItem, Payment]),
+    TypeOrmModule.forFeature([Order, OrderItem, OrderQuote, Payment]),
     CartModule,
     InventoryModule,
     CustomersModule,
@@ -26,9 +35,16 @@ import { GhnModule } from '../ghn/ghn.module';
     NotificationsModule,
     ShippingLogsModule,
     GhnModule,
+    LedgerModule,
+    ProductsModule,
+    PromotionsModule,
+    EmailModule,
+    OrderStatusModule,
+    WarehousesModule,
+    IdempotencyModule,
   ],
   controllers: [OrdersController, GhnWebhookController],
-  providers: [OrdersService],
-  exports: [OrdersService],
+  providers: [OrdersService, OrderQuotesService],
+  exports: [OrdersService, OrderQuotesService],
 })
 export class OrdersModule {}
@@ -1,9 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { OrdersService } from './orders.service';
-import { Repository } from 'typeorm';
+import { EntityManager, Repository } from 'typeorm';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Order, OrderStatus } from './entities/order.entity';
-import { OrderItem } from './entities/order-item.entity';
+import { OrderItem, OrderItemStatus } from './entities/order-item.entity';
 import {
   Payment,
   PaymentStatus,
@@ -13,20 +13,34 @@ import { CartService } from '../cart/cart.service';
 import { InventoryService } from '../inventory/inventory.service';
 import { CustomersService } from '../customers/customers.service';
 import { UsersService } from '../users/users.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
 import { PaymentsService } from '../payments/payments.service';
+import { RefundsService } from '../payments/refunds.service';
+import { RefundDestination } from '../payments/entities/refund.entity';
 import { NotificationsService } from '../notifications/notifications.service';
 import { ShippingLogsService } from '../shipping-logs/shipping-logs.service';
 import { GhnService } from '../ghn/ghn.service';
+import { OrderQuotesService } from './order-quotes.service';
+import { PromotionsService } from '../promotions/promotions.service';
+import { EmailService } from '../email/email.service';
+import { OrderStatusService } from './order-status.service';
+import { OrderStatusSource } from './entities/order-status-history.entity';
 import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { PaymentMethod } from './dto/checkout-cart.dto';
 import { ShippingMethod } from '../shipping-logs/entities/shipping-log.entity';
+import { WarehousesService } from '../warehouses/warehouses.service';
+import { StockReservationsService } from '../inventory/stock-reservations.service';
+import {
+  StockMovementReferenceType,
+  StockMovementType,
+} from '../inventory/entities/stock-movement.entity';
 
 describe('OrdersService', () => {
   let service: OrdersService;
   let orderRepository: jest.Mocked<Repository<Order>>;
   let paymentRepository: jest.Mocked<Repository<Payment>>;
   let cartService: jest.Mocked<CartService>;
-  let inventoryService: jest.Mocked<InventoryService>;
   let customersService: jest.Mocked<CustomersService>;
   let paymentsService: jest.Mocked<PaymentsService>;
   let shippingLogsService: jest.Mocked<ShippingLogsService>;
@@ -39,11 +53,14 @@ describe('OrdersService', () => {
     findOne: jest.fn(),
     create: jest.fn(),
     save: jest.fn(),
+    delete: jest.fn(),
   };
 
   const mockPaymentRepository = {
     create: jest.fn(),
     save: jest.fn(),
+    delete: jest.fn(),
+    findOneOrFail: jest.fn(),
   };
 
   const mockCartService = {
@@ -51,11 +68,12 @@ describe('OrdersService', () => {
     getSelectedItems: jest.fn(),
     clearCart: jest.fn(),
     removeItemsByProductIds: jest.fn(),
+    addToCart: jest.fn(),
   };
 
   const mockInventoryService = {
-    canConfirmSale: jest.fn(),
-    confirmSale: jest.fn(),
+    adjustStock: jest.fn(),
+    getAvailableStock: jest.fn(),
   };
 
   const mockCustomersService = {
@@ -69,11 +87,25 @@ describe('OrdersService', () => {
 
   const mockShippingLogsService = {
     create: jest.fn(),
+    update: jest.fn(),
   };
 
   const mockOrderItemRepository = {
     create: jest.fn(),
     save: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockEntityManager = {
+    getRepository: jest.fn((entity: unknown) => {
+      if (entity === Order) return mockOrderRepository;
+      if (entity === OrderItem) return mockOrderItemRepository;
+      return mockPaymentRepository;
+    }),
+    transaction: jest.fn(
+      (work: (manager: unknown) => Promise<unknown>): Promise<unknown> =>
+        work(mockEntityManager),
+    ),
   };
 
   const mockUsersService = {
@@ -90,6 +122,47 @@ describe('OrdersService', () => {
     createShippingOrder: jest.fn(),
   };
 
+  const mockLedgerService = {
+    transfer: jest.fn(),
+  };
+
+  const mockOrderQuotesService = {
+    redeemQuote: jest.fn(),
+  };
+
+  const mockPromotionsService = {
+    attachToQuote: jest.fn(),
+    attachOrderByPayment: jest.fn(),
+    release: jest.fn(),
+  };
+
+  const mockEmailService = {
+    sendOrderConfirmation: jest.fn(),
+  };
+
+  const mockOrderStatusService = {
+    transition: jest.fn().mockResolvedValue(true),
+    recordCreated: jest.fn(),
+    getTimeline: jest.fn(),
+  };
+
+  const mockRefundsService = {
+    createRefund: jest.fn(),
+  };
+
+  const mockWarehousesService = {
+    allocate: jest.fn().mockResolvedValue([]),
+    releaseAllocation: jest.fn(),
+    consumeAllocation: jest.fn(),
+  };
+
+  const mockStockReservationsService = {
+    canFulfil: jest.fn().mockResolvedValue(true),
+    fulfil: jest.fn().mockResolvedValue(new Map()),
+    release: jest.fn().mockResolvedValue(0),
+    extend: jest.fn().mockResolvedValue(undefined),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -106,6 +179,10 @@ describe('OrdersService', () => {
           provide: getRepositoryToken(Payment),
           useValue: mockPaymentRepository,
         },
+        {
+          provide: EntityManager,
+          useValue: mockEntityManager,
+        },
         {
           provide: CartService,
           useValue: mockCartService,
@@ -138,6 +215,38 @@ describe('OrdersService', () => {
           provide: GhnService,
           useValue: mockGhnService,
         },
+        {
+          provide: LedgerService,
+          useValue: mockLedgerService,
+        },
+        {
+          provide: OrderQuotesService,
+          useValue: mockOrderQuotesService,
+        },
+        {
+          provide: PromotionsService,
+          useValue: mockPromotionsService,
+        },
+        {
+          provide: EmailService,
+          useValue: mockEmailService,
+        },
+        {
+          provide: OrderStatusService,
+          useValue: mockOrderStatusService,
+        },
+        {
+          provide: RefundsService,
+          useValue: mockRefundsService,
+        },
+        {
+          provide: WarehousesService,
+          useValue: mockWarehousesService,
+        },
+        {
+          provide: StockReservationsService,
+          useValue: mockStockReservationsService,
+        },
       ],
     }).compile();
 
@@ -145,7 +254,6 @@ describe('OrdersService', () => {
     orderRepository = module.get(getRepositoryToken(Order));
     paymentRepository = module.get(getRepositoryToken(Payment));
     cartService = module.get(CartService);
-    inventoryService = module.get(InventoryService);
     customersService = module.get(CustomersService);
     paymentsService = module.get(PaymentsService);
     shippingLogsService = module.get(ShippingLogsService);
@@ -195,14 +303,60 @@ describe('OrdersService', () => {
       updatedAt: new Date(),
     };
 
+    const quoteId = 'quote-id';
+
+    // Quote do server tính từ các dòng cart (giá không giảm, chưa có phí ship)
+    const buildQuote = (
+      items: {
+        productId: string;
+        productName: string;
+        price: number;
+        quantity: number;
+      }[],
+      overrides: Record<string, unknown> = {},
+    ) => {
+      const total = items.reduce((sum, i) => sum + i.price * i.quantity, 0);
+      return {
+        quoteId,
+        userId,
+        items: items.map((item) => ({
+          productId: item.productId,
+          productName: item.productName,
+          quantity: item.quantity,
+          unitPrice: item.price,
+          salePercentage: 0,
+          finalUnitPrice: item.price,
+          discount: 0,
+          lineTotal: item.price * item.quantity,
+        })),
+        subtotal: total,
+        discountTotal: 0,
+        shippingFee: 0,
+        voucherCode: null,
+        promotionDiscount: 0,
+        shippingDiscount: 0,
+        appliedPromotions: [],
+        totalAmount: total,
+        shippingMethod: ShippingMethod.INTERNAL,
+        shippingAddress: '123 Test St, Quận 10, Hồ Chí Minh',
+        province: 'Hồ Chí Minh',
+        district: 'Quận 10',
+        ward: null,
+        toWardCode: null,
+        toDistrictId: null,
+        ...overrides,
+      };
+    };
+
     beforeEach(() => {
+      mockOrderQuotesService.redeemQuote.mockResolvedValue(
+        buildQuote(mockCart.items),
+      );
       mockCustomersService.findByUserId.mockResolvedValue(mockCustomer as any);
       mockCartService.getCart.mockResolvedValue(mockCart);
       mockCartService.getSelectedItems.mockReturnValue(mockCart.items);
-      mockInventoryService.canConfirmSale.mockResolvedValue(true);
-      mockInventoryService.confirmSale.mockResolvedValue({
-        success: true,
-      } as any);
+      mockStockReservationsService.canFulfil.mockResolvedValue(true);
+      mockStockReservationsService.fulfil.mockResolvedValue(new Map());
 
       // Mock OrderItem repository
       mockOrderItemRepository.create.mockImplementation((dto) => dto);
@@ -213,7 +367,7 @@ describe('OrdersService', () => {
         userId: 'user-id',
         balance: 1000000, // 1M VND
       } as any);
-      mockUsersService.update.mockResolvedValue(undefined);
+      mockLedgerService.transfer.mockResolvedValue(undefined);
 
       // Mock CartService removeItemsByProductIds
       mockCartService.removeItemsByProductIds.mockResolvedValue(undefined);
@@ -242,7 +396,7 @@ describe('OrdersService', () => {
       mockOrderRepository.findOne.mockResolvedValue(order as any);
 
       const result = await service.checkoutCart(userId, {
-        shippingAddress: '123 Test St',
+        quoteId,
         paymentMethod: PaymentMethod.COD,
         shippingMethod: ShippingMethod.INTERNAL,
       });
@@ -276,14 +430,20 @@ describe('OrdersService', () => {
       mockOrderRepository.findOne.mockResolvedValue(order as any);
 
       const result = await service.checkoutCart(userId, {
-        shippingAddress: '123 Test St',
+        quoteId,
         paymentMethod: PaymentMethod.WALLET,
         totalAmount: 650000,
       });
 
       expect(result.order).toBeDefined();
       expect(result.order.status).toBe(OrderStatus.CONFIRMED);
-      expect(mockUsersService.update).toHaveBeenCalled();
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          from: { userId },
+          to: { type: LedgerAccountType.PLATFORM_SALES },
+          amount: 650000,
+        }),
+      );
     });
 
     // TC-ORD-001-03: Normal - Banking payment (no order created)
@@ -294,25 +454,54 @@ describe('OrdersService', () => {
         amount: 650000,
         status: PaymentStatus.PENDING,
         expiredAt: new Date(),
+        paymentIntent: {
+          provider: 'sepay',
+          paymentCode: 'PAY-123',
+          amount: 650000,
+          bankingInfo: {
+            bankName: 'MBBank',
+            bankBin: '970422',
+            accountNumber: '0347178790',
+            accountName: 'CHU PHAN NHAT LONG',
+            transferContent: 'PAY-123',
+            amount: 650000,
+          },
+          qrPayload: '00020101021238540010A000000727',
+          qrCodeUrl:
+            'https://img.vietqr.io/image/MB-0347178790-compact2.png?amount=650000&addInfo=PAY-123',
+        },
       };
 
       mockPaymentsService.createPayment.mockResolvedValue(payment as any);
+      mockOrderQuotesService.redeemQuote.mockResolvedValue(
+        buildQuote(mockCart.items, { shippingMethod: ShippingMethod.GHN }),
+      );
 
       const result = await service.checkoutCart(userId, {
-        shippingAddress: '123 Test St',
+        quoteId,
         paymentMethod: PaymentMethod.BANKING,
         shippingMethod: ShippingMethod.GHN,
       });
 
       expect(result.payment).toBeDefined();
+      expect(mockPaymentsService.createPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 650000 }),
+      );
       expect(result.payment.qrCodeUrl).toContain('vietqr.io');
+      expect(result.payment.qrPayload).toBe(payment.paymentIntent.qrPayload);
       expect(result.order).toBeUndefined(); // Order not created yet
+      expect(mockStockReservationsService.extend).toHaveBeenCalledWith(
+        { quoteId },
+        { paymentId: 'payment-id', expiresAt: payment.expiredAt },
+      );
+      expect(mockStockReservationsService.fulfil).not.toHaveBeenCalled();
     });
 
     // TC-ORD-001-04: Normal - Selected items checkout
-    it('TC-ORD-001-04: should checkout only selected items', async () => {
-      const selectedItems = [mockCart.items[0]];
-      mockCartService.getSelectedItems.mockReturnValue(selectedItems);
+    it('TC-ORD-001-04: should checkout only quoted items', async () => {
+      mockOrderQuotesService.redeemQuote.mockResolvedValue(
+        buildQuote([mockCart.items[0]]),
+      );
 
       const payment = {
         paymentId: 'payment-id',
@@ -333,22 +522,33 @@ describe('OrdersService', () => {
       mockOrderRepository.findOne.mockResolvedValue(order as any);
 
       const result = await service.checkoutCart(userId, {
-        shippingAddress: '123 Test St',
+        quoteId,
         paymentMethod: PaymentMethod.COD,
-        selectedProductIds: ['product-1'],
       });
 
       expect(result.order).toBeDefined();
-      expect(inventoryService.confirmSale).toHaveBeenCalledTimes(1);
+      expect(mockStockReservationsService.fulfil).toHaveBeenCalledWith(
+        { quoteId },
+        [expect.objectContaining({ productId: 'product-1' })],
+        order.orderId,
+      );
+      expect(mockCartService.removeItemsByProductIds).toHaveBeenCalledWith(
+        userId,
+        ['product-1'],
+      );
     });
 
     // TC-ORD-001-05: Normal - GHN shipping with full address
-    it('TC-ORD-001-05: should find GHN codes and calculate shipping fee', async () => {
-      mockGhnService.findAddressCodes.mockResolvedValue({
-        provinceId: 202,
-        districtId: 1442,
-        wardCode: '21012',
-      });
+    it('TC-ORD-001-05: should use GHN codes and shipping fee from the quote', async () => {
+      mockOrderQuotesService.redeemQuote.mockResolvedValue(
+        buildQuote(mockCart.items, {
+          shippingMethod: ShippingMethod.GHN,
+          toDistrictId: 1442,
+          toWardCode: '21012',
+          shippingFee: 30000,
+          totalAmount: 680000,
+        }),
+      );
 
       const payment = {
         paymentId: 'payment-id',
@@ -371,17 +571,19 @@ describe('OrdersService', () => {
       mockOrderRepository.findOne.mockResolvedValue(order as any);
 
       const result = await service.checkoutCart(userId, {
-        shippingAddress: '123 Test St',
+        quoteId,
         paymentMethod: PaymentMethod.COD,
         shippingMethod: ShippingMethod.GHN,
-        province: 'TP.HCM',
-        district: 'Thủ Đức',
-        ward: 'Long Thạnh Mỹ',
       });
 
       expect(result.order.toDistrictId).toBe(1442);
       expect(result.order.toWardCode).toBe('21012');
-      expect(mockGhnService.findAddressCodes).toHaveBeenCalled();
+      expect(mockOrderRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ toDistrictId: 1442, toWardCode: '21012' }),
+      );
+      expect(mockPaymentRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 680000 }),
+      );
     });
 
     // TC-ORD-001-06: Boundary - Minimum order amount (1 VND)
@@ -392,8 +594,9 @@ describe('OrdersService', () => {
         totalPrice: 1,
       };
 
-      mockCartService.getCart.mockResolvedValue(minCart);
-      mockCartService.getSelectedItems.mockReturnValue(minCart.items);
+      mockOrderQuotesService.redeemQuote.mockResolvedValue(
+        buildQuote(minCart.items),
+      );
 
       const payment = {
         paymentId: 'payment-id',
@@ -414,7 +617,7 @@ describe('OrdersService', () => {
       mockOrderRepository.findOne.mockResolvedValue(order as any);
 
       const result = await service.checkoutCart(userId, {
-        shippingAddress: '123 Test St',
+        quoteId,
         paymentMethod: PaymentMethod.COD,
         totalAmount: 1,
       });
@@ -436,8 +639,9 @@ describe('OrdersService', () => {
         })),
       };
 
-      mockCartService.getCart.mockResolvedValue(largeCart);
-      mockCartService.getSelectedItems.mockReturnValue(largeCart.items);
+      mockOrderQuotesService.redeemQuote.mockResolvedValue(
+        buildQuote(largeCart.items),
+      );
 
       const payment = {
         paymentId: 'payment-id',
@@ -458,12 +662,14 @@ describe('OrdersService', () => {
       mockOrderRepository.findOne.mockResolvedValue(order as any);
 
       const result = await service.checkoutCart(userId, {
-        shippingAddress: '123 Test St',
+        quoteId,
         paymentMethod: PaymentMethod.COD,
       });
 
       expect(result.order).toBeDefined();
-      expect(inventoryService.confirmSale).toHaveBeenCalledTimes(100);
+      expect(mockStockReservationsService.fulfil.mock.calls[0][1]).toHaveLength(
+        100,
+      );
     });
 
     // TC-ORD-001-08: Boundary - Wallet balance equals order total
@@ -490,7 +696,7 @@ describe('OrdersService', () => {
       mockOrderRepository.findOne.mockResolvedValue(order as any);
 
       const result = await service.checkoutCart(userId, {
-        shippingAddress: '123 Test St',
+        quoteId,
         paymentMethod: PaymentMethod.WALLET,
         totalAmount: 650000,
       });
@@ -499,25 +705,22 @@ describe('OrdersService', () => {
       expect(result.order.payment.paidAmount).toBe(650000);
     });
 
-    // TC-ORD-001-09: Abnormal - Empty cart
-    it('TC-ORD-001-09: should throw error when cart is empty', async () => {
-      mockCartService.getCart.mockResolvedValue({
-        ...mockCart,
-        items: [],
-      });
+    // TC-ORD-001-09: Abnormal - Expired or reused quote
+    it('TC-ORD-001-09: should reject checkout when the quote is not redeemable', async () => {
+      mockOrderQuotesService.redeemQuote.mockRejectedValue(
+        new BadRequestException(
+          'Quote has expired. Please request a new quote.',
+        ),
+      );
 
       await expect(
         service.checkoutCart(userId, {
-          shippingAddress: '123 Test St',
-          paymentMethod: PaymentMethod.COD,
-        }),
-      ).rejects.toThrow(BadRequestException);
-      await expect(
-        service.checkoutCart(userId, {
-          shippingAddress: '123 Test St',
+          quoteId,
           paymentMethod: PaymentMethod.COD,
         }),
-      ).rejects.toThrow('Cart is empty');
+      ).rejects.toThrow('Quote has expired');
+      expect(mockPaymentRepository.save).not.toHaveBeenCalled();
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
     });
 
     // TC-ORD-001-10: Abnormal - Insufficient wallet balance
@@ -530,41 +733,265 @@ describe('OrdersService', () => {
 
       await expect(
         service.checkoutCart(userId, {
-          shippingAddress: '123 Test St',
+          quoteId,
           paymentMethod: PaymentMethod.WALLET,
           totalAmount: 650000,
         }),
       ).rejects.toThrow(BadRequestException);
       await expect(
         service.checkoutCart(userId, {
-          shippingAddress: '123 Test St',
+          quoteId,
           paymentMethod: PaymentMethod.WALLET,
           totalAmount: 650000,
         }),
       ).rejects.toThrow('Số dư không đủ');
+      expect(mockPromotionsService.release).toHaveBeenCalledWith({ quoteId });
     });
 
     // TC-ORD-001-11: Abnormal - Product out of stock
     it('TC-ORD-001-11: should throw error when product is out of stock', async () => {
-      mockInventoryService.canConfirmSale.mockResolvedValue(false);
+      mockStockReservationsService.canFulfil.mockResolvedValue(false);
 
       await expect(
         service.checkoutCart(userId, {
-          shippingAddress: '123 Test St',
+          quoteId,
           paymentMethod: PaymentMethod.COD,
         }),
       ).rejects.toThrow(BadRequestException);
+      expect(mockStockReservationsService.release).toHaveBeenCalledWith({
+        quoteId,
+      });
     });
 
-    // TC-ORD-001-12: Abnormal - Empty shipping address
-    // TODO: Service needs validation for empty address - currently accepts empty string
-    it.skip('TC-ORD-001-12: should throw error when address is empty', async () => {
+    // TC-ORD-001-12: Normal - Order ships to the address of the quote
+    it('TC-ORD-001-12: should ship to the address the quote was priced for', async () => {
+      mockOrderQuotesService.redeemQuote.mockResolvedValue(
+        buildQuote(mockCart.items, {
+          shippingAddress: '1 Lê Lợi, Bến Nghé, Quận 1, Hồ Chí Minh',
+        }),
+      );
+
+      const payment = { paymentId: 42, amount: 650000 };
+      const order = { orderId: 'order-id', customerId, payment };
+
+      mockPaymentRepository.create.mockReturnValue(payment as any);
+      mockPaymentRepository.save.mockResolvedValue(payment as any);
+      mockOrderRepository.create.mockReturnValue(order as any);
+      mockOrderRepository.save.mockResolvedValue(order as any);
+      mockOrderRepository.findOne.mockResolvedValue(order as any);
+
+      await service.checkoutCart(userId, {
+        quoteId,
+        paymentMethod: PaymentMethod.COD,
+      });
+
+      expect(mockOrderRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          shippingAddress: '1 Lê Lợi, Bến Nghé, Quận 1, Hồ Chí Minh',
+        }),
+      );
+    });
+
+    // TC-ORD-001-13: Normal - Client total is checked against the quote
+    it('TC-ORD-001-13: should pass the client total to the quote for verification', async () => {
+      mockOrderQuotesService.redeemQuote.mockRejectedValue(
+        new BadRequestException('Total amount does not match the quote'),
+      );
+
       await expect(
         service.checkoutCart(userId, {
-          shippingAddress: '',
+          quoteId,
+          paymentMethod: PaymentMethod.WALLET,
+          totalAmount: 1,
+        }),
+      ).rejects.toThrow('Total amount does not match the quote');
+      expect(mockOrderQuotesService.redeemQuote).toHaveBeenCalledWith(
+        userId,
+        quoteId,
+        1,
+      );
+      expect(mockLedgerService.transfer).not.toHaveBeenCalled();
+    });
+
+    // TC-ORD-001-14: Abnormal - Shipping method differs from the quote
+    it('TC-ORD-001-14: should reject a shipping method different from the quote', async () => {
+      await expect(
+        service.checkoutCart(userId, {
+          quoteId,
           paymentMethod: PaymentMethod.COD,
+          shippingMethod: ShippingMethod.GHN,
         }),
-      ).rejects.toThrow(BadRequestException);
+      ).rejects.toThrow('Shipping method does not match the quote');
+    });
+
+    // TC-ORD-001-15: Normal - Order items are priced from the quote, not the cart
+    it('TC-ORD-001-15: should price order items from the quote', async () => {
+      mockOrderQuotesService.redeemQuote.mockResolvedValue(
+        buildQuote([{ ...mockCart.items[0], price: 80000 }]),
+      );
+
+      const payment = { paymentId: 'payment-id', amount: 160000 };
+      const order = { orderId: 'order-id', customerId, payment };
+
+      mockPaymentRepository.create.mockReturnValue(payment as any);
+      mockPaymentRepository.save.mockResolvedValue(payment as any);
+      mockOrderRepository.create.mockReturnValue(order as any);
+      mockOrderRepository.save.mockResolvedValue(order as any);
+      mockOrderRepository.findOne.mockResolvedValue(order as any);
+
+      await service.checkoutCart(userId, {
+        quoteId,
+        paymentMethod: PaymentMethod.COD,
+      });
+
+      expect(mockPaymentRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 160000 }),
+      );
+      expect(mockOrderItemRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ productId: 'product-1', priceAtTime: 80000 }),
+      );
+    });
+
+    // TC-ORD-001-16: Normal - Promotion redemptions are tied to the order
+    it('TC-ORD-001-16: should attach promotion redemptions to the new order', async () => {
+      mockOrderQuotesService.redeemQuote.mockResolvedValue(
+        buildQuote(mockCart.items, {
+          voucherCode: 'SKIN20',
+          promotionDiscount: 20000,
+          totalAmount: 630000,
+        }),
+      );
+
+      const payment = { paymentId: 42, amount: 630000 };
+      const order = { orderId: 'order-id', customerId, payment };
+
+      mockPaymentRepository.create.mockReturnValue(payment as any);
+      mockPaymentRepository.save.mockResolvedValue(payment as any);
+      mockOrderRepository.create.mockReturnValue(order as any);
+      mockOrderRepository.save.mockResolvedValue(order as any);
+      mockOrderRepository.findOne.mockResolvedValue(order as any);
+
+      await service.checkoutCart(userId, {
+        quoteId,
+        paymentMethod: PaymentMethod.COD,
+      });
+
+      expect(mockPaymentRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 630000 }),
+      );
+      expect(mockPromotionsService.attachToQuote).toHaveBeenCalledWith(
+        quoteId,
+        { orderId: 'order-id', paymentId: 42 },
+      );
+      expect(mockPromotionsService.release).not.toHaveBeenCalled();
+    });
+
+    // TC-ORD-001-18: Normal - Order carries the quote price breakdown
+    it('TC-ORD-001-18: should store the price breakdown and email it to the customer', async () => {
+      mockOrderQuotesService.redeemQuote.mockResolvedValue(
+        buildQuote(mockCart.items, {
+          subtotal: 700000,
+          discountTotal: 50000,
+          promotionDiscount: 20000,
+          shippingFee: 30000,
+          shippingDiscount: 10000,
+          totalAmount: 650000,
+        }),
+      );
+      mockCustomersService.findByUserId.mockResolvedValue({
+        ...mockCustomer,
+        user: { email: 'customer@example.com', fullName: 'Test User' },
+      } as any);
+
+      const payment = { paymentId: 42, amount: 650000 };
+      const order = { orderId: 'order-id', customerId, payment };
+
+      mockPaymentRepository.create.mockReturnValue(payment as any);
+      mockPaymentRepository.save.mockResolvedValue(payment as any);
+      mockOrderRepository.create.mockReturnValue(order as any);
+      mockOrderRepository.save.mockResolvedValue(order as any);
+      mockOrderRepository.findOne.mockResolvedValue(order as any);
+
+      await service.checkoutCart(userId, {
+        quoteId,
+        paymentMethod: PaymentMethod.COD,
+      });
+
+      const breakdown = {
+        subtotal: 700000,
+        discountTotal: 50000,
+        promotionDiscount: 20000,
+        shippingFee: 30000,
+        shippingDiscount: 10000,
+        totalAmount: 650000,
+      };
+      expect(mockOrderRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining(breakdown),
+      );
+      expect(mockEmailService.sendOrderConfirmation).toHaveBeenCalledWith(
+        'customer@example.com',
+        'Test User',
+        expect.objectContaining({ orderId: 'order-id', ...breakdown }),
+      );
+    });
+
+    // TC-ORD-001-17: Abnormal - Sale confirmation fails after the order is saved
+    it('TC-ORD-001-17: should release promotion usage when the order is rolled back', async () => {
+      const payment = { paymentId: 42, amount: 650000 };
+      const order = { orderId: 'order-id', customerId, payment };
+
+      mockPaymentRepository.create.mockReturnValue(payment as any);
+      mockPaymentRepository.save.mockResolvedValue(payment as any);
+      mockOrderRepository.create.mockReturnValue(order as any);
+      mockOrderRepository.save.mockResolvedValue(order as any);
+      mockStockReservationsService.fulfil.mockRejectedValue(
+        new Error('Not enough reserved stock'),
+      );
+
+      await expect(
+        service.checkoutCart(userId, {
+          quoteId,
+          paymentMethod: PaymentMethod.COD,
+        }),
+      ).rejects.toThrow('Không thể hoàn tất đơn hàng');
+      expect(mockPromotionsService.release).toHaveBeenCalledWith({ quoteId });
+      expect(mockStockReservationsService.release).toHaveBeenCalledWith({
+        quoteId,
+      });
+      expect(mockPromotionsService.attachToQuote).not.toHaveBeenCalled();
+    });
+
+    // TC-ORD-001-19: Normal - Sold lots are recorded for recall traceability
+    it('TC-ORD-001-19: should record the allocated lots on order items', async () => {
+      const payment = { paymentId: 42, amount: 650000 };
+      const order = { orderId: 'order-id', customerId, payment };
+      const lot = {
+        lotId: 'lot-1',
+        lotNumber: 'LOT-A',
+        expiryDate: '2027-01-31',
+        quantity: 2,
+      };
+
+      mockPaymentRepository.create.mockReturnValue(payment as any);
+      mockPaymentRepository.save.mockResolvedValue(payment as any);
+      mockOrderRepository.create.mockReturnValue(order as any);
+      mockOrderRepository.save.mockResolvedValue(order as any);
+      mockOrderRepository.findOne.mockResolvedValue(order as any);
+      mockStockReservationsService.fulfil.mockResolvedValue(
+        new Map([['product-1', [lot]]]),
+      );
+
+      await service.checkoutCart(userId, {
+        quoteId,
+        paymentMethod: PaymentMethod.COD,
+      });
+
+      expect(mockOrderItemRepository.save).toHaveBeenLastCalledWith([
+        expect.objectContaining({
+          productId: 'product-1',
+          lotAllocations: [lot],
+        }),
+      ]);
     });
   });
 
@@ -663,6 +1090,159 @@ describe('OrdersService', () => {
         service.confirmOrder('non-existent', staffId),
       ).rejects.toThrow(NotFoundException);
     });
+
+    // TC-ORD-002-08: Normal - COD order is collected by GHN
+    it('TC-ORD-002-08: should keep COD payment pending and pass cod_amount to GHN', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({
+        ...mockOrder,
+        preferredShippingMethod: 'GHN',
+        payment: {
+          paymentId: 'payment-id',
+          amount: 350000.5,
+          paymentMethod: PaymentEntityMethod.CASH,
+          status: PaymentStatus.PENDING,
+        },
+      } as any);
+      mockOrderRepository.save.mockImplementation((o) => Promise.resolve(o));
+      mockUsersService.findOne.mockResolvedValue({ userId: 'user-id' } as any);
+      mockGhnService.createShippingOrder.mockResolvedValue({
+        data: { order_code: 'GHN123456', total_fee: 25000 },
+      } as any);
+
+      await service.confirmOrder(orderId, staffId);
+
+      expect(mockPaymentRepository.save).not.toHaveBeenCalled();
+      expect(mockGhnService.createShippingOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ codAmount: 350000 }),
+      );
+    });
+
+    // TC-ORD-002-09: Normal - Prepaid order has nothing to collect
+    it('TC-ORD-002-09: should not ask GHN to collect cash for a wallet-paid order', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({
+        ...mockOrder,
+        preferredShippingMethod: 'GHN',
+        payment: {
+          paymentId: 'payment-id',
+          amount: 350000,
+          paymentMethod: PaymentEntityMethod.WALLET,
+          status: PaymentStatus.COMPLETED,
+        },
+      } as any);
+      mockOrderRepository.save.mockImplementation((o) => Promise.resolve(o));
+      mockUsersService.findOne.mockResolvedValue({ userId: 'user-id' } as any);
+      mockGhnService.createShippingOrder.mockResolvedValue({
+        data: { order_code: 'GHN123456', total_fee: 25000 },
+      } as any);
+
+      await service.confirmOrder(orderId, staffId);
+
+      expect(mockGhnService.createShippingOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ codAmount: 0 }),
+      );
+    });
+
+    // TC-ORD-002-10: Normal - Order split across two warehouses
+    it('TC-ORD-002-10: should create one GHN shipment per sourcing warehouse', async () => {
+      const nearWarehouse = {
+        warehouseId: 'warehouse-1',
+        name: 'Shop Q1',
+        phone: '0900000001',
+        address: '135 Nguyễn Huệ',
+        ghnDistrictId: 1442,
+        ghnWardCode: '20109',
+      };
+      const farWarehouse = {
+        warehouseId: 'warehouse-2',
+        name: 'Kho Thủ Đức',
+        phone: '0900000002',
+        address: 'Lô E2a-7',
+        ghnDistrictId: 1462,
+        ghnWardCode: '21012',
+      };
+      mockOrderRepository.findOne.mockResolvedValue({
+        ...mockOrder,
+        preferredShippingMethod: 'GHN',
+        shippingAddress: '1 Lê Lợi, Quận 1',
+        toDistrictId: 1442,
+        toWardCode: '20109',
+        payment: {
+          paymentId: 'payment-id',
+          amount: 330000,
+          paymentMethod: PaymentEntityMethod.CASH,
+          status: PaymentStatus.PENDING,
+        },
+        orderItems: [
+          {
+            productId: 'product-1',
+            quantity: 2,
+            priceAtTime: 100000,
+            status: OrderItemStatus.ACTIVE,
+          },
+          {
+            productId: 'product-2',
+            quantity: 1,
+            priceAtTime: 130000,
+            status: OrderItemStatus.ACTIVE,
+          },
+        ],
+      } as any);
+      mockOrderRepository.save.mockImplementation((o) => Promise.resolve(o));
+      mockUsersService.findOne.mockResolvedValue({ userId: 'user-id' } as any);
+      mockWarehousesService.allocate.mockResolvedValueOnce([
+        {
+          warehouse: nearWarehouse,
+          items: [{ productId: 'product-1', quantity: 2 }],
+        },
+        {
+          warehouse: farWarehouse,
+          items: [{ productId: 'product-2', quantity: 1 }],
+        },
+      ]);
+      mockGhnService.createShippingOrder
+        .mockResolvedValueOnce({
+          data: { order_code: 'GHN-1', total_fee: 22000 },
+        } as any)
+        .mockResolvedValueOnce({
+          data: { order_code: 'GHN-2', total_fee: 30000 },
+        } as any);
+
+      await service.confirmOrder(orderId, staffId);
+
+      expect(mockWarehousesService.allocate).toHaveBeenCalledWith(
+        [
+          { productId: 'product-1', quantity: 2 },
+          { productId: 'product-2', quantity: 1 },
+        ],
+        { address: '1 Lê Lợi, Quận 1', ghnDistrictId: 1442 },
+      );
+      expect(mockGhnService.createShippingOrder).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          returnAddress: '135 Nguyễn Huệ',
+          returnDistrictId: 1442,
+          codAmount: 330000,
+        }),
+      );
+      expect(mockGhnService.createShippingOrder).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          returnAddress: 'Lô E2a-7',
+          returnDistrictId: 1462,
+          codAmount: 0,
+        }),
+      );
+      expect(mockShippingLogsService.create).toHaveBeenCalledTimes(2);
+      expect(mockShippingLogsService.create).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          ghnOrderCode: 'GHN-2',
+          warehouseId: 'warehouse-2',
+          items: [{ productId: 'product-2', quantity: 1 }],
+          totalAmount: 0,
+        }),
+      );
+    });
   });
 
   describe('cancelOrder', () => {
@@ -732,5 +1312,593 @@ describe('OrdersService', () => {
         'Cannot cancel delivered order',
       );
     });
+
+    // TC-ORD-003-06: Normal - Rejection goes through the status history
+    it('TC-ORD-003-06: should record the rejection with actor and reason', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(mockOrder as any);
+      mockOrderRepository.save.mockResolvedValue(mockOrder as any);
+
+      await service.cancelOrder(orderId, 'Out of stock', 'staff-id');
+
+      expect(mockOrderStatusService.transition).toHaveBeenCalledWith(
+        mockOrder,
+        OrderStatus.REJECTED,
+        {
+          source: OrderStatusSource.STAFF,
+          actorId: 'staff-id',
+          reason: 'Out of stock',
+        },
+        mockEntityManager,
+      );
+    });
+
+    // TC-ORD-003-07: Normal - Prepaid order is refunded instead of failing its payment
+    it('TC-ORD-003-07: should refund a paid order to the wallet under the order lock', async () => {
+      const paidOrder = {
+        ...mockOrder,
+        status: OrderStatus.CONFIRMED,
+        payment: { paymentId: 'payment-id', status: PaymentStatus.COMPLETED },
+      };
+      const refundedPayment = {
+        paymentId: 'payment-id',
+        status: PaymentStatus.REFUNDED,
+      };
+      mockOrderRepository.findOne.mockResolvedValue(paidOrder as any);
+      mockOrderRepository.save.mockImplementation((o) => Promise.resolve(o));
+      mockPaymentRepository.findOneOrFail.mockResolvedValue(refundedPayment);
+      mockRefundsService.createRefund.mockResolvedValue({ amount: 345000 });
+
+      const result = await service.cancelOrder(orderId, 'Out of stock');
+
+      expect(mockOrderRepository.findOne).toHaveBeenCalledWith({
+        where: { orderId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      expect(mockRefundsService.createRefund).toHaveBeenCalledWith(
+        expect.objectContaining({
+          paymentId: 'payment-id',
+          destination: RefundDestination.WALLET,
+          walletUserId: 'user-id',
+          preApproved: true,
+          referenceId: orderId,
+        }),
+        mockEntityManager,
+      );
+      expect(mockPaymentRepository.save).not.toHaveBeenCalled();
+      expect(result.payment.status).toBe(PaymentStatus.REFUNDED);
+    });
+
+    // TC-ORD-003-08: Boundary - Order was already rejected by another request
+    it('TC-ORD-003-08: should not refund or release stock twice', async () => {
+      const paidOrder = {
+        ...mockOrder,
+        status: OrderStatus.REJECTED,
+        payment: { paymentId: 'payment-id', status: PaymentStatus.COMPLETED },
+      };
+      mockOrderRepository.findOne.mockResolvedValue(paidOrder as any);
+      mockOrderStatusService.transition.mockResolvedValueOnce(false);
+
+      await service.cancelOrder(orderId);
+
+      expect(mockInventoryService.adjustStock).not.toHaveBeenCalled();
+      expect(mockRefundsService.createRefund).not.toHaveBeenCalled();
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+      expect(mockNotificationsService.create).not.toHaveBeenCalled();
+    });
+
+    // TC-ORD-003-09: Normal - Active items go back to inventory in the same transaction
+    it('TC-ORD-003-09: should restock only the items that were not cancelled before', async () => {
+      const lots = [{ lotId: 'lot-1', quantity: 2 }];
+      const orderWithItems = {
+        ...mockOrder,
+        orderItems: [
+          {
+            productId: 'product-1',
+            quantity: 2,
+            status: OrderItemStatus.ACTIVE,
+            lotAllocations: lots,
+          },
+          {
+            productId: 'product-2',
+            quantity: 1,
+            status: OrderItemStatus.CANCELLED,
+          },
+        ],
+      };
+      mockOrderRepository.findOne.mockResolvedValue(orderWithItems as any);
+      mockOrderRepository.save.mockImplementation((o) => Promise.resolve(o));
+
+      await service.cancelOrder(orderId, undefined, 'staff-id');
+
+      expect(mockInventoryService.adjustStock).toHaveBeenCalledTimes(1);
+      expect(mockInventoryService.adjustStock).toHaveBeenCalledWith(
+        'product-1',
+        2,
+        undefined,
+        'Order cancelled',
+        {
+          type: StockMovementType.RESTOCK,
+          referenceType: StockMovementReferenceType.ORDER,
+          referenceId: orderId,
+          actorId: 'staff-id',
+          lots,
+        },
+        mockEntityManager,
+      );
+    });
+  });
+
+  describe('update', () => {
+    const orderId = 'test-order-id';
+
+    // TC-ORD-004-01: Normal - Status is changed through the transition map
+    it('TC-ORD-004-01: should route status changes through OrderStatusService', async () => {
+      const order = { orderId, status: OrderStatus.CONFIRMED };
+      mockOrderRepository.findOne.mockResolvedValue(order as any);
+      mockOrderRepository.save.mockImplementation((o) => Promise.resolve(o));
+
+      await service.update(
+        orderId,
+        { status: OrderStatus.PROCESSING, notes: 'Packed' },
+        { source: OrderStatusSource.STAFF, actorId: 'staff-id' },
+      );
+
+      expect(mockOrderStatusService.transition).toHaveBeenCalledWith(
+        order,
+        OrderStatus.PROCESSING,
+        { source: OrderStatusSource.STAFF, actorId: 'staff-id' },
+      );
+      expect(mockOrderRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ notes: 'Packed' }),
+      );
+    });
+
+    // TC-ORD-004-02: Abnormal - Invalid transition
+    it('TC-ORD-004-02: should not save when the status transition is rejected', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({
+        orderId,
+        status: OrderStatus.COMPLETED,
+      } as any);
+      mockOrderStatusService.transition.mockRejectedValueOnce(
+        new BadRequestException(
+          'Cannot change order status from COMPLETED to PENDING',
+        ),
+      );
+
+      await expect(
+        service.update(orderId, { status: OrderStatus.PENDING }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockOrderRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTimeline', () => {
+    const orderId = 'test-order-id';
+
+    // TC-ORD-005-01: Normal - Staff can view any order timeline
+    it('TC-ORD-005-01: should return the status history of the order', async () => {
+      const timeline = [
+        { fromStatus: null, toStatus: OrderStatus.PENDING },
+        { fromStatus: OrderStatus.PENDING, toStatus: OrderStatus.CONFIRMED },
+      ];
+      mockOrderRepository.findOne.mockResolvedValue({
+        orderId,
+        customerId: 'customer-id',
+      } as any);
+      mockOrderStatusService.getTimeline.mockResolvedValue(timeline);
+
+      const result = await service.getTimeline(orderId);
+
+      expect(result).toBe(timeline);
+      expect(mockOrderStatusService.getTimeline).toHaveBeenCalledWith(orderId);
+    });
+
+    // TC-ORD-005-02: Abnormal - Customer requests another customer's order
+    it("TC-ORD-005-02: should hide other customers' orders", async () => {
+      mockOrderRepository.findOne.mockResolvedValue({
+        orderId,
+        customerId: 'customer-id',
+      } as any);
+
+      await expect(
+        service.getTimeline(orderId, 'other-customer-id'),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockOrderStatusService.getTimeline).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelOrderItems', () => {
+    const orderId = 'test-order-id';
+    const shippedLot = {
+      lotId: 'lot-1',
+      lotNumber: 'LOT-A',
+      expiryDate: '2027-01-31',
+      quantity: 2,
+    };
+
+    // 2 x 100000 + 1 x 150000, voucher -35000, ship 30000
+    const buildOrder = (paymentStatus: PaymentStatus) => ({
+      orderId,
+      customerId: 'customer-id',
+      status: OrderStatus.CONFIRMED,
+      subtotal: 350000,
+      discountTotal: 0,
+      promotionDiscount: 35000,
+      shippingFee: 30000,
+      shippingDiscount: 0,
+      totalAmount: 345000,
+      payment: {
+        paymentId: 'payment-id',
+        amount: 345000,
+        paymentMethod:
+          paymentStatus === PaymentStatus.COMPLETED
+            ? PaymentEntityMethod.WALLET
+            : PaymentEntityMethod.CASH,
+        status: paymentStatus,
+      },
+      customer: { user: { userId: 'user-id' } },
+      orderItems: [
+        {
+          orderItemId: 'item-1',
+          productId: 'product-1',
+          priceAtTime: 100000,
+          quantity: 2,
+          status: OrderItemStatus.ACTIVE,
+          product: { productName: 'Product 1' },
+          lotAllocations: [shippedLot],
+        },
+        {
+          orderItemId: 'item-2',
+          productId: 'product-2',
+          priceAtTime: 150000,
+          quantity: 1,
+          status: OrderItemStatus.ACTIVE,
+          product: { productName: 'Product 2' },
+        },
+      ],
+      shippingLogs: [{ shippingLogId: 'log-1', ghnOrderCode: null }],
+    });
+
+    beforeEach(() => {
+      mockOrderRepository.save.mockImplementation((o) => Promise.resolve(o));
+    });
+
+    // TC-ORD-006-01: Normal - Prepaid order refunds the difference
+    it('TC-ORD-006-01: should restock, recalculate the total and refund a prepaid order', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(
+        buildOrder(PaymentStatus.COMPLETED) as any,
+      );
+      mockRefundsService.createRefund.mockResolvedValue({ amount: 180000 });
+
+      const result = await service.cancelOrderItems(
+        orderId,
+        { orderItemIds: ['item-1'], reason: 'Changed my mind' },
+        { userId: 'user-id', customerId: 'customer-id' },
+      );
+
+      expect(result.orderItems[0].status).toBe(OrderItemStatus.CANCELLED);
+      expect(mockInventoryService.adjustStock).toHaveBeenCalledWith(
+        'product-1',
+        2,
+        undefined,
+        'Order item cancelled',
+        {
+          type: StockMovementType.RESTOCK,
+          referenceType: StockMovementReferenceType.ORDER,
+          referenceId: orderId,
+          actorId: 'user-id',
+          lots: [shippedLot],
+        },
+        mockEntityManager,
+      );
+      // Voucher chia theo tỷ lệ: 35000 * 150000 / 350000 = 15000
+      expect(result.promotionDiscount).toBe(15000);
+      expect(result.totalAmount).toBe(165000);
+      expect(mockRefundsService.createRefund).toHaveBeenCalledWith(
+        expect.objectContaining({
+          paymentId: 'payment-id',
+          amount: 180000,
+          destination: RefundDestination.WALLET,
+          walletUserId: 'user-id',
+          preApproved: true,
+        }),
+        mockEntityManager,
+      );
+      expect(mockShippingLogsService.update).toHaveBeenCalledWith(
+        'log-1',
+        { totalAmount: 165000 },
+        'user-id',
+      );
+      expect(mockNotificationsService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-id',
+          data: expect.objectContaining({
+            refundAmount: 180000,
+            totalAmount: 165000,
+          }),
+        }),
+      );
+    });
+
+    // TC-ORD-006-02: Normal - COD order collects the new total
+    it('TC-ORD-006-02: should lower the COD amount and not restock out-of-stock items', async () => {
+      const order = buildOrder(PaymentStatus.PENDING);
+      mockOrderRepository.findOne.mockResolvedValue(order as any);
+
+      await service.cancelOrderItems(
+        orderId,
+        { orderItemIds: ['item-2'], outOfStock: true },
+        { userId: 'staff-id' },
+      );
+
+      expect(order.orderItems[1].status).toBe(OrderItemStatus.OUT_OF_STOCK);
+      expect(mockInventoryService.adjustStock).not.toHaveBeenCalled();
+      expect(mockRefundsService.createRefund).not.toHaveBeenCalled();
+      // 200000 - 20000 (voucher còn lại) + 30000 ship
+      expect(mockPaymentRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 210000 }),
+      );
+    });
+
+    // TC-ORD-006-03: Abnormal - Order already shipping
+    it('TC-ORD-006-03: should reject orders that are already shipping', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({
+        ...buildOrder(PaymentStatus.PENDING),
+        status: OrderStatus.SHIPPING,
+      } as any);
+
+      await expect(
+        service.cancelOrderItems(
+          orderId,
+          { orderItemIds: ['item-1'] },
+          { userId: 'staff-id' },
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockOrderItemRepository.save).not.toHaveBeenCalled();
+    });
+
+    // TC-ORD-006-04: Boundary - Cancelling every item
+    it('TC-ORD-006-04: should require cancelling the whole order instead of every item', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(
+        buildOrder(PaymentStatus.PENDING) as any,
+      );
+
+      await expect(
+        service.cancelOrderItems(
+          orderId,
+          { orderItemIds: ['item-1', 'item-2'] },
+          { userId: 'staff-id' },
+        ),
+      ).rejects.toThrow('cancel the whole order instead');
+    });
+
+    // TC-ORD-006-05: Abnormal - Customer marks items out of stock
+    it('TC-ORD-006-05: should only let staff mark items as out of stock', async () => {
+      mockOrderRepository.findOne.mockResolvedValue(
+        buildOrder(PaymentStatus.PENDING) as any,
+      );
+
+      await expect(
+        service.cancelOrderItems(
+          orderId,
+          { orderItemIds: ['item-1'], outOfStock: true },
+          { userId: 'user-id', customerId: 'customer-id' },
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    // TC-ORD-006-06: Abnormal - GHN waybill already created
+    it('TC-ORD-006-06: should reject once a GHN shipping order exists', async () => {
+      mockOrderRepository.findOne.mockResolvedValue({
+        ...buildOrder(PaymentStatus.PENDING),
+        shippingLogs: [{ shippingLogId: 'log-1', ghnOrderCode: 'GHN123' }],
+      } as any);
+
+      await expect(
+        service.cancelOrderItems(
+          orderId,
+          { orderItemIds: ['item-1'] },
+          { userId: 'staff-id' },
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    // TC-ORD-006-07: Normal - Cancelled items go back to the sourcing warehouse
+    it('TC-ORD-006-07: should release the warehouse reservation of cancelled items', async () => {
+      const order = buildOrder(PaymentStatus.PENDING);
+      mockOrderRepository.findOne.mockResolvedValue({
+        ...order,
+        shippingLogs: [
+          {
+            shippingLogId: 'log-1',
+            ghnOrderCode: null,
+            warehouseId: 'warehouse-1',
+            totalAmount: 345000,
+            items: [
+              { productId: 'product-1', quantity: 2 },
+              { productId: 'product-2', quantity: 1 },
+            ],
+            stockDispatchedAt: null,
+          },
+        ],
+      } as any);
+
+      await service.cancelOrderItems(
+        orderId,
+        { orderItemIds: ['item-2'] },
+        { userId: 'staff-id' },
+      );
+
+      expect(mockWarehousesService.releaseAllocation).toHaveBeenCalledWith(
+        'warehouse-1',
+        [{ productId: 'product-2', quantity: 1 }],
+      );
+      expect(mockShippingLogsService.update).toHaveBeenCalledWith(
+        'log-1',
+        {
+          totalAmount: 210000,
+          items: [{ productId: 'product-1', quantity: 2 }],
+        },
+        'staff-id',
+      );
+    });
+
+    // TC-ORD-006-08: Abnormal - Another request cancelled the item first
+    it('TC-ORD-006-08: should re-check item statuses after locking the order', async () => {
+      const order = buildOrder(PaymentStatus.COMPLETED);
+      mockOrderRepository.findOne.mockResolvedValue({
+        ...order,
+        orderItems: [
+          { ...order.orderItems[0], status: OrderItemStatus.CANCELLED },
+          order.orderItems[1],
+        ],
+      } as any);
+
+      await expect(
+        service.cancelOrderItems(
+          orderId,
+          { orderItemIds: ['item-1'] },
+          { userId: 'staff-id' },
+        ),
+      ).rejects.toThrow('Order item item-1 is already CANCELLED');
+      expect(mockOrderRepository.findOne).toHaveBeenCalledWith({
+        where: { orderId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      expect(mockInventoryService.adjustStock).not.toHaveBeenCalled();
+      expect(mockRefundsService.createRefund).not.toHaveBeenCalled();
+    });
+
+    // TC-ORD-006-09: Boundary - Every line is a free gift
+    it('TC-ORD-006-09: should keep the totals finite when every line is priced 0', async () => {
+      const order = buildOrder(PaymentStatus.COMPLETED);
+      mockOrderRepository.findOne.mockResolvedValue({
+        ...order,
+        subtotal: 0,
+        promotionDiscount: 0,
+        totalAmount: 30000,
+        orderItems: order.orderItems.map((item) => ({
+          ...item,
+          priceAtTime: 0,
+        })),
+      } as any);
+
+      const result = await service.cancelOrderItems(
+        orderId,
+        { orderItemIds: ['item-1'] },
+        { userId: 'staff-id' },
+      );
+
+      expect(result.subtotal).toBe(0);
+      expect(result.promotionDiscount).toBe(0);
+      expect(result.totalAmount).toBe(30000);
+      expect(mockRefundsService.createRefund).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reorder', () => {
+    const orderId = 'test-order-id';
+    const userId = 'user-id';
+
+    beforeEach(() => {
+      mockCustomersService.findByUserId.mockResolvedValue({
+        customerId: 'customer-id',
+      });
+      mockOrderRepository.findOne.mockResolvedValue({
+        orderId,
+        customerId: 'customer-id',
+        orderItems: [
+          {
+            productId: 'product-1',
+            priceAtTime: 100000,
+            quantity: 2,
+            status: OrderItemStatus.ACTIVE,
+            product: { productName: 'Product 1' },
+          },
+          {
+            productId: 'product-2',
+            priceAtTime: 150000,
+            quantity: 3,
+            status: OrderItemStatus.ACTIVE,
+            product: { productName: 'Product 2' },
+          },
+          {
+            productId: 'product-3',
+            priceAtTime: 50000,
+            quantity: 1,
+            status: OrderItemStatus.CANCELLED,
+            product: { productName: 'Product 3' },
+          },
+        ],
+      });
+      mockCartService.getCart.mockResolvedValue({ items: [] });
+      mockCartService.addToCart.mockImplementation(
+        (_userId: string, dto: { productId: string; quantity: number }) =>
+          Promise.resolve({
+            items: [{ ...dto, price: 120000 }],
+          }),
+      );
+    });
+
+    // TC-ORD-007-01: Normal - All items back in the cart at current prices
+    it('TC-ORD-007-01: should add active items to the cart at current prices', async () => {
+      mockInventoryService.getAvailableStock.mockResolvedValue(10);
+
+      const result = await service.reorder(orderId, userId);
+
+      expect(mockCartService.addToCart).toHaveBeenCalledTimes(2);
+      expect(mockCartService.addToCart).not.toHaveBeenCalledWith(userId, {
+        productId: 'product-3',
+        quantity: 1,
+      });
+      expect(result.added[0]).toEqual(
+        expect.objectContaining({
+          productId: 'product-1',
+          quantity: 2,
+          previousPrice: 100000,
+          currentPrice: 120000,
+        }),
+      );
+      expect(result.unavailable).toEqual([]);
+    });
+
+    // TC-ORD-007-02: Boundary - Partial and missing stock are reported
+    it('TC-ORD-007-02: should cap quantities to stock and report unavailable items', async () => {
+      mockInventoryService.getAvailableStock
+        .mockResolvedValueOnce(0)
+        .mockResolvedValueOnce(1);
+
+      const result = await service.reorder(orderId, userId);
+
+      expect(mockCartService.addToCart).toHaveBeenCalledTimes(1);
+      expect(mockCartService.addToCart).toHaveBeenCalledWith(userId, {
+        productId: 'product-2',
+        quantity: 1,
+      });
+      expect(result.unavailable).toEqual([
+        expect.objectContaining({
+          productId: 'product-1',
+          availableQuantity: 0,
+          reason: 'Out of stock',
+        }),
+        expect.objectContaining({
+          productId: 'product-2',
+          requestedQuantity: 3,
+          availableQuantity: 1,
+        }),
+      ]);
+    });
+
+    // TC-ORD-007-03: Abnormal - Another customer's order
+    it("TC-ORD-007-03: should not reorder another customer's order", async () => {
+      mockCustomersService.findByUserId.mockResolvedValue({
+        customerId: 'other-customer',
+      });
+
+      await expect(service.reorder(orderId, userId)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(mockCartService.addToCart).not.toHaveBeenCalled();
+    });
   });
 });
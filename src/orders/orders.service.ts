@@ -7,9 +7,13 @@ import {
   Logger,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Order, OrderStatus } from './entities/order.entity';
-import { OrderItem } from './entities/order-item.entity';
+import { EntityManager, Repository } from 'typeorm';
+import {
+  Order,
+  OrderPriceBreakdown,
+  OrderStatus,
+} from './entities/order.entity';
+import { OrderItem, OrderItemStatus } from './entities/order-item.entity';
 import { Payment } from '../payments/entities/payment.entity';
 import { CreateOrderDto } from './dto/create-order.dto';
 import { UpdateOrderDto } from './dto/update-order.dto';
@@ -19,10 +23,13 @@ import {
   PaymentMethod as PaymentEntityMethod,
 } from '../payments/entities/payment.entity';
 import { CartService } from '../cart/cart.service';
+import { Cart } from '../cart/interfaces/cart-item.interface';
 import { InventoryService } from '../inventory/inventory.service';
 import { CustomersService } from '../customers/customers.service';
 import { UsersService } from '../users/users.service';
 import { PaymentsService } from '../payments/payments.service';
+import { RefundsService } from '../payments/refunds.service';
+import { RefundDestination } from '../payments/entities/refund.entity';
 import { PaymentType } from '../payments/entities/payment.entity';
 import { NotificationsService } from '../notifications/notifications.service';
 import { NotificationType } from '../notifications/entities/notification.entity';
@@ -31,9 +38,87 @@ import {
   ShippingStatus,
   ShippingMethod,
 } from '../shipping-logs/entities/shipping-log.entity';
+import { ShippingLog } from '../shipping-logs/entities/shipping-log.entity';
 import { GhnService } from '../ghn/ghn.service';
 import { GhnRequiredNote } from '../ghn/dto/create-ghn-order.dto';
 import { mapGhnStatusToEnum } from './utils/ghn-status-mapper.util';
+import { LedgerService } from '../ledger/ledger.service';
+import { OrderQuotesService } from './order-quotes.service';
+import { PromotionsService } from '../promotions/promotions.service';
+import { EmailService } from '../email/email.service';
+import { Customer } from '../customers/entities/customer.entity';
+import { OrderStatusChange, OrderStatusService } from './order-status.service';
+import {
+  OrderStatusHistory,
+  OrderStatusSource,
+} from './entities/order-status-history.entity';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import {
+  SourcingAllocation,
+  WarehousesService,
+} from '../warehouses/warehouses.service';
+import {
+  ReservationLine,
+  StockReservationsService,
+} from '../inventory/stock-reservations.service';
+import { LotAllocation } from '../inventory/entities/inventory-lot.entity';
+import {
+  StockMovementReferenceType,
+  StockMovementType,
+} from '../inventory/entities/stock-movement.entity';
+import { Warehouse } from '../warehouses/entities/warehouse.entity';
+import { StockItem } from '../warehouses/entities/stock-transfer.entity';
+import {
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../ledger/entities/ledger-transaction.entity';
+
+// Điểm lấy hàng khi chưa khai báo kho nào đủ hàng
+const DEFAULT_PICKUP = {
+  phone: '0332190444',
+  address:
+    'Lô E2a-7, Đường D1, Đ. D1, Long Thạnh Mỹ, Thành Phố Thủ Đức, Thành phố Hồ Chí Minh',
+  districtId: 1442, // Thủ Đức
+  wardCode: '21012', // Phường Long Thạnh Mỹ
+};
+
+interface ShipmentLine {
+  productId: string;
+  productName?: string;
+  quantity: number;
+  price: number;
+}
+
+// Chỉ hủy từng sản phẩm khi đơn chưa giao cho đơn vị vận chuyển
+const ITEM_CANCELLABLE_STATUSES = [
+  OrderStatus.PENDING,
+  OrderStatus.CONFIRMED,
+  OrderStatus.PROCESSING,
+];
+
+export interface ReorderResult {
+  cart: Cart;
+  added: {
+    productId: string;
+    productName?: string;
+    quantity: number;
+    previousPrice: number;
+    currentPrice?: number;
+  }[];
+  unavailable: {
+    productId: string;
+    productName?: string;
+    requestedQuantity: number;
+    availableQuantity: number;
+    reason: string;
+  }[];
+}
+
+type OrderConfirmationLine = {
+  productName?: string;
+  quantity: number;
+  price?: number;
+};
 
 @Injectable()
 export class OrdersService {
@@ -46,6 +131,7 @@ export class OrdersService {
     private readonly orderItemRepository: Repository<OrderItem>,
     @InjectRepository(Payment)
     private readonly paymentRepository: Repository<Payment>,
+    private readonly entityManager: EntityManager,
     private readonly cartService: CartService,
     private readonly inventoryService: InventoryService,
     private readonly customersService: CustomersService,
@@ -55,6 +141,14 @@ export class OrdersService {
     private readonly notificationsService: NotificationsService,
     private readonly shippingLogsService: ShippingLogsService,
     private readonly ghnService: GhnService,
+    private readonly ledgerService: LedgerService,
+    private readonly orderQuotesService: OrderQuotesService,
+    private readonly promotionsService: PromotionsService,
+    private readonly emailService: EmailService,
+    private readonly orderStatusService: OrderStatusService,
+    private readonly refundsService: RefundsService,
+    private readonly warehousesService: WarehousesService,
+    private readonly stockReservationsService: StockReservationsService,
   ) {}
 
   /**
@@ -80,7 +174,50 @@ export class OrdersService {
     }
   }
 
-  async create(createDto: CreateOrderDto): Promise<Order> {
+  /**
+   * Số tiền GHN/shipper cần thu hộ: chỉ với đơn COD chưa thanh toán
+   */
+  private getCodAmount(payment?: Payment | null): number {
+    if (
+      !payment ||
+      payment.paymentMethod !== PaymentEntityMethod.CASH ||
+      payment.status === PaymentStatus.COMPLETED
+    ) {
+      return 0;
+    }
+    return Math.floor(Number(payment.amount));
+  }
+
+  /**
+   * Sản phẩm còn được giao (bỏ qua sản phẩm đã hủy / hết hàng)
+   */
+  private getActiveItems(order: Order): OrderItem[] {
+    return (order.orderItems ?? []).filter(
+      (item) =>
+        (item.status ?? OrderItemStatus.ACTIVE) === OrderItemStatus.ACTIVE,
+    );
+  }
+
+  /**
+   * 🏷️ Ghi lô đã xuất lên từng dòng đơn hàng để truy vết khi thu hồi
+   */
+  private async recordLotAllocations(
+    orderItems: OrderItem[],
+    lotAllocations: Map<string, LotAllocation[]>,
+  ): Promise<void> {
+    const allocated = orderItems.filter(
+      (item) => lotAllocations.get(item.productId)?.length,
+    );
+    if (allocated.length === 0) {
+      return;
+    }
+    for (const item of allocated) {
+      item.lotAllocations = lotAllocations.get(item.productId) ?? null;
+    }
+    await this.orderItemRepository.save(allocated);
+  }
+
+  async create(createDto: CreateOrderDto, actorId?: string): Promise<Order> {
     // Calculate total amount
     const totalAmount = createDto.orderItems.reduce(
       (sum, item) => sum + item.priceAtTime * item.quantity,
@@ -107,6 +244,10 @@ export class OrdersService {
       status: createDto.status,
     });
     const savedOrder = await this.orderRepository.save(order);
+    await this.orderStatusService.recordCreated(savedOrder, {
+      source: OrderStatusSource.STAFF,
+      actorId,
+    });
 
     // Create order items
     const orderItems = createDto.orderItems.map((item) =>
@@ -135,8 +276,9 @@ export class OrdersService {
     });
   }
 
-  async findOne(id: string): Promise<Order> {
-    const order = await this.orderRepository.findOne({
+  async findOne(id: string, manager?: EntityManager): Promise<Order> {
+    const repository = manager?.getRepository(Order) ?? this.orderRepository;
+    const order = await repository.findOne({
       where: { orderId: id },
       relations: [
         'customer',
@@ -169,36 +311,144 @@ export class OrdersService {
     });
   }
 
-  async update(id: string, updateDto: UpdateOrderDto): Promise<Order> {
+  async update(
+    id: string,
+    updateDto: UpdateOrderDto,
+    change: OrderStatusChange = { source: OrderStatusSource.STAFF },
+  ): Promise<Order> {
+    const { status, ...fields } = updateDto;
     const order = await this.findOne(id);
-    Object.assign(order, updateDto);
+    if (status) {
+      await this.orderStatusService.transition(order, status, {
+        ...change,
+        reason: change.reason ?? fields.rejectionReason,
+      });
+    }
+    Object.assign(order, fields);
     return await this.orderRepository.save(order);
   }
 
+  /**
+   * Timeline trạng thái đơn; truyền customerId để chỉ cho xem đơn của mình
+   */
+  async getTimeline(
+    id: string,
+    customerId?: string,
+  ): Promise<OrderStatusHistory[]> {
+    const order = await this.orderRepository.findOne({
+      where: { orderId: id },
+    });
+    if (!order || (customerId && order.customerId !== customerId)) {
+      throw new NotFoundException(`Order with ID ${id} not found`);
+    }
+    return this.orderStatusService.getTimeline(id);
+  }
+
   async remove(id: string): Promise<void> {
     const order = await this.findOne(id);
     await this.orderRepository.remove(order);
   }
 
-  async cancelOrder(id: string, reason?: string): Promise<Order> {
-    const order = await this.findOne(id);
+  /**
+   * ❌ Từ chối / hủy cả đơn. Đơn đã thanh toán được hoàn tiền vào ví qua RefundsService
+   */
+  async cancelOrder(
+    id: string,
+    reason?: string,
+    actorId?: string,
+  ): Promise<Order> {
+    const { order, changed } = await this.entityManager.transaction(
+      async (manager) => {
+        // 🔒 Khóa đơn như khi hủy từng sản phẩm: hủy đồng thời không hoàn tiền hai lần
+        await manager.getRepository(Order).findOne({
+          where: { orderId: id },
+          lock: { mode: 'pessimistic_write' },
+        });
+        const order = await this.findOne(id, manager);
 
-    if (order.status === 'DELIVERED') {
-      throw new BadRequestException('Cannot cancel delivered order');
-    }
+        if (order.status === OrderStatus.DELIVERED) {
+          throw new BadRequestException('Cannot cancel delivered order');
+        }
 
-    order.status = 'REJECTED' as any;
-    if (reason) {
-      order.rejectionReason = reason;
-    }
+        const changed = await this.orderStatusService.transition(
+          order,
+          OrderStatus.REJECTED,
+          {
+            source: OrderStatusSource.STAFF,
+            actorId,
+            reason,
+          },
+          manager,
+        );
+        if (!changed) {
+          // Đơn đã bị hủy trước đó → không hoàn tiền / trả hàng lần nữa
+          return { order, changed };
+        }
+        if (reason) {
+          order.rejectionReason = reason;
+        }
 
-    // Update payment status
-    if (order.payment) {
-      order.payment.status = PaymentStatus.FAILED;
-      await this.paymentRepository.save(order.payment);
+        // Hàng đã trừ kho lúc đặt → cộng lại các sản phẩm chưa bị hủy riêng
+        for (const item of this.getActiveItems(order)) {
+          await this.inventoryService.adjustStock(
+            item.productId,
+            item.quantity,
+            undefined,
+            'Order cancelled',
+            {
+              type: StockMovementType.RESTOCK,
+              referenceType: StockMovementReferenceType.ORDER,
+              referenceId: order.orderId,
+              actorId,
+              lots: item.lotAllocations ?? undefined,
+            },
+            manager,
+          );
+        }
+
+        // Đã thanh toán → hoàn phần còn lại vào ví, payment thành REFUNDED
+        const payment = order.payment;
+        if (payment?.status === PaymentStatus.COMPLETED) {
+          await this.refundsService.createRefund(
+            {
+              paymentId: payment.paymentId,
+              destination: RefundDestination.WALLET,
+              walletUserId: order.customer?.user?.userId,
+              reason: `Hủy đơn hàng #${order.orderId.slice(0, 8)}`,
+              requestedBy: actorId,
+              preApproved: true,
+              referenceType: LedgerReferenceType.ORDER,
+              referenceId: order.orderId,
+            },
+            manager,
+          );
+          // Refund cập nhật payment trên bản ghi khác → đọc lại để save đơn (cascade) không ghi đè
+          order.payment = await manager
+            .getRepository(Payment)
+            .findOneOrFail({ where: { paymentId: payment.paymentId } });
+        } else if (payment?.status === PaymentStatus.PENDING) {
+          // Chưa thu tiền (COD / chờ chuyển khoản) → không còn thu nữa
+          payment.status = PaymentStatus.FAILED;
+          await manager.getRepository(Payment).save(payment);
+        }
+
+        return {
+          order: await manager.getRepository(Order).save(order),
+          changed,
+        };
+      },
+    );
+    if (!changed) {
+      return order;
     }
 
-    const savedOrder = await this.orderRepository.save(order);
+    // Trả lại hàng đã giữ ở kho cho các vận đơn chưa lấy hàng
+    await this.releaseWarehouseStock(
+      order.shippingLogs ?? [],
+      (order.shippingLogs ?? []).flatMap((log) =>
+        (log.items ?? []).map((item) => ({ ...item })),
+      ),
+    );
 
     // 🔔 Gửi notification cho customer
     // Check if customer has valid user before sending notification
@@ -237,7 +487,394 @@ export class OrdersService {
       );
     }
 
-    return savedOrder;
+    return order;
+  }
+
+  /**
+   * ✂️ Hủy hoặc báo hết hàng từng sản phẩm trước khi giao:
+   * - Sản phẩm bị hủy được trả lại kho (hết hàng thì không)
+   * - Tính lại tổng đơn, khuyến mãi chia theo tỷ lệ giá trị còn lại
+   * - Đơn đã thanh toán → hoàn phần chênh lệch vào ví; đơn COD → giảm số tiền thu hộ
+   * Truyền customerId để khách chỉ hủy được sản phẩm trong đơn của mình
+   */
+  async cancelOrderItems(
+    id: string,
+    input: { orderItemIds: string[]; reason?: string; outOfStock?: boolean },
+    actor: { userId: string; customerId?: string },
+  ): Promise<Order> {
+    const status = input.outOfStock
+      ? OrderItemStatus.OUT_OF_STOCK
+      : OrderItemStatus.CANCELLED;
+
+    const { order, targets, previousTotal, refundAmount } =
+      await this.entityManager.transaction(async (manager) => {
+        // 🔒 Khóa đơn: hai yêu cầu hủy đồng thời không cộng kho / hoàn tiền hai lần
+        await manager.getRepository(Order).findOne({
+          where: { orderId: id },
+          lock: { mode: 'pessimistic_write' },
+        });
+        // Đọc lại sau khi khóa → trạng thái đơn và từng sản phẩm là mới nhất
+        const order = await this.findOne(id, manager);
+        const targets = this.getCancellableItems(order, input, actor);
+
+        const cancelledAt = new Date();
+        for (const item of targets) {
+          item.status = status;
+          item.cancellationReason = input.reason ?? null;
+          item.cancelledBy = actor.userId;
+          item.cancelledAt = cancelledAt;
+        }
+        await manager.getRepository(OrderItem).save(targets);
+
+        // Hàng đã trừ kho lúc đặt; hết hàng nghĩa là tồn kho thực tế không có nên không cộng lại
+        if (status === OrderItemStatus.CANCELLED) {
+          for (const item of targets) {
+            await this.inventoryService.adjustStock(
+              item.productId,
+              item.quantity,
+              undefined,
+              'Order item cancelled',
+              {
+                type: StockMovementType.RESTOCK,
+                referenceType: StockMovementReferenceType.ORDER,
+                referenceId: order.orderId,
+                actorId: actor.userId,
+                // Trả về đúng lô đã xuất để còn theo dõi hạn dùng
+                lots: item.lotAllocations ?? undefined,
+              },
+              manager,
+            );
+          }
+        }
+
+        // Tính lại chi tiết giá
+        const lineTotal = (items: OrderItem[]) =>
+          items.reduce(
+            (sum, item) => sum + Number(item.priceAtTime) * item.quantity,
+            0,
+          );
+        const removedAmount = lineTotal(targets);
+        const remainingAmount = lineTotal(this.getActiveItems(order));
+        // Mọi dòng đều giá 0 → không có giá trị để chia lại khuyến mãi
+        const ratio =
+          remainingAmount + removedAmount > 0
+            ? remainingAmount / (remainingAmount + removedAmount)
+            : 1;
+        const previousTotal = Number(
+          order.totalAmount || order.payment?.amount || 0,
+        );
+        const promotionDiscount = Math.round(
+          Number(order.promotionDiscount) * ratio,
+        );
+        const newTotal = Math.max(
+          0,
+          previousTotal -
+            removedAmount +
+            (Number(order.promotionDiscount) - promotionDiscount),
+        );
+        const reduction = previousTotal - newTotal;
+        order.subtotal = Math.round(Number(order.subtotal) * ratio);
+        order.discountTotal = Math.round(Number(order.discountTotal) * ratio);
+        order.promotionDiscount = promotionDiscount;
+        order.totalAmount = newTotal;
+
+        let refundAmount = 0;
+        const payment = order.payment;
+        if (payment && reduction > 0) {
+          if (payment.status === PaymentStatus.COMPLETED) {
+            const refund = await this.refundsService.createRefund(
+              {
+                paymentId: payment.paymentId,
+                amount: reduction,
+                destination: RefundDestination.WALLET,
+                walletUserId: order.customer?.user?.userId,
+                reason: `Hủy ${targets.length} sản phẩm của đơn hàng #${order.orderId.slice(0, 8)}`,
+                requestedBy: actor.userId,
+                preApproved: true,
+                referenceType: LedgerReferenceType.ORDER,
+                referenceId: order.orderId,
+              },
+              manager,
+            );
+            refundAmount = Number(refund.amount);
+          } else {
+            payment.amount = newTotal;
+            await manager.getRepository(Payment).save(payment);
+          }
+        }
+
+        return {
+          order: await manager.getRepository(Order).save(order),
+          targets,
+          previousTotal,
+          refundAmount,
+        };
+      });
+
+    const newTotal = Number(order.totalAmount);
+    const changedLogs = await this.releaseWarehouseStock(
+      order.shippingLogs ?? [],
+      targets.map(({ productId, quantity }) => ({ productId, quantity })),
+      status === OrderItemStatus.OUT_OF_STOCK,
+    );
+    for (const log of order.shippingLogs ?? []) {
+      // Đơn tách kho: chỉ vận đơn chính mang tổng tiền / COD
+      const carriesTotal = !log.warehouseId || Number(log.totalAmount) > 0;
+      const changed = changedLogs.includes(log);
+      if (!carriesTotal && !changed) continue;
+      await this.shippingLogsService.update(
+        log.shippingLogId,
+        {
+          ...(carriesTotal && { totalAmount: newTotal }),
+          ...(changed && { items: log.items }),
+        },
+        actor.userId,
+      );
+    }
+
+    this.logger.log(
+      `✂️ ${targets.length} items ${status} in order ${order.orderId}: total ${previousTotal} → ${newTotal} VND`,
+    );
+
+    await this.notifyItemsCancelled(order, targets, refundAmount, input.reason);
+
+    return order;
+  }
+
+  /**
+   * Kiểm tra đơn còn hủy từng sản phẩm được và trả về các dòng cần hủy
+   */
+  private getCancellableItems(
+    order: Order,
+    input: { orderItemIds: string[]; outOfStock?: boolean },
+    actor: { customerId?: string },
+  ): OrderItem[] {
+    if (actor.customerId && order.customerId !== actor.customerId) {
+      throw new NotFoundException(`Order with ID ${order.orderId} not found`);
+    }
+    if (actor.customerId && input.outOfStock) {
+      throw new BadRequestException(
+        'Only staff can mark order items as out of stock',
+      );
+    }
+    if (!ITEM_CANCELLABLE_STATUSES.includes(order.status)) {
+      throw new BadRequestException(
+        `Cannot cancel items of an order in status ${order.status}`,
+      );
+    }
+    // Vận đơn GHN đã tạo với danh sách hàng và tiền thu hộ cố định
+    if (order.shippingLogs?.some((log) => log.ghnOrderCode)) {
+      throw new BadRequestException(
+        'Cannot cancel items after the GHN shipping order has been created',
+      );
+    }
+
+    const activeItems = this.getActiveItems(order);
+    const targets = [...new Set(input.orderItemIds)].map((orderItemId) => {
+      const item = order.orderItems.find(
+        (orderItem) => orderItem.orderItemId === orderItemId,
+      );
+      if (!item) {
+        throw new NotFoundException(
+          `Order item ${orderItemId} not found in order ${order.orderId}`,
+        );
+      }
+      if (item.status !== OrderItemStatus.ACTIVE) {
+        throw new BadRequestException(
+          `Order item ${orderItemId} is already ${item.status}`,
+        );
+      }
+      return item;
+    });
+    if (targets.length === activeItems.length) {
+      throw new BadRequestException(
+        'Cannot cancel every item of an order, cancel the whole order instead',
+      );
+    }
+    return targets;
+  }
+
+  /**
+   * Trả lại hàng đã giữ tại kho của các vận đơn chưa lấy hàng.
+   * writeOff: báo hết hàng → hàng thực tế không còn, trừ luôn tồn kho.
+   * Trả về các shipping log đã bớt sản phẩm.
+   */
+  private async releaseWarehouseStock(
+    logs: ShippingLog[],
+    items: StockItem[],
+    writeOff = false,
+  ): Promise<ShippingLog[]> {
+    const changed = new Set<ShippingLog>();
+    for (const item of items) {
+      let remaining = item.quantity;
+      for (const log of logs) {
+        if (!log.warehouseId || !log.items || log.stockDispatchedAt) continue;
+        const line = log.items.find((l) => l.productId === item.productId);
+        if (!line || remaining <= 0) continue;
+
+        const quantity = Math.min(remaining, line.quantity);
+        const released = [{ productId: item.productId, quantity }];
+        if (writeOff) {
+          await this.warehousesService.consumeAllocation(
+            log.warehouseId,
+            released,
+          );
+        } else {
+          await this.warehousesService.releaseAllocation(
+            log.warehouseId,
+            released,
+          );
+        }
+        line.quantity -= quantity;
+        log.items = log.items.filter((l) => l.quantity > 0);
+        remaining -= quantity;
+        changed.add(log);
+      }
+    }
+    return [...changed];
+  }
+
+  private async notifyItemsCancelled(
+    order: Order,
+    cancelledItems: OrderItem[],
+    refundAmount: number,
+    reason?: string,
+  ): Promise<void> {
+    const userId = order.customer?.user?.userId;
+    if (!userId) {
+      this.logger.warn(
+        `No valid user found for order ${order.orderId}, skipping notification`,
+      );
+      return;
+    }
+
+    const describe = (items: OrderItem[]) =>
+      items
+        .map(
+          (item) =>
+            `${item.product?.productName || 'Sản phẩm'} x${item.quantity}`,
+        )
+        .join(', ');
+    const remainingItems = this.getActiveItems(order);
+    const lines = [
+      `Không giao: ${describe(cancelledItems)}${reason ? ` (${reason})` : ''}.`,
+      `Vẫn giao: ${describe(remainingItems)}.`,
+      `Tổng đơn mới: ${Number(order.totalAmount).toLocaleString('vi-VN')} VND.`,
+    ];
+    if (refundAmount > 0) {
+      lines.push(
+        `Đã hoàn ${refundAmount.toLocaleString('vi-VN')} VND vào ví của bạn.`,
+      );
+    }
+
+    try {
+      await this.notificationsService.create({
+        userId,
+        type: NotificationType.ORDER,
+        title: '✂️ Đơn hàng đã được cập nhật',
+        message: `Đơn hàng #${order.orderId.slice(0, 8)}: ${lines.join(' ')}`,
+        data: {
+          orderId: order.orderId,
+          cancelledItems: cancelledItems.map((item) => ({
+            orderItemId: item.orderItemId,
+            productId: item.productId,
+            quantity: item.quantity,
+            status: item.status,
+          })),
+          remainingItems: remainingItems.map((item) => ({
+            orderItemId: item.orderItemId,
+            productId: item.productId,
+            quantity: item.quantity,
+          })),
+          totalAmount: order.totalAmount,
+          refundAmount,
+        },
+      });
+    } catch (error) {
+      // Không làm hỏng thao tác hủy nếu gửi thông báo lỗi
+      this.logger.error(
+        `Failed to send item cancellation notification: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * 🔁 Mua lại: thêm các sản phẩm của đơn cũ vào giỏ theo giá hiện tại.
+   * Sản phẩm không đủ hàng được thêm số lượng còn lại, hết hàng thì bỏ qua.
+   */
+  async reorder(id: string, userId: string): Promise<ReorderResult> {
+    const customer = await this.customersService.findByUserId(userId);
+    const order = await this.orderRepository.findOne({
+      where: { orderId: id },
+      relations: ['orderItems', 'orderItems.product'],
+    });
+    if (!order || !customer || order.customerId !== customer.customerId) {
+      throw new NotFoundException(`Order with ID ${id} not found`);
+    }
+
+    const result: ReorderResult = {
+      cart: await this.cartService.getCart(userId),
+      added: [],
+      unavailable: [],
+    };
+    for (const item of this.getActiveItems(order)) {
+      const productName = item.product?.productName;
+      const available = await this.inventoryService.getAvailableStock(
+        item.productId,
+      );
+      const quantity = Math.min(item.quantity, available);
+      if (quantity <= 0) {
+        result.unavailable.push({
+          productId: item.productId,
+          productName,
+          requestedQuantity: item.quantity,
+          availableQuantity: 0,
+          reason: 'Out of stock',
+        });
+        continue;
+      }
+
+      try {
+        // addToCart lấy giá hiện tại của sản phẩm và giữ hàng trong kho
+        result.cart = await this.cartService.addToCart(userId, {
+          productId: item.productId,
+          quantity,
+        });
+      } catch (error) {
+        result.unavailable.push({
+          productId: item.productId,
+          productName,
+          requestedQuantity: item.quantity,
+          availableQuantity: 0,
+          reason: (error as Error).message,
+        });
+        continue;
+      }
+
+      result.added.push({
+        productId: item.productId,
+        productName,
+        quantity,
+        previousPrice: Number(item.priceAtTime),
+        currentPrice: result.cart.items.find(
+          (cartItem) => cartItem.productId === item.productId,
+        )?.price,
+      });
+      if (quantity < item.quantity) {
+        result.unavailable.push({
+          productId: item.productId,
+          productName,
+          requestedQuantity: item.quantity,
+          availableQuantity: quantity,
+          reason: 'Insufficient stock',
+        });
+      }
+    }
+
+    this.logger.log(
+      `🔁 Reorder ${id}: ${result.added.length} items added, ${result.unavailable.length} unavailable`,
+    );
+    return result;
   }
 
   /**
@@ -265,7 +902,11 @@ export class OrdersService {
       );
     }
 
-    order.status = OrderStatus.COMPLETED;
+    await this.orderStatusService.transition(order, OrderStatus.COMPLETED, {
+      source: OrderStatusSource.CUSTOMER,
+      actorId: order.customer?.user?.userId,
+      reason: feedback,
+    });
 
     // Lưu feedback nếu có (có thể thêm field feedback vào Order entity nếu cần)
     if (feedback) {
@@ -281,7 +922,10 @@ export class OrdersService {
     shippingMethod?: ShippingMethod,
   ): Promise<Order> {
     const order = await this.findOne(id);
-    order.status = 'CONFIRMED' as any;
+    await this.orderStatusService.transition(order, OrderStatus.CONFIRMED, {
+      source: OrderStatusSource.STAFF,
+      actorId: processedBy,
+    });
     order.processedBy = processedBy;
 
     // Sử dụng shippingMethod từ staff hoặc từ order.preferredShippingMethod
@@ -292,8 +936,10 @@ export class OrdersService {
 
     this.logger.log(
       `📦 Confirming order with shipping method: ${finalShippingMethod}`,
-    ); // Update payment status to completed
-    if (order.payment) {
+    );
+    // Đơn COD giữ payment PENDING đến khi đối soát tiền thu hộ
+    const codAmount = this.getCodAmount(order.payment);
+    if (order.payment && !codAmount) {
       order.payment.status = PaymentStatus.COMPLETED;
       order.payment.paidAmount = order.payment.amount;
       order.payment.paidAt = new Date();
@@ -303,77 +949,25 @@ export class OrdersService {
     const savedOrder = await this.orderRepository.save(order);
 
     // 📦 Tạo shipping log khi order được confirm
-    let ghnOrderCode: string | undefined;
-    let ghnShippingFee: number | undefined;
-
     try {
-      // 🚚 Nếu chọn GHN → Tạo đơn vận chuyển GHN
-      if (finalShippingMethod === ShippingMethod.GHN) {
-        this.logger.log(`📦 Creating GHN shipping order for ${order.orderId}`);
-
-        // Calculate total weight from order items (giả sử mỗi sản phẩm 200g)
-        const totalWeight = (order.orderItems?.length || 1) * 200;
-
-        try {
-          // Convert payment amount to integer (GHN requires int, not string/decimal)
-          const codAmount = order.payment?.amount
-            ? Math.floor(Number(order.payment.amount))
-            : 0;
-
-          const ghnResult = await this.ghnService.createShippingOrder({
-            paymentTypeId: 1, // Shop trả phí ship
-            note: order.notes || 'Đơn hàng Skinalyze',
-            requiredNote: GhnRequiredNote.NO_OPEN,
-            returnPhone: '0332190444',
-            returnAddress:
-              'Lô E2a-7, Đường D1, Đ. D1, Long Thạnh Mỹ, Thành Phố Thủ Đức, Thành phố Hồ Chí Minh',
-            returnDistrictId: 1442, // Thủ Đức
-            returnWardCode: '21012', // Phường Long Thạnh Mỹ
-            toName: order.customer?.user?.fullName || 'Khách hàng',
-            toPhone: order.customer?.user?.phone || '',
-            toAddress: order.shippingAddress,
-            toWardCode: order.toWardCode || '20308',
-            toDistrictId: order.toDistrictId || 1444,
-            codAmount: codAmount, // Số tiền thu hộ COD (integer)
-            content: 'Đơn hàng mỹ phẩm Skinalyze',
-            weight: totalWeight,
-            length: Math.floor(Math.random() * 20) + 10, // 10-30 cm
-            width: Math.floor(Math.random() * 15) + 10, // 10-25 cm
-            height: Math.floor(Math.random() * 10) + 5, // 5-15 cm
-            items:
-              order.orderItems?.map((item) => ({
-                name: item.product?.productName || 'Sản phẩm',
-                quantity: item.quantity,
-                price: item.priceAtTime,
-              })) || [],
-          });
-
-          ghnOrderCode = ghnResult.data.order_code;
-          ghnShippingFee = ghnResult.data.total_fee;
-
-          this.logger.log(
-            `✅ GHN order created: ${ghnOrderCode}, Fee: ${ghnShippingFee}`,
-          );
-        } catch (ghnError) {
-          this.logger.error(
-            `❌ Failed to create GHN order: ${ghnError.message}`,
-          );
-          // Vẫn tạo shipping log nhưng không có GHN tracking
-        }
-      }
-
-      // Tạo shipping log với thông tin GHN (nếu có)
-      await this.shippingLogsService.create({
+      await this.createShipments({
         orderId: order.orderId,
-        status: ShippingStatus.PENDING,
-        totalAmount: order.payment?.amount || 0,
-        note:
-          finalShippingMethod === ShippingMethod.GHN
-            ? `Đơn hàng giao qua GHN${ghnOrderCode ? ` - Mã vận đơn: ${ghnOrderCode}` : ''}`
-            : 'Đơn hàng đã được xác nhận, đang chờ xử lý',
+        items: this.getActiveItems(order).map((item) => ({
+          productId: item.productId,
+          productName: item.product?.productName,
+          quantity: item.quantity,
+          price: item.priceAtTime,
+        })),
         shippingMethod: finalShippingMethod,
-        ghnOrderCode: ghnOrderCode,
-        ghnShippingFee: ghnShippingFee,
+        shippingAddress: order.shippingAddress,
+        toWardCode: order.toWardCode,
+        toDistrictId: order.toDistrictId,
+        toName: order.customer?.user?.fullName || 'Khách hàng',
+        toPhone: order.customer?.user?.phone || '',
+        note: order.notes,
+        codAmount: codAmount, // Số tiền thu hộ COD (integer)
+        totalAmount: order.payment?.amount || 0,
+        pendingNote: 'Đơn hàng đã được xác nhận, đang chờ xử lý',
       });
 
       this.logger.log(
@@ -440,48 +1034,44 @@ export class OrdersService {
       );
     }
 
-    // 2. Lấy cart của user
-    const cart = await this.cartService.getCart(userId);
-
-    if (!cart.items || cart.items.length === 0) {
-      throw new BadRequestException('Cart is empty');
-    }
-
-    // 2.1. ✅ LỌC ITEMS DỰA TRÊN selectedProductIds HOẶC FIELD selected
-    let selectedItems;
+    // 2. Lấy báo giá do server tính (giá, phí ship, tổng tiền) và đánh dấu đã dùng
+    const quote = await this.orderQuotesService.redeemQuote(
+      userId,
+      checkoutDto.quoteId,
+      checkoutDto.totalAmount,
+    );
 
     if (
-      checkoutDto.selectedProductIds &&
-      checkoutDto.selectedProductIds.length > 0
+      checkoutDto.shippingMethod &&
+      checkoutDto.shippingMethod !== quote.shippingMethod
     ) {
-      selectedItems = cart.items.filter((item) =>
-        checkoutDto.selectedProductIds!.includes(item.productId),
-      );
-      this.logger.log(
-        `📦 Checkout from selectedProductIds: ${checkoutDto.selectedProductIds.join(', ')}`,
-      );
-    } else {
-      // Nếu không → dùng field selected=true trong cart
-      selectedItems = this.cartService.getSelectedItems(cart);
-      this.logger.log(`📦 Checkout from cart selection (selected=true)`);
-    }
-
-    if (selectedItems.length === 0) {
       throw new BadRequestException(
-        'Vui lòng chọn ít nhất một sản phẩm để thanh toán',
+        'Shipping method does not match the quote. Please request a new quote.',
       );
     }
+    const shippingMethod = quote.shippingMethod as ShippingMethod;
+
+    // Dòng sản phẩm theo giá trong quote
+    const selectedItems = quote.items.map((line) => ({
+      productId: line.productId,
+      productName: line.productName,
+      price: line.finalUnitPrice,
+      originalPrice: line.unitPrice,
+      salePercentage: line.salePercentage,
+      quantity: line.quantity,
+    }));
 
     this.logger.log(
-      `📦 Checkout ${selectedItems.length}/${cart.items.length} selected items`,
+      `📦 Checkout ${selectedItems.length} items from quote ${quote.quoteId}`,
     );
 
     // 2.5. ✅ VALIDATE INVENTORY CHỈ CHO SELECTED ITEMS
     this.logger.log('🔍 Validating inventory for selected items...');
     for (const cartItem of selectedItems) {
       try {
-        // Kiểm tra xem có đủ reserved quantity không
-        const canConfirm = await this.inventoryService.canConfirmSale(
+        // Hàng giữ theo quote + hàng còn bán được có đủ không
+        const canConfirm = await this.stockReservationsService.canFulfil(
+          { quoteId: quote.quoteId },
           cartItem.productId,
           cartItem.quantity,
         );
@@ -495,6 +1085,8 @@ export class OrdersService {
         this.logger.error(
           `❌ Inventory validation failed for ${cartItem.productId}: ${error.message}`,
         );
+        await this.promotionsService.release({ quoteId: quote.quoteId });
+        await this.stockReservationsService.release({ quoteId: quote.quoteId });
         throw new BadRequestException(
           `Không thể xác nhận tồn kho cho "${cartItem.productName}". ${error.message}`,
         );
@@ -502,104 +1094,21 @@ export class OrdersService {
     }
     this.logger.log('✅ All inventory validated successfully');
 
-    // 3. Tính total amount CHỈ TỪ SELECTED ITEMS (hoặc dùng từ DTO nếu có)
-    let totalAmount: number;
-
-    if (checkoutDto.totalAmount && checkoutDto.totalAmount > 0) {
-      totalAmount = checkoutDto.totalAmount;
-      this.logger.log(`💰 Using totalAmount from checkout: ${totalAmount} VND`);
-    } else {
-      totalAmount = selectedItems.reduce(
-        (sum, item) => sum + (item.price || 0) * item.quantity,
-        0,
-      );
-      this.logger.log(
-        `💰 Calculated totalAmount from cart: ${totalAmount} VND`,
-      );
-    }
-
-    // 3.5. 🗺️ TỰ ĐỘNG TÌM GHN CODES TỪ PROVINCE/DISTRICT/WARD
-    let toWardCode: string | undefined;
-    let toDistrictId: number | undefined;
-
-    if (
-      checkoutDto.shippingMethod === 'GHN' &&
-      (checkoutDto.province || checkoutDto.district || checkoutDto.ward)
-    ) {
-      this.logger.log(
-        `🔍 Finding GHN codes for: ${checkoutDto.province} > ${checkoutDto.district} > ${checkoutDto.ward}`,
-      );
-
-      const ghnCodes = await this.ghnService.findAddressCodes({
-        province: checkoutDto.province,
-        district: checkoutDto.district,
-        ward: checkoutDto.ward,
-      });
-
-      toWardCode = ghnCodes.wardCode;
-      toDistrictId = ghnCodes.districtId;
-
-      if (!toWardCode || !toDistrictId) {
-        this.logger.warn(
-          `⚠️ Could not find complete GHN codes. Found: wardCode=${toWardCode}, districtId=${toDistrictId}`,
-        );
-
-        // Try to get missing info from nearby areas
-        try {
-          // If we have district but missing ward → get first ward in district
-          if (toDistrictId && !toWardCode) {
-            const wards = await this.ghnService.getWards(toDistrictId);
-            if (wards.length > 0) {
-              toWardCode = wards[0].WardCode;
-              this.logger.log(
-                `📍 Using first ward in district: ${wards[0].WardName} (${toWardCode})`,
-              );
-            }
-          }
-
-          // If we have province but missing district → get first district in province
-          if (ghnCodes.provinceId && !toDistrictId) {
-            const districts = await this.ghnService.getDistricts(
-              ghnCodes.provinceId,
-            );
-            if (districts.length > 0) {
-              toDistrictId = districts[0].DistrictID;
-              this.logger.log(
-                `📍 Using first district in province: ${districts[0].DistrictName} (${toDistrictId})`,
-              );
-
-              // Get first ward in this district
-              const wards = await this.ghnService.getWards(toDistrictId);
-              if (wards.length > 0) {
-                toWardCode = wards[0].WardCode;
-                this.logger.log(
-                  `📍 Using first ward: ${wards[0].WardName} (${toWardCode})`,
-                );
-              }
-            }
-          }
-
-          // If still missing, fallback to default TP.HCM address
-          if (!toWardCode || !toDistrictId) {
-            this.logger.warn(
-              `📍 Using default fallback: Thủ Đức, TP.HCM (District: 1442, Ward: 21012)`,
-            );
-            toWardCode = '21012'; // Phường Long Thạnh Mỹ, Thủ Đức
-            toDistrictId = 1442; // Quận Thủ Đức
-          }
-        } catch (fallbackError) {
-          this.logger.error(
-            `Failed to get fallback address: ${fallbackError.message}`,
-          );
-          toWardCode = '21012';
-          toDistrictId = 1442;
-        }
-      } else {
-        this.logger.log(
-          `✅ Found GHN codes: wardCode=${toWardCode}, districtId=${toDistrictId}`,
-        );
-      }
-    }
+    // 3. Tổng tiền, chi tiết giá và GHN codes lấy từ quote (không nhận từ client)
+    const totalAmount = Number(quote.totalAmount);
+    const priceBreakdown: OrderPriceBreakdown = {
+      subtotal: Number(quote.subtotal),
+      discountTotal: Number(quote.discountTotal),
+      promotionDiscount: Number(quote.promotionDiscount),
+      shippingFee: Number(quote.shippingFee),
+      shippingDiscount: Number(quote.shippingDiscount),
+      totalAmount,
+    };
+    const toWardCode = quote.toWardCode ?? undefined;
+    const toDistrictId = quote.toDistrictId ?? undefined;
+    this.logger.log(
+      `💰 Quote total: ${totalAmount} VND (shipping ${Number(quote.shippingFee)} VND, promotions -${Number(quote.promotionDiscount) + Number(quote.shippingDiscount)} VND)`,
+    );
 
     // 4. 💰 XỬ LÝ PHƯƠNG THỨC THANH TOÁN
     const paymentMethod = checkoutDto.paymentMethod || PaymentMethod.COD;
@@ -615,21 +1124,31 @@ export class OrdersService {
         paymentType: PaymentType.ORDER,
         customerId: customer.customerId,
         userId: userId,
-        cartData: { items: selectedItems }, // ✅ Wrap in object with items property
-        shippingAddress: checkoutDto.shippingAddress,
+        cartData: { items: selectedItems, priceBreakdown }, // ✅ Wrap in object with items property
+        shippingAddress: quote.shippingAddress,
         toWardCode: toWardCode,
         toDistrictId: toDistrictId,
         orderNotes: checkoutDto.notes,
-        shippingMethod: checkoutDto.shippingMethod || 'INTERNAL',
+        shippingMethod,
         amount: totalAmount,
         paymentMethod: PaymentEntityMethod.BANKING,
       });
 
-      // Generate QR code URL
-      const qrCodeUrl = `https://img.vietqr.io/image/MB-0347178790-compact2.png?amount=${totalAmount}&addInfo=${payment.paymentCode}&accountName=CHU PHAN NHAT LONG`;
+      // Lượt dùng khuyến mãi gắn với payment, orderId gắn khi thanh toán xong
+      await this.promotionsService.attachToQuote(quote.quoteId, {
+        paymentId: payment.paymentId,
+      });
+      // 🔒 Giữ hàng đến khi payment hết hạn, tạo order sẽ dùng hàng đã giữ
+      await this.stockReservationsService.extend(
+        { quoteId: quote.quoteId },
+        { paymentId: payment.paymentId, expiresAt: payment.expiredAt },
+      );
+
+      // QR (VietQR) + thông tin chuyển khoản từ payment provider
+      const { bankingInfo, qrCodeUrl, qrPayload } = payment.paymentIntent!;
 
       // ❌ KHÔNG xóa cart (giữ lại để tạo order sau khi thanh toán)
-      // ❌ KHÔNG trừ inventory
+      // ❌ KHÔNG trừ inventory (chỉ giữ hàng)
       // ❌ KHÔNG tạo order
 
       return {
@@ -640,12 +1159,9 @@ export class OrdersService {
           status: payment.status,
           expiredAt: payment.expiredAt,
           qrCodeUrl,
+          qrPayload,
           bankingInfo: {
-            bankName: 'MBBank',
-            accountNumber: '0347178790',
-            accountName: 'CHU PHAN NHAT LONG',
-            amount: totalAmount,
-            transferContent: payment.paymentCode,
+            ...bankingInfo,
             qrCode: qrCodeUrl,
           },
           instructions: [
@@ -672,21 +1188,16 @@ export class OrdersService {
       const userBalance = parseFloat(user.balance.toString());
 
       if (userBalance < totalAmount) {
+        await this.promotionsService.release({ quoteId: quote.quoteId });
+        await this.stockReservationsService.release({ quoteId: quote.quoteId });
         throw new BadRequestException(
           `Số dư không đủ. Cần ${totalAmount.toLocaleString('vi-VN')} VND, hiện có ${userBalance.toLocaleString('vi-VN')} VND. Vui lòng nạp thêm tiền.`,
         );
       }
 
-      // Trừ tiền từ balance
-      const newBalance = userBalance - totalAmount;
-      await this.usersService.update(userId, { balance: newBalance });
-
+      // Tiền được trừ qua sổ cái sau khi tạo payment record
       orderStatus = 'CONFIRMED';
       paymentStatus = PaymentStatus.COMPLETED;
-
-      console.log(
-        `✅ Paid by wallet: ${totalAmount} VND. New balance: ${newBalance} VND`,
-      );
     }
 
     // 5. Tạo payment record
@@ -711,16 +1222,40 @@ export class OrdersService {
     ) as unknown as Payment;
     const savedPayment = await this.paymentRepository.save(payment);
 
+    if (useWallet) {
+      try {
+        await this.ledgerService.transfer({
+          type: LedgerTransactionType.ORDER_PAYMENT,
+          description: `Order paid by wallet ${savedPayment.paymentCode}`,
+          from: { userId },
+          to: { type: LedgerAccountType.PLATFORM_SALES },
+          amount: totalAmount,
+          referenceType: LedgerReferenceType.PAYMENT,
+          referenceId: savedPayment.paymentId,
+        });
+      } catch (error) {
+        await this.paymentRepository.delete({
+          paymentId: savedPayment.paymentId,
+        });
+        await this.promotionsService.release({ quoteId: quote.quoteId });
+        await this.stockReservationsService.release({ quoteId: quote.quoteId });
+        throw error;
+      }
+
+      console.log(`✅ Paid by wallet: ${totalAmount} VND`);
+    }
+
     // 6. Tạo order
     const order = this.orderRepository.create({
       customerId: customer.customerId,
       paymentId: savedPayment.paymentId,
-      shippingAddress: checkoutDto.shippingAddress,
+      shippingAddress: quote.shippingAddress,
       toWardCode: toWardCode,
       toDistrictId: toDistrictId,
       notes: checkoutDto.notes,
       status: orderStatus,
-      preferredShippingMethod: checkoutDto.shippingMethod || 'INTERNAL',
+      preferredShippingMethod: shippingMethod,
+      ...priceBreakdown,
     });
     const savedOrder = await this.orderRepository.save(order);
 
@@ -734,17 +1269,15 @@ export class OrdersService {
     );
     await this.orderItemRepository.save(orderItems);
 
+    let lotAllocations: Map<string, LotAllocation[]>;
     try {
       this.logger.log('📦 Confirming sales in inventory...');
-      for (const cartItem of selectedItems) {
-        await this.inventoryService.confirmSale(
-          cartItem.productId,
-          cartItem.quantity,
-        );
-        this.logger.log(
-          `✅ Confirmed ${cartItem.quantity}x ${cartItem.productName}`,
-        );
-      }
+      lotAllocations = await this.stockReservationsService.fulfil(
+        { quoteId: quote.quoteId },
+        selectedItems,
+        savedOrder.orderId,
+      );
+      this.logger.log(`✅ Confirmed ${selectedItems.length} items`);
     } catch (error) {
       this.logger.error(`❌ Failed to confirm sales: ${error.message}`);
 
@@ -752,87 +1285,68 @@ export class OrdersService {
       this.logger.warn(`🔄 Rolling back order ${savedOrder.orderId}...`);
       await this.orderItemRepository.delete({ orderId: savedOrder.orderId });
       await this.orderRepository.delete({ orderId: savedOrder.orderId });
+      if (useWallet) {
+        await this.ledgerService.transfer({
+          type: LedgerTransactionType.ORDER_PAYMENT_REVERSAL,
+          description: `Rollback of wallet payment ${savedPayment.paymentCode}`,
+          from: { type: LedgerAccountType.PLATFORM_SALES },
+          to: { userId },
+          amount: totalAmount,
+          referenceType: LedgerReferenceType.PAYMENT,
+          referenceId: savedPayment.paymentId,
+        });
+      }
       await this.paymentRepository.delete({
         paymentId: savedPayment.paymentId,
       });
+      await this.promotionsService.release({ quoteId: quote.quoteId });
+      await this.stockReservationsService.release({ quoteId: quote.quoteId });
 
       throw new BadRequestException(
         `Không thể hoàn tất đơn hàng: ${error.message}. Vui lòng thử lại.`,
       );
     }
 
+    await this.recordLotAllocations(orderItems, lotAllocations);
+    await this.promotionsService.attachToQuote(quote.quoteId, {
+      orderId: savedOrder.orderId,
+      paymentId: savedPayment.paymentId,
+    });
+    await this.orderStatusService.recordCreated(savedOrder, {
+      source: OrderStatusSource.CUSTOMER,
+      actorId: userId,
+      reason: useWallet ? 'Paid by wallet' : undefined,
+    });
+
     // 10. Xóa items đã checkout khỏi cart
     const productIdsToRemove = selectedItems.map((item) => item.productId);
     await this.cartService.removeItemsByProductIds(userId, productIdsToRemove);
 
     // 🚚 NẾU THANH TOÁN WALLET → TẠO SHIPPING LOG + GHN ORDER NGAY
-    if (useWallet && checkoutDto.shippingMethod) {
+    if (useWallet && shippingMethod) {
       this.logger.log(
         `🚀 Auto-creating shipping for wallet payment order ${savedOrder.orderId}`,
       );
 
       try {
-        let ghnOrderCode: string | undefined;
-        let ghnShippingFee: number | undefined;
-
-        // Nếu chọn GHN → Tạo đơn GHN ngay
-        if (checkoutDto.shippingMethod === 'GHN') {
-          this.logger.log(`📦 Creating GHN order for wallet payment`);
-
-          const totalWeight = (orderItems.length || 1) * 200;
-          const codAmount = Math.floor(Number(totalAmount));
-
-          try {
-            const ghnResult = await this.ghnService.createShippingOrder({
-              paymentTypeId: 1,
-              note: checkoutDto.notes || 'Đơn hàng Skinalyze',
-              requiredNote: GhnRequiredNote.NO_OPEN,
-              returnPhone: '0332190444',
-              returnAddress:
-                'Lô E2a-7, Đường D1, Đ. D1, Long Thạnh Mỹ, Thành Phố Thủ Đức, Thành phố Hồ Chí Minh',
-              returnDistrictId: 1442, // Thủ Đức
-              returnWardCode: '21012', // Phường Long Thạnh Mỹ
-              toName: customer.user?.fullName || 'Khách hàng',
-              toPhone: customer.user?.phone || '',
-              toAddress: checkoutDto.shippingAddress,
-              toWardCode: toWardCode || '20308',
-              toDistrictId: toDistrictId || 1444,
-              codAmount: codAmount,
-              content: 'Đơn hàng mỹ phẩm Skinalyze',
-              weight: totalWeight,
-              length: Math.floor(Math.random() * 20) + 10,
-              width: Math.floor(Math.random() * 15) + 10,
-              height: Math.floor(Math.random() * 10) + 5,
-              items: orderItems.map((item) => ({
-                name: item.product?.productName || 'Sản phẩm',
-                quantity: item.quantity,
-                price: item.priceAtTime,
-              })),
-            });
-
-            ghnOrderCode = ghnResult.data.order_code;
-            ghnShippingFee = ghnResult.data.total_fee;
-
-            this.logger.log(`✅ GHN order created: ${ghnOrderCode}`);
-          } catch (ghnError) {
-            this.logger.error(
-              `❌ Failed to create GHN order: ${ghnError.message}`,
-            );
-          }
-        }
-
-        // Tạo shipping log
-        await this.shippingLogsService.create({
+        await this.createShipments({
           orderId: savedOrder.orderId,
-          status: ShippingStatus.PENDING,
-          totalAmount: totalAmount,
-          note:
-            checkoutDto.shippingMethod === 'GHN'
-              ? `Đơn hàng giao qua GHN${ghnOrderCode ? ` - Mã vận đơn: ${ghnOrderCode}` : ''}`
-              : 'Đơn hàng đã thanh toán, đang chờ xử lý',
-          shippingMethod: checkoutDto.shippingMethod,
-          ghnOrderCode: ghnOrderCode,
-          ghnShippingFee: ghnShippingFee,
+          items: orderItems.map((item) => ({
+            productId: item.productId,
+            productName: item.product?.productName,
+            quantity: item.quantity,
+            price: item.priceAtTime,
+          })),
+          shippingMethod,
+          shippingAddress: quote.shippingAddress,
+          toWardCode,
+          toDistrictId,
+          toName: customer.user?.fullName || 'Khách hàng',
+          toPhone: customer.user?.phone || '',
+          note: checkoutDto.notes,
+          codAmount: this.getCodAmount(savedPayment),
+          totalAmount,
+          pendingNote: 'Đơn hàng đã thanh toán, đang chờ xử lý',
         });
 
         this.logger.log(`✅ Shipping log created for wallet payment order`);
@@ -841,6 +1355,13 @@ export class OrdersService {
       }
     }
 
+    await this.sendOrderConfirmationEmail(
+      savedOrder.orderId,
+      customer,
+      selectedItems,
+      priceBreakdown,
+    );
+
     // 11. Trả về order (CHỈ COD & WALLET)
     const fullOrder = await this.findOne(savedOrder.orderId);
 
@@ -873,6 +1394,7 @@ export class OrdersService {
     totalAmount: number;
     paymentId: number;
     shippingMethod?: string;
+    priceBreakdown?: OrderPriceBreakdown; // Payment cũ không có → tính lại từ items
   }): Promise<Order> {
     const {
       customerId,
@@ -886,6 +1408,20 @@ export class OrdersService {
       shippingMethod,
     } = data;
 
+    const lines = cartItems as OrderConfirmationLine[];
+    const itemsTotal = lines.reduce(
+      (sum, item) => sum + (item.price || 0) * item.quantity,
+      0,
+    );
+    const priceBreakdown: OrderPriceBreakdown = data.priceBreakdown ?? {
+      subtotal: itemsTotal,
+      discountTotal: 0,
+      promotionDiscount: 0,
+      shippingFee: Math.max(0, totalAmount - itemsTotal),
+      shippingDiscount: 0,
+      totalAmount,
+    };
+
     // Load customer with user for phone validation
     const customer = await this.customersService.findOne(customerId);
     if (!customer) {
@@ -924,6 +1460,7 @@ export class OrdersService {
       notes,
       status: 'CONFIRMED' as any,
       preferredShippingMethod: shippingMethod || 'INTERNAL',
+      ...priceBreakdown,
     });
     const savedOrder = await this.orderRepository.save(order);
 
@@ -938,90 +1475,226 @@ export class OrdersService {
     );
     await this.orderItemRepository.save(orderItems);
 
-    // 4. Trừ stock trực tiếp (đã thanh toán rồi, không cần reserve)
-    for (const item of cartItems) {
-      await this.inventoryService.reduceStock(item.productId, item.quantity);
-    }
+    await this.promotionsService.attachOrderByPayment(
+      paymentId,
+      savedOrder.orderId,
+    );
+    await this.orderStatusService.recordCreated(savedOrder, {
+      source: OrderStatusSource.SYSTEM,
+      reason: `Payment #${paymentId} completed`,
+    });
+
+    // 4. Trừ stock: dùng hàng đã giữ theo payment, giữ hàng hết hạn thì trừ thẳng
+    const lotAllocations = await this.stockReservationsService.fulfil(
+      { paymentId },
+      cartItems as ReservationLine[],
+      savedOrder.orderId,
+    );
+    await this.recordLotAllocations(orderItems, lotAllocations);
 
     this.logger.log(
       `✅ Order created from payment: #${savedOrder.orderId} - Amount: ${totalAmount}`,
     );
 
+    await this.sendOrderConfirmationEmail(
+      savedOrder.orderId,
+      customer,
+      lines,
+      priceBreakdown,
+    );
+
     // 5. Tạo shipping log + GHN order (nếu có)
     if (shippingMethod) {
       this.logger.log(
         `🚚 Creating shipping for payment order with method: ${shippingMethod}`,
       );
 
+      try {
+        await this.createShipments({
+          orderId: savedOrder.orderId,
+          items: cartItems.map((item: any) => ({
+            productId: item.productId,
+            productName: item.productName,
+            quantity: item.quantity,
+            price: item.price || 0,
+          })),
+          shippingMethod: shippingMethod as ShippingMethod,
+          shippingAddress,
+          toWardCode,
+          toDistrictId,
+          toName: customer.user?.fullName || 'Khách hàng',
+          toPhone: customer.user?.phone || '0000000000',
+          note: notes,
+          // Đơn đã thanh toán chuyển khoản, GHN không thu hộ
+          codAmount: 0,
+          totalAmount,
+          pendingNote: 'Đơn hàng đã thanh toán, đang chờ xử lý',
+        });
+
+        this.logger.log(`✅ Shipping log created for payment order`);
+      } catch (error) {
+        this.logger.error(`Failed to create shipping log: ${error.message}`);
+      }
+    }
+
+    return savedOrder;
+  }
+
+  /**
+   * 🚚 Chọn kho xuất hàng, tạo vận đơn GHN (nếu có) và shipping log cho từng kho.
+   * Đơn tách nhiều kho: COD và tổng tiền đặt ở vận đơn đầu tiên (kho gần nhất),
+   * phí GHN của các vận đơn phụ do shop chịu.
+   */
+  private async createShipments(params: {
+    orderId: string;
+    items: ShipmentLine[];
+    shippingMethod: ShippingMethod;
+    shippingAddress: string;
+    toWardCode?: string | null;
+    toDistrictId?: number | null;
+    toName: string;
+    toPhone: string;
+    note?: string | null;
+    codAmount: number;
+    totalAmount: number;
+    pendingNote: string;
+  }): Promise<void> {
+    let allocations: SourcingAllocation[] = [];
+    try {
+      allocations = await this.warehousesService.allocate(
+        params.items.map(({ productId, quantity }) => ({
+          productId,
+          quantity,
+        })),
+        {
+          address: params.shippingAddress,
+          ghnDistrictId: params.toDistrictId,
+        },
+      );
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ Warehouse sourcing failed for order ${params.orderId}, using the default pickup address: ${error.message}`,
+      );
+    }
+
+    const shipments =
+      allocations.length > 0
+        ? allocations.map((allocation) => ({
+            warehouse: allocation.warehouse as Warehouse | null,
+            stockItems: allocation.items as StockItem[] | null,
+            lines: allocation.items.map((stockItem) => ({
+              ...(params.items.find(
+                (line) => line.productId === stockItem.productId,
+              ) as ShipmentLine),
+              quantity: stockItem.quantity,
+            })),
+          }))
+        : [{ warehouse: null, stockItems: null, lines: params.items }];
+
+    for (const [index, shipment] of shipments.entries()) {
+      const isPrimary = index === 0;
+      const pickup = shipment.warehouse;
       let ghnOrderCode: string | undefined;
       let ghnShippingFee: number | undefined;
 
-      // Nếu chọn GHN → Tạo đơn GHN
-      if (shippingMethod === 'GHN') {
-        try {
-          const totalWeight = (cartItems.length || 1) * 200;
-          const codAmount = Math.floor(Number(totalAmount));
+      // Nếu chọn GHN → Tạo đơn GHN, lấy hàng tại kho được chọn
+      if (params.shippingMethod === ShippingMethod.GHN) {
+        this.logger.log(`📦 Creating GHN shipping order for ${params.orderId}`);
 
+        // Giả sử mỗi sản phẩm 200g
+        const totalWeight = (shipment.lines.length || 1) * 200;
+
+        try {
           const ghnResult = await this.ghnService.createShippingOrder({
-            paymentTypeId: 1,
-            note: notes || 'Đơn hàng Skinalyze',
+            paymentTypeId: 1, // Shop trả phí ship
+            note: params.note || 'Đơn hàng Skinalyze',
             requiredNote: GhnRequiredNote.NO_OPEN,
-            returnPhone: '0332190444',
-            returnAddress:
-              'Lô E2a-7, Đường D1, Đ. D1, Long Thạnh Mỹ, Thành Phố Thủ Đức, Thành phố Hồ Chí Minh',
-            returnDistrictId: 1442, // Thủ Đức
-            returnWardCode: '21012', // Phường Long Thạnh Mỹ
-            toName: customer.user?.fullName || 'Khách hàng',
-            toPhone: customer.user?.phone || '0000000000',
-            toAddress: shippingAddress,
-            toWardCode: toWardCode || '20308',
-            toDistrictId: toDistrictId || 1444,
-            codAmount: codAmount,
+            returnPhone: pickup?.phone || DEFAULT_PICKUP.phone,
+            returnAddress: pickup?.address || DEFAULT_PICKUP.address,
+            returnDistrictId:
+              pickup?.ghnDistrictId || DEFAULT_PICKUP.districtId,
+            returnWardCode: pickup?.ghnWardCode || DEFAULT_PICKUP.wardCode,
+            toName: params.toName,
+            toPhone: params.toPhone,
+            toAddress: params.shippingAddress,
+            toWardCode: params.toWardCode || '20308',
+            toDistrictId: params.toDistrictId || 1444,
+            codAmount: isPrimary ? params.codAmount : 0, // Số tiền thu hộ COD (integer)
             content: 'Đơn hàng mỹ phẩm Skinalyze',
             weight: totalWeight,
-            length: Math.floor(Math.random() * 20) + 10,
-            width: Math.floor(Math.random() * 15) + 10,
-            height: Math.floor(Math.random() * 10) + 5,
-            items: cartItems.map((item: any) => ({
-              name: item.productName || 'Sản phẩm',
-              quantity: item.quantity,
-              price: item.price || 0,
+            length: Math.floor(Math.random() * 20) + 10, // 10-30 cm
+            width: Math.floor(Math.random() * 15) + 10, // 10-25 cm
+            height: Math.floor(Math.random() * 10) + 5, // 5-15 cm
+            items: shipment.lines.map((line) => ({
+              name: line.productName || 'Sản phẩm',
+              quantity: line.quantity,
+              price: line.price,
             })),
           });
 
           ghnOrderCode = ghnResult.data.order_code;
           ghnShippingFee = ghnResult.data.total_fee;
 
-          this.logger.log(`✅ GHN order created: ${ghnOrderCode}`);
+          this.logger.log(
+            `✅ GHN order created: ${ghnOrderCode}, Fee: ${ghnShippingFee}`,
+          );
         } catch (ghnError) {
           this.logger.error(
             `❌ Failed to create GHN order: ${ghnError.message}`,
           );
+          // Vẫn tạo shipping log nhưng không có GHN tracking
         }
       }
 
-      // Tạo shipping log
-      try {
-        await this.shippingLogsService.create({
-          orderId: savedOrder.orderId,
-          status: ShippingStatus.PENDING,
-          totalAmount: totalAmount,
-          note:
-            shippingMethod === 'GHN'
-              ? `Đơn hàng giao qua GHN${ghnOrderCode ? ` - Mã vận đơn: ${ghnOrderCode}` : ''}`
-              : 'Đơn hàng đã thanh toán, đang chờ xử lý',
-          shippingMethod: shippingMethod as any,
-          ghnOrderCode: ghnOrderCode,
-          ghnShippingFee: ghnShippingFee,
-        });
-
-        this.logger.log(`✅ Shipping log created for payment order`);
-      } catch (error) {
-        this.logger.error(`Failed to create shipping log: ${error.message}`);
-      }
+      const note =
+        params.shippingMethod === ShippingMethod.GHN
+          ? `Đơn hàng giao qua GHN${ghnOrderCode ? ` - Mã vận đơn: ${ghnOrderCode}` : ''}`
+          : params.pendingNote;
+      await this.shippingLogsService.create({
+        orderId: params.orderId,
+        status: ShippingStatus.PENDING,
+        totalAmount: isPrimary ? params.totalAmount : 0,
+        note: pickup ? `${note} (Kho: ${pickup.name})` : note,
+        shippingMethod: params.shippingMethod,
+        ghnOrderCode: ghnOrderCode,
+        ghnShippingFee: ghnShippingFee,
+        warehouseId: pickup?.warehouseId ?? null,
+        items: shipment.stockItems,
+      });
     }
+  }
 
-    return savedOrder;
+  /**
+   * Email xác nhận đơn hàng kèm chi tiết giá. Lỗi gửi mail không chặn checkout.
+   */
+  private async sendOrderConfirmationEmail(
+    orderId: string,
+    customer: Customer,
+    items: OrderConfirmationLine[],
+    priceBreakdown: OrderPriceBreakdown,
+  ): Promise<void> {
+    const email = customer.user?.email;
+    if (!email) return;
+
+    try {
+      await this.emailService.sendOrderConfirmation(
+        email,
+        customer.user.fullName || 'Khách hàng',
+        {
+          orderId,
+          items: items.map((item) => ({
+            name: item.productName || 'Sản phẩm',
+            quantity: item.quantity,
+            price: item.price || 0,
+          })),
+          ...priceBreakdown,
+        },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send order confirmation email for ${orderId}: ${(error as Error).message}`,
+      );
+    }
   }
 
   /**
@@ -1061,11 +1734,16 @@ export class OrdersService {
       `📊 Mapped GHN status "${ghnStatus}" -> OrderStatus.${newOrderStatus}`,
     );
 
-    // Update order status
+    // Update order status (webhook trùng trạng thái thì bỏ qua)
     const previousStatus = order.status;
-    order.status = newOrderStatus;
-
-    const updatedOrder = await this.orderRepository.save(order);
+    const changed = await this.orderStatusService.transition(
+      order,
+      newOrderStatus,
+      { source: OrderStatusSource.GHN, reason: ghnStatus },
+    );
+    if (!changed) {
+      return order;
+    }
 
     this.logger.log(
       `✅ Order ${order.orderId} status updated: ${previousStatus} -> ${newOrderStatus}`,
@@ -1133,6 +1811,6 @@ export class OrdersService {
       }
     }
 
-    return updatedOrder;
+    return order;
   }
 }
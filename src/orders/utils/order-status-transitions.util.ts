@@ -0,0 +1,58 @@
+import { OrderStatus } from '../entities/order.entity';
+
+/**
+ * Allowed OrderStatus transitions. Every status change (staff, customer,
+ * GHN webhook/sync, shipping logs, payments) is validated against this map.
+ *
+ * - PROCESSING ↔ SHIPPING: GHN moves parcels back to the warehouse after a failed attempt
+ * - REJECTED → SHIPPING / CANCELLED: GHN redelivers after `delivery_fail`, or finishes the return
+ * - COMPLETED and CANCELLED are final
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [
+    OrderStatus.CONFIRMED,
+    OrderStatus.PROCESSING,
+    OrderStatus.CANCELLED,
+    OrderStatus.REJECTED,
+  ],
+  [OrderStatus.CONFIRMED]: [
+    OrderStatus.PROCESSING,
+    OrderStatus.SHIPPING,
+    OrderStatus.DELIVERED,
+    OrderStatus.CANCELLED,
+    OrderStatus.REJECTED,
+  ],
+  [OrderStatus.PROCESSING]: [
+    OrderStatus.CONFIRMED,
+    OrderStatus.SHIPPING,
+    OrderStatus.DELIVERED,
+    OrderStatus.CANCELLED,
+    OrderStatus.REJECTED,
+  ],
+  [OrderStatus.SHIPPING]: [
+    OrderStatus.PROCESSING,
+    OrderStatus.DELIVERED,
+    OrderStatus.CANCELLED,
+    OrderStatus.REJECTED,
+  ],
+  [OrderStatus.DELIVERED]: [OrderStatus.COMPLETED],
+  [OrderStatus.COMPLETED]: [],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.REJECTED]: [OrderStatus.SHIPPING, OrderStatus.CANCELLED],
+};
+
+/**
+ * Whether an order may move from one status to another.
+ *
+ * @example
+ * ```typescript
+ * canTransitionOrderStatus(OrderStatus.DELIVERED, OrderStatus.COMPLETED) // true
+ * canTransitionOrderStatus(OrderStatus.COMPLETED, OrderStatus.PENDING) // false
+ * ```
+ */
+export function canTransitionOrderStatus(
+  from: OrderStatus,
+  to: OrderStatus,
+): boolean {
+  return ORDER_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
@@ -5,13 +5,22 @@ import {
   Logger,
   HttpCode,
   HttpStatus,
+  UseGuards,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiBody } from '@nestjs/swagger';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiBody,
+  ApiQuery,
+  ApiResponse,
+} from '@nestjs/swagger';
 import { OrdersService } from '../orders.service';
+import { CodService } from '../../shipping-logs/cod.service';
 import {
   GhnStatusWebhookDto,
   GhnCodWebhookDto,
 } from '../dto/ghn-webhook.dto';
+import { GhnWebhookGuard } from './ghn-webhook.guard';
 
 /**
  * 🚚 GHN WEBHOOK CONTROLLER
@@ -25,7 +34,10 @@ import {
 export class GhnWebhookController {
   private readonly logger = new Logger(GhnWebhookController.name);
 
-  constructor(private readonly ordersService: OrdersService) {}
+  constructor(
+    private readonly ordersService: OrdersService,
+    private readonly codService: CodService,
+  ) {}
 
   /**
    * 📦 Handle order status updates from GHN
@@ -169,16 +181,26 @@ export class GhnWebhookController {
    */
   @Post('cod-collected')
   @HttpCode(HttpStatus.OK)
+  @UseGuards(GhnWebhookGuard)
+  @ApiQuery({
+    name: 'token',
+    description:
+      'GHN_WEBHOOK_TOKEN, set in the webhook URL on the GHN dashboard',
+    required: true,
+  })
+  @ApiResponse({ status: 401, description: 'Invalid webhook authorization' })
   @ApiOperation({
     summary: '💰 GHN COD Collection Webhook',
     description: `
       Receives notification when GHN collects COD payment from customer.
 
+      **Authentication:** \`?token=<GHN_WEBHOOK_TOKEN>\` in the webhook URL.
+      CODAmount must equal the payment amount of the order.
+
       **Use Cases:**
       - Update payment status to COMPLETED
       - Record COD amount collected
-      - Trigger financial reconciliation
-      - Send confirmation to customer
+      - Post the collection to the ledger; settle it with POST /cod/settle once GHN transfers the money
     `,
   })
   @ApiBody({
@@ -216,21 +238,17 @@ export class GhnWebhookController {
     this.logger.debug(`Full payload: ${JSON.stringify(payload, null, 2)}`);
 
     try {
-      // TODO: Implement COD collection logic
-      // 1. Find order by GHN order code
-      // 2. Update payment status to COMPLETED
-      // 3. Record COD amount and collection date
-      // 4. Send notification to merchant/admin
-      // 5. Trigger accounting/reconciliation workflow
-
-      this.logger.warn(
-        '⚠️ COD collection webhook received but handler not yet implemented',
+      // Payment → COMPLETED, tiền COD nằm ở COD_RECEIVABLE đến khi GHN chuyển khoản
+      const log = await this.codService.recordGhnCollection(
+        payload.OrderCode,
+        payload.CODAmount,
       );
 
       return {
         success: true,
-        message: 'COD collection webhook received (handler pending)',
+        message: 'COD collection recorded',
         data: {
+          orderId: log.orderId,
           orderCode: payload.OrderCode,
           codAmount: payload.CODAmount,
           transferDate: payload.CODTransferDate,
@@ -0,0 +1,55 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Verify GHN webhook calls.
+ * GHN không ký webhook → URL cấu hình trên GHN dashboard mang token bí mật:
+ * `/webhooks/ghn/cod-collected?token=<GHN_WEBHOOK_TOKEN>`
+ */
+@Injectable()
+export class GhnWebhookGuard implements CanActivate {
+  private readonly logger = new Logger(GhnWebhookGuard.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+
+    const expectedToken = this.configService.get<string>('GHN_WEBHOOK_TOKEN');
+    if (!expectedToken) {
+      this.logger.error(
+        '❌ GHN_WEBHOOK_TOKEN is not configured. Rejecting webhook.',
+      );
+      throw new UnauthorizedException('Invalid webhook authorization');
+    }
+
+    const providedToken = request.query['token'];
+    if (
+      typeof providedToken !== 'string' ||
+      !this.safeEqual(providedToken, expectedToken)
+    ) {
+      this.logger.warn(
+        `⚠️ Rejected GHN webhook with invalid token from ${request.ip}`,
+      );
+      throw new UnauthorizedException('Invalid webhook authorization');
+    }
+
+    return true;
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return (
+      bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB)
+    );
+  }
+}
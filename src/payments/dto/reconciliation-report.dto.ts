@@ -0,0 +1,20 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, Matches } from 'class-validator';
+
+export class GenerateReconciliationReportDto {
+  @ApiProperty({
+    description: 'Ngày cần đối soát (giờ Việt Nam)',
+    example: '2025-01-31',
+  })
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'date must be YYYY-MM-DD' })
+  date: string;
+}
+
+export class SignOffReconciliationReportDto {
+  @ApiPropertyOptional({
+    description: 'Ghi chú của kế toán khi chốt báo cáo',
+  })
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
@@ -0,0 +1,92 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { RefundDestination } from '../entities/refund.entity';
+
+export class CreateRefundDto {
+  @ApiProperty({
+    description: 'Mã payment cần hoàn tiền',
+    example: 'SKO1A2B3C4D123456',
+  })
+  @IsString()
+  @Matches(/^SK[OTBS][A-Z0-9]+$/i, { message: 'Invalid payment code format' })
+  paymentCode: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Số tiền hoàn (VND). Bỏ trống để hoàn toàn bộ số tiền còn có thể hoàn',
+    example: 200000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  amount?: number;
+
+  @ApiProperty({
+    description: 'Hoàn vào ví hoặc chuyển khoản về ngân hàng',
+    enum: RefundDestination,
+  })
+  @IsEnum(RefundDestination)
+  destination: RefundDestination;
+
+  @ApiProperty({ description: 'Lý do hoàn tiền' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  @ApiPropertyOptional({
+    description: 'Ngân hàng nhận (Bắt buộc nếu hoàn về BANK)',
+    example: 'Vietcombank',
+  })
+  @ValidateIf(
+    (object: CreateRefundDto) => object.destination === RefundDestination.BANK,
+  )
+  @IsString()
+  @IsNotEmpty()
+  bankName?: string;
+
+  @ApiPropertyOptional({
+    description: 'Số tài khoản nhận (Bắt buộc nếu hoàn về BANK)',
+  })
+  @ValidateIf(
+    (object: CreateRefundDto) => object.destination === RefundDestination.BANK,
+  )
+  @IsString()
+  @IsNotEmpty()
+  bankAccountNumber?: string;
+
+  @ApiPropertyOptional({
+    description: 'Tên chủ tài khoản nhận (Bắt buộc nếu hoàn về BANK)',
+  })
+  @ValidateIf(
+    (object: CreateRefundDto) => object.destination === RefundDestination.BANK,
+  )
+  @IsString()
+  @IsNotEmpty()
+  bankAccountName?: string;
+}
+
+export class RejectRefundDto {
+  @ApiProperty({ description: 'Lý do từ chối' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class CompleteRefundDto {
+  @ApiProperty({
+    description: 'Mã giao dịch chuyển khoản hoàn tiền',
+    example: 'FT25031912345678',
+  })
+  @IsString()
+  @IsNotEmpty()
+  bankReference: string;
+}
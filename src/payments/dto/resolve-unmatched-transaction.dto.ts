@@ -0,0 +1,53 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsString,
+  IsUUID,
+  Matches,
+  ValidateIf,
+} from 'class-validator';
+
+export enum UnmatchedResolutionAction {
+  LINK_PAYMENT = 'LINK_PAYMENT',
+  CREDIT_WALLET = 'CREDIT_WALLET',
+  BANK_REFUND = 'BANK_REFUND',
+}
+
+export class ResolveUnmatchedTransactionDto {
+  @ApiProperty({
+    description: 'Cách xử lý giao dịch không khớp',
+    enum: UnmatchedResolutionAction,
+  })
+  @IsEnum(UnmatchedResolutionAction)
+  action: UnmatchedResolutionAction;
+
+  @ApiPropertyOptional({
+    description: 'Mã payment cần gắn (Bắt buộc nếu chọn LINK_PAYMENT)',
+    example: 'SKT1736600000ABC123',
+  })
+  @ValidateIf(
+    (object: ResolveUnmatchedTransactionDto) =>
+      object.action === UnmatchedResolutionAction.LINK_PAYMENT,
+  )
+  @IsString()
+  @Matches(/^SK[OTBS][A-Z0-9]+$/i, { message: 'Invalid payment code format' })
+  paymentCode?: string;
+
+  @ApiPropertyOptional({
+    description: 'User nhận tiền vào ví (Bắt buộc nếu chọn CREDIT_WALLET)',
+  })
+  @ValidateIf(
+    (object: ResolveUnmatchedTransactionDto) =>
+      object.action === UnmatchedResolutionAction.CREDIT_WALLET,
+  )
+  @IsUUID()
+  userId?: string;
+
+  @ApiProperty({
+    description: 'Ghi chú xử lý (Bắt buộc để lưu bằng chứng)',
+  })
+  @IsString()
+  @IsNotEmpty()
+  note: string;
+}
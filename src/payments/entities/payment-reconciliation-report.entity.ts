@@ -0,0 +1,97 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+export enum ReconciliationReportStatus {
+  PENDING_REVIEW = 'pending_review', // Chờ kế toán kiểm tra
+  SIGNED_OFF = 'signed_off', // Kế toán đã chốt, không cho tạo lại
+}
+
+export enum ReconciliationDiscrepancyType {
+  COMPLETED_WITHOUT_TARGET = 'COMPLETED_WITHOUT_TARGET', // Payment COMPLETED nhưng order/lịch hẹn/gói chưa được xử lý
+  TARGET_WITHOUT_PAYMENT = 'TARGET_WITHOUT_PAYMENT', // Order/lịch hẹn/gói đã xử lý nhưng payment chưa COMPLETED
+  AMOUNT_MISMATCH = 'AMOUNT_MISMATCH', // Số tiền không khớp
+  DUPLICATE_PAYMENT_CODE = 'DUPLICATE_PAYMENT_CODE', // Nhiều chuyển khoản cùng mã, tổng tiền không khớp payment
+  UNMATCHED_TRANSFER = 'UNMATCHED_TRANSFER', // Chuyển khoản chưa gắn được payment
+}
+
+export interface ReconciliationDiscrepancy {
+  type: ReconciliationDiscrepancyType;
+  paymentId: number | null;
+  paymentCode: string | null;
+  sepayTransactionIds: number[];
+  targetType: 'order' | 'appointment' | 'subscription' | null;
+  targetId: string | null;
+  expectedAmount: number | null;
+  actualAmount: number | null;
+  message: string;
+}
+
+/**
+ * Báo cáo đối soát thanh toán theo ngày (giờ Việt Nam).
+ * Mỗi ngày một báo cáo, kế toán ký xác nhận sau khi kiểm tra.
+ */
+@Entity('payment_reconciliation_reports')
+export class PaymentReconciliationReport {
+  @PrimaryGeneratedColumn('uuid')
+  reportId: string;
+
+  @Column({ type: 'date', unique: true })
+  reportDate: string; // YYYY-MM-DD
+
+  @Column({
+    type: 'enum',
+    enum: ReconciliationReportStatus,
+    default: ReconciliationReportStatus.PENDING_REVIEW,
+  })
+  status: ReconciliationReportStatus;
+
+  // ===== Summary =====
+  @Column({ type: 'int', default: 0 })
+  transferCount: number; // Số giao dịch SePay tiền vào trong ngày
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  transferTotal: number;
+
+  @Column({ type: 'int', default: 0 })
+  completedPaymentCount: number; // Payment COMPLETED trong ngày
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  completedPaymentTotal: number;
+
+  @Column({ type: 'int', default: 0 })
+  discrepancyCount: number;
+
+  @Column({ type: 'json' })
+  discrepancies: ReconciliationDiscrepancy[];
+
+  @Column({ type: 'datetime' })
+  generatedAt: Date;
+
+  // ===== Sign-off =====
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  signedOffBy: string | null;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'signedOffBy' })
+  signer: User;
+
+  @Column({ type: 'datetime', nullable: true })
+  signedOffAt: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  signOffNote: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
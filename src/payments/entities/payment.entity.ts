@@ -71,7 +71,10 @@ export class Payment {
   amount: number; // Số tiền cần thanh toán
 
   @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
-  paidAmount: number; // Số tiền đã thanh toán
+  paidAmount: number; // Số tiền đã thanh toán (cộng dồn nếu chuyển nhiều lần)
+
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  overpaidAmount: number; // Số tiền chuyển thừa đã cộng vào ví
 
   @Column({
     type: 'enum',
@@ -0,0 +1,109 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Payment } from './payment.entity';
+import { User } from '../../users/entities/user.entity';
+import { LedgerReferenceType } from '../../ledger/entities/ledger-transaction.entity';
+
+export enum RefundDestination {
+  WALLET = 'wallet', // Hoàn vào ví khách hàng
+  BANK = 'bank', // Chuyển khoản trả lại ngân hàng của khách
+}
+
+export enum RefundStatus {
+  PENDING_APPROVAL = 'pending_approval', // Vượt ngưỡng, chờ admin duyệt
+  PROCESSING = 'processing', // Đã trừ sổ, chờ kế toán chuyển khoản ra ngân hàng
+  COMPLETED = 'completed',
+  REJECTED = 'rejected',
+}
+
+/**
+ * Một lần hoàn tiền (toàn phần hoặc một phần) cho payment gốc.
+ * Tổng các refund chưa bị từ chối không được vượt quá số tiền đã thanh toán.
+ */
+@Entity('refunds')
+@Index(['paymentId', 'status'])
+export class Refund {
+  @PrimaryGeneratedColumn('uuid')
+  refundId: string;
+
+  @Column({ type: 'int' })
+  paymentId: number;
+
+  @ManyToOne(() => Payment)
+  @JoinColumn({ name: 'paymentId' })
+  payment: Payment;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2 })
+  amount: number;
+
+  @Column({ type: 'enum', enum: RefundDestination })
+  destination: RefundDestination;
+
+  @Column({
+    type: 'enum',
+    enum: RefundStatus,
+    default: RefundStatus.PENDING_APPROVAL,
+  })
+  status: RefundStatus;
+
+  @Column({ type: 'text' })
+  reason: string;
+
+  // Nghiệp vụ phát sinh refund (return request, lịch hẹn...)
+  @Column({ type: 'enum', enum: LedgerReferenceType, nullable: true })
+  referenceType: LedgerReferenceType | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  referenceId: string | null;
+
+  // User nhận tiền khi hoàn vào ví
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  walletUserId: string | null;
+
+  // Tài khoản nhận khi hoàn về ngân hàng
+  @Column({ type: 'varchar', nullable: true })
+  bankName: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  bankAccountNumber: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  bankAccountName: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  providerReference: string | null; // Mã giao dịch hoàn tiền phía provider/ngân hàng
+
+  // ===== Audit =====
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  requestedBy: string | null; // NULL = hệ thống tự hoàn theo chính sách
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'requestedBy' })
+  requester: User;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  approvedBy: string | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  approvedAt: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  rejectionReason: string | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  completedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
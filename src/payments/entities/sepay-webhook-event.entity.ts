@@ -0,0 +1,66 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum SepayWebhookEventStatus {
+  PENDING = 'pending', // Chờ xử lý (hoặc chờ retry)
+  PROCESSING = 'processing', // Đang được worker xử lý
+  PROCESSED = 'processed', // Xử lý xong
+  FAILED = 'failed', // Hết số lần retry, cần admin replay
+}
+
+/**
+ * Inbox lưu mọi lần SePay gọi webhook.
+ * Unique theo sepayTransactionId nên SePay gửi lại cùng giao dịch sẽ không xử lý lần 2.
+ */
+@Entity('sepay_webhook_events')
+@Index(['status', 'nextAttemptAt'])
+export class SepayWebhookEvent {
+  @PrimaryGeneratedColumn('uuid')
+  eventId: string;
+
+  @Column({ type: 'bigint', unique: true })
+  sepayTransactionId: number; // id giao dịch trên SePay
+
+  @Column({ type: 'json' })
+  payload: Record<string, any>; // Body gốc SePay gửi sang
+
+  @Column({
+    type: 'enum',
+    enum: SepayWebhookEventStatus,
+    default: SepayWebhookEventStatus.PENDING,
+  })
+  status: SepayWebhookEventStatus;
+
+  @Column({ type: 'int', default: 0 })
+  attempts: number;
+
+  @Column({ type: 'datetime', nullable: true })
+  nextAttemptAt: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  lastError: string | null;
+
+  @Column({ type: 'json', nullable: true })
+  result: Record<string, any> | null; // Kết quả trả về từ handleSepayWebhook
+
+  @Column({ type: 'datetime', nullable: true })
+  processedAt: Date | null;
+
+  @Column({ type: 'int', default: 0 })
+  replayCount: number;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  lastReplayedBy: string | null;
+
+  @CreateDateColumn()
+  receivedAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
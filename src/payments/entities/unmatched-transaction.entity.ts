@@ -0,0 +1,104 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Payment } from './payment.entity';
+import { User } from '../../users/entities/user.entity';
+
+export enum UnmatchedTransactionReason {
+  NO_PAYMENT_CODE = 'no_payment_code', // Nội dung CK không có mã SK...
+  PAYMENT_NOT_FOUND = 'payment_not_found', // Có mã nhưng không tồn tại payment
+}
+
+export enum UnmatchedTransactionStatus {
+  PENDING = 'pending', // Chờ staff xử lý
+  LINKED_TO_PAYMENT = 'linked_to_payment', // Đã gắn vào payment
+  CREDITED_TO_WALLET = 'credited_to_wallet', // Đã cộng vào ví user
+  PENDING_BANK_REFUND = 'pending_bank_refund', // Chờ chuyển khoản hoàn lại
+}
+
+/**
+ * Giao dịch chuyển khoản SePay không khớp được payment nào.
+ * Tiền được tạm giữ ở tài khoản UNMATCHED_TRANSFERS trên sổ cái cho tới khi staff xử lý.
+ */
+@Entity('unmatched_transactions')
+@Index(['status', 'createdAt'])
+export class UnmatchedTransaction {
+  @PrimaryGeneratedColumn('uuid')
+  unmatchedTransactionId: string;
+
+  @Column({ type: 'bigint', unique: true })
+  sepayTransactionId: number;
+
+  @Column({ type: 'decimal', precision: 15, scale: 2 })
+  amount: number;
+
+  @Column({ type: 'text' })
+  content: string; // Nội dung chuyển khoản
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  gateway: string | null;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  accountNumber: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  referenceCode: string | null;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  transactionDate: string | null;
+
+  // Mã SK... trích được nhưng không tìm thấy payment (nếu có)
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  extractedPaymentCode: string | null;
+
+  @Column({ type: 'enum', enum: UnmatchedTransactionReason })
+  reason: UnmatchedTransactionReason;
+
+  @Column({
+    type: 'enum',
+    enum: UnmatchedTransactionStatus,
+    default: UnmatchedTransactionStatus.PENDING,
+  })
+  status: UnmatchedTransactionStatus;
+
+  // ===== Resolution audit =====
+  @Column({ type: 'int', nullable: true })
+  linkedPaymentId: number | null;
+
+  @ManyToOne(() => Payment, { nullable: true })
+  @JoinColumn({ name: 'linkedPaymentId' })
+  linkedPayment: Payment;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  creditedUserId: string | null;
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'creditedUserId' })
+  creditedUser: User;
+
+  @Column({ type: 'text', nullable: true })
+  resolutionNote: string | null;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  resolvedBy: string | null; // userId của staff/admin
+
+  @ManyToOne(() => User, { nullable: true })
+  @JoinColumn({ name: 'resolvedBy' })
+  resolver: User;
+
+  @Column({ type: 'datetime', nullable: true })
+  resolvedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
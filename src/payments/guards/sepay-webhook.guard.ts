@@ -0,0 +1,41 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import {
+  PAYMENT_PROVIDER,
+  PaymentProvider,
+} from '../providers/payment-provider.interface';
+
+/**
+ * Verify SePay webhook calls.
+ * Việc xác thực do payment provider đang dùng quyết định
+ * (SePay: header `Authorization: Apikey <SEPAY_WEBHOOK_API_KEY>`).
+ */
+@Injectable()
+export class SepayWebhookGuard implements CanActivate {
+  private readonly logger = new Logger(SepayWebhookGuard.name);
+
+  constructor(
+    @Inject(PAYMENT_PROVIDER)
+    private readonly paymentProvider: PaymentProvider,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<Request>();
+
+    if (!this.paymentProvider.verifyCallback(request.headers)) {
+      this.logger.warn(
+        `⚠️ Rejected ${this.paymentProvider.name} webhook with invalid authorization from ${request.ip}`,
+      );
+      throw new UnauthorizedException('Invalid webhook authorization');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,279 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { PaymentReconciliationService } from './payment-reconciliation.service';
+import { PaymentsService } from './payments.service';
+import {
+  PaymentReconciliationReport,
+  ReconciliationDiscrepancyType,
+  ReconciliationReportStatus,
+} from './entities/payment-reconciliation-report.entity';
+import { SepayWebhookEvent } from './entities/sepay-webhook-event.entity';
+import {
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+  PaymentType,
+} from './entities/payment.entity';
+import { Order, OrderStatus } from '../orders/entities/order.entity';
+import { Appointment } from '../appointments/entities/appointment.entity';
+import { AppointmentStatus } from '../appointments/types/appointment.types';
+import { CustomerSubscription } from '../customer-subscription/entities/customer-subscription.entity';
+import { UnmatchedTransaction } from './entities/unmatched-transaction.entity';
+
+describe('PaymentReconciliationService', () => {
+  let service: PaymentReconciliationService;
+
+  const repositories = new Map<unknown, { find: jest.Mock }>();
+  const repositoryFor = (entity: unknown) => {
+    if (!repositories.has(entity)) {
+      repositories.set(entity, { find: jest.fn().mockResolvedValue([]) });
+    }
+    return repositories.get(entity)!;
+  };
+
+  const mockEntityManager = {
+    getRepository: jest.fn((entity: unknown) => repositoryFor(entity)),
+  };
+
+  const mockReportRepository = {
+    findOne: jest.fn(),
+    findAndCount: jest.fn(),
+    create: jest.fn((data: Partial<PaymentReconciliationReport>) => data),
+    save: jest.fn((report: Partial<PaymentReconciliationReport>) =>
+      Promise.resolve(report),
+    ),
+  };
+
+  const mockPaymentsService = {
+    extractPaymentCode: jest.fn((content: string) => {
+      const match = content.match(/SK[OTBS][A-Z0-9]+/i);
+      return match ? match[0].toUpperCase() : null;
+    }),
+  };
+
+  const transferEvent = (id: number, content: string, amount: number) => ({
+    payload: { id, content, transferType: 'in', transferAmount: amount },
+  });
+
+  const completedPayment = (overrides: Partial<Payment>): Partial<Payment> => ({
+    paymentId: 1,
+    paymentCode: 'SKOABC123',
+    paymentType: PaymentType.ORDER,
+    paymentMethod: PaymentMethod.BANKING,
+    status: PaymentStatus.COMPLETED,
+    amount: 500000,
+    paidAmount: 500000,
+    overpaidAmount: 0,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    repositories.clear();
+    mockReportRepository.findOne.mockResolvedValue(null);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentReconciliationService,
+        { provide: EntityManager, useValue: mockEntityManager },
+        {
+          provide: getRepositoryToken(PaymentReconciliationReport),
+          useValue: mockReportRepository,
+        },
+        { provide: PaymentsService, useValue: mockPaymentsService },
+      ],
+    }).compile();
+
+    service = module.get<PaymentReconciliationService>(
+      PaymentReconciliationService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('generateReport', () => {
+    // TC-RECON-001-01: Normal - Clean day produces no discrepancies
+    it('TC-RECON-001-01: should produce an empty report when everything matches', async () => {
+      repositoryFor(SepayWebhookEvent).find.mockResolvedValue([
+        transferEvent(1, 'SKOABC123', 500000),
+      ]);
+      repositoryFor(Payment)
+        .find.mockResolvedValueOnce([
+          completedPayment({
+            order: { status: OrderStatus.CONFIRMED } as Order,
+          }),
+        ])
+        .mockResolvedValueOnce([completedPayment({})]);
+
+      const report = await service.generateReport('2025-01-31');
+
+      expect(report.transferCount).toBe(1);
+      expect(report.transferTotal).toBe(500000);
+      expect(report.completedPaymentCount).toBe(1);
+      expect(report.discrepancyCount).toBe(0);
+    });
+
+    // TC-RECON-001-02: Abnormal - Completed booking without confirmed appointment
+    it('TC-RECON-001-02: should flag a completed payment whose target was not fulfilled', async () => {
+      repositoryFor(Payment).find.mockResolvedValueOnce([
+        completedPayment({
+          paymentType: PaymentType.BOOKING,
+          appointment: {
+            appointmentId: 'appt-1',
+            appointmentStatus: AppointmentStatus.PENDING_PAYMENT,
+          } as Appointment,
+        }),
+      ]);
+
+      const report = await service.generateReport('2025-01-31');
+
+      expect(report.discrepancies).toEqual([
+        expect.objectContaining({
+          type: ReconciliationDiscrepancyType.COMPLETED_WITHOUT_TARGET,
+          targetType: 'appointment',
+          targetId: 'appt-1',
+        }),
+      ]);
+    });
+
+    // TC-RECON-001-03: Abnormal - Fulfilled targets without completed payment
+    it('TC-RECON-001-03: should flag fulfilled orders and subscriptions without a completed payment', async () => {
+      repositoryFor(Order).find.mockResolvedValue([
+        {
+          orderId: 'order-1',
+          status: OrderStatus.SHIPPING,
+          payment: { status: PaymentStatus.PENDING },
+        },
+        { orderId: 'order-2', status: OrderStatus.CANCELLED, payment: null },
+      ]);
+      repositoryFor(CustomerSubscription).find.mockResolvedValue([
+        { id: 'sub-1', payment: null },
+      ]);
+
+      const report = await service.generateReport('2025-01-31');
+
+      expect(report.discrepancies).toEqual([
+        expect.objectContaining({
+          type: ReconciliationDiscrepancyType.TARGET_WITHOUT_PAYMENT,
+          targetId: 'order-1',
+        }),
+        expect.objectContaining({
+          type: ReconciliationDiscrepancyType.TARGET_WITHOUT_PAYMENT,
+          targetId: 'sub-1',
+        }),
+      ]);
+    });
+
+    // TC-RECON-001-04: Abnormal - Amount mismatch and duplicate code
+    it('TC-RECON-001-04: should flag amount mismatches and duplicate payment codes', async () => {
+      repositoryFor(SepayWebhookEvent).find.mockResolvedValue([
+        transferEvent(1, 'SKOABC123', 500000),
+        transferEvent(2, 'CK SKOABC123 lan 2', 500000),
+      ]);
+      repositoryFor(Payment)
+        .find.mockResolvedValueOnce([
+          completedPayment({
+            paidAmount: 450000,
+            order: { status: OrderStatus.CONFIRMED } as Order,
+          }),
+        ])
+        .mockResolvedValueOnce([completedPayment({ paidAmount: 450000 })]);
+
+      const report = await service.generateReport('2025-01-31');
+      const types = report.discrepancies.map((d) => d.type);
+
+      expect(types).toContain(
+        ReconciliationDiscrepancyType.DUPLICATE_PAYMENT_CODE,
+      );
+      expect(types).toContain(ReconciliationDiscrepancyType.AMOUNT_MISMATCH);
+      expect(report.discrepancies[0].sepayTransactionIds).toEqual([1, 2]);
+    });
+
+    // TC-RECON-001-05: Normal - Pending unmatched transfers are listed
+    it('TC-RECON-001-05: should include unmatched transfers awaiting resolution', async () => {
+      repositoryFor(UnmatchedTransaction).find.mockResolvedValue([
+        {
+          sepayTransactionId: 9,
+          amount: 120000,
+          reason: 'no_payment_code',
+          extractedPaymentCode: null,
+        },
+      ]);
+
+      const report = await service.generateReport('2025-01-31');
+
+      expect(report.discrepancies).toEqual([
+        expect.objectContaining({
+          type: ReconciliationDiscrepancyType.UNMATCHED_TRANSFER,
+          sepayTransactionIds: [9],
+          actualAmount: 120000,
+        }),
+      ]);
+    });
+
+    // TC-RECON-001-06: Boundary - Signed-off report cannot be regenerated
+    it('TC-RECON-001-06: should refuse to regenerate a signed-off report', async () => {
+      mockReportRepository.findOne.mockResolvedValue({
+        reportDate: '2025-01-31',
+        status: ReconciliationReportStatus.SIGNED_OFF,
+      });
+
+      await expect(service.generateReport('2025-01-31')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockReportRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportCsv', () => {
+    // TC-RECON-002-01: Normal - CSV escapes commas and quotes
+    it('TC-RECON-002-01: should export discrepancies as escaped CSV', async () => {
+      mockReportRepository.findOne.mockResolvedValue({
+        reportDate: '2025-01-31',
+        discrepancies: [
+          {
+            type: ReconciliationDiscrepancyType.AMOUNT_MISMATCH,
+            paymentId: 1,
+            paymentCode: 'SKOABC123',
+            sepayTransactionIds: [1, 2],
+            targetType: null,
+            targetId: null,
+            expectedAmount: 500000,
+            actualAmount: 450000,
+            message: 'Paid "less", please check',
+          },
+        ],
+      });
+
+      const csv = await service.exportCsv('2025-01-31');
+      const [header, row] = csv.split('\n');
+
+      expect(header).toBe(
+        'reportDate,type,paymentId,paymentCode,sepayTransactionIds,targetType,targetId,expectedAmount,actualAmount,message',
+      );
+      expect(row).toBe(
+        '2025-01-31,AMOUNT_MISMATCH,1,SKOABC123,1 2,,,500000,450000,"Paid ""less"", please check"',
+      );
+    });
+  });
+
+  describe('signOff', () => {
+    // TC-RECON-003-01: Normal - Finance signs off the report
+    it('TC-RECON-003-01: should record who signed off the report', async () => {
+      mockReportRepository.findOne.mockResolvedValue({
+        reportDate: '2025-01-31',
+        status: ReconciliationReportStatus.PENDING_REVIEW,
+      });
+
+      const report = await service.signOff('2025-01-31', 'admin-1', 'OK');
+
+      expect(report.status).toBe(ReconciliationReportStatus.SIGNED_OFF);
+      expect(report.signedOffBy).toBe('admin-1');
+      expect(report.signOffNote).toBe('OK');
+      expect(report.signedOffAt).toBeInstanceOf(Date);
+    });
+  });
+});
@@ -0,0 +1,556 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron } from '@nestjs/schedule';
+import { Between, EntityManager, In, Repository } from 'typeorm';
+import {
+  PaymentReconciliationReport,
+  ReconciliationDiscrepancy,
+  ReconciliationDiscrepancyType,
+  ReconciliationReportStatus,
+} from './entities/payment-reconciliation-report.entity';
+import { SepayWebhookEvent } from './entities/sepay-webhook-event.entity';
+import {
+  UnmatchedTransaction,
+  UnmatchedTransactionStatus,
+} from './entities/unmatched-transaction.entity';
+import {
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+  PaymentType,
+} from './entities/payment.entity';
+import { SepayWebhookDto } from './dto/sepay-webhook.dto';
+import { PaymentsService } from './payments.service';
+import { Order, OrderStatus } from '../orders/entities/order.entity';
+import { Appointment } from '../appointments/entities/appointment.entity';
+import { AppointmentStatus } from '../appointments/types/appointment.types';
+import { CustomerSubscription } from '../customer-subscription/entities/customer-subscription.entity';
+
+// Đơn hàng ở các trạng thái này chưa/không được xử lý nên không cần payment
+const UNFULFILLED_ORDER_STATUSES = [
+  OrderStatus.PENDING,
+  OrderStatus.CANCELLED,
+  OrderStatus.REJECTED,
+];
+
+const UNFULFILLED_APPOINTMENT_STATUSES = [
+  AppointmentStatus.PENDING_PAYMENT,
+  AppointmentStatus.CANCELLED,
+];
+
+const CSV_COLUMNS = [
+  'reportDate',
+  'type',
+  'paymentId',
+  'paymentCode',
+  'sepayTransactionIds',
+  'targetType',
+  'targetId',
+  'expectedAmount',
+  'actualAmount',
+  'message',
+] as const;
+
+@Injectable()
+export class PaymentReconciliationService {
+  private readonly logger = new Logger(PaymentReconciliationService.name);
+  private readonly TIMEZONE_OFFSET = '+07:00'; // Ngày đối soát theo giờ Việt Nam
+
+  constructor(
+    private readonly entityManager: EntityManager,
+    @InjectRepository(PaymentReconciliationReport)
+    private readonly reportRepository: Repository<PaymentReconciliationReport>,
+    private readonly paymentsService: PaymentsService,
+  ) {}
+
+  /**
+   * Đối soát ngày hôm qua lúc 00:30 mỗi ngày.
+   */
+  @Cron('30 0 * * *', {
+    name: 'DailyPaymentReconciliation',
+    timeZone: 'Asia/Ho_Chi_Minh',
+  })
+  async generateYesterdayReport(): Promise<void> {
+    const yesterday = this.shiftDate(this.today(), -1);
+
+    try {
+      const report = await this.generateReport(yesterday);
+      this.logger.log(
+        `📊 Reconciliation for ${yesterday}: ${report.discrepancyCount} discrepancies`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `❌ Daily reconciliation for ${yesterday} failed: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Tạo (hoặc tạo lại) báo cáo đối soát cho một ngày. Báo cáo đã ký không được tạo lại.
+   */
+  async generateReport(
+    reportDate: string,
+  ): Promise<PaymentReconciliationReport> {
+    const existing = await this.reportRepository.findOne({
+      where: { reportDate },
+    });
+    if (existing?.status === ReconciliationReportStatus.SIGNED_OFF) {
+      throw new BadRequestException(
+        `Reconciliation report for ${reportDate} is already signed off`,
+      );
+    }
+
+    const { start, end } = this.getDayRange(reportDate);
+    const range = Between(start, end);
+
+    const events = await this.entityManager
+      .getRepository(SepayWebhookEvent)
+      .find({ where: { receivedAt: range }, order: { receivedAt: 'ASC' } });
+    const transfers = events
+      .map((event) => event.payload as SepayWebhookDto)
+      .filter((payload) => payload?.transferType === 'in');
+
+    const completedPayments = await this.entityManager
+      .getRepository(Payment)
+      .find({
+        where: { status: PaymentStatus.COMPLETED, paidAt: range },
+        relations: ['order', 'appointment', 'customerSubscription'],
+      });
+
+    const discrepancies: ReconciliationDiscrepancy[] = [
+      ...(await this.checkTransfers(transfers)),
+      ...this.checkCompletedPayments(completedPayments),
+      ...(await this.checkFulfilledTargets(start, end)),
+      ...(await this.checkUnmatchedTransfers(start, end)),
+    ];
+
+    const report = existing ?? this.reportRepository.create({ reportDate });
+    report.transferCount = transfers.length;
+    report.transferTotal = this.sum(transfers.map((t) => t.transferAmount));
+    report.completedPaymentCount = completedPayments.length;
+    report.completedPaymentTotal = this.sum(
+      completedPayments.map((p) => Number(p.amount)),
+    );
+    report.discrepancies = discrepancies;
+    report.discrepancyCount = discrepancies.length;
+    report.generatedAt = new Date();
+
+    return this.reportRepository.save(report);
+  }
+
+  async findReports(page: number = 1, limit: number = 30) {
+    const [data, total] = await this.reportRepository.findAndCount({
+      select: [
+        'reportId',
+        'reportDate',
+        'status',
+        'transferCount',
+        'transferTotal',
+        'completedPaymentCount',
+        'completedPaymentTotal',
+        'discrepancyCount',
+        'generatedAt',
+        'signedOffBy',
+        'signedOffAt',
+      ],
+      order: { reportDate: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findByDate(reportDate: string): Promise<PaymentReconciliationReport> {
+    const report = await this.reportRepository.findOne({
+      where: { reportDate },
+      relations: ['signer'],
+    });
+    if (!report) {
+      throw new NotFoundException(
+        `Reconciliation report for ${reportDate} not found`,
+      );
+    }
+    return report;
+  }
+
+  async signOff(
+    reportDate: string,
+    adminUserId: string,
+    note?: string,
+  ): Promise<PaymentReconciliationReport> {
+    const report = await this.findByDate(reportDate);
+    if (report.status === ReconciliationReportStatus.SIGNED_OFF) {
+      throw new BadRequestException(
+        `Reconciliation report for ${reportDate} is already signed off`,
+      );
+    }
+
+    report.status = ReconciliationReportStatus.SIGNED_OFF;
+    report.signedOffBy = adminUserId;
+    report.signedOffAt = new Date();
+    report.signOffNote = note ?? null;
+
+    this.logger.log(
+      `✍️ Reconciliation report ${reportDate} signed off by ${adminUserId}`,
+    );
+    return this.reportRepository.save(report);
+  }
+
+  async exportCsv(reportDate: string): Promise<string> {
+    const report = await this.findByDate(reportDate);
+
+    const rows = report.discrepancies.map((discrepancy) => ({
+      reportDate: report.reportDate,
+      ...discrepancy,
+      sepayTransactionIds: discrepancy.sepayTransactionIds.join(' '),
+    }));
+
+    return [
+      CSV_COLUMNS.join(','),
+      ...rows.map((row) =>
+        CSV_COLUMNS.map((column) => this.toCsvCell(row[column])).join(','),
+      ),
+    ].join('\n');
+  }
+
+  /**
+   * Đối chiếu giao dịch SePay trong ngày với payment theo mã trong nội dung CK.
+   */
+  private async checkTransfers(
+    transfers: SepayWebhookDto[],
+  ): Promise<ReconciliationDiscrepancy[]> {
+    const transfersByCode = new Map<string, SepayWebhookDto[]>();
+    for (const transfer of transfers) {
+      const code = this.paymentsService.extractPaymentCode(
+        transfer.content ?? '',
+      );
+      if (!code) continue; // Đã nằm trong hàng đợi unmatched
+      transfersByCode.set(code, [
+        ...(transfersByCode.get(code) ?? []),
+        transfer,
+      ]);
+    }
+    if (transfersByCode.size === 0) {
+      return [];
+    }
+
+    const payments = await this.entityManager.getRepository(Payment).find({
+      where: { paymentCode: In([...transfersByCode.keys()]) },
+    });
+    const paymentsByCode = new Map(payments.map((p) => [p.paymentCode, p]));
+
+    const discrepancies: ReconciliationDiscrepancy[] = [];
+    for (const [code, codeTransfers] of transfersByCode) {
+      const payment = paymentsByCode.get(code);
+      if (!payment) continue; // PAYMENT_NOT_FOUND -> hàng đợi unmatched
+
+      const transferred = this.sum(codeTransfers.map((t) => t.transferAmount));
+      const paidAmount = Number(payment.paidAmount);
+      if (codeTransfers.length > 1 && transferred > paidAmount) {
+        // Nhiều lần chuyển cùng mã nhưng không được cộng dồn hết vào payment
+        discrepancies.push({
+          type: ReconciliationDiscrepancyType.DUPLICATE_PAYMENT_CODE,
+          paymentId: payment.paymentId,
+          paymentCode: code,
+          sepayTransactionIds: codeTransfers.map((t) => t.id),
+          targetType: null,
+          targetId: null,
+          expectedAmount: paidAmount,
+          actualAmount: transferred,
+          message: `${codeTransfers.length} transfers used ${code} but only ${paidAmount} was applied`,
+        });
+      } else if (
+        payment.status === PaymentStatus.COMPLETED &&
+        transferred > paidAmount
+      ) {
+        discrepancies.push({
+          type: ReconciliationDiscrepancyType.AMOUNT_MISMATCH,
+          paymentId: payment.paymentId,
+          paymentCode: code,
+          sepayTransactionIds: codeTransfers.map((t) => t.id),
+          targetType: null,
+          targetId: null,
+          expectedAmount: paidAmount,
+          actualAmount: transferred,
+          message: `Bank received ${transferred} for ${code} but payment recorded ${paidAmount}`,
+        });
+      }
+    }
+    return discrepancies;
+  }
+
+  /**
+   * Payment COMPLETED trong ngày phải có order / lịch hẹn / gói tương ứng và đúng số tiền.
+   */
+  private checkCompletedPayments(
+    payments: Payment[],
+  ): ReconciliationDiscrepancy[] {
+    const discrepancies: ReconciliationDiscrepancy[] = [];
+
+    for (const payment of payments) {
+      const base = {
+        paymentId: payment.paymentId,
+        paymentCode: payment.paymentCode,
+        sepayTransactionIds: payment.sepayTransactionId
+          ? [Number(payment.sepayTransactionId)]
+          : [],
+      };
+
+      switch (payment.paymentType) {
+        case PaymentType.ORDER:
+          if (!payment.order || payment.order.status === OrderStatus.PENDING) {
+            discrepancies.push({
+              ...base,
+              type: ReconciliationDiscrepancyType.COMPLETED_WITHOUT_TARGET,
+              targetType: 'order',
+              targetId: payment.orderId ?? null,
+              expectedAmount: Number(payment.amount),
+              actualAmount: null,
+              message: payment.order
+                ? `Order ${payment.orderId} still ${payment.order.status}`
+                : 'No order created for completed payment',
+            });
+          }
+          break;
+
+        case PaymentType.BOOKING:
+          if (
+            !payment.appointment ||
+            payment.appointment.appointmentStatus ===
+              AppointmentStatus.PENDING_PAYMENT
+          ) {
+            discrepancies.push({
+              ...base,
+              type: ReconciliationDiscrepancyType.COMPLETED_WITHOUT_TARGET,
+              targetType: 'appointment',
+              targetId: payment.appointment?.appointmentId ?? null,
+              expectedAmount: Number(payment.amount),
+              actualAmount: null,
+              message: payment.appointment
+                ? 'Appointment still waiting for payment'
+                : 'No appointment linked to completed payment',
+            });
+          } else if (
+            Number(payment.appointment.price) > 0 &&
+            Number(payment.appointment.price) !== Number(payment.amount)
+          ) {
+            discrepancies.push({
+              ...base,
+              type: ReconciliationDiscrepancyType.AMOUNT_MISMATCH,
+              targetType: 'appointment',
+              targetId: payment.appointment.appointmentId,
+              expectedAmount: Number(payment.appointment.price),
+              actualAmount: Number(payment.amount),
+              message: 'Appointment price differs from payment amount',
+            });
+          }
+          break;
+
+        case PaymentType.SUBSCRIPTION:
+          if (!payment.customerSubscription) {
+            discrepancies.push({
+              ...base,
+              type: ReconciliationDiscrepancyType.COMPLETED_WITHOUT_TARGET,
+              targetType: 'subscription',
+              targetId: null,
+              expectedAmount: Number(payment.amount),
+              actualAmount: null,
+              message: 'No subscription activated for completed payment',
+            });
+          }
+          break;
+      }
+
+      // Chuyển khoản: tiền áp vào payment (không tính phần thừa đã cộng ví) phải đúng số tiền
+      const applied =
+        Number(payment.paidAmount) - Number(payment.overpaidAmount ?? 0);
+      if (
+        payment.paymentMethod === PaymentMethod.BANKING &&
+        payment.paymentType !== PaymentType.TOPUP &&
+        applied !== Number(payment.amount)
+      ) {
+        discrepancies.push({
+          ...base,
+          type: ReconciliationDiscrepancyType.AMOUNT_MISMATCH,
+          targetType: null,
+          targetId: null,
+          expectedAmount: Number(payment.amount),
+          actualAmount: applied,
+          message: 'Amount applied to payment differs from amount due',
+        });
+      }
+    }
+
+    return discrepancies;
+  }
+
+  /**
+   * Order / lịch hẹn / gói tạo trong ngày đã được xử lý phải có payment COMPLETED.
+   */
+  private async checkFulfilledTargets(
+    start: Date,
+    end: Date,
+  ): Promise<ReconciliationDiscrepancy[]> {
+    const range = Between(start, end);
+    const discrepancies: ReconciliationDiscrepancy[] = [];
+
+    const orders = await this.entityManager.getRepository(Order).find({
+      where: { createdAt: range },
+      relations: ['payment'],
+    });
+    const fulfilledOrders = orders.filter(
+      (order) => !UNFULFILLED_ORDER_STATUSES.includes(order.status),
+    );
+    const orderPayments = fulfilledOrders.length
+      ? await this.entityManager.getRepository(Payment).find({
+          where: {
+            orderId: In(fulfilledOrders.map((order) => order.orderId)),
+            status: PaymentStatus.COMPLETED,
+          },
+        })
+      : [];
+    const paidOrderIds = new Set(orderPayments.map((p) => p.orderId));
+    for (const order of fulfilledOrders) {
+      if (
+        order.payment?.status === PaymentStatus.COMPLETED ||
+        paidOrderIds.has(order.orderId)
+      ) {
+        continue;
+      }
+      discrepancies.push({
+        type: ReconciliationDiscrepancyType.TARGET_WITHOUT_PAYMENT,
+        paymentId: order.payment?.paymentId ?? null,
+        paymentCode: order.payment?.paymentCode ?? null,
+        sepayTransactionIds: [],
+        targetType: 'order',
+        targetId: order.orderId,
+        expectedAmount: null,
+        actualAmount: null,
+        message: `Order is ${order.status} without a completed payment`,
+      });
+    }
+
+    const appointments = await this.entityManager
+      .getRepository(Appointment)
+      .find({
+        where: { createdAt: range },
+        relations: ['payment', 'customerSubscription'],
+      });
+    for (const appointment of appointments) {
+      if (
+        UNFULFILLED_APPOINTMENT_STATUSES.includes(
+          appointment.appointmentStatus,
+        ) ||
+        appointment.customerSubscription || // Dùng buổi trong gói, không có payment riêng
+        appointment.payment?.status === PaymentStatus.COMPLETED
+      ) {
+        continue;
+      }
+      discrepancies.push({
+        type: ReconciliationDiscrepancyType.TARGET_WITHOUT_PAYMENT,
+        paymentId: appointment.payment?.paymentId ?? null,
+        paymentCode: appointment.payment?.paymentCode ?? null,
+        sepayTransactionIds: [],
+        targetType: 'appointment',
+        targetId: appointment.appointmentId,
+        expectedAmount: Number(appointment.price),
+        actualAmount: null,
+        message: `Appointment is ${appointment.appointmentStatus} without a completed payment`,
+      });
+    }
+
+    const subscriptions = await this.entityManager
+      .getRepository(CustomerSubscription)
+      .find({ where: { createdAt: range }, relations: ['payment'] });
+    for (const subscription of subscriptions) {
+      if (subscription.payment?.status === PaymentStatus.COMPLETED) {
+        continue;
+      }
+      discrepancies.push({
+        type: ReconciliationDiscrepancyType.TARGET_WITHOUT_PAYMENT,
+        paymentId: subscription.payment?.paymentId ?? null,
+        paymentCode: subscription.payment?.paymentCode ?? null,
+        sepayTransactionIds: [],
+        targetType: 'subscription',
+        targetId: subscription.id,
+        expectedAmount: null,
+        actualAmount: null,
+        message: 'Subscription activated without a completed payment',
+      });
+    }
+
+    return discrepancies;
+  }
+
+  private async checkUnmatchedTransfers(
+    start: Date,
+    end: Date,
+  ): Promise<ReconciliationDiscrepancy[]> {
+    const unmatched = await this.entityManager
+      .getRepository(UnmatchedTransaction)
+      .find({
+        where: {
+          createdAt: Between(start, end),
+          status: UnmatchedTransactionStatus.PENDING,
+        },
+      });
+
+    return unmatched.map((transfer) => ({
+      type: ReconciliationDiscrepancyType.UNMATCHED_TRANSFER,
+      paymentId: null,
+      paymentCode: transfer.extractedPaymentCode,
+      sepayTransactionIds: [Number(transfer.sepayTransactionId)],
+      targetType: null,
+      targetId: null,
+      expectedAmount: null,
+      actualAmount: Number(transfer.amount),
+      message: `Unmatched transfer (${transfer.reason}) awaiting staff resolution`,
+    }));
+  }
+
+  private getDayRange(reportDate: string): { start: Date; end: Date } {
+    const start = new Date(`${reportDate}T00:00:00${this.TIMEZONE_OFFSET}`);
+    if (Number.isNaN(start.getTime())) {
+      throw new BadRequestException('Invalid report date. Use YYYY-MM-DD');
+    }
+    const end = new Date(start.getTime() + 24 * 60 * 60 * 1000 - 1);
+    return { start, end };
+  }
+
+  private today(): string {
+    // en-CA cho định dạng YYYY-MM-DD
+    return new Date().toLocaleDateString('en-CA', {
+      timeZone: 'Asia/Ho_Chi_Minh',
+    });
+  }
+
+  private shiftDate(date: string, days: number): string {
+    const shifted = new Date(`${date}T00:00:00Z`);
+    shifted.setUTCDate(shifted.getUTCDate() + days);
+    return shifted.toISOString().slice(0, 10);
+  }
+
+  private sum(values: number[]): number {
+    return (
+      Math.round(values.reduce((total, v) => total + Number(v), 0) * 100) / 100
+    );
+  }
+
+  private toCsvCell(value: string | number | null | undefined): string {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
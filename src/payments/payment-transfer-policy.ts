@@ -0,0 +1,46 @@
+import { PaymentType } from './entities/payment.entity';
+
+/**
+ * Cách xử lý chuyển khoản thiếu / thừa cho từng loại payment.
+ */
+export interface PaymentTransferPolicy {
+  // Cho phép chuyển nhiều lần cộng dồn vào paidAmount cho tới khi đủ (trong thời hạn payment)
+  allowPartialPayments: boolean;
+  // Tiền chuyển thừa được cộng vào ví khách thay vì ghi nhận vào doanh thu
+  creditSurplusToWallet: boolean;
+}
+
+export const DEFAULT_PAYMENT_TRANSFER_POLICIES: Record<
+  PaymentType,
+  PaymentTransferPolicy
+> = {
+  [PaymentType.ORDER]: {
+    allowPartialPayments: true,
+    creditSurplusToWallet: true,
+  },
+  [PaymentType.BOOKING]: {
+    allowPartialPayments: true,
+    creditSurplusToWallet: true,
+  },
+  [PaymentType.SUBSCRIPTION]: {
+    allowPartialPayments: true,
+    creditSurplusToWallet: true,
+  },
+  // Nạp tiền: nhận bao nhiêu cộng bấy nhiêu, không có khái niệm thiếu / thừa
+  [PaymentType.TOPUP]: {
+    allowPartialPayments: false,
+    creditSurplusToWallet: false,
+  },
+  [PaymentType.WITHDRAW]: {
+    allowPartialPayments: false,
+    creditSurplusToWallet: false,
+  },
+};
+
+/**
+ * Env override, danh sách payment type cách nhau bởi dấu phẩy. Ví dụ:
+ * PAYMENT_PARTIAL_TYPES=order,booking
+ * PAYMENT_SURPLUS_TO_WALLET_TYPES=order
+ */
+export const PARTIAL_PAYMENT_TYPES_ENV = 'PAYMENT_PARTIAL_TYPES';
+export const SURPLUS_TO_WALLET_TYPES_ENV = 'PAYMENT_SURPLUS_TO_WALLET_TYPES';
@@ -11,7 +11,9 @@ import {
   Query,
   Patch,
   Req,
+  Res,
 } from '@nestjs/common';
+import { Response } from 'express';
 import { PaymentsService } from './payments.service';
 import { SepayWebhookDto } from './dto/sepay-webhook.dto';
 import { CreatePaymentDto } from './dto/create-payment.dto';
@@ -26,14 +28,41 @@ import {
   ApiBearerAuth,
   ApiBody,
   ApiQuery,
+  ApiHeader,
 } from '@nestjs/swagger';
+import { SepayWebhookInboxService } from './sepay-webhook-inbox.service';
+import { SepayWebhookGuard } from './guards/sepay-webhook.guard';
+import { SepayWebhookEventStatus } from './entities/sepay-webhook-event.entity';
+import { UnmatchedTransactionsService } from './unmatched-transactions.service';
+import { UnmatchedTransactionStatus } from './entities/unmatched-transaction.entity';
+import { ResolveUnmatchedTransactionDto } from './dto/resolve-unmatched-transaction.dto';
+import { PaymentReconciliationService } from './payment-reconciliation.service';
+import {
+  GenerateReconciliationReportDto,
+  SignOffReconciliationReportDto,
+} from './dto/reconciliation-report.dto';
+import { RefundsService } from './refunds.service';
+import { RefundDestination, RefundStatus } from './entities/refund.entity';
+import {
+  CompleteRefundDto,
+  CreateRefundDto,
+  RejectRefundDto,
+} from './dto/refund.dto';
+import { PaymentType } from './entities/payment.entity';
+import { Idempotent } from '../idempotency/decorators/idempotent.decorator';
 
 @ApiTags('Payments')
 @Controller('payments')
 export class PaymentsController {
   private readonly logger = new Logger(PaymentsController.name);
 
-  constructor(private readonly paymentsService: PaymentsService) {}
+  constructor(
+    private readonly paymentsService: PaymentsService,
+    private readonly sepayWebhookInboxService: SepayWebhookInboxService,
+    private readonly unmatchedTransactionsService: UnmatchedTransactionsService,
+    private readonly paymentReconciliationService: PaymentReconciliationService,
+    private readonly refundsService: RefundsService,
+  ) {}
 
   /**
    * 🔔 Webhook endpoint for SePay
@@ -41,36 +70,506 @@ export class PaymentsController {
    */
   @Post('webhook/sepay')
   @HttpCode(HttpStatus.OK)
+  @UseGuards(SepayWebhookGuard)
+  @ApiHeader({
+    name: 'Authorization',
+    description: 'Apikey <SEPAY_WEBHOOK_API_KEY>',
+    required: true,
+  })
   @ApiOperation({
     summary: 'SePay webhook endpoint',
     description:
       'Receives payment notifications from SePay when customers transfer money',
   })
   @ApiBody({ type: SepayWebhookDto })
-  @ApiResponse({ status: 200, description: 'Webhook processed successfully' })
+  @ApiResponse({ status: 200, description: 'Webhook stored for processing' })
+  @ApiResponse({ status: 401, description: 'Invalid webhook authorization' })
   async handleSepayWebhook(@Body() webhookData: SepayWebhookDto) {
-    // Log FIRST to catch all requests
-    console.log('🚨 WEBHOOK HIT! Timestamp:', new Date().toISOString());
-    console.log('🚨 Webhook data:', JSON.stringify(webhookData, null, 2));
-
     this.logger.log(
       `📥 Received SePay webhook: Transaction #${webhookData.id}`,
     );
 
-    try {
-      const result = await this.paymentsService.handleSepayWebhook(webhookData);
-      return {
-        success: true,
-        message: 'Webhook received',
-        data: result,
-      };
-    } catch (error) {
-      this.logger.error(`❌ Webhook processing error: ${error.message}`);
-      return {
-        success: false,
-        message: error.message,
-      };
-    }
+    // Lỗi lưu inbox -> trả 5xx để SePay gửi lại
+    const { eventId, duplicate } =
+      await this.sepayWebhookInboxService.receive(webhookData);
+
+    return {
+      success: true,
+      message: duplicate ? 'Duplicate webhook ignored' : 'Webhook received',
+      data: { eventId, duplicate },
+    };
+  }
+
+  /**
+   * 📥 List SePay webhook deliveries (Admin only)
+   */
+  @Get('admin/webhooks/sepay')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List SePay webhook deliveries (Admin only)',
+    description: 'Use status=failed to see deliveries that need a replay',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'status', required: false, enum: SepayWebhookEventStatus })
+  @ApiResponse({ status: 200, description: 'Webhook deliveries retrieved' })
+  async getSepayWebhookEvents(
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 50,
+    @Query('status') status?: SepayWebhookEventStatus,
+  ) {
+    const result = await this.sepayWebhookInboxService.findEvents(
+      Number(page),
+      Number(limit),
+      status,
+    );
+
+    return {
+      success: true,
+      ...result,
+    };
+  }
+
+  /**
+   * 🔁 Replay a FAILED SePay webhook delivery (Admin only)
+   */
+  @Post('admin/webhooks/sepay/:eventId/replay')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Replay a failed SePay webhook (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Webhook replayed' })
+  @ApiResponse({ status: 400, description: 'Event is not in FAILED status' })
+  async replaySepayWebhookEvent(@Param('eventId') eventId: string, @Req() req) {
+    const event = await this.sepayWebhookInboxService.replay(
+      eventId,
+      req.user.userId,
+    );
+
+    return {
+      success: true,
+      message: 'Webhook replayed',
+      data: event,
+    };
+  }
+
+  /**
+   * 📥 Queue of bank transfers that matched no payment (Admin/Staff)
+   */
+  @Get('admin/unmatched-transactions')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List unmatched bank transfers (Admin/Staff)',
+    description:
+      'Use status=pending to see transfers waiting for reconciliation',
+  })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: UnmatchedTransactionStatus,
+  })
+  @ApiResponse({ status: 200, description: 'Unmatched transfers retrieved' })
+  async getUnmatchedTransactions(
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 50,
+    @Query('status') status?: UnmatchedTransactionStatus,
+  ) {
+    const result = await this.unmatchedTransactionsService.findAll(
+      Number(page),
+      Number(limit),
+      status,
+    );
+
+    return {
+      success: true,
+      ...result,
+    };
+  }
+
+  /**
+   * 🔍 Unmatched bank transfer detail (Admin/Staff)
+   */
+  @Get('admin/unmatched-transactions/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get unmatched bank transfer (Admin/Staff)' })
+  @ApiResponse({ status: 200, description: 'Unmatched transfer retrieved' })
+  @ApiResponse({ status: 404, description: 'Unmatched transfer not found' })
+  async getUnmatchedTransaction(@Param('id') id: string) {
+    const unmatched = await this.unmatchedTransactionsService.findOne(id);
+
+    return {
+      success: true,
+      data: unmatched,
+    };
+  }
+
+  /**
+   * ✅ Resolve an unmatched bank transfer (Admin/Staff)
+   */
+  @Post('admin/unmatched-transactions/:id/resolve')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Resolve an unmatched bank transfer (Admin/Staff)',
+    description:
+      'LINK_PAYMENT applies the transfer to a payment, CREDIT_WALLET credits a user wallet, BANK_REFUND marks it for manual bank refund',
+  })
+  @ApiBody({ type: ResolveUnmatchedTransactionDto })
+  @ApiResponse({ status: 200, description: 'Unmatched transfer resolved' })
+  @ApiResponse({ status: 400, description: 'Transfer already resolved' })
+  async resolveUnmatchedTransaction(
+    @Param('id') id: string,
+    @Body() dto: ResolveUnmatchedTransactionDto,
+    @Req() req,
+  ) {
+    const unmatched = await this.unmatchedTransactionsService.resolve(
+      id,
+      req.user.userId,
+      dto,
+    );
+
+    return {
+      success: true,
+      message: 'Unmatched transfer resolved',
+      data: unmatched,
+    };
+  }
+
+  /**
+   * 📊 List daily reconciliation reports (Admin only)
+   */
+  @Get('admin/reconciliation-reports')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List daily reconciliation reports (Admin only)' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({ status: 200, description: 'Reports retrieved' })
+  async getReconciliationReports(
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 30,
+  ) {
+    const result = await this.paymentReconciliationService.findReports(
+      Number(page),
+      Number(limit),
+    );
+
+    return {
+      success: true,
+      ...result,
+    };
+  }
+
+  /**
+   * 🔄 Generate (or regenerate) the reconciliation report of a day (Admin only)
+   */
+  @Post('admin/reconciliation-reports')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Generate reconciliation report for a day (Admin only)',
+    description: 'Signed-off reports cannot be regenerated',
+  })
+  @ApiBody({ type: GenerateReconciliationReportDto })
+  @ApiResponse({ status: 200, description: 'Report generated' })
+  @ApiResponse({ status: 400, description: 'Report already signed off' })
+  async generateReconciliationReport(
+    @Body() dto: GenerateReconciliationReportDto,
+  ) {
+    const report = await this.paymentReconciliationService.generateReport(
+      dto.date,
+    );
+
+    return {
+      success: true,
+      message: 'Reconciliation report generated',
+      data: report,
+    };
+  }
+
+  /**
+   * 📊 Reconciliation report detail (Admin only)
+   */
+  @Get('admin/reconciliation-reports/:date')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get reconciliation report by date (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Report retrieved' })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  async getReconciliationReport(@Param('date') date: string) {
+    const report = await this.paymentReconciliationService.findByDate(date);
+
+    return {
+      success: true,
+      data: report,
+    };
+  }
+
+  /**
+   * 📥 Download reconciliation discrepancies as CSV (Admin only)
+   */
+  @Get('admin/reconciliation-reports/:date/csv')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Download reconciliation report as CSV' })
+  @ApiResponse({ status: 200, description: 'CSV file' })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  async downloadReconciliationReport(
+    @Param('date') date: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const csv = await this.paymentReconciliationService.exportCsv(date);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="reconciliation-${date}.csv"`,
+    );
+    return csv;
+  }
+
+  /**
+   * ✍️ Finance sign-off of a reconciliation report (Admin only)
+   */
+  @Post('admin/reconciliation-reports/:date/sign-off')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Sign off a reconciliation report (Admin only)' })
+  @ApiBody({ type: SignOffReconciliationReportDto })
+  @ApiResponse({ status: 200, description: 'Report signed off' })
+  @ApiResponse({ status: 400, description: 'Report already signed off' })
+  async signOffReconciliationReport(
+    @Param('date') date: string,
+    @Body() dto: SignOffReconciliationReportDto,
+    @Req() req,
+  ) {
+    const report = await this.paymentReconciliationService.signOff(
+      date,
+      req.user.userId,
+      dto.note,
+    );
+
+    return {
+      success: true,
+      message: 'Reconciliation report signed off',
+      data: report,
+    };
+  }
+
+  /**
+   * 💸 Request a refund for any payment (Admin/Staff)
+   */
+  @Post('admin/refunds')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Refund a payment fully or partially (Admin/Staff)',
+    description:
+      'Amounts above REFUND_APPROVAL_THRESHOLD wait for admin approval. Omit amount to refund everything still refundable',
+  })
+  @ApiBody({ type: CreateRefundDto })
+  @ApiResponse({ status: 201, description: 'Refund created' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Payment not refundable or amount exceeds refundable remaining',
+  })
+  async createRefund(@Body() dto: CreateRefundDto, @Req() req) {
+    const payment = await this.paymentsService.findByCode(dto.paymentCode);
+    const refund = await this.refundsService.createRefund({
+      paymentId: payment.paymentId,
+      amount: dto.amount,
+      destination: dto.destination,
+      reason: dto.reason,
+      requestedBy: req.user.userId,
+      bankName: dto.bankName,
+      bankAccountNumber: dto.bankAccountNumber,
+      bankAccountName: dto.bankAccountName,
+    });
+
+    return {
+      success: true,
+      message:
+        refund.status === RefundStatus.PENDING_APPROVAL
+          ? 'Refund is waiting for admin approval'
+          : 'Refund processed',
+      data: refund,
+    };
+  }
+
+  /**
+   * 📋 List refunds (Admin/Staff)
+   */
+  @Get('admin/refunds')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List refunds (Admin/Staff)' })
+  @ApiQuery({ name: 'page', required: false, type: Number })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiQuery({ name: 'status', required: false, enum: RefundStatus })
+  @ApiResponse({ status: 200, description: 'Refunds retrieved' })
+  async getRefunds(
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 50,
+    @Query('status') status?: RefundStatus,
+  ) {
+    const result = await this.refundsService.findAll(
+      Number(page),
+      Number(limit),
+      status,
+    );
+
+    return {
+      success: true,
+      ...result,
+    };
+  }
+
+  /**
+   * 🧮 Refunds and refundable remaining of a payment (Admin/Staff)
+   */
+  @Get('admin/refunds/payment/:paymentCode')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get refundable remaining of a payment (Admin/Staff)',
+  })
+  @ApiResponse({ status: 200, description: 'Refund summary retrieved' })
+  @ApiResponse({ status: 404, description: 'Payment not found' })
+  async getPaymentRefundSummary(@Param('paymentCode') paymentCode: string) {
+    const payment = await this.paymentsService.findByCode(paymentCode);
+    const summary = await this.refundsService.getPaymentRefundSummary(payment);
+
+    return {
+      success: true,
+      data: summary,
+    };
+  }
+
+  /**
+   * 🔍 Refund detail (Admin/Staff)
+   */
+  @Get('admin/refunds/:id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.STAFF)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get refund (Admin/Staff)' })
+  @ApiResponse({ status: 200, description: 'Refund retrieved' })
+  @ApiResponse({ status: 404, description: 'Refund not found' })
+  async getRefund(@Param('id') id: string) {
+    const refund = await this.refundsService.findOne(id);
+
+    return {
+      success: true,
+      data: refund,
+    };
+  }
+
+  /**
+   * ✅ Approve a refund above the approval threshold (Admin only)
+   */
+  @Post('admin/refunds/:id/approve')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Approve a pending refund (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Refund approved and processed' })
+  @ApiResponse({ status: 400, description: 'Refund is not pending approval' })
+  async approveRefund(@Param('id') id: string, @Req() req) {
+    const refund = await this.refundsService.approve(id, req.user.userId);
+
+    return {
+      success: true,
+      message: 'Refund approved',
+      data: refund,
+    };
+  }
+
+  /**
+   * ❌ Reject a refund above the approval threshold (Admin only)
+   */
+  @Post('admin/refunds/:id/reject')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Reject a pending refund (Admin only)' })
+  @ApiBody({ type: RejectRefundDto })
+  @ApiResponse({ status: 200, description: 'Refund rejected' })
+  @ApiResponse({ status: 400, description: 'Refund is not pending approval' })
+  async rejectRefund(
+    @Param('id') id: string,
+    @Body() dto: RejectRefundDto,
+    @Req() req,
+  ) {
+    const refund = await this.refundsService.reject(
+      id,
+      req.user.userId,
+      dto.reason,
+    );
+
+    return {
+      success: true,
+      message: 'Refund rejected',
+      data: refund,
+    };
+  }
+
+  /**
+   * 🏦 Confirm the manual bank transfer of a refund (Admin only)
+   */
+  @Post('admin/refunds/:id/complete')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Mark a bank refund as transferred (Admin only)',
+  })
+  @ApiBody({ type: CompleteRefundDto })
+  @ApiResponse({ status: 200, description: 'Bank refund completed' })
+  @ApiResponse({
+    status: 400,
+    description: 'Refund is not a processing bank refund',
+  })
+  async completeRefund(
+    @Param('id') id: string,
+    @Body() dto: CompleteRefundDto,
+    @Req() req,
+  ) {
+    const refund = await this.refundsService.completeBankRefund(
+      id,
+      req.user.userId,
+      dto.bankReference,
+    );
+
+    return {
+      success: true,
+      message: 'Bank refund completed',
+      data: refund,
+    };
   }
 
   /**
@@ -79,6 +578,7 @@ export class PaymentsController {
   @Post()
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
+  @Idempotent()
   @ApiOperation({
     summary: 'Create payment (order or topup)',
     description: 'Create payment for order or balance topup',
@@ -99,13 +599,10 @@ export class PaymentsController {
         amount: payment.amount,
         paymentMethod: payment.paymentMethod,
         expiredAt: payment.expiredAt,
-        bankingInfo: {
-          bankName: 'MBBank',
-          accountNumber: '0347178790',
-          accountName: 'CHU PHAN NHAT LONG',
-          transferContent: payment.paymentCode, // Customer PHẢI nhập đúng code này
-          amount: payment.amount,
-          qrCodeUrl: `https://img.vietqr.io/image/MB-0347178790-compact2.png?amount=${payment.amount}&addInfo=${payment.paymentCode}`,
+        qrPayload: payment.paymentIntent?.qrPayload ?? null, // VietQR (EMVCo) - app render trực tiếp
+        bankingInfo: payment.paymentIntent && {
+          ...payment.paymentIntent.bankingInfo, // transferContent: Customer PHẢI nhập đúng code này
+          qrCodeUrl: payment.paymentIntent.qrCodeUrl,
           note:
             payment.paymentType === 'order'
               ? 'Thanh toán đơn hàng - Vui lòng nhập CHÍNH XÁC mã thanh toán vào nội dung chuyển khoản'
@@ -233,21 +730,37 @@ export class PaymentsController {
   }
 
   /**
-   * �💸 Refund payment (TOPUP only)
+   * �💸 Refund the whole remaining amount of a payment
    */
   @Patch(':paymentCode/refund')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN, UserRole.STAFF)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Refund a TOPUP payment (Admin/Staff only)' })
+  @ApiOperation({
+    summary: 'Fully refund a payment (Admin/Staff only)',
+    description:
+      'TOPUP is refunded to the bank, other payments to the customer wallet. Use POST admin/refunds for partial refunds',
+  })
   @ApiResponse({ status: 200, description: 'Payment refunded successfully' })
-  async refundPayment(@Param('paymentCode') paymentCode: string) {
-    const result = await this.paymentsService.refundTopupPayment(paymentCode);
+  async refundPayment(@Param('paymentCode') paymentCode: string, @Req() req) {
+    const payment = await this.paymentsService.findByCode(paymentCode);
+    const refund = await this.refundsService.createRefund({
+      paymentId: payment.paymentId,
+      destination:
+        payment.paymentType === PaymentType.TOPUP
+          ? RefundDestination.BANK
+          : RefundDestination.WALLET,
+      reason: `Full refund of ${payment.paymentCode}`,
+      requestedBy: req.user.userId,
+    });
 
     return {
       success: true,
-      message: 'Payment refunded successfully',
-      data: result,
+      message:
+        refund.status === RefundStatus.PENDING_APPROVAL
+          ? 'Refund is waiting for admin approval'
+          : 'Payment refunded successfully',
+      data: refund,
     };
   }
 
@@ -1,27 +1,70 @@
 import { Module, forwardRef } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Payment } from './entities/payment.entity';
+import { SepayWebhookEvent } from './entities/sepay-webhook-event.entity';
+import { UnmatchedTransaction } from './entities/unmatched-transaction.entity';
+import { PaymentReconciliationReport } from './entities/payment-reconciliation-report.entity';
+import { Refund } from './entities/refund.entity';
 import { OrdersModule } from '../orders/orders.module';
 import { TransactionsModule } from '../transactions/transactions.module';
 import { UsersModule } from '../users/users.module';
 import { CartModule } from '../cart/cart.module';
 import { PaymentsController } from './payments.controller';
 import { PaymentsService } from './payments.service';
+import { SepayWebhookInboxService } from './sepay-webhook-inbox.service';
+import { SepayWebhookGuard } from './guards/sepay-webhook.guard';
+import { UnmatchedTransactionsService } from './unmatched-transactions.service';
+import { PaymentReconciliationService } from './payment-reconciliation.service';
+import { RefundsService } from './refunds.service';
 import { AppointmentsModule } from 'src/appointments/appointments.module';
 import { CustomerSubscriptionModule } from 'src/customer-subscription/customer-subscription.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { PromotionsModule } from '../promotions/promotions.module';
+import { PAYMENT_PROVIDER } from './providers/payment-provider.interface';
+import { SepayPaymentProvider } from './providers/sepay.provider';
+import { MockPaymentProvider } from './providers/mock-payment.provider';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Payment]),
+    TypeOrmModule.forFeature([
+      Payment,
+      SepayWebhookEvent,
+      UnmatchedTransaction,
+      PaymentReconciliationReport,
+      Refund,
+    ]),
     forwardRef(() => OrdersModule),
     TransactionsModule,
     UsersModule,
     forwardRef(() => CartModule), // For clearing cart after payment
     forwardRef(() => AppointmentsModule),
     forwardRef(() => CustomerSubscriptionModule),
+    LedgerModule,
+    NotificationsModule,
+    PromotionsModule,
+    IdempotencyModule,
   ],
   controllers: [PaymentsController],
-  providers: [PaymentsService],
-  exports: [PaymentsService],
+  providers: [
+    PaymentsService,
+    SepayWebhookInboxService,
+    SepayWebhookGuard,
+    UnmatchedTransactionsService,
+    PaymentReconciliationService,
+    RefundsService,
+    {
+      // PAYMENT_PROVIDER=mock để chạy offline khi dev/test
+      provide: PAYMENT_PROVIDER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('PAYMENT_PROVIDER') === 'mock'
+          ? new MockPaymentProvider(configService)
+          : new SepayPaymentProvider(configService),
+    },
+  ],
+  exports: [PaymentsService, RefundsService],
 })
 export class PaymentsModule {}
@@ -9,11 +9,21 @@ import {
   PaymentType,
 } from './entities/payment.entity';
 import { OrdersService } from '../orders/orders.service';
+import { Order, OrderStatus } from '../orders/entities/order.entity';
 import { UsersService } from '../users/users.service';
 import { CartService } from '../cart/cart.service';
 import { AppointmentsService } from '../appointments/appointments.service';
 import { CustomerSubscriptionService } from '../customer-subscription/customer-subscription.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PromotionsService } from '../promotions/promotions.service';
+import { ConfigService } from '@nestjs/config';
 import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import { LedgerTransactionType } from '../ledger/entities/ledger-transaction.entity';
+import { SepayWebhookDto } from './dto/sepay-webhook.dto';
+import { PAYMENT_PROVIDER } from './providers/payment-provider.interface';
+import { SepayPaymentProvider } from './providers/sepay.provider';
 
 describe('PaymentsService', () => {
   let service: PaymentsService;
@@ -39,11 +49,25 @@ describe('PaymentsService', () => {
 
   const mockEntityManager = {
     getRepository: jest.fn(),
+    transaction: jest.fn(),
   };
 
   const mockCartService = {};
   const mockAppointmentsService = {};
   const mockCustomerSubscriptionService = {};
+  const mockLedgerService = {
+    transfer: jest.fn(),
+    post: jest.fn(),
+  };
+  const mockNotificationsService = {
+    notifyPaymentOutstanding: jest.fn(),
+  };
+  const mockConfigService = {
+    get: jest.fn(),
+  };
+  const mockPromotionsService = {
+    release: jest.fn(),
+  };
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -77,6 +101,27 @@ describe('PaymentsService', () => {
           provide: CustomerSubscriptionService,
           useValue: mockCustomerSubscriptionService,
         },
+        {
+          provide: LedgerService,
+          useValue: mockLedgerService,
+        },
+        {
+          provide: NotificationsService,
+          useValue: mockNotificationsService,
+        },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
+        {
+          provide: PromotionsService,
+          useValue: mockPromotionsService,
+        },
+        SepayPaymentProvider,
+        {
+          provide: PAYMENT_PROVIDER,
+          useExisting: SepayPaymentProvider,
+        },
       ],
     }).compile();
 
@@ -283,5 +328,312 @@ describe('PaymentsService', () => {
         }),
       ).rejects.toThrow(NotFoundException);
     });
+
+    // TC-PAY-001-11: Normal - Banking payment returns VietQR intent
+    it('TC-PAY-001-11: should return a VietQR payment intent for banking payments', async () => {
+      mockUsersService.findOne.mockResolvedValue({ userId } as any);
+
+      const result = await service.createPayment({
+        paymentType: PaymentType.TOPUP,
+        userId,
+        amount: 100000,
+        paymentMethod: PaymentMethod.BANKING,
+      });
+
+      expect(result.paymentIntent).toEqual(
+        expect.objectContaining({
+          provider: 'sepay',
+          paymentCode: result.paymentCode,
+          amount: 100000,
+          bankingInfo: expect.objectContaining({
+            bankBin: '970422',
+            accountNumber: '0347178790',
+            transferContent: result.paymentCode,
+          }),
+        }),
+      );
+      expect(result.paymentIntent?.qrPayload).toMatch(/^000201010212/);
+      expect(result.paymentIntent?.qrPayload).toContain('5406100000');
+      expect(result.paymentIntent?.qrCodeUrl).toContain('vietqr.io');
+    });
+
+    // TC-PAY-001-12: Normal - Wallet payment has no transfer intent
+    it('TC-PAY-001-12: should not build a payment intent for wallet payments', async () => {
+      mockUsersService.findOne.mockResolvedValue({ userId } as any);
+
+      const result = await service.createPayment({
+        paymentType: PaymentType.TOPUP,
+        userId,
+        amount: 100000,
+        paymentMethod: PaymentMethod.WALLET,
+      });
+
+      expect(result.paymentIntent).toBeNull();
+    });
+  });
+
+  describe('handleSepayWebhook - partial & overpayment', () => {
+    const webhook = (id: number, amount: number): SepayWebhookDto => ({
+      id,
+      gateway: 'MBBank',
+      transactionDate: '2025-01-01 10:00:00',
+      accountNumber: '0347178790',
+      content: 'SKOABC123456',
+      transferType: 'in',
+      transferAmount: amount,
+      accumulated: 5000000,
+      referenceCode: 'FT123',
+      description: 'SKOABC123456',
+    });
+
+    let payment: Partial<Payment>;
+    const mockTxPaymentRepository = {
+      findOne: jest.fn(),
+      save: jest.fn((entity: Partial<Payment>) => Promise.resolve(entity)),
+    };
+
+    beforeEach(() => {
+      payment = {
+        paymentId: 1,
+        paymentCode: 'SKOABC123456',
+        paymentType: PaymentType.ORDER,
+        amount: 500000,
+        paidAmount: 0,
+        overpaidAmount: 0,
+        status: PaymentStatus.PENDING,
+        userId: 'user-1',
+        orderId: 'order-1',
+        expiredAt: new Date(Date.now() + 5 * 60 * 1000),
+      };
+      mockTxPaymentRepository.findOne.mockImplementation(() =>
+        Promise.resolve(payment),
+      );
+      mockEntityManager.transaction.mockImplementation(
+        (callback: (manager: unknown) => Promise<unknown>) =>
+          callback({ getRepository: () => mockTxPaymentRepository }),
+      );
+      mockNotificationsService.notifyPaymentOutstanding.mockResolvedValue({});
+      mockConfigService.get.mockReturnValue(undefined);
+      mockPaymentRepository.findOne.mockResolvedValue(payment);
+      (mockOrdersService as Record<string, jest.Mock>).update = jest
+        .fn()
+        .mockResolvedValue({});
+      mockOrdersService.findOne.mockResolvedValue({
+        orderId: 'order-1',
+        status: OrderStatus.PENDING,
+      });
+    });
+
+    // TC-PAY-002-01: Normal - Partial transfer is held and customer notified
+    it('TC-PAY-002-01: should hold a partial transfer and notify the outstanding balance', async () => {
+      const result = (await service.handleSepayWebhook(
+        webhook(1001, 200000),
+      )) as Record<string, unknown>;
+
+      expect(payment.status).toBe(PaymentStatus.PENDING);
+      expect(payment.paidAmount).toBe(200000);
+      expect(result.outstandingAmount).toBe(300000);
+      expect(result.qrCodeUrl).toContain('amount=300000');
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: LedgerTransactionType.PARTIAL_PAYMENT,
+          to: { type: LedgerAccountType.PARTIAL_PAYMENTS },
+          amount: 200000,
+        }),
+        expect.anything(),
+      );
+      expect(
+        mockNotificationsService.notifyPaymentOutstanding,
+      ).toHaveBeenCalledWith(
+        'user-1',
+        'SKOABC123456',
+        200000,
+        300000,
+        expect.stringContaining('addInfo=SKOABC123456'),
+        payment.expiredAt,
+      );
+    });
+
+    // TC-PAY-002-02: Normal - Second transfer completes the payment
+    it('TC-PAY-002-02: should complete the payment once transfers add up', async () => {
+      payment.paidAmount = 200000;
+      payment.sepayTransactionId = 1001;
+
+      await service.handleSepayWebhook(webhook(1002, 300000));
+
+      expect(payment.status).toBe(PaymentStatus.COMPLETED);
+      expect(payment.paidAmount).toBe(500000);
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: LedgerTransactionType.PARTIAL_PAYMENT_RELEASE,
+          amount: 200000,
+        }),
+        expect.anything(),
+      );
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: LedgerTransactionType.ORDER_PAYMENT,
+          amount: 500000,
+        }),
+        expect.anything(),
+      );
+    });
+
+    // TC-PAY-002-03: Normal - Surplus is credited to wallet separately
+    it('TC-PAY-002-03: should credit overpayment to the wallet as a separate posting', async () => {
+      await service.handleSepayWebhook(webhook(1003, 650000));
+
+      expect(payment.status).toBe(PaymentStatus.COMPLETED);
+      expect(payment.overpaidAmount).toBe(150000);
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: LedgerTransactionType.ORDER_PAYMENT,
+          amount: 500000,
+        }),
+        expect.anything(),
+      );
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: LedgerTransactionType.OVERPAYMENT_CREDIT,
+          to: { userId: 'user-1' },
+          amount: 150000,
+        }),
+        expect.anything(),
+      );
+    });
+
+    // TC-PAY-002-04: Boundary - Partial payments disabled by config
+    it('TC-PAY-002-04: should fail and refund when partial payments are disabled', async () => {
+      mockConfigService.get.mockImplementation((key: string) =>
+        key === 'PAYMENT_PARTIAL_TYPES' ? 'booking' : undefined,
+      );
+
+      await service.handleSepayWebhook(webhook(1004, 200000));
+
+      expect(payment.status).toBe(PaymentStatus.FAILED);
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: LedgerTransactionType.UNDERPAYMENT_REFUND,
+          amount: 200000,
+        }),
+        expect.anything(),
+      );
+      expect(
+        mockNotificationsService.notifyPaymentOutstanding,
+      ).not.toHaveBeenCalled();
+    });
+
+    // TC-PAY-002-05: Boundary - Redelivered partial transfer is not counted twice
+    it('TC-PAY-002-05: should ignore a transfer that was already applied', async () => {
+      payment.paidAmount = 200000;
+      payment.sepayTransactionId = 1001;
+
+      await service.handleSepayWebhook(webhook(1001, 200000));
+
+      expect(payment.paidAmount).toBe(200000);
+      expect(mockLedgerService.transfer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleSepayWebhook - retry after post-processing failure', () => {
+    const webhook: SepayWebhookDto = {
+      id: 2001,
+      gateway: 'MBBank',
+      transactionDate: '2025-01-01 10:00:00',
+      accountNumber: '0347178790',
+      content: 'SKOABC123456',
+      transferType: 'in',
+      transferAmount: 500000,
+      accumulated: 5000000,
+      referenceCode: 'FT123',
+      description: 'SKOABC123456',
+    };
+
+    let payment: Partial<Payment>;
+    let order: { orderId: string; status: OrderStatus };
+    const mockTxPaymentRepository = {
+      findOne: jest.fn(() => Promise.resolve(payment)),
+      save: jest.fn((entity: Partial<Payment>) => Promise.resolve(entity)),
+    };
+    const mockTxOrderRepository = {
+      findOne: jest.fn(() => Promise.resolve(order)),
+    };
+
+    beforeEach(() => {
+      payment = {
+        paymentId: 1,
+        paymentCode: 'SKOABC123456',
+        paymentType: PaymentType.ORDER,
+        amount: 500000,
+        paidAmount: 500000,
+        overpaidAmount: 0,
+        status: PaymentStatus.COMPLETED,
+        sepayTransactionId: 2001,
+        orderId: 'order-1',
+      };
+      order = { orderId: 'order-1', status: OrderStatus.PENDING };
+      mockEntityManager.transaction.mockImplementation(
+        (callback: (manager: unknown) => Promise<unknown>) =>
+          callback({
+            getRepository: (entity: unknown) =>
+              entity === Order
+                ? mockTxOrderRepository
+                : mockTxPaymentRepository,
+          }),
+      );
+      mockPaymentRepository.findOne.mockResolvedValue(payment);
+      mockOrdersService.findOne.mockImplementation(() =>
+        Promise.resolve(order),
+      );
+      (mockOrdersService as Record<string, jest.Mock>).update = jest
+        .fn()
+        .mockResolvedValue({});
+    });
+
+    // TC-PAY-003-01: Normal - Completed payment whose order was never confirmed
+    it('TC-PAY-003-01: should re-run fulfilment when the payment completed but the order is still pending', async () => {
+      const result = (await service.handleSepayWebhook(webhook)) as Record<
+        string,
+        unknown
+      >;
+
+      expect(result.message).toBe('Order payment processed successfully');
+      expect(
+        (mockOrdersService as Record<string, jest.Mock>).update,
+      ).toHaveBeenCalledWith(
+        'order-1',
+        { status: OrderStatus.CONFIRMED },
+        expect.anything(),
+      );
+      // Tiền đã ghi sổ ở lần trước, không ghi lại
+      expect(mockLedgerService.transfer).not.toHaveBeenCalled();
+      expect(mockTxPaymentRepository.save).not.toHaveBeenCalled();
+    });
+
+    // TC-PAY-003-02: Boundary - Redelivered webhook of a fulfilled payment
+    it('TC-PAY-003-02: should not run fulfilment again once the order is confirmed', async () => {
+      order.status = OrderStatus.CONFIRMED;
+
+      const result = (await service.handleSepayWebhook(webhook)) as Record<
+        string,
+        unknown
+      >;
+
+      expect(result.message).toBe('Payment already completed');
+      expect(
+        (mockOrdersService as Record<string, jest.Mock>).update,
+      ).not.toHaveBeenCalled();
+    });
+
+    // TC-PAY-003-03: Abnormal - Fulfilment fails again, error reaches the inbox
+    it('TC-PAY-003-03: should rethrow when the retried fulfilment fails so the inbox retries later', async () => {
+      (mockOrdersService as Record<string, jest.Mock>).update = jest
+        .fn()
+        .mockRejectedValue(new Error('DB down'));
+
+      await expect(service.handleSepayWebhook(webhook)).rejects.toThrow(
+        'DB down',
+      );
+    });
   });
 });
@@ -19,12 +19,18 @@ import {
 import { SepayWebhookDto } from './dto/sepay-webhook.dto';
 import { CreatePaymentDto } from './dto/create-payment.dto';
 import { OrdersService } from '../orders/orders.service';
-import { OrderStatus } from '../orders/entities/order.entity';
+import {
+  Order,
+  OrderPriceBreakdown,
+  OrderStatus,
+} from '../orders/entities/order.entity';
+import { OrderStatusSource } from '../orders/entities/order-status-history.entity';
 import { UsersService } from '../users/users.service';
 import { CartService } from '../cart/cart.service';
 import { Appointment } from '../appointments/entities/appointment.entity';
 import { AppointmentsService } from '../appointments/appointments.service';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { ConfigService } from '@nestjs/config';
 import {
   AppointmentStatus,
   TerminationReason,
@@ -33,6 +39,31 @@ import { CustomerSubscriptionService } from '../customer-subscription/customer-s
 import { CustomerSubscription } from '../customer-subscription/entities/customer-subscription.entity';
 import { SlotStatus } from '../availability-slots/entities/availability-slot.entity';
 import { WithdrawalRequest, WithdrawalStatus } from '../withdrawals/entities/withdrawal-request.entity';
+import {
+  UnmatchedTransaction,
+  UnmatchedTransactionReason,
+} from './entities/unmatched-transaction.entity';
+import { LedgerService } from '../ledger/ledger.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PromotionsService } from '../promotions/promotions.service';
+import {
+  DEFAULT_PAYMENT_TRANSFER_POLICIES,
+  PARTIAL_PAYMENT_TYPES_ENV,
+  PaymentTransferPolicy,
+  SURPLUS_TO_WALLET_TYPES_ENV,
+} from './payment-transfer-policy';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import { LedgerEntryDirection } from '../ledger/entities/ledger-entry.entity';
+import {
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../ledger/entities/ledger-transaction.entity';
+import {
+  PAYMENT_PROVIDER,
+  PaymentProvider,
+  PaymentWithIntent,
+} from './providers/payment-provider.interface';
+import { extractPaymentCode } from './utils/vietqr.util';
 
 interface PaymentProcessingResult {
   success: boolean;
@@ -46,12 +77,17 @@ interface PaymentProcessingResult {
 @Injectable()
 export class PaymentsService {
   private readonly logger = new Logger(PaymentsService.name);
-  private readonly SUBSCRIPTION_FEE_RATE = 0.2; // 20% fee for subscription
   constructor(
     private readonly entityManager: EntityManager,
     @InjectRepository(Payment)
     private readonly paymentRepository: Repository<Payment>,
     private readonly usersService: UsersService,
+    private readonly ledgerService: LedgerService,
+    private readonly notificationsService: NotificationsService,
+    private readonly configService: ConfigService,
+    private readonly promotionsService: PromotionsService,
+    @Inject(PAYMENT_PROVIDER)
+    private readonly paymentProvider: PaymentProvider,
 
     @Inject(forwardRef(() => CustomerSubscriptionService))
     private readonly customerSubscriptionService: CustomerSubscriptionService,
@@ -65,11 +101,12 @@ export class PaymentsService {
 
   /**
    * Tạo payment mới (cho order, topup, booking...)
+   * Trả kèm paymentIntent (thông tin chuyển khoản + VietQR) từ payment provider
    */
   async createPayment(
     createPaymentDto: CreatePaymentDto,
     manager?: EntityManager,
-  ): Promise<Payment> {
+  ): Promise<PaymentWithIntent> {
     const repository =
       manager?.getRepository(Payment) ?? this.paymentRepository;
 
@@ -185,7 +222,12 @@ export class PaymentsService {
       `💳 Payment created: ${paymentCode} - Type: ${paymentType} - Amount: ${amount}`,
     );
 
-    return savedPayment;
+    return Object.assign(savedPayment, {
+      paymentIntent:
+        savedPayment.paymentMethod === PaymentMethod.WALLET
+          ? null
+          : this.paymentProvider.createIntent(savedPayment),
+    });
   }
 
   /**
@@ -196,21 +238,35 @@ export class PaymentsService {
       `🔔 Received SePay webhook: ${JSON.stringify(webhookData)}`,
     );
 
+    const callback = this.paymentProvider.parseCallback(webhookData);
+
     // Chỉ xử lý giao dịch tiền VÀO
-    if (webhookData.transferType !== 'in') {
+    if (!callback.incoming) {
       this.logger.warn(
         `⚠️ Ignored transaction type: ${webhookData.transferType}`,
       );
       return { success: false, message: 'Only process incoming transactions' };
     }
 
-    // Extract payment code từ nội dung chuyển khoản
-    const paymentCode = this.extractPaymentCode(webhookData.content);
+    // Payment code lấy từ nội dung chuyển khoản
+    const paymentCode = callback.paymentCode;
     if (!paymentCode) {
       this.logger.warn(
         `⚠️ No payment code found in content: ${webhookData.content}`,
       );
-      return { success: false, message: 'Payment code not found' };
+      const unmatched = await this.entityManager.transaction((manager) =>
+        this.recordUnmatchedTransfer(
+          webhookData,
+          UnmatchedTransactionReason.NO_PAYMENT_CODE,
+          null,
+          manager,
+        ),
+      );
+      return {
+        success: false,
+        message: 'Payment code not found. Transfer queued for reconciliation',
+        unmatchedTransactionId: unmatched.unmatchedTransactionId,
+      };
     }
 
     let responsePayload: PaymentProcessingResult | undefined;
@@ -229,10 +285,17 @@ export class PaymentsService {
 
       if (!payment) {
         this.logger.error(`❌ Payment not found in database: ${paymentCode}`);
+        const unmatched = await this.recordUnmatchedTransfer(
+          webhookData,
+          UnmatchedTransactionReason.PAYMENT_NOT_FOUND,
+          paymentCode,
+          manager,
+        );
         responsePayload = {
           success: false,
-          message: 'Payment not found',
+          message: 'Payment not found. Transfer queued for reconciliation',
           paymentCode,
+          unmatchedTransactionId: unmatched.unmatchedTransactionId,
         };
         return;
       }
@@ -243,6 +306,25 @@ export class PaymentsService {
           success: true,
           message: 'Payment already completed',
         };
+        // Lần trước đã commit COMPLETED nhưng xử lý sau commit lỗi → chạy lại
+        if (!(await this.isFulfilled(payment, manager))) {
+          this.logger.warn(
+            `⚠️ Payment ${paymentCode} is completed but not fulfilled. Retrying fulfilment...`,
+          );
+          processedPaymentInfo = {
+            paymentId: payment.paymentId,
+            paymentCode: payment.paymentCode,
+          };
+          const fulfil = this.fulfilment(
+            payment,
+            Number(payment.paidAmount) - Number(payment.overpaidAmount || 0),
+          );
+          if (fulfil) {
+            postProcess = async () => {
+              responsePayload = await fulfil();
+            };
+          }
+        }
         return;
       }
 
@@ -257,24 +339,42 @@ export class PaymentsService {
       // Nếu payment đã FAILED trước đó (ví dụ do underpayment lần 1),
       // mà khách lại chuyển thêm tiền -> Vẫn hoàn về ví (Logic Fallback an toàn nhất)
       if (payment.status === PaymentStatus.FAILED) {
-        const refundAmount = webhookData.transferAmount;
-        if (payment.user) {
-          await this.usersService.updateBalance(
-            payment.user.userId,
-            refundAmount,
-            manager,
-          );
-        }
+        await this.refundBankTransferToWallet(
+          payment,
+          webhookData.transferAmount,
+          manager,
+        );
         responsePayload = {
           success: true,
           message: 'Payment was FAILED. New transfer refunded to Wallet.',
         };
         return;
       }
-      const amountReceived = webhookData.transferAmount;
+      // Webhook này đã được ghi nhận (retry sau khi transaction đã commit)
+      if (Number(payment.sepayTransactionId) === callback.transactionId) {
+        this.logger.warn(
+          `⚠️ Transfer #${callback.transactionId} already applied to ${paymentCode}`,
+        );
+        responsePayload = {
+          success: true,
+          message: 'Transfer already applied',
+          paymentCode,
+        };
+        return;
+      }
+
+      const amountReceived = callback.amount;
       const amountExpected = Number(payment.amount);
+      const policy = this.getTransferPolicy(payment.paymentType);
+
+      // Chỉ payment đang PENDING mới còn tiền chuyển thiếu đang tạm giữ
+      const previouslyPaid =
+        payment.status === PaymentStatus.PENDING
+          ? Number(payment.paidAmount) || 0
+          : 0;
+      const totalPaid = previouslyPaid + amountReceived;
 
-      this.applyWebhookAudit(payment, webhookData, amountReceived);
+      this.applyWebhookAudit(payment, webhookData, totalPaid);
 
       // if (amountReceived < amountExpected) {
       //   this.logger.warn(
@@ -290,25 +390,67 @@ export class PaymentsService {
       //   return;
       // }
 
-      if (amountReceived < amountExpected) {
+      if (
+        totalPaid < amountExpected &&
+        policy.allowPartialPayments &&
+        payment.status === PaymentStatus.PENDING
+      ) {
+        const outstandingAmount = amountExpected - totalPaid;
+        this.logger.warn(
+          `⚠️ Partial payment for ${paymentCode}. Paid: ${totalPaid}/${amountExpected}, outstanding: ${outstandingAmount}`,
+        );
+
+        await this.holdPartialPayment(payment, amountReceived, manager);
+        await paymentRepo.save(payment);
+
+        const { qrCodeUrl, qrPayload } = this.paymentProvider.createIntent(
+          payment,
+          outstandingAmount,
+        );
+        const notifyUserId = payment.userId ?? payment.customerId;
+        if (notifyUserId) {
+          // Thông báo là phụ: lỗi gửi không được làm webhook retry (sẽ cộng dồn 2 lần)
+          postProcess = async () => {
+            await this.notificationsService
+              .notifyPaymentOutstanding(
+                notifyUserId,
+                paymentCode,
+                totalPaid,
+                outstandingAmount,
+                qrCodeUrl,
+                payment.expiredAt ?? null,
+              )
+              .catch((error: Error) =>
+                this.logger.warn(
+                  `⚠️ Failed to notify outstanding balance for ${paymentCode}: ${error.message}`,
+                ),
+              );
+          };
+        }
+
+        responsePayload = {
+          success: true,
+          message: 'Partial payment received. Waiting for the remaining amount',
+          paymentCode,
+          expected: amountExpected,
+          paidAmount: totalPaid,
+          outstandingAmount,
+          qrCodeUrl,
+          qrPayload,
+          expiredAt: payment.expiredAt,
+        };
+        return;
+      }
+
+      if (totalPaid < amountExpected) {
         this.logger.warn(
-          `⚠️ Underpayment detected. Expected: ${amountExpected}, Received: ${amountReceived}. Triggering Wallet Refund.`,
+          `⚠️ Underpayment detected. Expected: ${amountExpected}, Received: ${totalPaid}. Triggering Wallet Refund.`,
         );
 
         // (WALLET FALLBACK)
-        if (payment.user) {
-          await this.usersService.updateBalance(
-            payment.user.userId,
-            amountReceived,
-            manager,
-          );
-          this.logger.log(
-            `💰 Refunded ${amountReceived} to User ${payment.user.userId} wallet due to underpayment.`,
-          );
-        } else {
-          this.logger.error(
-            `[CRITICAL] Cannot refund underpayment: User not found for Payment ${paymentCode}`,
-          );
+        await this.refundBankTransferToWallet(payment, amountReceived, manager);
+        if (previouslyPaid > 0) {
+          await this.refundPartialPayment(payment, previouslyPaid, manager);
         }
 
         payment.status = PaymentStatus.FAILED;
@@ -323,7 +465,7 @@ export class PaymentsService {
             payment.appointment.appointmentId,
             manager,
             TerminationReason.PAYMENT_FAILED,
-            `Underpayment: Received ${amountReceived}/${amountExpected}`,
+            `Underpayment: Received ${totalPaid}/${amountExpected}`,
           );
         }
 
@@ -332,7 +474,7 @@ export class PaymentsService {
           message:
             'Underpayment handled: Refunded to Wallet & Booking Cancelled',
           expected: amountExpected,
-          received: amountReceived,
+          received: totalPaid,
         };
         return;
       }
@@ -369,10 +511,25 @@ export class PaymentsService {
         );
       }
       // (Dù status là PENDING hay EXPIRED, giờ nó cũng sẽ là COMPLETED)
+      // Tiền thừa cộng vào ví thành một bút toán riêng (nếu policy cho phép)
+      const surplus = policy.creditSurplusToWallet
+        ? totalPaid - amountExpected
+        : 0;
+      const amountApplied = totalPaid - surplus;
+
       payment.status = PaymentStatus.COMPLETED;
       payment.paidAt = new Date();
+      payment.overpaidAmount = surplus;
       await paymentRepo.save(payment);
 
+      if (previouslyPaid > 0) {
+        await this.releasePartialPayment(payment, previouslyPaid, manager);
+      }
+      await this.postBankReceipt(payment, amountApplied, manager);
+      if (surplus > 0) {
+        await this.creditOverpayment(payment, surplus, manager);
+      }
+
       processedPaymentInfo = {
         paymentId: payment.paymentId,
         paymentCode: payment.paymentCode,
@@ -382,47 +539,19 @@ export class PaymentsService {
         `✅ Payment completed: ${paymentCode} - Type: ${payment.paymentType}`,
       );
 
-      switch (payment.paymentType) {
-        case PaymentType.ORDER:
-          postProcess = async () => {
-            responsePayload = await this.processOrderPaymentAfterCommit(
-              payment.paymentId,
-              amountReceived,
-            );
-          };
-          break;
-        case PaymentType.TOPUP:
-          postProcess = async () => {
-            responsePayload = await this.processTopupPaymentAfterCommit(
-              payment.paymentId,
-              amountReceived,
-            );
-          };
-          break;
-        case PaymentType.SUBSCRIPTION:
-          postProcess = async () => {
-            responsePayload = await this.processSubscriptionPaymentAfterCommit(
-              payment.paymentId,
-              amountReceived,
-            );
-          };
-          break;
-        case PaymentType.BOOKING:
-          postProcess = async () => {
-            responsePayload = await this.processBookingPaymentAfterCommit(
-              payment.paymentId,
-              amountReceived,
-            );
-          };
-          break;
-        default:
-          responsePayload = {
-            success: true,
-            message: 'Payment processed successfully',
-            paymentType: payment.paymentType,
-            paymentCode,
-            amount: amountReceived,
-          };
+      const fulfil = this.fulfilment(payment, amountApplied);
+      if (fulfil) {
+        postProcess = async () => {
+          responsePayload = await fulfil();
+        };
+      } else {
+        responsePayload = {
+          success: true,
+          message: 'Payment processed successfully',
+          paymentType: payment.paymentType,
+          paymentCode,
+          amount: amountApplied,
+        };
       }
     });
 
@@ -451,12 +580,382 @@ export class PaymentsService {
     );
   }
 
+  /**
+   * Ghi sổ cái cho tiền chuyển khoản đã nhận khi payment COMPLETED.
+   * SUBSCRIPTION được ghi trong activateSubscription (cần biết bác sĩ để chia tiền).
+   */
+  private async postBankReceipt(
+    payment: Payment,
+    amountReceived: number,
+    manager: EntityManager,
+  ): Promise<void> {
+    const bank = { type: LedgerAccountType.PLATFORM_BANK };
+    const reference = {
+      referenceType: LedgerReferenceType.PAYMENT,
+      referenceId: payment.paymentId,
+    };
+
+    switch (payment.paymentType) {
+      case PaymentType.TOPUP:
+        if (!payment.userId) return;
+        await this.ledgerService.transfer(
+          {
+            type: LedgerTransactionType.TOPUP,
+            description: `Topup via bank transfer ${payment.paymentCode}`,
+            from: bank,
+            to: { userId: payment.userId },
+            amount: amountReceived,
+            ...reference,
+          },
+          manager,
+        );
+        break;
+
+      case PaymentType.ORDER:
+        await this.ledgerService.transfer(
+          {
+            type: LedgerTransactionType.ORDER_PAYMENT,
+            description: `Order payment via bank transfer ${payment.paymentCode}`,
+            from: bank,
+            to: { type: LedgerAccountType.PLATFORM_SALES },
+            amount: amountReceived,
+            ...reference,
+          },
+          manager,
+        );
+        break;
+
+      case PaymentType.BOOKING: {
+        // Escrow holds exactly the booking price; any surplus is retained as platform fee
+        const bookingAmount = Math.min(Number(payment.amount), amountReceived);
+        const surplus = amountReceived - bookingAmount;
+        await this.ledgerService.post(
+          {
+            type: LedgerTransactionType.BOOKING_PAYMENT,
+            description: `Booking payment via bank transfer ${payment.paymentCode}`,
+            ...reference,
+            lines: [
+              {
+                account: bank,
+                direction: LedgerEntryDirection.DEBIT,
+                amount: amountReceived,
+              },
+              {
+                account: { type: LedgerAccountType.BOOKING_ESCROW },
+                direction: LedgerEntryDirection.CREDIT,
+                amount: bookingAmount,
+              },
+              {
+                account: { type: LedgerAccountType.PLATFORM_FEES },
+                direction: LedgerEntryDirection.CREDIT,
+                amount: surplus,
+              },
+            ],
+          },
+          manager,
+        );
+        break;
+      }
+    }
+  }
+
+  /**
+   * Lưu chuyển khoản không khớp payment vào hàng đợi đối soát
+   * và tạm giữ tiền ở UNMATCHED_TRANSFERS.
+   */
+  private async recordUnmatchedTransfer(
+    webhookData: SepayWebhookDto,
+    reason: UnmatchedTransactionReason,
+    extractedPaymentCode: string | null,
+    manager: EntityManager,
+  ): Promise<UnmatchedTransaction> {
+    const unmatchedRepo = manager.getRepository(UnmatchedTransaction);
+
+    const existing = await unmatchedRepo.findOne({
+      where: { sepayTransactionId: webhookData.id },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    const unmatched = await unmatchedRepo.save(
+      unmatchedRepo.create({
+        sepayTransactionId: webhookData.id,
+        amount: webhookData.transferAmount,
+        content: webhookData.content,
+        gateway: webhookData.gateway ?? null,
+        accountNumber: webhookData.accountNumber ?? null,
+        referenceCode: webhookData.referenceCode ?? null,
+        transactionDate: webhookData.transactionDate ?? null,
+        extractedPaymentCode,
+        reason,
+      }),
+    );
+
+    await this.ledgerService.transfer(
+      {
+        type: LedgerTransactionType.UNMATCHED_TRANSFER,
+        description:
+          `Unmatched bank transfer #${webhookData.id}: ${webhookData.content}`.slice(
+            0,
+            255,
+          ),
+        from: { type: LedgerAccountType.PLATFORM_BANK },
+        to: { type: LedgerAccountType.UNMATCHED_TRANSFERS },
+        amount: webhookData.transferAmount,
+        referenceType: LedgerReferenceType.UNMATCHED_TRANSACTION,
+        referenceId: unmatched.unmatchedTransactionId,
+      },
+      manager,
+    );
+
+    this.logger.warn(
+      `📥 Unmatched transfer #${webhookData.id} (${webhookData.transferAmount} VND) queued for reconciliation`,
+    );
+
+    return unmatched;
+  }
+
+  /**
+   * Hoàn tiền chuyển khoản không dùng được (thiếu tiền / payment đã FAILED) về ví.
+   * Nếu không xác định được user, tiền được giữ ở PENDING_REFUNDS chờ xử lý thủ công.
+   */
+  private async refundBankTransferToWallet(
+    payment: Payment,
+    amount: number,
+    manager: EntityManager,
+  ): Promise<void> {
+    const userId = payment.user?.userId ?? payment.userId;
+
+    if (!userId) {
+      this.logger.error(
+        `[CRITICAL] Cannot refund underpayment: User not found for Payment ${payment.paymentCode}`,
+      );
+    }
+
+    await this.ledgerService.transfer(
+      {
+        type: LedgerTransactionType.UNDERPAYMENT_REFUND,
+        description: userId
+          ? `Refund of unusable bank transfer for ${payment.paymentCode}`
+          : `Unusable bank transfer for ${payment.paymentCode} held for manual refund`,
+        from: { type: LedgerAccountType.PLATFORM_BANK },
+        to: userId ? { userId } : { type: LedgerAccountType.PENDING_REFUNDS },
+        amount,
+        referenceType: LedgerReferenceType.PAYMENT,
+        referenceId: payment.paymentId,
+      },
+      manager,
+    );
+
+    if (userId) {
+      this.logger.log(
+        `💰 Refunded ${amount} to User ${userId} wallet for Payment ${payment.paymentCode}.`,
+      );
+    }
+  }
+
+  /**
+   * Tạm giữ tiền chuyển thiếu ở PARTIAL_PAYMENTS cho tới khi khách chuyển đủ.
+   */
+  private async holdPartialPayment(
+    payment: Payment,
+    amount: number,
+    manager: EntityManager,
+  ): Promise<void> {
+    await this.ledgerService.transfer(
+      {
+        type: LedgerTransactionType.PARTIAL_PAYMENT,
+        description: `Partial bank transfer held for ${payment.paymentCode}`,
+        from: { type: LedgerAccountType.PLATFORM_BANK },
+        to: { type: LedgerAccountType.PARTIAL_PAYMENTS },
+        amount,
+        referenceType: LedgerReferenceType.PAYMENT,
+        referenceId: payment.paymentId,
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Đủ tiền: trả tiền tạm giữ về PLATFORM_BANK để postBankReceipt ghi nhận toàn bộ.
+   */
+  private async releasePartialPayment(
+    payment: Payment,
+    amount: number,
+    manager: EntityManager,
+  ): Promise<void> {
+    await this.ledgerService.transfer(
+      {
+        type: LedgerTransactionType.PARTIAL_PAYMENT_RELEASE,
+        description: `Partial transfers released for ${payment.paymentCode}`,
+        from: { type: LedgerAccountType.PARTIAL_PAYMENTS },
+        to: { type: LedgerAccountType.PLATFORM_BANK },
+        amount,
+        referenceType: LedgerReferenceType.PAYMENT,
+        referenceId: payment.paymentId,
+      },
+      manager,
+    );
+  }
+
+  /**
+   * Payment hết hạn / thất bại khi chưa đủ tiền: hoàn tiền tạm giữ về ví.
+   */
+  private async refundPartialPayment(
+    payment: Payment,
+    amount: number,
+    manager: EntityManager,
+  ): Promise<void> {
+    const userId = payment.user?.userId ?? payment.userId;
+
+    await this.ledgerService.transfer(
+      {
+        type: LedgerTransactionType.PARTIAL_PAYMENT_REFUND,
+        description: userId
+          ? `Refund of partial transfers for ${payment.paymentCode}`
+          : `Partial transfers for ${payment.paymentCode} held for manual refund`,
+        from: { type: LedgerAccountType.PARTIAL_PAYMENTS },
+        to: userId ? { userId } : { type: LedgerAccountType.PENDING_REFUNDS },
+        amount,
+        referenceType: LedgerReferenceType.PAYMENT,
+        referenceId: payment.paymentId,
+      },
+      manager,
+    );
+
+    this.logger.log(
+      `💰 Refunded partial transfers ${amount} for Payment ${payment.paymentCode}`,
+    );
+  }
+
+  /**
+   * Tiền chuyển thừa cộng vào ví khách (bút toán riêng với khoản thanh toán).
+   */
+  private async creditOverpayment(
+    payment: Payment,
+    surplus: number,
+    manager: EntityManager,
+  ): Promise<void> {
+    const userId = payment.user?.userId ?? payment.userId;
+
+    await this.ledgerService.transfer(
+      {
+        type: LedgerTransactionType.OVERPAYMENT_CREDIT,
+        description: userId
+          ? `Overpayment on ${payment.paymentCode} credited to wallet`
+          : `Overpayment on ${payment.paymentCode} held for manual refund`,
+        from: { type: LedgerAccountType.PLATFORM_BANK },
+        to: userId ? { userId } : { type: LedgerAccountType.PENDING_REFUNDS },
+        amount: surplus,
+        referenceType: LedgerReferenceType.PAYMENT,
+        referenceId: payment.paymentId,
+      },
+      manager,
+    );
+
+    this.logger.log(
+      `💰 Overpayment ${surplus} on ${payment.paymentCode} credited to ${userId ?? 'PENDING_REFUNDS'}`,
+    );
+  }
+
+  private getTransferPolicy(paymentType: PaymentType): PaymentTransferPolicy {
+    const policy = { ...DEFAULT_PAYMENT_TRANSFER_POLICIES[paymentType] };
+
+    const partialTypes = this.configService.get<string>(
+      PARTIAL_PAYMENT_TYPES_ENV,
+    );
+    if (partialTypes !== undefined) {
+      policy.allowPartialPayments =
+        this.parseTypeList(partialTypes).includes(paymentType);
+    }
+
+    const surplusTypes = this.configService.get<string>(
+      SURPLUS_TO_WALLET_TYPES_ENV,
+    );
+    if (surplusTypes !== undefined) {
+      policy.creditSurplusToWallet =
+        this.parseTypeList(surplusTypes).includes(paymentType);
+    }
+
+    return policy;
+  }
+
+  private parseTypeList(value: string): string[] {
+    return value
+      .split(',')
+      .map((type) => type.trim().toLowerCase())
+      .filter(Boolean);
+  }
+
+  /**
+   * Việc cần làm sau khi payment COMPLETED (tạo đơn, xác nhận lịch, kích hoạt gói...).
+   * Chạy sau commit và phải chạy lại được khi webhook retry.
+   */
+  private fulfilment(
+    payment: Payment,
+    amountApplied: number,
+  ): (() => Promise<PaymentProcessingResult>) | undefined {
+    switch (payment.paymentType) {
+      case PaymentType.ORDER:
+        return () =>
+          this.processOrderPaymentAfterCommit(payment.paymentId, amountApplied);
+      case PaymentType.TOPUP:
+        return () =>
+          this.processTopupPaymentAfterCommit(payment.paymentId, amountApplied);
+      case PaymentType.SUBSCRIPTION:
+        return () =>
+          this.processSubscriptionPaymentAfterCommit(
+            payment.paymentId,
+            amountApplied,
+          );
+      case PaymentType.BOOKING:
+        return () =>
+          this.processBookingPaymentAfterCommit(
+            payment.paymentId,
+            amountApplied,
+          );
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Payment COMPLETED đã có kết quả tương ứng chưa (đơn hàng, lịch hẹn, gói).
+   * Topup được cộng ví cùng transaction với COMPLETED nên luôn xong.
+   */
+  private async isFulfilled(
+    payment: Payment,
+    manager: EntityManager,
+  ): Promise<boolean> {
+    switch (payment.paymentType) {
+      case PaymentType.ORDER: {
+        if (!payment.orderId) return false;
+        const order = await manager
+          .getRepository(Order)
+          .findOne({ where: { orderId: payment.orderId } });
+        return !!order && order.status !== OrderStatus.PENDING;
+      }
+      case PaymentType.BOOKING:
+        return (
+          payment.appointment?.appointmentStatus !==
+          AppointmentStatus.PENDING_PAYMENT
+        );
+      case PaymentType.SUBSCRIPTION:
+        return manager.getRepository(CustomerSubscription).exists({
+          where: { payment: { paymentId: payment.paymentId } },
+        });
+      default:
+        return true;
+    }
+  }
+
   private applyWebhookAudit(
     payment: Payment,
     webhookData: SepayWebhookDto,
-    amountReceived: number,
+    paidAmount: number,
   ): void {
-    payment.paidAmount = amountReceived;
+    payment.paidAmount = paidAmount;
     payment.sepayTransactionId = webhookData.id;
     payment.gateway = webhookData.gateway;
     payment.accountNumber = webhookData.accountNumber;
@@ -566,6 +1065,20 @@ export class PaymentsService {
         throw new BadRequestException('PlanID is missing from payment planId');
       }
 
+      const existing = await manager
+        .getRepository(CustomerSubscription)
+        .findOne({ where: { payment: { paymentId } } });
+      if (existing) {
+        return {
+          success: true,
+          message: 'Subscription already activated',
+          paymentType: 'subscription',
+          paymentCode: payment.paymentCode,
+          customerSubscriptionId: existing.id,
+          amount: amountReceived,
+        };
+      }
+
       const subscription =
         await this.customerSubscriptionService.activateSubscription(
           payment.customerId,
@@ -575,37 +1088,6 @@ export class PaymentsService {
           manager,
         );
 
-      const fullSubscription = await manager
-        .getRepository(CustomerSubscription)
-        .findOne({
-          where: { id: subscription.id },
-          relations: ['subscriptionPlan.dermatologist.user'],
-        });
-
-      if (!fullSubscription?.subscriptionPlan?.dermatologist?.user) {
-        this.logger.error(
-          `CRITICAL: Cannot credit earning for Subscription ${subscription.id}. Missing dermatologist user data.`,
-        );
-        throw new InternalServerErrorException(
-          'Dermatologist user linkage missing.',
-        );
-      }
-
-      const doctorShare = amountReceived * (1 - this.SUBSCRIPTION_FEE_RATE); // 80%
-      const systemShare = amountReceived - doctorShare; // 20%
-      const dermatologistUserId =
-        fullSubscription.subscriptionPlan.dermatologist.user.userId;
-
-      await this.usersService.updateBalance(
-        dermatologistUserId,
-        doctorShare,
-        manager,
-      );
-
-      this.logger.log(
-        `💰 Credited ${doctorShare} to User (Dermatologist) ${dermatologistUserId} for Subscription. System fee: ${systemShare}`,
-      );
-
       return {
         success: true,
         message: 'Subscription payment processed successfully',
@@ -638,6 +1120,28 @@ export class PaymentsService {
 
     let orderId = payment.orderId;
 
+    // Lần chạy trước đã tạo đơn nhưng chưa kịp gắn vào payment
+    if (!orderId) {
+      const existingOrder = await this.entityManager
+        .getRepository(Order)
+        .findOne({ where: { paymentId: payment.paymentId } });
+      if (existingOrder) {
+        payment.orderId = existingOrder.orderId;
+        await this.paymentRepository.save(payment);
+        this.logger.warn(
+          `⚠️ Order #${existingOrder.orderId} already created from payment ${payment.paymentCode}, linked`,
+        );
+        return {
+          success: true,
+          message: 'Order payment processed successfully',
+          paymentType: 'order',
+          paymentCode: payment.paymentCode,
+          amount: amountReceived,
+          orderId: existingOrder.orderId,
+        };
+      }
+    }
+
     if (!orderId && payment.cartData && payment.customerId) {
       try {
         let parsedCart: unknown;
@@ -653,6 +1157,8 @@ export class PaymentsService {
 
         // 🔄 BACKWARD COMPATIBILITY: Handle both array and object formats
         let items: unknown;
+        let priceBreakdown: OrderPriceBreakdown | undefined;
+        let replenishmentId: string | undefined;
 
         if (Array.isArray(parsedCart)) {
           // Legacy format: cartData is directly an array
@@ -661,8 +1167,13 @@ export class PaymentsService {
           );
           items = parsedCart;
         } else if (parsedCart && typeof parsedCart === 'object') {
-          // New format: cartData is {items: [...]}
+          // New format: cartData is {items: [...], priceBreakdown?: {...}}
           items = (parsedCart as { items?: unknown }).items;
+          priceBreakdown = (
+            parsedCart as { priceBreakdown?: OrderPriceBreakdown }
+          ).priceBreakdown;
+          replenishmentId = (parsedCart as { replenishmentId?: string })
+            .replenishmentId;
         } else {
           this.logger.error(
             `❌ Unexpected cartData type for Payment ${payment.paymentId} (code: ${payment.paymentCode}). Type: ${typeof parsedCart}`,
@@ -689,6 +1200,7 @@ export class PaymentsService {
           totalAmount: amountReceived,
           paymentId: payment.paymentId,
           shippingMethod: payment.shippingMethod,
+          priceBreakdown,
         });
 
         payment.orderId = newOrder.orderId;
@@ -697,7 +1209,8 @@ export class PaymentsService {
 
         this.logger.log(`✅ Order created from payment: #${orderId}`);
 
-        if (payment.userId) {
+        // Đơn định kỳ không lấy từ giỏ hàng → giữ nguyên giỏ của khách
+        if (payment.userId && !replenishmentId) {
           try {
             await this.cartService.clearCart(payment.userId);
             this.logger.log(`✅ Cart cleared for user: ${payment.userId}`);
@@ -715,10 +1228,18 @@ export class PaymentsService {
         );
         throw error;
       }
-    } else if (orderId) {
-      await this.ordersService.update(orderId, {
-        status: OrderStatus.CONFIRMED,
-      });
+    } else if (
+      orderId &&
+      (await this.ordersService.findOne(orderId)).status === OrderStatus.PENDING
+    ) {
+      await this.ordersService.update(
+        orderId,
+        { status: OrderStatus.CONFIRMED },
+        {
+          source: OrderStatusSource.SYSTEM,
+          reason: `Payment ${payment.paymentCode} completed`,
+        },
+      );
       this.logger.log(`✅ Order #${orderId} marked as CONFIRMED`);
     }
 
@@ -751,17 +1272,10 @@ export class PaymentsService {
       };
     }
 
+    // Wallet was already credited through the ledger when the payment completed
     const user = await this.usersService.findOne(payment.userId);
-    const oldBalance = Number(user.balance);
-    const newBalance = oldBalance + amountReceived;
-
-    await this.usersService.update(payment.userId, {
-      balance: newBalance,
-    });
-
-    this.logger.log(
-      `✅ Balance updated for user ${payment.userId}: ${oldBalance} → ${newBalance}`,
-    );
+    const newBalance = Number(user.balance);
+    const oldBalance = newBalance - amountReceived;
 
     return {
       success: true,
@@ -848,10 +1362,8 @@ export class PaymentsService {
    * Extract payment code từ nội dung chuyển khoản
    * Tìm pattern: SKO hoặc SKT + ký tự
    */
-  private extractPaymentCode(content: string): string | null {
-    // Match SKO hoặc SKT followed by alphanumeric
-    const match = content.match(/SK[OTBS][A-Z0-9]+/i);
-    return match ? match[0].toUpperCase() : null;
+  extractPaymentCode(content: string): string | null {
+    return extractPaymentCode(content);
   }
 
   /**
@@ -865,6 +1377,11 @@ export class PaymentsService {
       status: payment.status,
       amount: payment.amount,
       paidAmount: payment.paidAmount,
+      outstandingAmount:
+        payment.status === PaymentStatus.PENDING
+          ? Math.max(Number(payment.amount) - Number(payment.paidAmount), 0)
+          : 0,
+      overpaidAmount: payment.overpaidAmount,
       paymentMethod: payment.paymentMethod,
       createdAt: payment.createdAt,
       expiredAt: payment.expiredAt,
@@ -966,62 +1483,6 @@ export class PaymentsService {
     };
   }
 
-  /**
-   * Refund TOPUP payment
-   */
-  async refundTopupPayment(paymentCode: string): Promise<Payment> {
-    return this.entityManager.transaction(async (manager) => {
-      const paymentRepo = manager.getRepository(Payment);
-
-      const payment = await paymentRepo.findOne({
-        where: { paymentCode },
-        relations: ['user'],
-      });
-
-      if (!payment) {
-        throw new NotFoundException(
-          `Payment with code ${paymentCode} not found`,
-        );
-      }
-
-      if (payment.paymentType !== PaymentType.TOPUP) {
-        throw new BadRequestException(
-          'Only TOPUP payments can be refunded through this endpoint',
-        );
-      }
-
-      if (payment.status !== PaymentStatus.COMPLETED) {
-        throw new BadRequestException(
-          `Cannot refund payment with status ${payment.status}. Only COMPLETED payments can be refunded.`,
-        );
-      }
-
-      if (!payment.user) {
-        throw new NotFoundException(
-          `User not found for payment ${paymentCode}`,
-        );
-      }
-
-      // Deduct from user wallet
-      const refundAmount = Number(payment.paidAmount);
-      await this.usersService.updateBalance(
-        payment.user.userId,
-        -refundAmount,
-        manager,
-      );
-
-      // Update payment status
-      payment.status = PaymentStatus.REFUNDED;
-      await paymentRepo.save(payment);
-
-      this.logger.log(
-        `💸 Refunded ${refundAmount} from User ${payment.user.userId} wallet for Payment ${paymentCode}`,
-      );
-
-      return payment;
-    });
-  }
-
   @Cron(CronExpression.EVERY_5_MINUTES)
   async cancelExpiredPayments(): Promise<number> {
     const expiredPayments = await this.paymentRepository.find({
@@ -1062,6 +1523,12 @@ export class PaymentsService {
                 //   payment.order.orderId,
                 //   manager,
                 // );
+              } else {
+                // Banking chưa tạo đơn → trả lại lượt dùng voucher / khuyến mãi
+                await this.promotionsService.release(
+                  { paymentId: payment.paymentId },
+                  manager,
+                );
               }
               break;
 
@@ -1088,6 +1555,12 @@ export class PaymentsService {
               break;
           }
 
+          // Hết hạn khi chưa chuyển đủ -> hoàn tiền đang tạm giữ về ví
+          const heldAmount = Number(payment.paidAmount) || 0;
+          if (heldAmount > 0) {
+            await this.refundPartialPayment(payment, heldAmount, manager);
+          }
+
           // Always Update Payment -> EXPIRED
           payment.status = PaymentStatus.EXPIRED;
           await manager.save(payment);
@@ -0,0 +1,67 @@
+import { ConfigService } from '@nestjs/config';
+import { Payment } from '../entities/payment.entity';
+import { PaymentIntent } from './payment-provider.interface';
+import { buildVietQrImageUrl, buildVietQrPayload } from '../utils/vietqr.util';
+
+/**
+ * Tài khoản nhận tiền chuyển khoản
+ */
+export interface ReceivingBankAccount {
+  bankName: string;
+  bankBin: string; // Mã BIN NAPAS, dùng trong payload VietQR
+  bankCode: string; // Mã ngắn cho img.vietqr.io
+  accountNumber: string;
+  accountName: string;
+}
+
+export function loadReceivingBankAccount(
+  configService: ConfigService,
+): ReceivingBankAccount {
+  return {
+    bankName: configService.get<string>('PAYMENT_BANK_NAME') ?? 'MBBank',
+    bankBin: configService.get<string>('PAYMENT_BANK_BIN') ?? '970422',
+    bankCode: configService.get<string>('PAYMENT_BANK_CODE') ?? 'MB',
+    accountNumber:
+      configService.get<string>('PAYMENT_ACCOUNT_NUMBER') ?? '0347178790',
+    accountName:
+      configService.get<string>('PAYMENT_ACCOUNT_NAME') ?? 'CHU PHAN NHAT LONG',
+  };
+}
+
+/**
+ * Thông tin chuyển khoản + VietQR cho payment.
+ * `amount` mặc định là toàn bộ số tiền payment (truyền số còn thiếu khi thanh toán thiếu).
+ */
+export function buildBankTransferIntent(
+  provider: string,
+  account: ReceivingBankAccount,
+  payment: Payment,
+  amount: number = Number(payment.amount),
+): PaymentIntent {
+  return {
+    provider,
+    paymentCode: payment.paymentCode,
+    amount,
+    bankingInfo: {
+      bankName: account.bankName,
+      bankBin: account.bankBin,
+      accountNumber: account.accountNumber,
+      accountName: account.accountName,
+      transferContent: payment.paymentCode,
+      amount,
+    },
+    qrPayload: buildVietQrPayload({
+      bankBin: account.bankBin,
+      accountNumber: account.accountNumber,
+      amount,
+      transferContent: payment.paymentCode,
+    }),
+    qrCodeUrl: buildVietQrImageUrl(
+      account.bankCode,
+      account.accountNumber,
+      account.accountName,
+      amount,
+      payment.paymentCode,
+    ),
+  };
+}
@@ -0,0 +1,66 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Payment } from '../entities/payment.entity';
+import { SepayWebhookDto } from '../dto/sepay-webhook.dto';
+import {
+  PaymentCallback,
+  PaymentIntent,
+  PaymentProvider,
+  PaymentRefundResult,
+  PaymentRefundStatus,
+} from './payment-provider.interface';
+import {
+  buildBankTransferIntent,
+  loadReceivingBankAccount,
+  ReceivingBankAccount,
+} from './bank-transfer-intent';
+import { extractPaymentCode } from '../utils/vietqr.util';
+
+/**
+ * Provider offline cho development/test: không cần API key SePay,
+ * webhook giả lập được gửi thẳng vào `POST /payments/webhook/sepay`
+ * và hoàn tiền luôn thành công. KHÔNG dùng trên production.
+ */
+@Injectable()
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock';
+  private readonly logger = new Logger(MockPaymentProvider.name);
+  private readonly account: ReceivingBankAccount;
+
+  constructor(configService: ConfigService) {
+    if (configService.get<string>('NODE_ENV') === 'production') {
+      throw new Error('Mock payment provider cannot be used in production');
+    }
+    this.account = loadReceivingBankAccount(configService);
+  }
+
+  createIntent(payment: Payment, amount?: number): PaymentIntent {
+    return buildBankTransferIntent(this.name, this.account, payment, amount);
+  }
+
+  parseCallback(payload: unknown): PaymentCallback {
+    const webhookData = payload as SepayWebhookDto;
+    return {
+      transactionId: webhookData.id,
+      paymentCode: extractPaymentCode(webhookData.content),
+      amount: Number(webhookData.transferAmount),
+      incoming: webhookData.transferType === 'in',
+      content: webhookData.content,
+    };
+  }
+
+  verifyCallback(): boolean {
+    return true;
+  }
+
+  refund(payment: Payment, amount: number): Promise<PaymentRefundResult> {
+    this.logger.log(
+      `🧪 Mock refund ${amount} for ${payment.paymentCode} completed`,
+    );
+    return Promise.resolve({
+      status: PaymentRefundStatus.COMPLETED,
+      reference: `MOCK-REFUND-${payment.paymentCode}`,
+      message: 'Refund completed by mock provider',
+    });
+  }
+}
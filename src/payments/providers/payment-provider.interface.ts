@@ -0,0 +1,67 @@
+import { IncomingHttpHeaders } from 'http';
+import { Payment } from '../entities/payment.entity';
+
+/**
+ * Injection token cho provider thanh toán đang được dùng
+ * (chọn qua env PAYMENT_PROVIDER: 'sepay' | 'mock').
+ */
+export const PAYMENT_PROVIDER = 'PAYMENT_PROVIDER';
+
+export interface BankingInfo {
+  bankName: string;
+  bankBin: string;
+  accountNumber: string;
+  accountName: string;
+  transferContent: string; // Customer PHẢI nhập đúng nội dung này
+  amount: number;
+}
+
+/**
+ * Thông tin để khách hàng thực hiện thanh toán
+ */
+export interface PaymentIntent {
+  provider: string;
+  paymentCode: string;
+  amount: number;
+  bankingInfo: BankingInfo;
+  qrPayload: string; // Chuỗi VietQR (EMVCo) để app tự render QR
+  qrCodeUrl: string; // Ảnh QR render sẵn
+}
+
+/**
+ * Callback của provider đã được chuẩn hóa
+ */
+export interface PaymentCallback {
+  transactionId: number;
+  paymentCode: string | null;
+  amount: number;
+  incoming: boolean; // Chỉ xử lý giao dịch tiền VÀO
+  content: string;
+}
+
+export enum PaymentRefundStatus {
+  COMPLETED = 'completed', // Provider đã hoàn tiền
+  MANUAL_REQUIRED = 'manual_required', // Kế toán phải chuyển khoản hoàn tiền thủ công
+}
+
+export interface PaymentRefundResult {
+  status: PaymentRefundStatus;
+  reference: string | null;
+  message: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+
+  createIntent(payment: Payment, amount?: number): PaymentIntent;
+
+  parseCallback(payload: unknown): PaymentCallback;
+
+  verifyCallback(headers: IncomingHttpHeaders): boolean;
+
+  refund(payment: Payment, amount: number): Promise<PaymentRefundResult>;
+}
+
+export type PaymentWithIntent = Payment & {
+  paymentIntent: PaymentIntent | null; // null với thanh toán bằng ví
+};
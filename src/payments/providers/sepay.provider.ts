@@ -0,0 +1,90 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { IncomingHttpHeaders } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { Payment } from '../entities/payment.entity';
+import { SepayWebhookDto } from '../dto/sepay-webhook.dto';
+import {
+  PaymentCallback,
+  PaymentIntent,
+  PaymentProvider,
+  PaymentRefundResult,
+  PaymentRefundStatus,
+} from './payment-provider.interface';
+import {
+  buildBankTransferIntent,
+  loadReceivingBankAccount,
+  ReceivingBankAccount,
+} from './bank-transfer-intent';
+import { extractPaymentCode } from '../utils/vietqr.util';
+
+/**
+ * SePay: khách chuyển khoản vào tài khoản ngân hàng, SePay gọi webhook
+ * khi có biến động số dư. SePay chỉ nhận tiền nên hoàn tiền phải làm thủ công.
+ */
+@Injectable()
+export class SepayPaymentProvider implements PaymentProvider {
+  readonly name = 'sepay';
+  private readonly logger = new Logger(SepayPaymentProvider.name);
+  private readonly account: ReceivingBankAccount;
+
+  constructor(private readonly configService: ConfigService) {
+    this.account = loadReceivingBankAccount(configService);
+  }
+
+  createIntent(payment: Payment, amount?: number): PaymentIntent {
+    return buildBankTransferIntent(this.name, this.account, payment, amount);
+  }
+
+  parseCallback(payload: unknown): PaymentCallback {
+    const webhookData = payload as SepayWebhookDto;
+    return {
+      transactionId: webhookData.id,
+      paymentCode: extractPaymentCode(webhookData.content),
+      amount: Number(webhookData.transferAmount),
+      incoming: webhookData.transferType === 'in',
+      content: webhookData.content,
+    };
+  }
+
+  /**
+   * SePay gửi header `Authorization: Apikey <SEPAY_WEBHOOK_API_KEY>`.
+   */
+  verifyCallback(headers: IncomingHttpHeaders): boolean {
+    const expectedKey = this.configService.get<string>('SEPAY_WEBHOOK_API_KEY');
+    if (!expectedKey) {
+      this.logger.error(
+        '❌ SEPAY_WEBHOOK_API_KEY is not configured. Rejecting webhook.',
+      );
+      return false;
+    }
+
+    const header = headers['authorization'] ?? '';
+    const [scheme, providedKey] = header.trim().split(/\s+/, 2);
+
+    return (
+      scheme?.toLowerCase() === 'apikey' &&
+      !!providedKey &&
+      this.safeEqual(providedKey, expectedKey)
+    );
+  }
+
+  refund(payment: Payment, amount: number): Promise<PaymentRefundResult> {
+    this.logger.warn(
+      `⚠️ SePay cannot send money back. Refund ${amount} for ${payment.paymentCode} must be transferred manually`,
+    );
+    return Promise.resolve({
+      status: PaymentRefundStatus.MANUAL_REQUIRED,
+      reference: null,
+      message: 'Refund must be transferred manually from the bank account',
+    });
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return (
+      bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB)
+    );
+  }
+}
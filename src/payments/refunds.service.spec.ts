@@ -0,0 +1,342 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { RefundsService } from './refunds.service';
+import {
+  Refund,
+  RefundDestination,
+  RefundStatus,
+} from './entities/refund.entity';
+import { Payment, PaymentStatus, PaymentType } from './entities/payment.entity';
+import {
+  PAYMENT_PROVIDER,
+  PaymentRefundStatus,
+} from './providers/payment-provider.interface';
+import { LedgerService } from '../ledger/ledger.service';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import {
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../ledger/entities/ledger-transaction.entity';
+
+describe('RefundsService', () => {
+  let service: RefundsService;
+  let existingRefunds: Partial<Refund>[];
+
+  const orderPayment = (): Partial<Payment> => ({
+    paymentId: 1,
+    paymentCode: 'SKOABC123',
+    paymentType: PaymentType.ORDER,
+    status: PaymentStatus.COMPLETED,
+    amount: 500000,
+    paidAmount: 500000,
+    overpaidAmount: 0,
+    userId: 'user-1',
+  });
+
+  const mockManager = {
+    findOne: jest.fn(),
+    findOneOrFail: jest.fn(),
+    find: jest.fn(() => Promise.resolve(existingRefunds)),
+    create: jest.fn((_entity: unknown, data: Partial<Refund>) => ({
+      refundId: 'refund-uuid-1',
+      ...data,
+    })),
+    save: jest.fn((entity: Partial<Refund>) => {
+      // Refund đã lưu được tính vào số tiền đã hoàn của payment
+      if ('refundId' in entity && !existingRefunds.includes(entity)) {
+        existingRefunds.push(entity);
+      }
+      return Promise.resolve(entity);
+    }),
+  };
+
+  const mockEntityManager = {
+    transaction: jest.fn(
+      (callback: (manager: typeof mockManager) => Promise<unknown>) =>
+        callback(mockManager),
+    ),
+  };
+
+  const mockRefundRepository = {
+    findOne: jest.fn(),
+    findAndCount: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    transfer: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn(),
+  };
+
+  const mockPaymentProvider = {
+    refund: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefundsService,
+        { provide: EntityManager, useValue: mockEntityManager },
+        {
+          provide: getRepositoryToken(Refund),
+          useValue: mockRefundRepository,
+        },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: PAYMENT_PROVIDER, useValue: mockPaymentProvider },
+      ],
+    }).compile();
+
+    service = module.get<RefundsService>(RefundsService);
+    existingRefunds = [];
+    mockConfigService.get.mockReturnValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createRefund', () => {
+    // TC-REFUND-001-01: Normal - Full refund to wallet
+    it('TC-REFUND-001-01: should refund the full amount to the wallet and mark the payment refunded', async () => {
+      const payment = orderPayment();
+      mockManager.findOne.mockResolvedValue(payment);
+
+      const refund = await service.createRefund({
+        paymentId: 1,
+        destination: RefundDestination.WALLET,
+        reason: 'Out of stock',
+        requestedBy: 'staff-1',
+      });
+
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: LedgerTransactionType.ORDER_REFUND,
+          from: { type: LedgerAccountType.PLATFORM_SALES },
+          to: { userId: 'user-1' },
+          amount: 500000,
+          referenceType: LedgerReferenceType.REFUND,
+          referenceId: 'refund-uuid-1',
+        }),
+        mockManager,
+      );
+      expect(refund.status).toBe(RefundStatus.COMPLETED);
+      expect(payment.status).toBe(PaymentStatus.REFUNDED);
+    });
+
+    // TC-REFUND-001-02: Normal - Partial refund keeps the payment completed
+    it('TC-REFUND-001-02: should refund part of the payment', async () => {
+      const payment = orderPayment();
+      mockManager.findOne.mockResolvedValue(payment);
+
+      const refund = await service.createRefund({
+        paymentId: 1,
+        amount: 200000,
+        destination: RefundDestination.WALLET,
+        reason: 'One item damaged',
+      });
+
+      expect(refund.amount).toBe(200000);
+      expect(refund.status).toBe(RefundStatus.COMPLETED);
+      expect(payment.status).toBe(PaymentStatus.COMPLETED);
+    });
+
+    // TC-REFUND-001-03: Boundary - Cumulative refunds cannot exceed the paid amount
+    it('TC-REFUND-001-03: should reject a refund above the refundable remaining', async () => {
+      mockManager.findOne.mockResolvedValue(orderPayment());
+      existingRefunds = [
+        { amount: 300000, status: RefundStatus.COMPLETED },
+        { amount: 100000, status: RefundStatus.PENDING_APPROVAL },
+      ];
+
+      await expect(
+        service.createRefund({
+          paymentId: 1,
+          amount: 100001,
+          destination: RefundDestination.WALLET,
+          reason: 'Too much',
+        }),
+      ).rejects.toThrow('exceeds refundable remaining 100000');
+      expect(mockLedgerService.transfer).not.toHaveBeenCalled();
+    });
+
+    // TC-REFUND-001-04: Abnormal - Payment not completed
+    it('TC-REFUND-001-04: should reject a payment that is not completed', async () => {
+      mockManager.findOne.mockResolvedValue({
+        ...orderPayment(),
+        status: PaymentStatus.PENDING,
+      });
+
+      await expect(
+        service.createRefund({
+          paymentId: 1,
+          destination: RefundDestination.WALLET,
+          reason: 'reason',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    // TC-REFUND-001-05: Abnormal - Topup cannot be refunded into the same wallet
+    it('TC-REFUND-001-05: should reject refunding a topup to the wallet', async () => {
+      mockManager.findOne.mockResolvedValue({
+        ...orderPayment(),
+        paymentType: PaymentType.TOPUP,
+      });
+
+      await expect(
+        service.createRefund({
+          paymentId: 1,
+          destination: RefundDestination.WALLET,
+          reason: 'reason',
+        }),
+      ).rejects.toThrow('only be refunded to the bank');
+    });
+  });
+
+  describe('approval workflow', () => {
+    // TC-REFUND-002-01: Normal - Above the threshold waits for approval
+    it('TC-REFUND-002-01: should hold refunds above the threshold for approval', async () => {
+      mockConfigService.get.mockReturnValue('100000');
+      mockManager.findOne.mockResolvedValue(orderPayment());
+
+      const refund = await service.createRefund({
+        paymentId: 1,
+        amount: 200000,
+        destination: RefundDestination.WALLET,
+        reason: 'Customer complaint',
+        requestedBy: 'staff-1',
+      });
+
+      expect(refund.status).toBe(RefundStatus.PENDING_APPROVAL);
+      expect(mockLedgerService.transfer).not.toHaveBeenCalled();
+    });
+
+    // TC-REFUND-002-02: Normal - Policy refunds skip approval
+    it('TC-REFUND-002-02: should execute pre-approved refunds above the threshold', async () => {
+      mockConfigService.get.mockReturnValue('100000');
+      mockManager.findOne.mockResolvedValue(orderPayment());
+
+      const refund = await service.createRefund({
+        paymentId: 1,
+        amount: 200000,
+        destination: RefundDestination.WALLET,
+        reason: 'Doctor cancelled',
+        preApproved: true,
+      });
+
+      expect(refund.status).toBe(RefundStatus.COMPLETED);
+      expect(mockLedgerService.transfer).toHaveBeenCalled();
+    });
+
+    // TC-REFUND-002-03: Normal - Approval executes the refund
+    it('TC-REFUND-002-03: should execute the refund when an admin approves it', async () => {
+      const pending = {
+        refundId: 'refund-uuid-1',
+        paymentId: 1,
+        amount: 200000,
+        destination: RefundDestination.WALLET,
+        status: RefundStatus.PENDING_APPROVAL,
+        walletUserId: 'user-1',
+        reason: 'Customer complaint',
+      };
+      mockManager.findOne.mockImplementation((entity: unknown) =>
+        Promise.resolve(entity === Refund ? pending : orderPayment()),
+      );
+      existingRefunds = [pending];
+
+      const refund = await service.approve('refund-uuid-1', 'admin-1');
+
+      expect(refund.status).toBe(RefundStatus.COMPLETED);
+      expect(refund.approvedBy).toBe('admin-1');
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 200000, createdBy: 'admin-1' }),
+        mockManager,
+      );
+    });
+
+    // TC-REFUND-002-04: Abnormal - Cannot approve twice
+    it('TC-REFUND-002-04: should reject approving a refund that is not pending', async () => {
+      mockManager.findOne.mockResolvedValue({
+        refundId: 'refund-uuid-1',
+        status: RefundStatus.COMPLETED,
+      });
+
+      await expect(service.approve('refund-uuid-1', 'admin-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockLedgerService.transfer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bank refunds', () => {
+    // TC-REFUND-003-01: Normal - Manual provider keeps refund processing until accounting confirms
+    it('TC-REFUND-003-01: should keep bank refunds processing until the transfer is confirmed', async () => {
+      mockManager.findOne.mockResolvedValue({
+        ...orderPayment(),
+        paymentType: PaymentType.TOPUP,
+      });
+      mockPaymentProvider.refund.mockResolvedValue({
+        status: PaymentRefundStatus.MANUAL_REQUIRED,
+        reference: null,
+        message: 'Transfer manually',
+      });
+
+      const refund = await service.createRefund({
+        paymentId: 1,
+        destination: RefundDestination.BANK,
+        reason: 'Topup by mistake',
+        bankName: 'Vietcombank',
+        bankAccountNumber: '0123456789',
+        bankAccountName: 'NGUYEN VAN A',
+      });
+
+      expect(refund.status).toBe(RefundStatus.PROCESSING);
+      expect(mockLedgerService.transfer).toHaveBeenCalledTimes(1);
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: LedgerTransactionType.TOPUP_REVERSAL,
+          from: { userId: 'user-1' },
+          to: { type: LedgerAccountType.PENDING_REFUNDS },
+        }),
+        mockManager,
+      );
+    });
+
+    // TC-REFUND-003-02: Normal - Accounting confirms the bank transfer
+    it('TC-REFUND-003-02: should post the payout when the bank refund is completed', async () => {
+      mockManager.findOne.mockResolvedValue({
+        refundId: 'refund-uuid-1',
+        amount: 500000,
+        destination: RefundDestination.BANK,
+        status: RefundStatus.PROCESSING,
+      });
+
+      const refund = await service.completeBankRefund(
+        'refund-uuid-1',
+        'admin-1',
+        'FT25031912345678',
+      );
+
+      expect(refund.status).toBe(RefundStatus.COMPLETED);
+      expect(refund.providerReference).toBe('FT25031912345678');
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: LedgerTransactionType.REFUND_PAYOUT,
+          from: { type: LedgerAccountType.PENDING_REFUNDS },
+          to: { type: LedgerAccountType.PLATFORM_BANK },
+          amount: 500000,
+        }),
+        mockManager,
+      );
+    });
+  });
+});
@@ -0,0 +1,542 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ConfigService } from '@nestjs/config';
+import { EntityManager, In, Repository } from 'typeorm';
+import {
+  Refund,
+  RefundDestination,
+  RefundStatus,
+} from './entities/refund.entity';
+import { Payment, PaymentStatus, PaymentType } from './entities/payment.entity';
+import { Customer } from '../customers/entities/customer.entity';
+import { AppointmentStatus } from '../appointments/types/appointment.types';
+import {
+  PAYMENT_PROVIDER,
+  PaymentProvider,
+  PaymentRefundStatus,
+} from './providers/payment-provider.interface';
+import { LedgerAccountRef, LedgerService } from '../ledger/ledger.service';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import {
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../ledger/entities/ledger-transaction.entity';
+
+export const REFUND_APPROVAL_THRESHOLD_ENV = 'REFUND_APPROVAL_THRESHOLD';
+export const DEFAULT_REFUND_APPROVAL_THRESHOLD = 2000000; // VND
+
+export interface CreateRefundInput {
+  paymentId: number;
+  amount?: number; // Bỏ trống = hoàn toàn bộ số còn hoàn được
+  destination: RefundDestination;
+  reason: string;
+  requestedBy?: string | null;
+  preApproved?: boolean; // Hoàn theo chính sách hoặc quyết định của admin -> không cần duyệt
+  walletUserId?: string; // Mặc định là user của payment
+  referenceType?: LedgerReferenceType;
+  referenceId?: string;
+  bankName?: string;
+  bankAccountNumber?: string;
+  bankAccountName?: string;
+}
+
+export interface PaymentRefundSummary {
+  paymentId: number;
+  paymentCode: string;
+  paidAmount: number;
+  refundedAmount: number; // COMPLETED + PROCESSING
+  pendingApprovalAmount: number;
+  refundableRemaining: number;
+  refunds: Refund[];
+}
+
+// Loại bút toán hoàn tiền theo loại payment (WITHDRAW không hoàn được)
+const REFUND_LEDGER_TYPES: Partial<Record<PaymentType, LedgerTransactionType>> =
+  {
+    [PaymentType.ORDER]: LedgerTransactionType.ORDER_REFUND,
+    [PaymentType.BOOKING]: LedgerTransactionType.BOOKING_REFUND,
+    [PaymentType.SUBSCRIPTION]: LedgerTransactionType.SUBSCRIPTION_REFUND,
+    [PaymentType.TOPUP]: LedgerTransactionType.TOPUP_REVERSAL,
+  };
+
+/**
+ * Hoàn tiền cho mọi loại payment (order, booking, subscription, topup).
+ * - Hoàn một phần hoặc toàn phần, không vượt quá số tiền đã thanh toán
+ * - Hoàn vào ví hoặc về ngân hàng (qua payment provider / kế toán chuyển khoản)
+ * - Vượt ngưỡng REFUND_APPROVAL_THRESHOLD phải chờ admin duyệt
+ */
+@Injectable()
+export class RefundsService {
+  private readonly logger = new Logger(RefundsService.name);
+
+  constructor(
+    private readonly entityManager: EntityManager,
+    @InjectRepository(Refund)
+    private readonly refundRepository: Repository<Refund>,
+    private readonly ledgerService: LedgerService,
+    private readonly configService: ConfigService,
+    @Inject(PAYMENT_PROVIDER)
+    private readonly paymentProvider: PaymentProvider,
+  ) {}
+
+  /**
+   * Tạo refund. Nếu truyền manager, refund chạy trong transaction của caller.
+   */
+  async createRefund(
+    input: CreateRefundInput,
+    manager?: EntityManager,
+  ): Promise<Refund> {
+    if (!manager) {
+      return this.entityManager.transaction((txManager) =>
+        this.createRefund(input, txManager),
+      );
+    }
+
+    // Lock payment để các refund đồng thời không vượt quá số tiền đã trả
+    const payment = await this.lockRefundablePayment(input.paymentId, manager);
+
+    if (
+      payment.paymentType === PaymentType.TOPUP &&
+      input.destination === RefundDestination.WALLET
+    ) {
+      throw new BadRequestException(
+        'Topup payments can only be refunded to the bank',
+      );
+    }
+
+    const { refundableRemaining } = await this.calculateRefundable(
+      payment,
+      manager,
+    );
+    const amount = this.toMoney(input.amount ?? refundableRemaining);
+
+    if (amount <= 0) {
+      throw new BadRequestException(
+        `Payment ${payment.paymentCode} has nothing left to refund`,
+      );
+    }
+    if (amount > refundableRemaining) {
+      throw new BadRequestException(
+        `Refund amount ${amount} exceeds refundable remaining ${refundableRemaining} for payment ${payment.paymentCode}`,
+      );
+    }
+
+    const walletUserId =
+      input.destination === RefundDestination.WALLET
+        ? (input.walletUserId ??
+          (await this.resolveCustomerUserId(payment, manager)))
+        : null;
+    if (input.destination === RefundDestination.WALLET && !walletUserId) {
+      throw new BadRequestException(
+        `Cannot find the customer wallet for payment ${payment.paymentCode}`,
+      );
+    }
+
+    const requiresApproval =
+      !input.preApproved && amount > this.getApprovalThreshold();
+
+    const refund = await manager.save(
+      manager.create(Refund, {
+        paymentId: payment.paymentId,
+        amount,
+        destination: input.destination,
+        status: requiresApproval
+          ? RefundStatus.PENDING_APPROVAL
+          : RefundStatus.PROCESSING,
+        reason: input.reason,
+        referenceType: input.referenceType ?? null,
+        referenceId: input.referenceId ?? null,
+        walletUserId,
+        bankName: input.bankName ?? null,
+        bankAccountNumber: input.bankAccountNumber ?? null,
+        bankAccountName: input.bankAccountName ?? null,
+        requestedBy: input.requestedBy ?? null,
+      }),
+    );
+
+    if (requiresApproval) {
+      this.logger.log(
+        `📝 Refund ${refund.refundId} of ${amount} for ${payment.paymentCode} is waiting for approval`,
+      );
+      return refund;
+    }
+
+    return this.execute(refund, payment, input.requestedBy ?? null, manager);
+  }
+
+  async approve(refundId: string, adminUserId: string): Promise<Refund> {
+    return this.entityManager.transaction(async (manager) => {
+      const refund = await this.lockRefund(refundId, manager);
+      if (refund.status !== RefundStatus.PENDING_APPROVAL) {
+        throw new BadRequestException(
+          `Refund is not waiting for approval (${refund.status})`,
+        );
+      }
+
+      const payment = await this.lockRefundablePayment(
+        refund.paymentId,
+        manager,
+      );
+      return this.execute(refund, payment, adminUserId, manager);
+    });
+  }
+
+  async reject(
+    refundId: string,
+    adminUserId: string,
+    reason: string,
+  ): Promise<Refund> {
+    return this.entityManager.transaction(async (manager) => {
+      const refund = await this.lockRefund(refundId, manager);
+      if (refund.status !== RefundStatus.PENDING_APPROVAL) {
+        throw new BadRequestException(
+          `Refund is not waiting for approval (${refund.status})`,
+        );
+      }
+
+      refund.status = RefundStatus.REJECTED;
+      refund.approvedBy = adminUserId;
+      refund.approvedAt = new Date();
+      refund.rejectionReason = reason;
+
+      this.logger.log(`🚫 Refund ${refundId} rejected by ${adminUserId}`);
+
+      return manager.save(refund);
+    });
+  }
+
+  /**
+   * Kế toán xác nhận đã chuyển khoản hoàn tiền về ngân hàng của khách
+   */
+  async completeBankRefund(
+    refundId: string,
+    adminUserId: string,
+    bankReference: string,
+  ): Promise<Refund> {
+    return this.entityManager.transaction(async (manager) => {
+      const refund = await this.lockRefund(refundId, manager);
+      if (
+        refund.destination !== RefundDestination.BANK ||
+        refund.status !== RefundStatus.PROCESSING
+      ) {
+        throw new BadRequestException(
+          `Only processing bank refunds can be completed (${refund.destination}, ${refund.status})`,
+        );
+      }
+
+      await this.postBankPayout(refund, adminUserId, manager);
+
+      refund.status = RefundStatus.COMPLETED;
+      refund.providerReference = bankReference;
+      refund.completedAt = new Date();
+
+      this.logger.log(
+        `🏦 Bank refund ${refundId} (${refund.amount} VND) transferred, ref ${bankReference}`,
+      );
+
+      return manager.save(refund);
+    });
+  }
+
+  async findAll(page: number = 1, limit: number = 50, status?: RefundStatus) {
+    const [data, total] = await this.refundRepository.findAndCount({
+      where: status ? { status } : {},
+      relations: ['payment', 'requester'],
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findOne(refundId: string): Promise<Refund> {
+    const refund = await this.refundRepository.findOne({
+      where: { refundId },
+      relations: ['payment', 'requester'],
+    });
+    if (!refund) {
+      throw new NotFoundException(`Refund ${refundId} not found`);
+    }
+    return refund;
+  }
+
+  async getPaymentRefundSummary(
+    payment: Payment,
+  ): Promise<PaymentRefundSummary> {
+    const summary = await this.calculateRefundable(payment, this.entityManager);
+    return {
+      paymentId: payment.paymentId,
+      paymentCode: payment.paymentCode,
+      ...summary,
+    };
+  }
+
+  /**
+   * Trừ sổ cái và chuyển tiền tới đích hoàn. Payment phải đang bị lock.
+   */
+  private async execute(
+    refund: Refund,
+    payment: Payment,
+    approvedBy: string | null,
+    manager: EntityManager,
+  ): Promise<Refund> {
+    const amount = Number(refund.amount);
+    refund.approvedBy = approvedBy;
+    refund.approvedAt = new Date();
+
+    await this.ledgerService.transfer(
+      {
+        type: REFUND_LEDGER_TYPES[payment.paymentType]!,
+        description:
+          `Refund ${amount} of ${payment.paymentCode} to ${refund.destination}: ${refund.reason}`.slice(
+            0,
+            255,
+          ),
+        from: this.getSourceAccount(payment),
+        to:
+          refund.destination === RefundDestination.WALLET
+            ? { userId: refund.walletUserId! }
+            : { type: LedgerAccountType.PENDING_REFUNDS },
+        amount,
+        referenceType: LedgerReferenceType.REFUND,
+        referenceId: refund.refundId,
+        createdBy: approvedBy ?? undefined,
+      },
+      manager,
+    );
+
+    if (refund.destination === RefundDestination.WALLET) {
+      refund.status = RefundStatus.COMPLETED;
+      refund.completedAt = new Date();
+    } else {
+      // Provider lỗi → throw, rollback cả bút toán ledger
+      const providerRefund = await this.paymentProvider.refund(payment, amount);
+      refund.providerReference = providerRefund.reference;
+
+      if (providerRefund.status === PaymentRefundStatus.COMPLETED) {
+        await this.postBankPayout(refund, approvedBy, manager);
+        refund.status = RefundStatus.COMPLETED;
+        refund.completedAt = new Date();
+      } else {
+        refund.status = RefundStatus.PROCESSING;
+        this.logger.warn(
+          `⚠️ Refund ${refund.refundId} requires a manual bank transfer of ${amount} VND to ${refund.bankAccountNumber ?? 'the original sender'}`,
+        );
+      }
+    }
+
+    const savedRefund = await manager.save(refund);
+
+    const { refundableRemaining, pendingApprovalAmount } =
+      await this.calculateRefundable(payment, manager);
+    if (refundableRemaining <= 0 && pendingApprovalAmount <= 0) {
+      payment.status = PaymentStatus.REFUNDED;
+      await manager.save(payment);
+    }
+
+    this.logger.log(
+      `💸 Refunded ${amount} of ${payment.paymentCode} to ${refund.destination} (${savedRefund.status})`,
+    );
+
+    return savedRefund;
+  }
+
+  /**
+   * Tiền đã rời tài khoản ngân hàng của hệ thống
+   */
+  private async postBankPayout(
+    refund: Refund,
+    createdBy: string | null,
+    manager: EntityManager,
+  ): Promise<void> {
+    await this.ledgerService.transfer(
+      {
+        type: LedgerTransactionType.REFUND_PAYOUT,
+        description: `Bank refund ${refund.refundId} transferred`,
+        from: { type: LedgerAccountType.PENDING_REFUNDS },
+        to: { type: LedgerAccountType.PLATFORM_BANK },
+        amount: Number(refund.amount),
+        referenceType: LedgerReferenceType.REFUND,
+        referenceId: refund.refundId,
+        createdBy: createdBy ?? undefined,
+      },
+      manager,
+    );
+  }
+
+  private async calculateRefundable(
+    payment: Payment,
+    manager: EntityManager,
+  ): Promise<Omit<PaymentRefundSummary, 'paymentId' | 'paymentCode'>> {
+    const refunds = await manager.find(Refund, {
+      where: {
+        paymentId: payment.paymentId,
+        status: In([
+          RefundStatus.PENDING_APPROVAL,
+          RefundStatus.PROCESSING,
+          RefundStatus.COMPLETED,
+        ]),
+      },
+      order: { createdAt: 'ASC' },
+    });
+
+    const sum = (statuses: RefundStatus[]) =>
+      this.toMoney(
+        refunds
+          .filter((refund) => statuses.includes(refund.status))
+          .reduce((total, refund) => total + Number(refund.amount), 0),
+      );
+
+    const paidAmount = this.getPaidAmount(payment);
+    const refundedAmount = sum([
+      RefundStatus.PROCESSING,
+      RefundStatus.COMPLETED,
+    ]);
+    const pendingApprovalAmount = sum([RefundStatus.PENDING_APPROVAL]);
+
+    return {
+      paidAmount,
+      refundedAmount,
+      pendingApprovalAmount,
+      refundableRemaining: Math.max(
+        this.toMoney(paidAmount - refundedAmount - pendingApprovalAmount),
+        0,
+      ),
+      refunds,
+    };
+  }
+
+  /**
+   * Số tiền đã thanh toán cho payment, tối đa bằng giá trị payment
+   * (phần chuyển thừa đã cộng vào ví hoặc giữ làm phí, không hoàn lại ở đây).
+   * Payment trả bằng ví không ghi paidAmount nên lấy amount.
+   */
+  private getPaidAmount(payment: Payment): number {
+    const amount = Number(payment.amount);
+    const paidAmount = Number(payment.paidAmount ?? 0);
+    if (paidAmount <= 0) {
+      return amount;
+    }
+    return this.toMoney(
+      Math.min(paidAmount - Number(payment.overpaidAmount ?? 0), amount),
+    );
+  }
+
+  private getSourceAccount(payment: Payment): LedgerAccountRef {
+    switch (payment.paymentType) {
+      case PaymentType.ORDER:
+        return { type: LedgerAccountType.PLATFORM_SALES };
+      case PaymentType.BOOKING:
+        return { type: LedgerAccountType.BOOKING_ESCROW };
+      case PaymentType.SUBSCRIPTION:
+        // Phần của bác sĩ đã chia khi kích hoạt gói, nền tảng chịu khoản hoàn
+        return { type: LedgerAccountType.PLATFORM_FEES };
+      case PaymentType.TOPUP:
+        return { userId: payment.userId };
+      default:
+        throw new BadRequestException(
+          `Payments of type ${payment.paymentType} cannot be refunded`,
+        );
+    }
+  }
+
+  private async lockRefundablePayment(
+    paymentId: number,
+    manager: EntityManager,
+  ): Promise<Payment> {
+    const payment = await manager.findOne(Payment, {
+      where: { paymentId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!payment) {
+      throw new NotFoundException(`Payment ${paymentId} not found`);
+    }
+    if (payment.status !== PaymentStatus.COMPLETED) {
+      throw new BadRequestException(
+        `Cannot refund payment with status ${payment.status}. Only COMPLETED payments can be refunded.`,
+      );
+    }
+    if (!REFUND_LEDGER_TYPES[payment.paymentType]) {
+      throw new BadRequestException(
+        `Payments of type ${payment.paymentType} cannot be refunded`,
+      );
+    }
+    if (payment.paymentType === PaymentType.TOPUP && !payment.userId) {
+      throw new BadRequestException(
+        `User not found for payment ${payment.paymentCode}`,
+      );
+    }
+
+    if (payment.paymentType === PaymentType.BOOKING) {
+      // Escrow đã chia cho bác sĩ thì không còn tiền để hoàn
+      const { appointment } = await manager.findOneOrFail(Payment, {
+        where: { paymentId },
+        relations: ['appointment'],
+      });
+      if (appointment?.appointmentStatus === AppointmentStatus.SETTLED) {
+        throw new BadRequestException(
+          `Booking of payment ${payment.paymentCode} is already settled`,
+        );
+      }
+    }
+
+    return payment;
+  }
+
+  private async lockRefund(
+    refundId: string,
+    manager: EntityManager,
+  ): Promise<Refund> {
+    const refund = await manager.findOne(Refund, {
+      where: { refundId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!refund) {
+      throw new NotFoundException(`Refund ${refundId} not found`);
+    }
+    return refund;
+  }
+
+  private async resolveCustomerUserId(
+    payment: Payment,
+    manager: EntityManager,
+  ): Promise<string | null> {
+    if (payment.userId) {
+      return payment.userId;
+    }
+    if (!payment.customerId) {
+      return null;
+    }
+    const customer = await manager.findOne(Customer, {
+      where: { customerId: payment.customerId },
+      relations: ['user'],
+    });
+    return customer?.user?.userId ?? null;
+  }
+
+  private getApprovalThreshold(): number {
+    const configured = Number(
+      this.configService.get<string>(REFUND_APPROVAL_THRESHOLD_ENV),
+    );
+    return Number.isFinite(configured) && configured > 0
+      ? configured
+      : DEFAULT_REFUND_APPROVAL_THRESHOLD;
+  }
+
+  private toMoney(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,222 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { SepayWebhookInboxService } from './sepay-webhook-inbox.service';
+import { PaymentsService } from './payments.service';
+import {
+  SepayWebhookEvent,
+  SepayWebhookEventStatus,
+} from './entities/sepay-webhook-event.entity';
+import { SepayWebhookDto } from './dto/sepay-webhook.dto';
+
+describe('SepayWebhookInboxService', () => {
+  let service: SepayWebhookInboxService;
+
+  const webhookData: SepayWebhookDto = {
+    id: 92704,
+    gateway: 'MBBank',
+    transactionDate: '2025-01-01 10:00:00',
+    accountNumber: '0347178790',
+    content: 'SKT123ABC',
+    transferType: 'in',
+    transferAmount: 100000,
+    accumulated: 5000000,
+    referenceCode: 'FT123',
+    description: 'SKT123ABC',
+  };
+
+  const mockEventRepository = {
+    findOne: jest.fn(),
+    findOneOrFail: jest.fn(),
+    find: jest.fn(),
+    findAndCount: jest.fn(),
+    create: jest.fn((data: Partial<SepayWebhookEvent>) => data),
+    save: jest.fn((event: Partial<SepayWebhookEvent>) =>
+      Promise.resolve({ eventId: 'event-uuid-1', ...event }),
+    ),
+    update: jest.fn(),
+  };
+
+  const mockPaymentsService = {
+    handleSepayWebhook: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SepayWebhookInboxService,
+        {
+          provide: getRepositoryToken(SepayWebhookEvent),
+          useValue: mockEventRepository,
+        },
+        {
+          provide: PaymentsService,
+          useValue: mockPaymentsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<SepayWebhookInboxService>(SepayWebhookInboxService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('receive', () => {
+    // TC-WEBHOOK-001-01: Normal - New delivery is stored in the inbox
+    it('TC-WEBHOOK-001-01: should store a new delivery as PENDING', async () => {
+      jest.useFakeTimers();
+      mockEventRepository.findOne.mockResolvedValue(null);
+
+      const result = await service.receive(webhookData);
+
+      expect(result).toEqual({ eventId: 'event-uuid-1', duplicate: false });
+      expect(mockEventRepository.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sepayTransactionId: 92704,
+          status: SepayWebhookEventStatus.PENDING,
+        }),
+      );
+      expect(mockPaymentsService.handleSepayWebhook).not.toHaveBeenCalled();
+      jest.useRealTimers();
+    });
+
+    // TC-WEBHOOK-001-02: Normal - Re-delivered transaction is a no-op
+    it('TC-WEBHOOK-001-02: should ignore a duplicate delivery', async () => {
+      mockEventRepository.findOne.mockResolvedValue({
+        eventId: 'event-uuid-1',
+        sepayTransactionId: 92704,
+      });
+
+      const result = await service.receive(webhookData);
+
+      expect(result).toEqual({ eventId: 'event-uuid-1', duplicate: true });
+      expect(mockEventRepository.save).not.toHaveBeenCalled();
+    });
+
+    // TC-WEBHOOK-001-03: Boundary - Concurrent duplicate hits the unique index
+    it('TC-WEBHOOK-001-03: should treat a unique index violation as duplicate', async () => {
+      mockEventRepository.findOne.mockResolvedValue(null);
+      mockEventRepository.save.mockRejectedValueOnce({ code: 'ER_DUP_ENTRY' });
+      mockEventRepository.findOneOrFail.mockResolvedValue({
+        eventId: 'event-uuid-2',
+      });
+
+      const result = await service.receive(webhookData);
+
+      expect(result).toEqual({ eventId: 'event-uuid-2', duplicate: true });
+    });
+  });
+
+  describe('processEvent', () => {
+    const pendingEvent = () => ({
+      eventId: 'event-uuid-1',
+      sepayTransactionId: 92704,
+      payload: webhookData,
+      status: SepayWebhookEventStatus.PROCESSING,
+      attempts: 1,
+    });
+
+    // TC-WEBHOOK-002-01: Normal - Successful processing
+    it('TC-WEBHOOK-002-01: should mark event PROCESSED on success', async () => {
+      mockEventRepository.update.mockResolvedValue({ affected: 1 });
+      mockEventRepository.findOneOrFail.mockResolvedValue(pendingEvent());
+      mockPaymentsService.handleSepayWebhook.mockResolvedValue({
+        success: true,
+      });
+
+      const result = await service.processEvent('event-uuid-1');
+
+      expect(result?.status).toBe(SepayWebhookEventStatus.PROCESSED);
+      expect(result?.result).toEqual({ success: true });
+    });
+
+    // TC-WEBHOOK-002-02: Abnormal - Failure schedules a retry
+    it('TC-WEBHOOK-002-02: should schedule a retry when processing fails', async () => {
+      mockEventRepository.update.mockResolvedValue({ affected: 1 });
+      mockEventRepository.findOneOrFail.mockResolvedValue(pendingEvent());
+      mockPaymentsService.handleSepayWebhook.mockRejectedValue(
+        new Error('Deadlock found'),
+      );
+
+      const result = await service.processEvent('event-uuid-1');
+
+      expect(result?.status).toBe(SepayWebhookEventStatus.PENDING);
+      expect(result?.lastError).toBe('Deadlock found');
+      expect(result?.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    // TC-WEBHOOK-002-03: Boundary - Last attempt moves event to FAILED
+    it('TC-WEBHOOK-002-03: should mark FAILED after max attempts', async () => {
+      mockEventRepository.update.mockResolvedValue({ affected: 1 });
+      mockEventRepository.findOneOrFail.mockResolvedValue({
+        ...pendingEvent(),
+        attempts: 5,
+      });
+      mockPaymentsService.handleSepayWebhook.mockRejectedValue(
+        new Error('Still failing'),
+      );
+
+      const result = await service.processEvent('event-uuid-1');
+
+      expect(result?.status).toBe(SepayWebhookEventStatus.FAILED);
+      expect(result?.nextAttemptAt).toBeNull();
+    });
+
+    // TC-WEBHOOK-002-04: Boundary - Event already claimed by another worker
+    it('TC-WEBHOOK-002-04: should skip an event claimed elsewhere', async () => {
+      mockEventRepository.update.mockResolvedValue({ affected: 0 });
+
+      const result = await service.processEvent('event-uuid-1');
+
+      expect(result).toBeNull();
+      expect(mockPaymentsService.handleSepayWebhook).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replay', () => {
+    // TC-WEBHOOK-003-01: Normal - FAILED event is reprocessed
+    it('TC-WEBHOOK-003-01: should reprocess a FAILED event', async () => {
+      mockEventRepository.findOne.mockResolvedValue({
+        eventId: 'event-uuid-1',
+        status: SepayWebhookEventStatus.FAILED,
+      });
+      mockEventRepository.update.mockResolvedValue({ affected: 1 });
+      mockEventRepository.findOneOrFail.mockResolvedValue({
+        eventId: 'event-uuid-1',
+        payload: webhookData,
+        attempts: 1,
+      });
+      mockPaymentsService.handleSepayWebhook.mockResolvedValue({
+        success: true,
+      });
+
+      const result = await service.replay('event-uuid-1', 'admin-uuid-1');
+
+      expect(result?.status).toBe(SepayWebhookEventStatus.PROCESSED);
+      expect(mockEventRepository.update).toHaveBeenCalledWith(
+        { eventId: 'event-uuid-1', status: SepayWebhookEventStatus.FAILED },
+        expect.objectContaining({ lastReplayedBy: 'admin-uuid-1' }),
+      );
+    });
+
+    // TC-WEBHOOK-003-02: Abnormal - PROCESSED event cannot be replayed
+    it('TC-WEBHOOK-003-02: should reject replay of a PROCESSED event', async () => {
+      mockEventRepository.findOne.mockResolvedValue({
+        eventId: 'event-uuid-1',
+        status: SepayWebhookEventStatus.PROCESSED,
+      });
+      mockEventRepository.update.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.replay('event-uuid-1', 'admin-uuid-1'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPaymentsService.handleSepayWebhook).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { LessThan, LessThanOrEqual, Repository } from 'typeorm';
+import {
+  SepayWebhookEvent,
+  SepayWebhookEventStatus,
+} from './entities/sepay-webhook-event.entity';
+import { SepayWebhookDto } from './dto/sepay-webhook.dto';
+import { PaymentsService } from './payments.service';
+
+@Injectable()
+export class SepayWebhookInboxService {
+  private readonly logger = new Logger(SepayWebhookInboxService.name);
+  private readonly MAX_ATTEMPTS = 5;
+  private readonly RETRY_BASE_DELAY_MS = 60 * 1000; // 1, 2, 4, 8 phút
+  private readonly STALE_PROCESSING_MS = 10 * 60 * 1000; // Worker chết giữa chừng
+
+  constructor(
+    @InjectRepository(SepayWebhookEvent)
+    private readonly eventRepository: Repository<SepayWebhookEvent>,
+    private readonly paymentsService: PaymentsService,
+  ) {}
+
+  /**
+   * Lưu webhook vào inbox rồi xử lý bất đồng bộ.
+   * SePay gửi lại cùng giao dịch (cùng id) sẽ không được xử lý lần 2.
+   */
+  async receive(
+    webhookData: SepayWebhookDto,
+  ): Promise<{ eventId: string; duplicate: boolean }> {
+    const existing = await this.eventRepository.findOne({
+      where: { sepayTransactionId: webhookData.id },
+    });
+    if (existing) {
+      this.logger.warn(
+        `⚠️ Duplicate SePay webhook for transaction #${webhookData.id} ignored`,
+      );
+      return { eventId: existing.eventId, duplicate: true };
+    }
+
+    let event: SepayWebhookEvent;
+    try {
+      event = await this.eventRepository.save(
+        this.eventRepository.create({
+          sepayTransactionId: webhookData.id,
+          payload: { ...webhookData },
+          status: SepayWebhookEventStatus.PENDING,
+          nextAttemptAt: new Date(),
+        }),
+      );
+    } catch (error) {
+      // Hai request trùng đến cùng lúc: request sau dính unique index
+      const dbError = error as { code?: string; number?: number };
+      if (dbError?.code === 'ER_DUP_ENTRY' || dbError?.number === 1062) {
+        const duplicate = await this.eventRepository.findOneOrFail({
+          where: { sepayTransactionId: webhookData.id },
+        });
+        return { eventId: duplicate.eventId, duplicate: true };
+      }
+      throw error;
+    }
+
+    // Trả 200 cho SePay ngay, xử lý ở background
+    setImmediate(() => {
+      this.processEvent(event.eventId).catch((error: Error) =>
+        this.logger.error(
+          `❌ Unexpected error processing webhook event ${event.eventId}: ${error.message}`,
+        ),
+      );
+    });
+
+    return { eventId: event.eventId, duplicate: false };
+  }
+
+  /**
+   * Xử lý một event trong inbox. Trả về null nếu event đang được worker khác giữ.
+   */
+  async processEvent(eventId: string): Promise<SepayWebhookEvent | null> {
+    // Claim atomically so the cron and the inline trigger never process the same event
+    const claim = await this.eventRepository.update(
+      { eventId, status: SepayWebhookEventStatus.PENDING },
+      {
+        status: SepayWebhookEventStatus.PROCESSING,
+        attempts: () => 'attempts + 1',
+      },
+    );
+    if (!claim.affected) {
+      return null;
+    }
+
+    const event = await this.eventRepository.findOneOrFail({
+      where: { eventId },
+    });
+
+    try {
+      const result = (await this.paymentsService.handleSepayWebhook(
+        event.payload as SepayWebhookDto,
+      )) as Record<string, any> | undefined;
+
+      event.status = SepayWebhookEventStatus.PROCESSED;
+      event.result = result ?? null;
+      event.processedAt = new Date();
+      event.nextAttemptAt = null;
+      event.lastError = null;
+      this.logger.log(
+        `✅ SePay webhook #${event.sepayTransactionId} processed (attempt ${event.attempts})`,
+      );
+    } catch (error) {
+      const err = error as Error;
+      event.lastError = err.message;
+
+      if (event.attempts >= this.MAX_ATTEMPTS) {
+        event.status = SepayWebhookEventStatus.FAILED;
+        event.nextAttemptAt = null;
+        this.logger.error(
+          `[CRITICAL] SePay webhook #${event.sepayTransactionId} failed after ${event.attempts} attempts: ${err.message}`,
+        );
+      } else {
+        const delay =
+          this.RETRY_BASE_DELAY_MS * Math.pow(2, event.attempts - 1);
+        event.status = SepayWebhookEventStatus.PENDING;
+        event.nextAttemptAt = new Date(Date.now() + delay);
+        this.logger.warn(
+          `⚠️ SePay webhook #${event.sepayTransactionId} attempt ${event.attempts} failed, retrying at ${event.nextAttemptAt.toISOString()}: ${err.message}`,
+        );
+      }
+    }
+
+    return this.eventRepository.save(event);
+  }
+
+  @Cron(CronExpression.EVERY_MINUTE)
+  async processDueEvents(): Promise<number> {
+    // Event bị kẹt PROCESSING (server restart giữa chừng) -> đưa về hàng đợi
+    await this.eventRepository.update(
+      {
+        status: SepayWebhookEventStatus.PROCESSING,
+        updatedAt: LessThan(new Date(Date.now() - this.STALE_PROCESSING_MS)),
+      },
+      { status: SepayWebhookEventStatus.PENDING, nextAttemptAt: new Date() },
+    );
+
+    const dueEvents = await this.eventRepository.find({
+      where: {
+        status: SepayWebhookEventStatus.PENDING,
+        nextAttemptAt: LessThanOrEqual(new Date()),
+      },
+      order: { receivedAt: 'ASC' },
+      take: 50,
+    });
+
+    let processed = 0;
+    for (const event of dueEvents) {
+      const result = await this.processEvent(event.eventId);
+      if (result?.status === SepayWebhookEventStatus.PROCESSED) {
+        processed++;
+      }
+    }
+
+    if (dueEvents.length > 0) {
+      this.logger.log(
+        `🔁 Processed ${processed}/${dueEvents.length} queued SePay webhooks`,
+      );
+    }
+    return processed;
+  }
+
+  async findEvents(
+    page: number = 1,
+    limit: number = 50,
+    status?: SepayWebhookEventStatus,
+  ) {
+    const [data, total] = await this.eventRepository.findAndCount({
+      where: status ? { status } : {},
+      order: { receivedAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  /**
+   * Admin replay một webhook FAILED. Không cho replay event đã PROCESSED
+   * (tránh cộng tiền / hoàn tiền hai lần).
+   */
+  async replay(
+    eventId: string,
+    adminUserId: string,
+  ): Promise<SepayWebhookEvent | null> {
+    const event = await this.eventRepository.findOne({ where: { eventId } });
+    if (!event) {
+      throw new NotFoundException(`Webhook event ${eventId} not found`);
+    }
+
+    const reset = await this.eventRepository.update(
+      { eventId, status: SepayWebhookEventStatus.FAILED },
+      {
+        status: SepayWebhookEventStatus.PENDING,
+        attempts: 0,
+        nextAttemptAt: new Date(),
+        replayCount: () => 'replayCount + 1',
+        lastReplayedBy: adminUserId,
+      },
+    );
+    if (!reset.affected) {
+      throw new BadRequestException(
+        `Only FAILED webhook events can be replayed. Current status: ${event.status}`,
+      );
+    }
+
+    this.logger.log(
+      `🔁 Admin ${adminUserId} replaying SePay webhook #${event.sepayTransactionId}`,
+    );
+    return this.processEvent(eventId);
+  }
+}
@@ -0,0 +1,293 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { UnmatchedTransactionsService } from './unmatched-transactions.service';
+import { PaymentsService } from './payments.service';
+import { LedgerService } from '../ledger/ledger.service';
+import {
+  UnmatchedTransaction,
+  UnmatchedTransactionReason,
+  UnmatchedTransactionStatus,
+} from './entities/unmatched-transaction.entity';
+import { Payment, PaymentStatus } from './entities/payment.entity';
+import { User } from '../users/entities/user.entity';
+import { UnmatchedResolutionAction } from './dto/resolve-unmatched-transaction.dto';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import { LedgerTransactionType } from '../ledger/entities/ledger-transaction.entity';
+
+describe('UnmatchedTransactionsService', () => {
+  let service: UnmatchedTransactionsService;
+
+  const pendingUnmatched = (): Partial<UnmatchedTransaction> => ({
+    unmatchedTransactionId: 'unmatched-uuid-1',
+    sepayTransactionId: 92704,
+    amount: 100000,
+    content: 'CK tien kham benh',
+    gateway: 'MBBank',
+    accountNumber: '0347178790',
+    referenceCode: 'FT123',
+    transactionDate: '2025-01-01 10:00:00',
+    reason: UnmatchedTransactionReason.NO_PAYMENT_CODE,
+    status: UnmatchedTransactionStatus.PENDING,
+    createdAt: new Date('2025-01-01T03:00:00Z'),
+  });
+
+  const mockManager = {
+    findOne: jest.fn(),
+    findOneOrFail: jest.fn(),
+    save: jest.fn((entity: unknown) => Promise.resolve(entity)),
+  };
+
+  const mockEntityManager = {
+    transaction: jest.fn(
+      (callback: (manager: typeof mockManager) => Promise<unknown>) =>
+        callback(mockManager),
+    ),
+    findOne: jest.fn(),
+  };
+
+  const mockUnmatchedRepository = {
+    findOne: jest.fn(),
+    findAndCount: jest.fn(),
+  };
+
+  const mockPaymentsService = {
+    handleSepayWebhook: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    transfer: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UnmatchedTransactionsService,
+        { provide: EntityManager, useValue: mockEntityManager },
+        {
+          provide: getRepositoryToken(UnmatchedTransaction),
+          useValue: mockUnmatchedRepository,
+        },
+        { provide: PaymentsService, useValue: mockPaymentsService },
+        { provide: LedgerService, useValue: mockLedgerService },
+      ],
+    }).compile();
+
+    service = module.get<UnmatchedTransactionsService>(
+      UnmatchedTransactionsService,
+    );
+    mockUnmatchedRepository.findOne.mockResolvedValue({ resolved: true });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('resolve - CREDIT_WALLET', () => {
+    // TC-UNMATCHED-001-01: Normal - Credit transfer to a user wallet
+    it('TC-UNMATCHED-001-01: should credit the wallet and record who resolved it', async () => {
+      const unmatched = pendingUnmatched();
+      mockManager.findOne.mockImplementation((entity: unknown) =>
+        Promise.resolve(
+          entity === UnmatchedTransaction ? unmatched : { userId: 'user-1' },
+        ),
+      );
+
+      await service.resolve('unmatched-uuid-1', 'staff-1', {
+        action: UnmatchedResolutionAction.CREDIT_WALLET,
+        userId: 'user-1',
+        note: 'Customer sent receipt via chat',
+      });
+
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: LedgerTransactionType.UNMATCHED_TRANSFER_RESOLUTION,
+          from: { type: LedgerAccountType.UNMATCHED_TRANSFERS },
+          to: { userId: 'user-1' },
+          amount: 100000,
+          createdBy: 'staff-1',
+        }),
+        mockManager,
+      );
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: UnmatchedTransactionStatus.CREDITED_TO_WALLET,
+          creditedUserId: 'user-1',
+          resolvedBy: 'staff-1',
+          resolutionNote: 'Customer sent receipt via chat',
+        }),
+      );
+    });
+
+    // TC-UNMATCHED-001-02: Abnormal - Unknown user
+    it('TC-UNMATCHED-001-02: should reject an unknown user', async () => {
+      mockManager.findOne.mockImplementation((entity: unknown) =>
+        Promise.resolve(entity === User ? null : pendingUnmatched()),
+      );
+
+      await expect(
+        service.resolve('unmatched-uuid-1', 'staff-1', {
+          action: UnmatchedResolutionAction.CREDIT_WALLET,
+          userId: 'missing-user',
+          note: 'note',
+        }),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockLedgerService.transfer).not.toHaveBeenCalled();
+    });
+
+    // TC-UNMATCHED-001-03: Boundary - Already resolved transfer
+    it('TC-UNMATCHED-001-03: should reject a transfer that is already resolved', async () => {
+      mockManager.findOne.mockResolvedValue({
+        ...pendingUnmatched(),
+        status: UnmatchedTransactionStatus.CREDITED_TO_WALLET,
+      });
+
+      await expect(
+        service.resolve('unmatched-uuid-1', 'staff-1', {
+          action: UnmatchedResolutionAction.CREDIT_WALLET,
+          userId: 'user-1',
+          note: 'note',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockLedgerService.transfer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolve - BANK_REFUND', () => {
+    // TC-UNMATCHED-002-01: Normal - Move funds to pending refunds
+    it('TC-UNMATCHED-002-01: should move funds to PENDING_REFUNDS', async () => {
+      mockManager.findOne.mockResolvedValue(pendingUnmatched());
+
+      await service.resolve('unmatched-uuid-1', 'staff-1', {
+        action: UnmatchedResolutionAction.BANK_REFUND,
+        note: 'Sender unknown, refund to source account',
+      });
+
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: { type: LedgerAccountType.PENDING_REFUNDS },
+        }),
+        mockManager,
+      );
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: UnmatchedTransactionStatus.PENDING_BANK_REFUND,
+        }),
+      );
+    });
+  });
+
+  describe('resolve - LINK_PAYMENT', () => {
+    const pendingPayment = {
+      paymentId: 7,
+      paymentCode: 'SKT123ABC',
+      status: PaymentStatus.PENDING,
+    };
+
+    // TC-UNMATCHED-003-01: Normal - Transfer applied to payment
+    it('TC-UNMATCHED-003-01: should release funds and replay the webhook with the payment code', async () => {
+      mockManager.findOne.mockImplementation((entity: unknown) =>
+        Promise.resolve(
+          entity === Payment ? pendingPayment : pendingUnmatched(),
+        ),
+      );
+      mockPaymentsService.handleSepayWebhook.mockResolvedValue({
+        success: true,
+      });
+
+      await service.resolve('unmatched-uuid-1', 'staff-1', {
+        action: UnmatchedResolutionAction.LINK_PAYMENT,
+        paymentCode: 'skt123abc',
+        note: 'Customer typo in transfer content',
+      });
+
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          from: { type: LedgerAccountType.UNMATCHED_TRANSFERS },
+          to: { type: LedgerAccountType.PLATFORM_BANK },
+        }),
+        mockManager,
+      );
+      expect(mockPaymentsService.handleSepayWebhook).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 92704,
+          content: 'SKT123ABC',
+          transferType: 'in',
+          transferAmount: 100000,
+        }),
+      );
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: UnmatchedTransactionStatus.LINKED_TO_PAYMENT,
+          linkedPaymentId: 7,
+        }),
+      );
+    });
+
+    // TC-UNMATCHED-003-02: Abnormal - Payment already completed
+    it('TC-UNMATCHED-003-02: should reject linking to a completed payment', async () => {
+      mockManager.findOne.mockImplementation((entity: unknown) =>
+        Promise.resolve(
+          entity === Payment
+            ? { ...pendingPayment, status: PaymentStatus.COMPLETED }
+            : pendingUnmatched(),
+        ),
+      );
+
+      await expect(
+        service.resolve('unmatched-uuid-1', 'staff-1', {
+          action: UnmatchedResolutionAction.LINK_PAYMENT,
+          paymentCode: 'SKT123ABC',
+          note: 'note',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPaymentsService.handleSepayWebhook).not.toHaveBeenCalled();
+    });
+
+    // TC-UNMATCHED-003-03: Abnormal - Webhook processing rolled back
+    it('TC-UNMATCHED-003-03: should return the transfer to the queue when processing rolls back', async () => {
+      mockManager.findOne.mockImplementation((entity: unknown) =>
+        Promise.resolve(
+          entity === Payment ? pendingPayment : pendingUnmatched(),
+        ),
+      );
+      mockManager.findOneOrFail.mockResolvedValue({
+        ...pendingUnmatched(),
+        status: UnmatchedTransactionStatus.LINKED_TO_PAYMENT,
+        linkedPaymentId: 7,
+      });
+      mockEntityManager.findOne.mockResolvedValue(pendingPayment);
+      mockPaymentsService.handleSepayWebhook.mockRejectedValue(
+        new Error('Slot already re-booked'),
+      );
+
+      await expect(
+        service.resolve('unmatched-uuid-1', 'staff-1', {
+          action: UnmatchedResolutionAction.LINK_PAYMENT,
+          paymentCode: 'SKT123ABC',
+          note: 'note',
+        }),
+      ).rejects.toThrow('Slot already re-booked');
+
+      expect(mockLedgerService.transfer).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          from: { type: LedgerAccountType.PLATFORM_BANK },
+          to: { type: LedgerAccountType.UNMATCHED_TRANSFERS },
+        }),
+        mockManager,
+      );
+      expect(mockManager.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          status: UnmatchedTransactionStatus.PENDING,
+          linkedPaymentId: null,
+          resolvedBy: null,
+        }),
+      );
+    });
+  });
+});
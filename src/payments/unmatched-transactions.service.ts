@@ -0,0 +1,348 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import {
+  UnmatchedTransaction,
+  UnmatchedTransactionStatus,
+} from './entities/unmatched-transaction.entity';
+import { Payment, PaymentStatus } from './entities/payment.entity';
+import { User } from '../users/entities/user.entity';
+import {
+  ResolveUnmatchedTransactionDto,
+  UnmatchedResolutionAction,
+} from './dto/resolve-unmatched-transaction.dto';
+import { SepayWebhookDto } from './dto/sepay-webhook.dto';
+import { PaymentsService } from './payments.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import {
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../ledger/entities/ledger-transaction.entity';
+
+/**
+ * Hàng đợi đối soát chuyển khoản không khớp payment.
+ * Staff/Admin xử lý bằng cách gắn vào payment, cộng vào ví user hoặc đánh dấu hoàn tiền ngân hàng.
+ */
+@Injectable()
+export class UnmatchedTransactionsService {
+  private readonly logger = new Logger(UnmatchedTransactionsService.name);
+
+  constructor(
+    private readonly entityManager: EntityManager,
+    @InjectRepository(UnmatchedTransaction)
+    private readonly unmatchedRepository: Repository<UnmatchedTransaction>,
+    private readonly paymentsService: PaymentsService,
+    private readonly ledgerService: LedgerService,
+  ) {}
+
+  async findAll(
+    page: number = 1,
+    limit: number = 50,
+    status?: UnmatchedTransactionStatus,
+  ) {
+    const [data, total] = await this.unmatchedRepository.findAndCount({
+      where: status ? { status } : {},
+      relations: ['linkedPayment', 'creditedUser', 'resolver'],
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  async findOne(unmatchedTransactionId: string): Promise<UnmatchedTransaction> {
+    const unmatched = await this.unmatchedRepository.findOne({
+      where: { unmatchedTransactionId },
+      relations: ['linkedPayment', 'creditedUser', 'resolver'],
+    });
+    if (!unmatched) {
+      throw new NotFoundException(
+        `Unmatched transaction ${unmatchedTransactionId} not found`,
+      );
+    }
+    return unmatched;
+  }
+
+  async resolve(
+    unmatchedTransactionId: string,
+    staffUserId: string,
+    dto: ResolveUnmatchedTransactionDto,
+  ): Promise<UnmatchedTransaction> {
+    switch (dto.action) {
+      case UnmatchedResolutionAction.CREDIT_WALLET:
+        await this.creditWallet(unmatchedTransactionId, staffUserId, dto);
+        break;
+      case UnmatchedResolutionAction.BANK_REFUND:
+        await this.markForBankRefund(unmatchedTransactionId, staffUserId, dto);
+        break;
+      case UnmatchedResolutionAction.LINK_PAYMENT:
+        await this.linkToPayment(unmatchedTransactionId, staffUserId, dto);
+        break;
+    }
+
+    return this.findOne(unmatchedTransactionId);
+  }
+
+  private async creditWallet(
+    unmatchedTransactionId: string,
+    staffUserId: string,
+    dto: ResolveUnmatchedTransactionDto,
+  ): Promise<void> {
+    await this.entityManager.transaction(async (manager) => {
+      const unmatched = await this.lockPending(unmatchedTransactionId, manager);
+
+      const user = await manager.findOne(User, {
+        where: { userId: dto.userId },
+      });
+      if (!user) {
+        throw new NotFoundException(`User ${dto.userId} not found`);
+      }
+
+      await this.ledgerService.transfer(
+        {
+          type: LedgerTransactionType.UNMATCHED_TRANSFER_RESOLUTION,
+          description: `Unmatched transfer #${unmatched.sepayTransactionId} credited to wallet`,
+          from: { type: LedgerAccountType.UNMATCHED_TRANSFERS },
+          to: { userId: user.userId },
+          amount: Number(unmatched.amount),
+          referenceType: LedgerReferenceType.UNMATCHED_TRANSACTION,
+          referenceId: unmatched.unmatchedTransactionId,
+          createdBy: staffUserId,
+        },
+        manager,
+      );
+
+      unmatched.creditedUserId = user.userId;
+      await this.markResolved(
+        unmatched,
+        UnmatchedTransactionStatus.CREDITED_TO_WALLET,
+        staffUserId,
+        dto.note,
+        manager,
+      );
+    });
+
+    this.logger.log(
+      `💰 Unmatched transaction ${unmatchedTransactionId} credited to wallet of ${dto.userId} by ${staffUserId}`,
+    );
+  }
+
+  private async markForBankRefund(
+    unmatchedTransactionId: string,
+    staffUserId: string,
+    dto: ResolveUnmatchedTransactionDto,
+  ): Promise<void> {
+    await this.entityManager.transaction(async (manager) => {
+      const unmatched = await this.lockPending(unmatchedTransactionId, manager);
+
+      // Chuyển sang PENDING_REFUNDS, kế toán chuyển khoản trả lại thủ công
+      await this.ledgerService.transfer(
+        {
+          type: LedgerTransactionType.UNMATCHED_TRANSFER_RESOLUTION,
+          description: `Unmatched transfer #${unmatched.sepayTransactionId} awaiting bank refund`,
+          from: { type: LedgerAccountType.UNMATCHED_TRANSFERS },
+          to: { type: LedgerAccountType.PENDING_REFUNDS },
+          amount: Number(unmatched.amount),
+          referenceType: LedgerReferenceType.UNMATCHED_TRANSACTION,
+          referenceId: unmatched.unmatchedTransactionId,
+          createdBy: staffUserId,
+        },
+        manager,
+      );
+
+      await this.markResolved(
+        unmatched,
+        UnmatchedTransactionStatus.PENDING_BANK_REFUND,
+        staffUserId,
+        dto.note,
+        manager,
+      );
+    });
+
+    this.logger.log(
+      `🏦 Unmatched transaction ${unmatchedTransactionId} marked for bank refund by ${staffUserId}`,
+    );
+  }
+
+  /**
+   * Gắn giao dịch vào payment rồi chạy lại luồng webhook như thể nội dung CK có đúng mã.
+   * Tiền được trả từ UNMATCHED_TRANSFERS về PLATFORM_BANK trước, luồng webhook sẽ ghi nhận lại.
+   */
+  private async linkToPayment(
+    unmatchedTransactionId: string,
+    staffUserId: string,
+    dto: ResolveUnmatchedTransactionDto,
+  ): Promise<void> {
+    const paymentCode = dto.paymentCode!.toUpperCase();
+    let webhookData!: SepayWebhookDto;
+    let statusBeforeLink!: PaymentStatus;
+
+    await this.entityManager.transaction(async (manager) => {
+      const unmatched = await this.lockPending(unmatchedTransactionId, manager);
+
+      const payment = await manager.findOne(Payment, {
+        where: { paymentCode },
+      });
+      if (!payment) {
+        throw new NotFoundException(`Payment ${paymentCode} not found`);
+      }
+      if (
+        payment.status === PaymentStatus.COMPLETED ||
+        payment.status === PaymentStatus.REFUNDED
+      ) {
+        throw new BadRequestException(
+          `Cannot link transfer to a ${payment.status} payment`,
+        );
+      }
+      statusBeforeLink = payment.status;
+
+      await this.ledgerService.transfer(
+        {
+          type: LedgerTransactionType.UNMATCHED_TRANSFER_RESOLUTION,
+          description: `Unmatched transfer #${unmatched.sepayTransactionId} linked to ${paymentCode}`,
+          from: { type: LedgerAccountType.UNMATCHED_TRANSFERS },
+          to: { type: LedgerAccountType.PLATFORM_BANK },
+          amount: Number(unmatched.amount),
+          referenceType: LedgerReferenceType.UNMATCHED_TRANSACTION,
+          referenceId: unmatched.unmatchedTransactionId,
+          createdBy: staffUserId,
+        },
+        manager,
+      );
+
+      unmatched.linkedPaymentId = payment.paymentId;
+      await this.markResolved(
+        unmatched,
+        UnmatchedTransactionStatus.LINKED_TO_PAYMENT,
+        staffUserId,
+        dto.note,
+        manager,
+      );
+
+      webhookData = {
+        id: Number(unmatched.sepayTransactionId),
+        gateway: unmatched.gateway ?? '',
+        transactionDate:
+          unmatched.transactionDate ?? unmatched.createdAt.toISOString(),
+        accountNumber: unmatched.accountNumber ?? '',
+        content: paymentCode,
+        transferType: 'in',
+        transferAmount: Number(unmatched.amount),
+        accumulated: 0,
+        referenceCode: unmatched.referenceCode ?? '',
+        description: unmatched.content,
+      };
+    });
+
+    try {
+      const result = (await this.paymentsService.handleSepayWebhook(
+        webhookData,
+      )) as { success?: boolean; message?: string } | undefined;
+      if (!result?.success) {
+        throw new ConflictException(
+          result?.message ?? 'Unable to apply transfer to payment',
+        );
+      }
+    } catch (error) {
+      // Payment chưa đổi trạng thái = transaction webhook đã rollback -> trả lại hàng đợi
+      const payment = await this.entityManager.findOne(Payment, {
+        where: { paymentCode },
+      });
+      if (payment?.status === statusBeforeLink) {
+        await this.revertLink(unmatchedTransactionId, staffUserId, paymentCode);
+      }
+      throw error;
+    }
+
+    this.logger.log(
+      `🔗 Unmatched transaction ${unmatchedTransactionId} linked to payment ${paymentCode} by ${staffUserId}`,
+    );
+  }
+
+  private async revertLink(
+    unmatchedTransactionId: string,
+    staffUserId: string,
+    paymentCode: string,
+  ): Promise<void> {
+    await this.entityManager.transaction(async (manager) => {
+      const unmatched = await manager.findOneOrFail(UnmatchedTransaction, {
+        where: { unmatchedTransactionId },
+        lock: { mode: 'pessimistic_write' },
+      });
+
+      await this.ledgerService.transfer(
+        {
+          type: LedgerTransactionType.UNMATCHED_TRANSFER,
+          description: `Link of unmatched transfer #${unmatched.sepayTransactionId} to ${paymentCode} reverted`,
+          from: { type: LedgerAccountType.PLATFORM_BANK },
+          to: { type: LedgerAccountType.UNMATCHED_TRANSFERS },
+          amount: Number(unmatched.amount),
+          referenceType: LedgerReferenceType.UNMATCHED_TRANSACTION,
+          referenceId: unmatched.unmatchedTransactionId,
+          createdBy: staffUserId,
+        },
+        manager,
+      );
+
+      unmatched.status = UnmatchedTransactionStatus.PENDING;
+      unmatched.linkedPaymentId = null;
+      unmatched.resolvedBy = null;
+      unmatched.resolvedAt = null;
+      unmatched.resolutionNote = null;
+      await manager.save(unmatched);
+    });
+
+    this.logger.warn(
+      `⚠️ Linking unmatched transaction ${unmatchedTransactionId} to ${paymentCode} failed. Returned to queue.`,
+    );
+  }
+
+  private async lockPending(
+    unmatchedTransactionId: string,
+    manager: EntityManager,
+  ): Promise<UnmatchedTransaction> {
+    const unmatched = await manager.findOne(UnmatchedTransaction, {
+      where: { unmatchedTransactionId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!unmatched) {
+      throw new NotFoundException(
+        `Unmatched transaction ${unmatchedTransactionId} not found`,
+      );
+    }
+    if (unmatched.status !== UnmatchedTransactionStatus.PENDING) {
+      throw new BadRequestException(
+        `Unmatched transaction already resolved (${unmatched.status})`,
+      );
+    }
+    return unmatched;
+  }
+
+  private async markResolved(
+    unmatched: UnmatchedTransaction,
+    status: UnmatchedTransactionStatus,
+    staffUserId: string,
+    note: string,
+    manager: EntityManager,
+  ): Promise<void> {
+    unmatched.status = status;
+    unmatched.resolvedBy = staffUserId;
+    unmatched.resolvedAt = new Date();
+    unmatched.resolutionNote = note;
+    await manager.save(unmatched);
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  buildVietQrImageUrl,
+  buildVietQrPayload,
+  crc16Ccitt,
+  extractPaymentCode,
+} from './vietqr.util';
+
+describe('VietQR utils', () => {
+  describe('crc16Ccitt', () => {
+    it('should match the CRC-16/CCITT-FALSE check value', () => {
+      expect(crc16Ccitt('123456789')).toBe('29B1');
+    });
+  });
+
+  describe('buildVietQrPayload', () => {
+    const input = {
+      bankBin: '970422',
+      accountNumber: '0347178790',
+      amount: 500000,
+      transferContent: 'SKOABC123456789',
+    };
+
+    it('should build a dynamic EMVCo payload for NAPAS transfers', () => {
+      const payload = buildVietQrPayload(input);
+
+      expect(payload).toMatch(/^000201010212/);
+      expect(payload).toContain(
+        '38540010A00000072701240006970422011003471787900208QRIBFTTA',
+      );
+      expect(payload).toContain('5303704');
+      expect(payload).toContain('5406500000');
+      expect(payload).toContain('5802VN');
+      expect(payload).toContain('62190815SKOABC123456789');
+    });
+
+    it('should end with a valid CRC over the whole payload', () => {
+      const payload = buildVietQrPayload(input);
+      const body = payload.slice(0, -4);
+
+      expect(body.endsWith('6304')).toBe(true);
+      expect(payload.slice(-4)).toBe(crc16Ccitt(body));
+    });
+
+    it('should build a static payload when amount is missing', () => {
+      const payload = buildVietQrPayload({
+        bankBin: '970422',
+        accountNumber: '0347178790',
+      });
+
+      expect(payload).toMatch(/^000201010211/);
+      expect(payload).not.toContain('5406');
+      expect(payload).not.toContain('6219');
+    });
+
+    it('should reject fields longer than 99 characters', () => {
+      expect(() =>
+        buildVietQrPayload({ ...input, transferContent: 'X'.repeat(100) }),
+      ).toThrow();
+    });
+  });
+
+  describe('buildVietQrImageUrl', () => {
+    it('should encode account name and transfer content', () => {
+      const url = buildVietQrImageUrl(
+        'MB',
+        '0347178790',
+        'CHU PHAN NHAT LONG',
+        500000,
+        'SKOABC123',
+      );
+
+      expect(url).toBe(
+        'https://img.vietqr.io/image/MB-0347178790-compact2.png?amount=500000&addInfo=SKOABC123&accountName=CHU+PHAN+NHAT+LONG',
+      );
+    });
+  });
+
+  describe('extractPaymentCode', () => {
+    it('should extract and upper-case the payment code', () => {
+      expect(extractPaymentCode('CK skoabc123 thanh toan')).toBe('SKOABC123');
+    });
+
+    it('should return null when no payment code is present', () => {
+      expect(extractPaymentCode('chuyen tien')).toBeNull();
+    });
+  });
+});
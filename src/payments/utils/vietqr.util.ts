@@ -0,0 +1,106 @@
+/**
+ * VietQR (NAPAS 247) payload builder theo chuẩn EMVCo Merchant-Presented QR.
+ *
+ * Payload là chuỗi TLV (tag 2 số + độ dài 2 số + giá trị), kết thúc bằng
+ * CRC16-CCITT (tag 63). App ngân hàng quét chuỗi này sẽ tự điền
+ * ngân hàng, số tài khoản, số tiền và nội dung chuyển khoản.
+ *
+ * @example
+ * ```typescript
+ * buildVietQrPayload({
+ *   bankBin: '970422',
+ *   accountNumber: '0347178790',
+ *   amount: 500000,
+ *   transferContent: 'SKOABC123456789',
+ * });
+ * ```
+ */
+export interface VietQrPayloadInput {
+  bankBin: string; // Mã BIN ngân hàng (NAPAS), vd MBBank = 970422
+  accountNumber: string;
+  amount?: number; // Không truyền → QR tĩnh, người chuyển tự nhập số tiền
+  transferContent?: string; // Nội dung chuyển khoản (paymentCode)
+}
+
+const NAPAS_GUID = 'A000000727';
+const NAPAS_TRANSFER_TO_ACCOUNT = 'QRIBFTTA';
+const CURRENCY_VND = '704';
+const COUNTRY_VN = 'VN';
+
+function tlv(tag: string, value: string): string {
+  if (value.length > 99) {
+    throw new Error(`VietQR field ${tag} exceeds 99 characters`);
+  }
+  return `${tag}${value.length.toString().padStart(2, '0')}${value}`;
+}
+
+/**
+ * CRC16-CCITT (poly 0x1021, init 0xFFFF) theo yêu cầu của EMVCo
+ */
+export function crc16Ccitt(input: string): string {
+  let crc = 0xffff;
+  for (const byte of Buffer.from(input, 'utf8')) {
+    crc ^= byte << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+export function buildVietQrPayload(input: VietQrPayloadInput): string {
+  const hasAmount = input.amount !== undefined && input.amount > 0;
+
+  const beneficiary = tlv('00', input.bankBin) + tlv('01', input.accountNumber);
+  const merchantAccount =
+    tlv('00', NAPAS_GUID) +
+    tlv('01', beneficiary) +
+    tlv('02', NAPAS_TRANSFER_TO_ACCOUNT);
+
+  let payload =
+    tlv('00', '01') +
+    tlv('01', hasAmount ? '12' : '11') + // 12 = QR động (dùng 1 lần), 11 = QR tĩnh
+    tlv('38', merchantAccount) +
+    tlv('53', CURRENCY_VND);
+
+  if (hasAmount) {
+    payload += tlv('54', Math.round(input.amount!).toString());
+  }
+
+  payload += tlv('58', COUNTRY_VN);
+
+  if (input.transferContent) {
+    payload += tlv('62', tlv('08', input.transferContent));
+  }
+
+  payload += '6304';
+  return payload + crc16Ccitt(payload);
+}
+
+/**
+ * Ảnh QR render sẵn từ img.vietqr.io (cho client không tự vẽ được QR)
+ */
+export function buildVietQrImageUrl(
+  bankCode: string,
+  accountNumber: string,
+  accountName: string,
+  amount: number,
+  transferContent: string,
+): string {
+  const params = new URLSearchParams({
+    amount: Math.round(amount).toString(),
+    addInfo: transferContent,
+    accountName,
+  });
+  return `https://img.vietqr.io/image/${bankCode}-${accountNumber}-compact2.png?${params.toString()}`;
+}
+
+/**
+ * Extract payment code từ nội dung chuyển khoản
+ * Tìm pattern: SKO/SKT/SKB/SKS + ký tự
+ */
+export function extractPaymentCode(content: string): string | null {
+  const match = content.match(/SK[OTBS][A-Z0-9]+/i);
+  return match ? match[0].toUpperCase() : null;
+}
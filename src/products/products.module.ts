@@ -7,12 +7,14 @@ import { Category } from '../categories/entities/category.entity';
 import { OrderItem } from '../orders/entities/order-item.entity';
 import { InventoryModule } from '../inventory/inventory.module';
 import { CloudinaryModule } from '../cloudinary/cloudinary.module';
+import { WishlistModule } from '../wishlist/wishlist.module';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([Product, Category, OrderItem]),
     InventoryModule,
     CloudinaryModule,
+    WishlistModule,
   ],
   controllers: [ProductsController],
   providers: [ProductsService],
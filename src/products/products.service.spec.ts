@@ -7,6 +7,7 @@ import { Category } from '../categories/entities/category.entity';
 import { OrderItem } from '../orders/entities/order-item.entity';
 import { InventoryService } from '../inventory/inventory.service';
 import { CloudinaryService } from '../cloudinary/cloudinary.service';
+import { WishlistAlertsService } from '../wishlist/wishlist-alerts.service';
 import { NotFoundException } from '@nestjs/common';
 import { CreateProductDto } from './dto/create-product.dto';
 import { UpdateProductDto } from './dto/update-product.dto';
@@ -73,6 +74,11 @@ describe('ProductsService', () => {
     deleteImage: jest.fn(),
   };
 
+  const mockWishlistAlertsService = {
+    effectivePrice: jest.fn(),
+    onPriceChanged: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -97,6 +103,10 @@ describe('ProductsService', () => {
           provide: CloudinaryService,
           useValue: mockCloudinaryService,
         },
+        {
+          provide: WishlistAlertsService,
+          useValue: mockWishlistAlertsService,
+        },
       ],
     }).compile();
 
@@ -283,6 +293,23 @@ describe('ProductsService', () => {
       });
       expect(result.categories).toEqual(newCategories);
     });
+
+    it('should check price-drop alerts against the price before the update', async () => {
+      // Arrange
+      const updatedProduct = { ...mockProduct, salePercentage: 20 };
+      mockProductRepository.findOne.mockResolvedValue({ ...mockProduct });
+      mockProductRepository.save.mockResolvedValue(updatedProduct);
+      mockWishlistAlertsService.effectivePrice.mockReturnValue(100000);
+
+      // Act
+      await service.update('1', { salePercentage: 20 });
+
+      // Assert
+      expect(mockWishlistAlertsService.onPriceChanged).toHaveBeenCalledWith(
+        updatedProduct,
+        100000,
+      );
+    });
   });
 
   describe('remove', () => {
@@ -19,6 +19,7 @@ import { CloudinaryService } from '../cloudinary/cloudinary.service';
 import { OrderItem } from '../orders/entities/order-item.entity';
 import { BadRequestException } from '@nestjs/common';
 import { FindProductsDto } from './dto/find-products.dto';
+import { WishlistAlertsService } from '../wishlist/wishlist-alerts.service';
 
 export interface FindProductsResult {
   data: Product[];
@@ -38,6 +39,7 @@ export class ProductsService {
     private readonly orderItemRepository: Repository<OrderItem>,
     private readonly inventoryService: InventoryService,
     private readonly cloudinaryService: CloudinaryService,
+    private readonly wishlistAlertsService: WishlistAlertsService,
   ) {}
 
   /**
@@ -185,8 +187,11 @@ export class ProductsService {
     updateProductDto: UpdateProductDto,
   ): Promise<Product> {
     const product = await this.findOne(id);
+    const previousPrice = this.wishlistAlertsService.effectivePrice(product);
     Object.assign(product, updateProductDto);
-    return await this.productRepository.save(product);
+    const saved = await this.productRepository.save(product);
+    await this.wishlistAlertsService.onPriceChanged(saved, previousPrice);
+    return saved;
   }
 
   /**
@@ -200,6 +205,7 @@ export class ProductsService {
     files?: Express.Multer.File[],
   ): Promise<Product> {
     const product = await this.findOne(id);
+    const previousPrice = this.wishlistAlertsService.effectivePrice(product);
 
     // Update basic product data
     if (updateData.productName) product.productName = updateData.productName;
@@ -243,7 +249,10 @@ export class ProductsService {
       product.productImages = imageUrls;
     }
 
-    return await this.productRepository.save(product);
+    const saved = await this.productRepository.save(product);
+    // 🔔 Báo giảm giá cho khách đã lưu sản phẩm
+    await this.wishlistAlertsService.onPriceChanged(saved, previousPrice);
+    return saved;
   }
 
   /**
@@ -0,0 +1,188 @@
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  PromotionDiscountType,
+  PromotionKind,
+  PromotionScope,
+} from '../entities/promotion.entity';
+
+export class CreatePromotionDto {
+  @ApiProperty({ description: 'Tên khuyến mãi', example: 'Giảm 10% serum' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Mô tả hiển thị cho khách' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ enum: PromotionKind })
+  @IsEnum(PromotionKind)
+  kind: PromotionKind;
+
+  @ApiPropertyOptional({
+    description: 'Bắt buộc với voucher. Chữ và số, không phân biệt hoa thường',
+    example: 'SKIN10',
+  })
+  @IsOptional()
+  @Matches(/^[A-Za-z0-9_-]{3,50}$/, {
+    message: 'code must be 3-50 letters, digits, _ or -',
+  })
+  code?: string;
+
+  @ApiProperty({ enum: PromotionDiscountType })
+  @IsEnum(PromotionDiscountType)
+  discountType: PromotionDiscountType;
+
+  @ApiPropertyOptional({
+    description: 'fixed: số tiền VND, percentage: % (0 - 100)',
+    example: 10,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  value?: number;
+
+  @ApiPropertyOptional({
+    description: 'Trần số tiền giảm (percentage, free_shipping)',
+    example: 50000,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  maxDiscount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Giá trị tối thiểu của sản phẩm áp dụng',
+    example: 300000,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  minOrderValue?: number;
+
+  @ApiPropertyOptional({ description: 'buy_x_get_y: số lượng mua', example: 2 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  buyQuantity?: number;
+
+  @ApiPropertyOptional({
+    description: 'buy_x_get_y: số lượng tặng',
+    example: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  getQuantity?: number;
+
+  @ApiPropertyOptional({ enum: PromotionScope, default: PromotionScope.ALL })
+  @IsOptional()
+  @IsEnum(PromotionScope)
+  scope?: PromotionScope;
+
+  @ApiPropertyOptional({
+    description: 'categoryId, brand hoặc productId tuỳ scope',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  scopeValues?: string[];
+
+  @ApiPropertyOptional({ description: 'Tổng số lượt dùng tối đa' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  usageLimit?: number;
+
+  @ApiPropertyOptional({ description: 'Số lượt dùng tối đa mỗi khách' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  perUserLimit?: number;
+
+  @ApiPropertyOptional({ description: 'Chỉ áp dụng cho đơn hàng đầu tiên' })
+  @IsOptional()
+  @IsBoolean()
+  firstOrderOnly?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'false = không dùng chung với khuyến mãi khác',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  stackable?: boolean;
+
+  @ApiPropertyOptional({ example: '2025-03-01T00:00:00+07:00' })
+  @IsOptional()
+  @IsDateString()
+  startsAt?: string;
+
+  @ApiPropertyOptional({ example: '2025-03-31T23:59:59+07:00' })
+  @IsOptional()
+  @IsDateString()
+  endsAt?: string;
+}
+
+export class UpdatePromotionDto extends PartialType(
+  OmitType(CreatePromotionDto, ['kind', 'code', 'discountType'] as const),
+) {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class FindPromotionsDto {
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+
+  @ApiPropertyOptional({ enum: PromotionKind })
+  @IsOptional()
+  @IsEnum(PromotionKind)
+  kind?: PromotionKind;
+}
+
+export class CartPromotionPreviewDto {
+  @ApiPropertyOptional({
+    description: 'Mã voucher muốn thử',
+    example: 'SKIN10',
+  })
+  @IsOptional()
+  @IsString()
+  voucherCode?: string;
+}
@@ -0,0 +1,60 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Promotion } from './promotion.entity';
+import { Order } from '../../orders/entities/order.entity';
+
+/**
+ * Một lần dùng khuyến mãi. Được tạo khi checkout đổi quote thành
+ * đơn/payment; với chuyển khoản, orderId được gắn khi payment hoàn tất.
+ */
+@Entity('promotion_redemptions')
+@Index(['promotionId', 'userId'])
+@Index(['quoteId'])
+export class PromotionRedemption {
+  @PrimaryGeneratedColumn('uuid')
+  redemptionId: string;
+
+  @Column({ type: 'uuid' })
+  promotionId: string;
+
+  @ManyToOne(() => Promotion, { onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'promotionId' })
+  promotion: Promotion;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column({ type: 'uuid' })
+  quoteId: string;
+
+  @Column({ type: 'uuid', nullable: true })
+  orderId: string | null;
+
+  @ManyToOne(() => Order, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'orderId' })
+  order: Order;
+
+  @Column({ type: 'int', nullable: true })
+  paymentId: number | null;
+
+  @Column({ type: 'varchar', length: 50, nullable: true })
+  code: string | null;
+
+  // Giảm trên tiền hàng
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  discountAmount: number;
+
+  // Giảm trên phí vận chuyển
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  shippingDiscount: number;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,114 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum PromotionKind {
+  VOUCHER = 'voucher', // Khách nhập mã
+  AUTOMATIC = 'automatic', // Tự áp dụng khi giỏ hàng đủ điều kiện
+}
+
+export enum PromotionDiscountType {
+  FIXED = 'fixed', // Giảm số tiền cố định
+  PERCENTAGE = 'percentage', // Giảm theo % giá trị sản phẩm áp dụng
+  BUY_X_GET_Y = 'buy_x_get_y', // Mua X tặng Y cùng sản phẩm
+  FREE_SHIPPING = 'free_shipping', // Giảm phí vận chuyển
+}
+
+export enum PromotionScope {
+  ALL = 'all', // Toàn bộ sản phẩm
+  CATEGORY = 'category',
+  BRAND = 'brand',
+  PRODUCT = 'product',
+}
+
+/**
+ * Voucher hoặc khuyến mãi tự động cho đơn hàng sản phẩm.
+ * Khuyến mãi không stackable chỉ được áp dụng một mình.
+ */
+@Entity('promotions')
+@Index(['kind', 'isActive'])
+export class Promotion {
+  @PrimaryGeneratedColumn('uuid')
+  promotionId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'enum', enum: PromotionKind })
+  kind: PromotionKind;
+
+  // Chỉ voucher có mã, lưu dạng in hoa
+  @Column({ type: 'varchar', length: 50, nullable: true, unique: true })
+  code: string | null;
+
+  @Column({ type: 'enum', enum: PromotionDiscountType })
+  discountType: PromotionDiscountType;
+
+  // FIXED: số tiền (VND), PERCENTAGE: % (0 - 100), loại khác: không dùng
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  value: number;
+
+  // Trần số tiền giảm (PERCENTAGE, FREE_SHIPPING). NULL = không giới hạn
+  @Column({ type: 'decimal', precision: 15, scale: 2, nullable: true })
+  maxDiscount: number | null;
+
+  // Giá trị tối thiểu của các sản phẩm thuộc phạm vi áp dụng
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  minOrderValue: number;
+
+  // BUY_X_GET_Y: mua buyQuantity tặng getQuantity
+  @Column({ type: 'int', nullable: true })
+  buyQuantity: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  getQuantity: number | null;
+
+  @Column({ type: 'enum', enum: PromotionScope, default: PromotionScope.ALL })
+  scope: PromotionScope;
+
+  // categoryId / brand / productId tuỳ theo scope
+  @Column({ type: 'simple-array', nullable: true })
+  scopeValues: string[] | null;
+
+  // NULL = không giới hạn
+  @Column({ type: 'int', nullable: true })
+  usageLimit: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  perUserLimit: number | null;
+
+  @Column({ type: 'int', default: 0 })
+  usedCount: number;
+
+  @Column({ default: false })
+  firstOrderOnly: boolean;
+
+  @Column({ default: true })
+  stackable: boolean;
+
+  @Column({ type: 'datetime', nullable: true })
+  startsAt: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  endsAt: Date | null;
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  createdBy: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
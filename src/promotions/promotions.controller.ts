@@ -0,0 +1,136 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { PromotionsService } from './promotions.service';
+import {
+  CartPromotionPreviewDto,
+  CreatePromotionDto,
+  FindPromotionsDto,
+  UpdatePromotionDto,
+} from './dto/promotion.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User, UserRole } from '../users/entities/user.entity';
+import { ResponseHelper } from '../utils/responses';
+
+@ApiTags('Promotions')
+@Controller('promotions')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class PromotionsController {
+  constructor(private readonly promotionsService: PromotionsService) {}
+
+  @Get('cart-preview')
+  @Roles(UserRole.CUSTOMER)
+  @ApiOperation({
+    summary: 'Preview promotions for the selected cart items',
+    description:
+      'Automatic promotions plus the optional voucher. Free-shipping vouchers are only priced at checkout (POST /orders/quote).',
+  })
+  @ApiResponse({ status: 200, description: 'Cart promotions calculated' })
+  async previewCart(
+    @GetUser() user: User,
+    @Query() query: CartPromotionPreviewDto,
+  ) {
+    const preview = await this.promotionsService.previewCart(
+      user.userId,
+      query.voucherCode,
+    );
+    return ResponseHelper.success('Cart promotions calculated', preview);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a voucher or automatic promotion (Admin only)',
+    description:
+      'Vouchers need a code; automatic promotions apply to any eligible cart. Non-stackable promotions are never combined with others.',
+  })
+  @ApiResponse({ status: 201, description: 'Promotion created' })
+  async create(@GetUser() user: User, @Body() dto: CreatePromotionDto) {
+    const promotion = await this.promotionsService.create(dto, user.userId);
+    return ResponseHelper.created('Promotion created', promotion);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List promotions (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Promotions retrieved' })
+  async findAll(@Query() query: FindPromotionsDto) {
+    const { data, total } = await this.promotionsService.findAll(query);
+    return ResponseHelper.paginated(
+      data,
+      total,
+      query.page ?? 1,
+      query.limit ?? 50,
+    );
+  }
+
+  @Get(':promotionId')
+  @ApiOperation({ summary: 'Get a promotion (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Promotion retrieved' })
+  async findOne(
+    @Param('promotionId', new ParseUUIDPipe()) promotionId: string,
+  ) {
+    const promotion = await this.promotionsService.findOne(promotionId);
+    return ResponseHelper.success('Promotion retrieved', promotion);
+  }
+
+  @Get(':promotionId/redemptions')
+  @ApiOperation({ summary: 'List redemptions of a promotion (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Redemptions retrieved' })
+  async findRedemptions(
+    @Param('promotionId', new ParseUUIDPipe()) promotionId: string,
+    @Query() query: FindPromotionsDto,
+  ) {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+    const { data, total } = await this.promotionsService.findRedemptions(
+      promotionId,
+      page,
+      limit,
+    );
+    return ResponseHelper.paginated(data, total, page, limit);
+  }
+
+  @Patch(':promotionId')
+  @ApiOperation({
+    summary: 'Update a promotion (Admin only)',
+    description:
+      'Kind, code and discount type cannot be changed. Orders already placed keep their redeemed amounts.',
+  })
+  @ApiResponse({ status: 200, description: 'Promotion updated' })
+  async update(
+    @Param('promotionId', new ParseUUIDPipe()) promotionId: string,
+    @Body() dto: UpdatePromotionDto,
+  ) {
+    const promotion = await this.promotionsService.update(promotionId, dto);
+    return ResponseHelper.success('Promotion updated', promotion);
+  }
+
+  @Delete(':promotionId')
+  @ApiOperation({ summary: 'Deactivate a promotion (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Promotion deactivated' })
+  async deactivate(
+    @Param('promotionId', new ParseUUIDPipe()) promotionId: string,
+  ) {
+    const promotion = await this.promotionsService.deactivate(promotionId);
+    return ResponseHelper.success('Promotion deactivated', promotion);
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Promotion } from './entities/promotion.entity';
+import { PromotionRedemption } from './entities/promotion-redemption.entity';
+import { Order } from '../orders/entities/order.entity';
+import { PromotionsService } from './promotions.service';
+import { PromotionsController } from './promotions.controller';
+import { CartModule } from '../cart/cart.module';
+import { ProductsModule } from '../products/products.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Promotion, PromotionRedemption, Order]),
+    CartModule,
+    ProductsModule,
+  ],
+  controllers: [PromotionsController],
+  providers: [PromotionsService],
+  exports: [PromotionsService],
+})
+export class PromotionsModule {}
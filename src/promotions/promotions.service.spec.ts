@@ -0,0 +1,505 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { PromotionsService } from './promotions.service';
+import {
+  Promotion,
+  PromotionDiscountType,
+  PromotionKind,
+  PromotionScope,
+} from './entities/promotion.entity';
+import { PromotionRedemption } from './entities/promotion-redemption.entity';
+import { Order } from '../orders/entities/order.entity';
+import { ProductsService } from '../products/products.service';
+import { CartService } from '../cart/cart.service';
+
+describe('PromotionsService', () => {
+  let service: PromotionsService;
+
+  const userId = 'user-1';
+
+  const promotion = (overrides: Partial<Promotion>): Promotion =>
+    ({
+      promotionId: 'promotion-1',
+      name: 'Promotion',
+      description: null,
+      kind: PromotionKind.AUTOMATIC,
+      code: null,
+      discountType: PromotionDiscountType.FIXED,
+      value: '0.00',
+      maxDiscount: null,
+      minOrderValue: '0.00',
+      buyQuantity: null,
+      getQuantity: null,
+      scope: PromotionScope.ALL,
+      scopeValues: null,
+      usageLimit: null,
+      perUserLimit: null,
+      usedCount: 0,
+      firstOrderOnly: false,
+      stackable: true,
+      startsAt: null,
+      endsAt: null,
+      isActive: true,
+      ...overrides,
+    }) as unknown as Promotion;
+
+  // serum: 200k, thuộc category-serum, brand La Roche-Posay
+  // cleanser: 100k, brand CeraVe
+  const lines = [
+    { productId: 'serum', quantity: 1, unitPrice: 200000 },
+    { productId: 'cleanser', quantity: 3, unitPrice: 100000 },
+  ];
+
+  const products: Record<
+    string,
+    { brand: string; categories: { categoryId: string }[] }
+  > = {
+    serum: {
+      brand: 'La Roche-Posay',
+      categories: [{ categoryId: 'category-serum' }],
+    },
+    cleanser: {
+      brand: 'CeraVe',
+      categories: [{ categoryId: 'category-cleanser' }],
+    },
+  };
+
+  let automatic: Promotion[];
+  let vouchers: Promotion[];
+
+  const mockPromotionRepository = {
+    find: jest.fn(() => Promise.resolve(automatic)),
+    findOne: jest.fn(({ where }: { where: { code: string } }) =>
+      Promise.resolve(vouchers.find((v) => v.code === where.code) ?? null),
+    ),
+    exist: jest.fn(),
+    create: jest.fn((data: Partial<Promotion>) => data),
+    save: jest.fn((data: Partial<Promotion>) =>
+      Promise.resolve({ promotionId: 'promotion-new', ...data }),
+    ),
+  };
+
+  const mockRedemptionRepository = {
+    count: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockOrderRepository = {
+    count: jest.fn(),
+  };
+
+  const updateBuilder = {
+    update: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    execute: jest.fn(),
+  };
+
+  const mockManager = {
+    createQueryBuilder: jest.fn(() => updateBuilder),
+    create: jest.fn((_entity: unknown, data: object) => data),
+    save: jest.fn(),
+    find: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockEntityManager = {
+    ...mockManager,
+    transaction: jest.fn((work: (manager: typeof mockManager) => unknown) =>
+      work(mockManager),
+    ),
+  };
+
+  const mockProductsService = {
+    findOne: jest.fn((productId: string) =>
+      Promise.resolve({ productId, ...products[productId] }),
+    ),
+  };
+
+  const mockCartService = {
+    getCart: jest.fn(),
+    getSelectedItems: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PromotionsService,
+        {
+          provide: getRepositoryToken(Promotion),
+          useValue: mockPromotionRepository,
+        },
+        {
+          provide: getRepositoryToken(PromotionRedemption),
+          useValue: mockRedemptionRepository,
+        },
+        { provide: getRepositoryToken(Order), useValue: mockOrderRepository },
+        { provide: EntityManager, useValue: mockEntityManager },
+        { provide: ProductsService, useValue: mockProductsService },
+        { provide: CartService, useValue: mockCartService },
+      ],
+    }).compile();
+
+    service = module.get<PromotionsService>(PromotionsService);
+
+    automatic = [];
+    vouchers = [];
+    mockRedemptionRepository.count.mockResolvedValue(0);
+    mockOrderRepository.count.mockResolvedValue(0);
+    updateBuilder.execute.mockResolvedValue({ affected: 1 });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('evaluate', () => {
+    // TC-PROMO-001-01: Normal - Percentage voucher capped by maxDiscount
+    it('TC-PROMO-001-01: should apply a percentage voucher up to its cap', async () => {
+      vouchers = [
+        promotion({
+          kind: PromotionKind.VOUCHER,
+          code: 'SKIN10',
+          discountType: PromotionDiscountType.PERCENTAGE,
+          value: 10,
+          maxDiscount: 30000,
+        }),
+      ];
+
+      const result = await service.evaluate({
+        userId,
+        lines,
+        shippingFee: 0,
+        voucherCode: ' skin10 ',
+      });
+
+      expect(result.voucherError).toBeNull();
+      expect(result.voucherCode).toBe('SKIN10');
+      expect(result.discountAmount).toBe(30000); // 10% của 500k = 50k, trần 30k
+    });
+
+    // TC-PROMO-001-02: Normal - Brand scope only counts matching lines
+    it('TC-PROMO-001-02: should only discount products within the scope', async () => {
+      vouchers = [
+        promotion({
+          kind: PromotionKind.VOUCHER,
+          code: 'CERAVE',
+          discountType: PromotionDiscountType.PERCENTAGE,
+          value: 20,
+          scope: PromotionScope.BRAND,
+          scopeValues: ['cerave'],
+        }),
+      ];
+
+      const result = await service.evaluate({
+        userId,
+        lines,
+        shippingFee: 0,
+        voucherCode: 'CERAVE',
+      });
+
+      expect(result.discountAmount).toBe(60000); // 20% của 300k cleanser
+    });
+
+    // TC-PROMO-001-03: Abnormal - Minimum order value of the scope not reached
+    it('TC-PROMO-001-03: should reject a voucher below the minimum order value', async () => {
+      vouchers = [
+        promotion({
+          kind: PromotionKind.VOUCHER,
+          code: 'SERUM50',
+          value: 50000,
+          minOrderValue: '300000.00' as unknown as number,
+          scope: PromotionScope.CATEGORY,
+          scopeValues: ['category-serum'],
+        }),
+      ];
+
+      const result = await service.evaluate({
+        userId,
+        lines,
+        shippingFee: 0,
+        voucherCode: 'SERUM50',
+      });
+
+      expect(result.applied).toHaveLength(0);
+      expect(result.voucherCode).toBeNull();
+      expect(result.voucherError).toContain('Đơn hàng tối thiểu');
+    });
+
+    // TC-PROMO-001-04: Abnormal - Expired, exhausted and per-user limits
+    it('TC-PROMO-001-04: should report validity window and usage limits', async () => {
+      const at = new Date('2025-03-15T00:00:00Z');
+      vouchers = [
+        promotion({
+          kind: PromotionKind.VOUCHER,
+          code: 'EXPIRED',
+          value: 10000,
+          endsAt: new Date('2025-03-01T00:00:00Z'),
+        }),
+        promotion({
+          kind: PromotionKind.VOUCHER,
+          code: 'SOLDOUT',
+          value: 10000,
+          usageLimit: 5,
+          usedCount: 5,
+        }),
+        promotion({
+          kind: PromotionKind.VOUCHER,
+          code: 'ONCE',
+          value: 10000,
+          perUserLimit: 1,
+        }),
+      ];
+      mockRedemptionRepository.count.mockResolvedValue(1);
+
+      const evaluate = (voucherCode: string) =>
+        service.evaluate({ userId, lines, shippingFee: 0, voucherCode, at });
+
+      expect((await evaluate('EXPIRED')).voucherError).toBe(
+        'Mã giảm giá đã hết hạn',
+      );
+      expect((await evaluate('SOLDOUT')).voucherError).toBe(
+        'Mã giảm giá đã hết lượt sử dụng',
+      );
+      expect((await evaluate('ONCE')).voucherError).toBe(
+        'Bạn đã dùng hết lượt của mã giảm giá này',
+      );
+      expect((await evaluate('UNKNOWN')).voucherError).toBe(
+        'Mã giảm giá không tồn tại',
+      );
+    });
+
+    // TC-PROMO-001-05: Abnormal - First-order-only voucher for a returning customer
+    it('TC-PROMO-001-05: should reject a first-order voucher after a previous order', async () => {
+      vouchers = [
+        promotion({
+          kind: PromotionKind.VOUCHER,
+          code: 'WELCOME',
+          value: 50000,
+          firstOrderOnly: true,
+        }),
+      ];
+      mockOrderRepository.count.mockResolvedValue(1);
+
+      const result = await service.evaluate({
+        userId,
+        lines,
+        shippingFee: 0,
+        voucherCode: 'WELCOME',
+      });
+
+      expect(result.voucherError).toBe('Chỉ áp dụng cho đơn hàng đầu tiên');
+    });
+
+    // TC-PROMO-001-06: Normal - Buy X get Y and free shipping over N
+    it('TC-PROMO-001-06: should stack automatic buy-x-get-y and free shipping', async () => {
+      automatic = [
+        promotion({
+          promotionId: 'b2g1',
+          discountType: PromotionDiscountType.BUY_X_GET_Y,
+          buyQuantity: 2,
+          getQuantity: 1,
+        }),
+        promotion({
+          promotionId: 'freeship',
+          discountType: PromotionDiscountType.FREE_SHIPPING,
+          minOrderValue: 400000,
+          maxDiscount: 30000,
+        }),
+      ];
+
+      const result = await service.evaluate({
+        userId,
+        lines,
+        shippingFee: 45000,
+      });
+
+      expect(result.applied.map((a) => a.promotionId)).toEqual([
+        'b2g1',
+        'freeship',
+      ]);
+      expect(result.discountAmount).toBe(100000); // 3 cleanser → tặng 1
+      expect(result.shippingDiscount).toBe(30000);
+    });
+
+    // TC-PROMO-001-07: Normal - Non-stackable voucher wins only when larger
+    it('TC-PROMO-001-07: should pick the better of stackable and non-stackable promotions', async () => {
+      automatic = [promotion({ promotionId: 'auto', value: 20000 })];
+      vouchers = [
+        promotion({
+          promotionId: 'solo',
+          kind: PromotionKind.VOUCHER,
+          code: 'SOLO',
+          value: 15000,
+          stackable: false,
+        }),
+        promotion({
+          promotionId: 'big',
+          kind: PromotionKind.VOUCHER,
+          code: 'BIG',
+          value: 80000,
+          stackable: false,
+        }),
+      ];
+
+      const small = await service.evaluate({
+        userId,
+        lines,
+        shippingFee: 0,
+        voucherCode: 'SOLO',
+      });
+      expect(small.applied.map((a) => a.promotionId)).toEqual(['auto']);
+      expect(small.voucherError).toContain('không dùng chung');
+
+      const big = await service.evaluate({
+        userId,
+        lines,
+        shippingFee: 0,
+        voucherCode: 'BIG',
+      });
+      expect(big.applied.map((a) => a.promotionId)).toEqual(['big']);
+      expect(big.discountAmount).toBe(80000);
+      expect(big.voucherError).toBeNull();
+    });
+
+    // TC-PROMO-001-08: Boundary - Total discount never exceeds the goods total
+    it('TC-PROMO-001-08: should cap stacked discounts at the order subtotal', async () => {
+      automatic = [
+        promotion({ promotionId: 'a', value: 400000 }),
+        promotion({ promotionId: 'b', value: 400000 }),
+      ];
+
+      const result = await service.evaluate({
+        userId,
+        lines,
+        shippingFee: 0,
+      });
+
+      expect(result.discountAmount).toBe(500000);
+      expect(result.applied.map((a) => a.discountAmount)).toEqual([
+        400000, 100000,
+      ]);
+    });
+  });
+
+  describe('claim', () => {
+    const applied = [
+      {
+        promotionId: 'promotion-1',
+        name: 'Giảm 20k',
+        code: 'SKIN20',
+        discountType: PromotionDiscountType.FIXED,
+        discountAmount: 20000,
+        shippingDiscount: 0,
+      },
+    ];
+
+    // TC-PROMO-002-01: Normal - Redemption is recorded and usage counted
+    it('TC-PROMO-002-01: should increment usage and record a redemption', async () => {
+      await service.claim(applied, { userId, quoteId: 'quote-1' });
+
+      expect(updateBuilder.andWhere).toHaveBeenCalledWith(
+        '(usageLimit IS NULL OR usedCount < usageLimit)',
+      );
+      expect(mockManager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          promotionId: 'promotion-1',
+          userId,
+          quoteId: 'quote-1',
+          discountAmount: 20000,
+        }),
+      );
+    });
+
+    // TC-PROMO-002-02: Abnormal - Last usage taken by a concurrent checkout
+    it('TC-PROMO-002-02: should reject when the usage limit was reached concurrently', async () => {
+      updateBuilder.execute.mockResolvedValue({ affected: 0 });
+
+      await expect(
+        service.claim(applied, { userId, quoteId: 'quote-1' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    // TC-PROMO-002-03: Normal - Released redemptions give the usage back
+    it('TC-PROMO-002-03: should release redemptions without an order', async () => {
+      mockManager.find.mockResolvedValue([
+        { redemptionId: 'redemption-1', promotionId: 'promotion-1' },
+      ]);
+
+      const released = await service.release({ paymentId: 7 });
+
+      expect(released).toBe(1);
+      expect(mockManager.delete).toHaveBeenCalledWith(PromotionRedemption, {
+        redemptionId: 'redemption-1',
+      });
+      expect(updateBuilder.set).toHaveBeenCalledWith({
+        usedCount: expect.any(Function) as () => string,
+      });
+    });
+  });
+
+  describe('create', () => {
+    // TC-PROMO-003-01: Normal - Voucher code is stored in uppercase
+    it('TC-PROMO-003-01: should create a voucher with an uppercase code', async () => {
+      mockPromotionRepository.exist.mockResolvedValue(false);
+
+      const created = await service.create(
+        {
+          name: 'Giảm 10%',
+          kind: PromotionKind.VOUCHER,
+          code: 'skin10',
+          discountType: PromotionDiscountType.PERCENTAGE,
+          value: 10,
+        },
+        'admin-1',
+      );
+
+      expect(created.code).toBe('SKIN10');
+      expect(created.createdBy).toBe('admin-1');
+    });
+
+    // TC-PROMO-003-02: Abnormal - Invalid rules
+    it('TC-PROMO-003-02: should reject invalid promotion rules', async () => {
+      mockPromotionRepository.exist.mockResolvedValue(true);
+
+      await expect(
+        service.create(
+          {
+            name: 'Trùng mã',
+            kind: PromotionKind.VOUCHER,
+            code: 'SKIN10',
+            discountType: PromotionDiscountType.FIXED,
+            value: 10000,
+          },
+          'admin-1',
+        ),
+      ).rejects.toThrow(ConflictException);
+      await expect(
+        service.create(
+          {
+            name: 'Thiếu mã',
+            kind: PromotionKind.VOUCHER,
+            discountType: PromotionDiscountType.FIXED,
+            value: 10000,
+          },
+          'admin-1',
+        ),
+      ).rejects.toThrow('code is required for a voucher');
+      await expect(
+        service.create(
+          {
+            name: 'Mua 2 tặng ?',
+            kind: PromotionKind.AUTOMATIC,
+            discountType: PromotionDiscountType.BUY_X_GET_Y,
+            buyQuantity: 2,
+          },
+          'admin-1',
+        ),
+      ).rejects.toThrow('buyQuantity and getQuantity are required');
+    });
+  });
+});
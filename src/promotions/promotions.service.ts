@@ -0,0 +1,592 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, IsNull, Not, Repository } from 'typeorm';
+import {
+  Promotion,
+  PromotionDiscountType,
+  PromotionKind,
+  PromotionScope,
+} from './entities/promotion.entity';
+import { PromotionRedemption } from './entities/promotion-redemption.entity';
+import {
+  CreatePromotionDto,
+  FindPromotionsDto,
+  UpdatePromotionDto,
+} from './dto/promotion.dto';
+import { Order, OrderStatus } from '../orders/entities/order.entity';
+import { ProductsService } from '../products/products.service';
+import { CartService } from '../cart/cart.service';
+
+export interface PromotionLine {
+  productId: string;
+  quantity: number;
+  unitPrice: number; // Giá sau salePercentage
+}
+
+export interface PromotionContext {
+  userId: string;
+  lines: PromotionLine[];
+  shippingFee: number;
+  voucherCode?: string | null;
+  at?: Date; // Mặc định là hiện tại
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  code: string | null;
+  discountType: PromotionDiscountType;
+  discountAmount: number; // Giảm trên tiền hàng
+  shippingDiscount: number; // Giảm trên phí vận chuyển
+}
+
+export interface PromotionEvaluation {
+  applied: AppliedPromotion[];
+  discountAmount: number;
+  shippingDiscount: number;
+  voucherCode: string | null;
+  voucherError: string | null; // Lý do mã voucher không được áp dụng
+}
+
+interface ProductInfo {
+  brand: string;
+  categoryIds: string[];
+}
+
+@Injectable()
+export class PromotionsService {
+  private readonly logger = new Logger(PromotionsService.name);
+
+  constructor(
+    @InjectRepository(Promotion)
+    private readonly promotionRepository: Repository<Promotion>,
+    @InjectRepository(PromotionRedemption)
+    private readonly redemptionRepository: Repository<PromotionRedemption>,
+    @InjectRepository(Order)
+    private readonly orderRepository: Repository<Order>,
+    private readonly entityManager: EntityManager,
+    private readonly productsService: ProductsService,
+    private readonly cartService: CartService,
+  ) {}
+
+  async create(
+    dto: CreatePromotionDto,
+    adminUserId: string,
+  ): Promise<Promotion> {
+    const code =
+      dto.kind === PromotionKind.VOUCHER ? dto.code?.toUpperCase() : null;
+    if (dto.kind === PromotionKind.VOUCHER && !code) {
+      throw new BadRequestException('code is required for a voucher');
+    }
+    if (dto.kind === PromotionKind.AUTOMATIC && dto.code) {
+      throw new BadRequestException(
+        'Automatic promotions are applied without a code',
+      );
+    }
+    if (code && (await this.promotionRepository.exist({ where: { code } }))) {
+      throw new ConflictException(`Voucher code ${code} already exists`);
+    }
+
+    const promotion = this.promotionRepository.create({
+      name: dto.name,
+      description: dto.description ?? null,
+      kind: dto.kind,
+      code,
+      discountType: dto.discountType,
+      value: dto.value ?? 0,
+      maxDiscount: dto.maxDiscount ?? null,
+      minOrderValue: dto.minOrderValue ?? 0,
+      buyQuantity: dto.buyQuantity ?? null,
+      getQuantity: dto.getQuantity ?? null,
+      scope: dto.scope ?? PromotionScope.ALL,
+      scopeValues: dto.scopeValues?.length ? dto.scopeValues : null,
+      usageLimit: dto.usageLimit ?? null,
+      perUserLimit: dto.perUserLimit ?? null,
+      firstOrderOnly: dto.firstOrderOnly ?? false,
+      stackable: dto.stackable ?? true,
+      ...this.parseWindow(dto.startsAt, dto.endsAt),
+      createdBy: adminUserId,
+    });
+    this.validateRules(promotion);
+
+    const saved = await this.promotionRepository.save(promotion);
+    this.logger.log(
+      `🎟️ Promotion ${saved.promotionId} (${saved.kind}/${saved.discountType}${code ? ` ${code}` : ''}) created by ${adminUserId}`,
+    );
+    return saved;
+  }
+
+  async findAll(
+    query: FindPromotionsDto,
+  ): Promise<{ data: Promotion[]; total: number }> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+    const [data, total] = await this.promotionRepository.findAndCount({
+      where: { ...(query.kind && { kind: query.kind }) },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { data, total };
+  }
+
+  async findOne(promotionId: string): Promise<Promotion> {
+    const promotion = await this.promotionRepository.findOne({
+      where: { promotionId },
+    });
+    if (!promotion) {
+      throw new NotFoundException(`Promotion ${promotionId} not found`);
+    }
+    return promotion;
+  }
+
+  async update(
+    promotionId: string,
+    dto: UpdatePromotionDto,
+  ): Promise<Promotion> {
+    const promotion = await this.findOne(promotionId);
+    const { startsAt, endsAt, ...rest } = dto;
+
+    Object.assign(promotion, {
+      ...rest,
+      ...this.parseWindow(
+        startsAt ?? promotion.startsAt?.toISOString(),
+        endsAt ?? promotion.endsAt?.toISOString(),
+      ),
+    });
+    this.validateRules(promotion);
+
+    return this.promotionRepository.save(promotion);
+  }
+
+  async deactivate(promotionId: string): Promise<Promotion> {
+    const promotion = await this.findOne(promotionId);
+    promotion.isActive = false;
+    return this.promotionRepository.save(promotion);
+  }
+
+  async findRedemptions(
+    promotionId: string,
+    page = 1,
+    limit = 50,
+  ): Promise<{ data: PromotionRedemption[]; total: number }> {
+    const [data, total] = await this.redemptionRepository.findAndCount({
+      where: { promotionId },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { data, total };
+  }
+
+  /**
+   * Khuyến mãi áp dụng cho các sản phẩm đang chọn trong giỏ (hiển thị giỏ hàng).
+   * Chưa có phí vận chuyển nên free shipping chỉ hiện khi checkout.
+   */
+  async previewCart(
+    userId: string,
+    voucherCode?: string,
+  ): Promise<PromotionEvaluation & { subtotal: number; totalAfter: number }> {
+    const cart = await this.cartService.getCart(userId);
+    const lines = this.cartService.getSelectedItems(cart).map((item) => ({
+      productId: item.productId,
+      quantity: item.quantity,
+      unitPrice: item.price || 0,
+    }));
+
+    const evaluation = await this.evaluate({
+      userId,
+      lines,
+      shippingFee: 0,
+      voucherCode,
+    });
+    const subtotal = lines.reduce(
+      (sum, line) => sum + line.unitPrice * line.quantity,
+      0,
+    );
+
+    return {
+      ...evaluation,
+      subtotal,
+      totalAfter: subtotal - evaluation.discountAmount,
+    };
+  }
+
+  /**
+   * Tính khuyến mãi cho một giỏ hàng.
+   * Stacking: các khuyến mãi stackable cộng dồn; khuyến mãi không stackable
+   * chỉ áp dụng một mình. Chọn phương án giảm nhiều nhất cho khách.
+   */
+  async evaluate(context: PromotionContext): Promise<PromotionEvaluation> {
+    const at = context.at ?? new Date();
+    const voucherCode = context.voucherCode?.trim().toUpperCase() || null;
+    let voucherError: string | null = null;
+
+    const products = await this.loadProducts(context.lines);
+
+    const automatic = await this.promotionRepository.find({
+      where: { kind: PromotionKind.AUTOMATIC, isActive: true },
+    });
+
+    const candidates: { promotion: Promotion; result: AppliedPromotion }[] = [];
+
+    for (const promotion of automatic) {
+      const outcome = await this.apply(promotion, context, products, at);
+      if (typeof outcome !== 'string') {
+        candidates.push({ promotion, result: outcome });
+      }
+    }
+
+    let voucher: Promotion | null = null;
+    if (voucherCode) {
+      voucher = await this.promotionRepository.findOne({
+        where: { code: voucherCode, kind: PromotionKind.VOUCHER },
+      });
+      if (!voucher || !voucher.isActive) {
+        voucherError = 'Mã giảm giá không tồn tại';
+        voucher = null;
+      } else {
+        const outcome = await this.apply(voucher, context, products, at);
+        if (typeof outcome === 'string') {
+          voucherError = outcome;
+          voucher = null;
+        } else {
+          candidates.push({ promotion: voucher, result: outcome });
+        }
+      }
+    }
+
+    // Phương án: tất cả stackable, hoặc từng khuyến mãi không stackable đứng một mình
+    const stackable = candidates.filter((c) => c.promotion.stackable);
+    const options = [
+      stackable,
+      ...candidates.filter((c) => !c.promotion.stackable).map((c) => [c]),
+    ];
+    const value = (option: typeof candidates) =>
+      option.reduce(
+        (sum, c) => sum + c.result.discountAmount + c.result.shippingDiscount,
+        0,
+      );
+    const best = options.reduce((a, b) => (value(b) > value(a) ? b : a));
+
+    if (voucher && !best.some((c) => c.promotion === voucher)) {
+      voucherError =
+        'Mã giảm giá không dùng chung được với khuyến mãi đang áp dụng';
+    }
+
+    // Tổng giảm không vượt quá tiền hàng / phí vận chuyển
+    let remainingGoods = context.lines.reduce(
+      (sum, line) => sum + line.unitPrice * line.quantity,
+      0,
+    );
+    let remainingShipping = context.shippingFee;
+    const applied: AppliedPromotion[] = [];
+    for (const { result } of best) {
+      const discountAmount = Math.min(result.discountAmount, remainingGoods);
+      const shippingDiscount = Math.min(
+        result.shippingDiscount,
+        remainingShipping,
+      );
+      if (discountAmount <= 0 && shippingDiscount <= 0) continue;
+
+      remainingGoods -= discountAmount;
+      remainingShipping -= shippingDiscount;
+      applied.push({ ...result, discountAmount, shippingDiscount });
+    }
+
+    return {
+      applied,
+      discountAmount: applied.reduce((sum, a) => sum + a.discountAmount, 0),
+      shippingDiscount: applied.reduce((sum, a) => sum + a.shippingDiscount, 0),
+      voucherCode: voucherError ? null : voucherCode,
+      voucherError,
+    };
+  }
+
+  /**
+   * Ghi nhận lượt dùng khi checkout. Tăng usedCount có điều kiện để không
+   * vượt usageLimit khi nhiều đơn đặt cùng lúc.
+   */
+  async claim(
+    applied: AppliedPromotion[],
+    redemption: { userId: string; quoteId: string },
+  ): Promise<void> {
+    if (applied.length === 0) return;
+
+    await this.entityManager.transaction(async (manager) => {
+      for (const promotion of applied) {
+        const result = await manager
+          .createQueryBuilder()
+          .update(Promotion)
+          .set({ usedCount: () => 'usedCount + 1' })
+          .where('promotionId = :promotionId', {
+            promotionId: promotion.promotionId,
+          })
+          .andWhere('(usageLimit IS NULL OR usedCount < usageLimit)')
+          .execute();
+        if (!result.affected) {
+          throw new BadRequestException(
+            `Khuyến mãi "${promotion.name}" đã hết lượt sử dụng. Vui lòng tạo lại báo giá.`,
+          );
+        }
+
+        await manager.save(
+          manager.create(PromotionRedemption, {
+            promotionId: promotion.promotionId,
+            userId: redemption.userId,
+            quoteId: redemption.quoteId,
+            code: promotion.code,
+            discountAmount: promotion.discountAmount,
+            shippingDiscount: promotion.shippingDiscount,
+          }),
+        );
+      }
+    });
+  }
+
+  async attachToQuote(
+    quoteId: string,
+    target: { orderId?: string; paymentId?: number },
+  ): Promise<void> {
+    await this.redemptionRepository.update({ quoteId }, target);
+  }
+
+  /**
+   * Thanh toán chuyển khoản: đơn được tạo sau khi nhận tiền
+   */
+  async attachOrderByPayment(
+    paymentId: number,
+    orderId: string,
+  ): Promise<void> {
+    await this.redemptionRepository.update(
+      { paymentId, orderId: IsNull() },
+      { orderId },
+    );
+  }
+
+  /**
+   * Trả lại lượt dùng khi checkout rollback hoặc payment hết hạn chưa tạo đơn
+   */
+  async release(
+    where: { quoteId: string } | { paymentId: number },
+    manager: EntityManager = this.entityManager,
+  ): Promise<number> {
+    const redemptions = await manager.find(PromotionRedemption, {
+      where: { ...where, orderId: IsNull() },
+    });
+
+    for (const redemption of redemptions) {
+      await manager
+        .createQueryBuilder()
+        .update(Promotion)
+        .set({ usedCount: () => 'GREATEST(usedCount - 1, 0)' })
+        .where('promotionId = :promotionId', {
+          promotionId: redemption.promotionId,
+        })
+        .execute();
+      await manager.delete(PromotionRedemption, {
+        redemptionId: redemption.redemptionId,
+      });
+    }
+
+    if (redemptions.length > 0) {
+      this.logger.log(
+        `↩️ Released ${redemptions.length} promotion redemptions (${JSON.stringify(where)})`,
+      );
+    }
+    return redemptions.length;
+  }
+
+  /**
+   * Tính mức giảm của một khuyến mãi, hoặc trả về lý do không áp dụng được
+   */
+  private async apply(
+    promotion: Promotion,
+    context: PromotionContext,
+    products: Map<string, ProductInfo>,
+    at: Date,
+  ): Promise<AppliedPromotion | string> {
+    if (promotion.startsAt && new Date(promotion.startsAt) > at) {
+      return 'Mã giảm giá chưa đến thời gian áp dụng';
+    }
+    if (promotion.endsAt && new Date(promotion.endsAt) < at) {
+      return 'Mã giảm giá đã hết hạn';
+    }
+    if (
+      promotion.usageLimit !== null &&
+      promotion.usedCount >= promotion.usageLimit
+    ) {
+      return 'Mã giảm giá đã hết lượt sử dụng';
+    }
+
+    const lines = context.lines.filter((line) =>
+      this.inScope(promotion, products.get(line.productId), line.productId),
+    );
+    if (lines.length === 0) {
+      return 'Không có sản phẩm nào thuộc phạm vi áp dụng';
+    }
+
+    const eligibleTotal = lines.reduce(
+      (sum, line) => sum + line.unitPrice * line.quantity,
+      0,
+    );
+    if (eligibleTotal < Number(promotion.minOrderValue)) {
+      return `Đơn hàng tối thiểu ${Number(promotion.minOrderValue).toLocaleString('vi-VN')} VND`;
+    }
+
+    if (promotion.perUserLimit !== null) {
+      const used = await this.redemptionRepository.count({
+        where: { promotionId: promotion.promotionId, userId: context.userId },
+      });
+      if (used >= promotion.perUserLimit) {
+        return 'Bạn đã dùng hết lượt của mã giảm giá này';
+      }
+    }
+
+    if (promotion.firstOrderOnly) {
+      const orders = await this.orderRepository.count({
+        where: {
+          customer: { user: { userId: context.userId } },
+          status: Not(In([OrderStatus.CANCELLED, OrderStatus.REJECTED])),
+        },
+      });
+      if (orders > 0) {
+        return 'Chỉ áp dụng cho đơn hàng đầu tiên';
+      }
+    }
+
+    let discountAmount = 0;
+    let shippingDiscount = 0;
+    const value = Number(promotion.value);
+    const cap =
+      promotion.maxDiscount !== null ? Number(promotion.maxDiscount) : Infinity;
+
+    switch (promotion.discountType) {
+      case PromotionDiscountType.FIXED:
+        discountAmount = Math.min(value, eligibleTotal);
+        break;
+      case PromotionDiscountType.PERCENTAGE:
+        discountAmount = Math.min(
+          Math.round((eligibleTotal * value) / 100),
+          cap,
+        );
+        break;
+      case PromotionDiscountType.BUY_X_GET_Y: {
+        // Mỗi nhóm (X + Y) sản phẩm cùng loại được tặng Y
+        const buy = promotion.buyQuantity ?? 0;
+        const get = promotion.getQuantity ?? 0;
+        discountAmount = lines.reduce(
+          (sum, line) =>
+            sum +
+            Math.floor(line.quantity / (buy + get)) * get * line.unitPrice,
+          0,
+        );
+        if (discountAmount === 0) {
+          return `Mua ${buy} tặng ${get}: chưa đủ số lượng`;
+        }
+        break;
+      }
+      case PromotionDiscountType.FREE_SHIPPING:
+        shippingDiscount = Math.min(context.shippingFee, cap);
+        break;
+    }
+
+    return {
+      promotionId: promotion.promotionId,
+      name: promotion.name,
+      code: promotion.code,
+      discountType: promotion.discountType,
+      discountAmount,
+      shippingDiscount,
+    };
+  }
+
+  private inScope(
+    promotion: Promotion,
+    product: ProductInfo | undefined,
+    productId: string,
+  ): boolean {
+    const values = promotion.scopeValues ?? [];
+    switch (promotion.scope) {
+      case PromotionScope.ALL:
+        return true;
+      case PromotionScope.PRODUCT:
+        return values.includes(productId);
+      case PromotionScope.BRAND:
+        return (
+          !!product &&
+          values.some(
+            (brand) => brand.toLowerCase() === product.brand.toLowerCase(),
+          )
+        );
+      case PromotionScope.CATEGORY:
+        return (
+          !!product && product.categoryIds.some((id) => values.includes(id))
+        );
+    }
+  }
+
+  private async loadProducts(
+    lines: PromotionLine[],
+  ): Promise<Map<string, ProductInfo>> {
+    const products = new Map<string, ProductInfo>();
+    for (const line of lines) {
+      if (products.has(line.productId)) continue;
+      const product = await this.productsService.findOne(line.productId);
+      products.set(line.productId, {
+        brand: product.brand ?? '',
+        categoryIds: (product.categories ?? []).map((c) => c.categoryId),
+      });
+    }
+    return products;
+  }
+
+  private validateRules(promotion: Promotion): void {
+    const value = Number(promotion.value);
+    switch (promotion.discountType) {
+      case PromotionDiscountType.FIXED:
+        if (value <= 0) {
+          throw new BadRequestException('value must be greater than 0');
+        }
+        break;
+      case PromotionDiscountType.PERCENTAGE:
+        if (value <= 0 || value > 100) {
+          throw new BadRequestException('value must be between 0 and 100');
+        }
+        break;
+      case PromotionDiscountType.BUY_X_GET_Y:
+        if (!promotion.buyQuantity || !promotion.getQuantity) {
+          throw new BadRequestException(
+            'buyQuantity and getQuantity are required for buy_x_get_y',
+          );
+        }
+        break;
+      case PromotionDiscountType.FREE_SHIPPING:
+        break;
+    }
+
+    if (promotion.scope !== PromotionScope.ALL && !promotion.scopeValues) {
+      throw new BadRequestException(
+        `scopeValues is required when scope = ${promotion.scope}`,
+      );
+    }
+  }
+
+  private parseWindow(
+    startsAt?: string,
+    endsAt?: string,
+  ): { startsAt: Date | null; endsAt: Date | null } {
+    const start = startsAt ? new Date(startsAt) : null;
+    const end = endsAt ? new Date(endsAt) : null;
+    if (start && end && end <= start) {
+      throw new BadRequestException('endsAt must be after startsAt');
+    }
+    return { startsAt: start, endsAt: end };
+  }
+}
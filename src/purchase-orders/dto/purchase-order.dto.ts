@@ -0,0 +1,187 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEmail,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export class CreateSupplierDto {
+  @ApiProperty({ example: 'SUP-LOREAL' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  code: string;
+
+  @ApiProperty({ example: "L'Oréal Việt Nam" })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Nguyễn Văn A' })
+  @IsOptional()
+  @IsString()
+  contactName?: string;
+
+  @ApiPropertyOptional({ example: '0281234567' })
+  @IsOptional()
+  @IsString()
+  phone?: string;
+
+  @ApiPropertyOptional({ example: 'orders@supplier.vn' })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional({ example: '123 Lê Lợi, Quận 1, Hồ Chí Minh' })
+  @IsOptional()
+  @IsString()
+  address?: string;
+
+  @ApiPropertyOptional({ example: '0301234567' })
+  @IsOptional()
+  @IsString()
+  taxCode?: string;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateSupplierDto extends PartialType(CreateSupplierDto) {}
+
+export class PurchaseOrderLineDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440001' })
+  @IsUUID()
+  productId: string;
+
+  @ApiProperty({ example: 100, minimum: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @ApiProperty({ example: 185000, description: 'Agreed unit cost' })
+  @IsNumber()
+  @Min(0)
+  unitCost: number;
+}
+
+export class CreatePurchaseOrderDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440020' })
+  @IsUUID()
+  supplierId: string;
+
+  @ApiPropertyOptional({
+    example: '550e8400-e29b-41d4-a716-446655440000',
+    description: 'Warehouse receiving the goods',
+  })
+  @IsOptional()
+  @IsUUID()
+  warehouseId?: string;
+
+  @ApiProperty({ type: [PurchaseOrderLineDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => PurchaseOrderLineDto)
+  lines: PurchaseOrderLineDto[];
+
+  @ApiPropertyOptional({ example: '2026-11-05', description: 'YYYY-MM-DD' })
+  @IsOptional()
+  @IsDateString()
+  @Matches(DATE_ONLY, { message: 'expectedDeliveryDate must be YYYY-MM-DD' })
+  expectedDeliveryDate?: string;
+
+  @ApiPropertyOptional({ example: 'Nhập hàng cho chương trình 11.11' })
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class GoodsReceiptItemDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440030' })
+  @IsUUID()
+  lineId: string;
+
+  @ApiProperty({ example: 48, description: 'Units accepted into stock' })
+  @IsInt()
+  @Min(0)
+  quantity: number;
+
+  @ApiPropertyOptional({
+    example: 2,
+    description: 'Damaged or wrong units sent back to the supplier',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  rejectedQuantity?: number;
+
+  @ApiPropertyOptional({
+    example: 187000,
+    description: 'Invoiced unit cost if it differs from the order',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  unitCost?: number;
+
+  @ApiPropertyOptional({ example: 'LOT-2026-0418' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  lotNumber?: string;
+
+  @ApiPropertyOptional({ example: '2026-04-01', description: 'YYYY-MM-DD' })
+  @IsOptional()
+  @IsDateString()
+  @Matches(DATE_ONLY, { message: 'manufactureDate must be YYYY-MM-DD' })
+  manufactureDate?: string;
+
+  @ApiPropertyOptional({ example: '2028-04-01', description: 'YYYY-MM-DD' })
+  @IsOptional()
+  @IsDateString()
+  @Matches(DATE_ONLY, { message: 'expiryDate must be YYYY-MM-DD' })
+  expiryDate?: string;
+
+  @ApiPropertyOptional({ example: '2 chai bị vỡ nắp khi giao' })
+  @IsOptional()
+  @IsString()
+  discrepancyNote?: string;
+}
+
+export class ReceivePurchaseOrderDto {
+  @ApiProperty({ type: [GoodsReceiptItemDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => GoodsReceiptItemDto)
+  items: GoodsReceiptItemDto[];
+
+  @ApiPropertyOptional({ example: 'Giao lần 1, phiếu giao hàng số 00123' })
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
+
+export class ClosePurchaseOrderDto {
+  @ApiProperty({ example: 'Nhà cung cấp hết hàng, không giao phần còn lại' })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
@@ -0,0 +1,56 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { PurchaseOrder } from './purchase-order.entity';
+
+export interface GoodsReceiptItem {
+  lineId: string;
+  productId: string;
+  expectedQuantity: number; // Còn chờ nhận trước phiếu này
+  receivedQuantity: number;
+  rejectedQuantity: number;
+  unitCost: number; // Giá nhập thực tế
+  lotId: string | null;
+  lotNumber: string | null;
+  expiryDate: string | null;
+  discrepancyNote: string | null;
+}
+
+/**
+ * Phiếu nhập kho cho một lần giao hàng của nhà cung cấp (một PO có thể nhận nhiều lần)
+ */
+@Entity('goods_receipts')
+@Index(['purchaseOrderId'])
+export class GoodsReceipt {
+  @PrimaryGeneratedColumn('uuid')
+  receiptId: string;
+
+  @Column({ type: 'uuid' })
+  purchaseOrderId: string;
+
+  @ManyToOne(() => PurchaseOrder, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'purchaseOrderId' })
+  purchaseOrder: PurchaseOrder;
+
+  @Column({ type: 'json' })
+  items: GoodsReceiptItem[];
+
+  // Có dòng bị trả lại hoặc có ghi chú chênh lệch so với phiếu giao
+  @Column({ type: 'boolean', default: false })
+  hasDiscrepancy: boolean;
+
+  @Column({ type: 'text', nullable: true })
+  note: string | null;
+
+  @Column({ type: 'varchar', length: 36 })
+  receivedBy: string;
+
+  @CreateDateColumn()
+  receivedAt: Date;
+}
@@ -0,0 +1,46 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { PurchaseOrder } from './purchase-order.entity';
+import { Product } from '../../products/entities/product.entity';
+
+@Entity('purchase_order_lines')
+export class PurchaseOrderLine {
+  @PrimaryGeneratedColumn('uuid')
+  lineId: string;
+
+  @Column({ type: 'uuid' })
+  purchaseOrderId: string;
+
+  @ManyToOne(() => PurchaseOrder, (order) => order.lines, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'purchaseOrderId' })
+  purchaseOrder: PurchaseOrder;
+
+  @Column({ type: 'uuid' })
+  productId: string;
+
+  @ManyToOne(() => Product, { onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'productId' })
+  product: Product;
+
+  @Column({ type: 'int' })
+  orderedQuantity: number;
+
+  // Đã nhập kho
+  @Column({ type: 'int', default: 0 })
+  receivedQuantity: number;
+
+  // Hàng lỗi / sai quy cách bị trả lại, không nhập kho
+  @Column({ type: 'int', default: 0 })
+  rejectedQuantity: number;
+
+  // Đơn giá đặt mua
+  @Column({ type: 'decimal', precision: 10, scale: 2 })
+  unitCost: number;
+}
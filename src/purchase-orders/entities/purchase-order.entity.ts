@@ -0,0 +1,93 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  ManyToOne,
+  OneToMany,
+  JoinColumn,
+} from 'typeorm';
+import { Supplier } from './supplier.entity';
+import { PurchaseOrderLine } from './purchase-order-line.entity';
+import { Warehouse } from '../../warehouses/entities/warehouse.entity';
+
+export enum PurchaseOrderStatus {
+  DRAFT = 'DRAFT', // Đang soạn, chưa gửi nhà cung cấp
+  ORDERED = 'ORDERED', // Đã gửi, chờ giao hàng
+  PARTIALLY_RECEIVED = 'PARTIALLY_RECEIVED', // Đã nhận một phần
+  RECEIVED = 'RECEIVED', // Đã nhận đủ
+  CLOSED = 'CLOSED', // Đóng khi còn thiếu, không chờ nhận thêm
+  CANCELLED = 'CANCELLED', // Hủy trước khi nhận hàng
+}
+
+@Entity('purchase_orders')
+@Index(['code'], { unique: true })
+@Index(['supplierId', 'status'])
+export class PurchaseOrder {
+  @PrimaryGeneratedColumn('uuid')
+  purchaseOrderId: string;
+
+  @Column({ type: 'varchar', length: 30 })
+  code: string;
+
+  @Column({ type: 'uuid' })
+  supplierId: string;
+
+  @ManyToOne(() => Supplier, { onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'supplierId' })
+  supplier: Supplier;
+
+  // Kho nhận hàng, null = nhập thẳng tồn tổng
+  @Column({ type: 'uuid', nullable: true })
+  warehouseId: string | null;
+
+  @ManyToOne(() => Warehouse, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'warehouseId' })
+  warehouse: Warehouse | null;
+
+  @OneToMany(() => PurchaseOrderLine, (line) => line.purchaseOrder, {
+    cascade: true,
+  })
+  lines: PurchaseOrderLine[];
+
+  @Column({
+    type: 'enum',
+    enum: PurchaseOrderStatus,
+    default: PurchaseOrderStatus.DRAFT,
+  })
+  status: PurchaseOrderStatus;
+
+  // Tổng giá trị theo số lượng đặt và đơn giá
+  @Column({ type: 'decimal', precision: 14, scale: 2, default: 0 })
+  totalCost: number;
+
+  @Column({ type: 'date', nullable: true })
+  expectedDeliveryDate: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  note: string | null;
+
+  // Lý do đóng khi còn thiếu hàng / hủy
+  @Column({ type: 'text', nullable: true })
+  closeReason: string | null;
+
+  @Column({ type: 'varchar', length: 36 })
+  createdBy: string;
+
+  @Column({ type: 'datetime', nullable: true })
+  orderedAt: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  receivedAt: Date | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  closedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
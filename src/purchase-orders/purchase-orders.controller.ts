@@ -0,0 +1,214 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseBoolPipe,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { ReorderService } from './reorder.service';
+import {
+  ClosePurchaseOrderDto,
+  CreatePurchaseOrderDto,
+  CreateSupplierDto,
+  ReceivePurchaseOrderDto,
+  UpdateSupplierDto,
+} from './dto/purchase-order.dto';
+import { PurchaseOrderStatus } from './entities/purchase-order.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User, UserRole } from '../users/entities/user.entity';
+import { ResponseHelper } from '../utils/responses';
+
+@ApiTags('Purchase Orders')
+@Controller('purchase-orders')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.STAFF, UserRole.ADMIN)
+@ApiBearerAuth()
+export class PurchaseOrdersController {
+  constructor(
+    private readonly purchaseOrdersService: PurchaseOrdersService,
+    private readonly reorderService: ReorderService,
+  ) {}
+
+  // ===== Suppliers =====
+
+  @Get('suppliers')
+  @ApiOperation({ summary: 'List suppliers' })
+  @ApiQuery({ name: 'includeInactive', required: false, type: Boolean })
+  async findSuppliers(
+    @Query('includeInactive', new ParseBoolPipe({ optional: true }))
+    includeInactive?: boolean,
+  ) {
+    const suppliers =
+      await this.purchaseOrdersService.findSuppliers(includeInactive);
+    return ResponseHelper.success('Suppliers retrieved', suppliers);
+  }
+
+  @Post('suppliers')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create a supplier (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Supplier created' })
+  async createSupplier(@Body() dto: CreateSupplierDto) {
+    const supplier = await this.purchaseOrdersService.createSupplier(dto);
+    return ResponseHelper.created('Supplier created', supplier);
+  }
+
+  @Get('suppliers/:supplierId')
+  @ApiOperation({ summary: 'Get a supplier' })
+  async findSupplier(
+    @Param('supplierId', new ParseUUIDPipe()) supplierId: string,
+  ) {
+    const supplier = await this.purchaseOrdersService.findSupplier(supplierId);
+    return ResponseHelper.success('Supplier retrieved', supplier);
+  }
+
+  @Patch('suppliers/:supplierId')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Update a supplier (Admin only)' })
+  async updateSupplier(
+    @Param('supplierId', new ParseUUIDPipe()) supplierId: string,
+    @Body() dto: UpdateSupplierDto,
+  ) {
+    const supplier = await this.purchaseOrdersService.updateSupplier(
+      supplierId,
+      dto,
+    );
+    return ResponseHelper.success('Supplier updated', supplier);
+  }
+
+  // ===== Reorder points =====
+
+  @Get('reorder-report')
+  @ApiOperation({
+    summary: 'Reorder status of products with a reorder point',
+    description:
+      'Available stock, daily sales over the last 30 days, days of cover and suggested quantity. Products needing a reorder come first.',
+  })
+  async getReorderReport() {
+    const report = await this.reorderService.getReport();
+    return ResponseHelper.success('Reorder report retrieved', report);
+  }
+
+  @Post('reorder-check')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Run the reorder point check now (Admin only)',
+    description:
+      'Same as the daily job: notifies staff of new low-stock crossings and drafts restocks for approval',
+  })
+  async checkReorderPoints() {
+    const result = await this.reorderService.checkReorderPoints();
+    return ResponseHelper.success('Reorder check completed', result);
+  }
+
+  // ===== Purchase orders =====
+
+  @Get()
+  @ApiOperation({ summary: 'List purchase orders' })
+  @ApiQuery({ name: 'status', required: false, enum: PurchaseOrderStatus })
+  @ApiQuery({ name: 'supplierId', required: false })
+  async findAll(
+    @Query('status') status?: PurchaseOrderStatus,
+    @Query('supplierId') supplierId?: string,
+  ) {
+    const orders = await this.purchaseOrdersService.findAll({
+      status,
+      supplierId,
+    });
+    return ResponseHelper.success('Purchase orders retrieved', orders);
+  }
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Create a draft purchase order (Admin only)',
+    description: 'Lines hold the expected quantity and agreed unit cost.',
+  })
+  @ApiResponse({ status: 201, description: 'Purchase order created' })
+  async create(@GetUser() user: User, @Body() dto: CreatePurchaseOrderDto) {
+    const order = await this.purchaseOrdersService.create(dto, user.userId);
+    return ResponseHelper.created('Purchase order created', order);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a purchase order with its lines' })
+  async findOne(@Param('id', new ParseUUIDPipe()) id: string) {
+    const order = await this.purchaseOrdersService.findOne(id);
+    return ResponseHelper.success('Purchase order retrieved', order);
+  }
+
+  @Post(':id/submit')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Send a draft purchase order to the supplier' })
+  async submit(@Param('id', new ParseUUIDPipe()) id: string) {
+    const order = await this.purchaseOrdersService.submit(id);
+    return ResponseHelper.success('Purchase order submitted', order);
+  }
+
+  @Post(':id/cancel')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Cancel a purchase order before any goods arrive' })
+  async cancel(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Body() dto: ClosePurchaseOrderDto,
+  ) {
+    const order = await this.purchaseOrdersService.cancel(id, dto.reason);
+    return ResponseHelper.success('Purchase order cancelled', order);
+  }
+
+  @Post(':id/close')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Close a partially received purchase order',
+    description: 'Stops waiting for the outstanding quantity.',
+  })
+  async close(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Body() dto: ClosePurchaseOrderDto,
+  ) {
+    const order = await this.purchaseOrdersService.close(id, dto.reason);
+    return ResponseHelper.success('Purchase order closed', order);
+  }
+
+  @Get(':id/receipts')
+  @ApiOperation({ summary: 'Goods receipts recorded against a purchase order' })
+  async findReceipts(@Param('id', new ParseUUIDPipe()) id: string) {
+    const receipts = await this.purchaseOrdersService.findReceipts(id);
+    return ResponseHelper.success('Goods receipts retrieved', receipts);
+  }
+
+  @Post(':id/receipts')
+  @ApiOperation({
+    summary: 'Receive goods against a purchase order',
+    description:
+      'Accepted units are added to stock (as a lot when an expiry date is given) and update the weighted average cost. Rejected units need a discrepancy note.',
+  })
+  @ApiResponse({ status: 201, description: 'Goods received' })
+  async receive(
+    @GetUser() user: User,
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Body() dto: ReceivePurchaseOrderDto,
+  ) {
+    const result = await this.purchaseOrdersService.receive(
+      id,
+      dto,
+      user.userId,
+    );
+    return ResponseHelper.created('Goods received', result);
+  }
+}
@@ -0,0 +1,33 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Supplier } from './entities/supplier.entity';
+import { PurchaseOrder } from './entities/purchase-order.entity';
+import { PurchaseOrderLine } from './entities/purchase-order-line.entity';
+import { GoodsReceipt } from './entities/goods-receipt.entity';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { PurchaseOrdersController } from './purchase-orders.controller';
+import { ReorderService } from './reorder.service';
+import { ReorderScheduler } from './reorder.schedule';
+import { InventoryModule } from '../inventory/inventory.module';
+import { WarehousesModule } from '../warehouses/warehouses.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { User } from '../users/entities/user.entity';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Supplier,
+      PurchaseOrder,
+      PurchaseOrderLine,
+      GoodsReceipt,
+      User,
+    ]),
+    InventoryModule,
+    WarehousesModule,
+    NotificationsModule,
+  ],
+  controllers: [PurchaseOrdersController],
+  providers: [PurchaseOrdersService, ReorderService, ReorderScheduler],
+  exports: [PurchaseOrdersService],
+})
+export class PurchaseOrdersModule {}
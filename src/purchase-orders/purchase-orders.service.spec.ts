@@ -0,0 +1,389 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { Supplier } from './entities/supplier.entity';
+import {
+  PurchaseOrder,
+  PurchaseOrderStatus,
+} from './entities/purchase-order.entity';
+import { PurchaseOrderLine } from './entities/purchase-order-line.entity';
+import { GoodsReceipt } from './entities/goods-receipt.entity';
+import { InventoryService } from '../inventory/inventory.service';
+import { WarehousesService } from '../warehouses/warehouses.service';
+import { StockMovementReferenceType } from '../inventory/entities/stock-movement.entity';
+
+describe('PurchaseOrdersService', () => {
+  let service: PurchaseOrdersService;
+
+  const userId = 'staff-1';
+  const supplier = {
+    supplierId: 'supplier-1',
+    code: 'SUP-LOREAL',
+    name: "L'Oréal",
+    isActive: true,
+  };
+
+  let order: PurchaseOrder;
+
+  const buildOrder = (overrides: Partial<PurchaseOrder> = {}) =>
+    ({
+      purchaseOrderId: 'po-1',
+      code: 'PO20261019123456',
+      supplierId: supplier.supplierId,
+      warehouseId: null,
+      status: PurchaseOrderStatus.ORDERED,
+      lines: [
+        {
+          lineId: 'line-1',
+          productId: 'product-1',
+          orderedQuantity: 100,
+          receivedQuantity: 0,
+          rejectedQuantity: 0,
+          unitCost: 180000,
+        },
+        {
+          lineId: 'line-2',
+          productId: 'product-2',
+          orderedQuantity: 20,
+          receivedQuantity: 0,
+          rejectedQuantity: 0,
+          unitCost: 95000,
+        },
+      ],
+      ...overrides,
+    }) as PurchaseOrder;
+
+  const mockSupplierRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data: unknown) => data),
+    save: jest.fn((data: unknown) => Promise.resolve(data)),
+  };
+
+  const mockPurchaseOrderRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data: unknown) => data),
+    save: jest.fn((data: unknown) => Promise.resolve(data)),
+  };
+
+  const mockLineRepository = {
+    create: jest.fn((data: unknown) => data),
+    save: jest.fn((data: unknown) => Promise.resolve(data)),
+  };
+
+  const mockReceiptRepository = {
+    find: jest.fn(),
+    create: jest.fn((data: unknown) => data),
+    save: jest.fn((data: object) =>
+      Promise.resolve({ receiptId: 'receipt-1', ...data }),
+    ),
+  };
+
+  const mockInventoryService = {
+    receivePurchase: jest.fn(),
+  };
+
+  const mockWarehousesService = {
+    findOne: jest.fn(),
+    receiveStock: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PurchaseOrdersService,
+        {
+          provide: getRepositoryToken(Supplier),
+          useValue: mockSupplierRepository,
+        },
+        {
+          provide: getRepositoryToken(PurchaseOrder),
+          useValue: mockPurchaseOrderRepository,
+        },
+        {
+          provide: getRepositoryToken(PurchaseOrderLine),
+          useValue: mockLineRepository,
+        },
+        {
+          provide: getRepositoryToken(GoodsReceipt),
+          useValue: mockReceiptRepository,
+        },
+        { provide: InventoryService, useValue: mockInventoryService },
+        { provide: WarehousesService, useValue: mockWarehousesService },
+      ],
+    }).compile();
+
+    service = module.get<PurchaseOrdersService>(PurchaseOrdersService);
+
+    order = buildOrder();
+    mockSupplierRepository.findOne.mockResolvedValue(supplier);
+    mockPurchaseOrderRepository.findOne.mockImplementation(() =>
+      Promise.resolve(order),
+    );
+    mockInventoryService.receivePurchase.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    // TC-PO-001-01: Normal - Draft PO with lines and total cost
+    it('TC-PO-001-01: should create a draft purchase order with its lines', async () => {
+      const created = await service.create(
+        {
+          supplierId: supplier.supplierId,
+          lines: [
+            { productId: 'product-1', quantity: 100, unitCost: 180000 },
+            { productId: 'product-2', quantity: 20, unitCost: 95000 },
+          ],
+        },
+        userId,
+      );
+
+      expect(created).toMatchObject({
+        status: PurchaseOrderStatus.DRAFT,
+        totalCost: 19900000,
+        createdBy: userId,
+        warehouseId: null,
+      });
+      expect(created.code).toMatch(/^PO\d{14}$/);
+      expect(created.lines).toEqual([
+        { productId: 'product-1', orderedQuantity: 100, unitCost: 180000 },
+        { productId: 'product-2', orderedQuantity: 20, unitCost: 95000 },
+      ]);
+    });
+
+    // TC-PO-001-02: Abnormal - Same product on two lines
+    it('TC-PO-001-02: should reject duplicate products and inactive suppliers', async () => {
+      await expect(
+        service.create(
+          {
+            supplierId: supplier.supplierId,
+            lines: [
+              { productId: 'product-1', quantity: 1, unitCost: 1 },
+              { productId: 'product-1', quantity: 2, unitCost: 1 },
+            ],
+          },
+          userId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+
+      mockSupplierRepository.findOne.mockResolvedValueOnce({
+        ...supplier,
+        isActive: false,
+      });
+      await expect(
+        service.create(
+          {
+            supplierId: supplier.supplierId,
+            lines: [{ productId: 'product-1', quantity: 1, unitCost: 1 }],
+          },
+          userId,
+        ),
+      ).rejects.toThrow('Supplier is inactive');
+      expect(mockPurchaseOrderRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('receive', () => {
+    // TC-PO-002-01: Normal - Partial delivery
+    it('TC-PO-002-01: should add received units to stock and mark the PO partially received', async () => {
+      const { purchaseOrder, receipt } = await service.receive(
+        order.purchaseOrderId,
+        { items: [{ lineId: 'line-1', quantity: 60 }] },
+        userId,
+      );
+
+      expect(mockInventoryService.receivePurchase).toHaveBeenCalledWith(
+        {
+          productId: 'product-1',
+          quantity: 60,
+          unitCost: 180000,
+          lot: undefined,
+        },
+        userId,
+        'Received on purchase order PO20261019123456',
+        {
+          referenceType: StockMovementReferenceType.PURCHASE_ORDER,
+          referenceId: 'po-1',
+        },
+      );
+      expect(purchaseOrder.status).toBe(PurchaseOrderStatus.PARTIALLY_RECEIVED);
+      expect(order.lines[0].receivedQuantity).toBe(60);
+      expect(receipt).toMatchObject({
+        hasDiscrepancy: false,
+        receivedBy: userId,
+        items: [
+          expect.objectContaining({
+            lineId: 'line-1',
+            expectedQuantity: 100,
+            receivedQuantity: 60,
+          }),
+        ],
+      });
+    });
+
+    // TC-PO-002-02: Normal - Final delivery with a lot, invoiced cost and warehouse
+    it('TC-PO-002-02: should receive the lot at the invoiced cost into the PO warehouse and complete the PO', async () => {
+      order = buildOrder({
+        warehouseId: 'warehouse-q1',
+        status: PurchaseOrderStatus.PARTIALLY_RECEIVED,
+      });
+      order.lines[0].receivedQuantity = 100;
+      mockInventoryService.receivePurchase.mockResolvedValue({
+        lotId: 'lot-1',
+      });
+
+      const { purchaseOrder, receipt } = await service.receive(
+        order.purchaseOrderId,
+        {
+          items: [
+            {
+              lineId: 'line-2',
+              quantity: 20,
+              unitCost: 97000,
+              lotNumber: 'LOT-A',
+              expiryDate: '2028-04-01',
+            },
+          ],
+        },
+        userId,
+      );
+
+      expect(mockInventoryService.receivePurchase).toHaveBeenCalledWith(
+        expect.objectContaining({
+          productId: 'product-2',
+          unitCost: 97000,
+          lot: {
+            lotNumber: 'LOT-A',
+            manufactureDate: undefined,
+            expiryDate: '2028-04-01',
+          },
+        }),
+        userId,
+        expect.any(String),
+        expect.any(Object),
+      );
+      expect(mockWarehousesService.receiveStock).toHaveBeenCalledWith(
+        'warehouse-q1',
+        'product-2',
+        20,
+      );
+      expect(purchaseOrder.status).toBe(PurchaseOrderStatus.RECEIVED);
+      expect(purchaseOrder.receivedAt).toBeInstanceOf(Date);
+      expect(receipt.items[0]).toMatchObject({ lotId: 'lot-1' });
+    });
+
+    // TC-PO-002-03: Normal - Damaged units are rejected with a note
+    it('TC-PO-002-03: should record rejected units as a discrepancy without stocking them', async () => {
+      const { purchaseOrder, receipt } = await service.receive(
+        order.purchaseOrderId,
+        {
+          items: [
+            {
+              lineId: 'line-2',
+              quantity: 18,
+              rejectedQuantity: 2,
+              discrepancyNote: '2 chai vỡ nắp',
+            },
+          ],
+        },
+        userId,
+      );
+
+      expect(mockInventoryService.receivePurchase).toHaveBeenCalledWith(
+        expect.objectContaining({ quantity: 18 }),
+        userId,
+        expect.any(String),
+        expect.any(Object),
+      );
+      expect(order.lines[1]).toMatchObject({
+        receivedQuantity: 18,
+        rejectedQuantity: 2,
+      });
+      expect(receipt.hasDiscrepancy).toBe(true);
+      expect(purchaseOrder.status).toBe(PurchaseOrderStatus.PARTIALLY_RECEIVED);
+    });
+
+    // TC-PO-002-04: Abnormal - Over-receipt, missing note, unknown line
+    it('TC-PO-002-04: should reject the whole receipt before touching stock', async () => {
+      const attempts = [
+        [{ lineId: 'line-1', quantity: 101 }],
+        [{ lineId: 'line-1', quantity: 5, rejectedQuantity: 1 }],
+        [{ lineId: 'line-9', quantity: 1 }],
+        [{ lineId: 'line-1', quantity: 1, lotNumber: 'LOT-A' }],
+        [
+          { lineId: 'line-2', quantity: 1 },
+          { lineId: 'line-1', quantity: 0 },
+        ],
+      ];
+
+      for (const items of attempts) {
+        await expect(
+          service.receive(order.purchaseOrderId, { items }, userId),
+        ).rejects.toThrow(BadRequestException);
+      }
+      expect(mockInventoryService.receivePurchase).not.toHaveBeenCalled();
+      expect(mockReceiptRepository.save).not.toHaveBeenCalled();
+    });
+
+    // TC-PO-002-05: Boundary - Goods cannot be received on a draft or closed PO
+    it('TC-PO-002-05: should only receive goods on ordered purchase orders', async () => {
+      for (const status of [
+        PurchaseOrderStatus.DRAFT,
+        PurchaseOrderStatus.CLOSED,
+        PurchaseOrderStatus.RECEIVED,
+      ]) {
+        order = buildOrder({ status });
+        await expect(
+          service.receive(
+            order.purchaseOrderId,
+            { items: [{ lineId: 'line-1', quantity: 1 }] },
+            userId,
+          ),
+        ).rejects.toThrow(BadRequestException);
+      }
+    });
+  });
+
+  describe('status changes', () => {
+    // TC-PO-003-01: Normal - Draft is sent to the supplier
+    it('TC-PO-003-01: should submit a draft purchase order', async () => {
+      order = buildOrder({ status: PurchaseOrderStatus.DRAFT });
+
+      const submitted = await service.submit(order.purchaseOrderId);
+
+      expect(submitted.status).toBe(PurchaseOrderStatus.ORDERED);
+      expect(submitted.orderedAt).toBeInstanceOf(Date);
+    });
+
+    // TC-PO-003-02: Normal - Supplier cannot deliver the rest
+    it('TC-PO-003-02: should close a partially received PO with a reason', async () => {
+      order = buildOrder({ status: PurchaseOrderStatus.PARTIALLY_RECEIVED });
+
+      const closed = await service.close(order.purchaseOrderId, 'Hết hàng');
+
+      expect(closed).toMatchObject({
+        status: PurchaseOrderStatus.CLOSED,
+        closeReason: 'Hết hàng',
+      });
+    });
+
+    // TC-PO-003-03: Abnormal - PO with received goods cannot be cancelled
+    it('TC-PO-003-03: should not cancel a purchase order that already received goods', async () => {
+      order = buildOrder({ status: PurchaseOrderStatus.PARTIALLY_RECEIVED });
+
+      await expect(
+        service.cancel(order.purchaseOrderId, 'Đổi nhà cung cấp'),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockPurchaseOrderRepository.save).not.toHaveBeenCalled();
+    });
+  });
+});
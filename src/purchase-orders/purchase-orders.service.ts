@@ -0,0 +1,394 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Supplier } from './entities/supplier.entity';
+import {
+  PurchaseOrder,
+  PurchaseOrderStatus,
+} from './entities/purchase-order.entity';
+import { PurchaseOrderLine } from './entities/purchase-order-line.entity';
+import {
+  GoodsReceipt,
+  GoodsReceiptItem,
+} from './entities/goods-receipt.entity';
+import {
+  CreatePurchaseOrderDto,
+  CreateSupplierDto,
+  ReceivePurchaseOrderDto,
+  UpdateSupplierDto,
+} from './dto/purchase-order.dto';
+import { InventoryService } from '../inventory/inventory.service';
+import { WarehousesService } from '../warehouses/warehouses.service';
+import { StockMovementReferenceType } from '../inventory/entities/stock-movement.entity';
+
+/**
+ * Mua hàng từ nhà cung cấp:
+ * DRAFT → ORDERED → (PARTIALLY_RECEIVED) → RECEIVED
+ * - Mỗi lần giao hàng tạo một phiếu nhập, cộng tồn và cập nhật giá vốn theo giá nhập
+ * - Hàng lỗi bị trả lại không nhập kho và vẫn tính là còn chờ nhận
+ * - Nhà cung cấp không giao phần còn lại → đóng PO (CLOSED)
+ */
+@Injectable()
+export class PurchaseOrdersService {
+  private readonly logger = new Logger(PurchaseOrdersService.name);
+
+  constructor(
+    @InjectRepository(Supplier)
+    private readonly supplierRepository: Repository<Supplier>,
+    @InjectRepository(PurchaseOrder)
+    private readonly purchaseOrderRepository: Repository<PurchaseOrder>,
+    @InjectRepository(PurchaseOrderLine)
+    private readonly lineRepository: Repository<PurchaseOrderLine>,
+    @InjectRepository(GoodsReceipt)
+    private readonly receiptRepository: Repository<GoodsReceipt>,
+    private readonly inventoryService: InventoryService,
+    private readonly warehousesService: WarehousesService,
+  ) {}
+
+  // ===== Nhà cung cấp =====
+
+  async createSupplier(dto: CreateSupplierDto): Promise<Supplier> {
+    const existing = await this.supplierRepository.findOne({
+      where: { code: dto.code },
+    });
+    if (existing) {
+      throw new BadRequestException(`Supplier code ${dto.code} already exists`);
+    }
+    return this.supplierRepository.save(this.supplierRepository.create(dto));
+  }
+
+  async findSuppliers(includeInactive = false): Promise<Supplier[]> {
+    return this.supplierRepository.find({
+      where: includeInactive ? {} : { isActive: true },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findSupplier(supplierId: string): Promise<Supplier> {
+    const supplier = await this.supplierRepository.findOne({
+      where: { supplierId },
+    });
+    if (!supplier) {
+      throw new NotFoundException(`Supplier ${supplierId} not found`);
+    }
+    return supplier;
+  }
+
+  async updateSupplier(
+    supplierId: string,
+    dto: UpdateSupplierDto,
+  ): Promise<Supplier> {
+    const supplier = await this.findSupplier(supplierId);
+    if (dto.code && dto.code !== supplier.code) {
+      const existing = await this.supplierRepository.findOne({
+        where: { code: dto.code },
+      });
+      if (existing) {
+        throw new BadRequestException(
+          `Supplier code ${dto.code} already exists`,
+        );
+      }
+    }
+    Object.assign(supplier, dto);
+    return this.supplierRepository.save(supplier);
+  }
+
+  // ===== Đơn mua hàng =====
+
+  async create(
+    dto: CreatePurchaseOrderDto,
+    userId: string,
+  ): Promise<PurchaseOrder> {
+    const supplier = await this.findSupplier(dto.supplierId);
+    if (!supplier.isActive) {
+      throw new BadRequestException('Supplier is inactive');
+    }
+    if (dto.warehouseId) {
+      await this.warehousesService.findOne(dto.warehouseId);
+    }
+
+    const productIds = dto.lines.map((line) => line.productId);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new BadRequestException(
+        'Each product can appear only once in a purchase order',
+      );
+    }
+
+    const lines = dto.lines.map((line) =>
+      this.lineRepository.create({
+        productId: line.productId,
+        orderedQuantity: line.quantity,
+        unitCost: line.unitCost,
+      }),
+    );
+    const order = this.purchaseOrderRepository.create({
+      code: this.generateCode(),
+      supplierId: supplier.supplierId,
+      warehouseId: dto.warehouseId ?? null,
+      lines,
+      totalCost: dto.lines.reduce(
+        (sum, line) => sum + line.quantity * line.unitCost,
+        0,
+      ),
+      expectedDeliveryDate: dto.expectedDeliveryDate ?? null,
+      note: dto.note ?? null,
+      createdBy: userId,
+      status: PurchaseOrderStatus.DRAFT,
+    });
+    const saved = await this.purchaseOrderRepository.save(order);
+    this.logger.log(
+      `🧾 Purchase order ${saved.code} created for ${supplier.code} (${lines.length} lines)`,
+    );
+    return saved;
+  }
+
+  async findAll(filters: {
+    status?: PurchaseOrderStatus;
+    supplierId?: string;
+  }): Promise<PurchaseOrder[]> {
+    return this.purchaseOrderRepository.find({
+      where: {
+        ...(filters.status && { status: filters.status }),
+        ...(filters.supplierId && { supplierId: filters.supplierId }),
+      },
+      relations: ['supplier'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async findOne(purchaseOrderId: string): Promise<PurchaseOrder> {
+    const order = await this.purchaseOrderRepository.findOne({
+      where: { purchaseOrderId },
+      relations: ['supplier', 'warehouse', 'lines', 'lines.product'],
+    });
+    if (!order) {
+      throw new NotFoundException(
+        `Purchase order ${purchaseOrderId} not found`,
+      );
+    }
+    return order;
+  }
+
+  async findReceipts(purchaseOrderId: string): Promise<GoodsReceipt[]> {
+    await this.findOne(purchaseOrderId);
+    return this.receiptRepository.find({
+      where: { purchaseOrderId },
+      order: { receivedAt: 'ASC' },
+    });
+  }
+
+  /**
+   * 📤 Gửi PO cho nhà cung cấp, từ đây có thể nhận hàng
+   */
+  async submit(purchaseOrderId: string): Promise<PurchaseOrder> {
+    const order = await this.findOne(purchaseOrderId);
+    this.assertStatus(order, PurchaseOrderStatus.DRAFT);
+
+    order.status = PurchaseOrderStatus.ORDERED;
+    order.orderedAt = new Date();
+    return this.purchaseOrderRepository.save(order);
+  }
+
+  /**
+   * Hủy PO chưa nhận hàng
+   */
+  async cancel(
+    purchaseOrderId: string,
+    reason: string,
+  ): Promise<PurchaseOrder> {
+    const order = await this.findOne(purchaseOrderId);
+    this.assertStatus(
+      order,
+      PurchaseOrderStatus.DRAFT,
+      PurchaseOrderStatus.ORDERED,
+    );
+
+    order.status = PurchaseOrderStatus.CANCELLED;
+    order.closeReason = reason;
+    order.closedAt = new Date();
+    return this.purchaseOrderRepository.save(order);
+  }
+
+  /**
+   * Đóng PO đã nhận một phần, không chờ nhận phần còn lại
+   */
+  async close(purchaseOrderId: string, reason: string): Promise<PurchaseOrder> {
+    const order = await this.findOne(purchaseOrderId);
+    this.assertStatus(order, PurchaseOrderStatus.PARTIALLY_RECEIVED);
+
+    order.status = PurchaseOrderStatus.CLOSED;
+    order.closeReason = reason;
+    order.closedAt = new Date();
+    return this.purchaseOrderRepository.save(order);
+  }
+
+  /**
+   * 🚚 Nhận hàng theo PO (có thể nhận nhiều lần):
+   * - Kiểm tra toàn bộ phiếu trước khi cộng kho
+   * - Cộng tồn (theo lô nếu có HSD), cập nhật giá vốn, cộng vào kho nhận nếu PO có kho
+   * - Ghi phiếu nhập kèm chênh lệch và cập nhật trạng thái PO
+   */
+  async receive(
+    purchaseOrderId: string,
+    dto: ReceivePurchaseOrderDto,
+    userId: string,
+  ): Promise<{ purchaseOrder: PurchaseOrder; receipt: GoodsReceipt }> {
+    const order = await this.findOne(purchaseOrderId);
+    this.assertStatus(
+      order,
+      PurchaseOrderStatus.ORDERED,
+      PurchaseOrderStatus.PARTIALLY_RECEIVED,
+    );
+
+    const lines = new Map(order.lines.map((line) => [line.lineId, line]));
+    const seen = new Set<string>();
+    for (const item of dto.items) {
+      const line = lines.get(item.lineId);
+      if (!line) {
+        throw new BadRequestException(
+          `Line ${item.lineId} does not belong to purchase order ${order.code}`,
+        );
+      }
+      if (seen.has(item.lineId)) {
+        throw new BadRequestException(
+          `Line ${item.lineId} appears more than once in the receipt`,
+        );
+      }
+      seen.add(item.lineId);
+
+      const rejected = item.rejectedQuantity ?? 0;
+      if (item.quantity + rejected === 0) {
+        throw new BadRequestException(
+          'Each receipt line must accept or reject at least one unit',
+        );
+      }
+      const outstanding = line.orderedQuantity - line.receivedQuantity;
+      if (item.quantity > outstanding) {
+        throw new BadRequestException(
+          `Cannot receive ${item.quantity} units of product ${line.productId}: only ${outstanding} outstanding`,
+        );
+      }
+      if (rejected > 0 && !item.discrepancyNote?.trim()) {
+        throw new BadRequestException(
+          'A discrepancy note is required when rejecting units',
+        );
+      }
+      if (!item.lotNumber !== !item.expiryDate) {
+        throw new BadRequestException(
+          'lotNumber and expiryDate must be provided together',
+        );
+      }
+    }
+
+    const items: GoodsReceiptItem[] = [];
+    for (const item of dto.items) {
+      const line = lines.get(item.lineId)!;
+      const rejected = item.rejectedQuantity ?? 0;
+      const unitCost = item.unitCost ?? Number(line.unitCost);
+
+      let lotId: string | null = null;
+      if (item.quantity > 0) {
+        const lot = await this.inventoryService.receivePurchase(
+          {
+            productId: line.productId,
+            quantity: item.quantity,
+            unitCost,
+            lot: item.lotNumber
+              ? {
+                  lotNumber: item.lotNumber,
+                  manufactureDate: item.manufactureDate,
+                  expiryDate: item.expiryDate!,
+                }
+              : undefined,
+          },
+          userId,
+          `Received on purchase order ${order.code}`,
+          {
+            referenceType: StockMovementReferenceType.PURCHASE_ORDER,
+            referenceId: order.purchaseOrderId,
+          },
+        );
+        lotId = lot?.lotId ?? null;
+
+        if (order.warehouseId) {
+          await this.warehousesService.receiveStock(
+            order.warehouseId,
+            line.productId,
+            item.quantity,
+          );
+        }
+      }
+
+      items.push({
+        lineId: line.lineId,
+        productId: line.productId,
+        expectedQuantity: line.orderedQuantity - line.receivedQuantity,
+        receivedQuantity: item.quantity,
+        rejectedQuantity: rejected,
+        unitCost,
+        lotId,
+        lotNumber: item.lotNumber ?? null,
+        expiryDate: item.expiryDate ?? null,
+        discrepancyNote: item.discrepancyNote ?? null,
+      });
+      line.receivedQuantity += item.quantity;
+      line.rejectedQuantity += rejected;
+    }
+    await this.lineRepository.save(order.lines);
+
+    const receipt = await this.receiptRepository.save(
+      this.receiptRepository.create({
+        purchaseOrderId: order.purchaseOrderId,
+        items,
+        hasDiscrepancy: items.some(
+          (item) => item.rejectedQuantity > 0 || !!item.discrepancyNote,
+        ),
+        note: dto.note ?? null,
+        receivedBy: userId,
+      }),
+    );
+
+    const complete = order.lines.every(
+      (line) => line.receivedQuantity >= line.orderedQuantity,
+    );
+    order.status = complete
+      ? PurchaseOrderStatus.RECEIVED
+      : PurchaseOrderStatus.PARTIALLY_RECEIVED;
+    if (complete) {
+      order.receivedAt = new Date();
+    }
+    const saved = await this.purchaseOrderRepository.save(order);
+
+    this.logger.log(
+      `🚚 Receipt ${receipt.receiptId} on ${order.code}: ${items.reduce((sum, item) => sum + item.receivedQuantity, 0)} units received, status ${saved.status}`,
+    );
+    return { purchaseOrder: saved, receipt };
+  }
+
+  private assertStatus(
+    order: PurchaseOrder,
+    ...allowed: PurchaseOrderStatus[]
+  ): void {
+    if (!allowed.includes(order.status)) {
+      throw new BadRequestException(
+        `Purchase order ${order.code} is ${order.status}, expected ${allowed.join(' or ')}`,
+      );
+    }
+  }
+
+  /**
+   * Mã PO: PO{yyyyMMdd}{6 số cuối timestamp}
+   */
+  private generateCode(): string {
+    // en-CA cho định dạng YYYY-MM-DD
+    const date = new Date()
+      .toLocaleDateString('en-CA', { timeZone: 'Asia/Ho_Chi_Minh' })
+      .replace(/-/g, '');
+    return `PO${date}${Date.now().toString().slice(-6)}`;
+  }
+}
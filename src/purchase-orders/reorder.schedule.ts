@@ -0,0 +1,35 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { ReorderService } from './reorder.service';
+
+/**
+ * 🤖 Scheduler for reorder points (daily, 7:00 - after expired lots are written off)
+ * Notifies staff once per low-stock crossing and drafts restocks for approval
+ */
+@Injectable()
+export class ReorderScheduler {
+  private readonly logger = new Logger(ReorderScheduler.name);
+
+  constructor(private readonly reorderService: ReorderService) {}
+
+  @Cron('0 7 * * *', {
+    name: 'inventory-reorder-points',
+    timeZone: 'Asia/Ho_Chi_Minh',
+  })
+  async handleReorderPoints() {
+    this.logger.log('🔄 Running Cron: Reorder point check...');
+
+    try {
+      const result = await this.reorderService.checkReorderPoints();
+      this.logger.log(
+        `✅ Reorder check: ${result.crossings} products crossed their reorder point, ${result.drafts} drafts created, ${result.recovered} recovered`,
+      );
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(
+        `❌ Failed to check reorder points: ${err.message}`,
+        err.stack,
+      );
+    }
+  }
+}
@@ -0,0 +1,275 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { ReorderService } from './reorder.service';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { StockMovementsService } from '../inventory/stock-movements.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { User } from '../users/entities/user.entity';
+import {
+  Inventory,
+  ReorderAction,
+} from '../inventory/entities/inventory.entity';
+import { AdjustmentType } from '../inventory/entities/inventory-adjustment.entity';
+
+describe('ReorderService', () => {
+  let service: ReorderService;
+
+  const adminId = 'admin-1';
+  const staff = [{ userId: 'staff-1' }, { userId: 'staff-2' }];
+
+  const buildInventory = (overrides: Partial<Inventory> = {}) =>
+    ({
+      productId: 'product-1',
+      product: { productName: 'Serum B5' },
+      originalPrice: 120000,
+      reorderPoint: 10,
+      reorderQuantity: 50,
+      reorderAction: ReorderAction.NOTIFY,
+      preferredSupplierId: null,
+      reorderConfiguredBy: adminId,
+      lowStockAlertedAt: null,
+      ...overrides,
+    }) as Inventory;
+
+  let inventories: Inventory[];
+  let available: Record<string, number>;
+  let sold: Map<string, number>;
+
+  const mockInventoryService = {
+    getReorderMonitored: jest.fn(() => Promise.resolve(inventories)),
+    getAvailableStock: jest.fn((productId: string) =>
+      Promise.resolve(available[productId] ?? 0),
+    ),
+    setLowStockAlerted: jest.fn(),
+    createAdjustmentRequest: jest.fn(),
+  };
+
+  const mockStockMovementsService = {
+    getSoldQuantities: jest.fn(() => Promise.resolve(sold)),
+  };
+
+  const mockPurchaseOrdersService = {
+    create: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    notifyLowStock: jest.fn(),
+  };
+
+  const mockUserRepository = {
+    find: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReorderService,
+        { provide: InventoryService, useValue: mockInventoryService },
+        {
+          provide: StockMovementsService,
+          useValue: mockStockMovementsService,
+        },
+        {
+          provide: PurchaseOrdersService,
+          useValue: mockPurchaseOrdersService,
+        },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: getRepositoryToken(User), useValue: mockUserRepository },
+      ],
+    }).compile();
+
+    service = module.get<ReorderService>(ReorderService);
+
+    inventories = [];
+    available = {};
+    sold = new Map();
+    mockUserRepository.find.mockResolvedValue(staff);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getReport', () => {
+    // TC-ROP-001-01: Normal - Reorder point and days of cover both trigger a reorder
+    it('TC-ROP-001-01: should flag products at the reorder point or with too few days of cover', async () => {
+      inventories = [
+        buildInventory({ productId: 'at-point' }),
+        buildInventory({ productId: 'fast-seller', reorderQuantity: null }),
+        buildInventory({ productId: 'healthy' }),
+      ];
+      available = { 'at-point': 10, 'fast-seller': 40, healthy: 60 };
+      // 30 ngày: fast-seller bán 180 (6/ngày) → còn 6 ngày, healthy bán 30 (1/ngày)
+      sold = new Map([
+        ['fast-seller', 180],
+        ['healthy', 30],
+      ]);
+
+      const report = await service.getReport();
+
+      expect(report.map((status) => status.productId)).toEqual([
+        'fast-seller',
+        'at-point',
+        'healthy',
+      ]);
+      expect(report[0]).toMatchObject({
+        needsReorder: true,
+        dailySales: 6,
+        daysOfCover: 6,
+        suggestedQuantity: 180,
+      });
+      expect(report[1]).toMatchObject({
+        needsReorder: true,
+        daysOfCover: null,
+        suggestedQuantity: 50,
+      });
+      expect(report[2]).toMatchObject({ needsReorder: false, daysOfCover: 60 });
+    });
+  });
+
+  describe('checkReorderPoints', () => {
+    // TC-ROP-002-01: Normal - Staff are told once per crossing
+    it('TC-ROP-002-01: should notify new crossings only and reopen recovered products', async () => {
+      const alertedAt = new Date('2026-10-18T00:00:00Z');
+      inventories = [
+        buildInventory({ productId: 'new-crossing' }),
+        buildInventory({
+          productId: 'still-low',
+          lowStockAlertedAt: alertedAt,
+        }),
+        buildInventory({
+          productId: 'restocked',
+          lowStockAlertedAt: alertedAt,
+        }),
+      ];
+      available = { 'new-crossing': 4, 'still-low': 2, restocked: 80 };
+
+      const result = await service.checkReorderPoints();
+
+      expect(result).toEqual({ crossings: 1, drafts: 0, recovered: 1 });
+      expect(mockNotificationsService.notifyLowStock).toHaveBeenCalledTimes(1);
+      expect(mockNotificationsService.notifyLowStock).toHaveBeenCalledWith(
+        ['staff-1', 'staff-2'],
+        'Serum B5',
+        4,
+        {
+          productId: 'new-crossing',
+          reorderPoint: 10,
+          daysOfCover: null,
+          suggestedQuantity: 50,
+          draft: undefined,
+        },
+      );
+      expect(mockInventoryService.setLowStockAlerted).toHaveBeenCalledWith(
+        'new-crossing',
+        expect.any(Date),
+      );
+      expect(mockInventoryService.setLowStockAlerted).toHaveBeenCalledWith(
+        'restocked',
+        null,
+      );
+      expect(mockInventoryService.setLowStockAlerted).not.toHaveBeenCalledWith(
+        'still-low',
+        expect.anything(),
+      );
+    });
+
+    // TC-ROP-002-02: Normal - Restock adjustment drafted for admin approval
+    it('TC-ROP-002-02: should draft a pending restock adjustment on behalf of the admin', async () => {
+      inventories = [
+        buildInventory({ reorderAction: ReorderAction.DRAFT_ADJUSTMENT }),
+      ];
+      available = { 'product-1': 3 };
+      mockInventoryService.createAdjustmentRequest.mockResolvedValue({
+        adjustmentId: 'adjustment-1',
+      });
+
+      const result = await service.checkReorderPoints();
+
+      expect(result.drafts).toBe(1);
+      expect(mockInventoryService.createAdjustmentRequest).toHaveBeenCalledWith(
+        {
+          productId: 'product-1',
+          adjustmentType: AdjustmentType.INCREASE,
+          quantity: 50,
+          reason: 'Auto restock: 3 available, reorder point 10',
+          requestedBy: adminId,
+        },
+      );
+      expect(mockNotificationsService.notifyLowStock).toHaveBeenCalledWith(
+        expect.any(Array),
+        'Serum B5',
+        3,
+        expect.objectContaining({
+          draft: { type: 'adjustment', id: 'adjustment-1' },
+        }),
+      );
+    });
+
+    // TC-ROP-002-03: Normal - One draft purchase order per supplier
+    it('TC-ROP-002-03: should group crossings of the same supplier into one draft purchase order', async () => {
+      inventories = [
+        buildInventory({
+          productId: 'product-1',
+          reorderAction: ReorderAction.DRAFT_PURCHASE_ORDER,
+          preferredSupplierId: 'supplier-1',
+        }),
+        buildInventory({
+          productId: 'product-2',
+          originalPrice: 80000,
+          reorderQuantity: 24,
+          reorderAction: ReorderAction.DRAFT_PURCHASE_ORDER,
+          preferredSupplierId: 'supplier-1',
+        }),
+      ];
+      available = { 'product-1': 0, 'product-2': 5 };
+      mockPurchaseOrdersService.create.mockResolvedValue({
+        purchaseOrderId: 'po-1',
+      });
+
+      const result = await service.checkReorderPoints();
+
+      expect(result).toEqual({ crossings: 2, drafts: 1, recovered: 0 });
+      expect(mockPurchaseOrdersService.create).toHaveBeenCalledTimes(1);
+      expect(mockPurchaseOrdersService.create).toHaveBeenCalledWith(
+        {
+          supplierId: 'supplier-1',
+          lines: [
+            { productId: 'product-1', quantity: 50, unitCost: 120000 },
+            { productId: 'product-2', quantity: 24, unitCost: 80000 },
+          ],
+          note: 'Drafted automatically from reorder points',
+        },
+        adminId,
+      );
+    });
+
+    // TC-ROP-002-04: Abnormal - Draft fails (inactive supplier)
+    it('TC-ROP-002-04: should still notify staff when the draft cannot be created', async () => {
+      inventories = [
+        buildInventory({
+          reorderAction: ReorderAction.DRAFT_PURCHASE_ORDER,
+          preferredSupplierId: 'supplier-1',
+        }),
+      ];
+      available = { 'product-1': 1 };
+      mockPurchaseOrdersService.create.mockRejectedValue(
+        new Error('Supplier is inactive'),
+      );
+
+      const result = await service.checkReorderPoints();
+
+      expect(result).toEqual({ crossings: 1, drafts: 0, recovered: 0 });
+      expect(mockNotificationsService.notifyLowStock).toHaveBeenCalledTimes(1);
+      expect(mockInventoryService.setLowStockAlerted).toHaveBeenCalledWith(
+        'product-1',
+        expect.any(Date),
+      );
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  Inventory,
+  ReorderAction,
+} from '../inventory/entities/inventory.entity';
+import { AdjustmentType } from '../inventory/entities/inventory-adjustment.entity';
+import { InventoryService } from '../inventory/inventory.service';
+import { StockMovementsService } from '../inventory/stock-movements.service';
+import { PurchaseOrdersService } from './purchase-orders.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { User, UserRole } from '../users/entities/user.entity';
+
+export interface ReorderStatus {
+  productId: string;
+  productName?: string;
+  availableStock: number;
+  reorderPoint: number;
+  reorderQuantity: number | null;
+  dailySales: number;
+  daysOfCover: number | null; // NULL = không bán được gì trong kỳ
+  suggestedQuantity: number;
+  needsReorder: boolean;
+  lowStockAlertedAt: Date | null;
+}
+
+interface ReorderCandidate {
+  inventory: Inventory;
+  status: ReorderStatus;
+}
+
+interface ReorderDraft {
+  type: 'adjustment' | 'purchase_order';
+  id: string;
+}
+
+/**
+ * Nhập hàng theo mức tồn tối thiểu:
+ * - Cần nhập khi hàng còn bán được ≤ reorderPoint hoặc chỉ đủ bán ≤ LEAD_TIME_DAYS ngày
+ *   (tốc độ bán tính từ sổ biến động kho SALES_WINDOW_DAYS ngày gần nhất)
+ * - Mỗi lần chạm mức chỉ báo staff một lần, hàng về lại trên mức thì mở lần mới
+ * - Tùy cài đặt sản phẩm: tạo yêu cầu nhập thêm hoặc PO nháp chờ duyệt
+ */
+@Injectable()
+export class ReorderService {
+  private readonly logger = new Logger(ReorderService.name);
+  private readonly SALES_WINDOW_DAYS = 30;
+  // Thời gian chờ nhà cung cấp giao hàng
+  private readonly LEAD_TIME_DAYS = 7;
+  // Không cài reorderQuantity → nhập đủ bán trong khoảng này
+  private readonly TARGET_COVER_DAYS = 30;
+
+  constructor(
+    private readonly inventoryService: InventoryService,
+    private readonly stockMovementsService: StockMovementsService,
+    private readonly purchaseOrdersService: PurchaseOrdersService,
+    private readonly notificationsService: NotificationsService,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
+
+  /**
+   * 📊 Tình trạng các sản phẩm đang theo dõi mức nhập hàng, cần nhập lên đầu
+   */
+  async getReport(): Promise<ReorderStatus[]> {
+    const evaluated = await this.evaluate();
+    return evaluated
+      .map(({ status }) => status)
+      .sort(
+        (a, b) =>
+          Number(b.needsReorder) - Number(a.needsReorder) ||
+          (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity),
+      );
+  }
+
+  /**
+   * 🔔 Phát hiện sản phẩm vừa chạm mức nhập hàng: báo staff, tạo phiếu nháp theo cài đặt
+   */
+  async checkReorderPoints(): Promise<{
+    crossings: number;
+    drafts: number;
+    recovered: number;
+  }> {
+    const crossings: ReorderCandidate[] = [];
+    let recovered = 0;
+    for (const item of await this.evaluate()) {
+      const { inventory, status } = item;
+      if (!status.needsReorder) {
+        if (inventory.lowStockAlertedAt) {
+          await this.inventoryService.setLowStockAlerted(
+            inventory.productId,
+            null,
+          );
+          recovered++;
+        }
+        continue;
+      }
+      if (!inventory.lowStockAlertedAt) {
+        crossings.push(item);
+      }
+    }
+    if (crossings.length === 0) {
+      return { crossings: 0, drafts: 0, recovered };
+    }
+
+    const drafts = await this.draftRestocks(crossings);
+
+    const staff = await this.userRepository.find({
+      where: { role: UserRole.STAFF, isActive: true },
+    });
+    if (staff.length === 0) {
+      this.logger.warn('⚠️ No active staff to notify about low stock');
+    }
+
+    const alertedAt = new Date();
+    for (const { status } of crossings) {
+      if (staff.length > 0) {
+        await this.notificationsService.notifyLowStock(
+          staff.map((user) => user.userId),
+          status.productName ?? status.productId,
+          status.availableStock,
+          {
+            productId: status.productId,
+            reorderPoint: status.reorderPoint,
+            daysOfCover: status.daysOfCover,
+            suggestedQuantity: status.suggestedQuantity,
+            draft: drafts.get(status.productId),
+          },
+        );
+      }
+      await this.inventoryService.setLowStockAlerted(
+        status.productId,
+        alertedAt,
+      );
+    }
+
+    return {
+      crossings: crossings.length,
+      drafts: new Set([...drafts.values()].map((draft) => draft.id)).size,
+      recovered,
+    };
+  }
+
+  private async evaluate(): Promise<ReorderCandidate[]> {
+    const inventories = await this.inventoryService.getReorderMonitored();
+    if (inventories.length === 0) {
+      return [];
+    }
+
+    const since = new Date(
+      Date.now() - this.SALES_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+    );
+    const sold = await this.stockMovementsService.getSoldQuantities(since);
+
+    const evaluated: ReorderCandidate[] = [];
+    for (const inventory of inventories) {
+      const reorderPoint = inventory.reorderPoint ?? 0;
+      const availableStock = await this.inventoryService.getAvailableStock(
+        inventory.productId,
+      );
+      const dailySales =
+        (sold.get(inventory.productId) ?? 0) / this.SALES_WINDOW_DAYS;
+      const daysOfCover =
+        dailySales > 0 ? Math.floor(availableStock / dailySales) : null;
+
+      evaluated.push({
+        inventory,
+        status: {
+          productId: inventory.productId,
+          productName: inventory.product?.productName,
+          availableStock,
+          reorderPoint,
+          reorderQuantity: inventory.reorderQuantity,
+          dailySales: Math.round(dailySales * 100) / 100,
+          daysOfCover,
+          suggestedQuantity:
+            inventory.reorderQuantity ??
+            Math.max(1, Math.ceil(dailySales * this.TARGET_COVER_DAYS)),
+          needsReorder:
+            availableStock <= reorderPoint ||
+            (daysOfCover !== null && daysOfCover <= this.LEAD_TIME_DAYS),
+          lowStockAlertedAt: inventory.lowStockAlertedAt,
+        },
+      });
+    }
+    return evaluated;
+  }
+
+  /**
+   * Tạo phiếu nháp cho các sản phẩm vừa chạm mức. PO nháp gộp theo nhà cung cấp.
+   * Lỗi tạo phiếu không chặn việc báo staff.
+   */
+  private async draftRestocks(
+    crossings: ReorderCandidate[],
+  ): Promise<Map<string, ReorderDraft>> {
+    const drafts = new Map<string, ReorderDraft>();
+    const bySupplier = new Map<string, ReorderCandidate[]>();
+
+    for (const crossing of crossings) {
+      const { inventory, status } = crossing;
+      if (inventory.reorderAction === ReorderAction.NOTIFY) {
+        continue;
+      }
+      if (!inventory.reorderConfiguredBy) {
+        this.logger.warn(
+          `⚠️ Reorder settings of product ${inventory.productId} have no owner, skipping draft`,
+        );
+        continue;
+      }
+
+      if (inventory.reorderAction === ReorderAction.DRAFT_ADJUSTMENT) {
+        try {
+          const adjustment =
+            await this.inventoryService.createAdjustmentRequest({
+              productId: inventory.productId,
+              adjustmentType: AdjustmentType.INCREASE,
+              quantity: status.suggestedQuantity,
+              reason: `Auto restock: ${status.availableStock} available, reorder point ${status.reorderPoint}`,
+              requestedBy: inventory.reorderConfiguredBy,
+            });
+          drafts.set(inventory.productId, {
+            type: 'adjustment',
+            id: adjustment.adjustmentId,
+          });
+        } catch (error) {
+          this.logger.error(
+            `❌ Failed to draft restock adjustment for product ${inventory.productId}: ${(error as Error).message}`,
+          );
+        }
+      } else if (inventory.preferredSupplierId) {
+        bySupplier.set(inventory.preferredSupplierId, [
+          ...(bySupplier.get(inventory.preferredSupplierId) ?? []),
+          crossing,
+        ]);
+      }
+    }
+
+    for (const [supplierId, items] of bySupplier) {
+      try {
+        const order = await this.purchaseOrdersService.create(
+          {
+            supplierId,
+            lines: items.map(({ inventory, status }) => ({
+              productId: inventory.productId,
+              quantity: status.suggestedQuantity,
+              unitCost: Number(inventory.originalPrice),
+            })),
+            note: 'Drafted automatically from reorder points',
+          },
+          items[0].inventory.reorderConfiguredBy!,
+        );
+        for (const { inventory } of items) {
+          drafts.set(inventory.productId, {
+            type: 'purchase_order',
+            id: order.purchaseOrderId,
+          });
+        }
+      } catch (error) {
+        this.logger.error(
+          `❌ Failed to draft purchase order for supplier ${supplierId}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return drafts;
+  }
+}
@@ -0,0 +1,110 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { ShippingMethod } from '../../shipping-logs/entities/shipping-log.entity';
+
+export class ReplenishmentItemDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440001' })
+  @IsUUID()
+  productId: string;
+
+  @ApiProperty({ example: 1, minimum: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class CreateReplenishmentDto {
+  @ApiProperty({ type: [ReplenishmentItemDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ReplenishmentItemDto)
+  items: ReplenishmentItemDto[];
+
+  @ApiProperty({
+    description: 'Số ngày giữa hai lần giao (7 - 180)',
+    example: 30,
+  })
+  @IsInt()
+  @Min(7)
+  @Max(180)
+  intervalDays: number;
+
+  @ApiPropertyOptional({
+    description: 'Ngày tạo đơn đầu tiên. Bỏ trống = sau intervalDays ngày',
+    example: '2026-11-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  firstRunAt?: string;
+
+  @ApiProperty({ example: '123 Nguyễn Trãi, Phường 14, Quận 10, Hồ Chí Minh' })
+  @IsString()
+  @IsNotEmpty()
+  shippingAddress: string;
+
+  @ApiPropertyOptional({
+    enum: ShippingMethod,
+    default: ShippingMethod.INTERNAL,
+  })
+  @IsOptional()
+  @IsEnum(ShippingMethod)
+  shippingMethod?: ShippingMethod;
+
+  @ApiPropertyOptional({
+    example: 'Hồ Chí Minh',
+    description: 'Required for GHN',
+  })
+  @ValidateIf(
+    (dto: CreateReplenishmentDto) =>
+      dto.shippingMethod === ShippingMethod.GHN || dto.province !== undefined,
+  )
+  @IsString()
+  @IsNotEmpty()
+  province?: string;
+
+  @ApiPropertyOptional({ example: 'Quận 10', description: 'Required for GHN' })
+  @ValidateIf(
+    (dto: CreateReplenishmentDto) =>
+      dto.shippingMethod === ShippingMethod.GHN || dto.district !== undefined,
+  )
+  @IsString()
+  @IsNotEmpty()
+  district?: string;
+
+  @ApiPropertyOptional({
+    example: 'Phường 14',
+    description: 'Required for GHN',
+  })
+  @ValidateIf(
+    (dto: CreateReplenishmentDto) =>
+      dto.shippingMethod === ShippingMethod.GHN || dto.ward !== undefined,
+  )
+  @IsString()
+  @IsNotEmpty()
+  ward?: string;
+
+  @ApiPropertyOptional({ description: 'Ghi chú cho đơn giao định kỳ' })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class UpdateReplenishmentDto extends PartialType(
+  CreateReplenishmentDto,
+) {}
@@ -0,0 +1,108 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Customer } from '../../customers/entities/customer.entity';
+
+export enum ReplenishmentStatus {
+  ACTIVE = 'active',
+  PAUSED = 'paused', // Khách tạm dừng, không tạo đơn đến khi tiếp tục
+  CANCELLED = 'cancelled',
+}
+
+export enum ReplenishmentRunResult {
+  ORDER_CREATED = 'order_created', // Đã trừ ví và tạo đơn
+  PAYMENT_LINK_SENT = 'payment_link_sent', // Ví không đủ → gửi link chuyển khoản
+  SKIPPED = 'skipped', // Khách bỏ qua kỳ này
+  FAILED = 'failed', // Hết hàng / lỗi khi tạo đơn
+}
+
+export interface ReplenishmentItem {
+  productId: string;
+  quantity: number;
+}
+
+/**
+ * Đăng ký mua định kỳ: mỗi intervalDays ngày hệ thống tự tạo đơn
+ * các sản phẩm đã chọn, trừ ví hoặc gửi link thanh toán nếu ví không đủ.
+ */
+@Entity('replenishment_subscriptions')
+@Index(['status', 'nextRunAt'])
+export class ReplenishmentSubscription {
+  @PrimaryGeneratedColumn('uuid')
+  subscriptionId: string;
+
+  @Column({ type: 'uuid' })
+  customerId: string;
+
+  @ManyToOne(() => Customer, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'customerId' })
+  customer: Customer;
+
+  // User sở hữu ví bị trừ tiền
+  @Column({ type: 'varchar', length: 36 })
+  userId: string;
+
+  @Column({ type: 'json' })
+  items: ReplenishmentItem[];
+
+  @Column({ type: 'int' })
+  intervalDays: number;
+
+  @Column({ type: 'datetime' })
+  nextRunAt: Date;
+
+  @Column({
+    type: 'enum',
+    enum: ReplenishmentStatus,
+    default: ReplenishmentStatus.ACTIVE,
+  })
+  status: ReplenishmentStatus;
+
+  // ===== Giao hàng =====
+  @Column({ type: 'text' })
+  shippingAddress: string;
+
+  @Column({ type: 'varchar', length: 20, default: 'INTERNAL' })
+  shippingMethod: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  province: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  district: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  ward: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  notes: string | null;
+
+  // ===== Kỳ gần nhất =====
+  @Column({ type: 'datetime', nullable: true })
+  lastRunAt: Date | null;
+
+  @Column({ type: 'enum', enum: ReplenishmentRunResult, nullable: true })
+  lastRunResult: ReplenishmentRunResult | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  lastOrderId: string | null;
+
+  @Column({ type: 'int', nullable: true })
+  lastPaymentId: number | null;
+
+  @Column({ type: 'text', nullable: true })
+  lastRunError: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
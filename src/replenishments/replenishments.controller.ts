@@ -0,0 +1,164 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ReplenishmentsService } from './replenishments.service';
+import {
+  CreateReplenishmentDto,
+  UpdateReplenishmentDto,
+} from './dto/replenishment.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User, UserRole } from '../users/entities/user.entity';
+import { ResponseHelper } from '../utils/responses';
+
+@ApiTags('Replenishments')
+@Controller('replenishments')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.CUSTOMER)
+@ApiBearerAuth()
+export class ReplenishmentsController {
+  constructor(private readonly replenishmentsService: ReplenishmentsService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Subscribe to a recurring replenishment order',
+    description:
+      'Creates an order every intervalDays days at current prices, paid from the wallet or by a bank transfer link when the balance is short.',
+  })
+  @ApiResponse({ status: 201, description: 'Subscription created' })
+  async create(@GetUser() user: User, @Body() dto: CreateReplenishmentDto) {
+    const subscription = await this.replenishmentsService.create(
+      user.userId,
+      dto,
+    );
+    return ResponseHelper.created(
+      'Replenishment subscription created',
+      subscription,
+    );
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List my replenishment subscriptions' })
+  async findMine(@GetUser() user: User) {
+    const subscriptions = await this.replenishmentsService.findByUser(
+      user.userId,
+    );
+    return ResponseHelper.success(
+      'Replenishment subscriptions retrieved',
+      subscriptions,
+    );
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a replenishment subscription' })
+  async findOne(
+    @GetUser() user: User,
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ) {
+    const subscription = await this.replenishmentsService.findOne(
+      id,
+      user.userId,
+    );
+    return ResponseHelper.success(
+      'Replenishment subscription retrieved',
+      subscription,
+    );
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Change items, interval or delivery details' })
+  async update(
+    @GetUser() user: User,
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Body() dto: UpdateReplenishmentDto,
+  ) {
+    const subscription = await this.replenishmentsService.update(
+      id,
+      user.userId,
+      dto,
+    );
+    return ResponseHelper.success(
+      'Replenishment subscription updated',
+      subscription,
+    );
+  }
+
+  @Post(':id/skip')
+  @ApiOperation({ summary: 'Skip the next delivery' })
+  async skip(
+    @GetUser() user: User,
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ) {
+    const subscription = await this.replenishmentsService.skipNext(
+      id,
+      user.userId,
+    );
+    return ResponseHelper.success('Next delivery skipped', subscription);
+  }
+
+  @Post(':id/pause')
+  @ApiOperation({ summary: 'Pause a replenishment subscription' })
+  async pause(
+    @GetUser() user: User,
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ) {
+    const subscription = await this.replenishmentsService.pause(
+      id,
+      user.userId,
+    );
+    return ResponseHelper.success(
+      'Replenishment subscription paused',
+      subscription,
+    );
+  }
+
+  @Post(':id/resume')
+  @ApiOperation({
+    summary: 'Resume a paused subscription',
+    description: 'Deliveries missed while paused are not created.',
+  })
+  async resume(
+    @GetUser() user: User,
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ) {
+    const subscription = await this.replenishmentsService.resume(
+      id,
+      user.userId,
+    );
+    return ResponseHelper.success(
+      'Replenishment subscription resumed',
+      subscription,
+    );
+  }
+
+  @Post(':id/cancel')
+  @ApiOperation({ summary: 'Cancel a replenishment subscription' })
+  async cancel(
+    @GetUser() user: User,
+    @Param('id', new ParseUUIDPipe()) id: string,
+  ) {
+    const subscription = await this.replenishmentsService.cancel(
+      id,
+      user.userId,
+    );
+    return ResponseHelper.success(
+      'Replenishment subscription cancelled',
+      subscription,
+    );
+  }
+}
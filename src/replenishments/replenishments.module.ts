@@ -0,0 +1,30 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ReplenishmentSubscription } from './entities/replenishment-subscription.entity';
+import { ReplenishmentsService } from './replenishments.service';
+import { ReplenishmentsController } from './replenishments.controller';
+import { ReplenishmentsScheduler } from './replenishments.schedule';
+import { Payment } from '../payments/entities/payment.entity';
+import { OrdersModule } from '../orders/orders.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { CustomersModule } from '../customers/customers.module';
+import { UsersModule } from '../users/users.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ReplenishmentSubscription, Payment]),
+    OrdersModule,
+    forwardRef(() => PaymentsModule),
+    CustomersModule,
+    UsersModule,
+    InventoryModule,
+    LedgerModule,
+    NotificationsModule,
+  ],
+  controllers: [ReplenishmentsController],
+  providers: [ReplenishmentsService, ReplenishmentsScheduler],
+})
+export class ReplenishmentsModule {}
@@ -0,0 +1,58 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ReplenishmentsService } from './replenishments.service';
+
+/**
+ * 🤖 Scheduler for replenishment (subscribe & save) orders
+ * 1. Creates orders for due subscriptions (every hour)
+ * 2. Warns customers whose wallet won't cover the next order (daily, 9:00)
+ */
+@Injectable()
+export class ReplenishmentsScheduler {
+  private readonly logger = new Logger(ReplenishmentsScheduler.name);
+
+  constructor(private readonly replenishmentsService: ReplenishmentsService) {}
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleDueReplenishments() {
+    this.logger.log('🔄 Running Cron: Processing due replenishments...');
+
+    try {
+      const result = await this.replenishmentsService.processDue();
+
+      if (result.processed > 0) {
+        this.logger.log(
+          `✅ Replenishments processed: ${result.ordersCreated} orders, ${result.paymentLinksSent} payment links, ${result.failed} failed`,
+        );
+      } else {
+        this.logger.log('✅ No replenishments due');
+      }
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(
+        `❌ Failed to process replenishments: ${err.message}`,
+        err.stack,
+      );
+    }
+  }
+
+  @Cron('0 9 * * *', {
+    name: 'replenishment-low-balance-reminders',
+    timeZone: 'Asia/Ho_Chi_Minh',
+  })
+  async handleLowBalanceReminders() {
+    this.logger.log('🔄 Running Cron: Replenishment low-balance reminders...');
+
+    try {
+      const notified =
+        await this.replenishmentsService.sendLowBalanceReminders();
+      this.logger.log(`✅ Sent ${notified} low-balance reminders`);
+    } catch (error) {
+      const err = error as Error;
+      this.logger.error(
+        `❌ Failed to send low-balance reminders: ${err.message}`,
+        err.stack,
+      );
+    }
+  }
+}
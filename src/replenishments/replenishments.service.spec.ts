@@ -0,0 +1,424 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ReplenishmentsService } from './replenishments.service';
+import {
+  ReplenishmentRunResult,
+  ReplenishmentStatus,
+  ReplenishmentSubscription,
+} from './entities/replenishment-subscription.entity';
+import {
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+} from '../payments/entities/payment.entity';
+import { OrderQuotesService } from '../orders/order-quotes.service';
+import { OrdersService } from '../orders/orders.service';
+import { PaymentsService } from '../payments/payments.service';
+import { CustomersService } from '../customers/customers.service';
+import { UsersService } from '../users/users.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import { LedgerTransactionType } from '../ledger/entities/ledger-transaction.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('ReplenishmentsService', () => {
+  let service: ReplenishmentsService;
+
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const now = new Date('2026-10-19T03:00:00Z');
+
+  const mockSubscriptionRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data: unknown) => data),
+    save: jest.fn((data: unknown) => Promise.resolve(data)),
+    update: jest.fn(),
+  };
+
+  const mockPaymentRepository = {
+    create: jest.fn((data: unknown) => data),
+    save: jest.fn((data: Record<string, unknown>) =>
+      Promise.resolve({ paymentId: 50, ...data }),
+    ),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const mockOrderQuotesService = {
+    priceLines: jest.fn(),
+    calculateShipping: jest.fn(),
+  };
+
+  const mockOrdersService = {
+    createOrderFromPayment: jest.fn(),
+  };
+
+  const mockPaymentsService = {
+    createPayment: jest.fn(),
+  };
+
+  const mockCustomersService = {
+    findByUserId: jest.fn(),
+  };
+
+  const mockUsersService = {
+    findOne: jest.fn(),
+  };
+
+  const mockInventoryService = {
+    getAvailableStock: jest.fn(),
+  };
+
+  const mockLedgerService = {
+    transfer: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    create: jest.fn(),
+  };
+
+  const subscription = (
+    overrides: Partial<ReplenishmentSubscription> = {},
+  ): ReplenishmentSubscription =>
+    ({
+      subscriptionId: 'sub-00000001',
+      customerId: 'customer-1',
+      userId: 'user-1',
+      items: [{ productId: 'product-1', quantity: 2 }],
+      intervalDays: 30,
+      nextRunAt: new Date(now.getTime() - 60 * 1000),
+      status: ReplenishmentStatus.ACTIVE,
+      shippingAddress: '123 Nguyễn Trãi',
+      shippingMethod: 'INTERNAL',
+      province: 'Hồ Chí Minh',
+      district: 'Quận 10',
+      ward: 'Phường 14',
+      notes: null,
+      ...overrides,
+    }) as ReplenishmentSubscription;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReplenishmentsService,
+        {
+          provide: getRepositoryToken(ReplenishmentSubscription),
+          useValue: mockSubscriptionRepository,
+        },
+        {
+          provide: getRepositoryToken(Payment),
+          useValue: mockPaymentRepository,
+        },
+        { provide: OrderQuotesService, useValue: mockOrderQuotesService },
+        { provide: OrdersService, useValue: mockOrdersService },
+        { provide: PaymentsService, useValue: mockPaymentsService },
+        { provide: CustomersService, useValue: mockCustomersService },
+        { provide: UsersService, useValue: mockUsersService },
+        { provide: InventoryService, useValue: mockInventoryService },
+        { provide: LedgerService, useValue: mockLedgerService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<ReplenishmentsService>(ReplenishmentsService);
+
+    // 2 x 100000, giảm 10% → 180000 + ship 20000 = 200000
+    mockOrderQuotesService.priceLines.mockResolvedValue([
+      {
+        productId: 'product-1',
+        productName: 'Serum',
+        quantity: 2,
+        unitPrice: 100000,
+        salePercentage: 10,
+        finalUnitPrice: 90000,
+        discount: 20000,
+        lineTotal: 180000,
+      },
+    ]);
+    mockOrderQuotesService.calculateShipping.mockResolvedValue({
+      shippingFee: 20000,
+      toWardCode: null,
+      toDistrictId: null,
+    });
+    mockInventoryService.getAvailableStock.mockResolvedValue(10);
+    mockSubscriptionRepository.update.mockResolvedValue({ affected: 1 });
+    mockOrdersService.createOrderFromPayment.mockResolvedValue({
+      orderId: 'order-12345678',
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    // TC-RPL-001-01: Normal - First run defaults to one interval from now
+    it('TC-RPL-001-01: should schedule the first run one interval ahead', async () => {
+      mockCustomersService.findByUserId.mockResolvedValue({
+        customerId: 'customer-1',
+      });
+
+      const result = await service.create('user-1', {
+        items: [
+          { productId: 'product-1', quantity: 1 },
+          { productId: 'product-1', quantity: 1 },
+        ],
+        intervalDays: 30,
+        shippingAddress: '123 Nguyễn Trãi',
+      });
+
+      expect(result.items).toEqual([{ productId: 'product-1', quantity: 2 }]);
+      expect(result.status).toBe(ReplenishmentStatus.ACTIVE);
+      expect(result.nextRunAt.getTime()).toBeGreaterThan(
+        Date.now() + 29 * DAY_MS,
+      );
+    });
+
+    // TC-RPL-001-02: Abnormal - First run in the past
+    it('TC-RPL-001-02: should reject a first run date in the past', async () => {
+      mockCustomersService.findByUserId.mockResolvedValue({
+        customerId: 'customer-1',
+      });
+
+      await expect(
+        service.create('user-1', {
+          items: [{ productId: 'product-1', quantity: 1 }],
+          intervalDays: 30,
+          firstRunAt: '2020-01-01T00:00:00.000Z',
+          shippingAddress: '123 Nguyễn Trãi',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockSubscriptionRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processDue', () => {
+    // TC-RPL-002-01: Normal - Wallet covers the order
+    it('TC-RPL-002-01: should charge the wallet and create the order', async () => {
+      const sub = subscription();
+      mockSubscriptionRepository.find.mockResolvedValue([sub]);
+      mockUsersService.findOne.mockResolvedValue({ balance: 500000 });
+
+      const result = await service.processDue(now);
+
+      expect(result).toEqual({
+        processed: 1,
+        ordersCreated: 1,
+        paymentLinksSent: 0,
+        failed: 0,
+      });
+      expect(mockSubscriptionRepository.update).toHaveBeenCalledWith(
+        {
+          subscriptionId: 'sub-00000001',
+          status: ReplenishmentStatus.ACTIVE,
+          nextRunAt: new Date(now.getTime() - 60 * 1000),
+        },
+        { nextRunAt: sub.nextRunAt, lastRunAt: now },
+      );
+      expect(mockPaymentRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          paymentCode: 'REP-SUB-0000-20261019025900',
+          amount: 200000,
+          paymentMethod: PaymentMethod.WALLET,
+          status: PaymentStatus.COMPLETED,
+        }),
+      );
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: LedgerTransactionType.ORDER_PAYMENT,
+          from: { userId: 'user-1' },
+          to: { type: LedgerAccountType.PLATFORM_SALES },
+          amount: 200000,
+        }),
+      );
+      expect(mockOrdersService.createOrderFromPayment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          customerId: 'customer-1',
+          totalAmount: 200000,
+          paymentId: 50,
+          priceBreakdown: expect.objectContaining({
+            subtotal: 200000,
+            discountTotal: 20000,
+            shippingFee: 20000,
+          }) as Record<string, unknown>,
+        }),
+      );
+      expect(sub.lastRunResult).toBe(ReplenishmentRunResult.ORDER_CREATED);
+      expect(sub.lastOrderId).toBe('order-12345678');
+      expect(sub.nextRunAt.getTime()).toBeGreaterThan(now.getTime());
+    });
+
+    // TC-RPL-002-02: Normal - Short wallet gets a payment link
+    it('TC-RPL-002-02: should send a payment link when the wallet is short', async () => {
+      const sub = subscription();
+      mockSubscriptionRepository.find.mockResolvedValue([sub]);
+      mockUsersService.findOne.mockResolvedValue({ balance: 1000 });
+      mockPaymentsService.createPayment.mockResolvedValue({
+        paymentId: 60,
+        paymentCode: 'ORD-1',
+        paymentIntent: { qrCodeUrl: 'https://qr' },
+      });
+
+      const result = await service.processDue(now);
+
+      expect(result.paymentLinksSent).toBe(1);
+      expect(mockLedgerService.transfer).not.toHaveBeenCalled();
+      expect(mockPaymentsService.createPayment).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-1',
+          amount: 200000,
+          paymentMethod: PaymentMethod.BANKING,
+          cartData: expect.objectContaining({
+            replenishmentId: 'sub-00000001',
+          }) as Record<string, unknown>,
+        }),
+      );
+      expect(mockPaymentRepository.update).toHaveBeenCalledWith(
+        { paymentId: 60 },
+        { expiredAt: expect.any(Date) as Date },
+      );
+      expect(mockNotificationsService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-1',
+          data: expect.objectContaining({
+            paymentCode: 'ORD-1',
+          }) as Record<string, unknown>,
+        }),
+      );
+      expect(sub.lastPaymentId).toBe(60);
+    });
+
+    // TC-RPL-002-03: Abnormal - Order creation fails after the charge
+    it('TC-RPL-002-03: should refund the wallet when the order cannot be created', async () => {
+      const sub = subscription();
+      mockSubscriptionRepository.find.mockResolvedValue([sub]);
+      mockUsersService.findOne.mockResolvedValue({ balance: 500000 });
+      mockOrdersService.createOrderFromPayment.mockRejectedValue(
+        new Error('GHN down'),
+      );
+
+      const result = await service.processDue(now);
+
+      expect(result.failed).toBe(1);
+      expect(mockLedgerService.transfer).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          type: LedgerTransactionType.ORDER_PAYMENT_REVERSAL,
+          to: { userId: 'user-1' },
+          amount: 200000,
+        }),
+      );
+      expect(sub.lastRunResult).toBe(ReplenishmentRunResult.FAILED);
+      expect(sub.lastRunError).toBe('GHN down');
+    });
+
+    // TC-RPL-002-04: Boundary - Everything out of stock
+    it('TC-RPL-002-04: should fail the run and move on when nothing is in stock', async () => {
+      const sub = subscription();
+      mockSubscriptionRepository.find.mockResolvedValue([sub]);
+      mockUsersService.findOne.mockResolvedValue({ balance: 500000 });
+      mockInventoryService.getAvailableStock.mockResolvedValue(0);
+
+      await service.processDue(now);
+
+      expect(mockPaymentRepository.save).not.toHaveBeenCalled();
+      expect(sub.lastRunResult).toBe(ReplenishmentRunResult.FAILED);
+      expect(sub.nextRunAt.getTime()).toBeGreaterThan(now.getTime());
+    });
+
+    // TC-RPL-002-05: Boundary - Another scheduler run claimed the period
+    it('TC-RPL-002-05: should not charge a period claimed by another run', async () => {
+      mockSubscriptionRepository.find.mockResolvedValue([subscription()]);
+      mockSubscriptionRepository.update.mockResolvedValueOnce({ affected: 0 });
+
+      const result = await service.processDue(now);
+
+      expect(result.processed).toBe(0);
+      expect(mockUsersService.findOne).not.toHaveBeenCalled();
+      expect(mockPaymentRepository.save).not.toHaveBeenCalled();
+      expect(mockLedgerService.transfer).not.toHaveBeenCalled();
+    });
+
+    // TC-RPL-002-06: Abnormal - The period was already charged
+    it('TC-RPL-002-06: should not charge the wallet twice for the same period', async () => {
+      const sub = subscription();
+      mockSubscriptionRepository.find.mockResolvedValue([sub]);
+      mockUsersService.findOne.mockResolvedValue({ balance: 500000 });
+      mockPaymentRepository.save.mockRejectedValueOnce({
+        code: 'ER_DUP_ENTRY',
+      });
+
+      const result = await service.processDue(now);
+
+      expect(result.failed).toBe(1);
+      expect(mockLedgerService.transfer).not.toHaveBeenCalled();
+      expect(sub.lastRunError).toContain('was already charged');
+    });
+  });
+
+  describe('skipNext / resume', () => {
+    // TC-RPL-003-01: Normal - Skip moves the next run one interval
+    it('TC-RPL-003-01: should move the next run by one interval', async () => {
+      const nextRunAt = new Date(now.getTime() + DAY_MS);
+      mockSubscriptionRepository.findOne.mockResolvedValue(
+        subscription({ nextRunAt }),
+      );
+
+      const result = await service.skipNext('sub-00000001', 'user-1');
+
+      expect(result.nextRunAt.getTime()).toBe(
+        nextRunAt.getTime() + 30 * DAY_MS,
+      );
+      expect(result.lastRunResult).toBe(ReplenishmentRunResult.SKIPPED);
+    });
+
+    // TC-RPL-003-02: Abnormal - Resume an active subscription
+    it('TC-RPL-003-02: should only resume paused subscriptions', async () => {
+      mockSubscriptionRepository.findOne.mockResolvedValue(subscription());
+
+      await expect(service.resume('sub-00000001', 'user-1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    // TC-RPL-003-03: Abnormal - Another customer's subscription
+    it("TC-RPL-003-03: should not find another customer's subscription", async () => {
+      mockSubscriptionRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.pause('sub-00000001', 'user-2')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('sendLowBalanceReminders', () => {
+    // TC-RPL-004-01: Normal - Only short wallets are reminded
+    it('TC-RPL-004-01: should remind customers whose wallet is short', async () => {
+      mockSubscriptionRepository.find.mockResolvedValue([
+        subscription({ nextRunAt: new Date(now.getTime() + 2.5 * DAY_MS) }),
+        subscription({
+          subscriptionId: 'sub-00000002',
+          userId: 'user-2',
+          nextRunAt: new Date(now.getTime() + 2.5 * DAY_MS),
+        }),
+      ]);
+      mockUsersService.findOne
+        .mockResolvedValueOnce({ balance: 50000 })
+        .mockResolvedValueOnce({ balance: 500000 });
+
+      const notified = await service.sendLowBalanceReminders(now);
+
+      expect(notified).toBe(1);
+      expect(mockNotificationsService.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-1',
+          data: expect.objectContaining({
+            estimatedTotal: 200000,
+            balance: 50000,
+          }) as Record<string, unknown>,
+        }),
+      );
+    });
+  });
+});
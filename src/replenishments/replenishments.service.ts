@@ -0,0 +1,702 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, LessThanOrEqual, Repository } from 'typeorm';
+import {
+  ReplenishmentItem,
+  ReplenishmentRunResult,
+  ReplenishmentStatus,
+  ReplenishmentSubscription,
+} from './entities/replenishment-subscription.entity';
+import {
+  CreateReplenishmentDto,
+  UpdateReplenishmentDto,
+} from './dto/replenishment.dto';
+import {
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+  PaymentType,
+} from '../payments/entities/payment.entity';
+import { OrderPriceBreakdown } from '../orders/entities/order.entity';
+import { OrderQuoteLine } from '../orders/entities/order-quote.entity';
+import { OrderQuotesService } from '../orders/order-quotes.service';
+import { OrdersService } from '../orders/orders.service';
+import { PaymentsService } from '../payments/payments.service';
+import { CustomersService } from '../customers/customers.service';
+import { UsersService } from '../users/users.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import {
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../ledger/entities/ledger-transaction.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  NotificationPriority,
+  NotificationType,
+} from '../notifications/entities/notification.entity';
+import { ShippingMethod } from '../shipping-logs/entities/shipping-log.entity';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAYMENT_LINK_TTL_HOURS = 48;
+const LOW_BALANCE_NOTICE_DAYS = 3; // Nhắc nạp ví trước ngày tạo đơn
+
+interface ReplenishmentQuote {
+  lines: OrderQuoteLine[];
+  unavailable: string[]; // Tên sản phẩm hết hàng, không giao kỳ này
+  priceBreakdown: OrderPriceBreakdown;
+  toWardCode: string | null;
+  toDistrictId: number | null;
+}
+
+/**
+ * Mua định kỳ sản phẩm chăm sóc da:
+ * - Đến hạn → báo giá theo giá hiện tại + phí ship (không áp khuyến mãi)
+ * - Ví đủ tiền → trừ ví và tạo đơn; không đủ → gửi link chuyển khoản
+ * - Nhắc nạp ví trước LOW_BALANCE_NOTICE_DAYS ngày nếu số dư không đủ
+ */
+@Injectable()
+export class ReplenishmentsService {
+  private readonly logger = new Logger(ReplenishmentsService.name);
+
+  constructor(
+    @InjectRepository(ReplenishmentSubscription)
+    private readonly subscriptionRepository: Repository<ReplenishmentSubscription>,
+    @InjectRepository(Payment)
+    private readonly paymentRepository: Repository<Payment>,
+    private readonly orderQuotesService: OrderQuotesService,
+    private readonly ordersService: OrdersService,
+    private readonly paymentsService: PaymentsService,
+    private readonly customersService: CustomersService,
+    private readonly usersService: UsersService,
+    private readonly inventoryService: InventoryService,
+    private readonly ledgerService: LedgerService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  async create(
+    userId: string,
+    dto: CreateReplenishmentDto,
+  ): Promise<ReplenishmentSubscription> {
+    const customer = await this.customersService.findByUserId(userId);
+    const items = this.normalizeItems(dto.items);
+    // Báo lỗi ngay nếu sản phẩm không tồn tại
+    await this.orderQuotesService.priceLines(items);
+
+    const nextRunAt = dto.firstRunAt
+      ? new Date(dto.firstRunAt)
+      : new Date(Date.now() + dto.intervalDays * DAY_MS);
+    if (nextRunAt.getTime() <= Date.now()) {
+      throw new BadRequestException('firstRunAt must be in the future');
+    }
+
+    const subscription = this.subscriptionRepository.create({
+      customerId: customer.customerId,
+      userId,
+      items,
+      intervalDays: dto.intervalDays,
+      nextRunAt,
+      status: ReplenishmentStatus.ACTIVE,
+      shippingAddress: dto.shippingAddress,
+      shippingMethod: dto.shippingMethod ?? ShippingMethod.INTERNAL,
+      province: dto.province ?? null,
+      district: dto.district ?? null,
+      ward: dto.ward ?? null,
+      notes: dto.notes ?? null,
+    });
+    return this.subscriptionRepository.save(subscription);
+  }
+
+  async findByUser(userId: string): Promise<ReplenishmentSubscription[]> {
+    return this.subscriptionRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async findOne(
+    subscriptionId: string,
+    userId: string,
+  ): Promise<ReplenishmentSubscription> {
+    const subscription = await this.subscriptionRepository.findOne({
+      where: { subscriptionId, userId },
+    });
+    if (!subscription) {
+      throw new NotFoundException(
+        `Replenishment subscription ${subscriptionId} not found`,
+      );
+    }
+    return subscription;
+  }
+
+  async update(
+    subscriptionId: string,
+    userId: string,
+    dto: UpdateReplenishmentDto,
+  ): Promise<ReplenishmentSubscription> {
+    const subscription = await this.findOne(subscriptionId, userId);
+    this.assertNotCancelled(subscription);
+
+    const { items, firstRunAt, ...fields } = dto;
+    if (items) {
+      subscription.items = this.normalizeItems(items);
+      await this.orderQuotesService.priceLines(subscription.items);
+    }
+    if (firstRunAt) {
+      const nextRunAt = new Date(firstRunAt);
+      if (nextRunAt.getTime() <= Date.now()) {
+        throw new BadRequestException('firstRunAt must be in the future');
+      }
+      subscription.nextRunAt = nextRunAt;
+    }
+    Object.assign(subscription, fields);
+    return this.subscriptionRepository.save(subscription);
+  }
+
+  /**
+   * ⏭️ Bỏ qua kỳ sắp tới, lịch chuyển sang kỳ sau
+   */
+  async skipNext(
+    subscriptionId: string,
+    userId: string,
+  ): Promise<ReplenishmentSubscription> {
+    const subscription = await this.findOne(subscriptionId, userId);
+    if (subscription.status !== ReplenishmentStatus.ACTIVE) {
+      throw new BadRequestException('Only active subscriptions can be skipped');
+    }
+    subscription.nextRunAt = this.addDays(
+      subscription.nextRunAt,
+      subscription.intervalDays,
+    );
+    subscription.lastRunResult = ReplenishmentRunResult.SKIPPED;
+    return this.subscriptionRepository.save(subscription);
+  }
+
+  async pause(
+    subscriptionId: string,
+    userId: string,
+  ): Promise<ReplenishmentSubscription> {
+    const subscription = await this.findOne(subscriptionId, userId);
+    if (subscription.status !== ReplenishmentStatus.ACTIVE) {
+      throw new BadRequestException('Only active subscriptions can be paused');
+    }
+    subscription.status = ReplenishmentStatus.PAUSED;
+    return this.subscriptionRepository.save(subscription);
+  }
+
+  /**
+   * ▶️ Tiếp tục; các kỳ đã lỡ trong lúc tạm dừng không tạo đơn bù
+   */
+  async resume(
+    subscriptionId: string,
+    userId: string,
+  ): Promise<ReplenishmentSubscription> {
+    const subscription = await this.findOne(subscriptionId, userId);
+    if (subscription.status !== ReplenishmentStatus.PAUSED) {
+      throw new BadRequestException('Only paused subscriptions can be resumed');
+    }
+    subscription.status = ReplenishmentStatus.ACTIVE;
+    subscription.nextRunAt = this.nextRunAfter(
+      subscription.nextRunAt,
+      subscription.intervalDays,
+      new Date(),
+    );
+    return this.subscriptionRepository.save(subscription);
+  }
+
+  async cancel(
+    subscriptionId: string,
+    userId: string,
+  ): Promise<ReplenishmentSubscription> {
+    const subscription = await this.findOne(subscriptionId, userId);
+    this.assertNotCancelled(subscription);
+    subscription.status = ReplenishmentStatus.CANCELLED;
+    return this.subscriptionRepository.save(subscription);
+  }
+
+  /**
+   * 🤖 Tạo đơn cho các đăng ký đến hạn (gọi từ scheduler)
+   */
+  async processDue(now: Date = new Date()): Promise<{
+    processed: number;
+    ordersCreated: number;
+    paymentLinksSent: number;
+    failed: number;
+  }> {
+    const due = await this.subscriptionRepository.find({
+      where: {
+        status: ReplenishmentStatus.ACTIVE,
+        nextRunAt: LessThanOrEqual(now),
+      },
+      order: { nextRunAt: 'ASC' },
+    });
+
+    const summary = {
+      processed: 0,
+      ordersCreated: 0,
+      paymentLinksSent: 0,
+      failed: 0,
+    };
+    for (const subscription of due) {
+      const result = await this.run(subscription, now);
+      if (!result) continue;
+      summary.processed++;
+      if (result === ReplenishmentRunResult.ORDER_CREATED) {
+        summary.ordersCreated++;
+      } else if (result === ReplenishmentRunResult.PAYMENT_LINK_SENT) {
+        summary.paymentLinksSent++;
+      } else {
+        summary.failed++;
+      }
+    }
+    return summary;
+  }
+
+  /**
+   * 🔔 Nhắc nạp ví cho các đăng ký đến hạn sau LOW_BALANCE_NOTICE_DAYS ngày
+   * (chạy mỗi ngày một lần nên mỗi kỳ chỉ nhắc một lần)
+   */
+  async sendLowBalanceReminders(now: Date = new Date()): Promise<number> {
+    const windowStart = new Date(
+      now.getTime() + (LOW_BALANCE_NOTICE_DAYS - 1) * DAY_MS,
+    );
+    const windowEnd = new Date(
+      now.getTime() + LOW_BALANCE_NOTICE_DAYS * DAY_MS,
+    );
+    const upcoming = await this.subscriptionRepository.find({
+      where: {
+        status: ReplenishmentStatus.ACTIVE,
+        nextRunAt: Between(windowStart, windowEnd),
+      },
+    });
+
+    let notified = 0;
+    for (const subscription of upcoming) {
+      try {
+        const quote = await this.buildQuote(subscription);
+        const total = quote.priceBreakdown.totalAmount;
+        const balance = await this.getWalletBalance(subscription.userId);
+        if (quote.lines.length === 0 || balance >= total) {
+          continue;
+        }
+
+        await this.notificationsService.create({
+          userId: subscription.userId,
+          type: NotificationType.ORDER,
+          title: '💳 Số dư ví không đủ cho đơn định kỳ',
+          message: `Đơn định kỳ ngày ${subscription.nextRunAt.toLocaleDateString('vi-VN')} cần khoảng ${total.toLocaleString('vi-VN')} VND, ví hiện có ${balance.toLocaleString('vi-VN')} VND. Vui lòng nạp thêm, nếu không bạn sẽ nhận link chuyển khoản khi tạo đơn.`,
+          data: {
+            subscriptionId: subscription.subscriptionId,
+            nextRunAt: subscription.nextRunAt,
+            estimatedTotal: total,
+            balance,
+          },
+          priority: NotificationPriority.HIGH,
+        });
+        notified++;
+      } catch (error) {
+        this.logger.warn(
+          `⚠️ Low-balance check failed for replenishment ${subscription.subscriptionId}: ${(error as Error).message}`,
+        );
+      }
+    }
+    return notified;
+  }
+
+  /**
+   * Tạo đơn cho một kỳ. Trả về null nếu kỳ này đã được lần chạy khác nhận.
+   */
+  private async run(
+    subscription: ReplenishmentSubscription,
+    now: Date,
+  ): Promise<ReplenishmentRunResult | null> {
+    const periodAt = subscription.nextRunAt;
+    const nextRunAt = this.nextRunAfter(
+      periodAt,
+      subscription.intervalDays,
+      now,
+    );
+
+    // 🔒 Nhận kỳ trước khi trừ tiền: scheduler chạy trùng hoặc lỗi giữa chừng
+    // không làm kỳ này bị xử lý lại ở lần quét sau
+    const claim = await this.subscriptionRepository.update(
+      {
+        subscriptionId: subscription.subscriptionId,
+        status: ReplenishmentStatus.ACTIVE,
+        nextRunAt: periodAt,
+      },
+      { nextRunAt, lastRunAt: now },
+    );
+    if (!claim.affected) {
+      this.logger.warn(
+        `⚠️ Replenishment ${subscription.subscriptionId} run of ${periodAt.toISOString()} was already claimed, skipping`,
+      );
+      return null;
+    }
+
+    let result: ReplenishmentRunResult;
+    subscription.nextRunAt = nextRunAt;
+    subscription.lastRunAt = now;
+    subscription.lastRunError = null;
+    subscription.lastOrderId = null;
+    subscription.lastPaymentId = null;
+
+    try {
+      const quote = await this.buildQuote(subscription);
+      if (quote.lines.length === 0) {
+        throw new BadRequestException(
+          `Hết hàng: ${quote.unavailable.join(', ')}`,
+        );
+      }
+
+      const total = quote.priceBreakdown.totalAmount;
+      const balance = await this.getWalletBalance(subscription.userId);
+      const orderId =
+        balance >= total
+          ? await this.createWalletOrder(subscription, quote, periodAt)
+          : null;
+
+      if (orderId) {
+        subscription.lastOrderId = orderId;
+        result = ReplenishmentRunResult.ORDER_CREATED;
+        await this.notify(
+          subscription,
+          '🔁 Đơn định kỳ đã được tạo',
+          `Đã trừ ${total.toLocaleString('vi-VN')} VND từ ví cho đơn #${orderId.slice(0, 8)}.${this.describeUnavailable(quote)}`,
+          { orderId, totalAmount: total },
+        );
+      } else {
+        const payment = await this.sendPaymentLink(subscription, quote);
+        subscription.lastPaymentId = payment.paymentId;
+        result = ReplenishmentRunResult.PAYMENT_LINK_SENT;
+        await this.notify(
+          subscription,
+          '💳 Thanh toán đơn định kỳ',
+          `Số dư ví không đủ ${total.toLocaleString('vi-VN')} VND. Vui lòng chuyển khoản với nội dung ${payment.paymentCode} trong ${PAYMENT_LINK_TTL_HOURS} giờ để tạo đơn.${this.describeUnavailable(quote)}`,
+          {
+            paymentCode: payment.paymentCode,
+            totalAmount: total,
+            qrCodeUrl: payment.paymentIntent?.qrCodeUrl,
+            expiredAt: payment.expiredAt,
+          },
+        );
+      }
+    } catch (error) {
+      const message = (error as Error).message;
+      result = ReplenishmentRunResult.FAILED;
+      subscription.lastRunError = message;
+      this.logger.error(
+        `❌ Replenishment ${subscription.subscriptionId} failed: ${message}`,
+      );
+      await this.notify(
+        subscription,
+        '⚠️ Chưa tạo được đơn định kỳ',
+        `Kỳ này chưa tạo được đơn: ${message}. Chúng tôi sẽ thử lại ở kỳ sau.`,
+        {},
+      );
+    }
+
+    subscription.lastRunResult = result;
+    // Chỉ ghi kết quả kỳ này, không ghi đè trạng thái khách vừa đổi (tạm dừng / hủy)
+    await this.subscriptionRepository.update(
+      { subscriptionId: subscription.subscriptionId },
+      {
+        lastRunResult: result,
+        lastRunError: subscription.lastRunError,
+        lastOrderId: subscription.lastOrderId,
+        lastPaymentId: subscription.lastPaymentId,
+      },
+    );
+    this.logger.log(
+      `🔁 Replenishment ${subscription.subscriptionId}: ${result}, next run ${subscription.nextRunAt.toISOString()}`,
+    );
+    return result;
+  }
+
+  /**
+   * Báo giá theo giá hiện tại; sản phẩm không đủ hàng giao số còn lại
+   */
+  private async buildQuote(
+    subscription: ReplenishmentSubscription,
+  ): Promise<ReplenishmentQuote> {
+    const priced = await this.orderQuotesService.priceLines(subscription.items);
+    const lines: OrderQuoteLine[] = [];
+    const unavailable: string[] = [];
+    for (const line of priced) {
+      const available = await this.inventoryService.getAvailableStock(
+        line.productId,
+      );
+      const quantity = Math.min(line.quantity, available);
+      if (quantity < line.quantity) {
+        unavailable.push(line.productName);
+      }
+      if (quantity > 0) {
+        lines.push({
+          ...line,
+          quantity,
+          discount: (line.unitPrice - line.finalUnitPrice) * quantity,
+          lineTotal: line.finalUnitPrice * quantity,
+        });
+      }
+    }
+
+    const { shippingFee, toWardCode, toDistrictId } =
+      await this.orderQuotesService.calculateShipping(
+        {
+          shippingMethod: subscription.shippingMethod as ShippingMethod,
+          province: subscription.province ?? undefined,
+          district: subscription.district ?? undefined,
+          ward: subscription.ward ?? undefined,
+        },
+        lines.length,
+      );
+    const subtotal = lines.reduce(
+      (sum, line) => sum + line.unitPrice * line.quantity,
+      0,
+    );
+    const discountTotal = lines.reduce((sum, line) => sum + line.discount, 0);
+
+    return {
+      lines,
+      unavailable,
+      priceBreakdown: {
+        subtotal,
+        discountTotal,
+        promotionDiscount: 0,
+        shippingFee,
+        shippingDiscount: 0,
+        totalAmount: subtotal - discountTotal + shippingFee,
+      },
+      toWardCode,
+      toDistrictId,
+    };
+  }
+
+  /**
+   * Trừ ví rồi tạo đơn như đơn đã thanh toán. Trả về null nếu ví không
+   * còn đủ tiền lúc trừ (để chuyển sang gửi link thanh toán).
+   * Mã payment sinh theo đăng ký + kỳ (paymentCode unique) nên mỗi kỳ chỉ trừ ví một lần.
+   */
+  private async createWalletOrder(
+    subscription: ReplenishmentSubscription,
+    quote: ReplenishmentQuote,
+    periodAt: Date,
+  ): Promise<string | null> {
+    const total = quote.priceBreakdown.totalAmount;
+    const paymentCode = this.periodPaymentCode(subscription, periodAt);
+    let payment: Payment;
+    try {
+      payment = await this.paymentRepository.save(
+        this.paymentRepository.create({
+          paymentCode,
+          paymentType: PaymentType.ORDER,
+          customerId: subscription.customerId,
+          userId: subscription.userId,
+          amount: total,
+          paidAmount: total,
+          paymentMethod: PaymentMethod.WALLET,
+          status: PaymentStatus.COMPLETED,
+          paidAt: new Date(),
+        }),
+      );
+    } catch (error) {
+      const dbError = error as { code?: string; number?: number };
+      if (dbError?.code === 'ER_DUP_ENTRY' || dbError?.number === 1062) {
+        throw new ConflictException(
+          `Replenishment run of ${periodAt.toISOString()} was already charged (${paymentCode})`,
+        );
+      }
+      throw error;
+    }
+
+    const reference = {
+      amount: total,
+      referenceType: LedgerReferenceType.PAYMENT,
+      referenceId: payment.paymentId,
+    };
+    try {
+      await this.ledgerService.transfer({
+        type: LedgerTransactionType.ORDER_PAYMENT,
+        description: `Replenishment order paid by wallet ${payment.paymentCode}`,
+        from: { userId: subscription.userId },
+        to: { type: LedgerAccountType.PLATFORM_SALES },
+        ...reference,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ Wallet charge failed for replenishment ${subscription.subscriptionId}: ${(error as Error).message}`,
+      );
+      await this.paymentRepository.delete({ paymentId: payment.paymentId });
+      return null;
+    }
+
+    try {
+      const order = await this.ordersService.createOrderFromPayment({
+        customerId: subscription.customerId,
+        cartItems: this.toCartItems(quote.lines),
+        shippingAddress: subscription.shippingAddress,
+        toWardCode: quote.toWardCode ?? undefined,
+        toDistrictId: quote.toDistrictId ?? undefined,
+        notes: this.orderNotes(subscription),
+        totalAmount: total,
+        paymentId: payment.paymentId,
+        shippingMethod: subscription.shippingMethod,
+        priceBreakdown: quote.priceBreakdown,
+      });
+      payment.orderId = order.orderId;
+      await this.paymentRepository.save(payment);
+      return order.orderId;
+    } catch (error) {
+      // Hoàn lại tiền đã trừ nếu không tạo được đơn
+      await this.ledgerService.transfer({
+        type: LedgerTransactionType.ORDER_PAYMENT_REVERSAL,
+        description: `Rollback of replenishment payment ${payment.paymentCode}`,
+        from: { type: LedgerAccountType.PLATFORM_SALES },
+        to: { userId: subscription.userId },
+        ...reference,
+      });
+      payment.status = PaymentStatus.FAILED;
+      await this.paymentRepository.save(payment);
+      throw error;
+    }
+  }
+
+  /**
+   * Payment chuyển khoản mang sẵn dữ liệu đơn; đơn được tạo khi nhận tiền
+   */
+  private async sendPaymentLink(
+    subscription: ReplenishmentSubscription,
+    quote: ReplenishmentQuote,
+  ) {
+    const payment = await this.paymentsService.createPayment({
+      paymentType: PaymentType.ORDER,
+      customerId: subscription.customerId,
+      userId: subscription.userId,
+      // replenishmentId: không xoá giỏ hàng của khách khi thanh toán xong
+      cartData: {
+        items: this.toCartItems(quote.lines),
+        priceBreakdown: quote.priceBreakdown,
+        replenishmentId: subscription.subscriptionId,
+      },
+      shippingAddress: subscription.shippingAddress,
+      toWardCode: quote.toWardCode ?? undefined,
+      toDistrictId: quote.toDistrictId ?? undefined,
+      orderNotes: this.orderNotes(subscription),
+      shippingMethod: subscription.shippingMethod,
+      amount: quote.priceBreakdown.totalAmount,
+      paymentMethod: PaymentMethod.BANKING,
+    });
+
+    // Link thanh toán định kỳ giữ lâu hơn payment checkout thường
+    payment.expiredAt = new Date(
+      Date.now() + PAYMENT_LINK_TTL_HOURS * 60 * 60 * 1000,
+    );
+    await this.paymentRepository.update(
+      { paymentId: payment.paymentId },
+      { expiredAt: payment.expiredAt },
+    );
+    return payment;
+  }
+
+  private async notify(
+    subscription: ReplenishmentSubscription,
+    title: string,
+    message: string,
+    data: Record<string, unknown>,
+  ): Promise<void> {
+    try {
+      await this.notificationsService.create({
+        userId: subscription.userId,
+        type: NotificationType.ORDER,
+        title,
+        message,
+        data: { subscriptionId: subscription.subscriptionId, ...data },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ Failed to notify replenishment ${subscription.subscriptionId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async getWalletBalance(userId: string): Promise<number> {
+    const user = await this.usersService.findOne(userId);
+    return parseFloat(user.balance.toString());
+  }
+
+  private toCartItems(lines: OrderQuoteLine[]) {
+    return lines.map((line) => ({
+      productId: line.productId,
+      productName: line.productName,
+      price: line.finalUnitPrice,
+      originalPrice: line.unitPrice,
+      salePercentage: line.salePercentage,
+      quantity: line.quantity,
+    }));
+  }
+
+  // VD: REP-1A2B3C4D-20261019030000
+  private periodPaymentCode(
+    subscription: ReplenishmentSubscription,
+    periodAt: Date,
+  ): string {
+    const period = new Date(periodAt)
+      .toISOString()
+      .replace(/\D/g, '')
+      .slice(0, 14);
+    return `REP-${subscription.subscriptionId.slice(0, 8).toUpperCase()}-${period}`;
+  }
+
+  private orderNotes(subscription: ReplenishmentSubscription): string {
+    const tag = `Đơn định kỳ #${subscription.subscriptionId.slice(0, 8)}`;
+    return subscription.notes ? `${tag} - ${subscription.notes}` : tag;
+  }
+
+  private describeUnavailable(quote: ReplenishmentQuote): string {
+    return quote.unavailable.length > 0
+      ? ` Tạm hết hàng, chưa giao đủ: ${quote.unavailable.join(', ')}.`
+      : '';
+  }
+
+  private normalizeItems(items: ReplenishmentItem[]): ReplenishmentItem[] {
+    const merged = new Map<string, number>();
+    for (const item of items) {
+      merged.set(
+        item.productId,
+        (merged.get(item.productId) ?? 0) + item.quantity,
+      );
+    }
+    return [...merged].map(([productId, quantity]) => ({
+      productId,
+      quantity,
+    }));
+  }
+
+  private assertNotCancelled(subscription: ReplenishmentSubscription): void {
+    if (subscription.status === ReplenishmentStatus.CANCELLED) {
+      throw new BadRequestException(
+        'Replenishment subscription has been cancelled',
+      );
+    }
+  }
+
+  private addDays(date: Date, days: number): Date {
+    return new Date(new Date(date).getTime() + days * DAY_MS);
+  }
+
+  // Lịch kỳ tiếp theo giữ nguyên chu kỳ, bỏ qua các kỳ đã qua
+  private nextRunAfter(from: Date, intervalDays: number, now: Date): Date {
+    let next = new Date(from);
+    do {
+      next = this.addDays(next, intervalDays);
+    } while (next.getTime() <= now.getTime());
+    return next;
+  }
+}
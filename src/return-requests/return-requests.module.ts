@@ -7,13 +7,13 @@ import { Order } from '../orders/entities/order.entity';
 import { ShippingLog } from '../shipping-logs/entities/shipping-log.entity';
 import { Customer } from '../customers/entities/customer.entity';
 import { CloudinaryModule } from '../cloudinary/cloudinary.module';
-import { Payment } from '../payments/entities/payment.entity';
-import { User } from '../users/entities/user.entity';
+import { PaymentsModule } from '../payments/payments.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([ReturnRequest, Order, ShippingLog, Customer, Payment, User]),
+    TypeOrmModule.forFeature([ReturnRequest, Order, ShippingLog, Customer]),
     CloudinaryModule,
+    PaymentsModule,
   ],
   controllers: [ReturnRequestsController],
   providers: [ReturnRequestsService],
@@ -6,8 +6,6 @@ import {
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
-import { Payment, PaymentType, PaymentStatus, PaymentMethod } from '../payments/entities/payment.entity';
-import { User } from '../users/entities/user.entity';
 import { CreateReturnRequestDto } from './dto/create-return-request.dto';
 import {
   ReviewReturnRequestDto,
@@ -24,6 +22,12 @@ import {
 } from '../shipping-logs/entities/shipping-log.entity';
 import { Customer } from '../customers/entities/customer.entity';
 import { CloudinaryService } from '../cloudinary/cloudinary.service';
+import { RefundsService } from '../payments/refunds.service';
+import {
+  RefundDestination,
+  RefundStatus,
+} from '../payments/entities/refund.entity';
+import { LedgerReferenceType } from '../ledger/entities/ledger-transaction.entity';
 
 @Injectable()
 export class ReturnRequestsService {
@@ -80,11 +84,8 @@ export class ReturnRequestsService {
     private shippingLogRepository: Repository<ShippingLog>,
     @InjectRepository(Customer)
     private customerRepository: Repository<Customer>,
-    @InjectRepository(Payment)
-    private paymentRepository: Repository<Payment>,
-    @InjectRepository(User)
-    private userRepository: Repository<User>,
     private cloudinaryService: CloudinaryService,
+    private refundsService: RefundsService,
   ) {}
 
   async create(
@@ -351,33 +352,32 @@ export class ReturnRequestsService {
       throw new NotFoundException('Order not found');
     }
 
-    const refundAmount = order.payment?.amount || 0;
     const userId = order.customer?.user?.userId;
 
     if (!userId) {
       throw new NotFoundException('User not found for refund');
     }
 
-    // 💰 Process refund: Update user wallet balance
-    await this.userRepository.increment(
-      { userId },
-      'balance',
-      refundAmount,
-    );
+    if (!order.payment) {
+      throw new BadRequestException('Order has no payment to refund');
+    }
 
-    // 📝 Create payment record for refund (topup type)
-    const paymentCode = `REFUND-${returnRequest.returnRequestId.substring(0, 8).toUpperCase()}`;
-    const refundPayment = this.paymentRepository.create({
-      paymentCode,
-      paymentType: PaymentType.TOPUP,
-      userId,
-      amount: refundAmount,
-      paidAmount: refundAmount,
-      paymentMethod: PaymentMethod.WALLET,
-      status: PaymentStatus.COMPLETED,
-      transferContent: `Tiền đơn hàng #${order.orderId.substring(0, 8)} - Hoàn trả do trả hàng`,
+    // 💰 Process refund: hoàn phần còn lại của payment vào ví (vượt ngưỡng -> chờ admin duyệt)
+    const refund = await this.refundsService.createRefund({
+      paymentId: order.payment.paymentId,
+      destination: RefundDestination.WALLET,
+      walletUserId: userId,
+      reason: `Tiền đơn hàng #${order.orderId.substring(0, 8)} - Hoàn trả do trả hàng`,
+      requestedBy: staffId,
+      referenceType: LedgerReferenceType.RETURN_REQUEST,
+      referenceId: returnRequest.returnRequestId,
     });
-    await this.paymentRepository.save(refundPayment);
+
+    returnRequest.refundAmount = Number(refund.amount);
+    if (refund.status === RefundStatus.COMPLETED) {
+      returnRequest.isRefunded = true;
+      returnRequest.refundedAt = refund.completedAt!;
+    }
 
     // Update return request status
     returnRequest.status = ReturnRequestStatus.COMPLETED;
@@ -397,8 +397,9 @@ export class ReturnRequestsService {
 
     const savedReturnRequest = await this.returnRequestRepository.save(returnRequest);
 
-    console.log(`✅ Refund processed: ${refundAmount} VND to user ${userId}`);
-    console.log(`📝 Refund payment created: ${paymentCode}`);
+    console.log(
+      `✅ Refund ${refund.refundId} (${refund.status}): ${refund.amount} VND to user ${userId}`,
+    );
 
     return savedReturnRequest;
   }
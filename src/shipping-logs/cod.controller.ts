@@ -0,0 +1,81 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CodService } from './cod.service';
+import { RecordCodCollectionDto, SettleCodDto } from './dto/cod.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User, UserRole } from '../users/entities/user.entity';
+import { ResponseHelper } from '../utils/responses';
+
+@ApiTags('COD')
+@Controller('cod')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.STAFF, UserRole.ADMIN)
+@ApiBearerAuth()
+export class CodController {
+  constructor(private readonly codService: CodService) {}
+
+  @Post('shipping-logs/:shippingLogId/collect')
+  @Roles(UserRole.STAFF)
+  @ApiOperation({
+    summary: 'Record cash collected on delivery (assigned shipper only)',
+    description:
+      'Marks the COD payment as paid. GHN deliveries are recorded from the GHN COD webhook instead.',
+  })
+  @ApiResponse({ status: 201, description: 'COD collection recorded' })
+  async collect(
+    @GetUser() user: User,
+    @Param('shippingLogId', new ParseUUIDPipe()) shippingLogId: string,
+    @Body() dto: RecordCodCollectionDto,
+  ) {
+    const log = await this.codService.recordShipperCollection(
+      shippingLogId,
+      user.userId,
+      dto.amount,
+    );
+    return ResponseHelper.created('COD collection recorded', log);
+  }
+
+  @Post('settle')
+  @ApiOperation({
+    summary: 'Settle collected COD (Staff/Admin only)',
+    description:
+      'Records cash handed over by a shipper, or a COD transfer received from GHN.',
+  })
+  @ApiResponse({ status: 201, description: 'COD settled' })
+  async settle(@GetUser() user: User, @Body() dto: SettleCodDto) {
+    const result = await this.codService.settle(
+      dto.shippingLogIds,
+      user.userId,
+      dto.note,
+    );
+    return ResponseHelper.created('COD settled', result);
+  }
+
+  @Get('outstanding')
+  @ApiOperation({
+    summary: 'Outstanding COD per shipper (Staff/Admin only)',
+    description:
+      'Cash collected but not yet handed over, grouped by shipper. GHN deliveries are grouped in one row.',
+  })
+  @ApiResponse({ status: 200, description: 'Outstanding COD retrieved' })
+  async outstanding() {
+    const report = await this.codService.getOutstandingReport();
+    return ResponseHelper.success('Outstanding COD retrieved', report);
+  }
+}
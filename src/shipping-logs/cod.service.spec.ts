@@ -0,0 +1,359 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { EntityManager } from 'typeorm';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { CodService } from './cod.service';
+import { ShippingLog, ShippingMethod } from './entities/shipping-log.entity';
+import {
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+} from '../payments/entities/payment.entity';
+import { LedgerService } from '../ledger/ledger.service';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import { LedgerTransactionType } from '../ledger/entities/ledger-transaction.entity';
+
+describe('CodService', () => {
+  let service: CodService;
+
+  const mockShippingLogRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+  };
+
+  const mockManager = {
+    update: jest.fn(),
+    findOneOrFail: jest.fn(),
+    save: jest.fn((_entity: unknown, data: unknown) => Promise.resolve(data)),
+    transaction: jest.fn(
+      (work: (manager: unknown) => Promise<unknown>): Promise<unknown> =>
+        work(mockManager),
+    ),
+  };
+
+  const mockLedgerService = {
+    transfer: jest.fn(),
+  };
+
+  const codLog = (overrides: Partial<ShippingLog> = {}): ShippingLog =>
+    ({
+      shippingLogId: 'log-1',
+      orderId: 'order-1',
+      shippingMethod: ShippingMethod.INTERNAL,
+      shippingStaffId: 'shipper-1',
+      isCodCollected: false,
+      isCodTransferred: false,
+      order: {
+        orderId: 'order-1',
+        payment: {
+          paymentId: 10,
+          amount: 350000,
+          paidAmount: 0,
+          paymentMethod: PaymentMethod.CASH,
+          status: PaymentStatus.PENDING,
+        },
+      },
+      ...overrides,
+    }) as unknown as ShippingLog;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CodService,
+        {
+          provide: getRepositoryToken(ShippingLog),
+          useValue: mockShippingLogRepository,
+        },
+        {
+          provide: EntityManager,
+          useValue: mockManager,
+        },
+        {
+          provide: LedgerService,
+          useValue: mockLedgerService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<CodService>(CodService);
+    mockManager.update.mockResolvedValue({ affected: 1 });
+    mockManager.findOneOrFail.mockImplementation(() =>
+      Promise.resolve({ ...codLog().order.payment }),
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordGhnCollection', () => {
+    // TC-COD-001-01: Normal - GHN collected the cash
+    it('TC-COD-001-01: should complete the COD payment and post the collection', async () => {
+      const log = codLog({
+        shippingMethod: ShippingMethod.GHN,
+        ghnOrderCode: 'GHN123',
+      });
+      mockShippingLogRepository.findOne.mockResolvedValue(log);
+
+      const result = await service.recordGhnCollection('GHN123', 350000);
+
+      expect(result.isCodCollected).toBe(true);
+      expect(result.totalCodAmount).toBe(350000);
+      expect(mockManager.save).toHaveBeenCalledWith(
+        Payment,
+        expect.objectContaining({
+          paidAmount: 350000,
+          status: PaymentStatus.COMPLETED,
+        }),
+      );
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: LedgerTransactionType.COD_COLLECTION,
+          from: { type: LedgerAccountType.COD_RECEIVABLE },
+          to: { type: LedgerAccountType.PLATFORM_SALES },
+          amount: 350000,
+        }),
+        mockManager,
+      );
+    });
+
+    // TC-COD-001-02: Boundary - GHN retries the webhook
+    it('TC-COD-001-02: should record a repeated webhook only once', async () => {
+      mockShippingLogRepository.findOne.mockResolvedValue(codLog());
+      mockManager.update.mockResolvedValue({ affected: 0 });
+
+      await service.recordGhnCollection('GHN123', 350000);
+
+      expect(mockManager.save).not.toHaveBeenCalled();
+      expect(mockLedgerService.transfer).not.toHaveBeenCalled();
+    });
+
+    // TC-COD-001-03: Abnormal - Prepaid order
+    it('TC-COD-001-03: should reject orders that are not cash on delivery', async () => {
+      const log = codLog();
+      log.order.payment.paymentMethod = PaymentMethod.BANKING;
+      mockShippingLogRepository.findOne.mockResolvedValue(log);
+
+      await expect(
+        service.recordGhnCollection('GHN123', 350000),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockLedgerService.transfer).not.toHaveBeenCalled();
+    });
+
+    // TC-COD-001-04: Abnormal - Unknown GHN order
+    it('TC-COD-001-04: should throw when the GHN order code is unknown', async () => {
+      mockShippingLogRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.recordGhnCollection('GHN000', 1000)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    // TC-COD-001-05: Abnormal - GHN reports a different amount than the order
+    it('TC-COD-001-05: should reject a COD amount that differs from the payment amount', async () => {
+      mockShippingLogRepository.findOne.mockResolvedValue(codLog());
+
+      await expect(
+        service.recordGhnCollection('GHN123', 1000000),
+      ).rejects.toThrow('does not match payment amount 350000 VND');
+      expect(mockManager.update).not.toHaveBeenCalled();
+      expect(mockLedgerService.transfer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordShipperCollection', () => {
+    // TC-COD-002-01: Normal - Shipper collects the payment amount by default
+    it('TC-COD-002-01: should default to the payment amount', async () => {
+      mockShippingLogRepository.findOne.mockResolvedValue(codLog());
+
+      const result = await service.recordShipperCollection(
+        'log-1',
+        'shipper-1',
+      );
+
+      expect(result.totalCodAmount).toBe(350000);
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 350000, createdBy: 'shipper-1' }),
+        mockManager,
+      );
+    });
+
+    // TC-COD-002-02: Abnormal - Another shipper's delivery
+    it('TC-COD-002-02: should reject a shipper not assigned to the delivery', async () => {
+      mockShippingLogRepository.findOne.mockResolvedValue(codLog());
+
+      await expect(
+        service.recordShipperCollection('log-1', 'shipper-2'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    // TC-COD-002-03: Boundary - Short collection keeps the payment pending
+    it('TC-COD-002-03: should keep the payment pending when less cash was collected', async () => {
+      mockShippingLogRepository.findOne.mockResolvedValue(codLog());
+
+      await service.recordShipperCollection('log-1', 'shipper-1', 300000);
+
+      expect(mockManager.save).toHaveBeenCalledWith(
+        Payment,
+        expect.objectContaining({
+          paidAmount: 300000,
+          status: PaymentStatus.PENDING,
+        }),
+      );
+    });
+
+    // TC-COD-002-04: Abnormal - Secondary shipment of a split order carries no COD
+    it('TC-COD-002-04: should not collect the order total on a secondary shipment', async () => {
+      mockShippingLogRepository.findOne.mockResolvedValue(
+        codLog({ shippingLogId: 'log-2', totalAmount: 0 }),
+      );
+
+      await expect(
+        service.recordShipperCollection('log-2', 'shipper-1'),
+      ).rejects.toThrow('carries no COD');
+      expect(mockManager.update).not.toHaveBeenCalled();
+    });
+
+    // TC-COD-002-05: Abnormal - Collecting more than is still owed
+    it('TC-COD-002-05: should refuse to collect more than the outstanding amount', async () => {
+      mockShippingLogRepository.findOne.mockResolvedValue(codLog());
+      mockManager.findOneOrFail.mockResolvedValue({
+        ...codLog().order.payment,
+        paidAmount: 300000,
+      });
+
+      await expect(
+        service.recordShipperCollection('log-1', 'shipper-1', 100000),
+      ).rejects.toThrow('exceeds the 50000 VND still owed');
+      expect(mockManager.save).not.toHaveBeenCalled();
+      expect(mockLedgerService.transfer).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordBatchCollection', () => {
+    // TC-COD-005-01: Normal - Order split across two warehouses
+    it('TC-COD-005-01: should collect a two-shipment order once on the primary shipment', async () => {
+      const primary = codLog({ totalAmount: 350000, batchCode: 'B1' });
+      const secondary = codLog({
+        shippingLogId: 'log-2',
+        totalAmount: 0,
+        batchCode: 'B1',
+      });
+      const stored = { ...codLog().order.payment };
+      mockManager.findOneOrFail.mockImplementation(() =>
+        Promise.resolve({ ...stored }),
+      );
+      mockManager.save.mockImplementationOnce(
+        (_entity: unknown, data: unknown) =>
+          Promise.resolve(Object.assign(stored, data)),
+      );
+
+      const total = await service.recordBatchCollection(
+        [primary, secondary],
+        'shipper-1',
+      );
+
+      expect(total).toBe(350000);
+      expect(stored).toEqual(
+        expect.objectContaining({
+          paidAmount: 350000,
+          status: PaymentStatus.COMPLETED,
+        }) as Record<string, unknown>,
+      );
+      expect(mockManager.update).toHaveBeenCalledTimes(1);
+      expect(mockLedgerService.transfer).toHaveBeenCalledTimes(1);
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 350000 }),
+        mockManager,
+      );
+      expect(secondary.isCodCollected).toBe(false);
+    });
+  });
+
+  describe('settle', () => {
+    // TC-COD-003-01: Normal - Shipper hands over cash
+    it('TC-COD-003-01: should move collected COD to the platform bank', async () => {
+      mockShippingLogRepository.find.mockResolvedValue([
+        codLog({ isCodCollected: true, totalCodAmount: 350000 }),
+        codLog({
+          shippingLogId: 'log-2',
+          orderId: 'order-2',
+          isCodCollected: true,
+          totalCodAmount: 150000,
+        }),
+      ]);
+
+      const result = await service.settle(['log-1', 'log-2'], 'staff-1');
+
+      expect(result).toEqual({ settledCount: 2, totalAmount: 500000 });
+      expect(mockLedgerService.transfer).toHaveBeenCalledTimes(2);
+      expect(mockLedgerService.transfer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: LedgerTransactionType.COD_SETTLEMENT,
+          from: { type: LedgerAccountType.PLATFORM_BANK },
+          to: { type: LedgerAccountType.COD_RECEIVABLE },
+          amount: 150000,
+        }),
+        mockManager,
+      );
+    });
+
+    // TC-COD-003-02: Abnormal - Cash not collected yet
+    it('TC-COD-003-02: should reject deliveries without outstanding COD', async () => {
+      mockShippingLogRepository.find.mockResolvedValue([codLog()]);
+
+      await expect(service.settle(['log-1'], 'staff-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockManager.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getOutstandingReport', () => {
+    // TC-COD-004-01: Normal - Grouped per shipper, GHN in one row
+    it('TC-COD-004-01: should group outstanding COD per shipper', async () => {
+      const collectedAt = new Date('2026-10-18T09:00:00Z');
+      mockShippingLogRepository.find.mockResolvedValue([
+        codLog({
+          isCodCollected: true,
+          totalCodAmount: 100000,
+          codCollectDate: collectedAt,
+          shippingStaff: { fullName: 'Shipper One' } as never,
+        }),
+        codLog({
+          shippingLogId: 'log-2',
+          isCodCollected: true,
+          totalCodAmount: 200000,
+          codCollectDate: collectedAt,
+        }),
+        codLog({
+          shippingLogId: 'log-3',
+          shippingMethod: ShippingMethod.GHN,
+          shippingStaffId: null as never,
+          isCodCollected: true,
+          totalCodAmount: 50000,
+          codCollectDate: collectedAt,
+        }),
+      ]);
+
+      const report = await service.getOutstandingReport();
+
+      expect(report).toEqual([
+        expect.objectContaining({
+          collector: 'SHIPPER',
+          shipperId: 'shipper-1',
+          shipperName: 'Shipper One',
+          orderCount: 2,
+          outstandingAmount: 300000,
+          shippingLogIds: ['log-1', 'log-2'],
+        }),
+        expect.objectContaining({
+          collector: 'GHN',
+          shipperId: null,
+          orderCount: 1,
+          outstandingAmount: 50000,
+        }),
+      ]);
+    });
+  });
+});
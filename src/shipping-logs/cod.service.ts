@@ -0,0 +1,373 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { ShippingLog, ShippingMethod } from './entities/shipping-log.entity';
+import {
+  Payment,
+  PaymentMethod,
+  PaymentStatus,
+} from '../payments/entities/payment.entity';
+import { LedgerService } from '../ledger/ledger.service';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import {
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../ledger/entities/ledger-transaction.entity';
+
+export interface CodOutstandingRow {
+  collector: 'GHN' | 'SHIPPER';
+  shipperId: string | null;
+  shipperName: string | null;
+  orderCount: number;
+  outstandingAmount: number;
+  oldestCollectedAt: Date;
+  shippingLogIds: string[];
+}
+
+/**
+ * Đối soát tiền thu hộ (COD):
+ * - Thu: GHN webhook hoặc shipper nội bộ xác nhận → payment COMPLETED,
+ *   Nợ COD_RECEIVABLE / Có PLATFORM_SALES
+ * - Nộp: shipper bàn giao tiền mặt hoặc GHN chuyển khoản →
+ *   Nợ PLATFORM_BANK / Có COD_RECEIVABLE
+ */
+@Injectable()
+export class CodService {
+  private readonly logger = new Logger(CodService.name);
+
+  constructor(
+    @InjectRepository(ShippingLog)
+    private readonly shippingLogRepository: Repository<ShippingLog>,
+    private readonly entityManager: EntityManager,
+    private readonly ledgerService: LedgerService,
+  ) {}
+
+  /**
+   * 💰 GHN đã thu COD của khách (webhook cod-collected, đã xác thực token).
+   * Webhook gửi lại nhiều lần chỉ ghi nhận một lần.
+   */
+  async recordGhnCollection(
+    ghnOrderCode: string,
+    amount: number,
+  ): Promise<ShippingLog> {
+    const log = await this.shippingLogRepository.findOne({
+      where: { ghnOrderCode },
+      relations: ['order', 'order.payment'],
+    });
+    if (!log) {
+      throw new NotFoundException(
+        `Shipping log not found for GHN order code: ${ghnOrderCode}`,
+      );
+    }
+
+    // GHN phải thu đúng số tiền của payment, lệch thì đối soát tay
+    const payment = log.order?.payment;
+    if (payment && amount !== Number(payment.amount)) {
+      throw new BadRequestException(
+        `COD amount ${amount} VND does not match payment amount ${Number(payment.amount)} VND of order ${log.orderId}`,
+      );
+    }
+
+    return this.recordCollection(
+      log,
+      amount,
+      `COD collected by GHN for ${ghnOrderCode}`,
+    );
+  }
+
+  /**
+   * 💵 Shipper nội bộ xác nhận đã thu tiền mặt khi giao
+   */
+  async recordShipperCollection(
+    shippingLogId: string,
+    staffId: string,
+    amount?: number,
+  ): Promise<ShippingLog> {
+    const log = await this.shippingLogRepository.findOne({
+      where: { shippingLogId },
+      relations: ['order', 'order.payment'],
+    });
+    if (!log) {
+      throw new NotFoundException(`Shipping log ${shippingLogId} not found`);
+    }
+    if (log.shippingMethod === ShippingMethod.GHN) {
+      throw new BadRequestException(
+        'COD for GHN deliveries is recorded from the GHN COD webhook',
+      );
+    }
+    if (log.shippingStaffId !== staffId) {
+      throw new BadRequestException(
+        "You don't have permission to collect COD for this delivery",
+      );
+    }
+
+    const share = this.getCodShare(log);
+    if (amount === undefined && share <= 0) {
+      throw new BadRequestException(
+        `Shipping log ${shippingLogId} carries no COD; it is collected with the primary shipment of order ${log.orderId}`,
+      );
+    }
+
+    return this.recordCollection(
+      log,
+      amount ?? share,
+      `COD collected by shipper ${staffId}`,
+      staffId,
+    );
+  }
+
+  /**
+   * Ghi nhận COD cho các đơn tiền mặt trong batch khi shipper báo đã thu.
+   * Trả về tổng tiền đã ghi nhận.
+   */
+  async recordBatchCollection(
+    logs: ShippingLog[],
+    staffId: string,
+  ): Promise<number> {
+    let total = 0;
+    for (const log of logs) {
+      const payment = log.order?.payment;
+      if (
+        !payment ||
+        payment.paymentMethod !== PaymentMethod.CASH ||
+        log.isCodCollected
+      ) {
+        continue;
+      }
+      // Đơn tách kho: vận đơn phụ không thu tiền, chỉ thu phần còn nợ
+      const amount = Math.min(
+        this.getCodShare(log),
+        Number(payment.amount) - Number(payment.paidAmount ?? 0),
+      );
+      if (amount <= 0) {
+        continue;
+      }
+      await this.recordCollection(
+        log,
+        amount,
+        `COD collected by shipper ${staffId} (batch ${log.batchCode})`,
+        staffId,
+      );
+      total += amount;
+    }
+    return total;
+  }
+
+  /**
+   * 🏦 Tiền COD đã về hệ thống: shipper bàn giao hoặc GHN chuyển khoản
+   */
+  async settle(
+    shippingLogIds: string[],
+    actorId: string,
+    note?: string,
+  ): Promise<{ settledCount: number; totalAmount: number }> {
+    const logs = await this.shippingLogRepository.find({
+      where: { shippingLogId: In(shippingLogIds) },
+      relations: ['order'],
+    });
+    const ids = new Set(shippingLogIds);
+    if (logs.length !== ids.size) {
+      const found = new Set(logs.map((log) => log.shippingLogId));
+      const missing = [...ids].filter((id) => !found.has(id));
+      throw new NotFoundException(
+        `Shipping logs not found: ${missing.join(', ')}`,
+      );
+    }
+
+    const invalid = logs.filter(
+      (log) => !log.isCodCollected || log.isCodTransferred,
+    );
+    if (invalid.length > 0) {
+      throw new BadRequestException(
+        `COD is not outstanding for shipping logs: ${invalid
+          .map((log) => log.shippingLogId)
+          .join(', ')}`,
+      );
+    }
+
+    let totalAmount = 0;
+    await this.entityManager.transaction(async (manager) => {
+      const settledAt = new Date();
+      for (const log of logs) {
+        const amount = Number(log.totalCodAmount ?? 0);
+        const result = await manager.update(
+          ShippingLog,
+          { shippingLogId: log.shippingLogId, isCodTransferred: false },
+          { isCodTransferred: true, codTransferDate: settledAt },
+        );
+        if (!result.affected) {
+          throw new ConflictException(
+            `COD for shipping log ${log.shippingLogId} was already settled`,
+          );
+        }
+
+        const from =
+          log.shippingMethod === ShippingMethod.GHN
+            ? `GHN ${log.ghnOrderCode}`
+            : `shipper ${log.shippingStaffId}`;
+        await this.ledgerService.transfer(
+          {
+            type: LedgerTransactionType.COD_SETTLEMENT,
+            description: `COD settled from ${from}${note ? ` - ${note}` : ''}`,
+            from: { type: LedgerAccountType.PLATFORM_BANK },
+            to: { type: LedgerAccountType.COD_RECEIVABLE },
+            amount,
+            referenceType: LedgerReferenceType.ORDER,
+            referenceId: log.orderId,
+            createdBy: actorId,
+          },
+          manager,
+        );
+        totalAmount += amount;
+      }
+    });
+
+    this.logger.log(
+      `🏦 Settled COD for ${logs.length} deliveries: ${totalAmount} VND`,
+    );
+    return { settledCount: logs.length, totalAmount };
+  }
+
+  /**
+   * 📊 Tiền COD đã thu nhưng chưa nộp về, theo từng shipper (GHN gộp một dòng)
+   */
+  async getOutstandingReport(): Promise<CodOutstandingRow[]> {
+    const logs = await this.shippingLogRepository.find({
+      where: { isCodCollected: true, isCodTransferred: false },
+      relations: ['shippingStaff'],
+      order: { codCollectDate: 'ASC' },
+    });
+
+    const rows = new Map<string, CodOutstandingRow>();
+    for (const log of logs) {
+      const isGhn = log.shippingMethod === ShippingMethod.GHN;
+      const key = isGhn ? 'GHN' : (log.shippingStaffId ?? 'UNASSIGNED');
+      let row = rows.get(key);
+      if (!row) {
+        row = {
+          collector: isGhn ? 'GHN' : 'SHIPPER',
+          shipperId: isGhn ? null : (log.shippingStaffId ?? null),
+          shipperName: isGhn ? 'GHN' : (log.shippingStaff?.fullName ?? null),
+          orderCount: 0,
+          outstandingAmount: 0,
+          oldestCollectedAt: log.codCollectDate,
+          shippingLogIds: [],
+        };
+        rows.set(key, row);
+      }
+      row.orderCount++;
+      row.outstandingAmount += Number(log.totalCodAmount ?? 0);
+      row.shippingLogIds.push(log.shippingLogId);
+    }
+
+    return [...rows.values()].sort(
+      (a, b) => b.outstandingAmount - a.outstandingAmount,
+    );
+  }
+
+  /**
+   * Số tiền vận đơn này phải thu. Đơn tách kho chỉ vận đơn chính mang tổng tiền,
+   * vận đơn phụ có totalAmount = 0.
+   */
+  private getCodShare(log: ShippingLog): number {
+    if (log.totalAmount === null || log.totalAmount === undefined) {
+      return Number(log.order?.payment?.amount ?? 0);
+    }
+    return Number(log.totalAmount);
+  }
+
+  private async recordCollection(
+    log: ShippingLog,
+    amount: number,
+    description: string,
+    actorId?: string,
+  ): Promise<ShippingLog> {
+    const payment = log.order?.payment;
+    if (!payment || payment.paymentMethod !== PaymentMethod.CASH) {
+      throw new BadRequestException(
+        `Order ${log.orderId} is not a cash-on-delivery order`,
+      );
+    }
+    if (!(amount > 0)) {
+      throw new BadRequestException('COD amount must be greater than 0');
+    }
+    if (log.isCodCollected) {
+      this.logger.warn(
+        `⚠️ COD for order ${log.orderId} was already recorded, skipping`,
+      );
+      return log;
+    }
+
+    const collectedAt = new Date();
+    const recorded = await this.entityManager.transaction(async (manager) => {
+      // Cập nhật có điều kiện để webhook gửi trùng không ghi nhận hai lần
+      const result = await manager.update(
+        ShippingLog,
+        { shippingLogId: log.shippingLogId, isCodCollected: false },
+        {
+          isCodCollected: true,
+          codCollected: true,
+          codCollectDate: collectedAt,
+          totalCodAmount: amount,
+        },
+      );
+      if (!result.affected) {
+        return false;
+      }
+
+      // 🔒 Khóa payment: các vận đơn của cùng một đơn cộng dồn paidAmount
+      const current = await manager.findOneOrFail(Payment, {
+        where: { paymentId: payment.paymentId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      const outstanding =
+        Number(current.amount) - Number(current.paidAmount ?? 0);
+      if (amount > outstanding) {
+        throw new BadRequestException(
+          `COD amount ${amount} VND exceeds the ${outstanding} VND still owed on order ${log.orderId}`,
+        );
+      }
+
+      current.paidAmount = Number(current.paidAmount ?? 0) + amount;
+      if (current.paidAmount >= Number(current.amount)) {
+        current.status = PaymentStatus.COMPLETED;
+        current.paidAt = collectedAt;
+      } else {
+        this.logger.warn(
+          `⚠️ COD for order ${log.orderId} is short: ${current.paidAmount}/${current.amount} VND`,
+        );
+      }
+      Object.assign(payment, await manager.save(Payment, current));
+
+      await this.ledgerService.transfer(
+        {
+          type: LedgerTransactionType.COD_COLLECTION,
+          description,
+          from: { type: LedgerAccountType.COD_RECEIVABLE },
+          to: { type: LedgerAccountType.PLATFORM_SALES },
+          amount,
+          referenceType: LedgerReferenceType.PAYMENT,
+          referenceId: payment.paymentId,
+          createdBy: actorId,
+        },
+        manager,
+      );
+      return true;
+    });
+
+    if (recorded) {
+      log.isCodCollected = true;
+      log.codCollected = true;
+      log.codCollectDate = collectedAt;
+      log.totalCodAmount = amount;
+      this.logger.log(`💰 COD ${amount} VND recorded for order ${log.orderId}`);
+    }
+    return log;
+  }
+}
@@ -0,0 +1,38 @@
+import { ApiPropertyOptional, ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+} from 'class-validator';
+
+export class RecordCodCollectionDto {
+  @ApiPropertyOptional({
+    description: 'Số tiền mặt đã thu. Bỏ trống = đúng số tiền của payment',
+    example: 350000,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(1)
+  amount?: number;
+}
+
+export class SettleCodDto {
+  @ApiProperty({
+    description:
+      'Shipping logs có tiền COD được nộp về (shipper bàn giao hoặc GHN chuyển khoản)',
+    type: [String],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUUID('4', { each: true })
+  shippingLogIds: string[];
+
+  @ApiPropertyOptional({ example: 'Bàn giao cuối ca 19/10' })
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
@@ -0,0 +1,76 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { ShippingMethod } from '../entities/shipping-log.entity';
+
+export class CreateShippingZoneDto {
+  @ApiProperty({ example: 'Nội thành TP.HCM' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Tỉnh/thành. Bỏ trống = vùng mặc định',
+    example: 'Hồ Chí Minh',
+  })
+  @IsOptional()
+  @IsString()
+  province?: string;
+
+  @ApiPropertyOptional({
+    description: 'Quận/huyện thuộc vùng. Bỏ trống = toàn bộ tỉnh',
+    example: ['Quận 1', 'Quận 3', 'Quận 10'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  districts?: string[];
+
+  @ApiPropertyOptional({
+    enum: [ShippingMethod.INTERNAL, ShippingMethod.BATCH],
+    description: 'Bỏ trống = áp dụng cho cả INTERNAL và BATCH',
+  })
+  @IsOptional()
+  @IsEnum(ShippingMethod)
+  shippingMethod?: ShippingMethod;
+
+  @ApiProperty({ example: 20000 })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  baseFee: number;
+
+  @ApiPropertyOptional({
+    description: 'Khối lượng (gram) đã gồm trong baseFee',
+    default: 1000,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  includedWeight?: number;
+
+  @ApiPropertyOptional({
+    description: 'Phí mỗi kg vượt includedWeight',
+    example: 5000,
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  extraFeePerKg?: number;
+}
+
+export class UpdateShippingZoneDto extends PartialType(CreateShippingZoneDto) {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
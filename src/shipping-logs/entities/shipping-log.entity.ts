@@ -9,6 +9,8 @@ import {
 } from 'typeorm';
 import { Order } from '../../orders/entities/order.entity';
 import { User } from '../../users/entities/user.entity';
+import { Warehouse } from '../../warehouses/entities/warehouse.entity';
+import { StockItem } from '../../warehouses/entities/stock-transfer.entity';
 
 export enum ShippingStatus {
   PENDING = 'PENDING',
@@ -146,6 +148,20 @@ export class ShippingLog {
   @Column({ type: 'uuid', nullable: true })
   shippingStaffId: string;
 
+  // ===== Kho xuất hàng (đơn có thể tách thành nhiều vận đơn theo kho) =====
+  @ManyToOne(() => Warehouse, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'warehouseId' })
+  warehouse: Warehouse;
+
+  @Column({ type: 'uuid', nullable: true })
+  warehouseId: string | null;
+
+  @Column({ type: 'json', nullable: true })
+  items: StockItem[] | null; // Sản phẩm lấy từ kho này
+
+  @Column({ type: 'datetime', nullable: true })
+  stockDispatchedAt: Date | null; // Hàng đã rời kho (trừ tồn kho)
+
   @CreateDateColumn()
   createdAt: Date;
 
@@ -0,0 +1,55 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { ShippingMethod } from './shipping-log.entity';
+
+/**
+ * Bảng phí giao hàng nội bộ (INTERNAL / BATCH) theo vùng.
+ * Vùng xấp xỉ khoảng cách từ kho: cùng quận, nội thành, ngoại thành, tỉnh khác.
+ * Vùng khớp cụ thể nhất được dùng: quận > tỉnh > mặc định (province = NULL).
+ */
+@Entity('shipping_zones')
+export class ShippingZone {
+  @PrimaryGeneratedColumn('uuid')
+  zoneId: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  // NULL = vùng mặc định cho địa chỉ không khớp vùng nào
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  province: string | null;
+
+  // NULL = toàn bộ tỉnh/thành
+  @Column({ type: 'simple-array', nullable: true })
+  districts: string[] | null;
+
+  // NULL = áp dụng cho cả INTERNAL và BATCH
+  @Column({ type: 'enum', enum: ShippingMethod, nullable: true })
+  shippingMethod: ShippingMethod | null;
+
+  // Phí cho khối lượng trong includedWeight
+  @Column({ type: 'decimal', precision: 15, scale: 2 })
+  baseFee: number;
+
+  // Gram
+  @Column({ type: 'int', default: 1000 })
+  includedWeight: number;
+
+  // Phí mỗi kg (làm tròn lên) vượt includedWeight
+  @Column({ type: 'decimal', precision: 15, scale: 2, default: 0 })
+  extraFeePerKg: number;
+
+  @Column({ default: true })
+  isActive: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -244,8 +244,13 @@ export class ShippingLogsController {
   async update(
     @Param('id') id: string,
     @Body() updateDto: UpdateShippingLogDto,
+    @Request() req,
   ) {
-    const log = await this.shippingLogsService.update(id, updateDto);
+    const log = await this.shippingLogsService.update(
+      id,
+      updateDto,
+      req.user.userId,
+    );
     return ResponseHelper.success('Shipping log updated successfully', log);
   }
 
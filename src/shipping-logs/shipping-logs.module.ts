@@ -3,20 +3,36 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { ShippingLogsService } from './shipping-logs.service';
 import { ShippingLogsController } from './shipping-logs.controller';
 import { ShippingLog } from './entities/shipping-log.entity';
+import { ShippingZone } from './entities/shipping-zone.entity';
 import { Order } from '../orders/entities/order.entity';
 import { User } from '../users/entities/user.entity';
 import { CloudinaryModule } from '../cloudinary/cloudinary.module';
 import { GhnModule } from '../ghn/ghn.module';
 import { ShippingLogsScheduler } from './shipping-logs.schedule';
+import { ShippingZonesService } from './shipping-zones.service';
+import { ShippingZonesController } from './shipping-zones.controller';
+import { OrderStatusModule } from '../orders/order-status.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { CodService } from './cod.service';
+import { CodController } from './cod.controller';
+import { WarehousesModule } from '../warehouses/warehouses.module';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([ShippingLog, Order, User]),
+    TypeOrmModule.forFeature([ShippingLog, ShippingZone, Order, User]),
     CloudinaryModule,
     GhnModule,
+    OrderStatusModule,
+    LedgerModule,
+    WarehousesModule,
   ],
-  controllers: [ShippingLogsController],
-  providers: [ShippingLogsService, ShippingLogsScheduler],
-  exports: [ShippingLogsService],
+  controllers: [ShippingLogsController, ShippingZonesController, CodController],
+  providers: [
+    ShippingLogsService,
+    ShippingLogsScheduler,
+    ShippingZonesService,
+    CodService,
+  ],
+  exports: [ShippingLogsService, ShippingZonesService, CodService],
 })
 export class ShippingLogsModule {}
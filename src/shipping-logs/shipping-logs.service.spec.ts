@@ -13,6 +13,10 @@ import { CloudinaryService } from '../cloudinary/cloudinary.service';
 import { GhnService } from '../ghn/ghn.service';
 import { BadRequestException, NotFoundException } from '@nestjs/common';
 import { subHours } from 'date-fns';
+import { OrderStatusService } from '../orders/order-status.service';
+import { OrderStatusSource } from '../orders/entities/order-status-history.entity';
+import { CodService } from './cod.service';
+import { WarehousesService } from '../warehouses/warehouses.service';
 
 describe('ShippingLogsService', () => {
   let service: ShippingLogsService;
@@ -49,6 +53,18 @@ describe('ShippingLogsService', () => {
     createShippingOrder: jest.fn(),
   };
 
+  const mockOrderStatusService = {
+    transition: jest.fn(),
+  };
+
+  const mockCodService = {
+    recordBatchCollection: jest.fn(),
+  };
+
+  const mockWarehousesService = {
+    consumeAllocation: jest.fn(),
+  };
+
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
@@ -73,6 +89,18 @@ describe('ShippingLogsService', () => {
           provide: GhnService,
           useValue: mockGhnService,
         },
+        {
+          provide: OrderStatusService,
+          useValue: mockOrderStatusService,
+        },
+        {
+          provide: CodService,
+          useValue: mockCodService,
+        },
+        {
+          provide: WarehousesService,
+          useValue: mockWarehousesService,
+        },
       ],
     }).compile();
 
@@ -308,6 +336,7 @@ describe('ShippingLogsService', () => {
       mockOrderRepository.save.mockImplementation((order) =>
         Promise.resolve(order as any),
       );
+      mockOrderStatusService.transition.mockResolvedValue(true);
     });
 
     // TC-SHIP-002-01: Normal - Complete batch with photos
@@ -352,7 +381,16 @@ describe('ShippingLogsService', () => {
       );
 
       expect(result.deliveredCount).toBe(3); // All should be marked DELIVERED
-      expect(mockOrderRepository.save).toHaveBeenCalledTimes(1); // Only IN_TRANSIT order's status updated
+      // Only IN_TRANSIT order's status updated: DELIVERED then COMPLETED
+      expect(mockOrderStatusService.transition).toHaveBeenCalledTimes(2);
+      expect(mockOrderStatusService.transition).toHaveBeenLastCalledWith(
+        logsWithInTransit[2].order,
+        OrderStatus.COMPLETED,
+        expect.objectContaining({
+          source: OrderStatusSource.STAFF,
+          actorId: staffId,
+        }),
+      );
     });
 
     // TC-SHIP-002-03: Normal - Complete without COD
@@ -371,6 +409,36 @@ describe('ShippingLogsService', () => {
 
       expect(result.codCollected).toBe(false);
       expect(result.totalCodAmount).toBe(0);
+      expect(mockCodService.recordBatchCollection).not.toHaveBeenCalled();
+    });
+
+    // TC-SHIP-002-10: Normal - Cash collected for delivered COD orders
+    it('TC-SHIP-002-10: should record COD for delivered orders when cash was collected', async () => {
+      const logsWithFailed = [
+        mockBatchLogs[0],
+        mockBatchLogs[1],
+        { ...mockBatchLogs[2], status: ShippingStatus.FAILED },
+      ];
+      mockShippingLogRepository.find.mockResolvedValue(logsWithFailed as any);
+      mockCodService.recordBatchCollection.mockResolvedValue(300000);
+
+      await service.completeBatch(
+        batchCode,
+        {
+          completionPhotos: ['photo1.jpg'],
+          codCollected: true,
+          totalCodAmount: 300000,
+        },
+        staffId,
+      );
+
+      expect(mockCodService.recordBatchCollection).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ shippingLogId: 'log-1' }),
+          expect.objectContaining({ shippingLogId: 'log-2' }),
+        ],
+        staffId,
+      );
     });
 
     // TC-SHIP-002-04: Normal - Complete with completion note
@@ -536,7 +604,14 @@ describe('ShippingLogsService', () => {
       mockShippingLogRepository.save.mockImplementation((log) =>
         Promise.resolve(log as any),
       );
-      mockOrderRepository.update.mockResolvedValue(undefined as any);
+      mockOrderRepository.findOne.mockImplementation(
+        ({ where }: { where: { orderId: string } }) =>
+          Promise.resolve({
+            orderId: where.orderId,
+            status: OrderStatus.CONFIRMED,
+          }),
+      );
+      mockOrderStatusService.transition.mockResolvedValue(true);
     });
 
     // TC-SHIP-003-01: Normal - Auto-assign old logs to random staff
@@ -564,7 +639,12 @@ describe('ShippingLogsService', () => {
       });
 
       // Verify order status was synced
-      expect(mockOrderRepository.update).toHaveBeenCalledTimes(3);
+      expect(mockOrderStatusService.transition).toHaveBeenCalledTimes(3);
+      expect(mockOrderStatusService.transition).toHaveBeenCalledWith(
+        expect.objectContaining({ orderId: 'order-1' }),
+        OrderStatus.SHIPPING,
+        expect.objectContaining({ source: OrderStatusSource.SYSTEM }),
+      );
     });
 
     // TC-SHIP-003-02: Normal - No logs need assignment (all recent)
@@ -692,5 +772,53 @@ describe('ShippingLogsService', () => {
       expect(result.assignedCount).toBe(1);
       expect(result.logs[0].status).toBe(ShippingStatus.PICKED_UP);
     });
+
+    // TC-SHIP-003-09: Abnormal - Order status transition rejected
+    it('TC-SHIP-003-09: should still assign the log when the order status transition is rejected', async () => {
+      mockShippingLogRepository.find.mockResolvedValue([
+        createOldShippingLog('log-1', 'order-1'),
+      ] as any);
+      mockUserRepository.find.mockResolvedValue(mockStaff as any);
+      mockOrderStatusService.transition.mockRejectedValue(
+        new BadRequestException(
+          'Cannot change order status from CANCELLED to SHIPPING',
+        ),
+      );
+
+      const result = await service.autoAssignUnassignedShippingLogs();
+
+      expect(result.assignedCount).toBe(1);
+      expect(mockOrderRepository.update).not.toHaveBeenCalled();
+    });
+
+    // TC-SHIP-003-10: Normal - Picked up log dispatches the reserved warehouse stock
+    it('TC-SHIP-003-10: should consume the warehouse reservation once the log is picked up', async () => {
+      const items = [{ productId: 'product-1', quantity: 2 }];
+      mockShippingLogRepository.find.mockResolvedValue([
+        {
+          ...createOldShippingLog('log-1', 'order-1'),
+          warehouseId: 'warehouse-1',
+          items,
+          stockDispatchedAt: null,
+        },
+        {
+          ...createOldShippingLog('log-2', 'order-2'),
+          warehouseId: 'warehouse-1',
+          items,
+          stockDispatchedAt: new Date(),
+        },
+      ] as any);
+      mockUserRepository.find.mockResolvedValue(mockStaff as any);
+
+      const result = await service.autoAssignUnassignedShippingLogs();
+
+      expect(result.assignedCount).toBe(2);
+      expect(mockWarehousesService.consumeAllocation).toHaveBeenCalledTimes(1);
+      expect(mockWarehousesService.consumeAllocation).toHaveBeenCalledWith(
+        'warehouse-1',
+        items,
+      );
+      expect(result.logs[0].stockDispatchedAt).toBeInstanceOf(Date);
+    });
   });
 });
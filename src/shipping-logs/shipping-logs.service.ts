@@ -19,6 +19,21 @@ import {
 import { GhnService } from '../ghn/ghn.service';
 import { User, UserRole } from '../users/entities/user.entity';
 import { subHours } from 'date-fns';
+import {
+  OrderStatusChange,
+  OrderStatusService,
+} from '../orders/order-status.service';
+import { OrderStatusSource } from '../orders/entities/order-status-history.entity';
+import { CodService } from './cod.service';
+import { WarehousesService } from '../warehouses/warehouses.service';
+
+// Trạng thái mà hàng đã rời kho xuất
+const LEFT_WAREHOUSE_STATUSES = [
+  ShippingStatus.PICKED_UP,
+  ShippingStatus.IN_TRANSIT,
+  ShippingStatus.OUT_FOR_DELIVERY,
+  ShippingStatus.DELIVERED,
+];
 
 @Injectable()
 export class ShippingLogsService {
@@ -33,6 +48,9 @@ export class ShippingLogsService {
     private readonly userRepository: Repository<User>,
     private readonly cloudinaryService: CloudinaryService,
     private readonly ghnService: GhnService,
+    private readonly orderStatusService: OrderStatusService,
+    private readonly codService: CodService,
+    private readonly warehousesService: WarehousesService,
   ) {}
 
   /**
@@ -113,17 +131,72 @@ export class ShippingLogsService {
   private async syncOrderStatus(
     orderId: string,
     shippingStatus: ShippingStatus,
+    change: OrderStatusChange,
   ): Promise<void> {
+    const order = await this.orderRepository.findOne({ where: { orderId } });
+    if (!order) {
+      this.logger.warn(`⚠️ Order ${orderId} not found, status not synced`);
+      return;
+    }
+
     const newOrderStatus = this.mapShippingStatusToOrderStatus(shippingStatus);
-    await this.orderRepository.update({ orderId }, { status: newOrderStatus });
-    this.logger.log(`✅ Order ${orderId} status synced: ${newOrderStatus}`);
+    if (
+      await this.transitionOrder(order, newOrderStatus, {
+        reason: `Shipping status ${shippingStatus}`,
+        ...change,
+      })
+    ) {
+      this.logger.log(`✅ Order ${orderId} status synced: ${newOrderStatus}`);
+    }
   }
 
-  async create(createDto: CreateShippingLogDto): Promise<ShippingLog> {
+  /**
+   * Chuyển không hợp lệ theo bảng trạng thái đơn chỉ ghi cảnh báo,
+   * không chặn cập nhật shipping log
+   */
+  private async transitionOrder(
+    order: Order,
+    status: OrderStatus,
+    change: OrderStatusChange,
+  ): Promise<boolean> {
+    try {
+      return await this.orderStatusService.transition(order, status, change);
+    } catch (error) {
+      if (!(error instanceof BadRequestException)) {
+        throw error;
+      }
+      this.logger.warn(
+        `⚠️ Order ${order.orderId} status not synced: ${error.message}`,
+      );
+      return false;
+    }
+  }
+
+  async create(
+    createDto: CreateShippingLogDto &
+      Partial<Pick<ShippingLog, 'warehouseId' | 'items'>>,
+  ): Promise<ShippingLog> {
     const log = this.shippingLogRepository.create(createDto);
     return await this.shippingLogRepository.save(log);
   }
 
+  /**
+   * 📦 Shipper / GHN đã lấy hàng → trừ tồn đã giữ tại kho xuất (chỉ một lần).
+   * Gọi trước khi lưu log để lưu luôn stockDispatchedAt.
+   */
+  private async dispatchWarehouseStock(log: ShippingLog): Promise<void> {
+    if (
+      !log.warehouseId ||
+      !log.items?.length ||
+      log.stockDispatchedAt ||
+      !LEFT_WAREHOUSE_STATUSES.includes(log.status)
+    ) {
+      return;
+    }
+    await this.warehousesService.consumeAllocation(log.warehouseId, log.items);
+    log.stockDispatchedAt = new Date();
+  }
+
   async findAll(): Promise<ShippingLog[]> {
     return await this.shippingLogRepository.find({
       relations: [
@@ -253,11 +326,15 @@ export class ShippingLogsService {
     log.shippingStaffId = staffId;
     log.status = ShippingStatus.PICKED_UP;
     log.note = `Đơn hàng đã được nhận bởi staff vào ${new Date().toLocaleString('vi-VN')}`;
+    await this.dispatchWarehouseStock(log);
 
     const savedLog = await this.shippingLogRepository.save(log);
 
     // 🔄 Đồng bộ Order status sang SHIPPING
-    await this.syncOrderStatus(log.orderId, ShippingStatus.PICKED_UP);
+    await this.syncOrderStatus(log.orderId, ShippingStatus.PICKED_UP, {
+      source: OrderStatusSource.STAFF,
+      actorId: staffId,
+    });
 
     return savedLog;
   }
@@ -285,12 +362,15 @@ export class ShippingLogsService {
     if (log.status === ShippingStatus.PENDING) {
       log.status = ShippingStatus.PICKED_UP;
     }
+    await this.dispatchWarehouseStock(log);
 
     const savedLog = await this.shippingLogRepository.save(log);
 
     // 🔄 Đồng bộ Order status nếu status đã thay đổi
     if (log.status === ShippingStatus.PICKED_UP) {
-      await this.syncOrderStatus(log.orderId, ShippingStatus.PICKED_UP);
+      await this.syncOrderStatus(log.orderId, ShippingStatus.PICKED_UP, {
+        source: OrderStatusSource.STAFF,
+      });
     }
 
     return savedLog;
@@ -298,7 +378,8 @@ export class ShippingLogsService {
 
   async update(
     id: string,
-    updateDto: UpdateShippingLogDto,
+    updateDto: UpdateShippingLogDto & Partial<Pick<ShippingLog, 'items'>>,
+    actorId?: string,
   ): Promise<ShippingLog> {
     const log = await this.findOne(id);
     const oldStatus = log.status;
@@ -309,11 +390,15 @@ export class ShippingLogsService {
     }
 
     Object.assign(log, updateDto);
+    await this.dispatchWarehouseStock(log);
     const savedLog = await this.shippingLogRepository.save(log);
 
     // 🔄 Nếu status thay đổi, đồng bộ với Order
     if (updateDto.status && updateDto.status !== oldStatus) {
-      await this.syncOrderStatus(log.orderId, updateDto.status);
+      await this.syncOrderStatus(log.orderId, updateDto.status, {
+        source: OrderStatusSource.STAFF,
+        actorId,
+      });
     }
 
     return savedLog;
@@ -367,7 +452,10 @@ export class ShippingLogsService {
     const updatedLog = await this.shippingLogRepository.save(log);
 
     // 🔄 Đồng bộ Order status sang DELIVERED
-    await this.syncOrderStatus(log.orderId, ShippingStatus.DELIVERED);
+    await this.syncOrderStatus(log.orderId, ShippingStatus.DELIVERED, {
+      source: OrderStatusSource.STAFF,
+      actorId: staffId,
+    });
 
     this.logger.log(`✅ Uploaded ${pictureUrls.length} pictures successfully`);
 
@@ -489,11 +577,14 @@ export class ShippingLogsService {
     if (dto.ghnTrackingData) log.ghnTrackingData = dto.ghnTrackingData;
     log.status = ShippingStatus.PICKED_UP; // GHN đã nhận hàng
     log.carrierName = 'Giao Hàng Nhanh (GHN)';
+    await this.dispatchWarehouseStock(log);
 
     const savedLog = await this.shippingLogRepository.save(log);
 
     // Sync order status
-    await this.syncOrderStatus(dto.orderId, ShippingStatus.PICKED_UP);
+    await this.syncOrderStatus(dto.orderId, ShippingStatus.PICKED_UP, {
+      source: OrderStatusSource.STAFF,
+    });
 
     this.logger.log(
       `✅ Assigned GHN order ${dto.ghnOrderCode} to order ${dto.orderId}`,
@@ -543,12 +634,16 @@ export class ShippingLogsService {
     for (const log of logs) {
       log.status = ShippingStatus.IN_TRANSIT;
       log.note = `Batch ${batchCode} đang được vận chuyển - ${new Date().toLocaleString('vi-VN')}`;
+      await this.dispatchWarehouseStock(log);
 
       const savedLog = await this.shippingLogRepository.save(log);
       updatedLogs.push(savedLog);
 
       // Đồng bộ order status
-      await this.syncOrderStatus(log.orderId, ShippingStatus.IN_TRANSIT);
+      await this.syncOrderStatus(log.orderId, ShippingStatus.IN_TRANSIT, {
+        source: OrderStatusSource.STAFF,
+        actorId: staffId,
+      });
     }
 
     this.logger.log(
@@ -637,7 +732,10 @@ export class ShippingLogsService {
     const savedLog = await this.shippingLogRepository.save(log);
 
     // Đồng bộ order status
-    await this.syncOrderStatus(orderId, log.status);
+    await this.syncOrderStatus(orderId, log.status, {
+      source: OrderStatusSource.STAFF,
+      actorId: staffId,
+    });
 
     this.logger.log(
       `✅ Updated order ${orderId} in batch ${batchCode}: ${oldStatus} → ${log.status}`,
@@ -662,7 +760,7 @@ export class ShippingLogsService {
     // Lấy tất cả logs trong batch
     const logs = await this.shippingLogRepository.find({
       where: { batchCode },
-      relations: ['order'],
+      relations: ['order', 'order.payment'],
     });
 
     if (logs.length === 0) {
@@ -689,10 +787,22 @@ export class ShippingLogsService {
         log.status = ShippingStatus.DELIVERED;
         log.deliveredDate = new Date();
 
-        // Cập nhật order status
+        // Cập nhật order status: DELIVERED rồi COMPLETED
         if (log.order) {
-          log.order.status = OrderStatus.COMPLETED;
-          await this.orderRepository.save(log.order);
+          const change: OrderStatusChange = {
+            source: OrderStatusSource.STAFF,
+            actorId: staffId,
+            reason: `Batch ${batchCode} completed`,
+          };
+          if (
+            await this.transitionOrder(log.order, OrderStatus.DELIVERED, change)
+          ) {
+            await this.transitionOrder(
+              log.order,
+              OrderStatus.COMPLETED,
+              change,
+            );
+          }
         }
 
         this.logger.log(
@@ -727,12 +837,27 @@ export class ShippingLogsService {
       log.batchCompletionNote = completionDto.completionNote;
       log.batchCompletedAt = completedAt;
       log.codCollected = completionDto.codCollected || false;
-      log.totalCodAmount = completionDto.totalCodAmount;
 
       const savedLog = await this.shippingLogRepository.save(log);
       updatedLogs.push(savedLog);
     }
 
+    // 💵 Ghi nhận tiền mặt đã thu cho các đơn COD đã giao
+    if (completionDto.codCollected) {
+      const recordedCod = await this.codService.recordBatchCollection(
+        updatedLogs.filter((log) => log.status === ShippingStatus.DELIVERED),
+        staffId,
+      );
+      if (
+        completionDto.totalCodAmount !== undefined &&
+        Number(completionDto.totalCodAmount) !== recordedCod
+      ) {
+        this.logger.warn(
+          `⚠️ Batch ${batchCode} COD reported ${completionDto.totalCodAmount} VND but orders total ${recordedCod} VND`,
+        );
+      }
+    }
+
     // Tính statistics
     const deliveredCount = logs.filter(
       (log) => log.status === ShippingStatus.DELIVERED,
@@ -1152,11 +1277,15 @@ export class ShippingLogsService {
           ) {
             shippingLog.returnedDate = new Date();
           }
+          await this.dispatchWarehouseStock(shippingLog);
 
           await this.shippingLogRepository.save(shippingLog);
 
           // Sync order status
-          await this.syncOrderStatus(shippingLog.orderId, newStatus);
+          await this.syncOrderStatus(shippingLog.orderId, newStatus, {
+            source: OrderStatusSource.GHN,
+            reason: `GHN status ${ghnStatus}`,
+          });
 
           results.synced++;
           results.details.push({
@@ -1300,12 +1429,16 @@ export class ShippingLogsService {
       log.shippingStaffId = randomStaff.userId;
       log.status = ShippingStatus.PICKED_UP;
       log.note = `Tự động gán cho staff ${randomStaff.fullName} vào ${new Date().toLocaleString('vi-VN')} (sau 24 giờ chưa có staff nhận)`;
+      await this.dispatchWarehouseStock(log);
 
       const savedLog = await this.shippingLogRepository.save(log);
       assignedLogs.push(savedLog);
 
       // Sync order status to SHIPPING
-      await this.syncOrderStatus(log.orderId, ShippingStatus.PICKED_UP);
+      await this.syncOrderStatus(log.orderId, ShippingStatus.PICKED_UP, {
+        source: OrderStatusSource.SYSTEM,
+        reason: 'Auto-assigned shipping staff',
+      });
     }
 
     this.logger.log(
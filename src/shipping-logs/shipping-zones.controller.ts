@@ -0,0 +1,80 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ShippingZonesService } from './shipping-zones.service';
+import {
+  CreateShippingZoneDto,
+  UpdateShippingZoneDto,
+} from './dto/shipping-zone.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { UserRole } from '../users/entities/user.entity';
+import { ResponseHelper } from '../utils/responses';
+
+@ApiTags('Shipping Zones')
+@Controller('shipping-zones')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class ShippingZonesController {
+  constructor(private readonly shippingZonesService: ShippingZonesService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create an internal delivery fee zone (Admin only)',
+    description:
+      'Used to price INTERNAL and BATCH deliveries at checkout. Leave province empty for the default zone.',
+  })
+  @ApiResponse({ status: 201, description: 'Shipping zone created' })
+  async create(@Body() dto: CreateShippingZoneDto) {
+    const zone = await this.shippingZonesService.create(dto);
+    return ResponseHelper.created('Shipping zone created', zone);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List internal delivery fee zones (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Shipping zones retrieved' })
+  async findAll() {
+    const zones = await this.shippingZonesService.findAll();
+    return ResponseHelper.success('Shipping zones retrieved', zones);
+  }
+
+  @Patch(':zoneId')
+  @ApiOperation({
+    summary: 'Update an internal delivery fee zone (Admin only)',
+    description: 'Only affects quotes issued afterwards.',
+  })
+  @ApiResponse({ status: 200, description: 'Shipping zone updated' })
+  async update(
+    @Param('zoneId', new ParseUUIDPipe()) zoneId: string,
+    @Body() dto: UpdateShippingZoneDto,
+  ) {
+    const zone = await this.shippingZonesService.update(zoneId, dto);
+    return ResponseHelper.success('Shipping zone updated', zone);
+  }
+
+  @Delete(':zoneId')
+  @ApiOperation({
+    summary: 'Delete an internal delivery fee zone (Admin only)',
+  })
+  @ApiResponse({ status: 200, description: 'Shipping zone deleted' })
+  async remove(@Param('zoneId', new ParseUUIDPipe()) zoneId: string) {
+    await this.shippingZonesService.remove(zoneId);
+    return ResponseHelper.success('Shipping zone deleted', null);
+  }
+}
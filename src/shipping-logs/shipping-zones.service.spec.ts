@@ -0,0 +1,158 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { ShippingZonesService } from './shipping-zones.service';
+import { ShippingZone } from './entities/shipping-zone.entity';
+import { ShippingMethod } from './entities/shipping-log.entity';
+
+describe('ShippingZonesService', () => {
+  let service: ShippingZonesService;
+
+  const zone = (overrides: Partial<ShippingZone>): ShippingZone =>
+    ({
+      zoneId: 'zone',
+      name: 'Zone',
+      province: null,
+      districts: null,
+      shippingMethod: null,
+      baseFee: '0.00',
+      includedWeight: 1000,
+      extraFeePerKg: '0.00',
+      isActive: true,
+      ...overrides,
+    }) as unknown as ShippingZone;
+
+  // Bảng phí mẫu: mặc định, toàn TP.HCM, nội thành, riêng BATCH nội thành
+  const zones = [
+    zone({ zoneId: 'default', name: 'Tỉnh khác', baseFee: 45000 }),
+    zone({
+      zoneId: 'hcm',
+      name: 'TP.HCM',
+      province: 'Hồ Chí Minh',
+      baseFee: 30000,
+    }),
+    zone({
+      zoneId: 'inner',
+      name: 'Nội thành',
+      province: 'Hồ Chí Minh',
+      districts: ['Quận 1', 'Quận 10', 'Thủ Đức'],
+      baseFee: 20000,
+      extraFeePerKg: 5000,
+    }),
+    zone({
+      zoneId: 'inner-batch',
+      name: 'Nội thành (gom đơn)',
+      province: 'Hồ Chí Minh',
+      districts: ['Quận 1', 'Quận 10', 'Thủ Đức'],
+      shippingMethod: ShippingMethod.BATCH,
+      baseFee: 12000,
+    }),
+  ];
+
+  const mockZoneRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data: Partial<ShippingZone>) => data),
+    save: jest.fn((data: Partial<ShippingZone>) => Promise.resolve(data)),
+    remove: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ShippingZonesService,
+        {
+          provide: getRepositoryToken(ShippingZone),
+          useValue: mockZoneRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<ShippingZonesService>(ShippingZonesService);
+    mockZoneRepository.find.mockResolvedValue(zones);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('calculateFee', () => {
+    // TC-ZONE-001-01: Normal - District zone is more specific than the province
+    it('TC-ZONE-001-01: should use the most specific matching zone', async () => {
+      const fee = await service.calculateFee({
+        province: 'TP. Hồ Chí Minh',
+        district: 'quan 10',
+        shippingMethod: ShippingMethod.INTERNAL,
+        weight: 400,
+      });
+
+      expect(fee).toBe(20000);
+    });
+
+    // TC-ZONE-001-02: Normal - Province and default fallbacks
+    it('TC-ZONE-001-02: should fall back to the province then the default zone', async () => {
+      const outer = await service.calculateFee({
+        province: 'Hồ Chí Minh',
+        district: 'Huyện Củ Chi',
+        shippingMethod: ShippingMethod.INTERNAL,
+        weight: 400,
+      });
+      const other = await service.calculateFee({
+        province: 'Đà Nẵng',
+        shippingMethod: ShippingMethod.INTERNAL,
+        weight: 400,
+      });
+
+      expect(outer).toBe(30000);
+      expect(other).toBe(45000);
+    });
+
+    // TC-ZONE-001-03: Normal - Batch deliveries use their own zone price
+    it('TC-ZONE-001-03: should prefer a zone dedicated to the shipping method', async () => {
+      const fee = await service.calculateFee({
+        province: 'Hồ Chí Minh',
+        district: 'Quận 1',
+        shippingMethod: ShippingMethod.BATCH,
+        weight: 400,
+      });
+
+      expect(fee).toBe(12000);
+    });
+
+    // TC-ZONE-001-04: Boundary - Extra weight is charged per started kg
+    it('TC-ZONE-001-04: should charge each started kg above the included weight', async () => {
+      const fee = await service.calculateFee({
+        province: 'Hồ Chí Minh',
+        district: 'Thủ Đức',
+        shippingMethod: ShippingMethod.INTERNAL,
+        weight: 2200,
+      });
+
+      expect(fee).toBe(30000); // 20k + 2 × 5k
+    });
+
+    // TC-ZONE-001-05: Abnormal - No zone configured
+    it('TC-ZONE-001-05: should return 0 when no zone matches', async () => {
+      mockZoneRepository.find.mockResolvedValue([zones[1]]);
+
+      const fee = await service.calculateFee({
+        province: 'Hà Nội',
+        shippingMethod: ShippingMethod.INTERNAL,
+        weight: 400,
+      });
+
+      expect(fee).toBe(0);
+    });
+  });
+
+  describe('findOne', () => {
+    // TC-ZONE-002-01: Abnormal - Unknown zone
+    it('TC-ZONE-002-01: should throw when the zone does not exist', async () => {
+      mockZoneRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.findOne('missing')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
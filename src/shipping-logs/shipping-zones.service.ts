@@ -0,0 +1,161 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ShippingZone } from './entities/shipping-zone.entity';
+import { ShippingMethod } from './entities/shipping-log.entity';
+import {
+  CreateShippingZoneDto,
+  UpdateShippingZoneDto,
+} from './dto/shipping-zone.dto';
+
+/**
+ * Phí giao hàng nội bộ (INTERNAL / BATCH) tính từ bảng shipping_zones.
+ * Đơn GHN lấy phí từ GhnService.calculateShippingFee.
+ */
+@Injectable()
+export class ShippingZonesService {
+  private readonly logger = new Logger(ShippingZonesService.name);
+
+  constructor(
+    @InjectRepository(ShippingZone)
+    private readonly zoneRepository: Repository<ShippingZone>,
+  ) {}
+
+  async create(dto: CreateShippingZoneDto): Promise<ShippingZone> {
+    const zone = this.zoneRepository.create({
+      ...dto,
+      province: dto.province ?? null,
+      districts: dto.districts?.length ? dto.districts : null,
+      shippingMethod: dto.shippingMethod ?? null,
+    });
+    return this.zoneRepository.save(zone);
+  }
+
+  async findAll(): Promise<ShippingZone[]> {
+    return this.zoneRepository.find({
+      order: { province: 'ASC', name: 'ASC' },
+    });
+  }
+
+  async findOne(zoneId: string): Promise<ShippingZone> {
+    const zone = await this.zoneRepository.findOne({ where: { zoneId } });
+    if (!zone) {
+      throw new NotFoundException(`Shipping zone ${zoneId} not found`);
+    }
+    return zone;
+  }
+
+  async update(
+    zoneId: string,
+    dto: UpdateShippingZoneDto,
+  ): Promise<ShippingZone> {
+    const zone = await this.findOne(zoneId);
+    Object.assign(zone, dto);
+    if (dto.districts) {
+      zone.districts = dto.districts.length ? dto.districts : null;
+    }
+    return this.zoneRepository.save(zone);
+  }
+
+  async remove(zoneId: string): Promise<void> {
+    const zone = await this.findOne(zoneId);
+    await this.zoneRepository.remove(zone);
+  }
+
+  /**
+   * Phí giao nội bộ theo vùng khớp cụ thể nhất với địa chỉ nhận.
+   * Trả về 0 nếu chưa cấu hình vùng nào phù hợp.
+   */
+  async calculateFee(params: {
+    province?: string;
+    district?: string;
+    shippingMethod: ShippingMethod;
+    weight: number; // Gram
+  }): Promise<number> {
+    const zone = await this.findZone(
+      params.province,
+      params.district,
+      params.shippingMethod,
+    );
+    if (!zone) {
+      this.logger.warn(
+        `⚠️ No shipping zone for ${params.province ?? '?'} > ${params.district ?? '?'} (${params.shippingMethod}), fee = 0`,
+      );
+      return 0;
+    }
+
+    const extraKg = Math.ceil(
+      Math.max(0, params.weight - zone.includedWeight) / 1000,
+    );
+    const fee = Number(zone.baseFee) + extraKg * Number(zone.extraFeePerKg);
+
+    this.logger.log(
+      `🚚 Zone "${zone.name}" fee for ${params.weight}g: ${fee} VND`,
+    );
+    return fee;
+  }
+
+  private async findZone(
+    province: string | undefined,
+    district: string | undefined,
+    shippingMethod: ShippingMethod,
+  ): Promise<ShippingZone | null> {
+    const zones = await this.zoneRepository.find({
+      where: { isActive: true },
+    });
+    const provinceName = province ? this.normalize(province) : null;
+    const districtName = district ? this.normalize(district) : null;
+
+    // Điểm khớp: quận (3) > tỉnh (2) > mặc định (1); cùng cấp thì ưu tiên vùng riêng cho phương thức
+    const score = (zone: ShippingZone): number => {
+      if (zone.shippingMethod && zone.shippingMethod !== shippingMethod) {
+        return 0;
+      }
+
+      let level = 1;
+      if (zone.province) {
+        if (!provinceName || this.normalize(zone.province) !== provinceName) {
+          return 0;
+        }
+        level = 2;
+        if (zone.districts) {
+          const matches =
+            !!districtName &&
+            zone.districts.some((d) => this.normalize(d) === districtName);
+          if (!matches) return 0;
+          level = 3;
+        }
+      }
+      return level * 2 + (zone.shippingMethod ? 1 : 0);
+    };
+
+    let best: ShippingZone | null = null;
+    let bestScore = 0;
+    for (const zone of zones) {
+      const value = score(zone);
+      if (value > bestScore) {
+        best = zone;
+        bestScore = value;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * "TP. Hồ Chí Minh" → "ho chi minh", "Quận 10" → "10"
+   */
+  private normalize(name: string): string {
+    return name
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/đ/g, 'd')
+      .replace(
+        /^(thanh pho|tp\.?|tinh|quan|huyen|thi xa|district|city|province)\s+/,
+        '',
+      )
+      .replace(/\s+(city|province|district)$/, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
@@ -72,6 +72,10 @@ export class User {
   @Column({ default: false })
   isVerified: boolean;
 
+  // Nhận sao kê ví qua email vào đầu mỗi tháng
+  @Column({ default: false })
+  walletStatementEmailEnabled: boolean;
+
   @Column({ nullable: true })
   @Exclude() // 🔒 Không trả về token verification
   emailVerificationToken: string;
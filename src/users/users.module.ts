@@ -10,6 +10,7 @@ import { RolesGuard } from '../auth/guards/roles.guard';
 import { EmailModule } from '../email/email.module';
 import { CloudinaryModule } from '../cloudinary/cloudinary.module';
 import { DermatologistsModule } from '../dermatologists/dermatologists.module';
+import { LedgerModule } from '../ledger/ledger.module';
 
 @Module({
   imports: [
@@ -17,6 +18,7 @@ import { DermatologistsModule } from '../dermatologists/dermatologists.module';
     EmailModule,
     CloudinaryModule,
     forwardRef(() => DermatologistsModule),
+    LedgerModule,
   ],
   controllers: [UsersController],
   providers: [UsersService, DeviceTokensService, JwtAuthGuard, RolesGuard],
@@ -7,7 +7,7 @@ import {
   forwardRef,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { EntityManager, Repository } from 'typeorm';
+import { Repository } from 'typeorm';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { TopupBalanceDto } from './dto/topup-balance.dto';
@@ -16,6 +16,9 @@ import { ResponseHelper } from '../utils/responses';
 import { EmailService } from '../email/email.service';
 import { CloudinaryService } from '../cloudinary/cloudinary.service';
 import { DermatologistsService } from '../dermatologists/dermatologists.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import { LedgerTransactionType } from '../ledger/entities/ledger-transaction.entity';
 import * as bcrypt from 'bcrypt';
 
 @Injectable()
@@ -28,10 +31,8 @@ export class UsersService {
     private readonly cloudinaryService: CloudinaryService,
     @Inject(forwardRef(() => DermatologistsService))
     private readonly dermatologistsService: DermatologistsService,
+    private readonly ledgerService: LedgerService,
   ) {}
-  private getRepository(manager?: EntityManager): Repository<User> {
-    return manager ? manager.getRepository(User) : this.userRepository;
-  }
   async create(createUserDto: CreateUserDto): Promise<User> {
     // Validate required fields
     if (
@@ -220,10 +221,15 @@ export class UsersService {
       throw new BadRequestException('Số tiền nạp tối đa là 50,000,000 VND');
     }
 
-    const { oldBalance, newBalance } = await this.updateBalance(
-      userId,
-      topupDto.amount,
-    );
+    const oldBalance = Number(user.balance);
+    await this.ledgerService.transfer({
+      type: LedgerTransactionType.MANUAL_TOPUP,
+      description: `Manual topup (${topupDto.paymentMethod || 'unknown'})`,
+      from: { type: LedgerAccountType.PLATFORM_BANK },
+      to: { userId },
+      amount: topupDto.amount,
+    });
+    const newBalance = Number((await this.findOne(userId)).balance);
 
     // Return transaction info
     return ResponseHelper.success('Nạp tiền thành công', {
@@ -261,53 +267,6 @@ export class UsersService {
     });
   }
 
-  async updateBalance(
-    userId: string,
-    amountToChange: number, // Number (+/-) to add or deduct
-    manager?: EntityManager,
-  ): Promise<{ oldBalance: number; newBalance: number }> {
-    if (amountToChange === 0) {
-      this.logger.warn(`Attempted to change balance with 0 for user ${userId}`);
-      const user = await this.findOne(userId);
-      return {
-        oldBalance: Number(user.balance),
-        newBalance: Number(user.balance),
-      };
-    }
-
-    const userRepo = this.getRepository(manager);
-
-    const user = await userRepo.findOne({
-      where: { userId },
-      select: ['userId', 'balance'],
-    });
-
-    if (!user) {
-      throw new NotFoundException(
-        `User ${userId} not found for balance update.`,
-      );
-    }
-
-    const oldBalance = parseFloat(user.balance.toString());
-    const newBalance = oldBalance + amountToChange;
-
-    // 2. Check no negative balance
-    if (newBalance < 0) {
-      throw new BadRequestException(
-        `Insufficient funds. Cannot deduct ${Math.abs(amountToChange)}. Current balance is ${oldBalance}`,
-      );
-    }
-
-    // Increment safely using atomic operation avoiding race conditions
-    await userRepo.increment({ userId: userId }, 'balance', amountToChange);
-
-    this.logger.log(
-      `Balance updated for user ${userId}: ${oldBalance} -> ${newBalance} (Change: ${amountToChange})`,
-    );
-
-    return { oldBalance, newBalance };
-  }
-
   /**
    * Upload user profile photo to Cloudinary
    * @param userId - User ID
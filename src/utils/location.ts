@@ -33,36 +33,6 @@ function toRad(degrees: number): number {
   return (degrees * Math.PI) / 180;
 }
 
-/**
- * Mock shop data với tọa độ (tạm thời)
- * TODO: Thay bằng query từ DB khi có bảng shops
- */
-export const SHOP_LOCATIONS: Record<
-  string,
-  { name: string; lat: number; lon: number }
-> = {
-  '550e8400-e29b-41d4-a716-446655440000': {
-    name: 'Shop District 1 - HCM',
-    lat: 10.7769, // Đường Nguyễn Huệ, Q1
-    lon: 106.7009,
-  },
-  '550e8400-e29b-41d4-a716-446655440010': {
-    name: 'Shop District 3 - HCM',
-    lat: 10.7831, // Võ Văn Tần, Q3
-    lon: 106.6899,
-  },
-  '550e8400-e29b-41d4-a716-446655440020': {
-    name: 'Shop Binh Thanh - HCM',
-    lat: 10.8142, // Xô Viết Nghệ Tĩnh
-    lon: 106.7073,
-  },
-  '550e8400-e29b-41d4-a716-446655440030': {
-    name: 'Shop Thu Duc - HCM',
-    lat: 10.8505, // Khu phố 6, Linh Trung
-    lon: 106.7718,
-  },
-};
-
 /**
  * Geocode địa chỉ thành tọa độ (simplified - mock)
  * TODO: Integrate với Google Maps API hoặc Nominatim
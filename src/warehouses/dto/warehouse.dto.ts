@@ -0,0 +1,130 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsLatitude,
+  IsLongitude,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+  NotEquals,
+  ValidateNested,
+} from 'class-validator';
+import { WarehouseType } from '../entities/warehouse.entity';
+
+export class CreateWarehouseDto {
+  @ApiProperty({ example: 'HCM-Q1' })
+  @IsString()
+  @IsNotEmpty()
+  code: string;
+
+  @ApiProperty({ example: 'Shop District 1 - HCM' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({ enum: WarehouseType, default: WarehouseType.SHOP })
+  @IsOptional()
+  @IsEnum(WarehouseType)
+  type?: WarehouseType;
+
+  @ApiProperty({ example: '135 Nguyễn Huệ, Bến Nghé, Quận 1, Hồ Chí Minh' })
+  @IsString()
+  @IsNotEmpty()
+  address: string;
+
+  @ApiPropertyOptional({ example: '0332190444' })
+  @IsOptional()
+  @IsString()
+  phone?: string;
+
+  @ApiProperty({ example: 10.7769 })
+  @IsLatitude()
+  latitude: number;
+
+  @ApiProperty({ example: 106.7009 })
+  @IsLongitude()
+  longitude: number;
+
+  @ApiPropertyOptional({
+    example: 1442,
+    description: 'GHN district ID used as the pickup address',
+  })
+  @IsOptional()
+  @IsInt()
+  ghnDistrictId?: number;
+
+  @ApiPropertyOptional({
+    example: '20109',
+    description: 'GHN ward code used as the pickup address',
+  })
+  @IsOptional()
+  @IsString()
+  ghnWardCode?: string;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class UpdateWarehouseDto extends PartialType(CreateWarehouseDto) {}
+
+export class SetWarehouseStockDto {
+  @ApiProperty({
+    example: 50,
+    description: 'Units on the shelf. Does not change the product total.',
+  })
+  @IsInt()
+  @Min(0)
+  quantity: number;
+}
+
+export class AdjustWarehouseStockDto {
+  @ApiProperty({
+    example: 20,
+    description: 'Units received (+) or written off (-)',
+  })
+  @IsInt()
+  @NotEquals(0)
+  quantity: number;
+}
+
+export class StockItemDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440001' })
+  @IsUUID()
+  productId: string;
+
+  @ApiProperty({ example: 5, minimum: 1 })
+  @IsInt()
+  @Min(1)
+  quantity: number;
+}
+
+export class CreateStockTransferDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440000' })
+  @IsUUID()
+  fromWarehouseId: string;
+
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440010' })
+  @IsUUID()
+  toWarehouseId: string;
+
+  @ApiProperty({ type: [StockItemDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => StockItemDto)
+  items: StockItemDto[];
+
+  @ApiPropertyOptional({ example: 'Bổ sung hàng cho cửa hàng Quận 1' })
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
@@ -0,0 +1,76 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Warehouse } from './warehouse.entity';
+
+export enum StockTransferStatus {
+  PENDING = 'PENDING', // Đã giữ hàng ở kho đi, chờ xuất
+  IN_TRANSIT = 'IN_TRANSIT', // Đã xuất khỏi kho đi
+  COMPLETED = 'COMPLETED', // Kho đến đã nhận
+  CANCELLED = 'CANCELLED', // Hủy trước khi xuất, trả lại hàng giữ
+}
+
+export interface StockItem {
+  productId: string;
+  quantity: number;
+}
+
+@Entity('stock_transfers')
+export class StockTransfer {
+  @PrimaryGeneratedColumn('uuid')
+  transferId: string;
+
+  @Column({ type: 'uuid' })
+  fromWarehouseId: string;
+
+  @ManyToOne(() => Warehouse, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'fromWarehouseId' })
+  fromWarehouse: Warehouse;
+
+  @Column({ type: 'uuid' })
+  toWarehouseId: string;
+
+  @ManyToOne(() => Warehouse, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'toWarehouseId' })
+  toWarehouse: Warehouse;
+
+  @Column({ type: 'json' })
+  items: StockItem[];
+
+  @Column({
+    type: 'enum',
+    enum: StockTransferStatus,
+    default: StockTransferStatus.PENDING,
+  })
+  status: StockTransferStatus;
+
+  @Column({ type: 'text', nullable: true })
+  note: string | null;
+
+  @Column({ type: 'varchar', length: 36 })
+  requestedBy: string;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  shippedBy: string | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  shippedAt: Date | null;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  receivedBy: string | null;
+
+  @Column({ type: 'datetime', nullable: true })
+  receivedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,47 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  UpdateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from 'typeorm';
+import { Warehouse } from './warehouse.entity';
+import { Product } from '../../products/entities/product.entity';
+
+/**
+ * Tồn kho của một sản phẩm tại một kho.
+ * - currentStock: hàng đang nằm trên kệ
+ * - reservedStock: đã giữ cho vận đơn / phiếu chuyển kho chưa xuất
+ * Inventory vẫn là tồn tổng theo sản phẩm (giỏ hàng giữ hàng ở mức tổng).
+ */
+@Entity('warehouse_stock')
+@Index(['warehouseId', 'productId'], { unique: true })
+export class WarehouseStock {
+  @PrimaryGeneratedColumn('uuid')
+  warehouseStockId: string;
+
+  @Column({ type: 'uuid' })
+  warehouseId: string;
+
+  @ManyToOne(() => Warehouse, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'warehouseId' })
+  warehouse: Warehouse;
+
+  @Column({ type: 'uuid' })
+  productId: string;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'productId' })
+  product: Product;
+
+  @Column({ type: 'int', default: 0 })
+  currentStock: number;
+
+  @Column({ type: 'int', default: 0 })
+  reservedStock: number;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
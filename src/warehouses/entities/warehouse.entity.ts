@@ -0,0 +1,61 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from 'typeorm';
+
+export enum WarehouseType {
+  WAREHOUSE = 'WAREHOUSE', // Kho tổng, chỉ xuất hàng
+  SHOP = 'SHOP', // Cửa hàng, vừa bán tại chỗ vừa xuất đơn online
+}
+
+/**
+ * Kho / cửa hàng giữ hàng. Tọa độ dùng để chọn kho gần khách nhất,
+ * địa chỉ GHN dùng làm điểm lấy hàng khi tạo vận đơn.
+ */
+@Entity('warehouses')
+@Index(['code'], { unique: true })
+export class Warehouse {
+  @PrimaryGeneratedColumn('uuid')
+  warehouseId: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  code: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  name: string;
+
+  @Column({ type: 'enum', enum: WarehouseType, default: WarehouseType.SHOP })
+  type: WarehouseType;
+
+  @Column({ type: 'text' })
+  address: string;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  phone: string | null;
+
+  @Column({ type: 'decimal', precision: 10, scale: 7 })
+  latitude: number;
+
+  @Column({ type: 'decimal', precision: 10, scale: 7 })
+  longitude: number;
+
+  // ===== Điểm lấy hàng GHN =====
+  @Column({ type: 'int', nullable: true })
+  ghnDistrictId: number | null;
+
+  @Column({ type: 'varchar', length: 20, nullable: true })
+  ghnWardCode: string | null;
+
+  @Column({ type: 'boolean', default: true })
+  isActive: boolean;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,200 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseBoolPipe,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { WarehousesService } from './warehouses.service';
+import {
+  AdjustWarehouseStockDto,
+  CreateStockTransferDto,
+  CreateWarehouseDto,
+  SetWarehouseStockDto,
+  UpdateWarehouseDto,
+} from './dto/warehouse.dto';
+import { StockTransferStatus } from './entities/stock-transfer.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User, UserRole } from '../users/entities/user.entity';
+import { ResponseHelper } from '../utils/responses';
+
+@ApiTags('Warehouses')
+@Controller('warehouses')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.STAFF, UserRole.ADMIN)
+@ApiBearerAuth()
+export class WarehousesController {
+  constructor(private readonly warehousesService: WarehousesService) {}
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create a warehouse or shop (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Warehouse created' })
+  async create(@Body() dto: CreateWarehouseDto) {
+    const warehouse = await this.warehousesService.create(dto);
+    return ResponseHelper.created('Warehouse created', warehouse);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List warehouses and shops' })
+  @ApiQuery({ name: 'includeInactive', required: false, type: Boolean })
+  async findAll(
+    @Query('includeInactive', new ParseBoolPipe({ optional: true }))
+    includeInactive?: boolean,
+  ) {
+    const warehouses = await this.warehousesService.findAll(includeInactive);
+    return ResponseHelper.success('Warehouses retrieved', warehouses);
+  }
+
+  @Get('transfers')
+  @ApiOperation({ summary: 'List stock transfers' })
+  @ApiQuery({ name: 'status', required: false, enum: StockTransferStatus })
+  async findTransfers(@Query('status') status?: StockTransferStatus) {
+    const transfers = await this.warehousesService.findTransfers(status);
+    return ResponseHelper.success('Stock transfers retrieved', transfers);
+  }
+
+  @Post('transfers')
+  @ApiOperation({
+    summary: 'Request a stock transfer between warehouses',
+    description:
+      'Reserves the items at the source warehouse until the transfer is shipped.',
+  })
+  @ApiResponse({ status: 201, description: 'Stock transfer created' })
+  async createTransfer(
+    @GetUser() user: User,
+    @Body() dto: CreateStockTransferDto,
+  ) {
+    const transfer = await this.warehousesService.createTransfer(
+      dto,
+      user.userId,
+    );
+    return ResponseHelper.created('Stock transfer created', transfer);
+  }
+
+  @Post('transfers/:transferId/ship')
+  @ApiOperation({ summary: 'Mark a transfer as shipped from the source' })
+  async shipTransfer(
+    @GetUser() user: User,
+    @Param('transferId', new ParseUUIDPipe()) transferId: string,
+  ) {
+    const transfer = await this.warehousesService.shipTransfer(
+      transferId,
+      user.userId,
+    );
+    return ResponseHelper.success('Stock transfer shipped', transfer);
+  }
+
+  @Post('transfers/:transferId/receive')
+  @ApiOperation({ summary: 'Receive a transfer at the destination' })
+  async receiveTransfer(
+    @GetUser() user: User,
+    @Param('transferId', new ParseUUIDPipe()) transferId: string,
+  ) {
+    const transfer = await this.warehousesService.receiveTransfer(
+      transferId,
+      user.userId,
+    );
+    return ResponseHelper.success('Stock transfer received', transfer);
+  }
+
+  @Post('transfers/:transferId/cancel')
+  @ApiOperation({ summary: 'Cancel a transfer that has not shipped yet' })
+  async cancelTransfer(
+    @Param('transferId', new ParseUUIDPipe()) transferId: string,
+  ) {
+    const transfer = await this.warehousesService.cancelTransfer(transferId);
+    return ResponseHelper.success('Stock transfer cancelled', transfer);
+  }
+
+  @Get('products/:productId/stock')
+  @ApiOperation({ summary: 'Stock of a product in every warehouse' })
+  async getProductStock(
+    @Param('productId', new ParseUUIDPipe()) productId: string,
+  ) {
+    const stock = await this.warehousesService.getProductStock(productId);
+    return ResponseHelper.success('Product stock retrieved', stock);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a warehouse' })
+  async findOne(@Param('id', new ParseUUIDPipe()) id: string) {
+    const warehouse = await this.warehousesService.findOne(id);
+    return ResponseHelper.success('Warehouse retrieved', warehouse);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Update a warehouse (Admin only)' })
+  async update(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Body() dto: UpdateWarehouseDto,
+  ) {
+    const warehouse = await this.warehousesService.update(id, dto);
+    return ResponseHelper.success('Warehouse updated', warehouse);
+  }
+
+  @Get(':id/stock')
+  @ApiOperation({ summary: 'Stock held in a warehouse' })
+  async getStock(@Param('id', new ParseUUIDPipe()) id: string) {
+    const stock = await this.warehousesService.getStock(id);
+    return ResponseHelper.success('Warehouse stock retrieved', stock);
+  }
+
+  @Put(':id/stock/:productId')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Set the units held in a warehouse (Admin only)',
+    description:
+      'Assigns existing stock to a warehouse. The product total is not changed.',
+  })
+  async setStock(
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Param('productId', new ParseUUIDPipe()) productId: string,
+    @Body() dto: SetWarehouseStockDto,
+  ) {
+    const stock = await this.warehousesService.setStock(
+      id,
+      productId,
+      dto.quantity,
+    );
+    return ResponseHelper.success('Warehouse stock set', stock);
+  }
+
+  @Post(':id/stock/:productId/adjust')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Receive or write off stock at a warehouse (Admin only)',
+    description: 'Also adjusts the product total.',
+  })
+  async adjustStock(
+    @GetUser() user: User,
+    @Param('id', new ParseUUIDPipe()) id: string,
+    @Param('productId', new ParseUUIDPipe()) productId: string,
+    @Body() dto: AdjustWarehouseStockDto,
+  ) {
+    const stock = await this.warehousesService.adjustStock(
+      id,
+      productId,
+      dto.quantity,
+      user.userId,
+    );
+    return ResponseHelper.success('Warehouse stock adjusted', stock);
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Warehouse } from './entities/warehouse.entity';
+import { WarehouseStock } from './entities/warehouse-stock.entity';
+import { StockTransfer } from './entities/stock-transfer.entity';
+import { WarehousesService } from './warehouses.service';
+import { WarehousesController } from './warehouses.controller';
+import { InventoryModule } from '../inventory/inventory.module';
+import { TrackingModule } from '../tracking/tracking.module';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Warehouse, WarehouseStock, StockTransfer]),
+    InventoryModule,
+    TrackingModule,
+  ],
+  controllers: [WarehousesController],
+  providers: [WarehousesService],
+  exports: [WarehousesService],
+})
+export class WarehousesModule {}
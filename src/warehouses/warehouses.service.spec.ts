@@ -0,0 +1,294 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { WarehousesService } from './warehouses.service';
+import { Warehouse } from './entities/warehouse.entity';
+import { WarehouseStock } from './entities/warehouse-stock.entity';
+import {
+  StockTransfer,
+  StockTransferStatus,
+} from './entities/stock-transfer.entity';
+import { InventoryService } from '../inventory/inventory.service';
+import { TrackingService } from '../tracking/tracking.service';
+
+describe('WarehousesService', () => {
+  let service: WarehousesService;
+
+  // Q1 gần địa chỉ giao hơn Thủ Đức
+  const shopQ1 = {
+    warehouseId: 'warehouse-q1',
+    code: 'HCM-Q1',
+    name: 'Shop Q1',
+    latitude: 10.7769,
+    longitude: 106.7009,
+    ghnDistrictId: 1442,
+    isActive: true,
+  };
+  const warehouseTD = {
+    warehouseId: 'warehouse-td',
+    code: 'HCM-TD',
+    name: 'Kho Thủ Đức',
+    latitude: 10.8494,
+    longitude: 106.7537,
+    ghnDistrictId: 3695,
+    isActive: true,
+  };
+  const destination = { address: '1 Lê Lợi, Quận 1', ghnDistrictId: 1442 };
+
+  let stocks: WarehouseStock[];
+
+  const stockRow = (
+    warehouseId: string,
+    productId: string,
+    currentStock: number,
+    reservedStock = 0,
+  ) =>
+    ({ warehouseId, productId, currentStock, reservedStock }) as WarehouseStock;
+
+  const findStock = ({
+    where,
+  }: {
+    where: { warehouseId: string; productId: string };
+  }) =>
+    Promise.resolve(
+      stocks.find(
+        (s) =>
+          s.warehouseId === where.warehouseId &&
+          s.productId === where.productId,
+      ) ?? null,
+    );
+
+  const mockWarehouseRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data: unknown) => data),
+    save: jest.fn((data: unknown) => Promise.resolve(data)),
+  };
+
+  const mockStockRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data: unknown) => data),
+    save: jest.fn((data: unknown) => Promise.resolve(data)),
+  };
+
+  const mockTransferRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data: unknown) => data),
+    save: jest.fn((data: unknown) => Promise.resolve(data)),
+  };
+
+  const mockInventoryService = {
+    adjustStock: jest.fn(),
+  };
+
+  const mockTrackingService = {
+    geocodeAddress: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WarehousesService,
+        {
+          provide: getRepositoryToken(Warehouse),
+          useValue: mockWarehouseRepository,
+        },
+        {
+          provide: getRepositoryToken(WarehouseStock),
+          useValue: mockStockRepository,
+        },
+        {
+          provide: getRepositoryToken(StockTransfer),
+          useValue: mockTransferRepository,
+        },
+        { provide: InventoryService, useValue: mockInventoryService },
+        { provide: TrackingService, useValue: mockTrackingService },
+      ],
+    }).compile();
+
+    service = module.get<WarehousesService>(WarehousesService);
+
+    stocks = [];
+    mockWarehouseRepository.find.mockResolvedValue([warehouseTD, shopQ1]);
+    mockWarehouseRepository.findOne.mockImplementation(
+      ({ where }: { where: { warehouseId: string } }) =>
+        Promise.resolve(
+          [shopQ1, warehouseTD].find(
+            (w) => w.warehouseId === where.warehouseId,
+          ) ?? null,
+        ),
+    );
+    mockStockRepository.find.mockImplementation(() => Promise.resolve(stocks));
+    mockStockRepository.findOne.mockImplementation(findStock);
+    mockTrackingService.geocodeAddress.mockResolvedValue({
+      lat: 10.7731,
+      lng: 106.7004,
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('allocate', () => {
+    // TC-WH-001-01: Normal - Nearest warehouse covers the whole order
+    it('TC-WH-001-01: should source the whole order from the nearest warehouse with stock', async () => {
+      stocks = [
+        stockRow('warehouse-q1', 'product-1', 5),
+        stockRow('warehouse-q1', 'product-2', 3),
+        stockRow('warehouse-td', 'product-1', 50),
+        stockRow('warehouse-td', 'product-2', 50),
+      ];
+
+      const result = await service.allocate(
+        [
+          { productId: 'product-1', quantity: 2 },
+          { productId: 'product-2', quantity: 1 },
+        ],
+        destination,
+      );
+
+      expect(result).toHaveLength(1);
+      expect(result[0].warehouse.warehouseId).toBe('warehouse-q1');
+      expect(stocks[0].reservedStock).toBe(2);
+      expect(stocks[1].reservedStock).toBe(1);
+      expect(stocks[2].reservedStock).toBe(0);
+    });
+
+    // TC-WH-001-02: Normal - No single warehouse has everything
+    it('TC-WH-001-02: should split the order across warehouses, nearest first', async () => {
+      stocks = [
+        stockRow('warehouse-q1', 'product-1', 1),
+        stockRow('warehouse-q1', 'product-2', 5),
+        stockRow('warehouse-td', 'product-1', 10),
+      ];
+
+      const result = await service.allocate(
+        [
+          { productId: 'product-1', quantity: 3 },
+          { productId: 'product-2', quantity: 1 },
+        ],
+        destination,
+      );
+
+      expect(result.map((a) => a.warehouse.warehouseId)).toEqual([
+        'warehouse-q1',
+        'warehouse-td',
+      ]);
+      expect(result[0].items).toEqual([
+        { productId: 'product-1', quantity: 1 },
+        { productId: 'product-2', quantity: 1 },
+      ]);
+      expect(result[1].items).toEqual([
+        { productId: 'product-1', quantity: 2 },
+      ]);
+    });
+
+    // TC-WH-001-03: Boundary - Warehouses cannot cover the order
+    it('TC-WH-001-03: should return no allocation when warehouse stock is short', async () => {
+      stocks = [
+        stockRow('warehouse-q1', 'product-1', 2, 1),
+        stockRow('warehouse-td', 'product-1', 1),
+      ];
+
+      const result = await service.allocate(
+        [{ productId: 'product-1', quantity: 3 }],
+        destination,
+      );
+
+      expect(result).toEqual([]);
+      expect(mockStockRepository.save).not.toHaveBeenCalled();
+    });
+
+    // TC-WH-001-04: Normal - Address cannot be geocoded
+    it('TC-WH-001-04: should prefer the warehouse in the same GHN district when geocoding fails', async () => {
+      mockTrackingService.geocodeAddress.mockResolvedValue(null);
+      stocks = [
+        stockRow('warehouse-q1', 'product-1', 5),
+        stockRow('warehouse-td', 'product-1', 5),
+      ];
+
+      const result = await service.allocate(
+        [{ productId: 'product-1', quantity: 1 }],
+        destination,
+      );
+
+      expect(result[0].warehouse.warehouseId).toBe('warehouse-q1');
+    });
+  });
+
+  describe('stock transfers', () => {
+    // TC-WH-002-01: Normal - Transfer reserves, ships and receives stock
+    it('TC-WH-002-01: should move stock from the source to the destination warehouse', async () => {
+      stocks = [stockRow('warehouse-td', 'product-1', 10)];
+      mockStockRepository.create.mockImplementation((data: WarehouseStock) => {
+        stocks.push(data);
+        return data;
+      });
+
+      const transfer = await service.createTransfer(
+        {
+          fromWarehouseId: 'warehouse-td',
+          toWarehouseId: 'warehouse-q1',
+          items: [{ productId: 'product-1', quantity: 4 }],
+        },
+        'staff-id',
+      );
+      expect(transfer.status).toBe(StockTransferStatus.PENDING);
+      expect(stocks[0].reservedStock).toBe(4);
+
+      mockTransferRepository.findOne.mockResolvedValue({
+        ...transfer,
+        transferId: 'transfer-1',
+      });
+      const shipped = await service.shipTransfer('transfer-1', 'staff-id');
+      expect(shipped.status).toBe(StockTransferStatus.IN_TRANSIT);
+      expect(stocks[0]).toMatchObject({ currentStock: 6, reservedStock: 0 });
+
+      mockTransferRepository.findOne.mockResolvedValue(shipped);
+      const received = await service.receiveTransfer('transfer-1', 'staff-id');
+      expect(received.status).toBe(StockTransferStatus.COMPLETED);
+      expect(stocks[1]).toMatchObject({
+        warehouseId: 'warehouse-q1',
+        currentStock: 4,
+      });
+      expect(mockInventoryService.adjustStock).not.toHaveBeenCalled();
+    });
+
+    // TC-WH-002-02: Abnormal - Source warehouse does not have enough stock
+    it('TC-WH-002-02: should reject a transfer larger than the available stock', async () => {
+      stocks = [stockRow('warehouse-td', 'product-1', 5, 3)];
+
+      await expect(
+        service.createTransfer(
+          {
+            fromWarehouseId: 'warehouse-td',
+            toWarehouseId: 'warehouse-q1',
+            items: [{ productId: 'product-1', quantity: 3 }],
+          },
+          'staff-id',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockTransferRepository.save).not.toHaveBeenCalled();
+    });
+
+    // TC-WH-002-03: Abnormal - Receiving a transfer that was never shipped
+    it('TC-WH-002-03: should not receive a transfer that is still pending', async () => {
+      mockTransferRepository.findOne.mockResolvedValue({
+        transferId: 'transfer-1',
+        status: StockTransferStatus.PENDING,
+        items: [],
+      });
+
+      await expect(
+        service.receiveTransfer('transfer-1', 'staff-id'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
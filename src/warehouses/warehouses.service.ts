@@ -0,0 +1,498 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Warehouse } from './entities/warehouse.entity';
+import { WarehouseStock } from './entities/warehouse-stock.entity';
+import {
+  StockItem,
+  StockTransfer,
+  StockTransferStatus,
+} from './entities/stock-transfer.entity';
+import {
+  CreateStockTransferDto,
+  CreateWarehouseDto,
+  UpdateWarehouseDto,
+} from './dto/warehouse.dto';
+import { InventoryService } from '../inventory/inventory.service';
+import { TrackingService } from '../tracking/tracking.service';
+import { calculateDistance } from '../utils/location';
+
+export interface SourcingAllocation {
+  warehouse: Warehouse;
+  items: StockItem[];
+}
+
+export interface SourcingDestination {
+  address: string;
+  ghnDistrictId?: number | null;
+}
+
+@Injectable()
+export class WarehousesService {
+  private readonly logger = new Logger(WarehousesService.name);
+
+  constructor(
+    @InjectRepository(Warehouse)
+    private readonly warehouseRepository: Repository<Warehouse>,
+    @InjectRepository(WarehouseStock)
+    private readonly stockRepository: Repository<WarehouseStock>,
+    @InjectRepository(StockTransfer)
+    private readonly transferRepository: Repository<StockTransfer>,
+    private readonly inventoryService: InventoryService,
+    private readonly trackingService: TrackingService,
+  ) {}
+
+  // ===== Kho =====
+
+  async create(dto: CreateWarehouseDto): Promise<Warehouse> {
+    const existing = await this.warehouseRepository.findOne({
+      where: { code: dto.code },
+    });
+    if (existing) {
+      throw new BadRequestException(
+        `Warehouse code ${dto.code} already exists`,
+      );
+    }
+    return this.warehouseRepository.save(this.warehouseRepository.create(dto));
+  }
+
+  async findAll(includeInactive = false): Promise<Warehouse[]> {
+    return this.warehouseRepository.find({
+      where: includeInactive ? {} : { isActive: true },
+      order: { name: 'ASC' },
+    });
+  }
+
+  async findOne(warehouseId: string): Promise<Warehouse> {
+    const warehouse = await this.warehouseRepository.findOne({
+      where: { warehouseId },
+    });
+    if (!warehouse) {
+      throw new NotFoundException(`Warehouse ${warehouseId} not found`);
+    }
+    return warehouse;
+  }
+
+  async update(
+    warehouseId: string,
+    dto: UpdateWarehouseDto,
+  ): Promise<Warehouse> {
+    const warehouse = await this.findOne(warehouseId);
+    if (dto.code && dto.code !== warehouse.code) {
+      const existing = await this.warehouseRepository.findOne({
+        where: { code: dto.code },
+      });
+      if (existing) {
+        throw new BadRequestException(
+          `Warehouse code ${dto.code} already exists`,
+        );
+      }
+    }
+    Object.assign(warehouse, dto);
+    return this.warehouseRepository.save(warehouse);
+  }
+
+  // ===== Tồn kho theo kho =====
+
+  async getStock(warehouseId: string): Promise<WarehouseStock[]> {
+    await this.findOne(warehouseId);
+    return this.stockRepository.find({
+      where: { warehouseId },
+      relations: ['product'],
+      order: { updatedAt: 'DESC' },
+    });
+  }
+
+  async getProductStock(productId: string): Promise<WarehouseStock[]> {
+    return this.stockRepository.find({
+      where: { productId },
+      relations: ['warehouse'],
+    });
+  }
+
+  /**
+   * Khai báo số hàng đang có tại kho (phân bổ tồn tổng hiện có, kiểm kê).
+   * Không đổi tồn tổng Inventory.
+   */
+  async setStock(
+    warehouseId: string,
+    productId: string,
+    quantity: number,
+  ): Promise<WarehouseStock> {
+    await this.findOne(warehouseId);
+    const stock = await this.getOrCreateStock(warehouseId, productId);
+    if (quantity < stock.reservedStock) {
+      throw new BadRequestException(
+        `Cannot set stock below reserved quantity (${stock.reservedStock})`,
+      );
+    }
+    stock.currentStock = quantity;
+    return this.stockRepository.save(stock);
+  }
+
+  /**
+   * Nhập hàng (+) hoặc xuất hủy (-) tại kho, cập nhật cả tồn tổng
+   */
+  async adjustStock(
+    warehouseId: string,
+    productId: string,
+    quantity: number,
+    adminUserId?: string,
+  ): Promise<WarehouseStock> {
+    await this.findOne(warehouseId);
+    const stock = await this.getOrCreateStock(warehouseId, productId);
+    if (stock.currentStock + quantity < stock.reservedStock) {
+      throw new BadRequestException(
+        `Cannot reduce stock below reserved quantity (${stock.reservedStock})`,
+      );
+    }
+
+    await this.inventoryService.adjustStock(productId, quantity, adminUserId);
+    stock.currentStock += quantity;
+    return this.stockRepository.save(stock);
+  }
+
+  /**
+   * Cộng hàng nhận từ nhà cung cấp vào kho. Tồn tổng đã được cộng khi nhập phiếu mua hàng.
+   */
+  async receiveStock(
+    warehouseId: string,
+    productId: string,
+    quantity: number,
+  ): Promise<WarehouseStock> {
+    await this.findOne(warehouseId);
+    const stock = await this.getOrCreateStock(warehouseId, productId);
+    stock.currentStock += quantity;
+    return this.stockRepository.save(stock);
+  }
+
+  // ===== Chuyển kho =====
+
+  async findTransfers(status?: StockTransferStatus): Promise<StockTransfer[]> {
+    return this.transferRepository.find({
+      where: status ? { status } : {},
+      relations: ['fromWarehouse', 'toWarehouse'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  async findTransfer(transferId: string): Promise<StockTransfer> {
+    const transfer = await this.transferRepository.findOne({
+      where: { transferId },
+      relations: ['fromWarehouse', 'toWarehouse'],
+    });
+    if (!transfer) {
+      throw new NotFoundException(`Stock transfer ${transferId} not found`);
+    }
+    return transfer;
+  }
+
+  /**
+   * 🔁 Tạo phiếu chuyển kho, giữ hàng ở kho đi đến khi xuất
+   */
+  async createTransfer(
+    dto: CreateStockTransferDto,
+    userId: string,
+  ): Promise<StockTransfer> {
+    if (dto.fromWarehouseId === dto.toWarehouseId) {
+      throw new BadRequestException(
+        'Source and destination warehouses must differ',
+      );
+    }
+    const [from, to] = await Promise.all([
+      this.findOne(dto.fromWarehouseId),
+      this.findOne(dto.toWarehouseId),
+    ]);
+    if (!from.isActive || !to.isActive) {
+      throw new BadRequestException('Both warehouses must be active');
+    }
+
+    const items = this.normalizeItems(dto.items);
+    await this.reserve(from.warehouseId, items);
+
+    const transfer = this.transferRepository.create({
+      fromWarehouseId: from.warehouseId,
+      toWarehouseId: to.warehouseId,
+      items,
+      note: dto.note ?? null,
+      requestedBy: userId,
+      status: StockTransferStatus.PENDING,
+    });
+    const saved = await this.transferRepository.save(transfer);
+    this.logger.log(
+      `🔁 Stock transfer ${saved.transferId}: ${from.code} → ${to.code} (${items.length} products)`,
+    );
+    return saved;
+  }
+
+  async shipTransfer(
+    transferId: string,
+    userId: string,
+  ): Promise<StockTransfer> {
+    const transfer = await this.findTransfer(transferId);
+    this.assertTransferStatus(transfer, StockTransferStatus.PENDING);
+
+    await this.consumeAllocation(transfer.fromWarehouseId, transfer.items);
+    transfer.status = StockTransferStatus.IN_TRANSIT;
+    transfer.shippedBy = userId;
+    transfer.shippedAt = new Date();
+    return this.transferRepository.save(transfer);
+  }
+
+  async receiveTransfer(
+    transferId: string,
+    userId: string,
+  ): Promise<StockTransfer> {
+    const transfer = await this.findTransfer(transferId);
+    this.assertTransferStatus(transfer, StockTransferStatus.IN_TRANSIT);
+
+    for (const item of transfer.items) {
+      const stock = await this.getOrCreateStock(
+        transfer.toWarehouseId,
+        item.productId,
+      );
+      stock.currentStock += item.quantity;
+      await this.stockRepository.save(stock);
+    }
+    transfer.status = StockTransferStatus.COMPLETED;
+    transfer.receivedBy = userId;
+    transfer.receivedAt = new Date();
+    return this.transferRepository.save(transfer);
+  }
+
+  async cancelTransfer(transferId: string): Promise<StockTransfer> {
+    const transfer = await this.findTransfer(transferId);
+    this.assertTransferStatus(transfer, StockTransferStatus.PENDING);
+
+    await this.releaseAllocation(transfer.fromWarehouseId, transfer.items);
+    transfer.status = StockTransferStatus.CANCELLED;
+    return this.transferRepository.save(transfer);
+  }
+
+  // ===== Chọn kho xuất đơn =====
+
+  /**
+   * 📍 Chọn kho xuất hàng cho đơn và giữ hàng tại các kho được chọn:
+   * - Ưu tiên kho gần nhất có đủ toàn bộ sản phẩm (một vận đơn)
+   * - Không kho nào đủ → tách theo từng sản phẩm, lấy từ kho gần nhất còn hàng
+   * - Các kho chưa khai báo đủ tồn → trả về [] để lấy hàng ở địa chỉ mặc định
+   */
+  async allocate(
+    items: StockItem[],
+    destination: SourcingDestination,
+  ): Promise<SourcingAllocation[]> {
+    const requested = this.normalizeItems(items);
+    const warehouses = await this.findAll();
+    if (warehouses.length === 0 || requested.length === 0) {
+      return [];
+    }
+
+    const stocks = await this.stockRepository.find({
+      where: {
+        productId: In(requested.map((item) => item.productId)),
+        warehouseId: In(warehouses.map((w) => w.warehouseId)),
+      },
+    });
+    const available = (warehouseId: string, productId: string) => {
+      const stock = stocks.find(
+        (s) => s.warehouseId === warehouseId && s.productId === productId,
+      );
+      return stock ? Math.max(0, stock.currentStock - stock.reservedStock) : 0;
+    };
+
+    const ranked = await this.rankWarehouses(warehouses, destination);
+
+    let allocations: SourcingAllocation[] | null = null;
+    const single = ranked.find((warehouse) =>
+      requested.every(
+        (item) =>
+          available(warehouse.warehouseId, item.productId) >= item.quantity,
+      ),
+    );
+    if (single) {
+      allocations = [{ warehouse: single, items: requested }];
+    } else {
+      allocations = this.splitAcross(ranked, requested, available);
+    }
+
+    if (!allocations) {
+      this.logger.warn(
+        `⚠️ Warehouses cannot cover the order, using the default pickup address`,
+      );
+      return [];
+    }
+
+    const reserved: SourcingAllocation[] = [];
+    try {
+      for (const allocation of allocations) {
+        await this.reserve(allocation.warehouse.warehouseId, allocation.items);
+        reserved.push(allocation);
+      }
+    } catch (error) {
+      // Tồn vừa bị đơn khác giữ mất → trả lại phần đã giữ
+      for (const allocation of reserved) {
+        await this.releaseAllocation(
+          allocation.warehouse.warehouseId,
+          allocation.items,
+        );
+      }
+      throw error;
+    }
+    this.logger.log(
+      `📍 Sourced from ${allocations.map((a) => a.warehouse.code).join(', ')}`,
+    );
+    return allocations;
+  }
+
+  /**
+   * Trả hàng đã giữ về trạng thái sẵn bán (hủy đơn / hủy phiếu chuyển)
+   */
+  async releaseAllocation(
+    warehouseId: string,
+    items: StockItem[],
+  ): Promise<void> {
+    for (const item of items) {
+      const stock = await this.getOrCreateStock(warehouseId, item.productId);
+      stock.reservedStock = Math.max(0, stock.reservedStock - item.quantity);
+      await this.stockRepository.save(stock);
+    }
+  }
+
+  /**
+   * Hàng đã giữ rời kho (giao cho shipper / GHN / xuất chuyển kho)
+   */
+  async consumeAllocation(
+    warehouseId: string,
+    items: StockItem[],
+  ): Promise<void> {
+    for (const item of items) {
+      const stock = await this.getOrCreateStock(warehouseId, item.productId);
+      stock.currentStock = Math.max(0, stock.currentStock - item.quantity);
+      stock.reservedStock = Math.max(0, stock.reservedStock - item.quantity);
+      await this.stockRepository.save(stock);
+    }
+  }
+
+  private splitAcross(
+    ranked: Warehouse[],
+    requested: StockItem[],
+    available: (warehouseId: string, productId: string) => number,
+  ): SourcingAllocation[] | null {
+    const byWarehouse = new Map<string, SourcingAllocation>();
+    for (const item of requested) {
+      let remaining = item.quantity;
+      for (const warehouse of ranked) {
+        const quantity = Math.min(
+          remaining,
+          available(warehouse.warehouseId, item.productId),
+        );
+        if (quantity <= 0) continue;
+
+        const allocation = byWarehouse.get(warehouse.warehouseId) ?? {
+          warehouse,
+          items: [],
+        };
+        allocation.items.push({ productId: item.productId, quantity });
+        byWarehouse.set(warehouse.warehouseId, allocation);
+        remaining -= quantity;
+        if (remaining === 0) break;
+      }
+      if (remaining > 0) {
+        return null;
+      }
+    }
+    // Giữ thứ tự gần → xa, kho đầu tiên là vận đơn chính
+    return ranked
+      .map((warehouse) => byWarehouse.get(warehouse.warehouseId))
+      .filter((allocation): allocation is SourcingAllocation => !!allocation);
+  }
+
+  /**
+   * Xếp kho theo khoảng cách tới địa chỉ giao; không geocode được thì
+   * ưu tiên kho cùng quận (GHN district)
+   */
+  private async rankWarehouses(
+    warehouses: Warehouse[],
+    destination: SourcingDestination,
+  ): Promise<Warehouse[]> {
+    const coordinates = await this.trackingService.geocodeAddress(
+      destination.address,
+    );
+    const score = (warehouse: Warehouse) =>
+      coordinates
+        ? calculateDistance(
+            coordinates.lat,
+            coordinates.lng,
+            Number(warehouse.latitude),
+            Number(warehouse.longitude),
+          )
+        : warehouse.ghnDistrictId === destination.ghnDistrictId
+          ? 0
+          : 1;
+    return [...warehouses].sort((a, b) => score(a) - score(b));
+  }
+
+  private async reserve(warehouseId: string, items: StockItem[]) {
+    const stocks: WarehouseStock[] = [];
+    for (const item of items) {
+      const stock = await this.getOrCreateStock(warehouseId, item.productId);
+      const available = stock.currentStock - stock.reservedStock;
+      if (available < item.quantity) {
+        throw new BadRequestException(
+          `Insufficient stock for product ${item.productId} at warehouse. Available: ${available}, Requested: ${item.quantity}`,
+        );
+      }
+      stock.reservedStock += item.quantity;
+      stocks.push(stock);
+    }
+    await this.stockRepository.save(stocks);
+  }
+
+  private async getOrCreateStock(
+    warehouseId: string,
+    productId: string,
+  ): Promise<WarehouseStock> {
+    const stock = await this.stockRepository.findOne({
+      where: { warehouseId, productId },
+    });
+    return (
+      stock ??
+      this.stockRepository.create({
+        warehouseId,
+        productId,
+        currentStock: 0,
+        reservedStock: 0,
+      })
+    );
+  }
+
+  private assertTransferStatus(
+    transfer: StockTransfer,
+    expected: StockTransferStatus,
+  ): void {
+    if (transfer.status !== expected) {
+      throw new BadRequestException(
+        `Stock transfer is ${transfer.status}, expected ${expected}`,
+      );
+    }
+  }
+
+  private normalizeItems(items: StockItem[]): StockItem[] {
+    const merged = new Map<string, number>();
+    for (const item of items) {
+      merged.set(
+        item.productId,
+        (merged.get(item.productId) ?? 0) + item.quantity,
+      );
+    }
+    return [...merged].map(([productId, quantity]) => ({
+      productId,
+      quantity,
+    }));
+  }
+}
@@ -0,0 +1,34 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { WishlistListType } from '../entities/wishlist-item.entity';
+
+export class UpdateWishlistAlertsDto {
+  @ApiPropertyOptional({
+    description: 'Notify when the product is back in stock',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  notifyBackInStock?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Notify when the effective price drops below the saved price',
+    example: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  notifyPriceDrop?: boolean;
+}
+
+export class AddWishlistItemDto extends UpdateWishlistAlertsDto {
+  @ApiProperty({ example: '550e8400-e29b-41d4-a716-446655440001' })
+  @IsUUID()
+  productId: string;
+}
+
+export class FindWishlistDto {
+  @ApiPropertyOptional({ enum: WishlistListType })
+  @IsOptional()
+  @IsEnum(WishlistListType)
+  listType?: WishlistListType;
+}
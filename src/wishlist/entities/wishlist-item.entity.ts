@@ -0,0 +1,69 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { Product } from '../../products/entities/product.entity';
+
+export enum WishlistListType {
+  WISHLIST = 'wishlist', // Khách thêm từ trang sản phẩm
+  SAVED_FOR_LATER = 'saved_for_later', // Chuyển từ giỏ hàng, giữ lại số lượng
+}
+
+/**
+ * Sản phẩm khách lưu lại để mua sau, kèm đăng ký nhận thông báo
+ * khi có hàng trở lại hoặc khi giá sau giảm thấp hơn lúc lưu.
+ */
+@Entity('wishlist_items')
+@Index(['userId', 'productId'], { unique: true })
+@Index(['productId', 'notifyBackInStock'])
+@Index(['productId', 'notifyPriceDrop'])
+export class WishlistItem {
+  @PrimaryGeneratedColumn('uuid')
+  wishlistItemId: string;
+
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @Column()
+  productId: string;
+
+  @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'productId' })
+  product: Product;
+
+  @Column({
+    type: 'enum',
+    enum: WishlistListType,
+    default: WishlistListType.WISHLIST,
+  })
+  listType: WishlistListType;
+
+  // Số lượng trong giỏ lúc chuyển sang "mua sau"
+  @Column({ type: 'int', default: 1 })
+  quantity: number;
+
+  @Column({ type: 'boolean', default: false })
+  notifyBackInStock: boolean;
+
+  @Column({ type: 'boolean', default: false })
+  notifyPriceDrop: boolean;
+
+  // Giá sau giảm làm mốc so sánh; cập nhật lại sau mỗi lần báo giảm giá
+  @Column({ type: 'int' })
+  referencePrice: number;
+
+  @Column({ type: 'timestamp', nullable: true })
+  lastNotifiedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { WishlistAlertsService } from './wishlist-alerts.service';
+import { WishlistItem } from './entities/wishlist-item.entity';
+import { Product } from '../products/entities/product.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('WishlistAlertsService', () => {
+  let service: WishlistAlertsService;
+
+  const product = {
+    productId: 'product-1',
+    productName: 'Serum',
+    sellingPrice: 200000,
+    salePercentage: 0,
+    stock: 5,
+  } as unknown as Product;
+
+  const mockWishlistItemRepository = {
+    find: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockNotificationsService = {
+    notifyBackInStock: jest.fn(),
+    notifyPriceDrop: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WishlistAlertsService,
+        {
+          provide: getRepositoryToken(WishlistItem),
+          useValue: mockWishlistItemRepository,
+        },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<WishlistAlertsService>(WishlistAlertsService);
+
+    mockWishlistItemRepository.find.mockResolvedValue([
+      { wishlistItemId: 'item-1', userId: 'user-1', referencePrice: 200000 },
+      { wishlistItemId: 'item-2', userId: 'user-2', referencePrice: 180000 },
+    ]);
+    mockWishlistItemRepository.update.mockResolvedValue({ affected: 2 });
+    mockNotificationsService.notifyBackInStock.mockResolvedValue([]);
+    mockNotificationsService.notifyPriceDrop.mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('onStockChanged', () => {
+    // TC-WISH-002-01: Normal - Sold-out product is restocked
+    it('TC-WISH-002-01: should notify subscribers when stock goes from 0 to available', async () => {
+      await service.onStockChanged(product, 0);
+
+      expect(mockWishlistItemRepository.find).toHaveBeenCalledWith({
+        where: { productId: 'product-1', notifyBackInStock: true },
+      });
+      expect(mockNotificationsService.notifyBackInStock).toHaveBeenCalledWith(
+        ['user-1', 'user-2'],
+        'product-1',
+        'Serum',
+      );
+      expect(mockWishlistItemRepository.update).toHaveBeenCalled();
+    });
+
+    // TC-WISH-002-02: Boundary - Product was already in stock
+    it('TC-WISH-002-02: should not notify when the product was already available', async () => {
+      await service.onStockChanged(product, 2);
+      await service.onStockChanged({ ...product, stock: 0 } as Product, 0);
+
+      expect(mockWishlistItemRepository.find).not.toHaveBeenCalled();
+      expect(mockNotificationsService.notifyBackInStock).not.toHaveBeenCalled();
+    });
+
+    // TC-WISH-002-03: Abnormal - Push delivery fails
+    it('TC-WISH-002-03: should not fail the stock update when notifications fail', async () => {
+      mockNotificationsService.notifyBackInStock.mockRejectedValueOnce(
+        new Error('FCM unavailable'),
+      );
+
+      await expect(service.onStockChanged(product, 0)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('onPriceChanged', () => {
+    // TC-WISH-003-01: Normal - Sale lowers the effective price
+    it('TC-WISH-003-01: should notify subscribers whose reference price is higher', async () => {
+      const onSale = {
+        ...product,
+        salePercentage: '20.00',
+      } as unknown as Product;
+
+      await service.onPriceChanged(onSale, 200000);
+
+      expect(mockNotificationsService.notifyPriceDrop).toHaveBeenCalledWith(
+        [
+          { userId: 'user-1', previousPrice: 200000 },
+          { userId: 'user-2', previousPrice: 180000 },
+        ],
+        'product-1',
+        'Serum',
+        160000,
+      );
+      expect(mockWishlistItemRepository.update).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ referencePrice: 160000 }),
+      );
+    });
+
+    // TC-WISH-003-02: Boundary - Price did not drop
+    it('TC-WISH-003-02: should not notify when the effective price did not drop', async () => {
+      await service.onPriceChanged(product, 200000);
+      await service.onPriceChanged(
+        { ...product, sellingPrice: 250000 } as Product,
+        200000,
+      );
+
+      expect(mockWishlistItemRepository.find).not.toHaveBeenCalled();
+      expect(mockNotificationsService.notifyPriceDrop).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, MoreThan, Repository } from 'typeorm';
+import { WishlistItem } from './entities/wishlist-item.entity';
+import { Product } from '../products/entities/product.entity';
+import { NotificationsService } from '../notifications/notifications.service';
+
+/**
+ * 🔔 Thông báo cho khách đã lưu sản phẩm (push + in-app):
+ * - Có hàng trở lại: tồn bán được từ 0 lên > 0 (InventoryService)
+ * - Giảm giá: giá sau giảm thấp hơn giá mốc lúc lưu (ProductsService)
+ * Lỗi gửi thông báo chỉ ghi log, không làm hỏng thao tác kho / sản phẩm.
+ */
+@Injectable()
+export class WishlistAlertsService {
+  private readonly logger = new Logger(WishlistAlertsService.name);
+
+  constructor(
+    @InjectRepository(WishlistItem)
+    private readonly wishlistItemRepository: Repository<WishlistItem>,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Giá khách phải trả: sellingPrice trừ salePercentage (cùng cách tính với báo giá)
+   */
+  effectivePrice(product: Product): number {
+    const sellingPrice = Number(product.sellingPrice);
+    const salePercentage = Number(product.salePercentage) || 0;
+    return salePercentage > 0
+      ? Math.round(sellingPrice - (sellingPrice * salePercentage) / 100)
+      : sellingPrice;
+  }
+
+  /**
+   * Gọi sau mỗi lần đồng bộ tồn bán được của sản phẩm
+   */
+  async onStockChanged(product: Product, previousStock: number): Promise<void> {
+    if (previousStock > 0 || product.stock <= 0) {
+      return;
+    }
+
+    try {
+      const items = await this.wishlistItemRepository.find({
+        where: { productId: product.productId, notifyBackInStock: true },
+      });
+      if (items.length === 0) {
+        return;
+      }
+
+      await this.notificationsService.notifyBackInStock(
+        items.map((item) => item.userId),
+        product.productId,
+        product.productName,
+      );
+      await this.markNotified(items);
+      this.logger.log(
+        `🔔 Back-in-stock alert for ${product.productName} sent to ${items.length} customers`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to send back-in-stock alerts for ${product.productId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Gọi sau khi cập nhật giá bán / % giảm giá của sản phẩm
+   */
+  async onPriceChanged(product: Product, previousPrice: number): Promise<void> {
+    const price = this.effectivePrice(product);
+    if (price >= previousPrice) {
+      return;
+    }
+
+    try {
+      const items = await this.wishlistItemRepository.find({
+        where: {
+          productId: product.productId,
+          notifyPriceDrop: true,
+          referencePrice: MoreThan(price),
+        },
+      });
+      if (items.length === 0) {
+        return;
+      }
+
+      await this.notificationsService.notifyPriceDrop(
+        items.map((item) => ({
+          userId: item.userId,
+          previousPrice: item.referencePrice,
+        })),
+        product.productId,
+        product.productName,
+        price,
+      );
+      // Giá mới thành mốc → chỉ báo lại khi giá giảm tiếp
+      await this.markNotified(items, { referencePrice: price });
+      this.logger.log(
+        `🔔 Price-drop alert for ${product.productName} (${price} VND) sent to ${items.length} customers`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `❌ Failed to send price-drop alerts for ${product.productId}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private async markNotified(
+    items: WishlistItem[],
+    changes: Partial<WishlistItem> = {},
+  ): Promise<void> {
+    await this.wishlistItemRepository.update(
+      { wishlistItemId: In(items.map((item) => item.wishlistItemId)) },
+      { ...changes, lastNotifiedAt: new Date() },
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { WishlistService } from './wishlist.service';
+import {
+  AddWishlistItemDto,
+  FindWishlistDto,
+  UpdateWishlistAlertsDto,
+} from './dto/wishlist.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import { User, UserRole } from '../users/entities/user.entity';
+import { ResponseHelper } from '../utils/responses';
+
+@ApiTags('Wishlist')
+@Controller('wishlist')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.CUSTOMER)
+@ApiBearerAuth()
+export class WishlistController {
+  constructor(private readonly wishlistService: WishlistService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List my wishlist',
+    description:
+      'Returns wishlist and saved-for-later products. Filter with listType.',
+  })
+  async findMine(@GetUser() user: User, @Query() query: FindWishlistDto) {
+    const items = await this.wishlistService.findByUser(
+      user.userId,
+      query.listType,
+    );
+    return ResponseHelper.success('Wishlist retrieved successfully', items);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Add a product to my wishlist',
+    description:
+      'Opt in to back-in-stock and price-drop alerts. Adding a saved product again only updates its alerts.',
+  })
+  @ApiResponse({ status: 201, description: 'Product added to wishlist' })
+  @ApiResponse({ status: 404, description: 'Product not found' })
+  async add(@GetUser() user: User, @Body() dto: AddWishlistItemDto) {
+    const item = await this.wishlistService.add(user.userId, dto);
+    return ResponseHelper.created('Product added to wishlist', item);
+  }
+
+  @Patch(':productId/alerts')
+  @ApiOperation({
+    summary: 'Change alerts of a saved product',
+    description:
+      'Turning price-drop alerts on uses the current price as the reference price.',
+  })
+  @ApiParam({ name: 'productId', description: 'Product UUID' })
+  @ApiResponse({ status: 404, description: 'Product not found in wishlist' })
+  async updateAlerts(
+    @GetUser() user: User,
+    @Param('productId') productId: string,
+    @Body() dto: UpdateWishlistAlertsDto,
+  ) {
+    const item = await this.wishlistService.updateAlerts(
+      user.userId,
+      productId,
+      dto,
+    );
+    return ResponseHelper.success('Wishlist alerts updated', item);
+  }
+
+  @Delete(':productId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Remove a product from my wishlist' })
+  @ApiParam({ name: 'productId', description: 'Product UUID' })
+  @ApiResponse({ status: 404, description: 'Product not found in wishlist' })
+  async remove(@GetUser() user: User, @Param('productId') productId: string) {
+    await this.wishlistService.remove(user.userId, productId);
+    return ResponseHelper.success('Product removed from wishlist');
+  }
+}
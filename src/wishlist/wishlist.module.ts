@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { WishlistItem } from './entities/wishlist-item.entity';
+import { WishlistService } from './wishlist.service';
+import { WishlistAlertsService } from './wishlist-alerts.service';
+import { WishlistController } from './wishlist.controller';
+import { Product } from '../products/entities/product.entity';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+// Không import Inventory / Products / Cart module: các module đó import ngược lại để gọi alerts
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([WishlistItem, Product]),
+    NotificationsModule,
+  ],
+  controllers: [WishlistController],
+  providers: [WishlistService, WishlistAlertsService],
+  exports: [WishlistService, WishlistAlertsService],
+})
+export class WishlistModule {}
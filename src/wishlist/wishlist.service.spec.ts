@@ -0,0 +1,146 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { WishlistService } from './wishlist.service';
+import { WishlistAlertsService } from './wishlist-alerts.service';
+import {
+  WishlistItem,
+  WishlistListType,
+} from './entities/wishlist-item.entity';
+import { Product } from '../products/entities/product.entity';
+
+describe('WishlistService', () => {
+  let service: WishlistService;
+
+  const userId = 'user-1';
+  const productId = 'product-1';
+
+  const mockWishlistItemRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((data: Partial<WishlistItem>) => ({ ...data })),
+    save: jest.fn((item: WishlistItem) => Promise.resolve(item)),
+    remove: jest.fn(),
+  };
+
+  const mockProductRepository = {
+    findOne: jest.fn(),
+  };
+
+  const mockWishlistAlertsService = {
+    effectivePrice: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WishlistService,
+        {
+          provide: getRepositoryToken(WishlistItem),
+          useValue: mockWishlistItemRepository,
+        },
+        {
+          provide: getRepositoryToken(Product),
+          useValue: mockProductRepository,
+        },
+        {
+          provide: WishlistAlertsService,
+          useValue: mockWishlistAlertsService,
+        },
+      ],
+    }).compile();
+
+    service = module.get<WishlistService>(WishlistService);
+
+    mockWishlistItemRepository.findOne.mockResolvedValue(null);
+    mockProductRepository.findOne.mockResolvedValue({
+      productId,
+      sellingPrice: 200000,
+    });
+    mockWishlistAlertsService.effectivePrice.mockReturnValue(180000);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('add', () => {
+    // TC-WISH-001-01: Normal - Product saved with alerts
+    it('TC-WISH-001-01: should save the product with the current price as reference', async () => {
+      const item = await service.add(userId, {
+        productId,
+        notifyPriceDrop: true,
+      });
+
+      expect(item).toMatchObject({
+        userId,
+        productId,
+        listType: WishlistListType.WISHLIST,
+        notifyBackInStock: false,
+        notifyPriceDrop: true,
+        referencePrice: 180000,
+      });
+    });
+
+    // TC-WISH-001-02: Abnormal - Unknown product
+    it('TC-WISH-001-02: should throw when the product does not exist', async () => {
+      mockProductRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.add(userId, { productId })).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    // TC-WISH-001-03: Normal - Saving again only changes alerts
+    it('TC-WISH-001-03: should update alerts of a product already saved', async () => {
+      mockWishlistItemRepository.findOne.mockResolvedValue({
+        userId,
+        productId,
+        listType: WishlistListType.SAVED_FOR_LATER,
+        notifyBackInStock: false,
+        notifyPriceDrop: false,
+        referencePrice: 200000,
+      });
+
+      const item = await service.add(userId, {
+        productId,
+        notifyBackInStock: true,
+        notifyPriceDrop: true,
+      });
+
+      expect(mockWishlistItemRepository.create).not.toHaveBeenCalled();
+      expect(item).toMatchObject({
+        listType: WishlistListType.SAVED_FOR_LATER,
+        notifyBackInStock: true,
+        notifyPriceDrop: true,
+        referencePrice: 180000,
+      });
+    });
+  });
+
+  describe('saveForLater', () => {
+    // TC-WISH-001-04: Normal - Item moved from the cart keeps its quantity
+    it('TC-WISH-001-04: should keep the cart quantity in the save-for-later list', async () => {
+      const item = await service.saveForLater(userId, productId, 3);
+
+      expect(item).toMatchObject({
+        listType: WishlistListType.SAVED_FOR_LATER,
+        quantity: 3,
+        referencePrice: 180000,
+      });
+    });
+  });
+
+  describe('remove', () => {
+    // TC-WISH-001-05: Abnormal - Product not in wishlist
+    it('TC-WISH-001-05: should throw when the product is not saved', async () => {
+      await expect(service.remove(userId, productId)).rejects.toThrow(
+        'Product not found in wishlist',
+      );
+    });
+  });
+});
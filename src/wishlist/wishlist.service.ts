@@ -0,0 +1,136 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  WishlistItem,
+  WishlistListType,
+} from './entities/wishlist-item.entity';
+import {
+  AddWishlistItemDto,
+  UpdateWishlistAlertsDto,
+} from './dto/wishlist.dto';
+import { WishlistAlertsService } from './wishlist-alerts.service';
+import { Product } from '../products/entities/product.entity';
+
+@Injectable()
+export class WishlistService {
+  constructor(
+    @InjectRepository(WishlistItem)
+    private readonly wishlistItemRepository: Repository<WishlistItem>,
+    @InjectRepository(Product)
+    private readonly productRepository: Repository<Product>,
+    private readonly wishlistAlertsService: WishlistAlertsService,
+  ) {}
+
+  async findByUser(
+    userId: string,
+    listType?: WishlistListType,
+  ): Promise<WishlistItem[]> {
+    return await this.wishlistItemRepository.find({
+      where: { userId, ...(listType && { listType }) },
+      relations: ['product'],
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * ❤️ Thêm vào wishlist; sản phẩm đã lưu thì chỉ cập nhật đăng ký thông báo
+   */
+  async add(userId: string, dto: AddWishlistItemDto): Promise<WishlistItem> {
+    const { productId, ...alerts } = dto;
+    const existing = await this.wishlistItemRepository.findOne({
+      where: { userId, productId },
+    });
+    if (existing) {
+      return await this.updateAlerts(userId, productId, alerts);
+    }
+
+    const product = await this.findProduct(productId);
+    const item = this.wishlistItemRepository.create({
+      userId,
+      productId,
+      listType: WishlistListType.WISHLIST,
+      notifyBackInStock: alerts.notifyBackInStock ?? false,
+      notifyPriceDrop: alerts.notifyPriceDrop ?? false,
+      referencePrice: this.wishlistAlertsService.effectivePrice(product),
+    });
+    return await this.wishlistItemRepository.save(item);
+  }
+
+  /**
+   * 🕒 Lưu sản phẩm từ giỏ hàng để mua sau (giữ số lượng trong giỏ)
+   */
+  async saveForLater(
+    userId: string,
+    productId: string,
+    quantity: number,
+  ): Promise<WishlistItem> {
+    const product = await this.findProduct(productId);
+    const item =
+      (await this.wishlistItemRepository.findOne({
+        where: { userId, productId },
+      })) ??
+      this.wishlistItemRepository.create({
+        userId,
+        productId,
+        referencePrice: this.wishlistAlertsService.effectivePrice(product),
+      });
+
+    item.listType = WishlistListType.SAVED_FOR_LATER;
+    item.quantity = quantity;
+    return await this.wishlistItemRepository.save(item);
+  }
+
+  /**
+   * Bật / tắt thông báo. Bật báo giảm giá → lấy giá hiện tại làm mốc.
+   */
+  async updateAlerts(
+    userId: string,
+    productId: string,
+    dto: UpdateWishlistAlertsDto,
+  ): Promise<WishlistItem> {
+    const item = await this.findItem(userId, productId);
+
+    if (dto.notifyBackInStock !== undefined) {
+      item.notifyBackInStock = dto.notifyBackInStock;
+    }
+    if (dto.notifyPriceDrop !== undefined) {
+      if (dto.notifyPriceDrop && !item.notifyPriceDrop) {
+        const product = await this.findProduct(productId);
+        item.referencePrice =
+          this.wishlistAlertsService.effectivePrice(product);
+      }
+      item.notifyPriceDrop = dto.notifyPriceDrop;
+    }
+
+    return await this.wishlistItemRepository.save(item);
+  }
+
+  async remove(userId: string, productId: string): Promise<void> {
+    const item = await this.findItem(userId, productId);
+    await this.wishlistItemRepository.remove(item);
+  }
+
+  private async findItem(
+    userId: string,
+    productId: string,
+  ): Promise<WishlistItem> {
+    const item = await this.wishlistItemRepository.findOne({
+      where: { userId, productId },
+    });
+    if (!item) {
+      throw new NotFoundException('Product not found in wishlist');
+    }
+    return item;
+  }
+
+  private async findProduct(productId: string): Promise<Product> {
+    const product = await this.productRepository.findOne({
+      where: { productId },
+    });
+    if (!product) {
+      throw new NotFoundException(`Product with ID ${productId} not found`);
+    }
+    return product;
+  }
+}
@@ -6,12 +6,14 @@ import { WithdrawalOtpSession } from './entities/withdrawal-otp-session.entity';
 import { User } from '../users/entities/user.entity';
 import { Payment } from '../payments/entities/payment.entity';
 import { EmailModule } from '../email/email.module';
+import { LedgerModule } from '../ledger/ledger.module';
 import { WithdrawalsController } from './withdrawals.controller';
 
 @Module({
   imports: [
     TypeOrmModule.forFeature([WithdrawalRequest, WithdrawalOtpSession, User, Payment]),
     EmailModule,
+    LedgerModule,
   ],
   controllers: [WithdrawalsController],
   providers: [WithdrawalsService],
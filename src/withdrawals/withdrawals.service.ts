@@ -22,6 +22,12 @@ import {
   PaymentMethod,
 } from '../payments/entities/payment.entity';
 import { EmailService } from '../email/email.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { LedgerAccountType } from '../ledger/entities/ledger-account.entity';
+import {
+  LedgerReferenceType,
+  LedgerTransactionType,
+} from '../ledger/entities/ledger-transaction.entity';
 
 @Injectable()
 export class WithdrawalsService {
@@ -35,6 +41,7 @@ export class WithdrawalsService {
     @InjectRepository(Payment)
     private readonly paymentRepository: Repository<Payment>,
     private readonly emailService: EmailService,
+    private readonly ledgerService: LedgerService,
   ) {}
 
   private generateOTP(): string {
@@ -263,8 +270,16 @@ export class WithdrawalsService {
         );
       }
 
-      user.balance = Number(user.balance) - Number(request.amount);
-      await this.userRepository.save(user);
+      await this.ledgerService.transfer({
+        type: LedgerTransactionType.WITHDRAWAL,
+        description: `Withdrawal to ${request.bankName}`,
+        from: { userId: user.userId },
+        to: { type: LedgerAccountType.PLATFORM_BANK },
+        amount: Number(request.amount),
+        referenceType: LedgerReferenceType.WITHDRAWAL_REQUEST,
+        referenceId: request.requestId,
+        createdBy: adminUserId,
+      });
 
       request.approvedAt = new Date();
       request.approvedBy = adminUserId;